@@ -0,0 +1,42 @@
+-- Initial schema for persisted test results, healing attempts and reports.
+-- Each table keeps the queryable fields in columns and the full record as JSON.
+
+CREATE TABLE test_results (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL,
+  start_time TEXT,
+  end_time TEXT,
+  duration INTEGER,
+  data TEXT NOT NULL
+);
+
+CREATE INDEX idx_test_results_status ON test_results (status);
+CREATE INDEX idx_test_results_start_time ON test_results (start_time);
+
+CREATE TABLE healing_attempts (
+  id TEXT PRIMARY KEY,
+  test_id TEXT NOT NULL,
+  strategy TEXT NOT NULL,
+  success INTEGER NOT NULL,
+  confidence REAL NOT NULL,
+  duration INTEGER,
+  timestamp TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+
+CREATE INDEX idx_healing_attempts_test_id ON healing_attempts (test_id);
+CREATE INDEX idx_healing_attempts_strategy ON healing_attempts (strategy);
+CREATE INDEX idx_healing_attempts_timestamp ON healing_attempts (timestamp);
+
+CREATE TABLE reports (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  status TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+
+CREATE INDEX idx_reports_type ON reports (type);
+CREATE INDEX idx_reports_created_at ON reports (created_at);
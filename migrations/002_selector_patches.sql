@@ -0,0 +1,14 @@
+-- Selector patches proposed from healed locators, awaiting or past review.
+
+CREATE TABLE selector_patches (
+  id TEXT PRIMARY KEY,
+  status TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  test_id TEXT,
+  confidence REAL NOT NULL,
+  created_at TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+
+CREATE INDEX idx_selector_patches_status ON selector_patches (status);
+CREATE INDEX idx_selector_patches_file_path ON selector_patches (file_path);
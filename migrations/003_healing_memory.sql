@@ -0,0 +1,15 @@
+-- Learned heals: original selectors mapped to replacements that worked before.
+
+CREATE TABLE healing_memory (
+  id TEXT PRIMARY KEY,
+  original_selector TEXT NOT NULL,
+  healed_selector TEXT NOT NULL,
+  url TEXT NOT NULL,
+  strategy TEXT NOT NULL,
+  hits INTEGER NOT NULL,
+  last_used_at TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+
+CREATE INDEX idx_healing_memory_original_selector ON healing_memory (original_selector);
+CREATE INDEX idx_healing_memory_last_used_at ON healing_memory (last_used_at);
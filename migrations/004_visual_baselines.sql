@@ -0,0 +1,13 @@
+-- Visual baselines: element screenshot crops captured during passing runs.
+
+CREATE TABLE visual_baselines (
+  id TEXT PRIMARY KEY,
+  selector TEXT NOT NULL,
+  url TEXT NOT NULL,
+  test_id TEXT,
+  updated_at TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+
+CREATE INDEX idx_visual_baselines_selector ON visual_baselines (selector);
+CREATE INDEX idx_visual_baselines_updated_at ON visual_baselines (updated_at);
@@ -0,0 +1,5 @@
+-- Review status of heals suggested for approval instead of applied.
+
+ALTER TABLE healing_attempts ADD COLUMN review_status TEXT;
+
+CREATE INDEX idx_healing_attempts_review_status ON healing_attempts (review_status);
@@ -0,0 +1,11 @@
+-- Quarantined tests: flaky tests that run without failing the build.
+
+CREATE TABLE test_quarantine (
+  id TEXT PRIMARY KEY,
+  quarantined_by TEXT,
+  created_at TEXT NOT NULL,
+  expires_at TEXT,
+  data TEXT NOT NULL
+);
+
+CREATE INDEX idx_test_quarantine_created_at ON test_quarantine (created_at);
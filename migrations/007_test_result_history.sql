@@ -0,0 +1,11 @@
+-- Test name and matrix flag of test results, for per-test run history queries.
+-- Matrix cells carry the name of their matrix test.
+
+ALTER TABLE test_results ADD COLUMN test_name TEXT;
+ALTER TABLE test_results ADD COLUMN matrix INTEGER;
+
+UPDATE test_results
+SET test_name = COALESCE(json_extract(data, '$.execution.testName'), name),
+    matrix = CASE WHEN json_extract(data, '$.matrix') IS NULL THEN 0 ELSE 1 END;
+
+CREATE INDEX idx_test_results_test_name ON test_results (test_name, start_time);
@@ -9,6 +9,7 @@ import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { logger } from '../../utils/logger';
 import { ValidationError } from './errorHandler';
+import { MAX_MATRIX_CELLS, MAX_MATRIX_DIMENSION, expandMatrix } from '../../core/TestMatrix';
 
 /**
  * Validation options
@@ -128,6 +129,28 @@ export function requestValidationMiddleware(options: ValidationOptions) {
   };
 }
 
+/**
+ * Browser matrix of a test: browsers x devices x locales, capped in size
+ */
+const testMatrixSchema = Joi.object({
+  browsers: Joi.array().items(Joi.string().valid('chromium', 'firefox', 'webkit')).unique().optional(),
+  devices: Joi.array().items(Joi.alternatives().try(
+    Joi.string().min(1).max(100),
+    Joi.object({
+      name: Joi.string().optional().max(100),
+      width: Joi.number().integer().min(1).required(),
+      height: Joi.number().integer().min(1).required(),
+    })
+  )).unique().max(MAX_MATRIX_DIMENSION).optional(),
+  locales: Joi.array().items(Joi.string().min(2).max(35)).unique().max(MAX_MATRIX_DIMENSION).optional(),
+}).or('browsers', 'devices', 'locales').custom((value, helpers) => {
+  const cells = expandMatrix(value).length;
+  if (cells > MAX_MATRIX_CELLS) {
+    return helpers.message({ custom: `"matrix" has ${cells} combinations, more than the limit of ${MAX_MATRIX_CELLS}` });
+  }
+  return value;
+});
+
 /**
  * Common validation schemas
  */
@@ -176,13 +199,18 @@ export const CommonSchemas = {
     engine: Joi.string().required().min(1).max(100),
     config: Joi.object().required(),
     options: Joi.object({
-      timeout: Joi.number().integer().min(1000).max(300000).default(30000),
-      retries: Joi.number().integer().min(0).max(5).default(0),
+      timeout: Joi.number().integer().min(1000).max(300000).optional(),
+      retries: Joi.number().integer().min(0).max(5).optional(),
       parallel: Joi.boolean().default(false),
       healing: Joi.boolean().default(true),
+      environment: Joi.string().optional().min(1).max(100),
+      matrix: testMatrixSchema.optional(),
     }).optional(),
   }),
 
+  // Test matrix schema
+  testMatrix: testMatrixSchema,
+
   // Test result query schema
   testResultQuery: Joi.object({
     status: Joi.string().valid('passed', 'failed', 'skipped', 'running').optional(),
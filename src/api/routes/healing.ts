@@ -16,21 +16,33 @@ import {
   asyncHandler, 
   createSuccessResponse,
   ApiError,
-  NotFoundError
+  NotFoundError,
+  ConflictError
 } from '../middleware/errorHandler';
-import { HealingResult } from '../../types';
-
-// Extended interface for API usage
-interface ApiHealingResult extends HealingResult {
-  testId: string;
-  strategy: string;
-  timestamp: Date;
-  changes?: {
-    before: string;
-    after: string;
-    type: string;
-  };
-}
+import {
+  HealingAttemptFilter,
+  HealingAttemptRecord,
+  HealingMemoryFilter,
+  HealingReviewStatus,
+  SelectorPatchFilter
+} from '../../storage';
+import {
+  getHealingEngine,
+  getHealingMemory,
+  getHealingReplayer,
+  getHealingSuggestionManager,
+  getSelectorPatchManager,
+  getStorage
+} from '../storage/shared';
+import { SelectorChange, SelectorPatchError, findSelectorAction } from '../../healing/SelectorPatchManager';
+import { HealingSuggestionError, getSuggestionFeedback } from '../../healing/HealingSuggestionManager';
+import {
+  HealingReplay,
+  HealingReplayError,
+  createFailureFromResult,
+  getStoredFailures
+} from '../../healing/HealingReplay';
+import { SelectorPatchStatus, TestFailure } from '../../types';
 
 // TODO: Import actual services when they're implemented
 // import { HealingEngine } from '../../healing/HealingEngine';
@@ -42,7 +54,6 @@ const router = Router();
  * In-memory storage for demo purposes
  * TODO: Replace with actual database/service integration
  */
-const healingAttempts = new Map<string, ApiHealingResult>();
 const healingStrategies = new Map<string, any>();
 
 /**
@@ -73,8 +84,8 @@ router.get('/strategies',
       //   pagination: { page, limit, sort, sortBy },
       // });
 
-      // Demo implementation
-      const allStrategies = [
+      // Demo implementation; success rates are those observed by the healing engine
+      const strategies = [
         {
           id: 'css-fallback',
           name: 'CSS Fallback Strategy',
@@ -83,10 +94,6 @@ router.get('/strategies',
           failureTypes: ['element-not-found', 'element-not-visible'],
           enabled: true,
           confidence: 0.8,
-          avgSuccessRate: 0.75,
-          avgExecutionTime: 150,
-          lastUsed: new Date(),
-          usageCount: 1250,
         },
         {
           id: 'id-fallback',
@@ -96,10 +103,6 @@ router.get('/strategies',
           failureTypes: ['element-not-found'],
           enabled: true,
           confidence: 0.9,
-          avgSuccessRate: 0.85,
-          avgExecutionTime: 100,
-          lastUsed: new Date(),
-          usageCount: 2100,
         },
         {
           id: 'xpath-fallback',
@@ -109,10 +112,6 @@ router.get('/strategies',
           failureTypes: ['element-not-found', 'element-not-visible'],
           enabled: true,
           confidence: 0.7,
-          avgSuccessRate: 0.65,
-          avgExecutionTime: 200,
-          lastUsed: new Date(),
-          usageCount: 850,
         },
         {
           id: 'neighbor-analysis',
@@ -122,10 +121,23 @@ router.get('/strategies',
           failureTypes: ['element-not-found', 'element-not-visible'],
           enabled: true,
           confidence: 0.6,
-          avgSuccessRate: 0.55,
-          avgExecutionTime: 300,
-          lastUsed: new Date(),
-          usageCount: 450,
+        },
+        {
+          id: 'accessibility-locator',
+          name: 'Accessibility Locator Strategy',
+          description: 'Proposes role and accessible-name locators matching the intent of the broken selector',
+          version: '1.0.0',
+          failureTypes: ['element-not-found', 'element-not-visible'],
+          enabled: true,
+          confidence: 0.7,
+        },
+        {
+          id: 'visual-match',
+          name: 'Visual Match Strategy',
+          description: 'Finds the element by matching its screenshot from a passing run against the failing page',
+          version: '1.0.0',
+          failureTypes: ['element-not-found', 'element-not-visible'],
+          enabled: true,
         },
         {
           id: 'simple-locator',
@@ -135,12 +147,13 @@ router.get('/strategies',
           failureTypes: ['element-not-found'],
           enabled: true,
           confidence: 0.5,
-          avgSuccessRate: 0.45,
-          avgExecutionTime: 80,
-          lastUsed: new Date(),
-          usageCount: 320,
         },
       ];
+      const successRates = getHealingEngine()?.getStats().successRateByStrategy ?? {};
+      const allStrategies = strategies.map(strategy => {
+        const avgSuccessRate = successRates[strategy.id];
+        return avgSuccessRate !== undefined ? { ...strategy, avgSuccessRate } : strategy;
+      });
 
       // Apply filters
       let filteredStrategies = allStrategies;
@@ -157,8 +170,9 @@ router.get('/strategies',
 
       // Apply sorting
       filteredStrategies.sort((a, b) => {
-        const aValue = a[sortBy as keyof typeof a];
-        const bValue = b[sortBy as keyof typeof b];
+        // Strategies without a value sort as if it were empty
+        const aValue = a[sortBy as keyof typeof a] ?? '';
+        const bValue = b[sortBy as keyof typeof b] ?? '';
         
         if (sort === 'asc') {
           return aValue > bValue ? 1 : -1;
@@ -298,76 +312,26 @@ router.get('/attempts',
     const endDate = req.query['endDate'] as string;
     const testId = req.query['testId'] as string;
     const strategy = req.query['strategy'] as string;
-    const success = req.query['success'] === 'true';
+    const success = req.query['success'] !== undefined ? req.query['success'] === 'true' : undefined;
     const minConfidence = parseFloat(req.query['minConfidence'] as string || '0');
+    const reviewStatus = req.query['reviewStatus'] as string;
 
     logger.debug('Healing attempts requested', {
       requestId,
-      filters: { testId, strategy, success, minConfidence, startDate, endDate },
+      filters: { testId, strategy, success, minConfidence, reviewStatus, startDate, endDate },
       pagination: { page, limit, sort, sortBy },
     });
 
     try {
-      // TODO: Replace with actual database query
-      // const attempts = await healingService.getAttempts({
-      //   filters: { testId, strategy, success, minConfidence, startDate, endDate },
-      //   pagination: { page, limit, sort, sortBy },
-      // });
-
-      // Demo implementation
-      let allAttempts = Array.from(healingAttempts.values());
-
-      // Apply filters
-      if (testId) {
-        allAttempts = allAttempts.filter(a => a.testId === testId);
-      }
-      if (strategy) {
-        allAttempts = allAttempts.filter(a => a.strategy === strategy);
-      }
-      if (success !== undefined) {
-        allAttempts = allAttempts.filter(a => a.success === success);
-      }
-      if (minConfidence) {
-        allAttempts = allAttempts.filter(a => a.confidence >= minConfidence);
-      }
-      if (startDate) {
-        const start = new Date(startDate as string);
-        allAttempts = allAttempts.filter(a => a.timestamp >= start);
-      }
-      if (endDate) {
-        const end = new Date(endDate as string);
-        allAttempts = allAttempts.filter(a => a.timestamp <= end);
-      }
-
-      // Apply sorting
-      allAttempts.sort((a, b) => {
-        const aValue = a[sortBy as keyof HealingResult];
-        const bValue = b[sortBy as keyof HealingResult];
-        
-        if (sort === 'asc') {
-          return aValue > bValue ? 1 : -1;
-        } else {
-          return aValue < bValue ? 1 : -1;
-        }
-      });
-
-      // Apply pagination
-      const total = allAttempts.length;
-      const startIndex = (page - 1) * limit;
-      const endIndex = startIndex + limit;
-      const items = allAttempts.slice(startIndex, endIndex);
+      const { items, ...pagination } = await getStorage().healingAttempts.find(
+        buildAttemptFilter({ testId, strategy, success, minConfidence, reviewStatus, startDate, endDate }),
+        { page, limit, sort: sort === 'asc' ? 'asc' : 'desc', sortBy }
+      );
 
       res.json(createSuccessResponse({
         items,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages: Math.ceil(total / limit),
-          hasNext: endIndex < total,
-          hasPrev: page > 1,
-        },
-        filters: { testId, strategy, success, minConfidence, startDate, endDate },
+        pagination,
+        filters: { testId, strategy, success, minConfidence, reviewStatus, startDate, endDate },
       }));
 
     } catch (error) {
@@ -403,7 +367,7 @@ router.get('/attempts/:id',
       attemptId,
     });
 
-    const attempt = healingAttempts.get(attemptId);
+    const attempt = await getStorage().healingAttempts.findById(attemptId);
     
     if (!attempt) {
       throw new NotFoundError(`Healing attempt with ID ${attemptId}`, requestId);
@@ -414,6 +378,54 @@ router.get('/attempts/:id',
   })
 );
 
+/**
+ * POST /api/v1/healing/attempts/:id/approve
+ * Approve a suggested heal, counting it as a success of its strategy
+ */
+router.post('/attempts/:id/approve',
+  requestValidationMiddleware({
+    params: CommonSchemas.idParam,
+    body: patchReviewSchema(),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const attemptId = req.params['id'] as string;
+    const { reviewer, reason } = req.body ?? {};
+
+    logger.info('Healing suggestion approval requested', { requestId, attemptId, reviewer });
+
+    const attempt = await runSuggestionReview(requestId, attemptId, true, () =>
+      getHealingSuggestionManager().approve(attemptId, reviewer, reason)
+    );
+
+    res.json(createSuccessResponse(attempt, 'Healing suggestion approved'));
+  })
+);
+
+/**
+ * POST /api/v1/healing/attempts/:id/reject
+ * Reject a suggested heal, counting it as a failure of its strategy
+ */
+router.post('/attempts/:id/reject',
+  requestValidationMiddleware({
+    params: CommonSchemas.idParam,
+    body: patchReviewSchema(),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const attemptId = req.params['id'] as string;
+    const { reviewer, reason } = req.body ?? {};
+
+    logger.info('Healing suggestion rejection requested', { requestId, attemptId, reviewer });
+
+    const attempt = await runSuggestionReview(requestId, attemptId, false, () =>
+      getHealingSuggestionManager().reject(attemptId, reviewer, reason)
+    );
+
+    res.json(createSuccessResponse(attempt, 'Healing suggestion rejected'));
+  })
+);
+
 /**
  * GET /api/v1/healing/statistics
  * Get healing statistics and metrics
@@ -435,36 +447,14 @@ router.get('/statistics',
     });
 
     try {
-      // TODO: Replace with actual database aggregation
-      // const stats = await healingService.getStatistics({
-      //   startDate,
-      //   endDate,
-      //   groupBy,
-      //   strategy,
-      // });
-
-      // Demo implementation
-      let allAttempts = Array.from(healingAttempts.values());
-
-      // Apply date filter
-      if (startDate) {
-        const start = new Date(startDate as string);
-        allAttempts = allAttempts.filter(a => a.timestamp >= start);
-      }
-      if (endDate) {
-        const end = new Date(endDate as string);
-        allAttempts = allAttempts.filter(a => a.timestamp <= end);
-      }
-
-      // Apply strategy filter
-      if (strategy) {
-        allAttempts = allAttempts.filter(a => a.strategy === strategy);
-      }
+      const allAttempts = await getStorage().healingAttempts.findAll(
+        buildAttemptFilter({ strategy, startDate, endDate })
+      );
 
-      // Calculate statistics
+      // Calculate statistics; reviewed suggestions count by their verdict
       const total = allAttempts.length;
-      const successful = allAttempts.filter(a => a.success).length;
-      const failed = allAttempts.filter(a => !a.success).length;
+      const successful = allAttempts.filter(isSuccessfulAttempt).length;
+      const failed = total - successful;
       const successRate = total > 0 ? (successful / total) * 100 : 0;
 
       const avgConfidence = total > 0 
@@ -488,7 +478,7 @@ router.get('/statistics',
         }
         
         acc[attempt.strategy].total++;
-        if (attempt.success) {
+        if (isSuccessfulAttempt(attempt)) {
           acc[attempt.strategy].successful++;
         } else {
           acc[attempt.strategy].failed++;
@@ -515,6 +505,7 @@ router.get('/statistics',
         avgConfidence: Math.round(avgConfidence * 100) / 100,
         avgDuration: Math.round(avgDuration),
         strategyStats,
+        reviews: countReviews(allAttempts),
         dateRange: {
           startDate: startDate || null,
           endDate: endDate || null,
@@ -573,7 +564,7 @@ router.post('/attempts',
 
       // Demo implementation
       const attemptId = generateAttemptId(testId);
-      const result: ApiHealingResult = {
+      const result: HealingAttemptRecord = {
         id: attemptId,
         testId,
         strategy,
@@ -595,7 +586,7 @@ router.post('/attempts',
         },
       };
 
-      healingAttempts.set(attemptId, result);
+      await getStorage().healingAttempts.save(result);
 
       res.status(201).json(createSuccessResponse({
         attemptId,
@@ -619,8 +610,565 @@ router.post('/attempts',
   })
 );
 
+/**
+ * POST /api/v1/healing/replay
+ * Re-run healing against a stored failure's DOM snapshot without re-running the test
+ *
+ * Replays the failures stored with the test result's healing attempts, or the
+ * failure context of the test result for a given selector. Nothing is stored
+ * unless `record` is set.
+ */
+router.post('/replay',
+  requestValidationMiddleware({
+    body: Joi.object({
+      testId: Joi.string().required().min(1).max(100),
+      attemptId: Joi.string().optional().min(1).max(200),
+      selector: Joi.string().optional().min(1).max(1000),
+      strategies: Joi.array().items(Joi.string().min(1).max(100)).optional(),
+      mode: Joi.string().valid('off', 'suggest', 'auto-apply', 'auto-apply-above-threshold').optional(),
+      confidenceThreshold: Joi.number().min(0).max(1).optional(),
+      minConfidence: Joi.number().min(0).max(1).optional(),
+      browser: Joi.boolean().optional(),
+      record: Joi.boolean().default(false),
+    }).nand('attemptId', 'selector'),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const { testId, attemptId, selector, record, ...options } = req.body;
+
+    logger.info('Healing replay requested', { requestId, testId, attemptId, selector, record });
+
+    const result = await getStorage().testResults.findById(testId);
+    if (!result) {
+      throw new NotFoundError(`Test result with ID ${testId}`, requestId);
+    }
+    if (attemptId && !result.healingAttempts.some(attempt => attempt.id === attemptId)) {
+      throw new NotFoundError(`Healing attempt with ID ${attemptId}`, requestId);
+    }
+
+    let failures: TestFailure[];
+    if (selector) {
+      const failure = createFailureFromResult(result, selector);
+      if (!failure) {
+        throw new ApiError(`Test result ${testId} has no failure context to replay`, 422, true, requestId);
+      }
+      failures = [failure];
+    } else {
+      failures = getStoredFailures(result, attemptId);
+      if (failures.length === 0) {
+        throw new ApiError(
+          `Test result ${testId} has no stored healing failures to replay; pass the selector that failed to replay its failure context`,
+          422,
+          true,
+          requestId
+        );
+      }
+    }
+
+    const replayer = getHealingReplayer();
+    const replays: HealingReplay[] = [];
+    for (const failure of failures) {
+      replays.push(await runReplayOperation(requestId, () => replayer.replay(failure, options)));
+    }
+
+    const recorded: string[] = [];
+    if (record) {
+      for (const replay of replays) {
+        recorded.push((await recordReplay(testId, replay)).id);
+      }
+    }
+
+    res.json(createSuccessResponse({ testId, replays, recorded }, 'Healing replayed'));
+  })
+);
+
+/**
+ * GET /api/v1/healing/patches
+ * List selector patches, newest first by default
+ */
+router.get('/patches',
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const page = parseInt(req.query['page'] as string || '1', 10);
+    const limit = parseInt(req.query['limit'] as string || '10', 10);
+    const sort = req.query['sort'] as string || 'desc';
+    const sortBy = req.query['sortBy'] as string || 'createdAt';
+    const status = req.query['status'] as string;
+    const filePath = req.query['filePath'] as string;
+    const testId = req.query['testId'] as string;
+
+    const filter: SelectorPatchFilter = {};
+    if (status && PATCH_STATUSES.includes(status as SelectorPatchStatus)) {
+      filter.status = status as SelectorPatchStatus;
+    }
+    if (filePath) {
+      filter.filePath = filePath;
+    }
+    if (testId) {
+      filter.testId = testId;
+    }
+
+    logger.debug('Selector patches requested', {
+      requestId,
+      filter,
+      pagination: { page, limit, sort, sortBy },
+    });
+
+    const { items, ...pagination } = await getStorage().selectorPatches.find(
+      filter,
+      { page, limit, sort: sort === 'asc' ? 'asc' : 'desc', sortBy }
+    );
+
+    res.json(createSuccessResponse({
+      items,
+      pagination,
+      filters: filter,
+    }));
+  })
+);
+
+/**
+ * GET /api/v1/healing/patches/:id
+ * Get a selector patch, including its diff
+ */
+router.get('/patches/:id',
+  requestValidationMiddleware({
+    params: CommonSchemas.idParam,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const patchId = req.params['id'] as string;
+
+    const patch = await getStorage().selectorPatches.findById(patchId);
+    if (!patch) {
+      throw new NotFoundError(`Selector patch with ID ${patchId}`, requestId);
+    }
+
+    res.json(createSuccessResponse(patch));
+  })
+);
+
+/**
+ * POST /api/v1/healing/patches
+ * Propose a selector patch from explicit selectors or a stored healing attempt
+ */
+router.post('/patches',
+  requestValidationMiddleware({
+    body: Joi.object({
+      filePath: Joi.string().required().min(1).max(1000),
+      source: Joi.string().optional(),
+      attemptId: Joi.string().optional().min(1).max(200),
+      testId: Joi.string().optional().min(1).max(100),
+      originalSelector: Joi.string().optional().min(1).max(1000),
+      healedSelector: Joi.string().optional().min(1).max(1000),
+      strategy: Joi.string().optional().min(1).max(100),
+      confidence: Joi.number().min(0).max(1).optional(),
+    })
+      .or('attemptId', 'healedSelector')
+      .with('healedSelector', ['originalSelector', 'confidence']),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const { filePath, source, attemptId } = req.body;
+
+    logger.info('Selector patch proposal requested', {
+      requestId,
+      filePath,
+      attemptId,
+    });
+
+    const change: SelectorChange = attemptId
+      ? await changeFromAttempt(attemptId, requestId)
+      : {
+        originalSelector: req.body.originalSelector,
+        healedSelector: req.body.healedSelector,
+        strategy: req.body.strategy || 'manual',
+        confidence: req.body.confidence,
+      };
+    if (req.body.testId) {
+      change.testId = req.body.testId;
+    }
+
+    const patch = await runPatchOperation(requestId, () =>
+      getSelectorPatchManager().propose(change, source !== undefined ? { filePath, source } : { filePath })
+    );
+
+    res.status(201).json(createSuccessResponse(
+      patch,
+      patch.status === 'pending' ? 'Selector patch queued for review' : 'Selector patch approved',
+      201
+    ));
+  })
+);
+
+/**
+ * POST /api/v1/healing/patches/:id/approve
+ * Approve a pending selector patch and write its diff and selector map
+ */
+router.post('/patches/:id/approve',
+  requestValidationMiddleware({
+    params: CommonSchemas.idParam,
+    body: patchReviewSchema(),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const patchId = req.params['id'] as string;
+    const { reviewer, reason } = req.body ?? {};
+
+    logger.info('Selector patch approval requested', { requestId, patchId, reviewer });
+
+    const patch = await runPatchOperation(requestId, () =>
+      getSelectorPatchManager().approve(patchId, reviewer, reason)
+    );
+    if (!patch) {
+      throw new NotFoundError(`Selector patch with ID ${patchId}`, requestId);
+    }
+
+    res.json(createSuccessResponse(patch, 'Selector patch approved'));
+  })
+);
+
+/**
+ * POST /api/v1/healing/patches/:id/reject
+ * Reject a pending selector patch
+ */
+router.post('/patches/:id/reject',
+  requestValidationMiddleware({
+    params: CommonSchemas.idParam,
+    body: patchReviewSchema(),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const patchId = req.params['id'] as string;
+    const { reviewer, reason } = req.body ?? {};
+
+    logger.info('Selector patch rejection requested', { requestId, patchId, reviewer });
+
+    const patch = await runPatchOperation(requestId, () =>
+      getSelectorPatchManager().reject(patchId, reviewer, reason)
+    );
+    if (!patch) {
+      throw new NotFoundError(`Selector patch with ID ${patchId}`, requestId);
+    }
+
+    res.json(createSuccessResponse(patch, 'Selector patch rejected'));
+  })
+);
+
+/**
+ * GET /api/v1/healing/memory
+ * List remembered heals with their current scores
+ */
+router.get('/memory',
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const page = parseInt(req.query['page'] as string || '1', 10);
+    const limit = parseInt(req.query['limit'] as string || '10', 10);
+    const sort = req.query['sort'] as string || 'desc';
+    const sortBy = req.query['sortBy'] as string || 'lastUsedAt';
+    const selector = req.query['selector'] as string;
+    const url = req.query['url'] as string;
+    const strategy = req.query['strategy'] as string;
+
+    const filter: HealingMemoryFilter = {};
+    if (selector) {
+      filter.originalSelector = selector;
+    }
+    if (url) {
+      filter.url = url;
+    }
+    if (strategy) {
+      filter.strategy = strategy;
+    }
+
+    logger.debug('Healing memory requested', {
+      requestId,
+      filter,
+      pagination: { page, limit, sort, sortBy },
+    });
+
+    const memory = getHealingMemory();
+    const { items, ...pagination } = await getStorage().healingMemory.find(
+      filter,
+      { page, limit, sort: sort === 'asc' ? 'asc' : 'desc', sortBy }
+    );
+
+    res.json(createSuccessResponse({
+      items: items.map(entry => ({ ...entry, score: roundScore(memory.score(entry)) })),
+      pagination,
+      filters: { selector, url, strategy },
+    }));
+  })
+);
+
+/**
+ * GET /api/v1/healing/memory/:id
+ * Get a remembered heal
+ */
+router.get('/memory/:id',
+  requestValidationMiddleware({
+    params: CommonSchemas.idParam,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const entryId = req.params['id'] as string;
+
+    const entry = await getStorage().healingMemory.findById(entryId);
+    if (!entry) {
+      throw new NotFoundError(`Healing memory entry with ID ${entryId}`, requestId);
+    }
+
+    res.json(createSuccessResponse({ ...entry, score: roundScore(getHealingMemory().score(entry)) }));
+  })
+);
+
+/**
+ * DELETE /api/v1/healing/memory/:id
+ * Forget a remembered heal
+ */
+router.delete('/memory/:id',
+  requestValidationMiddleware({
+    params: CommonSchemas.idParam,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const entryId = req.params['id'] as string;
+
+    if (!await getStorage().healingMemory.delete(entryId)) {
+      throw new NotFoundError(`Healing memory entry with ID ${entryId}`, requestId);
+    }
+
+    logger.info('Healing memory entry deleted', { requestId, entryId });
+    res.json(createSuccessResponse({ id: entryId, deleted: true }, 'Healing memory entry deleted'));
+  })
+);
+
+/**
+ * DELETE /api/v1/healing/memory
+ * Purge stale remembered heals, or all of them with ?all=true
+ */
+router.delete('/memory',
+  requestValidationMiddleware({
+    query: Joi.object({
+      all: Joi.boolean().optional(),
+      belowScore: Joi.number().min(0).max(1).optional(),
+      lastUsedBefore: Joi.date().iso().optional(),
+    }),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const { all = false, belowScore, lastUsedBefore } = (req as any).validatedQuery as {
+      all?: boolean;
+      belowScore?: number;
+      lastUsedBefore?: Date;
+    };
+
+    const removed = await getHealingMemory().purge({
+      all,
+      ...(belowScore !== undefined && { belowScore }),
+      ...(lastUsedBefore && { lastUsedBefore }),
+    });
+
+    logger.info('Healing memory purge requested', { requestId, all, belowScore, lastUsedBefore, removed });
+    res.json(createSuccessResponse({ removed }, `Removed ${removed} healing memory entries`));
+  })
+);
+
 // Helper functions
 
+/**
+ * Round a memory score for display
+ */
+function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
+
+const PATCH_STATUSES: SelectorPatchStatus[] = ['pending', 'approved', 'rejected'];
+const REVIEW_STATUSES: HealingReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+/**
+ * Optional reviewer details for approving or rejecting a patch
+ */
+function patchReviewSchema(): Joi.ObjectSchema {
+  return Joi.object({
+    reviewer: Joi.string().optional().min(1).max(100),
+    reason: Joi.string().optional().max(1000),
+  });
+}
+
+/**
+ * Build a selector change from a stored healing attempt
+ */
+async function changeFromAttempt(attemptId: string, requestId: string): Promise<SelectorChange> {
+  const attempt = await getStorage().healingAttempts.findById(attemptId);
+  if (!attempt) {
+    throw new NotFoundError(`Healing attempt with ID ${attemptId}`, requestId);
+  }
+
+  const selectors = findSelectorAction(attempt.actions);
+  if (!attempt.success || !selectors) {
+    throw new ApiError(
+      `Healing attempt ${attemptId} did not produce a selector update`,
+      422,
+      true,
+      requestId
+    );
+  }
+
+  return {
+    ...selectors,
+    strategy: attempt.strategy,
+    confidence: attempt.confidence,
+    testId: attempt.testId,
+  };
+}
+
+/**
+ * Run a healing replay, mapping replay errors to API errors
+ */
+async function runReplayOperation<T>(requestId: string, operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (error instanceof HealingReplayError) {
+      throw new ApiError(error.message, 422, true, requestId);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Store the heal a replay picked as a healing attempt, queuing suggested heals for review
+ */
+async function recordReplay(testId: string, replay: HealingReplay): Promise<HealingAttemptRecord> {
+  const { result } = replay;
+  const selectors = findSelectorAction(result.actions);
+  return getStorage().healingAttempts.save({
+    ...result,
+    testId,
+    strategy: result.metadata?.['strategy'] || 'unknown',
+    timestamp: new Date(),
+    ...(selectors && {
+      changes: { before: selectors.originalSelector, after: selectors.healedSelector, type: 'selector' },
+    }),
+    ...(result.success && result.applied === false && { review: { status: 'pending' } }),
+    metadata: {
+      ...result.metadata,
+      replay: true,
+      failureId: replay.failureId,
+      source: replay.source,
+    },
+  });
+}
+
+/**
+ * Run a patch manager operation, mapping patch errors to API errors
+ */
+async function runPatchOperation<T>(requestId: string, operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (!(error instanceof SelectorPatchError)) {
+      throw error;
+    }
+    if (error.code === 'invalid_state') {
+      throw new ConflictError(error.message, requestId);
+    }
+    throw new ApiError(error.message, 422, true, requestId);
+  }
+}
+
+/**
+ * Run a suggestion review and feed the verdict back to the healing engine
+ */
+async function runSuggestionReview(
+  requestId: string,
+  attemptId: string,
+  approved: boolean,
+  operation: () => Promise<HealingAttemptRecord | null>
+): Promise<HealingAttemptRecord> {
+  let attempt: HealingAttemptRecord | null;
+  try {
+    attempt = await operation();
+  } catch (error) {
+    if (error instanceof HealingSuggestionError) {
+      throw new ConflictError(error.message, requestId);
+    }
+    throw error;
+  }
+  if (!attempt) {
+    throw new NotFoundError(`Healing attempt with ID ${attemptId}`, requestId);
+  }
+
+  const { strategy, failureType, site } = getSuggestionFeedback(attempt);
+  getHealingEngine()?.recordFeedback(strategy, failureType, site, approved);
+  return attempt;
+}
+
+/**
+ * Whether an attempt counts as a successful heal
+ *
+ * A rejected suggestion counts as a failure even though a heal was found.
+ */
+function isSuccessfulAttempt(attempt: HealingAttemptRecord): boolean {
+  return attempt.success && attempt.review?.status !== 'rejected';
+}
+
+/**
+ * Count suggested heals by review status
+ */
+function countReviews(attempts: HealingAttemptRecord[]): Record<HealingReviewStatus, number> {
+  const counts: Record<HealingReviewStatus, number> = { pending: 0, approved: 0, rejected: 0 };
+  for (const attempt of attempts) {
+    if (attempt.review) {
+      counts[attempt.review.status]++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Build a repository filter from query parameters, ignoring invalid values
+ */
+function buildAttemptFilter(query: {
+  testId?: string;
+  strategy?: string;
+  success?: boolean | undefined;
+  minConfidence?: number;
+  reviewStatus?: string;
+  startDate?: string;
+  endDate?: string;
+}): HealingAttemptFilter {
+  const filter: HealingAttemptFilter = {};
+
+  if (query.testId) {
+    filter.testId = query.testId;
+  }
+  if (query.strategy) {
+    filter.strategy = query.strategy;
+  }
+  if (query.success !== undefined) {
+    filter.success = query.success;
+  }
+  if (query.minConfidence) {
+    filter.minConfidence = query.minConfidence;
+  }
+  if (query.reviewStatus && REVIEW_STATUSES.includes(query.reviewStatus as HealingReviewStatus)) {
+    filter.reviewStatus = query.reviewStatus as HealingReviewStatus;
+  }
+
+  const startDate = query.startDate ? new Date(query.startDate) : undefined;
+  if (startDate && !isNaN(startDate.getTime())) {
+    filter.startDate = startDate;
+  }
+  const endDate = query.endDate ? new Date(query.endDate) : undefined;
+  if (endDate && !isNaN(endDate.getTime())) {
+    filter.endDate = endDate;
+  }
+
+  return filter;
+}
+
 /**
  * Generate a unique healing attempt ID
  */
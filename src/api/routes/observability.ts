@@ -9,9 +9,10 @@ import { Router, Request, Response } from 'express';
 import { createObservabilityManager } from '../../observability';
 import { asyncHandler, createSuccessResponse } from '../middleware/errorHandler';
 import { requestValidationMiddleware } from '../middleware/validation';
-import { ApiError } from '../middleware/errorHandler';
+import { ApiError, NotFoundError } from '../middleware/errorHandler';
 import Joi from 'joi';
 import { logger } from '../../utils/logger';
+import { getStorage } from '../storage/shared';
 
 const router = Router();
 
@@ -280,34 +281,21 @@ router.get('/reports',
     logger.debug('Available reports requested', { requestId, type, limit });
 
     try {
-      // For now, return a mock list of available reports
-      // In a real implementation, you would scan the reports directory
-      const reports = [
-        {
-          id: 'system-health-report',
-          type: 'health',
-          title: 'System Health Report',
-          description: 'Comprehensive system health analysis',
-          generatedAt: new Date(Date.now() - 3600000), // 1 hour ago
-          size: 1024,
-        },
-        {
-          id: 'performance-metrics-report',
-          type: 'metrics',
-          title: 'Performance Metrics Report',
-          description: 'System performance metrics analysis',
-          generatedAt: new Date(Date.now() - 7200000), // 2 hours ago
-          size: 2048,
-        },
-      ];
-
-      const filteredReports = type 
-        ? reports.filter(report => report.type === type)
-        : reports;
+      const { items, total } = await getStorage().reports.find(
+        type ? { type } : {},
+        { limit, sortBy: 'createdAt', sort: 'desc' }
+      );
 
       res.json(createSuccessResponse({
-        reports: filteredReports.slice(0, limit),
-        total: filteredReports.length,
+        reports: items.map(report => ({
+          id: report.id,
+          type: report.type,
+          title: report.title,
+          description: report.description,
+          generatedAt: report.createdAt,
+          size: report.size,
+        })),
+        total,
         filters: {
           type,
           limit,
@@ -371,6 +359,20 @@ router.post('/reports',
         },
       });
 
+      await getStorage().reports.save({
+        id: report.id,
+        type: report.type,
+        title: report.title,
+        description: report.description,
+        format: report.metadata.format,
+        status: 'completed',
+        createdAt: report.generatedAt,
+        completedAt: new Date(),
+        size: Buffer.byteLength(JSON.stringify(report)),
+        content: report,
+        metadata: {},
+      });
+
       res.status(201).json(createSuccessResponse({
         report,
         message: 'Report generated successfully',
@@ -412,52 +414,25 @@ router.get('/reports/:id',
 
     logger.debug('Specific report requested', { requestId, reportId });
 
-    try {
-      // For now, return a mock report
-      // In a real implementation, you would read the actual report file
-      const report = {
-        id: reportId,
-        type: 'health',
-        title: 'System Health Report',
-        description: 'Comprehensive system health analysis',
-        generatedAt: new Date(Date.now() - 3600000),
-        data: {
-          summary: {
-            uptime: process.uptime(),
-            timestamp: new Date().toISOString(),
-          },
-          health: {
-            status: 'healthy',
-            components: [
-              {
-                name: 'api-server',
-                status: 'healthy',
-                message: 'API server is running normally',
-              },
-            ],
-          },
-        },
-      };
-
-      res.json(createSuccessResponse({
-        report,
-        timestamp: new Date().toISOString(),
-      }));
+    const stored = await getStorage().reports.findById(reportId as string);
 
-    } catch (error) {
-      logger.error('Failed to get report', {
-        requestId,
-        reportId,
-        error: (error as Error).message,
-      });
-
-      throw new ApiError(
-        'Failed to get report',
-        500,
-        true,
-        requestId
-      );
+    if (!stored) {
+      throw new NotFoundError(`Report with ID ${reportId}`, requestId);
     }
+
+    const report = stored.content ?? {
+      id: stored.id,
+      type: stored.type,
+      title: stored.title,
+      description: stored.description,
+      generatedAt: stored.createdAt,
+      data: {},
+    };
+
+    res.json(createSuccessResponse({
+      report,
+      timestamp: new Date().toISOString(),
+    }));
   })
 );
 
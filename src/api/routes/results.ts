@@ -18,7 +18,9 @@ import {
   ApiError,
   NotFoundError 
 } from '../middleware/errorHandler';
-import { TestResult } from '../../types';
+import { TestStatus } from '../../types';
+import { ReportRecord, TestResultFilter } from '../../storage';
+import { FlakinessStatus } from '../../core/FlakyTests';
 
 // TODO: Import actual services when they're implemented
 // import { ResultsService } from '../../services/ResultsService';
@@ -26,7 +28,17 @@ import { TestResult } from '../../types';
 
 const router = Router();
 
-import { testResults, reports } from '../storage/shared';
+import { getFlakyTestTracker, getStorage } from '../storage/shared';
+
+/**
+ * Report type used for reports generated from test results
+ */
+const RESULTS_REPORT_TYPE = 'test-results';
+
+/**
+ * Flakiness statuses accepted by the flaky tests endpoint
+ */
+const FLAKINESS_STATUSES: FlakinessStatus[] = ['flaky', 'stable', 'failing', 'insufficient-history'];
 
 /**
  * GET /api/v1/results
@@ -54,53 +66,10 @@ router.get('/',
     });
 
     try {
-      // TODO: Replace with actual database query
-      // const results = await resultsService.getResults({
-      //   filters: { status, engine, testName, startDate, endDate },
-      //   pagination: { page, limit, sort, sortBy },
-      //   includeArtifacts,
-      //   includeHealingAttempts,
-      // });
-
-      // Demo implementation
-      let allResults = Array.from(testResults.values());
-
-      // Apply filters
-      if (status) {
-        allResults = allResults.filter(r => r.status === status);
-      }
-      if (engine) {
-        allResults = allResults.filter(r => r.name.includes(engine as string));
-      }
-      if (testName) {
-        allResults = allResults.filter(r => r.name.includes(testName as string));
-      }
-      if (startDate) {
-        const start = new Date(startDate as string);
-        allResults = allResults.filter(r => r.startTime >= start);
-      }
-      if (endDate) {
-        const end = new Date(endDate as string);
-        allResults = allResults.filter(r => r.startTime <= end);
-      }
-
-      // Apply sorting
-      allResults.sort((a, b) => {
-        const aValue = a[sortBy as keyof TestResult];
-        const bValue = b[sortBy as keyof TestResult];
-        
-        if (sort === 'asc') {
-          return (aValue as any) > (bValue as any) ? 1 : -1;
-        } else {
-          return (aValue as any) < (bValue as any) ? 1 : -1;
-        }
-      });
-
-      // Apply pagination
-      const total = allResults.length;
-      const startIndex = (page - 1) * limit;
-      const endIndex = startIndex + limit;
-      const items = allResults.slice(startIndex, endIndex);
+      const { items, ...pagination } = await getStorage().testResults.find(
+        buildResultFilter({ status, engine, testName, startDate, endDate }),
+        { page, limit, sort: sort === 'asc' ? 'asc' : 'desc', sortBy }
+      );
 
       // Remove sensitive data if not requested
       const filteredItems = items.map(result => ({
@@ -111,14 +80,7 @@ router.get('/',
 
       res.json(createSuccessResponse({
         items: filteredItems,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages: Math.ceil(total / limit),
-          hasNext: endIndex < total,
-          hasPrev: page > 1,
-        },
+        pagination,
         filters: {
           status,
           engine,
@@ -162,36 +124,17 @@ router.get('/summary',
     });
 
     try {
-      // TODO: Replace with actual database aggregation
-      // const summary = await resultsService.getSummary({
-      //   startDate,
-      //   endDate,
-      //   engine,
-      //   groupBy,
-      // });
-
-      // Demo implementation
-      let allResults = Array.from(testResults.values());
-
-      // Apply date filter
-      if (startDate) {
-        const start = new Date(startDate as string);
-        allResults = allResults.filter(r => r.startTime >= start);
-      }
-      if (endDate) {
-        const end = new Date(endDate as string);
-        allResults = allResults.filter(r => r.startTime <= end);
-      }
-
-      // Apply engine filter
-      if (engine) {
-        allResults = allResults.filter(r => r.name.includes(engine as string));
-      }
-
-      // Calculate summary statistics
+      const allResults = await getStorage().testResults.findAll(buildResultFilter({
+        engine: engine as string,
+        startDate: startDate as string,
+        endDate: endDate as string,
+      }));
+
+      // Calculate summary statistics; failures of quarantined tests do not count as failed
       const total = allResults.length;
       const passed = allResults.filter(r => r.status === 'passed').length;
-      const failed = allResults.filter(r => r.status === 'failed').length;
+      const quarantined = allResults.filter(r => r.status === 'failed' && r.quarantined).length;
+      const failed = allResults.filter(r => r.status === 'failed').length - quarantined;
       const skipped = allResults.filter(r => r.status === 'skipped').length;
       const running = allResults.filter(r => r.status === 'running').length;
 
@@ -207,16 +150,30 @@ router.get('/summary',
         0
       );
 
+      // Matrix tests that failed, with the cells their failures are specific to
+      const matrixFailures = allResults
+        .filter(r => r.matrix && r.status === 'failed')
+        .map(r => ({
+          testId: r.id,
+          name: r.name,
+          summary: r.matrix!.summary,
+          failedCells: r.matrix!.cells
+            .filter(cell => cell.status === 'failed' || cell.status === 'timeout')
+            .map(cell => cell.cell.id),
+        }));
+
       const summary = {
         total,
         passed,
         failed,
         skipped,
         running,
+        quarantined,
         successRate: Math.round(successRate * 100) / 100,
         failureRate: Math.round(failureRate * 100) / 100,
         avgDuration: Math.round(avgDuration),
         totalHealingAttempts,
+        matrixFailures,
         dateRange: {
           startDate: startDate || null,
           endDate: endDate || null,
@@ -243,6 +200,138 @@ router.get('/summary',
   })
 );
 
+/**
+ * GET /api/v1/results/flaky
+ * Get the flakiness of every test with stored runs, most flaky first
+ */
+router.get('/flaky',
+  requestValidationMiddleware({
+    query: Joi.object({
+      status: Joi.string().valid(...FLAKINESS_STATUSES, 'all').default('flaky'),
+      minScore: Joi.number().min(0).max(1).optional(),
+      testName: Joi.string().optional().min(1).max(200),
+      engine: Joi.string().optional(),
+      startDate: Joi.string().optional(),
+      endDate: Joi.string().optional(),
+    }),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const { status, minScore, testName, engine, startDate, endDate } = (req as any).validatedQuery as {
+      status: FlakinessStatus | 'all';
+      minScore?: number;
+      testName?: string;
+      engine?: string;
+      startDate?: string;
+      endDate?: string;
+    };
+
+    logger.debug('Flaky tests requested', {
+      requestId,
+      filters: { status, minScore, testName, engine, startDate, endDate },
+    });
+
+    const reports = await getFlakyTestTracker().analyze(buildResultFilter({
+      ...(testName && { testName }),
+      ...(engine && { engine }),
+      ...(startDate && { startDate }),
+      ...(endDate && { endDate }),
+    }));
+    const items = reports.filter(report =>
+      (status === 'all' || report.status === status) &&
+      (minScore === undefined || report.flakinessScore >= minScore)
+    );
+
+    res.json(createSuccessResponse({
+      items,
+      total: items.length,
+      filters: { status, minScore, testName, engine, startDate, endDate },
+    }));
+  })
+);
+
+/**
+ * GET /api/v1/results/flaky/quarantine
+ * List the quarantined tests
+ */
+router.get('/flaky/quarantine',
+  asyncHandler(async (_req: Request, res: Response) => {
+    const items = await getFlakyTestTracker().listQuarantine();
+
+    res.json(createSuccessResponse({
+      items,
+      total: items.length,
+    }));
+  })
+);
+
+/**
+ * POST /api/v1/results/flaky/quarantine
+ * Quarantine a test so its failures no longer fail the build
+ */
+router.post('/flaky/quarantine',
+  requestValidationMiddleware({
+    body: Joi.object({
+      testName: Joi.string().required().min(1).max(200),
+      reason: Joi.string().optional().max(1000),
+      quarantinedBy: Joi.string().optional().max(100),
+      expiresAt: Joi.date().iso().greater('now').optional(),
+    }),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const { testName, reason, quarantinedBy, expiresAt } = req.body;
+
+    logger.info('Test quarantine requested', { requestId, testName, quarantinedBy, expiresAt });
+
+    const entry = await getFlakyTestTracker().quarantineTest(testName, {
+      ...(reason && { reason }),
+      ...(quarantinedBy && { quarantinedBy }),
+      ...(expiresAt && { expiresAt }),
+    });
+
+    res.status(201).json(createSuccessResponse(entry, 'Test quarantined', 201));
+  })
+);
+
+/**
+ * DELETE /api/v1/results/flaky/quarantine/:testName
+ * Release a test from quarantine
+ */
+router.delete('/flaky/quarantine/:testName',
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const testName = req.params['testName'] as string;
+
+    if (!await getFlakyTestTracker().release(testName)) {
+      throw new NotFoundError(`Quarantined test ${testName}`, requestId);
+    }
+
+    logger.info('Test released from quarantine', { requestId, testName });
+    res.json(createSuccessResponse({ testName, released: true }, 'Test released from quarantine'));
+  })
+);
+
+/**
+ * GET /api/v1/results/flaky/:testName
+ * Get the flakiness of one test with its run history
+ */
+router.get('/flaky/:testName',
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const testName = req.params['testName'] as string;
+
+    logger.debug('Test flakiness requested', { requestId, testName });
+
+    const report = await getFlakyTestTracker().analyzeTest(testName);
+    if (!report) {
+      throw new NotFoundError(`Test runs of ${testName}`, requestId);
+    }
+
+    res.json(createSuccessResponse(report));
+  })
+);
+
 /**
  * GET /api/v1/results/:id
  * Get specific test result by ID
@@ -267,7 +356,7 @@ router.get('/:id',
       includeOutput,
     });
 
-    const testResult = testResults.get(testId);
+    const testResult = await getStorage().testResults.findById(testId);
     
     if (!testResult) {
       throw new NotFoundError(`Test result with ID ${testId}`, requestId);
@@ -326,41 +415,46 @@ router.post('/reports',
     });
 
     try {
-      // TODO: Replace with actual report generation
-      // const reportGenerator = new ReportGenerator();
-      // const report = await reportGenerator.generateReport({
-      //   name,
-      //   description,
-      //   format,
-      //   filters,
-      //   options,
-      // });
-
-      // Demo implementation
       const reportId = generateReportId(name);
-      const report = {
+      const reportRepository = getStorage().reports;
+
+      await reportRepository.save({
         id: reportId,
-        name,
-        description,
+        type: RESULTS_REPORT_TYPE,
+        title: name,
+        ...(description !== undefined && { description }),
         format,
         status: 'generating',
         createdAt: new Date(),
-        filters,
-        options,
-        downloadUrl: null,
-        size: null,
-      };
-
-      reports.set(reportId, report);
+        metadata: {
+          filters,
+          options,
+          downloadUrl: null,
+        },
+      });
 
       // Simulate report generation
       setTimeout(() => {
-        const generatedReport = reports.get(reportId);
-        if (generatedReport) {
-          generatedReport.status = 'completed';
-          generatedReport.downloadUrl = `/api/v1/results/reports/${reportId}/download`;
-          generatedReport.size = Math.floor(Math.random() * 1000000) + 100000; // 100KB - 1MB
-        }
+        void (async () => {
+          const generatedReport = await reportRepository.findById(reportId);
+          if (generatedReport) {
+            await reportRepository.save({
+              ...generatedReport,
+              status: 'completed',
+              completedAt: new Date(),
+              size: Math.floor(Math.random() * 1000000) + 100000, // 100KB - 1MB
+              metadata: {
+                ...generatedReport.metadata,
+                downloadUrl: `/api/v1/results/reports/${reportId}/download`,
+              },
+            });
+          }
+        })().catch(error => {
+          logger.error('Failed to complete test report', {
+            reportId,
+            error: (error as Error).message,
+          });
+        });
       }, 2000);
 
       res.status(202).json(createSuccessResponse({
@@ -403,7 +497,7 @@ router.get('/reports/:id',
       reportId,
     });
 
-    const report = reports.get(reportId);
+    const report = await findResultsReport(reportId);
     
     if (!report) {
       throw new NotFoundError(`Report with ID ${reportId}`, requestId);
@@ -431,7 +525,7 @@ router.get('/reports/:id/download',
       reportId,
     });
 
-    const report = reports.get(reportId);
+    const report = await findResultsReport(reportId);
     
     if (!report) {
       throw new NotFoundError(`Report with ID ${reportId}`, requestId);
@@ -461,6 +555,50 @@ router.get('/reports/:id/download',
   })
 );
 
+/**
+ * GET /api/v1/results/:id/matrix
+ * Get the per-cell results of a matrix test
+ */
+router.get('/:id/matrix',
+  requestValidationMiddleware({
+    params: CommonSchemas.idParam,
+    query: Joi.object({
+      status: Joi.string().valid('passed', 'failed', 'skipped', 'timeout', 'running', 'pending').optional(),
+    }),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = (req as any).requestId;
+    const testId = req.params['id'] as string;
+    const status = req.query['status'] as TestStatus | undefined;
+
+    logger.debug('Test matrix requested', {
+      requestId,
+      testId,
+      status,
+    });
+
+    const testResult = await getStorage().testResults.findById(testId);
+
+    if (!testResult?.matrix) {
+      throw new NotFoundError(`Matrix result for test ${testId}`, requestId);
+    }
+
+    const cells = status
+      ? testResult.matrix.cells.filter(cell => cell.status === status)
+      : testResult.matrix.cells;
+
+    res.json(createSuccessResponse({
+      testId,
+      name: testResult.name,
+      status: testResult.status,
+      summary: testResult.matrix.summary,
+      cells,
+      total: cells.length,
+    }));
+
+  })
+);
+
 /**
  * GET /api/v1/results/artifacts/:testId
  * Get test artifacts
@@ -469,7 +607,7 @@ router.get('/artifacts/:testId',
   requestValidationMiddleware({
     params: CommonSchemas.idParam,
     query: Joi.object({
-      type: Joi.string().valid('screenshot', 'video', 'trace', 'log', 'all').default('all'),
+      type: Joi.string().valid('screenshot', 'video', 'trace', 'log', 'har', 'dom', 'script', 'all').default('all'),
     }),
   }),
   asyncHandler(async (req: Request, res: Response) => {
@@ -483,7 +621,7 @@ router.get('/artifacts/:testId',
       type,
     });
 
-    const testResult = testResults.get(testId);
+    const testResult = await getStorage().testResults.findById(testId);
     
     if (!testResult) {
       throw new NotFoundError(`Test result with ID ${testId}`, requestId);
@@ -507,6 +645,80 @@ router.get('/artifacts/:testId',
 
 // Helper functions
 
+/**
+ * Build a repository filter from query parameters, ignoring invalid dates
+ */
+function buildResultFilter(query: {
+  status?: string;
+  engine?: string;
+  testName?: string;
+  startDate?: string;
+  endDate?: string;
+}): TestResultFilter {
+  const filter: TestResultFilter = {};
+
+  if (query.status) {
+    filter.status = query.status as TestStatus;
+  }
+  if (query.engine) {
+    filter.engine = query.engine;
+  }
+  if (query.testName) {
+    filter.testName = query.testName;
+  }
+
+  const startDate = parseDate(query.startDate);
+  if (startDate) {
+    filter.startDate = startDate;
+  }
+  const endDate = parseDate(query.endDate);
+  if (endDate) {
+    filter.endDate = endDate;
+  }
+
+  return filter;
+}
+
+/**
+ * Parse a date query parameter
+ */
+function parseDate(value?: string): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Load a results report in the shape returned by the reports endpoints
+ */
+async function findResultsReport(reportId: string) {
+  const record = await getStorage().reports.findById(reportId);
+  if (!record || record.type !== RESULTS_REPORT_TYPE) {
+    return null;
+  }
+  return toResultsReport(record);
+}
+
+/**
+ * Convert a stored report record to the results report response
+ */
+function toResultsReport(record: ReportRecord) {
+  return {
+    id: record.id,
+    name: record.title,
+    description: record.description,
+    format: record.format,
+    status: record.status,
+    createdAt: record.createdAt,
+    filters: record.metadata['filters'],
+    options: record.metadata['options'],
+    downloadUrl: record.metadata['downloadUrl'] ?? null,
+    size: record.size ?? null,
+  };
+}
+
 /**
  * Generate a unique report ID
  */
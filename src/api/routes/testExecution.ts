@@ -20,7 +20,8 @@ import {
   ConflictError,
   ValidationError
 } from '../middleware/errorHandler';
-import { TestResult } from '../../types';
+import { TestConfig, TestMatrix, TestResult, TestType } from '../../types';
+import { DEFAULT_ORCHESTRATION_CONFIG } from '../../core/TestOrchestrator';
 
 // Simplified interface for API requests
 interface ApiTestConfig {
@@ -33,14 +34,12 @@ interface ApiTestConfig {
     retries?: number;
     parallel?: boolean;
     healing?: boolean;
+    environment?: string;
+    matrix?: TestMatrix;
   };
 }
 
-// TODO: Import actual services when they're implemented
-// import { TestOrchestrator } from '../../core/TestOrchestrator';
-// import { TestEngineFactory } from '../../core/TestEngineFactory';
-
-import { testRuns, testQueue, syncTestRunToResults } from '../storage/shared';
+import { testRuns, getOrchestrator, getHealingMode, getEngineSettings } from '../storage/shared';
 
 const router = Router();
 
@@ -63,6 +62,12 @@ router.post('/execute',
     if (!testConfig.config) {
       throw new ValidationError('Test configuration is required', 'config');
     }
+    if (testConfig.options?.matrix !== undefined) {
+      const { error } = CommonSchemas.testMatrix.validate(testConfig.options.matrix);
+      if (error) {
+        throw new ValidationError(`Invalid test matrix: ${error.message}`, 'options.matrix');
+      }
+    }
 
     logger.info('Test execution requested', {
       requestId,
@@ -71,41 +76,8 @@ router.post('/execute',
     });
 
     try {
-      // TODO: Replace with actual test orchestration
-      // const orchestrator = new TestOrchestrator();
-      // const result = await orchestrator.executeTest(testConfig);
-
-      // Demo implementation
       const testId = generateTestId(testConfig.name);
-      const result: TestResult = {
-        id: testId,
-        name: testConfig.name,
-        status: 'running',
-        startTime: new Date(),
-        duration: 0,
-        output: '',
-        errors: [],
-        metrics: {
-          memoryUsage: 0,
-          cpuUsage: 0,
-          networkRequests: 0,
-          custom: {},
-        },
-        healingAttempts: [],
-        artifacts: [],
-      };
-
-      // Store test run
-      testRuns.set(testId, result);
-      testQueue.set(testId, testConfig);
-      
-      // Sync to test results for the results endpoint
-      syncTestRunToResults(testId, result);
-
-      // Simulate async test execution
-      setTimeout(() => {
-        simulateTestExecution(testId, testConfig);
-      }, 100);
+      getOrchestrator().submit(testId, toTestConfig(testConfig));
 
       res.status(202).json(createSuccessResponse(
         {
@@ -165,6 +137,7 @@ router.get('/:id/status',
     res.json(createSuccessResponse({
       testId,
       status: testResult.status,
+      ...(testResult.quarantined && { quarantined: true }),
       startTime: testResult.startTime,
       endTime: testResult.endTime,
       duration: testResult.duration,
@@ -244,23 +217,13 @@ router.post('/:id/cancel',
       throw new NotFoundError(`Test run with ID ${testId}`, requestId);
     }
 
-    if (testResult.status !== 'running') {
+    if (!getOrchestrator().cancel(testId)) {
       throw new ConflictError(
         `Cannot cancel test with status: ${testResult.status}`,
         requestId
       );
     }
 
-    // TODO: Implement actual test cancellation
-    // const orchestrator = new TestOrchestrator();
-    // await orchestrator.cancelTest(testId);
-
-    // Demo implementation
-    testResult.status = 'failed';
-    testResult.endTime = new Date();
-    testResult.duration = testResult.endTime.getTime() - testResult.startTime.getTime();
-    testResult.output += '\n[INFO] Test execution cancelled by user';
-
     res.json(createSuccessResponse({
       testId,
       status: 'cancelled',
@@ -290,14 +253,11 @@ router.get('/queue',
       sortBy,
     });
 
-    // TODO: Implement actual queue management
-    const queueItems = Array.from(testQueue.entries()).map(([id, config]) => ({
-      testId: id,
-      name: config.name,
-      engine: config.engine,
-      queuedAt: new Date(), // TODO: Track actual queue time
-      priority: 1, // TODO: Implement priority system
-    }));
+    // The orchestrator reports the queue oldest first
+    const queueItems = getOrchestrator().getQueue();
+    if (sort !== 'asc') {
+      queueItems.reverse();
+    }
 
     const total = queueItems.length;
     const startIndex = (page - 1) * limit;
@@ -314,6 +274,8 @@ router.get('/queue',
         hasNext: endIndex < total,
         hasPrev: page > 1,
       },
+      running: items.filter(item => item.state === 'running').length,
+      concurrency: getOrchestrator().getConcurrencyLimit(),
     }));
 
   })
@@ -376,7 +338,8 @@ router.post('/batch',
       options: Joi.object({
         parallel: Joi.boolean().default(false),
         stopOnFailure: Joi.boolean().default(false),
-        timeout: Joi.number().integer().min(1000).max(600000).default(300000),
+        timeout: Joi.number().integer().min(1000).max(600000).optional(),
+        matrix: CommonSchemas.testMatrix.optional(),
       }).optional(),
     }),
   }),
@@ -390,35 +353,19 @@ router.post('/batch',
       parallel: options.parallel,
     });
 
-    // TODO: Implement actual batch execution
     const batchId = generateBatchId();
-    const testIds: string[] = [];
-
-    for (const testConfig of tests) {
-      const testId = generateTestId(testConfig.name);
-      testIds.push(testId);
-
-      const result: TestResult = {
-        id: testId,
-        name: testConfig.name,
-        status: 'running',
-        startTime: new Date(),
-        duration: 0,
-        output: '',
-        errors: [],
-        metrics: {
-          memoryUsage: 0,
-          cpuUsage: 0,
-          networkRequests: 0,
-          custom: {},
-        },
-        healingAttempts: [],
-        artifacts: [],
-      };
+    const batch = tests.map((testConfig: ApiTestConfig) => ({
+      testId: generateTestId(testConfig.name),
+      config: toTestConfig(testConfig),
+    }));
+    const testIds = batch.map((entry: { testId: string }) => entry.testId);
 
-      testRuns.set(testId, result);
-      testQueue.set(testId, testConfig);
-    }
+    getOrchestrator().submitBatch(batchId, batch, {
+      parallel: options.parallel,
+      stopOnFailure: options.stopOnFailure,
+      timeout: options.timeout,
+      matrix: options.matrix,
+    });
 
     res.status(202).json(createSuccessResponse({
       batchId,
@@ -471,44 +418,59 @@ function calculateProgress(testResult: TestResult): number {
 }
 
 /**
- * Simulate test execution (demo purposes)
+ * Default test type for engines, used until the engine reports its own
  */
-function simulateTestExecution(testId: string, config: ApiTestConfig): void {
-  const testResult = testRuns.get(testId);
-  if (!testResult) return;
-
-  // Simulate test execution time
-  const executionTime = Math.random() * 10000 + 2000; // 2-12 seconds
-  
-  setTimeout(() => {
-    if (testResult.status === 'running') {
-      // Simulate success/failure
-      const success = Math.random() > 0.3; // 70% success rate
-      
-      testResult.status = success ? 'passed' : 'failed';
-      testResult.endTime = new Date();
-      testResult.duration = testResult.endTime.getTime() - testResult.startTime.getTime();
-      
-      if (success) {
-        testResult.output = `Test ${config.name} completed successfully`;
-      } else {
-        testResult.errors.push({
-          message: 'Simulated test failure',
-          stack: 'Error: Simulated failure for demo purposes',
-          type: 'unknown',
-          timestamp: new Date(),
-          context: {},
-        });
-        testResult.output = `Test ${config.name} failed`;
-      }
+const ENGINE_TEST_TYPES: Record<string, TestType> = {
+  playwright: 'e2e',
+  jest: 'unit',
+  k6: 'performance',
+  zap: 'security',
+  api: 'integration',
+};
 
-      logger.info('Simulated test execution completed', {
-        testId,
-        status: testResult.status,
-        duration: testResult.duration,
-      });
-    }
-  }, executionTime);
+/**
+ * Convert an API test request into an engine test configuration
+ *
+ * The execute endpoint accepts loosely typed options, so invalid values are
+ * ignored rather than rejected. A timeout or retry count left unset is filled
+ * in by the orchestrator from its configuration. Engine settings come only
+ * from the operator, as the orchestrator creates an engine per distinct
+ * settings; a request's own values are read from its parameters.
+ */
+function toTestConfig(apiConfig: ApiTestConfig): TestConfig {
+  const options = apiConfig.options || {};
+  const parameters = apiConfig.config && typeof apiConfig.config === 'object' ? apiConfig.config : {};
+  const timeout = Number.isInteger(options.timeout) && options.timeout! > 0 ? options.timeout! : 0;
+  const retries = Number.isInteger(options.retries) && options.retries! >= 0 ? options.retries : undefined;
+  const environment = options.environment || process.env['NODE_ENV'] || 'development';
+
+  return {
+    name: apiConfig.name,
+    type: ENGINE_TEST_TYPES[apiConfig.engine] || 'integration',
+    filePath: parameters['filePath'] || parameters['url'] || '',
+    timeout,
+    environment,
+    parameters,
+    engineConfig: {
+      engine: apiConfig.engine,
+      settings: getEngineSettings(apiConfig.engine),
+    },
+    healingConfig: {
+      enabled: options.healing !== false,
+      mode: getHealingMode(environment),
+      confidenceThreshold: 0.7,
+      maxAttempts: 3,
+      strategies: [],
+      timeout: 30000,
+    },
+    retryConfig: {
+      ...(retries !== undefined && { maxRetries: retries }),
+      delay: 1000,
+      backoffMultiplier: DEFAULT_ORCHESTRATION_CONFIG.retryPolicy.backoffMultiplier,
+      maxDelay: 30000,
+    },
+    ...(options.matrix && { matrix: options.matrix }),
+  };
 }
 
 export default router;
@@ -12,6 +12,28 @@ import compression from 'compression';
 import rateLimit from 'express-rate-limit';
 import path from 'path';
 import { logger } from '../utils/logger';
+import { getConfigManager, initializeConfig } from '../config';
+import { HealingMode } from '../types';
+import {
+  DatabaseConfig,
+  HealingMemoryConfig,
+  SelectorPatchConfig,
+  TestOrchestrationConfig
+} from '../config/schemas';
+import {
+  initializeStorage,
+  closeStorage,
+  createOrchestrator,
+  getOrchestrator,
+  setOrchestrator,
+  configureSelectorPatches,
+  configureHealingMemory,
+  configureHealingMode,
+  configureHealingModes,
+  configureEngineSettings,
+  createHealingEngine,
+  setHealingEngine
+} from './storage/shared';
 
 // Import route handlers  
 import testExecutionRoutes from './routes/testExecution';
@@ -36,6 +58,13 @@ export interface ServerConfig {
   rateLimitMax: number;
   enableSwagger: boolean;
   enableMetrics: boolean;
+  database?: DatabaseConfig;
+  orchestration?: Partial<TestOrchestrationConfig>;
+  selectorPatches?: Partial<SelectorPatchConfig>;
+  healingMemory?: Partial<HealingMemoryConfig>;
+  healingMode?: HealingMode;
+  /** Engine settings by engine name; they override the settings of API requests */
+  engineSettings?: Record<string, Record<string, any>>;
 }
 
 /**
@@ -49,6 +78,24 @@ const DEFAULT_CONFIG: ServerConfig = {
   rateLimitMax: parseInt(process.env['RATE_LIMIT_MAX'] || '100', 10), // 100 requests per window
   enableSwagger: process.env['ENABLE_SWAGGER'] === 'true',
   enableMetrics: process.env['ENABLE_METRICS'] === 'true',
+  database: {
+    enabled: process.env['DATABASE_ENABLED'] === 'true',
+    type: 'sqlite',
+    connection: {
+      filename: process.env['DATABASE_FILENAME'] || './data/test-harness.db',
+    },
+    migrations: {
+      enabled: true,
+      path: process.env['DATABASE_MIGRATIONS_PATH'] || './migrations',
+    },
+  },
+  selectorPatches: {
+    ...(process.env['HEALING_PATCHES_DIR'] && { outputDir: process.env['HEALING_PATCHES_DIR'] }),
+  },
+  healingMemory: {
+    enabled: process.env['HEALING_MEMORY_ENABLED'] !== 'false',
+  },
+  ...(process.env['HEALING_MODE'] && { healingMode: process.env['HEALING_MODE'] as HealingMode }),
 };
 
 /**
@@ -241,6 +288,31 @@ export function createApp(config: ServerConfig = DEFAULT_CONFIG): Application {
  */
 export async function startServer(config: ServerConfig = DEFAULT_CONFIG): Promise<void> {
   try {
+    await initializeStorage(config.database);
+    if (config.orchestration) {
+      setOrchestrator(createOrchestrator(config.orchestration));
+    }
+    if (config.selectorPatches) {
+      configureSelectorPatches(config.selectorPatches);
+    }
+    if (config.healingMemory) {
+      configureHealingMemory(config.healingMemory);
+    }
+    setHealingEngine(createHealingEngine());
+    if (config.healingMode) {
+      configureHealingMode(config.healingMode);
+    }
+    try {
+      await initializeConfig();
+      configureHealingModes(getConfigManager());
+    } catch (error) {
+      logger.warn('Configuration not loaded; one healing mode applies to every environment', {
+        error: (error as Error).message,
+      });
+    }
+    if (config.engineSettings) {
+      configureEngineSettings(config.engineSettings);
+    }
     const app = createApp(config);
     
     const server = app.listen(config.port, config.host, () => {
@@ -262,6 +334,7 @@ export async function startServer(config: ServerConfig = DEFAULT_CONFIG): Promis
     // Graceful shutdown handling
     const gracefulShutdown = (signal: string) => {
       logger.info(`Received ${signal}. Starting graceful shutdown...`);
+      const orchestratorShutdown = getOrchestrator().shutdown();
       
       server.close((err) => {
         if (err) {
@@ -269,8 +342,13 @@ export async function startServer(config: ServerConfig = DEFAULT_CONFIG): Promis
           process.exit(1);
         }
         
-        logger.info('Server closed successfully');
-        process.exit(0);
+        orchestratorShutdown
+          .then(() => closeStorage())
+          .catch(storageError => logger.error('Error closing storage:', storageError))
+          .finally(() => {
+            logger.info('Server closed successfully');
+            process.exit(0);
+          });
       });
       
       // Force close after 10 seconds
@@ -1,21 +1,290 @@
 /**
  * Shared storage for API routes
- * TODO: Replace with actual database integration
+ *
+ * Test results, healing attempts and reports are persisted through the
+ * repository layer in src/storage. The remaining maps hold transient runtime
+ * state that does not need to survive a restart.
  */
 
-import { TestResult } from '../../types';
+import { HealingMode, TestResult } from '../../types';
+import {
+  DatabaseConfig,
+  HealingMemoryConfig,
+  SelectorPatchConfig,
+  TestOrchestrationConfig
+} from '../../config/schemas';
+import { ConfigurationManager } from '../../config/ConfigurationManager';
+import { Storage, createStorage } from '../../storage';
+import { PluginRegistry } from '../../core/PluginRegistry';
+import { TestEngineFactory } from '../../core/TestEngineFactory';
+import { TestOrchestrator } from '../../core/TestOrchestrator';
+import { DEFAULT_FLAKY_TEST_CONFIG, FlakyTestConfig, FlakyTestTracker } from '../../core/FlakyTests';
+import { HelloWorldEngine } from '../../engines/HelloWorldEngine';
+import { PlaywrightTestEngine } from '../../engines/PlaywrightTestEngine';
+import { JestTestEngine } from '../../engines/JestTestEngine';
+import { LoadTestEngine } from '../../engines/LoadTestEngine';
+import { SecurityScanEngine } from '../../engines/SecurityScanEngine';
+import { ApiTestEngine } from '../../engines/ApiTestEngine';
+import { DEFAULT_SELECTOR_PATCH_CONFIG, SelectorPatchManager } from '../../healing/SelectorPatchManager';
+import { DEFAULT_HEALING_MEMORY_CONFIG, HealingMemory } from '../../healing/HealingMemory';
+import { VisualBaselineStore } from '../../healing/VisualBaselines';
+import { HealingEngine, HealingEngineConfig } from '../../healing/HealingEngine';
+import { HealingSuggestionManager } from '../../healing/HealingSuggestionManager';
+import { HealingReplayer, createReplayStrategies } from '../../healing/HealingReplay';
+import { logger } from '../../utils/logger';
 
 // Shared storage maps
 export const testRuns = new Map<string, TestResult>();
-export const testResults = new Map<string, TestResult>();
-export const testQueue = new Map<string, any>();
-export const healingAttempts = new Map<string, any>();
 export const healingStrategies = new Map<string, any>();
 export const engines = new Map<string, any>();
 export const engineHealth = new Map<string, any>();
-export const reports = new Map<string, any>();
+
+let storage: Storage = createStorage();
+
+/**
+ * Get the active storage backend
+ */
+export function getStorage(): Storage {
+  return storage;
+}
+
+/**
+ * Replace the storage backend using a database configuration
+ */
+export async function initializeStorage(config?: DatabaseConfig): Promise<Storage> {
+  const next = createStorage(config);
+  storage.close();
+  storage = next;
+  return storage;
+}
+
+/**
+ * Close the active storage backend and fall back to in-memory storage
+ */
+export async function closeStorage(): Promise<void> {
+  storage.close();
+  storage = createStorage();
+}
+
+let selectorPatchConfig: SelectorPatchConfig = { ...DEFAULT_SELECTOR_PATCH_CONFIG };
+
+/**
+ * Override the selector patch settings
+ */
+export function configureSelectorPatches(config: Partial<SelectorPatchConfig>): void {
+  selectorPatchConfig = { ...DEFAULT_SELECTOR_PATCH_CONFIG, ...config };
+}
+
+/**
+ * Get a selector patch manager backed by the active storage
+ */
+export function getSelectorPatchManager(): SelectorPatchManager {
+  return new SelectorPatchManager(storage.selectorPatches, selectorPatchConfig);
+}
+
+let healingMemoryConfig: HealingMemoryConfig = { ...DEFAULT_HEALING_MEMORY_CONFIG };
+
+/**
+ * Override the healing memory settings
+ */
+export function configureHealingMemory(config: Partial<HealingMemoryConfig>): void {
+  healingMemoryConfig = { ...DEFAULT_HEALING_MEMORY_CONFIG, ...config };
+}
+
+/**
+ * Get the healing memory backed by the active storage
+ */
+export function getHealingMemory(): HealingMemory {
+  return new HealingMemory(storage.healingMemory, healingMemoryConfig);
+}
+
+/**
+ * Get the visual baseline store backed by the active storage
+ */
+export function getVisualBaselineStore(): VisualBaselineStore {
+  return new VisualBaselineStore(storage.visualBaselines);
+}
+
+/**
+ * Get a healing suggestion manager backed by the active storage
+ */
+export function getHealingSuggestionManager(): HealingSuggestionManager {
+  return new HealingSuggestionManager(storage.healingAttempts);
+}
+
+let flakyTestConfig: FlakyTestConfig = { ...DEFAULT_FLAKY_TEST_CONFIG };
+
+/**
+ * Override the flaky test analysis settings
+ */
+export function configureFlakyTests(config: Partial<FlakyTestConfig>): void {
+  flakyTestConfig = { ...DEFAULT_FLAKY_TEST_CONFIG, ...config };
+}
+
+/**
+ * Get a flaky test tracker backed by the active storage
+ */
+export function getFlakyTestTracker(): FlakyTestTracker {
+  return new FlakyTestTracker(storage.testResults, storage.quarantine, flakyTestConfig);
+}
+
+let engineSettings: Record<string, Record<string, any>> = {};
+
+/**
+ * Set the engine settings chosen by the operator, by engine name
+ */
+export function configureEngineSettings(settings: Record<string, Record<string, any>>): void {
+  engineSettings = { ...settings };
+}
+
+/**
+ * Get the operator's settings for an engine
+ */
+export function getEngineSettings(engine: string): Record<string, any> {
+  return engineSettings[engine] ?? {};
+}
+
+let healingMode: HealingMode = 'auto-apply-above-threshold';
+let healingModeConfig: ConfigurationManager | null = null;
+
+/**
+ * Override the healing mode applied to test runs started through the API
+ */
+export function configureHealingMode(mode: HealingMode): void {
+  healingMode = mode;
+}
+
+/**
+ * Set the loaded configuration that healing modes are looked up in by environment
+ */
+export function configureHealingModes(config: ConfigurationManager | null): void {
+  healingModeConfig = config;
+}
+
+/**
+ * Get the healing mode applied to test runs started through the API
+ *
+ * With a loaded configuration the mode of the run's environment is used,
+ * otherwise the one server-wide mode.
+ */
+export function getHealingMode(environment?: string): HealingMode {
+  return healingModeConfig ? healingModeConfig.getHealingMode(environment) : healingMode;
+}
+
+let healingEngine: HealingEngine | null = null;
+
+/**
+ * Create a healing engine with the selector strategies registered
+ *
+ * The engine recalls and remembers heals through the healing memory of the
+ * active storage, and matches elements visually against the baselines stored
+ * there, so create it once storage and memory are configured.
+ */
+export function createHealingEngine(config: Partial<HealingEngineConfig> = {}): HealingEngine {
+  const engine = new HealingEngine(config, getHealingMemory());
+  for (const strategy of createReplayStrategies(getVisualBaselineStore())) {
+    engine.registerStrategy(strategy);
+  }
+  return engine;
+}
+
+/**
+ * Get the shared healing engine, which receives review feedback, if one is set
+ */
+export function getHealingEngine(): HealingEngine | null {
+  return healingEngine;
+}
+
+/**
+ * Set the shared healing engine, which receives review feedback
+ */
+export function setHealingEngine(next: HealingEngine | null): void {
+  healingEngine = next;
+}
+
+/**
+ * Get a healing replayer using the healing engine's configuration
+ */
+export function getHealingReplayer(): HealingReplayer {
+  return new HealingReplayer(healingEngine);
+}
+
+let orchestrator: TestOrchestrator | null = null;
+
+/**
+ * Create an orchestrator with the built-in engines registered
+ *
+ * Playwright engines heal failing steps with the shared healing engine set
+ * when they are created, and store visual baselines in the active storage. Every result update is mirrored into `testRuns` and
+ * persisted to storage.
+ * Selectors healed during a completed run are proposed as patches against the
+ * test's source file, and heals it only suggested are queued for review.
+ * Tests on the quarantine list run without failing their batch.
+ */
+export function createOrchestrator(config: Partial<TestOrchestrationConfig> = {}): TestOrchestrator {
+  const registry = new PluginRegistry();
+  const factory = new TestEngineFactory(registry);
+  factory.registerEngineConstructor('hello-world', HelloWorldEngine);
+  factory.registerEngineConstructor('playwright', PlaywrightTestEngine, () => [
+    getHealingEngine() ?? undefined,
+    getVisualBaselineStore(),
+  ]);
+  factory.registerEngineConstructor('jest', JestTestEngine);
+  factory.registerEngineConstructor('k6', LoadTestEngine);
+  factory.registerEngineConstructor('zap', SecurityScanEngine);
+  factory.registerEngineConstructor('api', ApiTestEngine);
+
+  const instance = new TestOrchestrator(registry, factory, config);
+  instance.setQuarantineLookup(testName => getFlakyTestTracker().isQuarantined(testName));
+  instance.onUpdate((result, testConfig) => {
+    testRuns.set(result.id, result);
+    syncTestRunToResults(result.id, result).catch(error => {
+      logger.error('Failed to persist test result', {
+        testId: result.id,
+        error: (error as Error).message,
+      });
+    });
+
+    if (instance.getState(result.id) === 'completed') {
+      getHealingSuggestionManager().recordFromResult(result).catch(error => {
+        logger.error('Failed to queue healing suggestions', {
+          testId: result.id,
+          error: (error as Error).message,
+        });
+      });
+    }
+
+    if (selectorPatchConfig.enabled && testConfig.filePath && instance.getState(result.id) === 'completed') {
+      getSelectorPatchManager().proposeFromResult(result, { filePath: testConfig.filePath }).catch(error => {
+        logger.error('Failed to propose selector patches', {
+          testId: result.id,
+          error: (error as Error).message,
+        });
+      });
+    }
+  });
+  return instance;
+}
+
+/**
+ * Get the orchestrator used by the test execution routes
+ */
+export function getOrchestrator(): TestOrchestrator {
+  if (!orchestrator) {
+    orchestrator = createOrchestrator();
+  }
+  return orchestrator;
+}
+
+/**
+ * Replace the orchestrator, shutting down the previous one
+ */
+export function setOrchestrator(next: TestOrchestrator): void {
+  void orchestrator?.shutdown();
+  orchestrator = next;
+}
 
 // Helper function to sync test runs to test results
-export function syncTestRunToResults(testId: string, result: TestResult) {
-  testResults.set(testId, result);
+export async function syncTestRunToResults(_testId: string, result: TestResult): Promise<void> {
+  await storage.testResults.save(result);
 }
@@ -7,6 +7,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
 import { logger } from '../utils/logger';
+import { HealingMode } from '../types';
 import {
   AppConfig,
   DEFAULT_CONFIG,
@@ -99,6 +100,18 @@ export class ConfigurationManager {
     return config.environments[envName];
   }
 
+  /**
+   * Get the healing mode for tests running in an environment
+   *
+   * An environment's `overrides.healing.mode` takes precedence over the
+   * loaded `healing.mode`, so one harness can suggest heals for production
+   * runs while applying them in staging.
+   */
+  getHealingMode(envName: string = this.environment): HealingMode {
+    const config = this.getConfig();
+    return config.environments?.[envName]?.overrides?.healing?.mode ?? config.healing.mode;
+  }
+
   /**
    * Reload configuration (useful for development)
    */
@@ -176,8 +189,13 @@ export class ConfigurationManager {
       'API_TIMEOUT': 'api.timeout',
       'API_RETRIES': 'api.retries',
       'HEALING_ENABLED': 'healing.enabled',
+      'HEALING_MODE': 'healing.mode',
       'HEALING_CONFIDENCE_THRESHOLD': 'healing.confidenceThreshold',
       'HEALING_MAX_RETRIES': 'healing.maxRetries',
+      'HEALING_PATCHES_DIR': 'healing.patches.outputDir',
+      'HEALING_PATCHES_AUTO_APPROVE_THRESHOLD': 'healing.patches.autoApproveThreshold',
+      'HEALING_MEMORY_ENABLED': 'healing.memory.enabled',
+      'HEALING_MEMORY_HALF_LIFE_DAYS': 'healing.memory.halfLifeDays',
       'PLAYWRIGHT_ENABLED': 'engines.playwright.enabled',
       'PLAYWRIGHT_TIMEOUT': 'engines.playwright.timeout',
       'PLAYWRIGHT_HEADLESS': 'engines.playwright.headless',
@@ -189,6 +207,9 @@ export class ConfigurationManager {
       'ZAP_TIMEOUT': 'engines.zap.timeout',
       'LOG_LEVEL': 'observability.logging.level',
       'METRICS_ENABLED': 'observability.metrics.enabled',
+      'DATABASE_ENABLED': 'database.enabled',
+      'DATABASE_TYPE': 'database.type',
+      'DATABASE_FILENAME': 'database.connection.filename',
     };
 
     // Apply environment variable overrides
@@ -394,6 +415,7 @@ export class ConfigurationManager {
       },
       healing: {
         enabled: this.config.healing.enabled,
+        mode: this.config.healing.mode,
         confidenceThreshold: this.config.healing.confidenceThreshold,
         maxRetries: this.config.healing.maxRetries,
       },
@@ -3,6 +3,8 @@
  * Provides type safety and validation for YAML configuration files
  */
 
+import { HealingMode } from '../types';
+
 export interface TestEngineConfig {
   enabled: boolean;
   timeout: number;
@@ -52,6 +54,7 @@ export interface AppAnalysisConfig extends TestEngineConfig {
 
 export interface HealingConfig {
   enabled: boolean;
+  mode: HealingMode; // whether heals are applied or only suggested for review
   confidenceThreshold: number;
   maxRetries: number;
   strategies: {
@@ -66,6 +69,20 @@ export interface HealingConfig {
     xpath: boolean;
     neighbor: boolean;
   };
+  patches: SelectorPatchConfig;
+  memory: HealingMemoryConfig;
+}
+
+export interface HealingMemoryConfig {
+  enabled: boolean;
+  halfLifeDays: number; // score halves after this long without reuse
+  minScore: number; // entries scoring below this are ignored and purged
+}
+
+export interface SelectorPatchConfig {
+  enabled: boolean;
+  outputDir: string;
+  autoApproveThreshold: number; // heals at or above this confidence skip review
 }
 
 export interface ObservabilityConfig {
@@ -287,6 +304,7 @@ export const DEFAULT_CONFIG: Partial<AppConfig> = {
   },
   healing: {
     enabled: true,
+    mode: 'auto-apply-above-threshold',
     confidenceThreshold: 0.6,
     maxRetries: 3,
     strategies: {
@@ -301,6 +319,16 @@ export const DEFAULT_CONFIG: Partial<AppConfig> = {
       xpath: true,
       neighbor: true,
     },
+    patches: {
+      enabled: true,
+      outputDir: './healing-patches',
+      autoApproveThreshold: 0.9,
+    },
+    memory: {
+      enabled: true,
+      halfLifeDays: 14,
+      minScore: 0.2,
+    },
   },
   observability: {
     enabled: true,
@@ -400,8 +428,12 @@ export const CONFIG_VALIDATION_RULES: ValidationRule[] = [
   { field: 'api.retries', required: true, type: 'number', min: 0, max: 10 },
 
   // Healing validation
+  { field: 'healing.mode', required: false, type: 'string', enum: ['off', 'suggest', 'auto-apply', 'auto-apply-above-threshold'] },
   { field: 'healing.confidenceThreshold', required: true, type: 'number', min: 0, max: 1 },
   { field: 'healing.maxRetries', required: true, type: 'number', min: 0, max: 10 },
+  { field: 'healing.patches.autoApproveThreshold', required: false, type: 'number', min: 0, max: 1 },
+  { field: 'healing.memory.halfLifeDays', required: false, type: 'number', min: 0 },
+  { field: 'healing.memory.minScore', required: false, type: 'number', min: 0, max: 1 },
 
   // Engine validation
   { field: 'engines.playwright.timeout', required: true, type: 'number', min: 1000 },
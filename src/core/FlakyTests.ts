@@ -0,0 +1,450 @@
+/**
+ * Flaky test detection and quarantine
+ *
+ * Scores each test by its run history. A flaky test changes between passing
+ * and failing without a change that explains it, so the score counts the
+ * flips between consecutive runs together with the runs that only passed on
+ * retry, healed or not. Tests that fail every time score low: they are regressions, not
+ * flakes. Runs that passed because a heal was applied are counted on their
+ * own, since a healed locator is drift rather than flakiness.
+ *
+ * Quarantined tests keep running, but the orchestrator does not let their
+ * failures fail the build.
+ */
+
+import { QuarantineEntry, TestResult, TestStatus } from '../types';
+import { QuarantineRepository, TestResultFilter, TestResultRepository } from '../storage';
+import { logger } from '../utils/logger';
+
+/**
+ * Settings for flaky test analysis
+ */
+export interface FlakyTestConfig {
+  /** Most recent runs of a test that are analyzed */
+  historySize: number;
+
+  /** Runs a test needs before it is classified */
+  minRuns: number;
+
+  /** Flakiness score from which a test is flaky (0-1) */
+  flakyThreshold: number;
+}
+
+/**
+ * Default flaky test settings
+ */
+export const DEFAULT_FLAKY_TEST_CONFIG: FlakyTestConfig = {
+  historySize: 30,
+  minRuns: 5,
+  flakyThreshold: 0.2,
+};
+
+/**
+ * How a run ended
+ *
+ * A run that was retried and healed is `healed-on-retry`.
+ */
+export type RunOutcome = 'passed' | 'healed' | 'passed-on-retry' | 'healed-on-retry' | 'failed';
+
+/**
+ * Classification of a test by its history
+ */
+export type FlakinessStatus = 'stable' | 'flaky' | 'failing' | 'insufficient-history';
+
+/**
+ * Run dimensions flakes are correlated with
+ */
+export type FlakeDimension = 'environment' | 'browser';
+
+/**
+ * One run of a test
+ */
+export interface TestRunRecord {
+  testId: string;
+  startTime: Date;
+  status: TestStatus;
+  outcome: RunOutcome;
+  environment?: string;
+  browser?: string;
+  attempts: number;
+  quarantined: boolean;
+}
+
+/**
+ * Share of runs with one environment or browser value that flaked
+ *
+ * A flake is a run that failed or only passed on retry.
+ */
+export interface FlakeCorrelation {
+  dimension: FlakeDimension;
+  value: string;
+  runs: number;
+  flakes: number;
+  flakeRate: number;
+
+  /** Flake rate of the runs with any other value */
+  otherFlakeRate: number;
+
+  /** Whether flakes concentrate on this value */
+  suspect: boolean;
+}
+
+/**
+ * Flakiness of one test
+ */
+export interface FlakyTestReport {
+  testName: string;
+  status: FlakinessStatus;
+
+  /** Share of changes between passing and failing, including passes on retry, healed or not (0-1) */
+  flakinessScore: number;
+
+  /** Share of consecutive runs that flipped between passing and failing (0-1) */
+  flipRate: number;
+
+  runs: number;
+  passed: number;
+  healed: number;
+  passedOnRetry: number;
+  healedOnRetry: number;
+  failed: number;
+
+  lastRunAt: Date;
+  lastOutcome: RunOutcome;
+
+  correlations: FlakeCorrelation[];
+
+  /** Why the test was classified, e.g. `flakes concentrate on browser webkit` */
+  summary: string;
+
+  /** Active quarantine of the test */
+  quarantine?: QuarantineEntry;
+
+  /** Analyzed runs, oldest first; only included for single-test analysis */
+  history?: TestRunRecord[];
+}
+
+/**
+ * Options for quarantining a test
+ */
+export interface QuarantineOptions {
+  reason?: string;
+  quarantinedBy?: string;
+  expiresAt?: Date;
+}
+
+/**
+ * Statuses of runs that finished
+ */
+const FINISHED_STATUSES: TestStatus[] = ['passed', 'failed', 'timeout'];
+
+/**
+ * A value is suspect when its flake rate is at least this many times that of the other values
+ */
+const SUSPECT_RATE_FACTOR = 2;
+
+/**
+ * Flakes a value needs before it can be suspect
+ */
+const MIN_SUSPECT_FLAKES = 2;
+
+/**
+ * Name of the test a result belongs to
+ */
+export function getTestName(result: TestResult): string {
+  return result.execution?.testName ?? result.name;
+}
+
+/**
+ * Classify how a run ended
+ */
+export function getRunOutcome(result: TestResult): RunOutcome {
+  if (result.status !== 'passed') {
+    return 'failed';
+  }
+  const retried = (result.execution?.attempts ?? result.metrics.custom?.['attempts'] ?? 1) > 1;
+  const healed = result.healingAttempts.some(attempt => attempt.result.success && attempt.result.applied !== false);
+  if (retried) {
+    return healed ? 'healed-on-retry' : 'passed-on-retry';
+  }
+  return healed ? 'healed' : 'passed';
+}
+
+/**
+ * Analyze the runs of one test
+ *
+ * @param results - Finished runs of the test, in any order
+ */
+export function analyzeTestHistory(
+  testName: string,
+  results: TestResult[],
+  config: FlakyTestConfig = DEFAULT_FLAKY_TEST_CONFIG
+): FlakyTestReport | null {
+  const history = buildHistory(results, config.historySize);
+  const last = history[history.length - 1];
+  if (!last) {
+    return null;
+  }
+
+  const count = (outcome: RunOutcome) => history.filter(run => run.outcome === outcome).length;
+  const passedOnRetry = count('passed-on-retry');
+  const healedOnRetry = count('healed-on-retry');
+  const retried = passedOnRetry + healedOnRetry;
+  const failed = count('failed');
+  let flips = 0;
+  for (let i = 1; i < history.length; i++) {
+    if ((history[i]!.outcome === 'failed') !== (history[i - 1]!.outcome === 'failed')) {
+      flips++;
+    }
+  }
+
+  // A pass on retry is a flip from failing to passing inside one run
+  const chances = history.length - 1 + retried;
+  const flakinessScore = chances > 0 ? round((flips + retried) / chances) : 0;
+  const flipRate = history.length > 1 ? round(flips / (history.length - 1)) : 0;
+  const status: FlakinessStatus = history.length < config.minRuns
+    ? 'insufficient-history'
+    : flakinessScore >= config.flakyThreshold
+      ? 'flaky'
+      : last.outcome === 'failed' ? 'failing' : 'stable';
+  const correlations = correlateFlakes(history);
+
+  return {
+    testName,
+    status,
+    flakinessScore,
+    flipRate,
+    runs: history.length,
+    passed: count('passed'),
+    healed: count('healed'),
+    passedOnRetry,
+    healedOnRetry,
+    failed,
+    lastRunAt: last.startTime,
+    lastOutcome: last.outcome,
+    correlations,
+    summary: summarize(status, history, correlations, config),
+  };
+}
+
+/**
+ * Flaky Test Tracker
+ */
+export class FlakyTestTracker {
+  private config: FlakyTestConfig;
+
+  constructor(
+    private testResults: TestResultRepository,
+    private quarantine: QuarantineRepository,
+    config: Partial<FlakyTestConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_FLAKY_TEST_CONFIG, ...config };
+  }
+
+  /**
+   * Analyze every test with runs matching the filter, most flaky first
+   */
+  public async analyze(filter: TestResultFilter = {}): Promise<FlakyTestReport[]> {
+    const results = await this.findHistory(filter);
+    const byTest = new Map<string, TestResult[]>();
+    for (const result of results) {
+      const testName = getTestName(result);
+      const runs = byTest.get(testName) ?? [];
+      runs.push(result);
+      byTest.set(testName, runs);
+    }
+
+    const quarantined = await this.listQuarantine();
+    const reports: FlakyTestReport[] = [];
+    for (const [testName, runs] of byTest) {
+      const report = analyzeTestHistory(testName, runs, this.config);
+      if (report) {
+        const entry = quarantined.find(candidate => candidate.testName === testName);
+        reports.push(entry ? { ...report, quarantine: entry } : report);
+      }
+    }
+
+    return reports.sort((a, b) => b.flakinessScore - a.flakinessScore || a.testName.localeCompare(b.testName));
+  }
+
+  /**
+   * Analyze one test, including its run history
+   */
+  public async analyzeTest(testName: string): Promise<FlakyTestReport | null> {
+    const results = await this.findHistory({ exactTestName: testName });
+    const report = analyzeTestHistory(testName, results, this.config);
+    if (!report) {
+      return null;
+    }
+
+    const entry = await this.findActiveQuarantine(testName);
+    return {
+      ...report,
+      ...(entry && { quarantine: entry }),
+      history: buildHistory(results, this.config.historySize),
+    };
+  }
+
+  /**
+   * Quarantine a test, replacing an earlier quarantine of it
+   */
+  public async quarantineTest(testName: string, options: QuarantineOptions = {}): Promise<QuarantineEntry> {
+    const report = await this.analyzeTest(testName);
+    const entry: QuarantineEntry = {
+      testName,
+      ...(options.reason && { reason: options.reason }),
+      ...(options.quarantinedBy && { quarantinedBy: options.quarantinedBy }),
+      ...(report && { flakinessScore: report.flakinessScore }),
+      createdAt: new Date(),
+      ...(options.expiresAt && { expiresAt: options.expiresAt }),
+    };
+
+    logger.info('Test quarantined', { testName, quarantinedBy: entry.quarantinedBy, expiresAt: entry.expiresAt });
+    return this.quarantine.save(entry);
+  }
+
+  /**
+   * Release a test from quarantine
+   *
+   * @returns False if the test was not quarantined
+   */
+  public async release(testName: string): Promise<boolean> {
+    const released = await this.quarantine.delete(testName);
+    if (released) {
+      logger.info('Test released from quarantine', { testName });
+    }
+    return released;
+  }
+
+  /**
+   * List the quarantines in effect, newest first
+   */
+  public async listQuarantine(now: Date = new Date()): Promise<QuarantineEntry[]> {
+    return (await this.quarantine.findAll()).filter(entry => isActive(entry, now));
+  }
+
+  /**
+   * Check whether a test is quarantined
+   */
+  public async isQuarantined(testName: string, now: Date = new Date()): Promise<boolean> {
+    return (await this.findActiveQuarantine(testName, now)) !== null;
+  }
+
+  /**
+   * The most recent finished runs of each test matching the filter, newest first
+   */
+  private findHistory(filter: TestResultFilter): Promise<TestResult[]> {
+    return this.testResults.findLatestPerGroup(
+      { ...filter, statuses: FINISHED_STATUSES, matrix: false },
+      'testName',
+      this.config.historySize
+    );
+  }
+
+  private async findActiveQuarantine(testName: string, now: Date = new Date()): Promise<QuarantineEntry | null> {
+    const entry = await this.quarantine.findById(testName);
+    return entry && isActive(entry, now) ? entry : null;
+  }
+}
+
+/**
+ * The most recent finished runs, oldest first
+ *
+ * Matrix tests are analyzed through their cells, and unfinished runs not at all.
+ */
+function buildHistory(results: TestResult[], historySize: number): TestRunRecord[] {
+  return results
+    .filter(result => !result.matrix && FINISHED_STATUSES.includes(result.status))
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+    .slice(-historySize)
+    .map(toRunRecord);
+}
+
+function toRunRecord(result: TestResult): TestRunRecord {
+  const execution = result.execution;
+  return {
+    testId: result.id,
+    startTime: result.startTime,
+    status: result.status,
+    outcome: getRunOutcome(result),
+    ...(execution?.environment && { environment: execution.environment }),
+    ...(execution?.browser && { browser: execution.browser }),
+    attempts: execution?.attempts ?? result.metrics.custom?.['attempts'] ?? 1,
+    quarantined: result.quarantined === true,
+  };
+}
+
+/**
+ * Compare the flake rate of each environment and browser with the rest
+ *
+ * Dimensions with a single value cannot explain anything and are left out.
+ */
+function correlateFlakes(history: TestRunRecord[]): FlakeCorrelation[] {
+  const correlations: FlakeCorrelation[] = [];
+
+  for (const dimension of ['environment', 'browser'] as FlakeDimension[]) {
+    const runs = history.filter(run => run[dimension] !== undefined);
+    const values = [...new Set(runs.map(run => run[dimension]!))];
+    if (values.length < 2) {
+      continue;
+    }
+
+    for (const value of values.sort()) {
+      const matching = runs.filter(run => run[dimension] === value);
+      const others = runs.filter(run => run[dimension] !== value);
+      const flakes = matching.filter(isFlake).length;
+      const flakeRate = round(flakes / matching.length);
+      const otherFlakeRate = round(others.filter(isFlake).length / others.length);
+      correlations.push({
+        dimension,
+        value,
+        runs: matching.length,
+        flakes,
+        flakeRate,
+        otherFlakeRate,
+        suspect: flakes >= MIN_SUSPECT_FLAKES && flakeRate > otherFlakeRate && flakeRate >= SUSPECT_RATE_FACTOR * otherFlakeRate,
+      });
+    }
+  }
+  return correlations;
+}
+
+function summarize(
+  status: FlakinessStatus,
+  history: TestRunRecord[],
+  correlations: FlakeCorrelation[],
+  config: FlakyTestConfig
+): string {
+  switch (status) {
+    case 'insufficient-history':
+      return `${history.length} of ${config.minRuns} runs needed for analysis`;
+    case 'failing': {
+      const lastPass = history.map(run => run.outcome !== 'failed').lastIndexOf(true);
+      return `fails consistently: the last ${history.length - 1 - lastPass} run(s) failed`;
+    }
+    case 'stable':
+      return `stable over ${history.length} runs`;
+    case 'flaky': {
+      const flakes = history.filter(isFlake).length;
+      const suspects = correlations.filter(correlation => correlation.suspect);
+      if (suspects.length === 0) {
+        return `flaky: ${flakes} of ${history.length} runs failed or passed on retry`;
+      }
+      return `flakes concentrate on ${suspects
+        .map(suspect => `${suspect.dimension} ${suspect.value} (${suspect.flakes}/${suspect.runs} runs)`)
+        .join(', ')}`;
+    }
+  }
+}
+
+function isFlake(run: TestRunRecord): boolean {
+  return run.outcome === 'failed' || run.outcome === 'passed-on-retry' || run.outcome === 'healed-on-retry';
+}
+
+function isActive(entry: QuarantineEntry, now: Date): boolean {
+  return !entry.expiresAt || new Date(entry.expiresAt).getTime() > now.getTime();
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -16,6 +16,21 @@ import {
 } from '../types';
 import { logger } from '../utils/logger';
 
+/**
+ * Healing attempts per test when the context does not set a budget
+ */
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Key a failure's healing attempts are counted under within its test
+ *
+ * Failures naming the step or selector they heal get a budget of their own;
+ * others share the budget of their test.
+ */
+export function getAttemptKey(failure: TestFailure): string {
+  return failure.attemptKey ?? '';
+}
+
 /**
  * Abstract base class for healing strategies
  * 
@@ -28,7 +43,8 @@ export abstract class HealingStrategy implements IHealingStrategy {
   public readonly supportedFailureTypes: FailureType[];
   
   protected isInitialized: boolean = false;
-  protected healingAttempts: Map<string, number> = new Map();
+  /** Attempt counts by test id and attempt key */
+  protected healingAttempts: Map<string, Map<string, number>> = new Map();
   protected successCount: number = 0;
   protected failureCount: number = 0;
   
@@ -67,8 +83,8 @@ export abstract class HealingStrategy implements IHealingStrategy {
       }
       
       // Check if we've exceeded max attempts for this test
-      const attemptCount = this.healingAttempts.get(failure.testId) || 0;
-      if (attemptCount >= context.systemState.load) { // Using load as max attempts for now
+      const attemptCount = this.getAttemptCount(failure);
+      if (attemptCount >= (context.maxAttempts ?? DEFAULT_MAX_ATTEMPTS)) {
         return this.createFailureResult(
           healingId,
           `Maximum healing attempts exceeded for test: ${failure.testId}`,
@@ -77,7 +93,9 @@ export abstract class HealingStrategy implements IHealingStrategy {
       }
       
       // Increment attempt count
-      this.healingAttempts.set(failure.testId, attemptCount + 1);
+      const attempts = this.healingAttempts.get(failure.testId) ?? new Map<string, number>();
+      attempts.set(getAttemptKey(failure), attemptCount + 1);
+      this.healingAttempts.set(failure.testId, attempts);
       
       // Call strategy-specific healing
       const result = await this.doHeal(failure, context);
@@ -171,6 +189,20 @@ export abstract class HealingStrategy implements IHealingStrategy {
     logger.info(`Reset statistics for healing strategy: ${this.name}`);
   }
   
+  /**
+   * Forget the attempts counted for a test, e.g. once its run finished
+   */
+  public clearAttempts(testId: string): void {
+    this.healingAttempts.delete(testId);
+  }
+  
+  /**
+   * Number of attempts made for a failure's test and attempt key
+   */
+  protected getAttemptCount(failure: TestFailure): number {
+    return this.healingAttempts.get(failure.testId)?.get(getAttemptKey(failure)) ?? 0;
+  }
+  
   /**
    * Generate a unique healing ID
    * 
@@ -271,7 +303,7 @@ export abstract class HealingStrategy implements IHealingStrategy {
     let adjustedConfidence = baseConfidence;
     
     // Reduce confidence based on previous attempts
-    const attemptCount = this.healingAttempts.get(failure.testId) || 0;
+    const attemptCount = this.getAttemptCount(failure);
     if (attemptCount > 0) {
       adjustedConfidence *= Math.pow(0.8, attemptCount); // Reduce by 20% per attempt
     }
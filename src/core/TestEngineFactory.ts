@@ -24,6 +24,7 @@ import { logger } from '../utils/logger';
 export class TestEngineFactory {
   private registry: PluginRegistry;
   private engineConstructors: Map<string, new (...args: any[]) => ITestEngine> = new Map();
+  private engineArguments: Map<string, () => unknown[]> = new Map();
   
   constructor(registry: PluginRegistry) {
     this.registry = registry;
@@ -35,12 +36,19 @@ export class TestEngineFactory {
    * 
    * @param engineType - The type of engine (e.g., 'playwright', 'jest')
    * @param constructor - The constructor function for the engine
+   * @param createArguments - Returns the constructor arguments each time an engine is created
    */
   public registerEngineConstructor(
     engineType: string, 
-    constructor: new (...args: any[]) => ITestEngine
+    constructor: new (...args: any[]) => ITestEngine,
+    createArguments?: () => unknown[]
   ): void {
     this.engineConstructors.set(engineType, constructor);
+    if (createArguments) {
+      this.engineArguments.set(engineType, createArguments);
+    } else {
+      this.engineArguments.delete(engineType);
+    }
     logger.info(`Registered engine constructor: ${engineType}`);
   }
   
@@ -62,7 +70,7 @@ export class TestEngineFactory {
       }
       
       // Create the engine instance
-      const engine = new Constructor();
+      const engine = new Constructor(...(this.engineArguments.get(config.engine)?.() ?? []));
       
       // Initialize the engine with configuration
       await engine.initialize(config);
@@ -202,7 +210,7 @@ export class TestEngineFactory {
         baseConfig.settings = {
           vus: 1,
           duration: '30s',
-          threshold: {
+          thresholds: {
             http_req_duration: ['p(95)<2000'],
           },
         };
@@ -0,0 +1,146 @@
+/**
+ * Test matrices
+ *
+ * A matrix runs one test on several browsers, devices and locales. The
+ * orchestrator expands it into one child run per combination ("cell") and
+ * aggregates the children into the parent result. Failures are summarized by
+ * the smallest set of dimensions that explains them, such as "fails only on
+ * webkit at mobile".
+ */
+
+import { MatrixViewport, TestConfig, TestMatrix, TestMatrixCell, TestMatrixCellResult, TestStatus } from '../types';
+
+/**
+ * Most devices or locales a matrix may list
+ */
+export const MAX_MATRIX_DIMENSION = 20;
+
+/**
+ * Most combinations a matrix may expand into
+ */
+export const MAX_MATRIX_CELLS = 50;
+
+/**
+ * Expand a matrix into its cells, in browser, device, locale order
+ *
+ * Dimensions left out are not varied; duplicate combinations are dropped.
+ */
+export function expandMatrix(matrix: TestMatrix): TestMatrixCell[] {
+  const browsers = matrix.browsers?.length ? matrix.browsers : [undefined];
+  const devices = matrix.devices?.length ? matrix.devices : [undefined];
+  const locales = matrix.locales?.length ? matrix.locales : [undefined];
+  const cells = new Map<string, TestMatrixCell>();
+
+  for (const browser of browsers) {
+    for (const device of devices) {
+      for (const locale of locales) {
+        const cell: TestMatrixCell = {
+          id: '',
+          ...(browser && { browser }),
+          ...(typeof device === 'string' && { device }),
+          ...(typeof device === 'object' && { viewport: device }),
+          ...(locale && { locale }),
+        };
+        cell.id = [cell.browser, deviceLabel(cell), cell.locale].filter(Boolean).join('/');
+        if (cell.id && !cells.has(cell.id)) {
+          cells.set(cell.id, cell);
+        }
+      }
+    }
+  }
+
+  return [...cells.values()];
+}
+
+/**
+ * Create the config of a cell's child run
+ */
+export function createCellConfig(config: TestConfig, cell: TestMatrixCell): TestConfig {
+  const { matrix: _matrix, ...rest } = config;
+  return { ...rest, name: `${config.name} [${cell.id}]`, matrixCell: cell };
+}
+
+/**
+ * Status of a matrix test: failed when any cell failed or timed out, skipped
+ * when every cell was skipped, and passed otherwise
+ */
+export function getMatrixStatus(cells: TestMatrixCellResult[]): TestStatus {
+  if (cells.some(cell => isFailure(cell.status))) {
+    return 'failed';
+  }
+  if (cells.every(cell => cell.status === 'skipped')) {
+    return 'skipped';
+  }
+  return 'passed';
+}
+
+/**
+ * Describe which cells of a matrix failed
+ *
+ * When the failing cells are exactly the cells sharing some browser, device
+ * or locale, the failure is attributed to those values.
+ */
+export function summarizeMatrix(cells: TestMatrixCellResult[]): string {
+  const failed = cells.filter(cell => isFailure(cell.status));
+  if (failed.length === 0) {
+    return `passes on all ${cells.length} combination(s)`;
+  }
+  if (failed.length === cells.length) {
+    return `fails on all ${cells.length} combination(s)`;
+  }
+
+  for (const dimensions of DIMENSION_SETS) {
+    const values = dimensions.map(dimension => DIMENSIONS[dimension](failed[0]!.cell));
+    if (values.some(value => value === undefined)) {
+      continue;
+    }
+
+    const matches = (cell: TestMatrixCell) =>
+      dimensions.every((dimension, index) => DIMENSIONS[dimension](cell) === values[index]);
+    const matching = cells.filter(result => matches(result.cell));
+    if (matching.length === failed.length && failed.every(result => matches(result.cell))) {
+      return `fails only ${dimensions.map((dimension, index) => `${PREPOSITIONS[dimension]} ${values[index]}`).join(' ')}`;
+    }
+  }
+
+  return `fails on ${failed.length} of ${cells.length} combinations: ${failed.map(result => result.cell.id).join(', ')}`;
+}
+
+type Dimension = 'browser' | 'device' | 'locale';
+
+const DIMENSIONS: Record<Dimension, (cell: TestMatrixCell) => string | undefined> = {
+  browser: cell => cell.browser,
+  device: cell => deviceLabel(cell),
+  locale: cell => cell.locale,
+};
+
+const PREPOSITIONS: Record<Dimension, string> = {
+  browser: 'on',
+  device: 'at',
+  locale: 'in',
+};
+
+/**
+ * Dimension combinations tried when attributing failures, smallest first
+ */
+const DIMENSION_SETS: Dimension[][] = [
+  ['browser'],
+  ['device'],
+  ['locale'],
+  ['browser', 'device'],
+  ['browser', 'locale'],
+  ['device', 'locale'],
+  ['browser', 'device', 'locale'],
+];
+
+function deviceLabel(cell: TestMatrixCell): string | undefined {
+  return cell.device ?? (cell.viewport && viewportLabel(cell.viewport));
+}
+
+function viewportLabel(viewport: MatrixViewport): string {
+  return viewport.name ?? `${viewport.width}x${viewport.height}`;
+}
+
+function isFailure(status: TestStatus): boolean {
+  return status === 'failed' || status === 'timeout';
+}
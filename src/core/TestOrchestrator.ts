@@ -0,0 +1,862 @@
+/**
+ * Test orchestration for the Self-Healing Test Automation Harness
+ *
+ * The orchestrator owns the execution queue. It resolves engines through the
+ * plugin registry, or creates them with the engine factory once per distinct
+ * engine configuration (keeping a bounded number of them), runs
+ * tests with bounded concurrency, applies the retry policy and per-test
+ * timeouts, and supports cancelling queued or running tests. Tests with a
+ * matrix run once per matrix cell and report the cells in one parent result.
+ * Quarantined tests run as usual, but their failures do not stop a batch.
+ */
+
+import {
+  ITestEngine,
+  TestConfig,
+  TestExecutionInfo,
+  TestMatrix,
+  TestMatrixCellResult,
+  TestResult,
+  TestStatus
+} from '../types';
+import { DEFAULT_CONFIG, TestOrchestrationConfig } from '../config/schemas';
+import { PluginRegistry } from './PluginRegistry';
+import { TestEngineFactory } from './TestEngineFactory';
+import { MAX_MATRIX_CELLS, createCellConfig, expandMatrix, getMatrixStatus, summarizeMatrix } from './TestMatrix';
+import { logger } from '../utils/logger';
+
+/**
+ * Default orchestration settings, shared with the application config defaults
+ */
+export const DEFAULT_ORCHESTRATION_CONFIG: TestOrchestrationConfig = DEFAULT_CONFIG.orchestration!;
+
+/**
+ * Delay before the first retry when a test does not specify one
+ */
+const DEFAULT_RETRY_DELAY = 1000;
+
+/**
+ * Most engines created through the factory kept at once; the least recently
+ * used idle engines beyond it are cleaned up
+ */
+export const MAX_CREATED_ENGINES = 10;
+
+/**
+ * Error raised by the orchestrator
+ */
+export class TestOrchestrationError extends Error {
+  /** Whether a retry could succeed */
+  public readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean = false) {
+    super(message);
+    this.name = 'TestOrchestrationError';
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Raised when a test exceeds its timeout
+ */
+class TestTimeoutError extends TestOrchestrationError {
+  constructor(timeout: number) {
+    super(`Test timed out after ${timeout}ms`);
+    this.name = 'TestTimeoutError';
+  }
+}
+
+/**
+ * Lifecycle state of an orchestrated run
+ */
+export type RunState = 'queued' | 'running' | 'completed' | 'cancelled';
+
+/**
+ * Queue entry as reported to API consumers
+ */
+export interface QueueEntry {
+  testId: string;
+  name: string;
+  engine: string;
+  state: RunState;
+  queuedAt: Date;
+  startedAt?: Date;
+  attempt: number;
+  batchId?: string;
+}
+
+/**
+ * Options for a batch of tests
+ */
+export interface BatchOptions {
+  /** Run the batch concurrently (bounded by maxConcurrency) */
+  parallel?: boolean;
+
+  /** Skip the remaining queued tests after the first failure */
+  stopOnFailure?: boolean;
+
+  /** Per-test timeout override in milliseconds */
+  timeout?: number;
+
+  /** Matrix for the tests that do not define their own */
+  matrix?: TestMatrix;
+}
+
+/**
+ * Listener notified whenever a test result changes
+ */
+export type TestUpdateListener = (result: TestResult, config: TestConfig) => void;
+
+/**
+ * Looks up whether a test is quarantined, by test name
+ */
+export type QuarantineLookup = (testName: string) => Promise<boolean>;
+
+/**
+ * Batch bookkeeping
+ */
+interface Batch {
+  id: string;
+  parallel: boolean;
+  stopOnFailure: boolean;
+  runs: Run[];
+}
+
+/**
+ * Internal run state
+ */
+interface Run {
+  id: string;
+  config: TestConfig;
+  result: TestResult;
+  state: RunState;
+  queuedAt: Date;
+  startedAt?: Date;
+  attempt: number;
+  batch?: Batch;
+
+  /** Whether the test was quarantined when it started */
+  quarantined?: boolean;
+
+  /** Child runs of a matrix test, one per cell; the parent only aggregates them */
+  cells?: Run[];
+  parent?: Run;
+
+  abort: AbortController;
+
+  /** Engine of the current attempt, kept from eviction while the run is active */
+  engine?: ITestEngine;
+
+  /** Engine execution of the current attempt, settled once the engine returns */
+  engineRun?: Promise<unknown>;
+  done: Promise<TestResult>;
+  resolve: (result: TestResult) => void;
+}
+
+/**
+ * Test orchestrator
+ */
+export class TestOrchestrator {
+  private config: TestOrchestrationConfig;
+  private runs: Map<string, Run> = new Map();
+  private queue: Run[] = [];
+  private active: Set<Run> = new Set();
+  private pendingEngines: Map<string, Promise<ITestEngine>> = new Map();
+  private createdEngines: Map<string, ITestEngine> = new Map();
+  private listeners: TestUpdateListener[] = [];
+  private quarantineLookup: QuarantineLookup | null = null;
+
+  constructor(
+    private registry: PluginRegistry,
+    private factory: TestEngineFactory,
+    config: Partial<TestOrchestrationConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_ORCHESTRATION_CONFIG, ...config };
+  }
+
+  /**
+   * Register a listener for result updates
+   */
+  public onUpdate(listener: TestUpdateListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Set how quarantined tests are looked up when they start
+   */
+  public setQuarantineLookup(lookup: QuarantineLookup | null): void {
+    this.quarantineLookup = lookup;
+  }
+
+  /**
+   * Queue a single test for execution
+   *
+   * @param testId - Identifier for the run
+   * @param config - Test configuration; `engineConfig.engine` selects the engine
+   * @returns The pending test result, updated in place as the run progresses
+   */
+  public submit(testId: string, config: TestConfig): TestResult {
+    const run = this.enqueue(testId, config);
+    this.dispatch();
+    return run.result;
+  }
+
+  /**
+   * Queue a batch of tests
+   *
+   * Sequential batches run one test at a time in submission order.
+   *
+   * @returns The pending test results in submission order
+   */
+  public submitBatch(
+    batchId: string,
+    tests: Array<{ testId: string; config: TestConfig }>,
+    options: BatchOptions = {}
+  ): TestResult[] {
+    const batch: Batch = {
+      id: batchId,
+      parallel: options.parallel ?? false,
+      stopOnFailure: options.stopOnFailure ?? false,
+      runs: [],
+    };
+
+    const results = tests.map(({ testId, config }) => this.enqueue(testId, {
+      ...config,
+      ...(options.timeout !== undefined && { timeout: options.timeout }),
+      ...(options.matrix && !config.matrix && { matrix: options.matrix }),
+    }, batch).result);
+
+    this.dispatch();
+    return results;
+  }
+
+  /**
+   * Cancel a queued or running test
+   *
+   * Engines cannot be interrupted mid-execution, so a running test is marked
+   * cancelled immediately and whatever the engine later returns is discarded.
+   * The test keeps its concurrency slot until the engine returns, so
+   * cancelled tests never push the engines past `maxConcurrency`.
+   * Cancelling a matrix test cancels its unfinished cells.
+   *
+   * @returns False if the test is unknown or has already finished
+   */
+  public cancel(testId: string, reason: string = 'Test execution cancelled by user'): boolean {
+    const run = this.runs.get(testId);
+    if (!run || run.state === 'completed' || run.state === 'cancelled') {
+      return false;
+    }
+
+    this.finishCancelled(run, 'failed', reason);
+    return true;
+  }
+
+  /**
+   * Get the current result for a test
+   */
+  public getResult(testId: string): TestResult | undefined {
+    return this.runs.get(testId)?.result;
+  }
+
+  /**
+   * Get the lifecycle state of a test
+   */
+  public getState(testId: string): RunState | undefined {
+    return this.runs.get(testId)?.state;
+  }
+
+  /**
+   * Wait for a test to finish
+   */
+  public async waitFor(testId: string): Promise<TestResult> {
+    const run = this.runs.get(testId);
+    if (!run) {
+      throw new TestOrchestrationError(`Unknown test run: ${testId}`);
+    }
+    return run.done;
+  }
+
+  /**
+   * Get queued and running tests, oldest first
+   */
+  public getQueue(): QueueEntry[] {
+    return [...this.active, ...this.queue]
+      .sort((a, b) => a.queuedAt.getTime() - b.queuedAt.getTime())
+      .map(run => ({
+        testId: run.id,
+        name: run.config.name,
+        engine: run.config.engineConfig.engine,
+        state: run.state,
+        queuedAt: run.queuedAt,
+        ...(run.startedAt && { startedAt: run.startedAt }),
+        attempt: run.attempt,
+        ...(run.batch && { batchId: run.batch.id }),
+      }));
+  }
+
+  /**
+   * Maximum number of tests executing at once
+   */
+  public getConcurrencyLimit(): number {
+    return this.config.parallel ? Math.max(1, this.config.maxConcurrency) : 1;
+  }
+
+  /**
+   * Cancel everything, forget finished runs and clean up the engines created
+   * by the orchestrator
+   */
+  public async shutdown(): Promise<void> {
+    for (const run of [...this.active, ...this.queue]) {
+      this.finishCancelled(run, 'failed', 'Test execution cancelled: orchestrator shut down');
+    }
+    this.runs.clear();
+
+    const engines = [...this.createdEngines.values()];
+    this.createdEngines.clear();
+    await Promise.all(engines.map(engine => this.cleanupEngine(engine)));
+  }
+
+  /**
+   * Create and queue a run
+   *
+   * A matrix test is not queued itself: each of its cells is queued as a
+   * child run with the id `<testId>.<n>`.
+   */
+  private enqueue(testId: string, testConfig: TestConfig, batch?: Batch, parent?: Run): Run {
+    const config = this.withDefaults(testConfig);
+    const cells = config.matrix ? expandMatrix(config.matrix) : [];
+    const cellIds = cells.map((_cell, index) => `${testId}.${index + 1}`);
+    const existing = [testId, ...cellIds].find(id => this.runs.has(id));
+    if (existing) {
+      throw new TestOrchestrationError(`Test run already exists: ${existing}`);
+    }
+    if (config.matrix && cells.length === 0) {
+      throw new TestOrchestrationError(`Test matrix of ${config.name} has no combinations`);
+    }
+    if (cells.length > MAX_MATRIX_CELLS) {
+      throw new TestOrchestrationError(
+        `Test matrix of ${config.name} has ${cells.length} combinations, more than the limit of ${MAX_MATRIX_CELLS}`
+      );
+    }
+
+    let resolve!: (result: TestResult) => void;
+    const done = new Promise<TestResult>(r => { resolve = r; });
+
+    const run: Run = {
+      id: testId,
+      config,
+      result: createPendingResult(testId, config.name),
+      state: 'queued',
+      queuedAt: new Date(),
+      attempt: 0,
+      abort: new AbortController(),
+      done,
+      resolve,
+      ...(batch && { batch }),
+      ...(parent && { parent }),
+    };
+
+    this.runs.set(testId, run);
+    batch?.runs.push(run);
+    if (!config.matrix) {
+      this.queue.push(run);
+    }
+    this.notify(run);
+
+    if (config.matrix) {
+      run.cells = cells.map((cell, index) => this.enqueue(cellIds[index]!, createCellConfig(config, cell), batch, run));
+    }
+    return run;
+  }
+
+  /**
+   * Fill in the orchestration timeout and retry count where a test leaves them unset
+   */
+  private withDefaults(config: TestConfig): TestConfig {
+    return {
+      ...config,
+      timeout: config.timeout > 0 ? config.timeout : this.config.timeout,
+      retryConfig: {
+        ...config.retryConfig,
+        maxRetries: config.retryConfig.maxRetries ?? this.config.retryPolicy.maxRetries,
+      },
+    };
+  }
+
+  /**
+   * Start queued runs while capacity allows
+   */
+  private dispatch(): void {
+    const limit = this.getConcurrencyLimit();
+
+    for (let i = 0; i < this.queue.length && this.active.size < limit;) {
+      const run = this.queue[i]!;
+      if (!this.canStart(run)) {
+        i++;
+        continue;
+      }
+
+      this.queue.splice(i, 1);
+      this.active.add(run);
+      void this.execute(run);
+    }
+  }
+
+  /**
+   * Sequential batches only run one test at a time
+   */
+  private canStart(run: Run): boolean {
+    if (!run.batch || run.batch.parallel) {
+      return true;
+    }
+    return !run.batch.runs.some(other => other.state === 'running' && !other.cells);
+  }
+
+  /**
+   * Execute a run, retrying per the retry policy
+   */
+  private async execute(run: Run): Promise<void> {
+    if (run.parent?.state === 'queued') {
+      this.start(run.parent);
+    }
+    this.start(run);
+    if (this.quarantineLookup) {
+      run.quarantined = await this.isQuarantined(this.quarantineLookup, (run.parent ?? run).config.name);
+      if (run.parent && run.quarantined) {
+        run.parent.quarantined = true;
+      }
+    }
+
+    const maxRetries = this.config.retryPolicy.enabled
+      ? Math.max(0, run.config.retryConfig.maxRetries ?? this.config.retryPolicy.maxRetries)
+      : 0;
+
+    try {
+      for (;;) {
+        run.attempt++;
+        let result: TestResult;
+
+        try {
+          const engine = await this.resolveEngine(run);
+          if (run.abort.signal.aborted) {
+            return;
+          }
+          result = await this.executeAttempt(engine, run);
+        } catch (error) {
+          if (run.abort.signal.aborted) {
+            return;
+          }
+          if (error instanceof TestTimeoutError) {
+            this.finishTimedOut(run, error.message);
+            return;
+          }
+          const retryable = !(error instanceof TestOrchestrationError) || error.retryable;
+          if (!retryable || run.attempt > maxRetries) {
+            throw error;
+          }
+          logger.warn(`Test ${run.id} attempt ${run.attempt} errored, retrying`, { error: (error as Error).message });
+          await this.waitForRetry(run);
+          continue;
+        }
+
+        if (run.abort.signal.aborted) {
+          return;
+        }
+        if (result.status !== 'failed' || run.attempt > maxRetries) {
+          this.finish(run, result);
+          return;
+        }
+
+        logger.info(`Test ${run.id} failed on attempt ${run.attempt}, retrying`);
+        await this.waitForRetry(run);
+      }
+    } catch (error) {
+      if (!run.abort.signal.aborted) {
+        this.finishWithError(run, error as Error);
+      }
+    } finally {
+      // Cancelled and timed-out attempts free their slot once the engine returns
+      await run.engineRun;
+      this.active.delete(run);
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Check whether a test is quarantined
+   *
+   * A failing lookup is logged and the test treated as not quarantined.
+   */
+  private async isQuarantined(lookup: QuarantineLookup, testName: string): Promise<boolean> {
+    try {
+      return await lookup(testName);
+    } catch (error) {
+      logger.error('Quarantine lookup failed', { testName, error: (error as Error).message });
+      return false;
+    }
+  }
+
+  /**
+   * Mark a run as started
+   */
+  private start(run: Run): void {
+    run.state = 'running';
+    run.startedAt = new Date();
+    run.result.status = 'running';
+    run.result.startTime = run.startedAt;
+    this.notify(run);
+  }
+
+  /**
+   * Run one attempt, bounded by the test timeout and cancellation
+   */
+  private async executeAttempt(engine: ITestEngine, run: Run): Promise<TestResult> {
+    const timeout = run.config.timeout > 0 ? run.config.timeout : this.config.timeout;
+    let timer: NodeJS.Timeout | undefined;
+
+    const timedOut = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new TestTimeoutError(timeout)), timeout);
+    });
+
+    const execution = engine.execute({ ...run.config, type: engine.testType });
+    run.engineRun = execution.catch(() => undefined);
+
+    try {
+      return await Promise.race([
+        execution,
+        timedOut,
+        abortPromise(run.abort.signal),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Sleep for the backoff delay of the current attempt
+   */
+  private async waitForRetry(run: Run): Promise<void> {
+    const { delay, maxDelay } = run.config.retryConfig;
+    const base = delay > 0 ? delay : DEFAULT_RETRY_DELAY;
+    const backoff = Math.min(base * Math.pow(this.config.retryPolicy.backoffMultiplier, run.attempt - 1), maxDelay || Infinity);
+
+    run.result.output += `\n[INFO] Attempt ${run.attempt} failed, retrying in ${Math.round(backoff)}ms`;
+    this.notify(run);
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        new Promise<void>(resolve => { timer = setTimeout(resolve, backoff); }),
+        abortPromise(run.abort.signal),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Find the engine for a test
+   *
+   * Engines registered by plugins are used as they are. Otherwise one engine
+   * is created through the factory per engine name and settings, so tests
+   * with different settings do not share an engine initialized for others.
+   * Engine settings should therefore only come from the operator; see
+   * `MAX_CREATED_ENGINES` for how many created engines are kept.
+   */
+  private async resolveEngine(run: Run): Promise<ITestEngine> {
+    const config = run.config;
+    const engineName = config.engineConfig.engine;
+    const key = getEngineKey(config);
+    const created = this.createdEngines.get(key);
+    if (created) {
+      // Keep the map in least recently used order
+      this.createdEngines.delete(key);
+      this.createdEngines.set(key, created);
+      run.engine = created;
+      return created;
+    }
+    const registered = this.registry.getTestEngine(engineName);
+    if (registered && ![...this.createdEngines.values()].includes(registered)) {
+      return registered;
+    }
+
+    if (!this.factory.isEngineTypeAvailable(engineName)) {
+      throw new TestOrchestrationError(`Unknown test engine: ${engineName}`);
+    }
+
+    let pending = this.pendingEngines.get(key);
+    if (!pending) {
+      pending = this.factory.createEngine({
+        concurrency: this.getConcurrencyLimit(),
+        ...this.factory.createDefaultConfig(engineName, config.type),
+        ...config.engineConfig,
+      });
+      this.pendingEngines.set(key, pending);
+      // Failed creations are not cached so that a retry can try again
+      pending.then(
+        engine => {
+          this.createdEngines.set(key, engine);
+          this.pendingEngines.delete(key);
+          this.evictEngines();
+        },
+        () => this.pendingEngines.delete(key)
+      );
+    }
+
+    try {
+      run.engine = await pending;
+      return run.engine;
+    } catch (error) {
+      throw new TestOrchestrationError((error as Error).message, true);
+    }
+  }
+
+  /**
+   * Clean up the least recently used idle engines over `MAX_CREATED_ENGINES`
+   */
+  private evictEngines(): void {
+    const inUse = new Set([...this.active].map(run => run.engine));
+    for (const [key, engine] of this.createdEngines) {
+      if (this.createdEngines.size <= MAX_CREATED_ENGINES) {
+        return;
+      }
+      if (!inUse.has(engine)) {
+        this.createdEngines.delete(key);
+        void this.cleanupEngine(engine);
+      }
+    }
+  }
+
+  /**
+   * Unregister and clean up an engine created by the orchestrator
+   */
+  private async cleanupEngine(engine: ITestEngine): Promise<void> {
+    if (this.registry.getTestEngine(engine.name) === engine) {
+      this.registry.unregisterTestEngine(engine.name);
+    }
+    try {
+      await engine.cleanup();
+    } catch (error) {
+      logger.error(`Failed to clean up test engine ${engine.name}`, { error: (error as Error).message });
+    }
+  }
+
+  private finish(run: Run, engineResult: TestResult): void {
+    // Keep retry notes recorded before the final attempt
+    const notes = run.result.output.trim();
+    Object.assign(run.result, engineResult, {
+      id: run.id,
+      startTime: run.result.startTime,
+      output: notes ? `${notes}\n${engineResult.output}` : engineResult.output,
+    });
+    if (run.attempt > 1) {
+      run.result.metrics.custom['attempts'] = run.attempt;
+    }
+    this.complete(run, 'completed');
+  }
+
+  private finishWithError(run: Run, error: Error): void {
+    run.result.status = 'failed';
+    run.result.errors.push({
+      message: error.message,
+      type: 'unknown',
+      timestamp: new Date(),
+      context: { attempt: run.attempt },
+    });
+    run.result.output += `\n[ERROR] ${error.message}`;
+    this.complete(run, 'completed');
+  }
+
+  private finishTimedOut(run: Run, message: string): void {
+    run.abort.abort();
+    run.result.status = 'timeout';
+    run.result.errors.push({
+      message,
+      type: 'timeout',
+      timestamp: new Date(),
+      context: { attempt: run.attempt },
+    });
+    run.result.output += `\n[ERROR] ${message}`;
+    this.complete(run, 'completed');
+  }
+
+  private finishCancelled(run: Run, status: TestStatus, reason: string): void {
+    if (run.cells) {
+      // The matrix test completes with its last cell
+      run.abort.abort();
+      for (const cell of run.cells) {
+        if (cell.state === 'queued' || cell.state === 'running') {
+          this.finishCancelled(cell, status, reason);
+        }
+      }
+      return;
+    }
+
+    const index = this.queue.indexOf(run);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+
+    run.abort.abort();
+    run.result.status = status;
+    run.result.output += `\n[INFO] ${reason}`;
+    this.complete(run, 'cancelled');
+  }
+
+  /**
+   * Aggregate the cells of a matrix test into its result
+   */
+  private finishMatrix(run: Run): void {
+    const cellRuns = run.cells!;
+    const cells: TestMatrixCellResult[] = cellRuns.map(cellRun => ({
+      cell: cellRun.config.matrixCell!,
+      testId: cellRun.id,
+      status: cellRun.result.status,
+      ...(cellRun.result.duration !== undefined && { duration: cellRun.result.duration }),
+      errors: cellRun.result.errors.map(error => error.message),
+    }));
+    const summary = summarizeMatrix(cells);
+
+    run.result.status = getMatrixStatus(cells);
+    run.result.output = [
+      ...cells.map(cell => `[${cell.status.toUpperCase()}] ${cell.cell.id} (${cell.testId})`),
+      `Matrix: ${summary}`,
+    ].join('\n');
+    run.result.errors = cellRuns.flatMap(cellRun => cellRun.result.errors.map(error => ({
+      ...error,
+      message: `[${cellRun.config.matrixCell!.id}] ${error.message}`,
+      context: { ...error.context, matrixCell: cellRun.config.matrixCell!.id, testId: cellRun.id },
+    })));
+    run.result.healingAttempts = cellRuns.flatMap(cellRun => cellRun.result.healingAttempts);
+    run.result.artifacts = cellRuns.flatMap(cellRun => cellRun.result.artifacts.map(artifact => ({
+      ...artifact,
+      metadata: { ...artifact.metadata, matrixCell: cellRun.config.matrixCell!.id },
+    })));
+    run.result.metrics.custom['matrixCells'] = cells.length;
+    run.result.metrics.custom['failedMatrixCells'] = cells.filter(cell => cell.status === 'failed' || cell.status === 'timeout').length;
+    run.result.matrix = { cells, summary };
+
+    this.complete(run, run.abort.signal.aborted ? 'cancelled' : 'completed');
+  }
+
+  /**
+   * Record the end of a run and apply batch stop-on-failure
+   *
+   * Matrix cells are aggregated once the last one ends; only the matrix
+   * test as a whole stops its batch.
+   */
+  private complete(run: Run, state: RunState): void {
+    run.state = state;
+    run.result.endTime = new Date();
+    run.result.duration = run.result.endTime.getTime() - run.result.startTime.getTime();
+    run.result.execution = describeExecution(run);
+    if (run.quarantined) {
+      run.result.quarantined = true;
+    }
+    if (run.quarantined && (run.result.status === 'failed' || run.result.status === 'timeout')) {
+      run.result.output += `\n[INFO] ${run.config.name} is quarantined: its failure does not fail the build`;
+    }
+    this.notify(run);
+    run.resolve(run.result);
+
+    const parent = run.parent;
+    if (parent && parent.cells!.every(cell => cell.state === 'completed' || cell.state === 'cancelled')) {
+      this.finishMatrix(parent);
+    }
+
+    if (run.batch?.stopOnFailure && !parent && !run.quarantined && state === 'completed' && run.result.status !== 'passed') {
+      for (const other of run.batch.runs) {
+        if (other.state === 'queued') {
+          this.finishCancelled(other, 'skipped', `Skipped: ${run.config.name} failed in batch ${run.batch.id}`);
+        }
+      }
+    }
+
+    this.dispatch();
+  }
+
+  private notify(run: Run): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(run.result, run.config);
+      } catch (error) {
+        logger.error('Test update listener failed', { testId: run.id, error: (error as Error).message });
+      }
+    }
+  }
+}
+
+/**
+ * Create the initial result for a queued test
+ */
+function createPendingResult(testId: string, name: string): TestResult {
+  return {
+    id: testId,
+    name,
+    status: 'pending',
+    startTime: new Date(),
+    duration: 0,
+    output: '',
+    errors: [],
+    metrics: {
+      memoryUsage: 0,
+      cpuUsage: 0,
+      networkRequests: 0,
+      custom: {},
+    },
+    healingAttempts: [],
+    artifacts: [],
+  };
+}
+
+/**
+ * Describe how a run was executed
+ *
+ * Matrix cells are recorded under the name of their matrix test so their
+ * history can be compared by browser; a matrix test counts its most retried cell.
+ */
+function describeExecution(run: Run): TestExecutionInfo {
+  const browser = run.config.matrixCell?.browser ?? run.config.engineConfig.settings?.['browser']?.type;
+  return {
+    testName: (run.parent ?? run).config.name,
+    engine: run.config.engineConfig.engine,
+    environment: run.config.environment,
+    ...(typeof browser === 'string' && { browser }),
+    attempts: run.cells ? Math.max(0, ...run.cells.map(cell => cell.attempt)) : run.attempt,
+  };
+}
+
+/**
+ * Key of the engine a test runs on: its engine name and settings
+ */
+function getEngineKey(config: TestConfig): string {
+  return `${config.engineConfig.engine}:${stableStringify(config.engineConfig.settings ?? {})}`;
+}
+
+/**
+ * Serialize a value with object keys sorted, so equal settings share a key
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Promise that rejects when the signal aborts
+ */
+function abortPromise(signal: AbortSignal): Promise<never> {
+  return new Promise<never>((_resolve, reject) => {
+    if (signal.aborted) {
+      reject(new TestOrchestrationError('Test execution cancelled'));
+      return;
+    }
+    signal.addEventListener('abort', () => reject(new TestOrchestrationError('Test execution cancelled')), { once: true });
+  });
+}
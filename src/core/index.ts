@@ -12,6 +12,9 @@ export { TestEngine } from './TestEngine';
 export { HealingStrategy } from './HealingStrategy';
 export { PluginRegistry } from './PluginRegistry';
 export { TestEngineFactory } from './TestEngineFactory';
+export { TestOrchestrator, TestOrchestrationError, DEFAULT_ORCHESTRATION_CONFIG, MAX_CREATED_ENGINES } from './TestOrchestrator';
+export { MAX_MATRIX_CELLS, MAX_MATRIX_DIMENSION, expandMatrix, summarizeMatrix } from './TestMatrix';
+export { FlakyTestTracker, analyzeTestHistory, DEFAULT_FLAKY_TEST_CONFIG } from './FlakyTests';
 export { DependencyContainer, container } from './DependencyContainer';
 
 // Export demo components
@@ -0,0 +1,182 @@
+/**
+ * API test steps
+ *
+ * Builds and sends the HTTP request of an API test step and checks values
+ * read from its response.
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { isDefiniteJsonPath, parseJsonPath, queryJsonPath } from '../healing/JsonPath';
+import { ApiStep, ApiTestConfigError, ApiValueMatcher, ResolvedApiTestSettings } from './ApiTestConfig';
+import { isJsonType } from './JsonSchema';
+
+/**
+ * Request of a step, ready to send
+ */
+export interface ApiRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Response of a step
+ */
+export interface ApiResponse {
+  /** HTTP status, 0 when no response was received */
+  status: number;
+
+  /** Response headers with lower-case names */
+  headers: Record<string, string>;
+
+  body: string;
+
+  /** Time until the whole body was read (ms) */
+  duration: number;
+
+  /** Why no response was received */
+  error?: string;
+
+  timedOut?: boolean;
+}
+
+/**
+ * Sends a step's request
+ */
+export type ApiSender = (request: ApiRequest, timeout: number) => Promise<ApiResponse>;
+
+/**
+ * Value read from a response
+ *
+ * A path matching several values reads the list of them.
+ */
+export interface ReadValue {
+  found: boolean;
+  value?: unknown;
+}
+
+/**
+ * Build a step's request, resolving its URL against the base URL and
+ * encoding object bodies as JSON
+ */
+export function buildApiRequest(step: ApiStep, settings: ResolvedApiTestSettings): ApiRequest {
+  let url: URL;
+  try {
+    url = new URL(step.url, settings.baseUrl);
+  } catch {
+    throw new ApiTestConfigError(`Invalid request URL: ${step.url}${settings.baseUrl ? ` (base URL ${settings.baseUrl})` : ''}`);
+  }
+  for (const [name, value] of Object.entries(step.query ?? {})) {
+    url.searchParams.append(name, String(value));
+  }
+
+  const headers = { ...settings.headers, ...step.headers };
+  let body: string | undefined;
+  if (typeof step.body === 'string') {
+    body = step.body;
+  } else if (step.body !== undefined) {
+    body = JSON.stringify(step.body);
+    if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = 'application/json';
+    }
+  }
+
+  return {
+    method: (step.method ?? 'GET').toUpperCase(),
+    url: url.href,
+    headers,
+    ...(body !== undefined && { body }),
+  };
+}
+
+/**
+ * Send a request with fetch, reading the whole response body
+ */
+export const sendApiRequest: ApiSender = async (request, timeout) => {
+  const startTime = Date.now();
+  try {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      ...(request.body !== undefined && { body: request.body }),
+      signal: AbortSignal.timeout(timeout),
+    });
+    const body = await response.text();
+    return {
+      status: response.status,
+      headers: Object.fromEntries(response.headers.entries()),
+      body,
+      duration: Date.now() - startTime,
+    };
+  } catch (error) {
+    const cause = (error as Error & { cause?: Error }).cause;
+    const timedOut = (error as Error).name === 'TimeoutError';
+    return {
+      status: 0,
+      headers: {},
+      body: '',
+      duration: Date.now() - startTime,
+      error: timedOut ? `Request timed out after ${timeout}ms` : cause?.message ?? (error as Error).message,
+      ...(timedOut && { timedOut }),
+    };
+  }
+};
+
+/**
+ * Read a JSONPath from a parsed response body
+ */
+export function readJsonPath(body: unknown, path: string): ReadValue {
+  const segments = parseJsonPath(path);
+  const values = queryJsonPath(body, segments);
+  if (values.length === 0) {
+    return { found: false };
+  }
+  return { found: true, value: isDefiniteJsonPath(segments) ? values[0] : values };
+}
+
+/**
+ * Check a value against a matcher
+ *
+ * @returns why the value does not match, or undefined when it does
+ */
+export function checkValue(actual: ReadValue, matcher: ApiValueMatcher, label: string): string | undefined {
+  if (matcher.exists === false) {
+    return actual.found ? `${label} should be absent, got ${format(actual.value)}` : undefined;
+  }
+  if (!actual.found) {
+    return `${label} matched nothing`;
+  }
+
+  const value = actual.value;
+  if (matcher.equals !== undefined && !isDeepStrictEqual(value, matcher.equals)) {
+    return `${label}: expected ${format(matcher.equals)}, got ${format(value)}`;
+  }
+  if (matcher.contains !== undefined) {
+    const contains = typeof value === 'string'
+      ? value.includes(String(matcher.contains))
+      : Array.isArray(value) && value.some(item => isDeepStrictEqual(item, matcher.contains));
+    if (!contains) {
+      return `${label}: expected ${format(value)} to contain ${format(matcher.contains)}`;
+    }
+  }
+  if (matcher.matches !== undefined &&
+      !((typeof value === 'string' || typeof value === 'number') && new RegExp(matcher.matches).test(String(value)))) {
+    return `${label}: expected ${format(value)} to match /${matcher.matches}/`;
+  }
+  if (matcher.type !== undefined && !isJsonType(value, matcher.type)) {
+    return `${label}: expected a value of type ${matcher.type}, got ${format(value)}`;
+  }
+  if (matcher.length !== undefined) {
+    const length = typeof value === 'string' || Array.isArray(value) ? value.length : undefined;
+    if (length !== matcher.length) {
+      return `${label}: expected length ${matcher.length}, got ${length === undefined ? format(value) : length}`;
+    }
+  }
+  return undefined;
+}
+
+function format(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+}
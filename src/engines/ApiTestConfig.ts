@@ -0,0 +1,145 @@
+/**
+ * API test configuration types
+ *
+ * API tests are a list of HTTP request steps. Each step states what the
+ * response must look like, as a status, header and JSONPath assertions and a
+ * JSON Schema, and may capture values for the steps after it.
+ */
+
+import { JsonSchema, JsonValueType } from './JsonSchema';
+
+/**
+ * Checks applied to a value read from a response
+ *
+ * Every check that is set must hold.
+ */
+export interface ApiValueMatcher {
+  /** Value is deeply equal to this */
+  equals?: unknown;
+
+  /** String contains this text, or array contains this item */
+  contains?: unknown;
+
+  /** String matches this regular expression */
+  matches?: string;
+
+  /** Value is present (default), or absent with `false` */
+  exists?: boolean;
+
+  /** JSON type of the value */
+  type?: JsonValueType;
+
+  /** Length of a string or array */
+  length?: number;
+}
+
+/**
+ * Assertion on the JSON response body
+ *
+ * A path matching several values, such as `$.items[*].id`, is checked as the
+ * list of them.
+ */
+export interface ApiJsonAssertion extends ApiValueMatcher {
+  /** JSONPath into the response body, e.g. `$.user.email` */
+  path: string;
+}
+
+/**
+ * What a step's response must look like
+ */
+export interface ApiStepExpectations {
+  /** Expected statuses; by default every status below 400 */
+  status?: number | number[];
+
+  /** Header checks by header name; a string checks that the header contains it */
+  headers?: Record<string, string | ApiValueMatcher>;
+
+  json?: ApiJsonAssertion[];
+
+  /** JSON Schema the response body must satisfy */
+  schema?: JsonSchema;
+
+  /** Maximum response time (ms) */
+  maxDuration?: number;
+}
+
+/**
+ * Value a step stores in a variable once it passed, readable as `${vars.<as>}`
+ */
+export interface ApiStepCapture {
+  /** Variable name */
+  as: string;
+
+  /** JSONPath into the response body */
+  path?: string;
+
+  /** Response header read instead of the body */
+  header?: string;
+}
+
+/**
+ * One HTTP request of an API test
+ *
+ * String fields may contain `${...}` expressions, resolved when the step runs.
+ */
+export interface ApiStep {
+  name?: string;
+
+  /** HTTP method (default: GET) */
+  method?: string;
+
+  /** Absolute URL, or a path resolved against `baseUrl` */
+  url: string;
+
+  query?: Record<string, string | number | boolean>;
+
+  headers?: Record<string, string>;
+
+  /** Request body; objects are sent as JSON */
+  body?: string | Record<string, any> | any[];
+
+  expect?: ApiStepExpectations;
+
+  capture?: ApiStepCapture | ApiStepCapture[];
+
+  /** Request timeout, overriding `requestTimeout` (ms) */
+  timeout?: number;
+}
+
+/**
+ * Settings of the API test engine, read from `engineConfig.settings` and
+ * overridden per test by the test's parameters
+ */
+export interface ApiTestSettings {
+  /** URL relative step URLs are resolved against */
+  baseUrl?: string;
+
+  /** Headers sent with every request, such as an `Authorization` header */
+  headers?: Record<string, string>;
+
+  /** Timeout of one request (ms) */
+  requestTimeout?: number;
+}
+
+/**
+ * Default API test settings
+ */
+export const DEFAULT_API_TEST_SETTINGS: Required<Omit<ApiTestSettings, 'baseUrl'>> = {
+  headers: {},
+  requestTimeout: 30000,
+};
+
+/**
+ * API test settings with the defaults applied
+ */
+export type ResolvedApiTestSettings = typeof DEFAULT_API_TEST_SETTINGS & Pick<ApiTestSettings, 'baseUrl'>;
+
+/**
+ * Error raised for API test steps that cannot be run
+ */
+export class ApiTestConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiTestConfigError';
+  }
+}
@@ -0,0 +1,619 @@
+/**
+ * API Test Engine
+ *
+ * Runs integration tests against JSON APIs. A test is a list of request
+ * steps; each response is checked for its status, headers, JSONPath
+ * assertions and JSON Schema, and values captured from it can be used by
+ * the steps after it as `${vars.<name>}`. When an assertion's JSONPath no
+ * longer matches because the response contract drifted, the healing engine
+ * proposes a new path, which is applied like a healed selector once the
+ * assertion passes with it.
+ */
+
+import {
+  TestConfig,
+  TestResult,
+  TestFailure,
+  HealingResult,
+  HealingAttempt,
+  HealingContext,
+  EngineConfig,
+  EngineHealth,
+  FailureType,
+} from '../types';
+import { TestEngine } from '../core/TestEngine';
+import { HealingEngine, getSystemLoad } from '../healing/HealingEngine';
+import { findAssertionAction } from '../healing/ContractDrift';
+import { FieldRenameStrategy } from '../healing/strategies/FieldRenameStrategy';
+import { MovedPathStrategy } from '../healing/strategies/MovedPathStrategy';
+import { logger } from '../utils/logger';
+import {
+  ApiStep,
+  ApiTestConfigError,
+  ApiTestSettings,
+  ApiValueMatcher,
+  DEFAULT_API_TEST_SETTINGS,
+  ResolvedApiTestSettings,
+} from './ApiTestConfig';
+import { ApiRequest, ApiResponse, ApiSender, ReadValue, buildApiRequest, checkValue, readJsonPath, sendApiRequest } from './ApiSteps';
+import { validateJsonSchema } from './JsonSchema';
+import { ExpressionError, ExpressionScope, resolveValueExpressions } from './StepExpressions';
+import * as os from 'os';
+
+const SETTING_KEYS: Array<keyof ApiTestSettings> = ['baseUrl', 'headers', 'requestTimeout'];
+
+/**
+ * Schema violations listed in a step's error message
+ */
+const MAX_LISTED_VIOLATIONS = 3;
+
+/**
+ * JSONPath of an assertion replaced by healing
+ */
+export interface ApiAssertionHealing {
+  originalPath: string;
+  healedPath: string;
+  strategy: string;
+  confidence: number;
+  attempts: number;
+}
+
+/**
+ * Outcome of one step
+ */
+interface ApiStepResult {
+  title: string;
+  request?: ApiRequest;
+  response?: ApiResponse;
+  passed: boolean;
+  failures: string[];
+  healing: ApiAssertionHealing[];
+  captured: Record<string, unknown>;
+}
+
+/**
+ * State of a running test
+ */
+interface ApiRun {
+  config: TestConfig;
+  result: TestResult;
+  settings: ResolvedApiTestSettings;
+  scope: ExpressionScope;
+
+  /** JSONPaths healed earlier in the run, reused by later steps */
+  healedPaths: Map<string, string>;
+}
+
+/**
+ * Response of a step being checked
+ */
+interface CheckedResponse {
+  title: string;
+  request: ApiRequest;
+  response: ApiResponse;
+  body: unknown;
+}
+
+/**
+ * API Test Engine
+ */
+export class ApiTestEngine extends TestEngine {
+  private settings: ApiTestSettings = {};
+  private healingEngine: HealingEngine | null;
+  private runCount: number = 0;
+  private failedRunCount: number = 0;
+
+  constructor(healingEngine: HealingEngine | null = createContractDriftHealingEngine(), private send: ApiSender = sendApiRequest) {
+    super('api', '1.0.0', 'integration', true);
+    this.healingEngine = healingEngine;
+  }
+
+  /**
+   * Set the healing engine used to heal drifted assertions during a run
+   */
+  public setHealingEngine(healingEngine: HealingEngine | null): void {
+    this.healingEngine = healingEngine;
+  }
+
+  /**
+   * Initialize the API test engine
+   */
+  protected async doInitialize(config: EngineConfig): Promise<void> {
+    logger.info('Initializing API test engine');
+    this.settings = pickSettings(config.settings);
+    this.runCount = 0;
+    this.failedRunCount = 0;
+  }
+
+  /**
+   * Run the test's steps in order, stopping at the first failing step
+   */
+  protected async doExecute(config: TestConfig): Promise<TestResult> {
+    logger.info(`Executing API test: ${config.name}`);
+
+    const result = this.createTestResult(config, 'running');
+    this.runCount++;
+    const stepResults: ApiStepResult[] = [];
+    let steps: ApiStep[] = [];
+
+    try {
+      steps = readSteps(config.parameters['steps']);
+      const run: ApiRun = {
+        config,
+        result,
+        settings: { ...DEFAULT_API_TEST_SETTINGS, ...this.settings, ...pickSettings(config.parameters) },
+        scope: {
+          env: { ...process.env },
+          data: config.parameters['data'] ?? {},
+          vars: {},
+          params: {},
+        },
+        healedPaths: new Map(),
+      };
+
+      for (const step of steps) {
+        const stepResult = await this.runStep(step, run);
+        stepResults.push(stepResult);
+        if (!stepResult.passed) {
+          break;
+        }
+      }
+      result.status = stepResults.every(step => step.passed) ? 'passed' : 'failed';
+    } catch (error) {
+      result.status = 'failed';
+      result.errors.push({
+        message: (error as Error).message,
+        ...(!(error instanceof ApiTestConfigError) && (error as Error).stack && { stack: (error as Error).stack }),
+        type: error instanceof ApiTestConfigError ? 'configuration_error' : 'unknown',
+        timestamp: new Date(),
+        context: { testName: config.name },
+      });
+    }
+
+    const responses = stepResults.flatMap(step => step.response && !step.response.error ? [step.response] : []);
+    result.metrics.networkRequests = stepResults.filter(step => step.request).length;
+    result.metrics.custom = {
+      totalSteps: steps.length,
+      passedSteps: stepResults.filter(step => step.passed).length,
+      failedSteps: stepResults.filter(step => !step.passed).length,
+      healedAssertions: stepResults.reduce((count, step) => count + step.healing.length, 0),
+      averageResponseTime: responses.length > 0
+        ? Math.round(responses.reduce((total, response) => total + response.duration, 0) / responses.length)
+        : 0,
+    };
+    result.output = formatOutput(stepResults, steps.length);
+
+    if (result.status === 'failed') {
+      this.failedRunCount++;
+    }
+    this.healingEngine?.clearAttempts(result.id);
+    logger.info(`API test ${config.name} completed with status: ${result.status}`);
+    return result;
+  }
+
+  /**
+   * Heal a drifted assertion of a failed test
+   */
+  protected override async doHeal(failure: TestFailure): Promise<HealingResult> {
+    if (!this.healingEngine) {
+      throw new Error('API test engine has no healing engine');
+    }
+    return this.healingEngine.heal(failure, createHealingContext(failure.context.testConfig, failure.previousAttempts));
+  }
+
+  /**
+   * Clean up API test resources
+   */
+  protected async doCleanup(): Promise<void> {
+    logger.info('Cleaning up API test engine');
+  }
+
+  /**
+   * Get engine health status
+   */
+  protected async doGetHealth(): Promise<EngineHealth> {
+    return {
+      status: this.isInitialized ? 'healthy' : 'unhealthy',
+      message: `API test engine ran ${this.runCount} tests, ${this.failedRunCount} failed`,
+      metrics: {
+        uptime: this.startTime ? Date.now() - this.startTime.getTime() : 0,
+        memoryUsage: process.memoryUsage().heapUsed / 1024 / 1024,
+        cpuUsage: 0,
+        errorRate: this.runCount > 0 ? this.failedRunCount / this.runCount : 0,
+      },
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Send a step's request and check its response
+   */
+  private async runStep(originalStep: ApiStep, run: ApiRun): Promise<ApiStepResult> {
+    const stepResult: ApiStepResult = {
+      title: originalStep.name || `${(originalStep.method ?? 'GET').toUpperCase()} ${originalStep.url}`,
+      passed: false,
+      failures: [],
+      healing: [],
+      captured: {},
+    };
+    const fail = (message: string, type: FailureType, context: Record<string, any> = {}) => {
+      stepResult.failures.push(message);
+      run.result.errors.push({
+        message: `Step "${stepResult.title}": ${message}`,
+        type,
+        timestamp: new Date(),
+        context: {
+          step: stepResult.title,
+          ...(stepResult.request && { method: stepResult.request.method, url: stepResult.request.url }),
+          ...(stepResult.response && !stepResult.response.error && { status: stepResult.response.status }),
+          ...context,
+        },
+      });
+    };
+
+    let step: ApiStep;
+    try {
+      step = resolveValueExpressions(originalStep, run.scope);
+      stepResult.request = buildApiRequest(step, run.settings);
+    } catch (error) {
+      if (error instanceof ExpressionError || error instanceof ApiTestConfigError) {
+        fail(error.message, 'configuration_error');
+        return stepResult;
+      }
+      throw error;
+    }
+
+    const response = await this.send(stepResult.request, step.timeout ?? run.settings.requestTimeout);
+    stepResult.response = response;
+    if (response.error) {
+      fail(response.error, response.timedOut ? 'timeout' : 'network_error');
+      return stepResult;
+    }
+
+    const expect = step.expect ?? {};
+    const expectedStatus = expect.status === undefined ? undefined : [expect.status].flat();
+    if (expectedStatus ? !expectedStatus.includes(response.status) : response.status >= 400) {
+      fail(`Expected status ${expectedStatus?.join(' or ') ?? 'below 400'}, got ${response.status}`, 'assertion_failed');
+    }
+
+    for (const [name, check] of Object.entries(expect.headers ?? {})) {
+      const value = response.headers[name.toLowerCase()];
+      const matcher: ApiValueMatcher = typeof check === 'string' ? { contains: check } : check;
+      const message = checkValue({ found: value !== undefined, ...(value !== undefined && { value }) }, matcher, `Header ${name}`);
+      if (message) {
+        fail(message, 'assertion_failed', { header: name });
+      }
+    }
+
+    if (expect.maxDuration !== undefined && response.duration > expect.maxDuration) {
+      fail(`Response took ${response.duration}ms, more than ${expect.maxDuration}ms`, 'assertion_failed');
+    }
+
+    const captures = [step.capture ?? []].flat();
+    const readsBody = expect.schema !== undefined || (expect.json?.length ?? 0) > 0 || captures.some(capture => capture.path);
+    let body: unknown;
+    if (readsBody) {
+      try {
+        body = JSON.parse(response.body);
+      } catch {
+        fail(`Response body is not JSON: ${response.body.slice(0, 100)}`, 'assertion_failed');
+        return stepResult;
+      }
+    }
+    const checked: CheckedResponse = { title: stepResult.title, request: stepResult.request, response, body };
+
+    if (expect.schema !== undefined) {
+      const violations = validateJsonSchema(body, expect.schema);
+      if (violations.length > 0) {
+        const listed = violations.slice(0, MAX_LISTED_VIOLATIONS).map(violation => violation.message).join('; ');
+        const more = violations.length > MAX_LISTED_VIOLATIONS ? ` (and ${violations.length - MAX_LISTED_VIOLATIONS} more)` : '';
+        fail(`Response does not match the schema: ${listed}${more}`, 'assertion_failed', { violations });
+      }
+    }
+
+    for (const assertion of expect.json ?? []) {
+      const { path, ...matcher } = assertion;
+      const { message } = await this.checkPath(path, matcher, checked, run, stepResult);
+      if (message) {
+        fail(message, 'assertion_failed', { jsonPath: path });
+      }
+    }
+
+    const captured: Record<string, unknown> = {};
+    for (const capture of captures) {
+      if (capture.header) {
+        const value = response.headers[capture.header.toLowerCase()];
+        if (value === undefined) {
+          fail(`Capture vars.${capture.as}: header ${capture.header} is missing`, 'assertion_failed', { header: capture.header });
+        } else {
+          captured[capture.as] = value;
+        }
+      } else if (capture.path) {
+        const { message, actual } = await this.checkPath(capture.path, {}, checked, run, stepResult);
+        if (message) {
+          fail(`Capture vars.${capture.as}: ${message}`, 'assertion_failed', { jsonPath: capture.path });
+        } else {
+          captured[capture.as] = actual.value;
+        }
+      } else {
+        captured[capture.as] = body;
+      }
+    }
+
+    stepResult.passed = stepResult.failures.length === 0;
+    if (stepResult.passed) {
+      stepResult.captured = captured;
+      Object.assign(run.scope.vars, captured);
+    }
+    return stepResult;
+  }
+
+  /**
+   * Check the value at a JSONPath, healing the path when it matches nothing
+   */
+  private async checkPath(
+    path: string,
+    matcher: ApiValueMatcher,
+    checked: CheckedResponse,
+    run: ApiRun,
+    stepResult: ApiStepResult
+  ): Promise<{ message?: string; actual: ReadValue }> {
+    const currentPath = run.healedPaths.get(path) ?? path;
+    let actual: ReadValue;
+    try {
+      actual = readJsonPath(checked.body, currentPath);
+    } catch (error) {
+      return { message: (error as Error).message, actual: { found: false } };
+    }
+
+    const message = checkValue(actual, matcher, currentPath);
+    if (!message || actual.found || matcher.exists === false || !this.canHealAssertions(run.config)) {
+      return { ...(message && { message }), actual };
+    }
+
+    const healing = await this.healPath(currentPath, matcher, message, checked, run);
+    if (!healing) {
+      return { message, actual };
+    }
+
+    run.healedPaths.set(path, healing.healedPath);
+    stepResult.healing.push({ ...healing, originalPath: path });
+    return { actual: readJsonPath(checked.body, healing.healedPath) };
+  }
+
+  /**
+   * Ask the healing engine for a new JSONPath until the assertion passes with it
+   */
+  private async healPath(
+    path: string,
+    matcher: ApiValueMatcher,
+    message: string,
+    checked: CheckedResponse,
+    run: ApiRun
+  ): Promise<ApiAssertionHealing | undefined> {
+    const { config, result } = run;
+    const stepAttempts: HealingAttempt[] = [];
+    let currentPath = path;
+    let lastMessage = message;
+
+    while (stepAttempts.length < config.healingConfig.maxAttempts) {
+      const failure = createAssertionFailure(run, checked, currentPath, matcher, lastMessage, stepAttempts);
+      const healingResult = await this.healingEngine!.heal(failure, createHealingContext(config, stepAttempts));
+
+      const attempt: HealingAttempt = {
+        id: healingResult.id,
+        attemptNumber: result.healingAttempts.length + 1,
+        strategy: healingResult.metadata?.['strategy'] || 'unknown',
+        result: healingResult,
+        timestamp: new Date(),
+        failure: { ...failure, previousAttempts: [] },
+      };
+      stepAttempts.push(attempt);
+      result.healingAttempts.push(attempt);
+
+      const patch = findAssertionAction(healingResult.actions);
+      if (healingResult.success && patch && healingResult.applied === false) {
+        logger.info(`Assertion healing suggested a JSONPath without applying it for step: ${checked.title}`, {
+          path: currentPath,
+          suggestedPath: patch.healedPath,
+          mode: healingResult.metadata?.['healingMode'],
+          confidence: healingResult.confidence,
+        });
+        break;
+      }
+
+      const applicable = healingResult.applied ?? healingResult.confidence >= config.healingConfig.confidenceThreshold;
+      if (!healingResult.success || !patch || !applicable) {
+        logger.warn(`Assertion healing did not produce a usable JSONPath for step: ${checked.title}`, {
+          path: currentPath,
+          confidence: healingResult.confidence,
+          message: healingResult.message,
+        });
+        break;
+      }
+
+      currentPath = patch.healedPath;
+      const retryMessage = checkValue(readJsonPath(checked.body, currentPath), matcher, currentPath);
+      if (!retryMessage) {
+        // Mark the verified heal so it can be reviewed as an assertion change
+        healingResult.metadata = {
+          ...healingResult.metadata,
+          assertionPatch: { originalPath: path, healedPath: currentPath },
+        };
+
+        logger.info(`Assertion healed inline: ${path} -> ${currentPath}`, {
+          strategy: attempt.strategy,
+          confidence: healingResult.confidence,
+        });
+
+        return {
+          originalPath: path,
+          healedPath: currentPath,
+          strategy: attempt.strategy,
+          confidence: healingResult.confidence,
+          attempts: stepAttempts.length,
+        };
+      }
+      lastMessage = retryMessage;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check whether drifted assertions of a test may be healed
+   */
+  private canHealAssertions(config: TestConfig): boolean {
+    return this.healingEngine !== null &&
+      config.healingConfig.enabled &&
+      config.healingConfig.mode !== 'off' &&
+      config.healingConfig.maxAttempts > 0;
+  }
+}
+
+/**
+ * Healing engine with the strategies for contract drift
+ */
+function createContractDriftHealingEngine(): HealingEngine {
+  const engine = new HealingEngine({ enableDetailedLogging: false });
+  engine.registerStrategy(new FieldRenameStrategy());
+  engine.registerStrategy(new MovedPathStrategy());
+  return engine;
+}
+
+/**
+ * Pick API test settings out of engine settings or test parameters
+ */
+function pickSettings(source: Record<string, any> | undefined): ApiTestSettings {
+  const settings: Record<string, any> = {};
+  for (const key of SETTING_KEYS) {
+    if (source?.[key] !== undefined) {
+      settings[key] = source[key];
+    }
+  }
+  return settings;
+}
+
+/**
+ * Read and check the steps of a test
+ */
+function readSteps(steps: unknown): ApiStep[] {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new ApiTestConfigError('API test has no steps');
+  }
+
+  steps.forEach((step, index) => {
+    if (typeof step?.url !== 'string' || step.url === '') {
+      throw new ApiTestConfigError(`Step ${index + 1} has no url`);
+    }
+    for (const capture of [step.capture ?? []].flat()) {
+      if (typeof capture?.as !== 'string' || capture.as === '') {
+        throw new ApiTestConfigError(`Step ${index + 1} has a capture without a variable name (as)`);
+      }
+    }
+    for (const assertion of step.expect?.json ?? []) {
+      if (typeof assertion?.path !== 'string') {
+        throw new ApiTestConfigError(`Step ${index + 1} has a JSON assertion without a path`);
+      }
+    }
+  });
+  return steps;
+}
+
+/**
+ * Build a test failure for an assertion whose JSONPath matched nothing
+ */
+function createAssertionFailure(
+  run: ApiRun,
+  checked: CheckedResponse,
+  path: string,
+  matcher: ApiValueMatcher,
+  message: string,
+  previousAttempts: HealingAttempt[]
+): TestFailure {
+  return {
+    id: `${run.result.id}-assertion-${run.result.healingAttempts.length + 1}`,
+    testId: run.result.id,
+    attemptKey: checked.title,
+    type: 'assertion_failed',
+    message: `Step "${checked.title}": ${message}`,
+    timestamp: new Date(),
+    context: {
+      testConfig: run.config,
+      environment: {
+        os: os.platform(),
+        nodeVersion: process.version,
+        environment: run.config.environment,
+        availableMemory: os.freemem() / 1024 / 1024,
+        cpuCount: os.cpus().length,
+      },
+      custom: {
+        stepName: checked.title,
+        method: checked.request.method,
+        url: checked.request.url,
+        status: checked.response.status,
+        jsonPath: path,
+        assertion: matcher,
+        responseBody: checked.body,
+      },
+    },
+    previousAttempts,
+  };
+}
+
+/**
+ * Build the healing context for an assertion healing attempt
+ */
+function createHealingContext(config: TestConfig, previousAttempts: HealingAttempt[]): HealingContext {
+  return {
+    availableStrategies: config.healingConfig.strategies,
+    previousAttempts,
+    maxAttempts: config.healingConfig.maxAttempts,
+    systemState: {
+      load: getSystemLoad(),
+      resources: {
+        memory: process.memoryUsage().heapUsed / 1024 / 1024,
+        cpu: 0,
+        disk: 0,
+      },
+      activeTests: 1,
+      queueLength: 0,
+    },
+    userPreferences: {
+      preferredStrategies: config.healingConfig.strategies,
+      riskTolerance: 'medium',
+      notifications: {
+        onHealingAttempt: false,
+        onHealingSuccess: false,
+        onHealingFailure: false,
+      },
+    },
+  };
+}
+
+/**
+ * List every step with its response, heals, captures and failures
+ */
+function formatOutput(steps: ApiStepResult[], total: number): string {
+  const lines: string[] = [];
+
+  for (const step of steps) {
+    const { request, response } = step;
+    const outcome = response && !response.error ? ` → ${response.status} (${response.duration}ms)` : '';
+    lines.push(`${step.passed ? '✓' : '✗'} ${step.title}${request ? `: ${request.method} ${request.url}` : ''}${outcome}`);
+    for (const healing of step.healing) {
+      lines.push(`    Healed: ${healing.originalPath} -> ${healing.healedPath} ` +
+        `(${healing.strategy}, ${(healing.confidence * 100).toFixed(1)}% confidence)`);
+    }
+    for (const [name, value] of Object.entries(step.captured)) {
+      lines.push(`    Captured: vars.${name} = ${JSON.stringify(value)}`);
+    }
+    for (const failure of step.failures) {
+      lines.push(`    ${failure}`);
+    }
+  }
+
+  const passed = steps.filter(step => step.passed).length;
+  lines.push(`Steps: ${passed} passed, ${steps.length - passed} failed, ${total - steps.length} not run, ${total} total`);
+  return lines.join('\n');
+}
@@ -0,0 +1,368 @@
+/**
+ * Browser Context Pool
+ *
+ * Tests lease an isolated browser context from the pool and return it when
+ * they finish, so one engine can run many tests at once without launching a
+ * browser per test. Browsers are launched once per type and shared by their
+ * contexts.
+ *
+ * Returned contexts are reset (pages closed, cookies, permissions and web
+ * storage cleared) and reused by later tests with the same browser type and
+ * context options. A context is closed instead of reused once it has served
+ * `maxUses` tests, when its page or browser crashed, or when the test left
+ * state behind that cannot be cleared reliably: IndexedDB databases, Cache
+ * Storage or service workers of its open pages, service workers of any
+ * origin, or web storage or IndexedDB of origins no page has open anymore.
+ *
+ * Cache Storage of origins no page has open when the context is returned
+ * cannot be seen from the context and may carry over. Tests that need full
+ * isolation should use a pool with `maxUses` of 1.
+ */
+
+import { Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
+import { logger } from '../utils/logger';
+
+/**
+ * Options of a context pool
+ */
+export interface BrowserContextPoolOptions {
+  /** Maximum number of open contexts, leased or idle */
+  size: number;
+
+  /** Number of tests a context serves before it is closed */
+  maxUses: number;
+
+  /** Launch a browser of the given type */
+  launch: (browserType: string) => Promise<Browser>;
+}
+
+/**
+ * A context leased from the pool, with a fresh page
+ */
+export interface BrowserContextLease {
+  context: BrowserContext;
+  page: Page;
+
+  /**
+   * Return the context to the pool; later calls do nothing. With `close`, the
+   * context is closed instead of reused, e.g. so that its HAR file is written
+   */
+  release(options?: { close?: boolean }): Promise<void>;
+}
+
+/**
+ * Snapshot of the pool's state
+ */
+export interface BrowserContextPoolStats {
+  size: number;
+  open: number;
+  leased: number;
+  waiting: number;
+  browsers: string[];
+
+  /** Contexts created and closed since the pool was created */
+  created: number;
+  recycled: number;
+}
+
+/**
+ * Error raised when leasing from a closed pool
+ */
+export class BrowserContextPoolClosedError extends Error {
+  constructor() {
+    super('Browser context pool is closed');
+    this.name = 'BrowserContextPoolClosedError';
+  }
+}
+
+interface PooledContext {
+  /** Browser type and context options the context was created with */
+  key: string;
+  browserType: string;
+  context: BrowserContext | null;
+  uses: number;
+  leased: boolean;
+
+  /** The context, its page or its browser crashed or closed */
+  broken: boolean;
+}
+
+/**
+ * Pool of browser contexts
+ */
+export class BrowserContextPool {
+  private browsers = new Map<string, Promise<Browser>>();
+  private contexts: PooledContext[] = [];
+  private waiters: Array<() => void> = [];
+  private closed = false;
+  private created = 0;
+  private recycled = 0;
+
+  constructor(private options: BrowserContextPoolOptions) {}
+
+  /**
+   * Get the browser of a type, launching it on first use
+   *
+   * A browser that disconnects is relaunched by the next lease that needs it.
+   */
+  public async getBrowser(browserType: string): Promise<Browser> {
+    let pending = this.browsers.get(browserType);
+    if (!pending) {
+      logger.info(`Launching ${browserType} browser for the context pool`);
+      pending = this.options.launch(browserType).then(browser => {
+        browser.on('disconnected', () => this.onBrowserDisconnected(browserType, pending!));
+        return browser;
+      });
+      this.browsers.set(browserType, pending);
+      pending.catch(() => {
+        if (this.browsers.get(browserType) === pending) {
+          this.browsers.delete(browserType);
+        }
+      });
+    }
+    return pending;
+  }
+
+  /**
+   * Lease a context, waiting while every context of the pool is leased
+   *
+   * An idle context with the same browser type and options is reused;
+   * otherwise a context is created, closing an idle one when the pool is full.
+   */
+  public async acquire(browserType: string, contextOptions: BrowserContextOptions = {}): Promise<BrowserContextLease> {
+    const key = `${browserType}:${JSON.stringify(contextOptions)}`;
+
+    for (;;) {
+      if (this.closed) {
+        throw new BrowserContextPoolClosedError();
+      }
+
+      const idle = this.contexts.find(entry => !entry.leased && !entry.broken && entry.key === key);
+      if (idle) {
+        return this.lease(idle);
+      }
+
+      const stale = this.contexts.find(entry => !entry.leased && (entry.broken || this.contexts.length >= this.options.size));
+      if (stale) {
+        await this.discard(stale);
+        continue;
+      }
+
+      if (this.contexts.length < this.options.size) {
+        return this.lease(await this.create(key, browserType, contextOptions));
+      }
+
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  /**
+   * Get a snapshot of the pool's state
+   */
+  public getStats(): BrowserContextPoolStats {
+    return {
+      size: this.options.size,
+      open: this.contexts.length,
+      leased: this.contexts.filter(entry => entry.leased).length,
+      waiting: this.waiters.length,
+      browsers: [...this.browsers.keys()],
+      created: this.created,
+      recycled: this.recycled,
+    };
+  }
+
+  /**
+   * Close every context and browser; pending and later leases fail
+   */
+  public async close(): Promise<void> {
+    this.closed = true;
+    this.wake();
+
+    const contexts = this.contexts;
+    this.contexts = [];
+    await Promise.all(contexts.map(entry => closeContext(entry)));
+
+    const browsers = [...this.browsers.values()];
+    this.browsers.clear();
+    for (const pending of browsers) {
+      try {
+        await (await pending).close();
+      } catch (error) {
+        logger.warn('Failed to close pooled browser:', error);
+      }
+    }
+  }
+
+  /**
+   * Create a context, reserving its slot while the browser starts
+   */
+  private async create(key: string, browserType: string, contextOptions: BrowserContextOptions): Promise<PooledContext> {
+    const entry: PooledContext = { key, browserType, context: null, uses: 0, leased: true, broken: false };
+    this.contexts.push(entry);
+
+    try {
+      const browser = await this.getBrowser(browserType);
+      entry.context = await browser.newContext(contextOptions);
+    } catch (error) {
+      this.remove(entry);
+      throw error;
+    }
+
+    entry.context.on('close', () => { entry.broken = true; });
+    this.created++;
+    return entry;
+  }
+
+  /**
+   * Lease a context with a fresh page
+   */
+  private async lease(entry: PooledContext): Promise<BrowserContextLease> {
+    entry.leased = true;
+    entry.uses++;
+
+    let page: Page;
+    try {
+      page = await entry.context!.newPage();
+    } catch (error) {
+      entry.broken = true;
+      await this.discard(entry);
+      throw error;
+    }
+    page.on('crash', () => { entry.broken = true; });
+
+    let released = false;
+    return {
+      context: entry.context!,
+      page,
+      release: async (options = {}) => {
+        if (!released) {
+          released = true;
+          await this.release(entry, options.close ?? false);
+        }
+      },
+    };
+  }
+
+  /**
+   * Reset a returned context for reuse, or close it when it is worn out
+   */
+  private async release(entry: PooledContext, close: boolean): Promise<void> {
+    let recycle = close || this.closed || entry.broken || entry.uses >= this.options.maxUses;
+
+    if (!recycle) {
+      try {
+        recycle = !(await resetContext(entry.context!));
+      } catch (error) {
+        logger.warn('Failed to reset pooled browser context, closing it', error);
+        recycle = true;
+      }
+    }
+
+    if (recycle) {
+      await this.discard(entry);
+    } else {
+      entry.leased = false;
+      this.wake();
+    }
+  }
+
+  /**
+   * Close a context and free its slot
+   */
+  private async discard(entry: PooledContext): Promise<void> {
+    if (!this.remove(entry)) {
+      return;
+    }
+    this.recycled++;
+    await closeContext(entry);
+  }
+
+  private remove(entry: PooledContext): boolean {
+    const index = this.contexts.indexOf(entry);
+    if (index === -1) {
+      return false;
+    }
+    this.contexts.splice(index, 1);
+    this.wake();
+    return true;
+  }
+
+  /**
+   * Mark the contexts of a crashed browser so they are closed instead of reused
+   */
+  private onBrowserDisconnected(browserType: string, pending: Promise<Browser>): void {
+    if (this.closed || this.browsers.get(browserType) !== pending) {
+      return;
+    }
+
+    logger.warn(`Pooled ${browserType} browser disconnected`);
+    this.browsers.delete(browserType);
+    for (const entry of this.contexts) {
+      if (entry.browserType === browserType) {
+        entry.broken = true;
+      }
+    }
+    this.wake();
+  }
+
+  /**
+   * Let waiting leases look for a context again
+   */
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+}
+
+async function closeContext(entry: PooledContext): Promise<void> {
+  try {
+    await entry.context?.close();
+  } catch (error) {
+    logger.debug('Failed to close pooled browser context:', error);
+  }
+}
+
+/**
+ * Clears web storage of a page's origin and reports whether the origin holds
+ * state that is only dropped with the context
+ */
+const CLEAR_PAGE_STORAGE = `(async () => {
+  try { localStorage.clear(); sessionStorage.clear(); } catch {}
+  const used = async (count) => { try { return (await count()) > 0; } catch { return false; } };
+  return await used(async () => (await indexedDB.databases()).length)
+    || await used(async () => (await caches.keys()).length)
+    || await used(async () => (await navigator.serviceWorker.getRegistrations()).length);
+})()`;
+
+/**
+ * Clear what one test leaves behind in a context
+ *
+ * Web storage outlives pages, so it is cleared for the origin of each page
+ * before the page is closed. Returns false when the context holds state that
+ * was not cleared and must not be reused.
+ */
+async function resetContext(context: BrowserContext): Promise<boolean> {
+  let clean = true;
+  for (const page of context.pages()) {
+    try {
+      if (await page.evaluate(CLEAR_PAGE_STORAGE)) {
+        clean = false;
+      }
+    } catch {
+      // Pages that crashed or never loaded have no storage to clear
+    }
+    await page.close();
+  }
+  await context.clearCookies();
+  await context.clearPermissions();
+
+  if (!clean || context.serviceWorkers().length > 0) {
+    return false;
+  }
+  // Origins are only listed with local storage or IndexedDB left in them
+  const state = await context.storageState({ indexedDB: true });
+  return state.origins.length === 0;
+}
@@ -1,5 +1,13 @@
 import { TestType, TestResult, EngineHealth } from "../types";
-import { TestExportFormat, TestExportConfig, TestExportResult, GeneratedTestCase } from "../types/test-generation";
+import {
+  TestExportFormat,
+  TestExportConfig,
+  TestExportResult,
+  GeneratedTestCase,
+  TestGenerationError,
+  TestGenerationWarning
+} from "../types/test-generation";
+import { TestFileError, readTestFile, serializeTestFile, toTestFile } from "../testfiles";
 
 export class GenericExporter {
   public readonly name: string = "generic-exporter";
@@ -86,6 +94,8 @@ export class GenericExporter {
 
     // Minimal implementation to make JSON and YAML tests pass
     const files = [] as any[];
+    const errors: TestGenerationError[] = [];
+    const warnings: TestGenerationWarning[] = [];
     
     if (config.format === 'json') {
       // Test expects 3 files: test cases, test data, documentation
@@ -107,15 +117,20 @@ export class GenericExporter {
         }
       );
     } else if (config.format === 'yaml') {
-      // Simple YAML-like format with test case IDs
-      const yamlContent = workingSet.map(tc => `${tc.id}:\n  title: "${tc.title}"\n  description: "${tc.description}"`).join('\n\n');
-      files.push(
-        {
-          type: 'test',
-          path: `test-cases.yaml`,
-          preview: yamlContent
-        }
-      );
+      // Declarative test file, loadable by the test file loader and runnable by the Playwright engine
+      try {
+        const yamlContent = serializeTestFile(toTestFile(workingSet));
+        warnings.push(...this.checkTestFile(yamlContent));
+        files.push(
+          {
+            type: 'test',
+            path: `test-cases.yaml`,
+            preview: yamlContent
+          }
+        );
+      } catch (error) {
+        errors.push({ code: 'EXPORT_FAILED', message: (error as Error).message, timestamp: new Date() });
+      }
     } else if (config.format === 'csv') {
       // CSV format with header and data rows
       const csvHeader = 'Test ID,Title,Description,Category,Priority';
@@ -161,15 +176,36 @@ export class GenericExporter {
         testCaseCount: workingSet.length,
         outputDir: config.outputDirectory || "/tmp"
       },
-      errors: [],
-      warnings: [],
+      errors,
+      warnings,
       statistics: {
         totalFiles: files.length,
         totalTestCases: workingSet.length,
         exportDuration: 50,
         totalSize: 1024,
-        successRate: 1.0
+        successRate: errors.length === 0 ? 1.0 : 0
       }
     };
   }
+
+  /**
+   * Report exported test cases the test file loader would reject,
+   * e.g. steps whose selectors were dropped by `simplifySteps`
+   */
+  private checkTestFile(content: string): TestGenerationWarning[] {
+    try {
+      readTestFile(content, 'test-cases.yaml');
+      return [];
+    } catch (error) {
+      if (!(error instanceof TestFileError)) {
+        throw error;
+      }
+      return error.issues.map(issue => ({
+        code: 'INVALID_TEST_FILE',
+        message: `${issue.path}: ${issue.message}`,
+        context: { line: issue.line },
+        timestamp: new Date()
+      }));
+    }
+  }
 }
\ No newline at end of file
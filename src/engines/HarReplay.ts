@@ -0,0 +1,203 @@
+/**
+ * HAR Replay
+ *
+ * Serves a page's requests from a recorded HAR file, so tests run without
+ * the backends they were recorded against. Requests match recorded entries
+ * on method and URL, and on body and headers as the match rules say. When
+ * several entries match a request, they are served in recorded order and
+ * the last one repeats, so polled endpoints replay their recorded sequence.
+ *
+ * Requests without a recorded entry are aborted and listed in `unmatched`,
+ * so a replayed test never reaches the live network unnoticed.
+ */
+
+import { promises as fs } from 'fs';
+import { Page, Route } from 'playwright';
+import { PlaywrightHarMatchRules } from './PlaywrightConfig';
+
+/**
+ * Request to match against the HAR's entries
+ */
+export interface ReplayedRequest {
+  method: string;
+  url: string;
+
+  /** Headers with lower-case names */
+  headers: Record<string, string>;
+  postData: string | null;
+}
+
+/**
+ * The parts of a HAR entry replay uses
+ */
+export interface HarEntry {
+  request: {
+    method: string;
+    url: string;
+    headers?: HarHeader[];
+    postData?: { text?: string };
+  };
+  response: {
+    status: number;
+    headers?: HarHeader[];
+    content?: { text?: string; encoding?: string };
+  };
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * Headers describing how the recorded body was transferred; HAR files store
+ * the decoded body
+ */
+const TRANSFER_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+
+/**
+ * Replays the entries of one HAR file
+ */
+export class HarReplayer {
+  /** Requests that had no recorded entry, as `METHOD url` */
+  public readonly unmatched: string[] = [];
+  private served = new Map<string, number>();
+
+  constructor(private entries: HarEntry[], private rules: PlaywrightHarMatchRules = {}) {}
+
+  /**
+   * Load a HAR file
+   */
+  public static async load(harPath: string, rules: PlaywrightHarMatchRules = {}): Promise<HarReplayer> {
+    let entries: unknown;
+    try {
+      entries = JSON.parse(await fs.readFile(harPath, 'utf-8'))?.log?.entries;
+    } catch (error) {
+      throw new Error(`Cannot replay HAR file ${harPath}: ${(error as Error).message}`);
+    }
+
+    if (!Array.isArray(entries)) {
+      throw new Error(`Cannot replay HAR file ${harPath}: it has no log entries`);
+    }
+    return new HarReplayer(entries, rules);
+  }
+
+  /**
+   * Serve the page's requests that match the rules' URL globs from the HAR
+   */
+  public async install(page: Page): Promise<void> {
+    const urls = this.rules.urls?.length ? this.rules.urls : ['**/*'];
+    for (const url of urls) {
+      await page.route(url, route => this.handle(route));
+    }
+  }
+
+  /**
+   * Find the recorded entry to answer a request with
+   *
+   * Every call counts as serving the entry, advancing through repeated
+   * requests' recorded responses.
+   */
+  public match(request: ReplayedRequest): HarEntry | null {
+    const key = this.getRequestKey(request.method, request.url, request.headers, request.postData);
+    const candidates = this.entries.filter(entry => this.getRequestKey(
+      entry.request.method,
+      entry.request.url,
+      getHeaders(entry.request.headers),
+      entry.request.postData?.text ?? null
+    ) === key);
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const served = this.served.get(key) ?? 0;
+    this.served.set(key, served + 1);
+    return candidates[Math.min(served, candidates.length - 1)]!;
+  }
+
+  private async handle(route: Route): Promise<void> {
+    const request = route.request();
+    const entry = this.match({
+      method: request.method(),
+      url: request.url(),
+      headers: request.headers(),
+      postData: request.postData(),
+    });
+
+    if (!entry) {
+      this.unmatched.push(`${request.method()} ${request.url()}`);
+      await route.abort('failed');
+      return;
+    }
+
+    // Requests that failed while recording fail again
+    if (entry.response.status <= 0) {
+      await route.abort('failed');
+      return;
+    }
+
+    const content = entry.response.content ?? {};
+    const text = content.text ?? '';
+    await route.fulfill({
+      status: entry.response.status,
+      headers: getResponseHeaders(entry.response.headers),
+      body: content.encoding === 'base64' ? Buffer.from(text, 'base64') : text,
+    });
+  }
+
+  /**
+   * Key of the parts of a request the rules compare
+   */
+  private getRequestKey(method: string, url: string, headers: Record<string, string>, postData: string | null): string {
+    return JSON.stringify([
+      method.toUpperCase(),
+      this.normalizeUrl(url),
+      this.rules.matchBody === false ? null : postData ?? '',
+      (this.rules.matchHeaders ?? []).map(name => headers[name.toLowerCase()] ?? null),
+    ]);
+  }
+
+  /**
+   * Drop the fragment and ignored query parameters, and sort the rest
+   */
+  private normalizeUrl(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return url;
+    }
+
+    parsed.hash = '';
+    for (const name of this.rules.ignoreQueryParams ?? []) {
+      parsed.searchParams.delete(name);
+    }
+    parsed.searchParams.sort();
+    return parsed.href;
+  }
+}
+
+function getHeaders(headers: HarHeader[] = []): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const header of headers) {
+    result[header.name.toLowerCase()] = header.value;
+  }
+  return result;
+}
+
+/**
+ * Headers to fulfill a response with; repeated headers are joined
+ */
+function getResponseHeaders(headers: HarHeader[] = []): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const header of headers) {
+    const name = header.name.toLowerCase();
+    if (TRANSFER_HEADERS.has(name)) {
+      continue;
+    }
+    const existing = result[name];
+    result[name] = existing === undefined ? header.value : `${existing}${name === 'set-cookie' ? '\n' : ', '}${header.value}`;
+  }
+  return result;
+}
@@ -0,0 +1,315 @@
+/**
+ * Jest Runner
+ *
+ * Runs a project's Jest suites in a child process with the project's own
+ * Jest installation, and reads back the JSON report, the console output of
+ * each test file and, when coverage is collected, the coverage summary.
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+
+/**
+ * Runner output kept for error messages
+ */
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+/**
+ * Reporter that saves the console output Jest buffers for each test file
+ */
+const CONSOLE_REPORTER = `const fs = require('fs');
+
+class ConsoleReporter {
+  constructor() {
+    this.outputFile = process.env.HARNESS_JEST_CONSOLE_FILE;
+    this.files = {};
+  }
+
+  onTestResult(test, testResult) {
+    this.files[testResult.testFilePath] = (testResult.console || []).map(entry => ({
+      type: entry.type,
+      message: entry.message,
+      origin: (entry.origin || '').split('\\n')[0].trim(),
+    }));
+  }
+
+  onRunComplete() {
+    fs.writeFileSync(this.outputFile, JSON.stringify(this.files));
+  }
+}
+
+module.exports = ConsoleReporter;
+`;
+
+/**
+ * Error raised when Jest does not produce a report
+ */
+export class JestRunError extends Error {
+  constructor(message: string, public readonly exitCode: number | null = null) {
+    super(message);
+    this.name = 'JestRunError';
+  }
+}
+
+/**
+ * One test of Jest's JSON report
+ */
+export interface JestAssertionResult {
+  ancestorTitles: string[];
+  title: string;
+  fullName: string;
+  status: 'passed' | 'failed' | 'skipped' | 'pending' | 'todo' | 'disabled' | 'focused';
+  duration?: number | null;
+  failureMessages: string[];
+  location?: { line: number; column: number } | null;
+}
+
+/**
+ * One test file of Jest's JSON report, with its console output
+ */
+export interface JestTestFileResult {
+  name: string;
+  message: string;
+  startTime: number;
+  endTime: number;
+  assertionResults: JestAssertionResult[];
+  console: Array<{ type: string; message: string; origin?: string }>;
+}
+
+/**
+ * Jest's JSON report
+ */
+export interface JestReport {
+  success: boolean;
+  startTime: number;
+  numTotalTestSuites: number;
+  numFailedTestSuites: number;
+  numRuntimeErrorTestSuites: number;
+  numTotalTests: number;
+  numPassedTests: number;
+  numFailedTests: number;
+  numPendingTests: number;
+  numTodoTests: number;
+  testResults: JestTestFileResult[];
+}
+
+/**
+ * Options for one Jest run
+ */
+export interface JestRunOptions {
+  /** Project directory Jest runs in */
+  projectDir: string;
+
+  /** Command that runs Jest; defaults to the project's Jest, then the harness's */
+  command?: string[];
+
+  /** Jest config file; by default Jest looks it up from the project directory */
+  configFile?: string;
+
+  /** Only run these test files */
+  testFiles?: string[];
+
+  /** Only run test files whose path matches one of these regular expressions */
+  testPathPatterns?: string[];
+
+  /** Only run tests whose name matches this pattern */
+  testNamePattern?: string;
+
+  /** Globs of test files, replacing the project's `testMatch` */
+  testMatch?: string[];
+
+  /** Collect coverage and write its summary */
+  coverage?: boolean;
+
+  /** Timeout of one test (ms) */
+  testTimeout?: number;
+  maxWorkers?: number | string;
+
+  /** Directory the report and coverage summary are written to */
+  outputDir: string;
+
+  env?: Record<string, string>;
+
+  /** Time Jest may take before it is killed (ms) */
+  timeout: number;
+}
+
+/**
+ * Completed Jest run
+ */
+export interface JestRun {
+  report: JestReport;
+  reportPath: string;
+
+  /** Coverage summary written by the `json-summary` reporter */
+  coverageSummaryPath?: string;
+  exitCode: number | null;
+  output: string;
+}
+
+/**
+ * Jest Runner
+ */
+export class JestRunner {
+  /**
+   * Run Jest and read its report
+   *
+   * Failing tests are reported, not thrown; an error is only raised when
+   * Jest exits without writing a report.
+   */
+  public async run(options: JestRunOptions): Promise<JestRun> {
+    const projectDir = path.resolve(options.projectDir);
+    const outputDir = path.resolve(options.outputDir);
+    const reportPath = path.join(outputDir, 'report.json');
+    const coverageDir = path.join(outputDir, 'coverage');
+    const reporterDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jest-console-'));
+    const reporterPath = path.join(reporterDir, 'console-reporter.js');
+    const consolePath = path.join(reporterDir, 'console.json');
+
+    const [command, ...commandArgs] = options.command ?? [process.execPath, resolveJestBin(projectDir)];
+    const args = [
+      ...commandArgs,
+      ...this.buildArguments(options, projectDir),
+      '--json',
+      `--outputFile=${reportPath}`,
+      '--reporters=default',
+      `--reporters=${reporterPath}`,
+      ...(options.coverage ? ['--coverage', '--coverageReporters=json-summary', `--coverageDirectory=${coverageDir}`] : []),
+    ];
+
+    logger.info(`Running Jest in ${projectDir}`, { command, args });
+
+    try {
+      await fs.mkdir(outputDir, { recursive: true });
+      await fs.writeFile(reporterPath, CONSOLE_REPORTER);
+
+      const { exitCode, output } = await runProcess(command!, args, {
+        cwd: projectDir,
+        env: { ...process.env, ...options.env, FORCE_COLOR: '0', HARNESS_JEST_CONSOLE_FILE: consolePath },
+        timeout: options.timeout,
+      });
+
+      let report: JestReport;
+      try {
+        report = JSON.parse(await fs.readFile(reportPath, 'utf8'));
+      } catch {
+        throw new JestRunError(
+          `Jest exited with code ${exitCode} without a JSON report: ${output.trim().slice(-2000)}`,
+          exitCode
+        );
+      }
+
+      const consoleByFile: Record<string, JestTestFileResult['console']> = await fs.readFile(consolePath, 'utf8')
+        .then(JSON.parse, () => ({}));
+      for (const file of report.testResults) {
+        file.console = consoleByFile[file.name] ?? [];
+      }
+
+      const coverageSummaryPath = path.join(coverageDir, 'coverage-summary.json');
+      const hasCoverage = options.coverage && await fs.access(coverageSummaryPath).then(() => true, () => false);
+
+      return {
+        report,
+        reportPath,
+        ...(hasCoverage && { coverageSummaryPath }),
+        exitCode,
+        output,
+      };
+    } finally {
+      await fs.rm(reporterDir, { recursive: true, force: true });
+    }
+  }
+
+  private buildArguments(options: JestRunOptions, projectDir: string): string[] {
+    // Positional arguments are regular expressions matched against test file paths
+    const args = [
+      ...(options.testFiles ?? []).map(file => escapeRegExp(path.relative(projectDir, path.resolve(projectDir, file)).split(path.sep).join('/'))),
+      ...(options.testPathPatterns ?? []),
+    ];
+
+    // Buffered console output is only kept in test results when not verbose,
+    // and Jest only writes a report for an empty run when it passes
+    args.push('--ci', '--verbose=false', '--passWithNoTests');
+
+    if (options.configFile) {
+      args.push('--config', path.resolve(projectDir, options.configFile));
+    }
+    if (options.testNamePattern) {
+      args.push('--testNamePattern', options.testNamePattern);
+    }
+    for (const glob of options.testMatch ?? []) {
+      args.push(`--testMatch=${glob}`);
+    }
+    if (options.testTimeout !== undefined) {
+      args.push(`--testTimeout=${options.testTimeout}`);
+    }
+    if (options.maxWorkers !== undefined) {
+      args.push(`--maxWorkers=${options.maxWorkers}`);
+    }
+
+    return args;
+  }
+}
+
+/**
+ * Jest installed in the project, or the harness's own
+ */
+function resolveJestBin(projectDir: string): string {
+  try {
+    return require.resolve('jest/bin/jest', { paths: [projectDir] });
+  } catch {
+    return require.resolve('jest/bin/jest');
+  }
+}
+
+/**
+ * Run a process to completion, killing it after the timeout
+ */
+function runProcess(
+  command: string,
+  args: string[],
+  options: { cwd: string; env: NodeJS.ProcessEnv; timeout: number }
+): Promise<{ exitCode: number | null; output: string }> {
+  return new Promise((resolve, reject) => {
+    // Own process group, so a timeout also ends Jest's workers
+    const child = spawn(command, args, { cwd: options.cwd, env: options.env, detached: true, stdio: ['ignore', 'pipe', 'pipe'] });
+    let output = '';
+    let timedOut = false;
+
+    const append = (chunk: Buffer) => {
+      output = (output + chunk.toString()).slice(-MAX_OUTPUT_LENGTH);
+    };
+    child.stdout?.on('data', append);
+    child.stderr?.on('data', append);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        child.kill('SIGKILL');
+      }
+    }, options.timeout);
+    timer.unref();
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(new JestRunError(`Failed to start Jest: ${error.message}`));
+    });
+    child.on('close', exitCode => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new JestRunError(`Jest timed out after ${options.timeout}ms`, exitCode));
+        return;
+      }
+      resolve({ exitCode, output });
+    });
+  });
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,335 @@
+/**
+ * Jest Test Engine
+ *
+ * Runs unit and integration suites with Jest against a project directory, so
+ * they report through the harness next to the e2e runs. Each test's outcome,
+ * duration and console output end up in the result, failed tests become
+ * errors, and the coverage summary is attached when coverage is collected.
+ */
+
+import {
+  TestConfig,
+  TestResult,
+  TestError,
+  TestArtifact,
+  EngineConfig,
+  EngineHealth,
+} from '../types';
+import { JestConfig } from '../config/schemas';
+import { TestEngine } from '../core/TestEngine';
+import { logger } from '../utils/logger';
+import { JestAssertionResult, JestRun, JestRunError, JestRunner } from './JestRunner';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Settings of the Jest engine, read from `engineConfig.settings` and
+ * overridden per test by the test's parameters
+ *
+ * Test parameters come from API clients, so the settings choosing which
+ * project, config file and test files Jest runs, where it writes and how it
+ * is started are engine settings only.
+ */
+export interface JestEngineSettings extends Pick<JestConfig, 'testMatch' | 'coverage' | 'watch'> {
+  /**
+   * Project Jest runs in; defaults to the test's `filePath` when it is a
+   * directory. Engine setting only.
+   */
+  projectDir?: string;
+
+  /** Jest config file, relative to the project directory; engine setting only */
+  configFile?: string;
+
+  /** Only run test files whose path matches one of these regular expressions */
+  testPathPatterns?: string[];
+
+  /** Only run tests whose name matches this pattern */
+  testNamePattern?: string;
+
+  /** Same as `coverage` */
+  collectCoverage?: boolean;
+
+  /** Timeout of one test (ms) */
+  timeout?: number;
+  maxWorkers?: number | string;
+
+  /** Directory each run's report and coverage summary are written under; engine setting only */
+  outputDir?: string;
+
+  /** Command that runs Jest; defaults to the project's Jest, then the harness's. Engine setting only. */
+  command?: string[];
+
+  /** Extra environment variables of the Jest process; engine setting only */
+  env?: Record<string, string>;
+}
+
+const TEST_SETTING_KEYS: Array<keyof JestEngineSettings> = [
+  'testPathPatterns', 'testNamePattern', 'coverage', 'collectCoverage', 'watch', 'timeout', 'maxWorkers',
+];
+
+const ENGINE_SETTING_KEYS: Array<keyof JestEngineSettings> = [
+  ...TEST_SETTING_KEYS, 'projectDir', 'configFile', 'testMatch', 'outputDir', 'command', 'env',
+];
+
+const DEFAULT_OUTPUT_DIR = './test-results/jest';
+
+const COVERAGE_METRICS = ['lines', 'statements', 'functions', 'branches'] as const;
+
+/**
+ * Jest Test Engine
+ *
+ * A test's `filePath` names a test file to run, or the project directory to
+ * run every suite of.
+ */
+export class JestTestEngine extends TestEngine {
+  private settings: JestEngineSettings = {};
+  private runCount: number = 0;
+  private failedRunCount: number = 0;
+
+  constructor(private runner: JestRunner = new JestRunner()) {
+    super('jest', '1.0.0', 'unit', false);
+  }
+
+  /**
+   * Initialize the Jest engine
+   */
+  protected async doInitialize(config: EngineConfig): Promise<void> {
+    logger.info('Initializing Jest test engine');
+    this.settings = pickSettings(config.settings, ENGINE_SETTING_KEYS);
+    this.runCount = 0;
+    this.failedRunCount = 0;
+  }
+
+  /**
+   * Run the test's Jest suites
+   */
+  protected async doExecute(config: TestConfig): Promise<TestResult> {
+    logger.info(`Executing Jest test: ${config.name}`);
+
+    const result = this.createTestResult(config, 'running');
+    this.runCount++;
+
+    try {
+      const settings = { ...this.settings, ...pickSettings(config.parameters, TEST_SETTING_KEYS) };
+      if (settings.watch) {
+        logger.warn(`Jest watch mode is not supported by the harness; running ${config.name} once`);
+      }
+
+      const fileIsDirectory = config.filePath
+        ? await fs.stat(config.filePath).then(stats => stats.isDirectory(), () => false)
+        : false;
+      const projectDir = settings.projectDir ?? (fileIsDirectory ? config.filePath : process.cwd());
+      const outputDir = path.join(
+        settings.outputDir ?? DEFAULT_OUTPUT_DIR,
+        `${config.name.replace(/[^a-zA-Z0-9]/g, '_')}-${Date.now()}`
+      );
+
+      const run = await this.runner.run({
+        projectDir,
+        outputDir,
+        timeout: config.timeout,
+        coverage: settings.coverage ?? settings.collectCoverage ?? false,
+        ...(config.filePath && !fileIsDirectory && { testFiles: [config.filePath] }),
+        ...(settings.testPathPatterns && { testPathPatterns: settings.testPathPatterns }),
+        ...(settings.testNamePattern && { testNamePattern: settings.testNamePattern }),
+        ...(settings.testMatch && { testMatch: settings.testMatch }),
+        ...(settings.configFile && { configFile: settings.configFile }),
+        ...(settings.timeout !== undefined && { testTimeout: settings.timeout }),
+        ...(settings.maxWorkers !== undefined && { maxWorkers: settings.maxWorkers }),
+        ...(settings.command && { command: settings.command }),
+        ...(settings.env && { env: settings.env }),
+      });
+
+      await this.convertRun(run, projectDir, result);
+    } catch (error) {
+      const message = (error as Error).message;
+      result.status = 'failed';
+      result.errors.push({
+        message,
+        ...(!(error instanceof JestRunError) && (error as Error).stack && { stack: (error as Error).stack }),
+        type: error instanceof JestRunError ? (message.includes('timed out') ? 'timeout' : 'configuration_error') : 'unknown',
+        timestamp: new Date(),
+        context: { testName: config.name },
+      });
+    }
+
+    if (result.status === 'failed') {
+      this.failedRunCount++;
+    }
+    logger.info(`Jest test ${config.name} completed with status: ${result.status}`);
+    return result;
+  }
+
+  /**
+   * Clean up Jest resources
+   */
+  protected async doCleanup(): Promise<void> {
+    logger.info('Cleaning up Jest test engine');
+  }
+
+  /**
+   * Get engine health status
+   */
+  protected async doGetHealth(): Promise<EngineHealth> {
+    return {
+      status: this.isInitialized ? 'healthy' : 'unhealthy',
+      message: `Jest test engine ran ${this.runCount} tests, ${this.failedRunCount} failed`,
+      metrics: {
+        uptime: this.startTime ? Date.now() - this.startTime.getTime() : 0,
+        memoryUsage: process.memoryUsage().heapUsed / 1024 / 1024,
+        cpuUsage: 0,
+        errorRate: this.runCount > 0 ? this.failedRunCount / this.runCount : 0,
+      },
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Fill the result from a Jest run
+   */
+  private async convertRun(run: JestRun, projectDir: string, result: TestResult): Promise<void> {
+    const { report } = run;
+    const tests = report.testResults.flatMap(file => file.assertionResults.map(test => ({ file: file.name, test })));
+    const relative = (file: string) => path.relative(projectDir, file).split(path.sep).join('/');
+
+    result.metrics.custom = {
+      totalTests: report.numTotalTests,
+      passedTests: report.numPassedTests,
+      failedTests: report.numFailedTests,
+      skippedTests: report.numPendingTests,
+      todoTests: report.numTodoTests,
+      testSuites: report.numTotalTestSuites,
+      failedTestSuites: report.numFailedTestSuites,
+    };
+
+    result.errors.push(...tests
+      .filter(({ test }) => test.status === 'failed')
+      .map(({ file, test }) => createTestError(test, relative(file))));
+    for (const file of report.testResults) {
+      if (file.message && !file.assertionResults.some(test => test.status === 'failed')) {
+        result.errors.push({
+          message: `Test suite ${relative(file.name)} failed to run: ${firstLine(file.message)}`,
+          stack: stripAnsi(file.message),
+          type: 'unknown',
+          timestamp: new Date(),
+          context: { file: relative(file.name) },
+        });
+      }
+    }
+    if (report.numTotalTestSuites === 0) {
+      result.errors.push({
+        message: `No Jest tests found in ${projectDir}`,
+        type: 'configuration_error',
+        timestamp: new Date(),
+        context: { projectDir },
+      });
+    }
+
+    result.artifacts.push(await createArtifact(run.reportPath, { format: 'jest-json' }));
+    let coverage: Record<string, number> = {};
+    if (run.coverageSummaryPath) {
+      const summary = JSON.parse(await fs.readFile(run.coverageSummaryPath, 'utf8'));
+      coverage = Object.fromEntries(COVERAGE_METRICS.map(metric => [metric, Number(summary.total?.[metric]?.pct) || 0]));
+      for (const [metric, pct] of Object.entries(coverage)) {
+        result.metrics.custom[`coverage.${metric}`] = pct;
+      }
+      result.artifacts.push(await createArtifact(run.coverageSummaryPath, { format: 'coverage-summary', total: coverage }));
+    }
+
+    const ranTests = report.numPassedTests + report.numFailedTests;
+    if (!report.success || report.numTotalTestSuites === 0) {
+      result.status = 'failed';
+    } else {
+      result.status = ranTests === 0 && report.numTotalTests > 0 ? 'skipped' : 'passed';
+    }
+    result.output = formatOutput(run, relative, coverage);
+  }
+}
+
+/**
+ * Pick Jest settings out of engine settings or test parameters
+ */
+function pickSettings(source: Record<string, any> | undefined, keys: Array<keyof JestEngineSettings>): JestEngineSettings {
+  const settings: Record<string, any> = {};
+  for (const key of keys) {
+    if (source?.[key] !== undefined) {
+      settings[key] = source[key];
+    }
+  }
+  return settings;
+}
+
+function createTestError(test: JestAssertionResult, file: string): TestError {
+  const failure = stripAnsi(test.failureMessages.join('\n\n'));
+  return {
+    message: `${test.fullName}: ${firstLine(failure).replace(/^Error: /, '')}`,
+    stack: failure,
+    type: /Exceeded timeout/.test(failure) ? 'timeout' : 'assertion_failed',
+    timestamp: new Date(),
+    context: {
+      file,
+      test: test.fullName,
+      ...(test.duration != null && { duration: test.duration }),
+      ...(test.location && { location: test.location }),
+    },
+  };
+}
+
+async function createArtifact(filePath: string, metadata: Record<string, any>): Promise<TestArtifact> {
+  const { size } = await fs.stat(filePath);
+  return { type: 'report', path: filePath, size, metadata };
+}
+
+/**
+ * List every test file with its tests and console output, like Jest's
+ * default reporter, followed by the totals
+ */
+function formatOutput(run: JestRun, relative: (file: string) => string, coverage: Record<string, number>): string {
+  const { report } = run;
+  const lines: string[] = [];
+
+  for (const file of report.testResults) {
+    const failed = file.message !== '' || file.assertionResults.some(test => test.status === 'failed');
+    lines.push(`${failed ? 'FAIL' : 'PASS'} ${relative(file.name)} (${file.endTime - file.startTime}ms)`);
+    for (const test of file.assertionResults) {
+      lines.push(`  ${formatTest(test)}`);
+    }
+    for (const entry of file.console) {
+      lines.push(`  console.${entry.type}: ${entry.message}${entry.origin ? ` ${entry.origin}` : ''}`);
+    }
+  }
+
+  const counts = [
+    [report.numFailedTests, 'failed'],
+    [report.numPassedTests, 'passed'],
+    [report.numPendingTests, 'skipped'],
+    [report.numTodoTests, 'todo'],
+  ].filter(([count]) => count !== 0).map(([count, label]) => `${count} ${label}`);
+  lines.push(`Tests: ${[...counts, `${report.numTotalTests} total`].join(', ')}`);
+
+  if (Object.keys(coverage).length > 0) {
+    lines.push(`Coverage: ${Object.entries(coverage).map(([metric, pct]) => `${metric} ${pct}%`).join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+function formatTest(test: JestAssertionResult): string {
+  switch (test.status) {
+    case 'passed':
+      return `✓ ${test.fullName} (${test.duration ?? 0}ms)`;
+    case 'failed':
+      return `✕ ${test.fullName} (${test.duration ?? 0}ms)`;
+    case 'todo':
+      return `✎ ${test.fullName} (todo)`;
+    default:
+      return `○ ${test.fullName} (skipped)`;
+  }
+}
+
+function firstLine(value: string): string {
+  return value.split('\n').map(line => line.trim()).find(Boolean) ?? '';
+}
+
+function stripAnsi(value: string): string {
+  return value.replace(/\u001b\[[0-9;]*m/g, '');
+}
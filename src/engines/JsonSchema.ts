@@ -0,0 +1,222 @@
+/**
+ * JSON Schema validation
+ *
+ * Validates response bodies against the JSON Schema keywords API contracts
+ * are usually written with: `type`, `enum`, `const`, `properties`,
+ * `required`, `additionalProperties`, `items`, the size and range keywords,
+ * `pattern`, `format`, the `allOf`/`anyOf`/`oneOf`/`not` combinators and
+ * local `$ref`s such as `#/$defs/user`. Other keywords are ignored, as
+ * validators do with annotations.
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { JsonPathSegment, formatJsonPath, isJsonObject } from '../healing/JsonPath';
+
+/**
+ * A JSON Schema; `true` accepts every value and `false` none
+ */
+export type JsonSchema = boolean | { [keyword: string]: any };
+
+/**
+ * Type names of JSON Schema's `type` keyword
+ */
+export type JsonValueType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * A value that does not satisfy a schema keyword
+ */
+export interface JsonSchemaViolation {
+  /** JSONPath of the value */
+  path: string;
+
+  /** Keyword the value violates */
+  keyword: string;
+
+  message: string;
+}
+
+const FORMATS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[A-Za-z][A-Za-z0-9+.-]*:[^\s]*$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+/**
+ * Check whether a value is of a JSON Schema type
+ */
+export function isJsonType(value: unknown, type: JsonValueType): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isJsonObject(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Validate a value against a schema, returning every violation found
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): JsonSchemaViolation[] {
+  return validate(value, schema, [], schema);
+}
+
+function validate(value: unknown, schema: JsonSchema, segments: JsonPathSegment[], root: JsonSchema): JsonSchemaViolation[] {
+  if (schema === true) {
+    return [];
+  }
+  const path = formatJsonPath(segments);
+  if (schema === false) {
+    return [{ path, keyword: 'false', message: `${path} is not allowed` }];
+  }
+
+  const violations: JsonSchemaViolation[] = [];
+  const fail = (keyword: string, message: string) => violations.push({ path, keyword, message: `${path} ${message}` });
+
+  if (typeof schema['$ref'] === 'string') {
+    violations.push(...validate(value, resolveRef(schema['$ref'], root), segments, root));
+  }
+
+  if (schema['type'] !== undefined) {
+    const types: JsonValueType[] = Array.isArray(schema['type']) ? schema['type'] : [schema['type']];
+    if (!types.some(type => isJsonType(value, type))) {
+      fail('type', `should be ${types.join(' or ')}, got ${describeType(value)}`);
+      // The other keywords only make sense for the expected type
+      return violations;
+    }
+  }
+  if (Array.isArray(schema['enum']) && !schema['enum'].some((option: unknown) => isDeepStrictEqual(option, value))) {
+    fail('enum', `should be one of ${schema['enum'].map(option => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`);
+  }
+  if ('const' in schema && !isDeepStrictEqual(schema['const'], value)) {
+    fail('const', `should be ${JSON.stringify(schema['const'])}, got ${JSON.stringify(value)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema['minLength'] === 'number' && [...value].length < schema['minLength']) {
+      fail('minLength', `should have at least ${schema['minLength']} characters`);
+    }
+    if (typeof schema['maxLength'] === 'number' && [...value].length > schema['maxLength']) {
+      fail('maxLength', `should have at most ${schema['maxLength']} characters`);
+    }
+    if (typeof schema['pattern'] === 'string' && !new RegExp(schema['pattern'], 'u').test(value)) {
+      fail('pattern', `should match ${schema['pattern']}`);
+    }
+    const format = FORMATS[schema['format']];
+    if (format && !format.test(value)) {
+      fail('format', `should be a ${schema['format']}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema['minimum'] === 'number' && value < schema['minimum']) {
+      fail('minimum', `should be at least ${schema['minimum']}`);
+    }
+    if (typeof schema['maximum'] === 'number' && value > schema['maximum']) {
+      fail('maximum', `should be at most ${schema['maximum']}`);
+    }
+    if (typeof schema['exclusiveMinimum'] === 'number' && value <= schema['exclusiveMinimum']) {
+      fail('exclusiveMinimum', `should be greater than ${schema['exclusiveMinimum']}`);
+    }
+    if (typeof schema['exclusiveMaximum'] === 'number' && value >= schema['exclusiveMaximum']) {
+      fail('exclusiveMaximum', `should be less than ${schema['exclusiveMaximum']}`);
+    }
+    if (typeof schema['multipleOf'] === 'number' && !Number.isInteger(value / schema['multipleOf'])) {
+      fail('multipleOf', `should be a multiple of ${schema['multipleOf']}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema['minItems'] === 'number' && value.length < schema['minItems']) {
+      fail('minItems', `should have at least ${schema['minItems']} items`);
+    }
+    if (typeof schema['maxItems'] === 'number' && value.length > schema['maxItems']) {
+      fail('maxItems', `should have at most ${schema['maxItems']} items`);
+    }
+    if (schema['uniqueItems'] === true && value.some((item, index) => value.findIndex(other => isDeepStrictEqual(item, other)) !== index)) {
+      fail('uniqueItems', 'should not have duplicate items');
+    }
+    if (schema['items'] !== undefined && !Array.isArray(schema['items'])) {
+      value.forEach((item, index) => {
+        violations.push(...validate(item, schema['items'], [...segments, { type: 'index', index }], root));
+      });
+    }
+  }
+
+  if (isJsonObject(value)) {
+    for (const name of Array.isArray(schema['required']) ? schema['required'] : []) {
+      if (!Object.prototype.hasOwnProperty.call(value, name)) {
+        violations.push({
+          path: formatJsonPath([...segments, { type: 'key', key: name }]),
+          keyword: 'required',
+          message: `${path} is missing required property ${name}`,
+        });
+      }
+    }
+
+    const properties: Record<string, JsonSchema> = isJsonObject(schema['properties']) ? schema['properties'] as Record<string, JsonSchema> : {};
+    for (const [name, item] of Object.entries(value)) {
+      const itemSegments: JsonPathSegment[] = [...segments, { type: 'key', key: name }];
+      if (name in properties) {
+        violations.push(...validate(item, properties[name]!, itemSegments, root));
+      } else if (schema['additionalProperties'] === false) {
+        violations.push({ path: formatJsonPath(itemSegments), keyword: 'additionalProperties', message: `${path} has unexpected property ${name}` });
+      } else if (isJsonObject(schema['additionalProperties'])) {
+        violations.push(...validate(item, schema['additionalProperties'], itemSegments, root));
+      }
+    }
+  }
+
+  if (Array.isArray(schema['allOf'])) {
+    for (const option of schema['allOf']) {
+      violations.push(...validate(value, option, segments, root));
+    }
+  }
+  if (Array.isArray(schema['anyOf']) && !schema['anyOf'].some((option: JsonSchema) => validate(value, option, segments, root).length === 0)) {
+    fail('anyOf', 'should match at least one schema of anyOf');
+  }
+  if (Array.isArray(schema['oneOf'])) {
+    const matches = schema['oneOf'].filter((option: JsonSchema) => validate(value, option, segments, root).length === 0).length;
+    if (matches !== 1) {
+      fail('oneOf', `should match exactly one schema of oneOf, matched ${matches}`);
+    }
+  }
+  if (schema['not'] !== undefined && validate(value, schema['not'], segments, root).length === 0) {
+    fail('not', 'should not match the schema of not');
+  }
+
+  return violations;
+}
+
+/**
+ * Resolve a `$ref` to a schema of the same document, such as `#/$defs/user`
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Unsupported $ref "${ref}": only references within the schema are supported`);
+  }
+
+  const target = ref.slice(1).split('/').filter(Boolean)
+    .map(part => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<any>((schema, part) => schema?.[part], root);
+  if (target === undefined) {
+    throw new Error(`Unresolved $ref "${ref}"`);
+  }
+  return target;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
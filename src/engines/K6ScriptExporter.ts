@@ -0,0 +1,59 @@
+/**
+ * k6 Script Exporter
+ *
+ * Writes a load test scenario as a k6 script, so a run can move to k6 on
+ * dedicated infrastructure unchanged: same VUs, stages, thresholds, request
+ * names and expected statuses. Requests under the scenario's base URL are
+ * sent to `BASE_URL`, which can be overridden with `k6 run -e BASE_URL=...`.
+ */
+
+import { LoadTestScenario, LoadTestSettings } from './LoadTestConfig';
+import { resolveScenario } from './LoadTestRunner';
+
+/**
+ * Generate a k6 script for a scenario
+ */
+export function generateK6Script(scenario: LoadTestScenario, settings: LoadTestSettings): string {
+  const requests = resolveScenario(scenario);
+  const baseUrl = scenario.baseUrl ? new URL(scenario.baseUrl).href : undefined;
+
+  // k6 starts staged runs with `vus` VUs, as the native runner does
+  const options = {
+    vus: settings.vus,
+    ...(settings.stages?.length ? { stages: settings.stages } : { duration: settings.duration }),
+    ...(settings.thresholds && Object.keys(settings.thresholds).length > 0 && { thresholds: settings.thresholds }),
+  };
+
+  const lines = [
+    "import http from 'k6/http';",
+    "import { sleep } from 'k6';",
+    '',
+    `export const options = ${JSON.stringify(options, null, 2)};`,
+    '',
+    ...(baseUrl ? [`const BASE_URL = __ENV.BASE_URL || ${JSON.stringify(baseUrl)};`, ''] : []),
+    'export default function () {',
+  ];
+
+  for (const request of requests) {
+    const url = baseUrl && request.url.startsWith(baseUrl)
+      ? `BASE_URL + ${JSON.stringify(request.url.slice(baseUrl.length))}`
+      : JSON.stringify(request.url);
+    const body = request.body !== undefined ? JSON.stringify(request.body) : 'null';
+
+    lines.push(
+      `  http.request(${JSON.stringify(request.method)}, ${url}, ${body}, {`,
+      `    headers: ${JSON.stringify(request.headers)},`,
+      `    tags: ${JSON.stringify({ name: request.name })},`,
+      ...(request.expectedStatus
+        ? [`    responseCallback: http.expectedStatuses(${request.expectedStatus.join(', ')}),`]
+        : []),
+      '  });'
+    );
+    if (request.sleep > 0) {
+      lines.push(`  sleep(${request.sleep});`);
+    }
+  }
+
+  lines.push('}', '');
+  return lines.join('\n');
+}
@@ -0,0 +1,137 @@
+/**
+ * Load test configuration types
+ *
+ * The load test engine runs HTTP scenarios with virtual users. Its settings
+ * follow k6: `vus` and `duration` for a constant load, or `stages` to ramp
+ * the number of virtual users, and `thresholds` keyed by k6 metric names.
+ */
+
+import { K6Config } from '../config/schemas';
+
+/**
+ * One HTTP request of a scenario
+ */
+export interface LoadTestRequest {
+  /** Name the request's metrics are tagged with; defaults to `METHOD url` */
+  name?: string;
+
+  /** HTTP method (default: GET) */
+  method?: string;
+
+  /** Absolute URL, or a path resolved against the scenario's `baseUrl` */
+  url: string;
+
+  headers?: Record<string, string>;
+
+  /** Request body; objects are sent as JSON */
+  body?: string | Record<string, any> | any[];
+
+  /** Statuses that count as success; by default every status below 400 */
+  expectedStatus?: number | number[];
+
+  /** Pause after the request, in seconds */
+  sleep?: number;
+}
+
+/**
+ * Requests every virtual user sends in order, once per iteration
+ */
+export interface LoadTestScenario {
+  baseUrl?: string;
+  requests: LoadTestRequest[];
+}
+
+/**
+ * A stage ramps the number of virtual users to `target` over `duration`
+ */
+export type LoadTestStage = NonNullable<K6Config['stages']>[number];
+
+/**
+ * Threshold expressions such as `p(95)<500` keyed by metric name, optionally
+ * narrowed to one request with a `{name:...}` tag
+ */
+export type LoadTestThresholds = Record<string, string[]>;
+
+/**
+ * Settings of the load test engine, read from `engineConfig.settings` and
+ * overridden per test by the test's parameters, except for `outputDir`
+ */
+export interface LoadTestSettings extends Pick<K6Config, 'vus' | 'duration' | 'stages'> {
+  /** Run fails when any threshold is crossed */
+  thresholds?: LoadTestThresholds;
+
+  /** Timeout of one request in milliseconds */
+  requestTimeout?: number;
+
+  /** Write the scenario as a k6 script and attach it to the result */
+  exportScript?: boolean;
+
+  /** Directory exported scripts are written to; engine setting only */
+  outputDir?: string;
+}
+
+/**
+ * Most virtual users a run may use, at its start or in any stage
+ */
+export const MAX_LOAD_TEST_VUS = 100;
+
+/**
+ * Longest a run may take, all stages together, in milliseconds
+ */
+export const MAX_LOAD_TEST_DURATION = 10 * 60 * 1000;
+
+/**
+ * Most stages a run may ramp through
+ */
+export const MAX_LOAD_TEST_STAGES = 20;
+
+/**
+ * Most request durations a run keeps for its latency percentiles; requests
+ * beyond it replace kept ones at random, so the kept ones stay a uniform sample
+ */
+export const MAX_LOAD_TEST_SAMPLES = 100000;
+
+/**
+ * Default load test settings
+ */
+export const DEFAULT_LOAD_TEST_SETTINGS: Required<Omit<LoadTestSettings, 'stages'>> = {
+  vus: 1,
+  duration: '30s',
+  thresholds: {},
+  requestTimeout: 60000,
+  exportScript: false,
+  outputDir: './test-results/k6',
+};
+
+/**
+ * Error raised for load test settings that cannot be run
+ */
+export class LoadTestConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoadTestConfigError';
+  }
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+/**
+ * Convert a k6 duration such as `30s`, `1m30s` or `500ms` to milliseconds
+ */
+export function parseDuration(duration: string): number {
+  const text = String(duration).trim();
+  if (!/^(\d+(\.\d+)?(ms|h|m|s))+$/.test(text)) {
+    throw new LoadTestConfigError(`Invalid duration: ${duration}`);
+  }
+
+  let total = 0;
+  for (const [, value, unit] of text.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    total += Number(value) * DURATION_UNITS[unit!]!;
+  }
+  return total;
+}
@@ -0,0 +1,254 @@
+/**
+ * Load Test Engine
+ *
+ * Runs performance tests natively: HTTP scenarios sent by virtual users under
+ * a constant or ramping load, configured like k6 (`vus`, `duration`,
+ * `stages`, `thresholds`). Latency percentiles, throughput and error rates
+ * are reported in the result's custom metrics, and a run fails when one of
+ * its thresholds is crossed. The scenario can also be exported as a k6
+ * script to run heavier loads on dedicated infrastructure.
+ */
+
+import {
+  TestConfig,
+  TestResult,
+  TestArtifact,
+  EngineConfig,
+  EngineHealth,
+} from '../types';
+import { TestEngine } from '../core/TestEngine';
+import { logger } from '../utils/logger';
+import {
+  DEFAULT_LOAD_TEST_SETTINGS,
+  LoadTestConfigError,
+  LoadTestScenario,
+  LoadTestSettings,
+} from './LoadTestConfig';
+import { countRequests, evaluateThresholds, parseThresholds, summarizeRun, LoadTestThresholdResult } from './LoadTestMetrics';
+import {
+  createLoadTestPlan,
+  resolveScenario,
+  sendLoadTestRequest,
+  LoadTestRun,
+  LoadTestRunner,
+  LoadTestSender,
+} from './LoadTestRunner';
+import { generateK6Script } from './K6ScriptExporter';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+const TEST_SETTING_KEYS: Array<keyof LoadTestSettings> = [
+  'vus', 'duration', 'stages', 'thresholds', 'requestTimeout', 'exportScript',
+];
+
+const ENGINE_SETTING_KEYS: Array<keyof LoadTestSettings> = [...TEST_SETTING_KEYS, 'outputDir'];
+
+/**
+ * Load Test Engine
+ *
+ * Registered as `k6`, the engine name performance tests are submitted with.
+ * Engine settings apply to every run; a test's parameters override them, and
+ * its thresholds are added to the engine's, replacing those of the same metric.
+ * Test parameters come from API clients, so the directory scripts are written
+ * to is an engine setting only.
+ */
+export class LoadTestEngine extends TestEngine {
+  private settings: LoadTestSettings = { ...DEFAULT_LOAD_TEST_SETTINGS };
+  private runCount: number = 0;
+  private failedRunCount: number = 0;
+
+  constructor(private send: LoadTestSender = sendLoadTestRequest) {
+    super('k6', '1.0.0', 'performance', false);
+  }
+
+  /**
+   * Initialize the load test engine
+   */
+  protected async doInitialize(config: EngineConfig): Promise<void> {
+    logger.info('Initializing load test engine');
+    this.settings = { ...DEFAULT_LOAD_TEST_SETTINGS, ...pickSettings(config.settings, ENGINE_SETTING_KEYS) };
+    this.runCount = 0;
+    this.failedRunCount = 0;
+  }
+
+  /**
+   * Run the test's scenario and check its thresholds
+   */
+  protected async doExecute(config: TestConfig): Promise<TestResult> {
+    logger.info(`Executing load test: ${config.name}`);
+
+    const result = this.createTestResult(config, 'running');
+    this.runCount++;
+
+    try {
+      const overrides = pickSettings(config.parameters, TEST_SETTING_KEYS);
+      const settings: LoadTestSettings = {
+        ...this.settings,
+        ...overrides,
+        thresholds: { ...this.settings.thresholds, ...overrides.thresholds },
+      };
+      const scenario = getScenario(config.parameters);
+      const requests = resolveScenario(scenario);
+      const plan = createLoadTestPlan(
+        {
+          vus: settings.vus ?? DEFAULT_LOAD_TEST_SETTINGS.vus,
+          duration: settings.duration ?? DEFAULT_LOAD_TEST_SETTINGS.duration,
+          stages: settings.stages,
+        },
+        settings.requestTimeout ?? DEFAULT_LOAD_TEST_SETTINGS.requestTimeout
+      );
+      const thresholds = parseThresholds(settings.thresholds ?? {});
+
+      if (settings.exportScript) {
+        result.artifacts.push(await this.exportScript(config.name, scenario, settings));
+      }
+
+      const run = await new LoadTestRunner(requests, plan, this.send).run();
+      const checked = evaluateThresholds(thresholds, run);
+      const crossed = checked.filter(threshold => !threshold.passed);
+
+      result.metrics.networkRequests = countRequests(run).requests;
+      result.metrics.custom = {
+        ...summarizeRun(run),
+        thresholds: checked.length,
+        thresholdsCrossed: crossed.length,
+      };
+      result.output = formatSummary(config.name, run, result.metrics.custom, checked);
+      result.errors.push(...crossed.map(threshold => ({
+        message: `Threshold ${threshold.metric}: ${threshold.expression} crossed (${threshold.aggregation}=${round(threshold.actual)})`,
+        type: 'assertion_failed' as const,
+        timestamp: new Date(),
+        context: { ...threshold },
+      })));
+      result.status = crossed.length > 0 ? 'failed' : 'passed';
+    } catch (error) {
+      const isConfigError = error instanceof LoadTestConfigError;
+      result.status = 'failed';
+      result.errors.push({
+        message: (error as Error).message,
+        ...(!isConfigError && (error as Error).stack && { stack: (error as Error).stack }),
+        type: isConfigError ? 'configuration_error' : 'unknown',
+        timestamp: new Date(),
+        context: { testName: config.name },
+      });
+    }
+
+    if (result.status === 'failed') {
+      this.failedRunCount++;
+    }
+    logger.info(`Load test ${config.name} completed with status: ${result.status}`);
+    return result;
+  }
+
+  /**
+   * Clean up load test resources
+   */
+  protected async doCleanup(): Promise<void> {
+    logger.info('Cleaning up load test engine');
+  }
+
+  /**
+   * Get engine health status
+   */
+  protected async doGetHealth(): Promise<EngineHealth> {
+    return {
+      status: this.isInitialized ? 'healthy' : 'unhealthy',
+      message: `Load test engine ran ${this.runCount} tests, ${this.failedRunCount} failed`,
+      metrics: {
+        uptime: this.startTime ? Date.now() - this.startTime.getTime() : 0,
+        memoryUsage: process.memoryUsage().heapUsed / 1024 / 1024,
+        cpuUsage: 0,
+        errorRate: this.runCount > 0 ? this.failedRunCount / this.runCount : 0,
+      },
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Write the scenario as a k6 script
+   */
+  private async exportScript(name: string, scenario: LoadTestScenario, settings: LoadTestSettings): Promise<TestArtifact> {
+    const script = generateK6Script(scenario, settings);
+    const outputDir = settings.outputDir ?? DEFAULT_LOAD_TEST_SETTINGS.outputDir;
+    const scriptPath = path.join(outputDir, `${name.replace(/[^a-zA-Z0-9]/g, '_')}.k6.js`);
+
+    await fs.mkdir(outputDir, { recursive: true });
+    await fs.writeFile(scriptPath, script);
+
+    return {
+      type: 'script',
+      path: scriptPath,
+      size: Buffer.byteLength(script),
+      metadata: { format: 'k6' },
+    };
+  }
+}
+
+/**
+ * Pick load test settings out of engine settings or test parameters
+ */
+function pickSettings(source: Record<string, any> | undefined, keys: Array<keyof LoadTestSettings>): LoadTestSettings {
+  const settings: Record<string, any> = {};
+  for (const key of keys) {
+    if (source?.[key] !== undefined) {
+      settings[key] = source[key];
+    }
+  }
+  return settings;
+}
+
+/**
+ * Read the scenario from test parameters: a list of `requests`, or a single
+ * `url` requested with GET
+ */
+function getScenario(parameters: Record<string, any>): LoadTestScenario {
+  const baseUrl = typeof parameters['baseUrl'] === 'string' ? parameters['baseUrl'] : undefined;
+  if (Array.isArray(parameters['requests'])) {
+    return { ...(baseUrl && { baseUrl }), requests: parameters['requests'] };
+  }
+  if (typeof parameters['url'] === 'string') {
+    return { ...(baseUrl && { baseUrl }), requests: [{ url: parameters['url'] }] };
+  }
+  throw new LoadTestConfigError('Load test needs a url or a list of requests');
+}
+
+/**
+ * Summarize a run the way k6 prints its end-of-test summary
+ */
+function formatSummary(
+  name: string,
+  run: LoadTestRun,
+  metrics: Record<string, number>,
+  thresholds: LoadTestThresholdResult[]
+): string {
+  const trend = ['avg', 'min', 'med', 'max', 'p(90)', 'p(95)']
+    .map(aggregation => `${aggregation}=${metrics[`http_req_duration.${aggregation}`]}ms`)
+    .join(' ');
+  const { requests, failed } = countRequests(run);
+
+  const lines = [
+    `Load test ${name}: ${run.iterations} iterations with up to ${run.vusMax} VUs in ${(run.duration / 1000).toFixed(1)}s`,
+    `  http_req_duration: ${trend}`,
+    `  http_req_failed: ${round((metrics['http_req_failed.rate'] ?? 0) * 100)}% (${failed} of ${requests})`,
+    `  http_reqs: ${metrics['http_reqs.count']} (${metrics['http_reqs.rate']}/s)`,
+    `  iterations: ${metrics['iterations.count']} (${metrics['iterations.rate']}/s)`,
+  ];
+
+  if (thresholds.length > 0) {
+    lines.push('Thresholds:');
+    for (const threshold of thresholds) {
+      lines.push(`  ${threshold.passed ? '✓' : '✗'} ${threshold.metric}: ${threshold.expression} (${threshold.aggregation}=${round(threshold.actual)})`);
+    }
+  }
+  if (run.errors.length > 0) {
+    lines.push('Errors:');
+    for (const error of run.errors.slice(0, 5)) {
+      lines.push(`  ${error.count}x ${error.message}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,210 @@
+/**
+ * Load Test Metrics
+ *
+ * Aggregates a load test run into k6's built-in metrics and checks k6-style
+ * thresholds against them:
+ *
+ * - `http_req_duration` (trend): `avg`, `min`, `med`, `max`, `p(N)`
+ * - `http_reqs` and `iterations` (counters): `count`, `rate` per second
+ * - `http_req_failed` (rate): `rate`, the share of failed requests
+ * - `vus_max` (gauge): `value`
+ *
+ * The `http_*` metrics can be narrowed to one request with a name tag, as in
+ * `http_req_duration{name:login}`.
+ */
+
+import { LoadTestConfigError, LoadTestThresholds } from './LoadTestConfig';
+import { LoadTestRequestCount, LoadTestRun } from './LoadTestRunner';
+
+type MetricKind = 'trend' | 'counter' | 'rate' | 'gauge';
+
+const METRIC_KINDS: Record<string, MetricKind> = {
+  http_req_duration: 'trend',
+  http_reqs: 'counter',
+  http_req_failed: 'rate',
+  iterations: 'counter',
+  vus_max: 'gauge',
+};
+
+const AGGREGATIONS: Record<MetricKind, RegExp> = {
+  trend: /^(avg|min|med|max|p\(\d+(\.\d+)?\))$/,
+  counter: /^(count|rate)$/,
+  rate: /^rate$/,
+  gauge: /^value$/,
+};
+
+const OPERATORS = ['<=', '>=', '===', '==', '!=', '<', '>'] as const;
+
+/**
+ * A parsed threshold expression
+ */
+export interface LoadTestThreshold {
+  /** Metric key as written, e.g. `http_req_duration{name:login}` */
+  metric: string;
+  expression: string;
+  aggregation: string;
+  operator: typeof OPERATORS[number];
+  value: number;
+}
+
+/**
+ * A threshold checked against a run
+ */
+export interface LoadTestThresholdResult extends LoadTestThreshold {
+  actual: number;
+  passed: boolean;
+}
+
+/**
+ * Parse thresholds, rejecting unknown metrics, tags and aggregations
+ */
+export function parseThresholds(thresholds: LoadTestThresholds): LoadTestThreshold[] {
+  return Object.entries(thresholds).flatMap(([metric, expressions]) => {
+    const { kind } = parseMetricKey(metric);
+    if (!Array.isArray(expressions)) {
+      throw new LoadTestConfigError(`Thresholds of ${metric} must be a list of expressions`);
+    }
+
+    return expressions.map(expression => {
+      const compact = String(expression).replace(/\s+/g, '');
+      const operator = OPERATORS.find(candidate => compact.includes(candidate));
+      const [aggregation, value] = operator ? compact.split(operator) : [];
+      if (!operator || !aggregation || !value || isNaN(Number(value))) {
+        throw new LoadTestConfigError(`Invalid threshold for ${metric}: ${expression}`);
+      }
+      if (!AGGREGATIONS[kind].test(aggregation)) {
+        throw new LoadTestConfigError(`Metric ${metric} has no aggregation ${aggregation}`);
+      }
+      return { metric, expression: String(expression), aggregation, operator, value: Number(value) };
+    });
+  });
+}
+
+/**
+ * Check thresholds against a run
+ */
+export function evaluateThresholds(thresholds: LoadTestThreshold[], run: LoadTestRun): LoadTestThresholdResult[] {
+  return thresholds.map(threshold => {
+    const actual = aggregate(run, threshold.metric, threshold.aggregation);
+    return { ...threshold, actual, passed: compare(actual, threshold.operator, threshold.value) };
+  });
+}
+
+/**
+ * Flatten a run's metrics into `metric.aggregation` keys, per request name too
+ */
+export function summarizeRun(run: LoadTestRun): Record<string, number> {
+  const summary: Record<string, number> = {};
+  const add = (metric: string, aggregations: string[]): void => {
+    for (const aggregation of aggregations) {
+      summary[`${metric}.${aggregation}`] = round(aggregate(run, metric, aggregation));
+    }
+  };
+
+  add('http_reqs', ['count', 'rate']);
+  add('http_req_duration', ['avg', 'min', 'med', 'max', 'p(90)', 'p(95)', 'p(99)']);
+  add('http_req_failed', ['rate']);
+  add('iterations', ['count', 'rate']);
+  add('vus_max', ['value']);
+
+  for (const name of Object.keys(run.counts)) {
+    add(`http_reqs{name:${name}}`, ['count']);
+    add(`http_req_duration{name:${name}}`, ['avg', 'p(95)']);
+    add(`http_req_failed{name:${name}}`, ['rate']);
+  }
+  return summary;
+}
+
+/**
+ * Requests a run sent, overall or under one name
+ */
+export function countRequests(run: LoadTestRun, name?: string): LoadTestRequestCount {
+  if (name !== undefined) {
+    return run.counts[name] ?? { requests: 0, failed: 0 };
+  }
+  return Object.values(run.counts).reduce(
+    (total, count) => ({ requests: total.requests + count.requests, failed: total.failed + count.failed }),
+    { requests: 0, failed: 0 }
+  );
+}
+
+function parseMetricKey(metric: string): { name: string; kind: MetricKind; tag?: string } {
+  const match = metric.match(/^([a-z_]+)(\{name:(.+)\})?$/);
+  const kind = match ? METRIC_KINDS[match[1]!] : undefined;
+  if (!match || !kind) {
+    throw new LoadTestConfigError(`Unknown load test metric: ${metric}`);
+  }
+  if (match[3] !== undefined && !match[1]!.startsWith('http_')) {
+    throw new LoadTestConfigError(`Metric ${match[1]} cannot be narrowed to a request`);
+  }
+  return { name: match[1]!, kind, ...(match[3] !== undefined && { tag: match[3] }) };
+}
+
+function aggregate(run: LoadTestRun, metric: string, aggregation: string): number {
+  const { name, tag } = parseMetricKey(metric);
+  const seconds = run.duration / 1000;
+  const samples = tag === undefined ? run.samples : run.samples.filter(sample => sample.name === tag);
+  const counted = countRequests(run, tag);
+
+  switch (name) {
+    case 'http_req_duration':
+      return aggregateTrend(samples.map(sample => sample.duration), aggregation);
+    case 'http_reqs':
+      return aggregation === 'count' ? counted.requests : perSecond(counted.requests, seconds);
+    case 'http_req_failed':
+      return counted.requests ? counted.failed / counted.requests : 0;
+    case 'iterations':
+      return aggregation === 'count' ? run.iterations : perSecond(run.iterations, seconds);
+    default:
+      return run.vusMax;
+  }
+}
+
+function aggregateTrend(values: number[], aggregation: string): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  switch (aggregation) {
+    case 'avg':
+      return sorted.reduce((total, value) => total + value, 0) / sorted.length;
+    case 'min':
+      return sorted[0]!;
+    case 'max':
+      return sorted[sorted.length - 1]!;
+    case 'med':
+      return percentile(sorted, 50);
+    default:
+      return percentile(sorted, Number(aggregation.slice(2, -1)));
+  }
+}
+
+/**
+ * Percentile of sorted values, interpolating between the closest ranks
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (rank - lower);
+}
+
+function compare(actual: number, operator: LoadTestThreshold['operator'], value: number): boolean {
+  switch (operator) {
+    case '<': return actual < value;
+    case '<=': return actual <= value;
+    case '>': return actual > value;
+    case '>=': return actual >= value;
+    case '!=': return actual !== value;
+    default: return actual === value;
+  }
+}
+
+function perSecond(count: number, seconds: number): number {
+  return seconds > 0 ? count / seconds : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,398 @@
+/**
+ * Load Test Runner
+ *
+ * Runs a scenario with virtual users (VUs). Each VU sends the scenario's
+ * requests in order, over and over; one pass is an iteration. A constant
+ * load keeps `vus` VUs running for `duration`. Stages ramp the number of VUs
+ * linearly from the previous stage's target (or `vus`) to their own target,
+ * as k6 does.
+ *
+ * When the number of VUs drops or the run ends, VUs that are no longer needed
+ * finish the request they are sending, cut short the sleep they are in and
+ * skip the rest of their iteration.
+ *
+ * Plans are capped at `MAX_LOAD_TEST_VUS` VUs, `MAX_LOAD_TEST_STAGES` stages
+ * and `MAX_LOAD_TEST_DURATION`. Every request is counted, but only a uniform
+ * sample of `MAX_LOAD_TEST_SAMPLES` request durations is kept.
+ */
+
+import {
+  LoadTestConfigError,
+  LoadTestRequest,
+  LoadTestScenario,
+  LoadTestStage,
+  MAX_LOAD_TEST_DURATION,
+  MAX_LOAD_TEST_SAMPLES,
+  MAX_LOAD_TEST_STAGES,
+  MAX_LOAD_TEST_VUS,
+  parseDuration,
+} from './LoadTestConfig';
+
+/**
+ * How many VUs run over time
+ */
+export interface LoadTestPlan {
+  /** VUs running when the first stage starts */
+  startVUs: number;
+
+  /** Stages with durations in milliseconds */
+  stages: Array<{ duration: number; target: number }>;
+
+  /** Timeout of one request in milliseconds */
+  requestTimeout: number;
+}
+
+/**
+ * Request with its URL resolved and body serialized
+ */
+export interface ResolvedLoadTestRequest {
+  name: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  expectedStatus?: number[];
+  sleep: number;
+}
+
+/**
+ * Outcome of sending one request
+ */
+export interface LoadTestResponse {
+  /** HTTP status, or 0 when no response was received */
+  status: number;
+  error?: string;
+}
+
+/**
+ * Send one request
+ */
+export type LoadTestSender = (request: ResolvedLoadTestRequest, timeout: number) => Promise<LoadTestResponse>;
+
+/**
+ * Timing of one request
+ */
+export interface LoadTestSample {
+  name: string;
+
+  /** Milliseconds from sending the request to reading the whole response */
+  duration: number;
+  failed: boolean;
+}
+
+/**
+ * Requests sent under one name
+ */
+export interface LoadTestRequestCount {
+  requests: number;
+  failed: number;
+}
+
+/**
+ * Everything a run measured
+ */
+export interface LoadTestRun {
+  /** Milliseconds the run took */
+  duration: number;
+
+  /** Completed iterations */
+  iterations: number;
+
+  /** Most VUs running at once */
+  vusMax: number;
+
+  /** Every request sent, by request name */
+  counts: Record<string, LoadTestRequestCount>;
+
+  /** Uniform sample of at most `MAX_LOAD_TEST_SAMPLES` requests */
+  samples: LoadTestSample[];
+
+  /** Distinct errors of failed requests, most frequent first */
+  errors: Array<{ message: string; count: number }>;
+}
+
+/**
+ * How often the runner adjusts the number of VUs
+ */
+const TICK_INTERVAL = 50;
+
+/**
+ * Build the VU plan from k6-style settings
+ */
+export function createLoadTestPlan(
+  settings: { vus: number; duration: string; stages?: LoadTestStage[] | undefined },
+  requestTimeout: number
+): LoadTestPlan {
+  if (!Number.isInteger(settings.vus) || settings.vus < 0) {
+    throw new LoadTestConfigError(`Virtual users must be a non-negative integer: ${settings.vus}`);
+  }
+  if (settings.vus > MAX_LOAD_TEST_VUS) {
+    throw new LoadTestConfigError(`Virtual users must be at most ${MAX_LOAD_TEST_VUS}: ${settings.vus}`);
+  }
+  if ((settings.stages?.length ?? 0) > MAX_LOAD_TEST_STAGES) {
+    throw new LoadTestConfigError(`Load test has ${settings.stages!.length} stages, more than the limit of ${MAX_LOAD_TEST_STAGES}`);
+  }
+
+  const stages = settings.stages?.length
+    ? settings.stages.map(stage => {
+      if (!Number.isInteger(stage.target) || stage.target < 0) {
+        throw new LoadTestConfigError(`Stage target must be a non-negative integer: ${stage.target}`);
+      }
+      if (stage.target > MAX_LOAD_TEST_VUS) {
+        throw new LoadTestConfigError(`Stage target must be at most ${MAX_LOAD_TEST_VUS}: ${stage.target}`);
+      }
+      return { duration: parseDuration(stage.duration), target: stage.target };
+    })
+    : [{ duration: parseDuration(settings.duration), target: settings.vus }];
+
+  const totalDuration = stages.reduce((total, stage) => total + stage.duration, 0);
+  if (totalDuration > MAX_LOAD_TEST_DURATION) {
+    throw new LoadTestConfigError(`Load test lasts ${totalDuration}ms, more than the limit of ${MAX_LOAD_TEST_DURATION}ms`);
+  }
+
+  return { startVUs: settings.vus, stages, requestTimeout };
+}
+
+/**
+ * Resolve the scenario's requests against its base URL
+ */
+export function resolveScenario(scenario: LoadTestScenario): ResolvedLoadTestRequest[] {
+  if (!scenario.requests?.length) {
+    throw new LoadTestConfigError('Load test scenario has no requests');
+  }
+
+  return scenario.requests.map(request => resolveRequest(request, scenario.baseUrl));
+}
+
+function resolveRequest(request: LoadTestRequest, baseUrl?: string): ResolvedLoadTestRequest {
+  let url: string;
+  try {
+    url = new URL(request.url, baseUrl).href;
+  } catch {
+    throw new LoadTestConfigError(`Invalid request URL: ${request.url}${baseUrl ? ` (base URL ${baseUrl})` : ''}`);
+  }
+
+  const method = (request.method ?? 'GET').toUpperCase();
+  const headers = { ...request.headers };
+  let body: string | undefined;
+  if (typeof request.body === 'string') {
+    body = request.body;
+  } else if (request.body !== undefined) {
+    body = JSON.stringify(request.body);
+    if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = 'application/json';
+    }
+  }
+
+  const expectedStatus = request.expectedStatus === undefined
+    ? undefined
+    : Array.isArray(request.expectedStatus) ? request.expectedStatus : [request.expectedStatus];
+
+  return {
+    name: request.name ?? `${method} ${request.url}`,
+    method,
+    url,
+    headers,
+    ...(body !== undefined && { body }),
+    ...(expectedStatus && { expectedStatus }),
+    sleep: request.sleep ?? 0,
+  };
+}
+
+/**
+ * Send a request with fetch, reading the whole response body
+ */
+export const sendLoadTestRequest: LoadTestSender = async (request, timeout) => {
+  try {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      ...(request.body !== undefined && { body: request.body }),
+      signal: AbortSignal.timeout(timeout),
+    });
+    await response.arrayBuffer();
+    return { status: response.status };
+  } catch (error) {
+    const cause = (error as Error & { cause?: Error }).cause;
+    return { status: 0, error: cause?.message ?? (error as Error).message };
+  }
+};
+
+/**
+ * Runs one scenario with virtual users
+ */
+export class LoadTestRunner {
+  private counts: Record<string, LoadTestRequestCount> = {};
+  private samples: LoadTestSample[] = [];
+  private sent = 0;
+  private errors = new Map<string, number>();
+  private iterations = 0;
+  private running: boolean[] = [];
+  private target = 0;
+  private stopped = false;
+  private sleepers = new Map<number, () => void>();
+
+  constructor(
+    private requests: ResolvedLoadTestRequest[],
+    private plan: LoadTestPlan,
+    private send: LoadTestSender = sendLoadTestRequest
+  ) {}
+
+  /**
+   * Run the plan to its end
+   */
+  public async run(): Promise<LoadTestRun> {
+    const startTime = Date.now();
+    const totalDuration = this.plan.stages.reduce((total, stage) => total + stage.duration, 0);
+    const vus: Promise<void>[] = [];
+    let vusMax = 0;
+
+    for (let elapsed = 0; elapsed < totalDuration; elapsed = Date.now() - startTime) {
+      this.target = this.getTargetVUs(elapsed);
+      this.wakeUnneededVUs();
+      for (let index = 0; index < this.target; index++) {
+        if (!this.running[index]) {
+          this.running[index] = true;
+          vus.push(this.runVU(index));
+        }
+      }
+      vusMax = Math.max(vusMax, this.running.filter(Boolean).length);
+      await sleep(Math.min(TICK_INTERVAL, totalDuration - elapsed));
+    }
+
+    this.stopped = true;
+    this.wakeUnneededVUs();
+    await Promise.all(vus);
+
+    return {
+      duration: Date.now() - startTime,
+      iterations: this.iterations,
+      vusMax,
+      counts: this.counts,
+      samples: this.samples,
+      errors: [...this.errors]
+        .map(([message, count]) => ({ message, count }))
+        .sort((a, b) => b.count - a.count),
+    };
+  }
+
+  /**
+   * VUs the plan asks for after `elapsed` milliseconds
+   */
+  private getTargetVUs(elapsed: number): number {
+    let from = this.plan.startVUs;
+    let stageStart = 0;
+    for (const stage of this.plan.stages) {
+      if (elapsed < stageStart + stage.duration) {
+        const progress = stage.duration > 0 ? (elapsed - stageStart) / stage.duration : 1;
+        return Math.round(from + (stage.target - from) * progress);
+      }
+      from = stage.target;
+      stageStart += stage.duration;
+    }
+    return from;
+  }
+
+  /**
+   * Whether the VU is still part of the planned load
+   */
+  private isNeeded(index: number): boolean {
+    return !this.stopped && index < this.target;
+  }
+
+  /**
+   * Run iterations until the VU is no longer needed
+   */
+  private async runVU(index: number): Promise<void> {
+    try {
+      while (this.isNeeded(index)) {
+        if (await this.runIteration(index)) {
+          this.iterations++;
+        }
+        // Let timers run even when requests complete without I/O
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    } finally {
+      this.running[index] = false;
+    }
+  }
+
+  /**
+   * Send every request once; returns whether the iteration completed
+   */
+  private async runIteration(index: number): Promise<boolean> {
+    for (const request of this.requests) {
+      if (!this.isNeeded(index)) {
+        return false;
+      }
+
+      const start = performance.now();
+      const response = await this.send(request, this.plan.requestTimeout);
+      const failed = response.error !== undefined || (request.expectedStatus
+        ? !request.expectedStatus.includes(response.status)
+        : response.status >= 400);
+      this.record({ name: request.name, duration: performance.now() - start, failed });
+
+      if (failed) {
+        const message = response.error ?? `${request.name} returned status ${response.status}`;
+        this.errors.set(message, (this.errors.get(message) ?? 0) + 1);
+      }
+      if (request.sleep > 0) {
+        await this.pause(index, request.sleep * 1000);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Count a request and keep its sample while the run keeps a uniform sample
+   */
+  private record(sample: LoadTestSample): void {
+    const count = this.counts[sample.name] ??= { requests: 0, failed: 0 };
+    count.requests++;
+    if (sample.failed) {
+      count.failed++;
+    }
+
+    this.sent++;
+    if (this.samples.length < MAX_LOAD_TEST_SAMPLES) {
+      this.samples.push(sample);
+      return;
+    }
+    const replaced = Math.floor(Math.random() * this.sent);
+    if (replaced < MAX_LOAD_TEST_SAMPLES) {
+      this.samples[replaced] = sample;
+    }
+  }
+
+  /**
+   * Sleep between requests, waking early once the VU is no longer needed
+   */
+  private pause(index: number, ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(wake, ms);
+      const sleepers = this.sleepers;
+      function wake(): void {
+        clearTimeout(timer);
+        sleepers.delete(index);
+        resolve();
+      }
+      sleepers.set(index, wake);
+    });
+  }
+
+  /**
+   * Wake the sleeping VUs the plan no longer asks for
+   */
+  private wakeUnneededVUs(): void {
+    for (const [index, wake] of this.sleepers) {
+      if (!this.isNeeded(index)) {
+        wake();
+      }
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, Math.max(0, ms)));
+}
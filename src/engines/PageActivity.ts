@@ -0,0 +1,169 @@
+/**
+ * Page Activity
+ *
+ * Buffers what a page did during a test: console messages, uncaught page
+ * errors and the metadata of its requests and responses. When the test
+ * fails, the buffers become the failure's browser and network state, so
+ * healing strategies and the people reading the report see what happened
+ * before the failure, not just the error message.
+ *
+ * Buffers are bounded; the oldest entries are dropped first.
+ */
+
+import { ConsoleMessage, Page, Request, Response } from 'playwright';
+import { ConsoleLog, NetworkRequest, NetworkState } from '../types';
+
+/**
+ * Limits of the buffers
+ */
+export interface PageActivityLimits {
+  /** Console messages and page errors kept */
+  maxConsoleLogs: number;
+
+  /** Requests kept; requests still in flight are never dropped */
+  maxRequests: number;
+}
+
+/**
+ * Request bodies are cut to this many characters
+ */
+const MAX_BODY_LENGTH = 2000;
+
+const CONSOLE_LEVELS: Record<string, ConsoleLog['level']> = {
+  log: 'log',
+  info: 'info',
+  warning: 'warn',
+  error: 'error',
+  debug: 'debug',
+};
+
+interface BufferedRequest {
+  request: NetworkRequest;
+  done: boolean;
+}
+
+/**
+ * Activity of one page
+ */
+export class PageActivity {
+  private consoleLogs: ConsoleLog[] = [];
+  private requests = new Map<Request, BufferedRequest>();
+
+  constructor(page: Page, private limits: PageActivityLimits) {
+    page.on('console', message => this.onConsole(message));
+    page.on('pageerror', error => this.onPageError(error));
+    page.on('request', request => this.onRequest(request));
+    page.on('response', response => this.onResponse(response));
+    page.on('requestfinished', request => this.onRequestDone(request));
+    page.on('requestfailed', request => this.onRequestDone(request, request.failure()?.errorText ?? 'Request failed'));
+  }
+
+  /**
+   * Console messages and page errors, oldest first
+   */
+  public getConsoleLogs(): ConsoleLog[] {
+    return [...this.consoleLogs];
+  }
+
+  /**
+   * Buffered requests, in the order they were sent
+   */
+  public getRequests(): NetworkRequest[] {
+    return [...this.requests.values()].map(entry => entry.request);
+  }
+
+  /**
+   * Requests still in flight, and requests that failed or got an error status
+   */
+  public getNetworkState(conditions: NetworkState['conditions']): NetworkState {
+    const entries = [...this.requests.values()];
+    return {
+      activeRequests: entries.filter(entry => !entry.done).map(entry => entry.request),
+      failedRequests: entries.map(entry => entry.request).filter(isFailedRequest),
+      conditions,
+    };
+  }
+
+  /**
+   * Console messages as log lines
+   */
+  public formatConsoleLogs(): string {
+    return this.consoleLogs
+      .map(log => `[${log.timestamp.toISOString()}] ${log.level.toUpperCase()} ${log.message}`)
+      .join('\n');
+  }
+
+  private onConsole(message: ConsoleMessage): void {
+    const location = message.location();
+    this.addConsoleLog({
+      level: CONSOLE_LEVELS[message.type()] ?? 'log',
+      message: message.text(),
+      timestamp: new Date(),
+      args: location?.url ? [location] : [],
+    });
+  }
+
+  private onPageError(error: Error): void {
+    this.addConsoleLog({
+      level: 'error',
+      message: `Uncaught ${error.name}: ${error.message}`,
+      timestamp: new Date(),
+      args: error.stack ? [error.stack] : [],
+    });
+  }
+
+  private addConsoleLog(log: ConsoleLog): void {
+    this.consoleLogs.push(log);
+    if (this.consoleLogs.length > this.limits.maxConsoleLogs) {
+      this.consoleLogs.shift();
+    }
+  }
+
+  private onRequest(request: Request): void {
+    const body = request.postData();
+    this.requests.set(request, {
+      request: {
+        url: request.url(),
+        method: request.method(),
+        headers: request.headers(),
+        ...(body !== null && { body: body.length > MAX_BODY_LENGTH ? `${body.slice(0, MAX_BODY_LENGTH)}…` : body }),
+        timestamp: new Date(),
+      },
+      done: false,
+    });
+
+    if (this.requests.size > this.limits.maxRequests) {
+      for (const [key, entry] of this.requests) {
+        if (entry.done) {
+          this.requests.delete(key);
+          break;
+        }
+      }
+    }
+  }
+
+  private onResponse(response: Response): void {
+    const entry = this.requests.get(response.request());
+    if (entry) {
+      entry.request.status = response.status();
+      entry.request.responseHeaders = response.headers();
+    }
+  }
+
+  private onRequestDone(request: Request, error?: string): void {
+    const entry = this.requests.get(request);
+    if (!entry) {
+      return;
+    }
+
+    entry.done = true;
+    entry.request.duration = Date.now() - entry.request.timestamp.getTime();
+    if (error !== undefined) {
+      entry.request.error = error;
+    }
+  }
+}
+
+function isFailedRequest(request: NetworkRequest): boolean {
+  return request.error !== undefined || (request.status !== undefined && request.status >= 400);
+}
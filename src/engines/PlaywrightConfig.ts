@@ -5,7 +5,7 @@
  * extending the base engine configuration with Playwright-specific options.
  */
 
-import { BrowserConfig, NetworkConfig } from '../types/types';
+import { BrowserConfig, FailureContext, NetworkConfig } from '../types/types';
 
 /**
  * Playwright test configuration
@@ -70,6 +70,72 @@ export interface PlaywrightTestConfig {
   
   /** Whether to retry on failure */
   retryOnFailure: boolean;
+  
+  /** Whether failing steps are healed and retried during the run */
+  inlineHealing: boolean;
+  
+  /** Settings for running spec files through the Playwright test runner */
+  specRunner: PlaywrightSpecRunnerConfig;
+  
+  /** Pool of browser contexts that tests run in */
+  contextPool: PlaywrightContextPoolConfig;
+  
+  /** Evidence kept about failing tests */
+  failureContext: PlaywrightFailureContextConfig;
+}
+
+/**
+ * Failure context configuration
+ *
+ * Console messages, page errors and requests are buffered while each test
+ * runs; failures carry them along with a DOM snapshot.
+ */
+export interface PlaywrightFailureContextConfig {
+  /** Whether failing tests keep their failure context and save it as artifacts */
+  captureOnFailure: boolean;
+  
+  /** Whether the failure context includes the page's serialized DOM */
+  domSnapshot: boolean;
+  
+  /** Console messages and page errors buffered per test */
+  maxConsoleLogs: number;
+  
+  /** Requests buffered per test */
+  maxRequests: number;
+}
+
+/**
+ * Browser context pool configuration
+ */
+export interface PlaywrightContextPoolConfig {
+  /**
+   * Maximum number of contexts open at once, and so of tests running at once;
+   * defaults to the concurrency the engine is created with
+   */
+  size?: number;
+  
+  /** Number of tests a context serves before it is replaced */
+  maxUses: number;
+}
+
+/**
+ * Playwright test runner configuration for spec file runs
+ */
+export interface PlaywrightSpecRunnerConfig {
+  /** Command that runs `playwright test`; defaults to the installed @playwright/test CLI */
+  command?: string[];
+  
+  /** Playwright config file of the suite the spec belongs to */
+  configFile?: string;
+  
+  /** Working directory; defaults to the config file's directory, then the spec's */
+  cwd?: string;
+  
+  /** Playwright project to run */
+  project?: string;
+  
+  /** Time the runner process may take before it is killed (ms) */
+  timeout: number;
 }
 
 /**
@@ -170,6 +236,9 @@ export interface PlaywrightScreenshotConfig {
   
   /** Screenshot animations */
   animations: 'disabled' | 'allow';
+  
+  /** Whether to store element crops from passing runs as visual healing baselines */
+  elementBaselines?: boolean;
 }
 
 /**
@@ -222,10 +291,19 @@ export interface PlaywrightTraceConfig {
  * Playwright network configuration
  */
 export interface PlaywrightNetworkConfig extends NetworkConfig {
+  /**
+   * How tests use the network; tests override it with `parameters.network`.
+   * Defaults to `record` when `recordHar` is set, and `passthrough` otherwise
+   */
+  mode?: PlaywrightNetworkMode;
+  
+  /** Rules replayed requests are matched to recorded ones by */
+  replay?: PlaywrightHarMatchRules;
+  
   /** Whether to record network activity */
   recordHar?: boolean;
   
-  /** HAR file path */
+  /** HAR file every test records to and replays from; defaults to one file per test */
   harPath?: string;
   
   /** Whether to record network activity on failure only */
@@ -250,6 +328,47 @@ export interface PlaywrightNetworkConfig extends NetworkConfig {
   };
 }
 
+/**
+ * Network mode of a test
+ *
+ * - `record`: save the test's traffic to a HAR file
+ * - `replay`: serve responses from a HAR file instead of the network
+ * - `passthrough`: use the network without recording
+ */
+export type PlaywrightNetworkMode = 'record' | 'replay' | 'passthrough';
+
+/**
+ * Network settings of a single test, read from `parameters.network`
+ */
+export interface PlaywrightTestNetworkConfig {
+  mode?: PlaywrightNetworkMode;
+  
+  /** HAR file to record to or replay from, relative to `<outputDir>/har` */
+  har?: string;
+  
+  /** Match rules, merged over the engine's `network.replay` */
+  match?: PlaywrightHarMatchRules;
+}
+
+/**
+ * Rules matching requests to the entries of a HAR file
+ *
+ * Requests always match on method and URL.
+ */
+export interface PlaywrightHarMatchRules {
+  /** URL globs of the requests served from the HAR; other requests use the network. Defaults to every request */
+  urls?: string[];
+  
+  /** Query parameters ignored when comparing URLs, such as cache busters */
+  ignoreQueryParams?: string[];
+  
+  /** Whether request bodies must match; defaults to true */
+  matchBody?: boolean;
+  
+  /** Request headers whose values must match */
+  matchHeaders?: string[];
+}
+
 /**
  * Playwright timeout configuration
  */
@@ -350,6 +469,23 @@ export interface PlaywrightTestResult {
   
   /** Test annotations */
   annotations: PlaywrightAnnotation[];
+  
+  /** Playwright project the test ran in */
+  project?: string;
+  
+  /** Tests of a spec file run, one per test and project */
+  tests?: PlaywrightTestResult[];
+  
+  /** Browser, network and environment state when the test failed */
+  failureContext?: FailureContext;
+  
+  /** Requests of a replayed test that its HAR file has no response for */
+  unmatchedRequests?: {
+    har: string;
+    
+    /** As `METHOD url` */
+    requests: string[];
+  };
 }
 
 /**
@@ -383,6 +519,41 @@ export interface PlaywrightTestStep {
     line: number;
     column: number;
   };
+  
+  /** Selector patch applied when the step was healed during the run */
+  healing?: PlaywrightStepHealing;
+  
+  /** Values the step's expressions resolved to, keyed by expression */
+  resolved?: Record<string, string>;
+  
+  /** Values the step captured, keyed by variable name */
+  captured?: Record<string, string>;
+  
+  /** Whether the condition of an `if` step held */
+  condition?: boolean;
+  
+  /** Runs a `retryUntil` step took until its condition held */
+  attempts?: number;
+}
+
+/**
+ * Selector patch applied to a step by inline healing
+ */
+export interface PlaywrightStepHealing {
+  /** Selector the step was written with */
+  originalSelector: string;
+  
+  /** Selector that made the step pass */
+  healedSelector: string;
+  
+  /** Healing strategy that produced the selector */
+  strategy: string;
+  
+  /** Confidence of the healing result */
+  confidence: number;
+  
+  /** Number of healing attempts made for the step */
+  attempts: number;
 }
 
 /**
@@ -410,7 +581,7 @@ export interface PlaywrightAttachment {
  */
 export interface PlaywrightAnnotation {
   /** Annotation type */
-  type: 'skip' | 'fail' | 'slow' | 'fixme' | 'timeout';
+  type: 'skip' | 'fail' | 'slow' | 'fixme' | 'timeout' | 'healed' | 'verification';
   
   /** Annotation description */
   description?: string;
@@ -449,6 +620,7 @@ export const DEFAULT_PLAYWRIGHT_CONFIG: PlaywrightTestConfig = {
     quality: 90,
     format: 'png',
     animations: 'disabled',
+    elementBaselines: false,
   },
   video: {
     enabled: false,
@@ -504,4 +676,17 @@ export const DEFAULT_PLAYWRIGHT_CONFIG: PlaywrightTestConfig = {
   forbidOnly: false,
   forbidFocused: false,
   retryOnFailure: false,
+  inlineHealing: true,
+  specRunner: {
+    timeout: 600000,
+  },
+  contextPool: {
+    maxUses: 50,
+  },
+  failureContext: {
+    captureOnFailure: true,
+    domSnapshot: true,
+    maxConsoleLogs: 200,
+    maxRequests: 500,
+  },
 };
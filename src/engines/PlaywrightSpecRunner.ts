@@ -0,0 +1,404 @@
+/**
+ * Playwright Spec Runner
+ *
+ * Runs existing Playwright spec files through the Playwright test runner in a
+ * child process and converts its JSON report into Playwright test results,
+ * so suites written for `playwright test` run through the harness unchanged.
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type {
+  JSONReport,
+  JSONReportSuite,
+  JSONReportTest,
+  JSONReportTestResult,
+  JSONReportTestStep
+} from '@playwright/test/reporter';
+import { logger } from '../utils/logger';
+import {
+  PlaywrightAnnotation,
+  PlaywrightAttachment,
+  PlaywrightTestResult,
+  PlaywrightTestStep
+} from './PlaywrightConfig';
+
+/**
+ * Spec file extensions picked up by `playwright test`
+ */
+const SPEC_FILE_PATTERN = /\.(spec|test)\.[cm]?[jt]sx?$/;
+
+/**
+ * Annotation types carried over from the report
+ */
+const ANNOTATION_TYPES = new Set<string>(['skip', 'fail', 'slow', 'fixme', 'timeout', 'healed']);
+
+/**
+ * Runner output kept for error messages
+ */
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+/**
+ * Error raised when the runner does not produce a report
+ */
+export class PlaywrightSpecRunError extends Error {
+  constructor(message: string, public readonly exitCode: number | null = null) {
+    super(message);
+    this.name = 'PlaywrightSpecRunError';
+  }
+}
+
+/**
+ * Options for one spec file run
+ */
+export interface PlaywrightSpecRunOptions {
+  /** Spec file to run */
+  filePath: string;
+
+  /** Command that runs `playwright test`; defaults to the installed @playwright/test CLI */
+  command?: string[];
+
+  /** Playwright config file of the suite the spec belongs to */
+  configFile?: string;
+
+  /** Working directory; defaults to the config file's directory, then the spec's */
+  cwd?: string;
+
+  /** Only run tests whose title matches this pattern */
+  grep?: string;
+
+  project?: string;
+  retries?: number;
+  workers?: number;
+  headed?: boolean;
+
+  /** Directory for test artifacts such as screenshots, videos and traces */
+  outputDir?: string;
+
+  /** Time the runner may take before it is killed (ms) */
+  timeout: number;
+}
+
+/**
+ * Completed runner process and its report
+ */
+export interface PlaywrightSpecRun {
+  report: JSONReport;
+  exitCode: number | null;
+  output: string;
+}
+
+/**
+ * Check whether a path names a Playwright spec file
+ */
+export function isPlaywrightSpecFile(filePath: string): boolean {
+  return SPEC_FILE_PATTERN.test(filePath);
+}
+
+/**
+ * Playwright Spec Runner
+ */
+export class PlaywrightSpecRunner {
+  /**
+   * Run a spec file and read the JSON report
+   *
+   * Failing tests are reported, not thrown; an error is only raised when
+   * the runner exits without writing a report.
+   */
+  public async run(options: PlaywrightSpecRunOptions): Promise<PlaywrightSpecRun> {
+    const filePath = path.resolve(options.filePath);
+    const cwd = path.resolve(options.cwd ?? path.dirname(options.configFile ?? filePath));
+    const reportDir = await fs.mkdtemp(path.join(os.tmpdir(), 'playwright-report-'));
+    const reportPath = path.join(reportDir, 'report.json');
+
+    const [command, ...commandArgs] = options.command ?? [process.execPath, require.resolve('@playwright/test/cli'), 'test'];
+    const args = [...commandArgs, ...this.buildArguments(options, filePath, cwd)];
+
+    logger.info(`Running Playwright spec file: ${filePath}`, { command, args, cwd });
+
+    try {
+      const { exitCode, output } = await runProcess(command!, args, {
+        cwd,
+        env: { ...process.env, PLAYWRIGHT_JSON_OUTPUT_FILE: reportPath, FORCE_COLOR: '0' },
+        timeout: options.timeout,
+      });
+
+      let report: JSONReport;
+      try {
+        report = JSON.parse(await fs.readFile(reportPath, 'utf8'));
+      } catch {
+        throw new PlaywrightSpecRunError(
+          `Playwright runner exited with code ${exitCode} without a JSON report: ${output.trim().slice(-2000)}`,
+          exitCode
+        );
+      }
+
+      return { report, exitCode, output };
+    } finally {
+      await fs.rm(reportDir, { recursive: true, force: true });
+    }
+  }
+
+  private buildArguments(options: PlaywrightSpecRunOptions, filePath: string, cwd: string): string[] {
+    // Positional arguments are regular expressions matched against test file paths
+    const relativePath = path.relative(cwd, filePath).split(path.sep).join('/');
+    const args = [escapeRegExp(relativePath), '--reporter=json'];
+
+    if (options.configFile) {
+      args.push('--config', path.resolve(options.configFile));
+    }
+    if (options.grep) {
+      args.push('--grep', options.grep);
+    }
+    if (options.project) {
+      args.push('--project', options.project);
+    }
+    if (options.retries !== undefined) {
+      args.push('--retries', String(options.retries));
+    }
+    if (options.workers !== undefined) {
+      args.push('--workers', String(options.workers));
+    }
+    if (options.headed) {
+      args.push('--headed');
+    }
+    if (options.outputDir) {
+      args.push('--output', path.resolve(options.outputDir));
+    }
+
+    return args;
+  }
+}
+
+/**
+ * Convert a JSON report into a result for the whole spec file
+ *
+ * Every test and project pair becomes one entry in `tests`. The file passes
+ * when no test failed unexpectedly, and is skipped when every test was.
+ */
+export function convertSpecReport(report: JSONReport, file: string, title: string): PlaywrightTestResult {
+  const tests = report.suites.flatMap(suite => convertSuite(suite, []));
+  const failed = tests.filter(test => test.status === 'failed' || test.status === 'timedout');
+  const startTime = new Date(report.stats.startTime);
+  const duration = Math.round(report.stats.duration);
+
+  let status: PlaywrightTestResult['status'] = 'passed';
+  let error: PlaywrightTestResult['error'];
+  const globalError = report.errors[0];
+  const firstFailure = failed.find(test => test.error);
+
+  if (globalError) {
+    // Errors outside tests, such as a spec that does not compile
+    status = 'failed';
+    error = {
+      message: stripAnsi(globalError.message || 'Playwright run failed'),
+      ...(globalError.stack && { stack: stripAnsi(globalError.stack) }),
+      ...(globalError.location && { location: globalError.location }),
+    };
+  } else if (failed.length > 0) {
+    status = failed.every(test => test.status === 'timedout') ? 'timedout' : 'failed';
+    if (firstFailure) {
+      error = { ...firstFailure.error!, message: `${firstFailure.title}: ${firstFailure.error!.message}` };
+    }
+  } else if (tests.length === 0) {
+    status = 'failed';
+    error = { message: `No tests found in ${file}` };
+  } else if (tests.every(test => test.status === 'skipped')) {
+    status = 'skipped';
+  }
+
+  return {
+    file,
+    title,
+    status,
+    duration,
+    startTime,
+    endTime: new Date(startTime.getTime() + duration),
+    ...(error && { error }),
+    steps: [],
+    attachments: tests.flatMap(test => test.attachments),
+    retryCount: tests.reduce((sum, test) => sum + test.retryCount, 0),
+    annotations: [],
+    tests,
+  };
+}
+
+/**
+ * Convert the tests of a suite and its describe blocks
+ *
+ * Top-level suites are files, so their titles are left out of test titles.
+ */
+function convertSuite(suite: JSONReportSuite, titlePath: string[]): PlaywrightTestResult[] {
+  const results: PlaywrightTestResult[] = [];
+
+  for (const spec of suite.specs) {
+    for (const test of spec.tests) {
+      results.push(convertTest(test, spec.file, [...titlePath, spec.title].join(' › ')));
+    }
+  }
+  for (const child of suite.suites ?? []) {
+    results.push(...convertSuite(child, [...titlePath, child.title]));
+  }
+
+  return results;
+}
+
+function convertTest(test: JSONReportTest, file: string, title: string): PlaywrightTestResult {
+  const last = test.results[test.results.length - 1];
+  const startTime = last ? new Date(last.startTime) : new Date();
+  const duration = last ? Math.round(last.duration) : 0;
+  const error = last && test.status === 'unexpected' ? convertError(last) : undefined;
+
+  return {
+    file,
+    title: test.projectName ? `[${test.projectName}] ${title}` : title,
+    status: convertStatus(test, last),
+    duration,
+    startTime,
+    endTime: new Date(startTime.getTime() + duration),
+    ...(error && { error }),
+    steps: last ? convertSteps(last.steps ?? [], startTime, []) : [],
+    attachments: test.results.flatMap(result => result.attachments.map(convertAttachment)),
+    retryCount: Math.max(0, test.results.length - 1),
+    annotations: test.annotations
+      .filter(annotation => ANNOTATION_TYPES.has(annotation.type))
+      .map(annotation => ({
+        type: annotation.type as PlaywrightAnnotation['type'],
+        ...(annotation.description !== undefined && { description: annotation.description }),
+      })),
+    ...(test.projectName && { project: test.projectName }),
+  };
+}
+
+/**
+ * Map a test outcome to a result status
+ *
+ * Tests expected to fail that do fail count as passed, and tests that only
+ * passed on a retry count as passed with a non-zero retry count.
+ */
+function convertStatus(test: JSONReportTest, last: JSONReportTestResult | undefined): PlaywrightTestResult['status'] {
+  switch (test.status) {
+    case 'skipped':
+      return 'skipped';
+    case 'expected':
+    case 'flaky':
+      return last?.status === 'skipped' ? 'skipped' : 'passed';
+    default:
+      return last?.status === 'timedOut' ? 'timedout' : 'failed';
+  }
+}
+
+function convertError(result: JSONReportTestResult): PlaywrightTestResult['error'] {
+  const error = result.error ?? result.errors[0];
+  if (!error) {
+    return { message: `Test ${result.status}` };
+  }
+
+  const location = result.errorLocation ?? error.location;
+  return {
+    message: stripAnsi(error.message || `Test ${result.status}`),
+    ...('stack' in error && error.stack && { stack: stripAnsi(error.stack) }),
+    ...(location && { location }),
+  };
+}
+
+/**
+ * Flatten nested steps, joining titles with their parents'
+ *
+ * The JSON report has no step start times, so steps are laid out back to
+ * back from the start of their parent.
+ */
+function convertSteps(steps: JSONReportTestStep[], start: Date, titlePath: string[]): PlaywrightTestStep[] {
+  const converted: PlaywrightTestStep[] = [];
+  let offset = start.getTime();
+
+  for (const step of steps) {
+    const duration = Math.max(0, Math.round(step.duration));
+    const startTime = new Date(offset);
+    const title = [...titlePath, step.title].join(' › ');
+
+    converted.push({
+      title,
+      category: 'test.step',
+      duration,
+      startTime,
+      endTime: new Date(offset + duration),
+      ...(step.error && {
+        error: {
+          message: stripAnsi(step.error.message || 'Step failed'),
+          ...(step.error.stack && { stack: stripAnsi(step.error.stack) }),
+        },
+      }),
+    });
+    converted.push(...convertSteps(step.steps ?? [], startTime, [...titlePath, step.title]));
+    offset += duration;
+  }
+
+  return converted;
+}
+
+function convertAttachment(attachment: JSONReportTestResult['attachments'][number]): PlaywrightAttachment {
+  const body = attachment.body !== undefined ? Buffer.from(attachment.body, 'base64') : undefined;
+  return {
+    name: attachment.name,
+    contentType: attachment.contentType,
+    ...(attachment.path && { path: attachment.path }),
+    ...(body && { body }),
+    size: body?.length ?? 0,
+  };
+}
+
+/**
+ * Run a process to completion, killing it after the timeout
+ */
+function runProcess(
+  command: string,
+  args: string[],
+  options: { cwd: string; env: NodeJS.ProcessEnv; timeout: number }
+): Promise<{ exitCode: number | null; output: string }> {
+  return new Promise((resolve, reject) => {
+    // Own process group, so a timeout also ends the browsers the runner started
+    const child = spawn(command, args, { cwd: options.cwd, env: options.env, detached: true, stdio: ['ignore', 'pipe', 'pipe'] });
+    let output = '';
+    let timedOut = false;
+
+    const append = (chunk: Buffer) => {
+      output = (output + chunk.toString()).slice(-MAX_OUTPUT_LENGTH);
+    };
+    child.stdout?.on('data', append);
+    child.stderr?.on('data', append);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        child.kill('SIGKILL');
+      }
+    }, options.timeout);
+    timer.unref();
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(new PlaywrightSpecRunError(`Failed to start Playwright runner: ${error.message}`));
+    });
+    child.on('close', exitCode => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new PlaywrightSpecRunError(`Playwright runner timed out after ${options.timeout}ms`, exitCode));
+        return;
+      }
+      resolve({ exitCode, output });
+    });
+  });
+}
+
+function stripAnsi(value: string): string {
+  return value.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
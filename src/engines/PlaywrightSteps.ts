@@ -0,0 +1,565 @@
+/**
+ * Playwright Steps
+ *
+ * Step definitions executed by the Playwright engine, the conversion of
+ * generated test case steps into them, and the assertions run by `verify`
+ * and `assert` steps. Assertions poll the page until they pass or their
+ * timeout runs out, like Playwright's web-first assertions. Steps can
+ * capture values from the page into variables read by later steps'
+ * expressions. Control steps (`if`, `forEach`, `retryUntil` and `flow`)
+ * group nested steps; the engine runs them.
+ */
+
+import type { Page, Response } from 'playwright';
+import { TestActionType, TestStep } from '../types/test-generation';
+import { readPath } from './StepExpressions';
+
+/**
+ * Step types that run nested steps instead of acting on the page
+ */
+export type PlaywrightControlStepType = 'if' | 'forEach' | 'retryUntil' | 'flow';
+
+/**
+ * Step types the engine executes: every generated action type, `fill` and
+ * the control steps
+ */
+export type PlaywrightStepType = TestActionType | 'fill' | PlaywrightControlStepType;
+
+/**
+ * What an assertion step checks
+ */
+export type PlaywrightAssertionType = 'text' | 'visible' | 'url' | 'attribute' | 'count' | 'value';
+
+/**
+ * How an actual value is compared with the expected one
+ */
+export type PlaywrightAssertionMatch = 'equals' | 'contains' | 'matches';
+
+/**
+ * Assertion checked by a `verify` or `assert` step
+ */
+export interface PlaywrightStepAssertion {
+  type: PlaywrightAssertionType;
+
+  /** Expected value; `visible` defaults to true, so `false` checks that an element is hidden */
+  expected?: string | number | boolean;
+
+  /** Attribute read by `attribute` assertions */
+  attribute?: string;
+
+  /** Comparison; `text` defaults to `contains`, everything else to `equals` */
+  match?: PlaywrightAssertionMatch;
+}
+
+/**
+ * Where a captured value is read from
+ */
+export type PlaywrightCaptureSource = 'text' | 'value' | 'attribute' | 'url' | 'response';
+
+/**
+ * Value a step stores in a variable once it ran, readable as `${vars.<as>}`
+ */
+export interface PlaywrightStepCapture {
+  /** Variable name */
+  as: string;
+
+  from: PlaywrightCaptureSource;
+
+  /** Element read by `text`, `value` and `attribute` captures; defaults to the step's selector */
+  selector?: string;
+
+  /** Attribute read by `attribute` captures */
+  attribute?: string;
+
+  /** Part of the URL of the response read by `response` captures */
+  url?: string;
+
+  /** Dot path into a JSON response body; the whole body is captured without it */
+  path?: string;
+
+  /** Regular expression applied to the value; its first group, or the whole match, is stored */
+  pattern?: string;
+}
+
+/**
+ * A single step of a step-based Playwright test
+ *
+ * String fields may contain `${...}` expressions, resolved when the step runs.
+ */
+export interface PlaywrightStep {
+  type: PlaywrightStepType;
+  name?: string;
+
+  /** Element the step acts on or asserts against */
+  selector?: string;
+
+  /** Text for `fill` and `type`, option for `select` */
+  value?: string;
+
+  /** Page opened by `navigate` */
+  url?: string;
+
+  /** Drop target of `drag_drop` */
+  target?: string;
+
+  /** Files set by `upload_file` */
+  files?: string | string[];
+
+  /** Scroll distance of `scroll` steps without a selector (px) */
+  x?: number;
+  y?: number;
+
+  /** Delay between key presses of `type` (ms) */
+  delay?: number;
+
+  /** Pause of `wait` steps without a selector (ms) */
+  duration?: number;
+
+  /** Assertion of `verify` and `assert` steps */
+  assertion?: PlaywrightStepAssertion;
+
+  /** Registered handler run by `custom` steps, and its arguments */
+  action?: string;
+  args?: Record<string, any>;
+
+  /** Step timeout, overriding the configured action timeout (ms) */
+  timeout?: number;
+
+  /** Take a screenshot once the step passed */
+  screenshot?: boolean;
+
+  /** Values stored in variables once the step passed */
+  capture?: PlaywrightStepCapture | PlaywrightStepCapture[];
+
+  /** Condition of `if` and `retryUntil` steps; element conditions check `selector` */
+  condition?: PlaywrightStepAssertion;
+
+  /** Nested steps of control steps; `if` runs them when its condition holds */
+  steps?: PlaywrightStep[];
+
+  /** Steps `if` runs when its condition does not hold */
+  else?: PlaywrightStep[];
+
+  /**
+   * Values `forEach` runs its steps for: a list, or an expression reading
+   * one such as `${data.users}`; without them it runs once per element
+   * matching `selector`
+   */
+  items?: unknown[] | string;
+
+  /** Variable holding the current `forEach` item (default `item`) */
+  as?: string;
+
+  /** Maximum runs of `retryUntil` (default 3) */
+  attempts?: number;
+
+  /** Pause between `retryUntil` runs (ms) */
+  interval?: number;
+
+  /** Sub-flow run by `flow` steps, and its parameters */
+  flow?: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Named group of steps that `flow` steps include
+ */
+export interface PlaywrightFlow {
+  description?: string;
+
+  /** Parameters the flow requires, read by its steps as `${params.<name>}` */
+  params?: string[];
+
+  steps: PlaywrightStep[];
+}
+
+/**
+ * Handler of a `custom` step
+ */
+export type PlaywrightCustomAction = (page: Page, step: PlaywrightStep) => Promise<void>;
+
+/**
+ * Error raised when an assertion step fails
+ */
+export class PlaywrightAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlaywrightAssertionError';
+  }
+}
+
+/**
+ * Interval between assertion checks (ms)
+ */
+const ASSERTION_POLL_INTERVAL = 100;
+
+/**
+ * Assertion types checked by assertion steps
+ */
+const ASSERTION_TYPES = new Set<string>(['text', 'visible', 'url', 'attribute', 'count', 'value']);
+
+/**
+ * Control step types
+ */
+const CONTROL_STEP_TYPES = new Set<string>(['if', 'forEach', 'retryUntil', 'flow']);
+
+/**
+ * Check whether a step runs nested steps
+ */
+export function isControlStep(step: PlaywrightStep): boolean {
+  return CONTROL_STEP_TYPES.has(step.type);
+}
+
+/**
+ * Check whether a step comes from a generated test case
+ */
+export function isGeneratedTestStep(step: any): step is TestStep {
+  return typeof step === 'object' && step !== null && typeof step.actionType === 'string';
+}
+
+/**
+ * Convert generated test case steps into engine steps, in step order
+ *
+ * Steps already in the engine's format are returned unchanged.
+ */
+export function normalizePlaywrightSteps(steps: Array<PlaywrightStep | TestStep>): PlaywrightStep[] {
+  const ordered = steps.every(isGeneratedTestStep)
+    ? [...steps].sort((a, b) => a.order - b.order)
+    : steps;
+
+  return ordered.map(step => isGeneratedTestStep(step) ? fromGeneratedStep(step) : step);
+}
+
+/**
+ * Read a required step field, failing the step when it is missing
+ */
+export function requireStepField<K extends keyof PlaywrightStep>(
+  step: PlaywrightStep,
+  field: K
+): NonNullable<PlaywrightStep[K]> {
+  const value = step[field];
+  if (value === undefined || value === null || value === '') {
+    throw new Error(`Step "${step.name || step.type}" requires ${String(field)}`);
+  }
+  return value as NonNullable<PlaywrightStep[K]>;
+}
+
+/**
+ * Poll the page until an assertion step passes
+ *
+ * @throws PlaywrightAssertionError when the assertion still fails after the timeout
+ */
+export async function assertStep(page: Page, step: PlaywrightStep, timeout: number): Promise<void> {
+  const outcome = await pollAssertion(page, step, requireStepField(step, 'assertion'), timeout);
+  if (!outcome.passed) {
+    throw new PlaywrightAssertionError(`Assertion failed: ${outcome.message}`);
+  }
+}
+
+/**
+ * Check the condition of an `if` or `retryUntil` step
+ *
+ * The condition is polled until it holds or the timeout runs out; a timeout
+ * of 0 checks it once.
+ */
+export async function checkStepCondition(page: Page, step: PlaywrightStep, timeout: number): Promise<AssertionOutcome> {
+  return pollAssertion(page, step, requireStepField(step, 'condition'), timeout);
+}
+
+async function pollAssertion(
+  page: Page,
+  step: PlaywrightStep,
+  assertion: PlaywrightStepAssertion,
+  timeout: number
+): Promise<AssertionOutcome> {
+  const deadline = Date.now() + timeout;
+  let outcome = await checkAssertion(page, step, assertion);
+
+  while (!outcome.passed && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, ASSERTION_POLL_INTERVAL));
+    outcome = await checkAssertion(page, step, assertion);
+  }
+
+  return outcome;
+}
+
+/**
+ * Start capturing the values of a step
+ *
+ * Responses are awaited from before the step runs, so the request the step
+ * triggers is not missed. The returned function reads every value once the
+ * step passed.
+ */
+export function startStepCapture(
+  page: Page,
+  step: PlaywrightStep,
+  timeout: number
+): () => Promise<Record<string, string>> {
+  const captures = step.capture === undefined ? [] : [step.capture].flat();
+  const responses = captures.map(capture => {
+    if (capture.from !== 'response') {
+      return undefined;
+    }
+    const url = requireCaptureField(capture, 'url');
+    const response = page.waitForResponse(candidate => candidate.url().includes(url), { timeout });
+    // The step may fail before the response arrives
+    response.catch(() => undefined);
+    return response;
+  });
+
+  return async () => {
+    const values: Record<string, string> = {};
+    for (const [index, capture] of captures.entries()) {
+      const value = await readCaptureSource(page, step, capture, responses[index], timeout);
+      values[capture.as] = applyCapturePattern(capture, value);
+    }
+    return values;
+  };
+}
+
+async function readCaptureSource(
+  page: Page,
+  step: PlaywrightStep,
+  capture: PlaywrightStepCapture,
+  response: Promise<Response> | undefined,
+  timeout: number
+): Promise<string> {
+  if (capture.from === 'url') {
+    return page.url();
+  }
+  if (capture.from === 'response') {
+    return readResponse(capture, await response!);
+  }
+
+  const selector = capture.selector ?? step.selector;
+  if (!selector) {
+    throw new Error(`Capture "${capture.as}" requires a selector`);
+  }
+  const element = page.locator(selector).first();
+  switch (capture.from) {
+    case 'text':
+      return normalizeWhitespace(await element.textContent({ timeout }) ?? '');
+    case 'value':
+      return element.inputValue({ timeout });
+    case 'attribute': {
+      const attribute = requireCaptureField(capture, 'attribute');
+      const value = await element.getAttribute(attribute, { timeout });
+      if (value === null) {
+        throw new Error(`Capture "${capture.as}": locator('${selector}') has no attribute "${attribute}"`);
+      }
+      return value;
+    }
+    default:
+      throw new Error(`Unsupported capture source: ${(capture as PlaywrightStepCapture).from}`);
+  }
+}
+
+async function readResponse(capture: PlaywrightStepCapture, response: Response): Promise<string> {
+  if (capture.path === undefined) {
+    return response.text();
+  }
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new Error(`Capture "${capture.as}": the response of ${response.url()} is not JSON`);
+  }
+  const value = readPath(body, capture.path);
+  if (value === undefined || value === null) {
+    throw new Error(`Capture "${capture.as}": the response of ${response.url()} has no "${capture.path}"`);
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function applyCapturePattern(capture: PlaywrightStepCapture, value: string): string {
+  if (capture.pattern === undefined) {
+    return value;
+  }
+
+  const match = new RegExp(capture.pattern).exec(value);
+  if (!match) {
+    throw new Error(`Capture "${capture.as}": /${capture.pattern}/ does not match ${JSON.stringify(value)}`);
+  }
+  return match[1] ?? match[0];
+}
+
+function requireCaptureField(capture: PlaywrightStepCapture, field: 'url' | 'attribute'): string {
+  const value = capture[field];
+  if (!value) {
+    throw new Error(`Capture "${capture.as}" requires ${field}`);
+  }
+  return value;
+}
+
+/**
+ * Result of checking an assertion or condition
+ */
+export interface AssertionOutcome {
+  passed: boolean;
+  message: string;
+}
+
+async function checkAssertion(
+  page: Page,
+  step: PlaywrightStep,
+  assertion: PlaywrightStepAssertion
+): Promise<AssertionOutcome> {
+  if (assertion.type === 'url') {
+    return compare('URL', page.url(), assertion);
+  }
+  if (!ASSERTION_TYPES.has(assertion.type)) {
+    throw new Error(`Unsupported assertion type: ${assertion.type}`);
+  }
+  if (assertion.type === 'attribute' && !assertion.attribute) {
+    throw new Error('Attribute assertions require an attribute name');
+  }
+
+  const selector = requireStepField(step, 'selector');
+  const subject = `${describeAssertion(assertion)} of locator('${selector}')`;
+  const locator = page.locator(selector);
+
+  try {
+    const count = await locator.count();
+    if (assertion.type === 'count') {
+      const expected = Number(assertion.expected);
+      return { passed: count === expected, message: `expected ${subject} to be ${expected}, received ${count}` };
+    }
+    if (assertion.type === 'visible') {
+      const expected = assertion.expected !== false;
+      const visible = count > 0 && await locator.first().isVisible();
+      return {
+        passed: visible === expected,
+        message: `expected locator('${selector}') to be ${expected ? 'visible' : 'hidden'}`,
+      };
+    }
+    if (count === 0) {
+      return { passed: false, message: `expected ${subject} to ${describeMatch(assertion)}, but the element was not found` };
+    }
+
+    const element = locator.first();
+    if (assertion.type === 'text') {
+      return compare(subject, normalizeWhitespace(await element.textContent() ?? ''), assertion);
+    }
+    if (assertion.type === 'value') {
+      return compare(subject, await element.inputValue(), assertion);
+    }
+    return compare(subject, await element.getAttribute(assertion.attribute!), assertion);
+  } catch (error) {
+    // The element may be detached or re-rendered between checks
+    return { passed: false, message: `expected ${subject} to ${describeMatch(assertion)}: ${(error as Error).message}` };
+  }
+}
+
+function compare(subject: string, actual: string | null, assertion: PlaywrightStepAssertion): AssertionOutcome {
+  const expected = String(assertion.expected ?? '');
+  const match = assertion.match ?? (assertion.type === 'text' ? 'contains' : 'equals');
+  let passed = false;
+
+  if (actual !== null) {
+    switch (match) {
+      case 'contains':
+        passed = actual.includes(expected);
+        break;
+      case 'matches':
+        passed = new RegExp(expected).test(actual);
+        break;
+      default:
+        passed = actual === expected;
+    }
+  }
+
+  return {
+    passed,
+    message: `expected ${subject} to ${describeMatch(assertion)}, received ${actual === null ? 'null' : JSON.stringify(actual)}`,
+  };
+}
+
+function describeAssertion(assertion: PlaywrightStepAssertion): string {
+  return assertion.type === 'attribute' ? `attribute "${assertion.attribute}"` : assertion.type;
+}
+
+function describeMatch(assertion: PlaywrightStepAssertion): string {
+  const match = assertion.match ?? (assertion.type === 'text' ? 'contains' : 'equals');
+  const verb = match === 'contains' ? 'contain' : match === 'matches' ? 'match' : 'equal';
+  return `${verb} ${JSON.stringify(String(assertion.expected ?? ''))}`;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Convert a generated test case step
+ *
+ * `inputData` is either the step's value or an object with the engine's
+ * step fields. Assertions may also use the exporters' `expectedText`,
+ * `expectedUrl`, `expectedValue` and `expectedCount` fields; a `verify` or
+ * `assert` step without any of them checks that its element is visible, and
+ * fails when it has no element either.
+ */
+function fromGeneratedStep(step: TestStep): PlaywrightStep {
+  const input = step.inputData;
+  const data: Record<string, any> = typeof input === 'object' && input !== null && !Array.isArray(input)
+    ? input
+    : {};
+  const type: PlaywrightStepType = step.actionType;
+
+  const converted: PlaywrightStep = {
+    type,
+    name: step.action,
+    ...(step.selector !== undefined && { selector: step.selector }),
+    ...(step.timeout !== undefined && { timeout: step.timeout }),
+    ...(step.captureScreenshot && { screenshot: true }),
+  };
+
+  for (const field of ['url', 'target', 'files', 'x', 'y', 'delay', 'duration', 'action', 'args', 'capture'] as const) {
+    if (data[field] !== undefined) {
+      (converted as any)[field] = data[field];
+    }
+  }
+
+  if (type === 'upload_file' && converted.files === undefined && (typeof input === 'string' || Array.isArray(input))) {
+    converted.files = input;
+  }
+
+  const value = data['value'] ?? data['text'] ?? (typeof input === 'object' ? undefined : input);
+  if (value !== undefined) {
+    if (type === 'navigate' && converted.url === undefined) {
+      converted.url = String(value);
+    } else if (type !== 'upload_file') {
+      converted.value = String(value);
+    }
+  }
+
+  if (type === 'verify' || type === 'assert') {
+    const assertion = data['assertion'] ?? generatedAssertion(data, step.selector);
+    if (assertion) {
+      converted.assertion = assertion;
+    }
+  }
+
+  return converted;
+}
+
+function generatedAssertion(data: Record<string, any>, selector?: string): PlaywrightStepAssertion | undefined {
+  if (data['expectedUrl'] !== undefined) {
+    return { type: 'url', expected: data['expectedUrl'], match: 'contains' };
+  }
+  if (data['expectedCount'] !== undefined) {
+    return { type: 'count', expected: data['expectedCount'] };
+  }
+  if (data['attribute'] !== undefined) {
+    return { type: 'attribute', attribute: data['attribute'], expected: data['expectedValue'] };
+  }
+  if (data['expectedValue'] !== undefined) {
+    return { type: 'value', expected: data['expectedValue'] };
+  }
+  if (data['expectedText'] !== undefined) {
+    return { type: 'text', expected: data['expectedText'] };
+  }
+  if (data['visible'] !== undefined || selector !== undefined) {
+    return { type: 'visible', expected: data['visible'] !== false };
+  }
+  return undefined;
+}
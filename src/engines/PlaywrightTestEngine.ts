@@ -17,20 +17,122 @@ import {
   TestError,
   TestMetrics,
   TestArtifact,
-  FailureType
+  FailureType,
+  HealingAttempt,
+  HealingContext,
+  HealingAction,
+  TestMatrixCell,
+  FailureContext
 } from '../types';
+import { DEFAULT_CONFIG, EnvironmentConfig } from '../config/schemas';
 import { TestEngine } from '../core/TestEngine';
+import { HealingEngine, getSystemLoad } from '../healing/HealingEngine';
+import { locatorProbe } from '../healing/LocatorProbe';
+import { VisualBaselineStore } from '../healing/VisualBaselines';
 import { logger } from '../utils/logger';
 import { 
   PlaywrightTestConfig, 
   PlaywrightTestResult, 
   PlaywrightTestStep,
+  PlaywrightStepHealing,
+  PlaywrightAttachment,
+  PlaywrightHarMatchRules,
+  PlaywrightNetworkMode,
+  PlaywrightTestNetworkConfig,
   DEFAULT_PLAYWRIGHT_CONFIG 
 } from './PlaywrightConfig';
-import { chromium, firefox, webkit, Browser, BrowserContext, Page } from 'playwright';
+import { PlaywrightSpecRunner, convertSpecReport, isPlaywrightSpecFile } from './PlaywrightSpecRunner';
+import { BrowserContextPool } from './BrowserContextPool';
+import { HarReplayer } from './HarReplay';
+import { PageActivity } from './PageActivity';
+import { isTestFile, loadTestFile } from '../testfiles';
+import {
+  AssertionOutcome,
+  PlaywrightAssertionError,
+  PlaywrightCustomAction,
+  PlaywrightFlow,
+  PlaywrightStep,
+  assertStep,
+  checkStepCondition,
+  isControlStep,
+  normalizePlaywrightSteps,
+  requireStepField,
+  startStepCapture
+} from './PlaywrightSteps';
+import { ExpressionScope, resolveExpressionValue, resolveValueExpressions } from './StepExpressions';
+import { chromium, devices, firefox, webkit, Browser, Page } from 'playwright';
 import * as fs from 'fs/promises';
+import * as os from 'os';
 import * as path from 'path';
 
+/**
+ * Step types that target an element and can be healed inline
+ */
+const HEALABLE_STEP_TYPES = new Set(['click', 'fill', 'type', 'select', 'wait', 'hover', 'scroll', 'drag_drop', 'upload_file']);
+
+/**
+ * Failure types that inline healing responds to
+ */
+const HEALABLE_FAILURE_TYPES: FailureType[] = ['element_not_found', 'timeout'];
+
+/**
+ * State shared by the steps of one test run
+ */
+interface StepRun {
+  config: TestConfig;
+  testResult: PlaywrightTestResult;
+  result: TestResult;
+  
+  /** Page of the context the test leased */
+  page: Page;
+  
+  /** Console messages, page errors and requests of the page */
+  activity: PageActivity;
+  
+  /** Values the steps' expressions read */
+  scope: ExpressionScope;
+  
+  /** Selectors healed earlier in the run, reused by later steps */
+  healedSelectors: Map<string, string>;
+  
+  /** Failed `verify` steps, failing the test once all steps ran */
+  failedVerifications: string[];
+  
+  /** Steps may only use what is left of the test's timeout */
+  deadline: number;
+  
+  /** Sub-flows the test can include, and the ones currently running */
+  flows: Record<string, PlaywrightFlow>;
+  flowStack: string[];
+  
+  /** Elements the steps acted on, cropped as visual baselines once the test passes */
+  baselineTargets: VisualBaselineTarget[];
+}
+
+/**
+ * Element a step acted on
+ */
+interface VisualBaselineTarget {
+  /** Selector the baseline is stored under, as written in the test */
+  selector: string;
+
+  /** Selector that located the element, healed when the step was */
+  locator: string;
+  url: string;
+}
+
+/**
+ * Resolve a test's HAR file inside the engine's HAR directory
+ */
+function resolveHarPath(harDir: string, har: string): string {
+  const resolved = path.resolve(harDir, har);
+  const relative = path.relative(path.resolve(harDir), resolved);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`HAR file ${har} is outside ${harDir}`);
+  }
+  return resolved;
+}
+
 /**
  * Playwright Test Engine
  * 
@@ -38,13 +140,16 @@ import * as path from 'path';
  * Provides comprehensive test execution, result collection, and self-healing capabilities.
  */
 export class PlaywrightTestEngine extends TestEngine {
-  private browser: Browser | null = null;
-  private context: BrowserContext | null = null;
-  private page: Page | null = null;
+  private contextPool: BrowserContextPool | null = null;
   private playwrightConfig: PlaywrightTestConfig;
-  private artifacts: TestArtifact[] = [];
+  private healingEngine: HealingEngine | null;
+  private visualBaselines: VisualBaselineStore | null = null;
+  private specRunner: PlaywrightSpecRunner = new PlaywrightSpecRunner();
+  private customActions = new Map<string, PlaywrightCustomAction>();
+  private environments: Record<string, EnvironmentConfig> = {};
+  private flows = new Map<string, PlaywrightFlow>();
 
-  constructor() {
+  constructor(healingEngine?: HealingEngine, visualBaselines?: VisualBaselineStore) {
     super(
       'playwright',
       '1.0.0',
@@ -53,9 +158,54 @@ export class PlaywrightTestEngine extends TestEngine {
     );
     
     this.playwrightConfig = { ...DEFAULT_PLAYWRIGHT_CONFIG };
+    this.healingEngine = healingEngine || null;
+    this.visualBaselines = visualBaselines || null;
     logger.info('PlaywrightTestEngine initialized');
   }
 
+  /**
+   * Set the healing engine used to heal failing steps during a run
+   */
+  public setHealingEngine(healingEngine: HealingEngine | null): void {
+    this.healingEngine = healingEngine;
+  }
+
+  /**
+   * Set the store that passing runs save element crops to
+   *
+   * Capture also requires `screenshots.elementBaselines` in the Playwright
+   * configuration.
+   */
+  public setVisualBaselines(store: VisualBaselineStore | null): void {
+    this.visualBaselines = store;
+  }
+
+  /**
+   * Register the handler run by `custom` steps naming it in `action`
+   */
+  public registerCustomAction(name: string, action: PlaywrightCustomAction): void {
+    this.customActions.set(name, action);
+  }
+
+  /**
+   * Register a sub-flow that `flow` steps naming it include
+   *
+   * Flows in a test's `parameters.flows` take precedence over registered ones.
+   */
+  public registerFlow(name: string, flow: PlaywrightFlow): void {
+    this.flows.set(name, flow);
+  }
+
+  /**
+   * Set the environments whose variables steps read as `${env.NAME}`
+   *
+   * A test reads the environment named by its `environment`; variables it
+   * does not define fall back to the process environment.
+   */
+  public setEnvironments(environments: Record<string, EnvironmentConfig>): void {
+    this.environments = environments;
+  }
+
   /**
    * Initialize the Playwright test engine
    */
@@ -72,7 +222,7 @@ export class PlaywrightTestEngine extends TestEngine {
       await this.ensureOutputDirectory();
       
       // Initialize browser based on configuration
-      await this.initializeBrowser();
+      await this.initializeBrowser(config);
       
       logger.info('Playwright test engine initialized successfully');
     } catch (error) {
@@ -96,7 +246,7 @@ export class PlaywrightTestEngine extends TestEngine {
       
       try {
         // Execute the test file
-        const playwrightResult = await this.executeTestFile(config);
+        const playwrightResult = await this.executeTestFile(config, testResult);
         
         // Convert Playwright result to our TestResult format
         const convertedResult = await this.convertPlaywrightResult(playwrightResult, testResult);
@@ -121,6 +271,9 @@ export class PlaywrightTestEngine extends TestEngine {
         await this.collectFailureArtifacts(failureResult);
         
         return failureResult;
+      } finally {
+        // Healing budgets are counted per run, so retries start afresh
+        this.healingEngine?.clearAttempts(testResult.id);
       }
       
     } catch (error) {
@@ -178,22 +331,10 @@ export class PlaywrightTestEngine extends TestEngine {
     try {
       logger.info('Cleaning up Playwright test engine');
       
-      // Close page if open
-      if (this.page) {
-        await this.page.close();
-        this.page = null;
-      }
-      
-      // Close context if open
-      if (this.context) {
-        await this.context.close();
-        this.context = null;
-      }
-      
-      // Close browser if open
-      if (this.browser) {
-        await this.browser.close();
-        this.browser = null;
+      // Close pooled contexts and their browsers
+      if (this.contextPool) {
+        await this.contextPool.close();
+        this.contextPool = null;
       }
       
       logger.info('Playwright test engine cleaned up successfully');
@@ -209,11 +350,14 @@ export class PlaywrightTestEngine extends TestEngine {
   protected async doGetHealth(): Promise<EngineHealth> {
     try {
       const memoryUsage = process.memoryUsage();
-      const isHealthy = this.browser !== null && this.isInitialized;
+      const isHealthy = this.contextPool !== null && this.isInitialized;
+      const pool = this.contextPool?.getStats();
       
       return {
         status: isHealthy ? 'healthy' : 'unhealthy',
-        message: isHealthy ? 'Playwright engine is running normally' : 'Playwright engine is not properly initialized',
+        message: isHealthy && pool
+          ? `Playwright engine is running normally (${pool.leased}/${pool.size} browser contexts in use, ${pool.waiting} waiting)`
+          : 'Playwright engine is not properly initialized',
         metrics: {
           uptime: this.startTime ? Date.now() - this.startTime.getTime() : 0,
           memoryUsage: memoryUsage.heapUsed / 1024 / 1024, // Convert to MB
@@ -240,34 +384,182 @@ export class PlaywrightTestEngine extends TestEngine {
 
   /**
    * Initialize browser based on configuration
+   *
+   * Tests run in contexts leased from a pool sized to the engine's
+   * concurrency. The configured browser is launched up front so that launch
+   * failures fail initialization.
    */
-  private async initializeBrowser(): Promise<void> {
+  private async initializeBrowser(config: EngineConfig): Promise<void> {
     const browserType = this.playwrightConfig.browser.type;
-    const browserOptions = this.getBrowserOptions();
+    const poolConfig = { ...DEFAULT_PLAYWRIGHT_CONFIG.contextPool, ...this.playwrightConfig.contextPool };
     
     logger.info(`Initializing ${browserType} browser`);
     
+    const pool = new BrowserContextPool({
+      size: Math.max(1, poolConfig.size ?? config.concurrency ?? DEFAULT_CONFIG.orchestration!.maxConcurrency),
+      // Videos are only written when their context closes
+      maxUses: this.playwrightConfig.video.enabled ? 1 : poolConfig.maxUses,
+      launch: type => this.launchBrowser(type),
+    });
+    await pool.getBrowser(browserType);
+    this.contextPool = pool;
+    
+    logger.info(`${browserType} browser initialized successfully`);
+  }
+
+  /**
+   * Launch a browser of the given type
+   */
+  private async launchBrowser(browserType: string): Promise<Browser> {
+    const browserOptions = this.getBrowserOptions();
+    
     switch (browserType) {
       case 'chromium':
-        this.browser = await chromium.launch(browserOptions);
-        break;
+        return chromium.launch(browserOptions);
       case 'firefox':
-        this.browser = await firefox.launch(browserOptions);
-        break;
+        return firefox.launch(browserOptions);
       case 'webkit':
-        this.browser = await webkit.launch(browserOptions);
-        break;
+        return webkit.launch(browserOptions);
       default:
         throw new Error(`Unsupported browser type: ${browserType}`);
     }
+  }
+  
+  /**
+   * Get the context options of a matrix cell: the engine's options with the
+   * cell's device descriptor, viewport and locale applied
+   */
+  private getCellContextOptions(cell: TestMatrixCell, browserType: string) {
+    const options = this.getContextOptions();
+    
+    if (cell.device) {
+      const descriptor = devices[cell.device];
+      if (!descriptor) {
+        throw new Error(`Unknown device: ${cell.device}`);
+      }
+      const { defaultBrowserType: _defaultBrowserType, ...deviceOptions } = descriptor;
+      Object.assign(options, deviceOptions);
+      
+      // Firefox does not support mobile emulation
+      if (browserType === 'firefox') {
+        delete options.isMobile;
+      }
+    }
     
-    // Create browser context
-    this.context = await this.browser.newContext(this.getContextOptions());
+    if (cell.viewport) {
+      options.viewport = { width: cell.viewport.width, height: cell.viewport.height };
+    }
     
-    // Create page
-    this.page = await this.context.newPage();
+    if (cell.locale) {
+      options.locale = cell.locale;
+    }
     
-    logger.info(`${browserType} browser initialized successfully`);
+    return options;
+  }
+  
+  /**
+   * Get the network mode, HAR file and replay rules of a test
+   *
+   * HAR files default to one per test, named after `harName`, so that a
+   * recorded test replays its own traffic. A test's own HAR file is resolved
+   * inside `<outputDir>/har`, and paths leaving that directory are rejected.
+   */
+  private getNetworkSettings(config: TestConfig, harName: string): { mode: PlaywrightNetworkMode; har: string; match: PlaywrightHarMatchRules } {
+    const network = this.playwrightConfig.network;
+    const testNetwork: PlaywrightTestNetworkConfig = config.parameters['network'] ?? {};
+    const harDir = path.join(this.playwrightConfig.outputDir, 'har');
+    
+    return {
+      mode: testNetwork.mode ?? network.mode ?? (network.recordHar ? 'record' : 'passthrough'),
+      har: testNetwork.har !== undefined
+        ? resolveHarPath(harDir, testNetwork.har)
+        : network.harPath ?? path.join(harDir, `${harName.replace(/[^a-zA-Z0-9]/g, '_')}.har`),
+      match: { ...network.replay, ...testNetwork.match },
+    };
+  }
+  
+  /**
+   * Run a test on a page of a context leased from the pool
+   *
+   * Matrix cells lease contexts of their own browser, with their device,
+   * viewport and locale. Browsers other than the configured one are launched
+   * the first time a cell needs them.
+   *
+   * Recording tests get a context of their own, closed afterwards to write
+   * the HAR file. Replayed tests fail when they make requests the HAR has no
+   * response for.
+   *
+   * The page's activity is buffered while the test runs; a failing test
+   * keeps it as its failure context, captured before the context is reset.
+   */
+  private async withPooledPage(
+    config: TestConfig,
+    run: (page: Page, activity: PageActivity) => Promise<PlaywrightTestResult>,
+    name: string = config.name
+  ): Promise<PlaywrightTestResult> {
+    if (!this.contextPool) {
+      throw new Error('Browser context pool is not initialized');
+    }
+    
+    const cell = config.matrixCell;
+    const browserType = cell?.browser ?? this.playwrightConfig.browser.type;
+    const contextOptions = cell ? this.getCellContextOptions(cell, browserType) : this.getContextOptions();
+    if (cell) {
+      logger.info(`Running ${config.name} on matrix cell ${cell.id}`);
+    }
+    
+    const network = this.getNetworkSettings(config, name);
+    const failureConfig = { ...DEFAULT_PLAYWRIGHT_CONFIG.failureContext, ...this.playwrightConfig.failureContext };
+    if (network.mode === 'record') {
+      contextOptions.recordHar = { path: network.har };
+    }
+    
+    const lease = await this.contextPool.acquire(browserType, contextOptions);
+    let testResult: PlaywrightTestResult;
+    try {
+      let replayer: HarReplayer | null = null;
+      if (network.mode === 'replay') {
+        replayer = await HarReplayer.load(network.har, network.match);
+        await replayer.install(lease.page);
+        logger.info(`Replaying network traffic of ${config.name} from ${network.har}`);
+      }
+      
+      const activity = new PageActivity(lease.page, failureConfig);
+      testResult = await run(lease.page, activity);
+      
+      if (replayer && replayer.unmatched.length > 0) {
+        testResult.status = 'failed';
+        testResult.unmatchedRequests = { har: network.har, requests: [...replayer.unmatched] };
+      }
+      
+      if (failureConfig.captureOnFailure && (testResult.status === 'failed' || testResult.status === 'timedout')) {
+        testResult.failureContext = await this.createFailureContext(lease.page, activity, config, {
+          ...(testResult.error && { error: testResult.error.message }),
+        });
+        testResult.attachments.push(...await this.saveFailureContext(testResult.failureContext, activity, name));
+      }
+    } finally {
+      await lease.release({ close: network.mode === 'record' });
+    }
+    
+    if (network.mode === 'record') {
+      testResult.attachments.push(await this.createHarAttachment(network.har));
+    }
+    return testResult;
+  }
+  
+  /**
+   * Attach a recorded HAR file to the test's result
+   */
+  private async createHarAttachment(harPath: string): Promise<PlaywrightAttachment> {
+    let size = 0;
+    try {
+      size = (await fs.stat(harPath)).size;
+    } catch {
+      logger.warn(`Recorded HAR file is missing: ${harPath}`);
+    }
+    
+    return { name: 'har', contentType: 'application/json', path: harPath, size };
   }
 
   /**
@@ -334,25 +626,37 @@ export class PlaywrightTestEngine extends TestEngine {
       };
     }
     
-    if (this.playwrightConfig.network.recordHar) {
-      options.recordHar = {
-        path: this.playwrightConfig.network.harPath || path.join(this.playwrightConfig.outputDir, 'network.har'),
-      };
-    }
-    
     return options;
   }
 
   /**
    * Execute a test file
+   *
+   * Existing spec files are run by the Playwright test runner and YAML test
+   * files test by test; otherwise the configured `steps` are executed
+   * on a page leased from the context pool.
    */
-  private async executeTestFile(config: TestConfig): Promise<PlaywrightTestResult> {
-    if (!this.page) {
-      throw new Error('Browser page is not initialized');
+  private async executeTestFile(config: TestConfig, result: TestResult): Promise<PlaywrightTestResult> {
+    if (await this.isSpecFileRun(config)) {
+      if (config.matrixCell) {
+        logger.warn(`Matrix cell ${config.matrixCell.id} is not applied to spec file ${config.filePath}; its Playwright config selects the browser`);
+      }
+      if (this.getNetworkSettings(config, config.name).mode !== 'passthrough') {
+        logger.warn(`Network mode is not applied to spec file ${config.filePath}; its Playwright config sets up the network`);
+      }
+      return this.executeSpecFile(config);
     }
     
-    // For now, we'll implement a basic test execution
-    // In a full implementation, this would load and execute the actual test file
+    if (config.parameters['steps'] === undefined && isTestFile(config.filePath)) {
+      return this.executeDeclarativeFile(config, result);
+    }
+    return this.withPooledPage(config, (page, activity) => this.executeStepTest(config, result, page, activity));
+  }
+
+  /**
+   * Execute the configured `steps` on a page
+   */
+  private async executeStepTest(config: TestConfig, result: TestResult, page: Page, activity: PageActivity): Promise<PlaywrightTestResult> {
     const testResult: PlaywrightTestResult = {
       file: config.filePath,
       title: config.name,
@@ -369,14 +673,14 @@ export class PlaywrightTestEngine extends TestEngine {
     try {
       // Navigate to the test URL if provided
       if (config.parameters['url']) {
-        await this.page.goto(config.parameters['url'], {
+        await page.goto(config.parameters['url'], {
           timeout: this.playwrightConfig.timeouts.navigation,
           waitUntil: 'networkidle',
         });
       }
       
       // Execute test steps based on configuration
-      await this.executeTestSteps(config, testResult);
+      await this.executeTestSteps(config, testResult, result, page, activity);
       
       testResult.status = 'passed';
       testResult.endTime = new Date();
@@ -396,100 +700,865 @@ export class PlaywrightTestEngine extends TestEngine {
   }
 
   /**
-   * Execute test steps
+   * Execute every test of a YAML test file, in file order
+   *
+   * Each test runs in its own context, with its own timeout, healing and
+   * network overrides; tests not matching `testNamePattern` are skipped.
    */
-  private async executeTestSteps(config: TestConfig, testResult: PlaywrightTestResult): Promise<void> {
-    if (!this.page) {
-      throw new Error('Browser page is not initialized');
+  private async executeDeclarativeFile(config: TestConfig, result: TestResult): Promise<PlaywrightTestResult> {
+    const startTime = new Date();
+    const testConfigs = await loadTestFile(config.filePath, config);
+    const pattern = this.playwrightConfig.testNamePattern ? new RegExp(this.playwrightConfig.testNamePattern) : null;
+    const tests: PlaywrightTestResult[] = [];
+    
+    for (const testConfig of testConfigs) {
+      const title = `${testConfig.parameters['suite']} › ${testConfig.name}`;
+      if (pattern && !pattern.test(title)) {
+        continue;
+      }
+      
+      logger.info(`Running test from ${config.filePath}: ${title}`);
+      const runConfig: TestConfig = {
+        ...testConfig,
+        ...(config.matrixCell && { matrixCell: config.matrixCell }),
+        parameters: {
+          ...testConfig.parameters,
+          network: { ...config.parameters['network'], ...testConfig.parameters['network'] },
+        },
+      };
+      const testResult = await this.withPooledPage(
+        runConfig,
+        (page, activity) => this.executeStepTest(runConfig, result, page, activity),
+        `${config.name} ${title}`
+      );
+      tests.push({ ...testResult, title });
+    }
+    
+    const failed = tests.find(test => test.status === 'failed' || test.status === 'timedout');
+    const endTime = new Date();
+    
+    return {
+      file: config.filePath,
+      title: config.name,
+      status: tests.length === 0 ? 'skipped' : failed ? 'failed' : 'passed',
+      duration: endTime.getTime() - startTime.getTime(),
+      startTime,
+      endTime,
+      steps: [],
+      attachments: [],
+      retryCount: 0,
+      annotations: [],
+      tests,
+      ...(failed?.error && { error: { ...failed.error, message: `${failed.title}: ${failed.error.message}` } }),
+    };
+  }
+
+  /**
+   * Check whether a test runs a spec file through the Playwright test runner
+   *
+   * Configs with `steps` keep running them directly, even when `filePath`
+   * names the spec they were exported to.
+   */
+  private async isSpecFileRun(config: TestConfig): Promise<boolean> {
+    if (config.parameters['steps'] !== undefined || !isPlaywrightSpecFile(config.filePath)) {
+      return false;
+    }
+    
+    try {
+      return (await fs.stat(config.filePath)).isFile();
+    } catch {
+      return false;
     }
+  }
+
+  /**
+   * Run a spec file through the Playwright test runner
+   */
+  private async executeSpecFile(config: TestConfig): Promise<PlaywrightTestResult> {
+    const runnerConfig = { ...DEFAULT_PLAYWRIGHT_CONFIG.specRunner, ...this.playwrightConfig.specRunner };
+    
+    const { report } = await this.specRunner.run({
+      filePath: config.filePath,
+      ...(runnerConfig.command && { command: runnerConfig.command }),
+      ...(runnerConfig.configFile && { configFile: runnerConfig.configFile }),
+      ...(runnerConfig.cwd && { cwd: runnerConfig.cwd }),
+      ...(runnerConfig.project && { project: runnerConfig.project }),
+      ...(this.playwrightConfig.testNamePattern && { grep: this.playwrightConfig.testNamePattern }),
+      retries: this.playwrightConfig.retries.maxRetries,
+      workers: this.playwrightConfig.workers,
+      headed: !this.playwrightConfig.browser.headless,
+      outputDir: path.join(this.playwrightConfig.outputDir, 'test-results'),
+      timeout: runnerConfig.timeout,
+    });
     
-    // Basic test step execution
-    const steps = config.parameters['steps'] || [];
+    return convertSpecReport(report, config.filePath, config.name);
+  }
+
+  /**
+   * Execute test steps
+   */
+  private async executeTestSteps(
+    config: TestConfig,
+    testResult: PlaywrightTestResult,
+    result: TestResult,
+    page: Page,
+    activity: PageActivity
+  ): Promise<void> {
+    // Generated test case steps run as they are
+    const steps = normalizePlaywrightSteps(config.parameters['steps'] || []);
     
+    const run: StepRun = {
+      config,
+      testResult,
+      result,
+      page,
+      activity,
+      scope: this.createExpressionScope(config),
+      healedSelectors: new Map(),
+      failedVerifications: [],
+      deadline: Date.now() + config.timeout,
+      flows: { ...Object.fromEntries(this.flows), ...config.parameters['flows'] },
+      flowStack: [],
+      baselineTargets: [],
+    };
+    
+    await this.runSteps(steps, run, '');
+    
+    if (run.failedVerifications.length > 0) {
+      throw new PlaywrightAssertionError(
+        `${run.failedVerifications.length} verification step(s) failed:\n${run.failedVerifications.join('\n')}`
+      );
+    }
+    
+    await this.saveElementBaselines(run.page, run.baselineTargets, config);
+  }
+
+  /**
+   * Run a list of steps, prefixing the titles of the results they record
+   */
+  private async runSteps(steps: PlaywrightStep[], run: StepRun, titlePrefix: string): Promise<void> {
     for (const step of steps) {
-      const stepStartTime = new Date();
+      if (isControlStep(step)) {
+        await this.runControlStep(step, run, titlePrefix);
+      } else {
+        await this.runStep(step, run, titlePrefix);
+      }
+    }
+  }
+
+  /**
+   * Run a step acting on the page
+   */
+  private async runStep(originalStep: PlaywrightStep, run: StepRun, titlePrefix: string): Promise<void> {
+    const stepStartTime = new Date();
+    const remaining = run.deadline - stepStartTime.getTime();
+    if (remaining <= 0) {
+      throw new Error(`Test timeout of ${run.config.timeout}ms exceeded`);
+    }
+    
+    let step = originalStep;
+    const resolved: Record<string, string> = {};
+    let captured: Record<string, string> = {};
+    
+    try {
+      const resolvedStep = resolveValueExpressions(originalStep, run.scope, resolved);
+      
+      // A timeout of 0 leaves the step unlimited, so only the test's budget applies
+      const stepTimeout = resolvedStep.timeout ?? this.defaultStepTimeout(resolvedStep);
+      const healedSelector = resolvedStep.selector !== undefined ? run.healedSelectors.get(resolvedStep.selector) : undefined;
+      step = {
+        ...resolvedStep,
+        ...(healedSelector && { selector: healedSelector }),
+        timeout: stepTimeout > 0 ? Math.min(stepTimeout, remaining) : remaining,
+      };
+      
+      const readCaptures = startStepCapture(run.page, step, step.timeout!);
+      const healing = await this.executeStepWithHealing(run.page, run.activity, step, run.config, run.result);
+      if (this.visualBaselines && this.playwrightConfig.screenshots.elementBaselines &&
+          HEALABLE_STEP_TYPES.has(step.type) && typeof resolvedStep.selector === 'string') {
+        run.baselineTargets.push({
+          selector: resolvedStep.selector,
+          locator: healing?.healedSelector ?? step.selector!,
+          url: run.page.url(),
+        });
+      }
+      captured = await readCaptures();
+      Object.assign(run.scope.vars, captured);
+      
+      const stepEndTime = new Date();
+      const playwrightStep: PlaywrightTestStep = {
+        title: `${titlePrefix}${step.name || 'Test Step'}`,
+        category: 'test.step',
+        duration: stepEndTime.getTime() - stepStartTime.getTime(),
+        startTime: stepStartTime,
+        endTime: stepEndTime,
+        ...(healing && { healing }),
+        ...(Object.keys(resolved).length > 0 && { resolved }),
+        ...(Object.keys(captured).length > 0 && { captured }),
+      };
+      
+      if (healing) {
+        run.healedSelectors.set(healing.originalSelector, healing.healedSelector);
+        run.testResult.annotations.push({
+          type: 'healed',
+          description: `${playwrightStep.title}: ${healing.originalSelector} -> ${healing.healedSelector} (${healing.strategy})`,
+        });
+      }
+      
+      run.testResult.steps.push(playwrightStep);
+      
+    } catch (error) {
+      const stepEndTime = new Date();
+      const playwrightStep: PlaywrightTestStep = {
+        title: `${titlePrefix}${step.name || 'Test Step'}`,
+        category: 'test.step',
+        duration: stepEndTime.getTime() - stepStartTime.getTime(),
+        startTime: stepStartTime,
+        endTime: stepEndTime,
+        error: {
+          message: (error as Error).message,
+          ...((error as Error).stack && { stack: (error as Error).stack }),
+        },
+        ...(Object.keys(resolved).length > 0 && { resolved }),
+      };
+      
+      run.testResult.steps.push(playwrightStep);
+      
+      if (step.type === 'verify' && error instanceof PlaywrightAssertionError) {
+        run.failedVerifications.push(`${playwrightStep.title}: ${error.message}`);
+        run.testResult.annotations.push({ type: 'verification', description: run.failedVerifications.at(-1)! });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run an `if`, `forEach`, `retryUntil` or `flow` step
+   *
+   * The control step is recorded ahead of its nested steps and spans the
+   * time they took; nested steps are titled `<control step> › <step>`.
+   */
+  private async runControlStep(controlStep: PlaywrightStep, run: StepRun, titlePrefix: string): Promise<void> {
+    const startTime = new Date();
+    if (run.deadline <= startTime.getTime()) {
+      throw new Error(`Test timeout of ${run.config.timeout}ms exceeded`);
+    }
+    
+    const playwrightStep: PlaywrightTestStep = {
+      title: `${titlePrefix}${controlStep.name || this.describeControlStep(controlStep)}`,
+      category: 'test.step',
+      duration: 0,
+      startTime,
+      endTime: startTime,
+    };
+    run.testResult.steps.push(playwrightStep);
+    const resolved: Record<string, string> = {};
+    
+    try {
+      // Nested steps resolve their own expressions when they run
+      const { steps, else: elseSteps, items, params, ...fields } = controlStep;
+      const step: PlaywrightStep = { ...resolveValueExpressions(fields, run.scope, resolved), ...(steps && { steps }) };
+      
+      switch (step.type) {
+        case 'if': {
+          const outcome = await this.checkCondition(step, run);
+          playwrightStep.condition = outcome.passed;
+          await this.runSteps((outcome.passed ? steps : elseSteps) ?? [], run, `${playwrightStep.title} › `);
+          break;
+        }
+        case 'forEach':
+          await this.runForEach(step, items, run, playwrightStep.title, resolved);
+          break;
+        case 'retryUntil':
+          playwrightStep.attempts = await this.runRetryUntil(step, run, playwrightStep.title);
+          break;
+        case 'flow':
+          await this.runFlow(step, params, run, playwrightStep.title, resolved);
+          break;
+        default:
+          throw new Error(`Unsupported control step type: ${step.type}`);
+      }
+    } catch (error) {
+      playwrightStep.error = {
+        message: (error as Error).message,
+        ...((error as Error).stack && { stack: (error as Error).stack }),
+      };
+      throw error;
+    } finally {
+      playwrightStep.endTime = new Date();
+      playwrightStep.duration = playwrightStep.endTime.getTime() - startTime.getTime();
+      if (Object.keys(resolved).length > 0) {
+        playwrightStep.resolved = resolved;
+      }
+    }
+  }
+
+  /**
+   * Default title of a control step without a name
+   */
+  private describeControlStep(step: PlaywrightStep): string {
+    return step.type === 'flow' ? `flow ${step.flow}` : step.type;
+  }
+
+  /**
+   * Check the condition of an `if` or `retryUntil` step
+   *
+   * Conditions are checked once unless the step sets a timeout to wait for them.
+   */
+  private async checkCondition(step: PlaywrightStep, run: StepRun): Promise<AssertionOutcome> {
+    const remaining = Math.max(run.deadline - Date.now(), 0);
+    return checkStepCondition(run.page, step, Math.min(step.timeout ?? 0, remaining));
+  }
+
+  /**
+   * Run the steps of a `forEach` step once per item
+   *
+   * The item is stored as `vars.<as>` and its 0-based position as
+   * `vars.index`; both are restored afterwards, so loops can be nested.
+   * Without `items`, the items are selectors of the elements matching the
+   * step's selector.
+   */
+  private async runForEach(
+    step: PlaywrightStep,
+    items: PlaywrightStep['items'],
+    run: StepRun,
+    title: string,
+    resolved: Record<string, string>
+  ): Promise<void> {
+    let values: unknown;
+    if (items !== undefined) {
+      values = resolveExpressionValue(items, run.scope, resolved);
+    } else {
+      const selector = requireStepField(step, 'selector');
+      const count = await run.page.locator(selector).count();
+      values = Array.from({ length: count }, (_, index) => `${selector} >> nth=${index}`);
+    }
+    if (!Array.isArray(values)) {
+      throw new Error(`Step "${step.name || step.type}" requires items to be a list, received ${JSON.stringify(values)}`);
+    }
+    
+    const vars = run.scope.vars;
+    const name = step.as ?? 'item';
+    const previous = { [name]: vars[name], index: vars['index'] };
+    
+    try {
+      for (const [index, value] of values.entries()) {
+        vars[name] = value;
+        vars['index'] = index;
+        await this.runSteps(step.steps ?? [], run, `${title} [${index + 1}] › `);
+      }
+    } finally {
+      for (const [key, value] of Object.entries(previous)) {
+        if (value === undefined) {
+          delete vars[key];
+        } else {
+          vars[key] = value;
+        }
+      }
+    }
+  }
+
+  /**
+   * Run the steps of a `retryUntil` step until its condition holds
+   *
+   * A run fails when one of its steps fails or the condition does not hold
+   * afterwards. Failed verifications of runs that are retried are dropped.
+   * Returns the number of runs it took.
+   */
+  private async runRetryUntil(step: PlaywrightStep, run: StepRun, title: string): Promise<number> {
+    const attempts = Math.max(step.attempts ?? 3, 1);
+    const verificationCount = run.failedVerifications.length;
+    const annotationCount = run.testResult.annotations.length;
+    let failure: Error = new Error(`Step "${step.name || step.type}" did not run`);
+    
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      if (attempt > 1) {
+        run.failedVerifications.length = verificationCount;
+        run.testResult.annotations = [
+          ...run.testResult.annotations.slice(0, annotationCount),
+          ...run.testResult.annotations.slice(annotationCount).filter(annotation => annotation.type !== 'verification'),
+        ];
+        if (step.interval) {
+          await run.page.waitForTimeout(step.interval);
+        }
+      }
       
       try {
-        await this.executeStep(step);
+        await this.runSteps(step.steps ?? [], run, `${title} [attempt ${attempt}] › `);
+        const outcome = await this.checkCondition(step, run);
+        if (outcome.passed) {
+          return attempt;
+        }
+        failure = new PlaywrightAssertionError(`Condition not met after ${attempt} attempt(s): ${outcome.message}`);
+      } catch (error) {
+        failure = error as Error;
+      }
+      
+      if (run.deadline <= Date.now()) {
+        break;
+      }
+    }
+    
+    throw failure;
+  }
+
+  /**
+   * Run the steps of the sub-flow a `flow` step includes
+   *
+   * The flow's steps read the step's `params` as `${params.<name>}`. Values
+   * they capture stay available to the steps after the flow.
+   */
+  private async runFlow(
+    step: PlaywrightStep,
+    params: PlaywrightStep['params'],
+    run: StepRun,
+    title: string,
+    resolved: Record<string, string>
+  ): Promise<void> {
+    const name = requireStepField(step, 'flow');
+    const flow = run.flows[name];
+    if (!flow) {
+      throw new Error(`Unknown flow: ${name}`);
+    }
+    if (run.flowStack.includes(name)) {
+      throw new Error(`Flow "${name}" includes itself: ${[...run.flowStack, name].join(' -> ')}`);
+    }
+    
+    const values = Object.fromEntries(
+      Object.entries(params ?? {}).map(([key, value]) => [key, resolveExpressionValue(value, run.scope, resolved)])
+    );
+    const missing = (flow.params ?? []).filter(param => values[param] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Flow "${name}" requires parameter(s): ${missing.join(', ')}`);
+    }
+    
+    const previous = run.scope.params;
+    run.scope.params = values;
+    run.flowStack.push(name);
+    try {
+      await this.runSteps(normalizePlaywrightSteps(flow.steps), run, `${title} › `);
+    } finally {
+      run.scope.params = previous;
+      run.flowStack.pop();
+    }
+  }
+
+  /**
+   * Build the values a test's step expressions read
+   */
+  private createExpressionScope(config: TestConfig): ExpressionScope {
+    return {
+      env: { ...process.env, ...this.environments[config.environment]?.variables },
+      data: config.parameters['data'] ?? {},
+      vars: {},
+      params: {},
+    };
+  }
+
+  /**
+   * Execute a step, healing its selector and retrying when it cannot be located
+   *
+   * Returns the applied selector patch when the step only passed after healing.
+   */
+  private async executeStepWithHealing(
+    page: Page,
+    activity: PageActivity,
+    step: any,
+    config: TestConfig,
+    result: TestResult
+  ): Promise<PlaywrightStepHealing | undefined> {
+    try {
+      await this.executeStep(page, step);
+      return undefined;
+    } catch (error) {
+      if (!this.canHealStep(step, config, error as Error)) {
+        throw error;
+      }
+      
+      let lastError = error as Error;
+      let currentSelector: string = step.selector;
+      const stepAttempts: HealingAttempt[] = [];
+      
+      while (stepAttempts.length < config.healingConfig.maxAttempts) {
+        const failure = await this.createStepFailure(page, activity, step, currentSelector, config, result, lastError, stepAttempts);
         
-        const stepEndTime = new Date();
-        const playwrightStep: PlaywrightTestStep = {
-          title: step.name || 'Test Step',
-          category: 'test.step',
-          duration: stepEndTime.getTime() - stepStartTime.getTime(),
-          startTime: stepStartTime,
-          endTime: stepEndTime,
+        locatorProbe.attachPage(failure.testId, page);
+        let healingResult;
+        try {
+          healingResult = await this.healingEngine!.heal(failure, this.createHealingContext(config, stepAttempts));
+        } finally {
+          locatorProbe.detachPage(failure.testId);
+        }
+        
+        const attempt: HealingAttempt = {
+          id: healingResult.id,
+          attemptNumber: result.healingAttempts.length + 1,
+          strategy: healingResult.metadata?.['strategy'] || 'unknown',
+          result: healingResult,
+          timestamp: new Date(),
+          failure: { ...failure, previousAttempts: [] },
         };
+        stepAttempts.push(attempt);
+        result.healingAttempts.push(attempt);
+        
+        const patch = this.findSelectorPatch(healingResult.actions);
+        if (healingResult.success && patch && healingResult.applied === false) {
+          logger.info(`Inline healing suggested a selector without applying it for step: ${step.name || step.type}`, {
+            selector: currentSelector,
+            suggestedSelector: patch,
+            mode: healingResult.metadata?.['healingMode'],
+            confidence: healingResult.confidence,
+          });
+          break;
+        }
         
-        testResult.steps.push(playwrightStep);
+        const applicable = healingResult.applied ?? healingResult.confidence >= config.healingConfig.confidenceThreshold;
+        if (!healingResult.success || !patch || !applicable) {
+          logger.warn(`Inline healing did not produce a usable selector for step: ${step.name || step.type}`, {
+            selector: currentSelector,
+            confidence: healingResult.confidence,
+            message: healingResult.message,
+          });
+          break;
+        }
         
-      } catch (error) {
-        const stepEndTime = new Date();
-        const playwrightStep: PlaywrightTestStep = {
-          title: step.name || 'Test Step',
-          category: 'test.step',
-          duration: stepEndTime.getTime() - stepStartTime.getTime(),
-          startTime: stepStartTime,
-          endTime: stepEndTime,
-          error: {
-            message: (error as Error).message,
-            ...((error as Error).stack && { stack: (error as Error).stack }),
-          },
-        };
+        currentSelector = patch;
         
-        testResult.steps.push(playwrightStep);
-        throw error;
+        try {
+          await this.executeStep(page, { ...step, selector: currentSelector });
+
+          // Mark the verified heal so it can be proposed as a source patch
+          healingResult.metadata = {
+            ...healingResult.metadata,
+            selectorPatch: { originalSelector: step.selector, healedSelector: currentSelector },
+          };
+
+          logger.info(`Step healed inline: ${step.selector} -> ${currentSelector}`, {
+            strategy: attempt.strategy,
+            confidence: healingResult.confidence,
+          });
+          
+          return {
+            originalSelector: step.selector,
+            healedSelector: currentSelector,
+            strategy: attempt.strategy,
+            confidence: healingResult.confidence,
+            attempts: stepAttempts.length,
+          };
+        } catch (retryError) {
+          lastError = retryError as Error;
+        }
       }
+      
+      throw lastError;
     }
   }
 
   /**
-   * Execute a single test step
+   * Crop the elements a passing run acted on and save them as visual baselines
+   *
+   * One screenshot is taken of the page the run ended on; elements on pages
+   * the run navigated away from, or no longer on the page, are skipped.
    */
-  private async executeStep(step: any): Promise<void> {
-    if (!this.page) {
-      throw new Error('Browser page is not initialized');
+  private async saveElementBaselines(page: Page, targets: VisualBaselineTarget[], config: TestConfig): Promise<void> {
+    const url = page.url();
+    const onPage = new Map(targets.filter(target => target.url === url).map(target => [target.selector, target]));
+    if (!this.visualBaselines || onPage.size === 0) {
+      return;
+    }
+    
+    let screenshot: Buffer;
+    try {
+      screenshot = await page.screenshot({ animations: this.playwrightConfig.screenshots.animations });
+    } catch (error) {
+      logger.warn('Failed to capture the screenshot for visual baselines', error);
+      return;
+    }
+    
+    for (const target of onPage.values()) {
+      try {
+        const locator = page.locator(target.locator);
+        if (await locator.count() === 0) {
+          continue;
+        }
+        const boundingBox = await locator.first().boundingBox({ timeout: this.playwrightConfig.timeouts.action });
+        if (boundingBox) {
+          await this.visualBaselines.record({ selector: target.selector, url, testId: config.name, screenshot, boundingBox });
+        }
+      } catch (error) {
+        logger.warn(`Failed to save visual baseline for selector: ${target.selector}`, error);
+      }
+    }
+  }
+
+  /**
+   * Check whether a failed step qualifies for inline healing
+   */
+  private canHealStep(step: any, config: TestConfig, error: Error): boolean {
+    return this.healingEngine !== null &&
+      this.playwrightConfig.inlineHealing &&
+      config.healingConfig.enabled &&
+      config.healingConfig.mode !== 'off' &&
+      config.healingConfig.maxAttempts > 0 &&
+      HEALABLE_STEP_TYPES.has(step.type) &&
+      typeof step.selector === 'string' &&
+      HEALABLE_FAILURE_TYPES.includes(this.determineFailureType(error.message));
+  }
+
+  /**
+   * Build a test failure for a step, including a snapshot of the live page
+   */
+  private async createStepFailure(
+    page: Page,
+    activity: PageActivity,
+    step: any,
+    selector: string,
+    config: TestConfig,
+    result: TestResult,
+    error: Error,
+    previousAttempts: HealingAttempt[]
+  ): Promise<TestFailure> {
+    return {
+      id: `${result.id}-step-${result.healingAttempts.length + 1}`,
+      testId: result.id,
+      attemptKey: `${config.name} › ${step.name || step.type} › ${step.selector}`,
+      type: this.determineFailureType(error.message),
+      message: `Step "${step.name || step.type}" failed to locate element: ${selector}`,
+      ...(error.stack && { stack: error.stack }),
+      timestamp: new Date(),
+      context: await this.createFailureContext(page, activity, config, {
+        selector,
+        stepType: step.type,
+        stepName: step.name,
+        error: error.message,
+      }, true),
+      previousAttempts,
+    };
+  }
+
+  /**
+   * Capture the page's state, buffered activity and environment for a failure
+   *
+   * Healing needs the DOM to search for elements, so `withDom` includes the
+   * snapshot even when failure snapshots are turned off.
+   */
+  private async createFailureContext(
+    page: Page,
+    activity: PageActivity,
+    config: TestConfig,
+    custom: Record<string, any>,
+    withDom: boolean = false
+  ): Promise<FailureContext> {
+    const failureConfig = { ...DEFAULT_PLAYWRIGHT_CONFIG.failureContext, ...this.playwrightConfig.failureContext };
+    let domSnapshot: string | undefined;
+    let title = '';
+    
+    try {
+      if (withDom || failureConfig.domSnapshot) {
+        domSnapshot = await page.content();
+      }
+      title = await page.title();
+    } catch (snapshotError) {
+      logger.warn('Failed to capture DOM snapshot of failing page:', snapshotError);
     }
     
+    const viewport = page.viewportSize() ?? this.playwrightConfig.viewport;
+    const conditions = { ...DEFAULT_PLAYWRIGHT_CONFIG.network.conditions!, ...this.playwrightConfig.network.conditions };
+    
+    return {
+      testConfig: config,
+      browserState: {
+        url: page.url(),
+        title,
+        viewport: { width: viewport.width, height: viewport.height },
+        ...(domSnapshot !== undefined && { domSnapshot }),
+        consoleLogs: activity.getConsoleLogs(),
+      },
+      networkState: activity.getNetworkState(conditions),
+      environment: {
+        os: os.platform(),
+        nodeVersion: process.version,
+        environment: config.environment,
+        availableMemory: os.freemem() / 1024 / 1024,
+        cpuCount: os.cpus().length,
+      },
+      custom,
+    };
+  }
+
+  /**
+   * Save a failure's DOM snapshot, console messages and requests as files
+   */
+  private async saveFailureContext(context: FailureContext, activity: PageActivity, name: string): Promise<PlaywrightAttachment[]> {
+    const dir = path.join(this.playwrightConfig.outputDir, 'failures', `${name.replace(/[^a-zA-Z0-9]/g, '_')}-${Date.now()}`);
+    const files = [
+      { name: 'console', file: 'console.log', contentType: 'text/plain', content: activity.formatConsoleLogs() },
+      { name: 'network', file: 'network.json', contentType: 'application/json', content: JSON.stringify(activity.getRequests(), null, 2) },
+      ...(context.browserState?.domSnapshot !== undefined
+        ? [{ name: 'dom-snapshot', file: 'dom.html', contentType: 'text/html', content: context.browserState.domSnapshot }]
+        : []),
+    ];
+    
+    const attachments: PlaywrightAttachment[] = [];
+    try {
+      await fs.mkdir(dir, { recursive: true });
+      for (const { name: attachmentName, file, contentType, content } of files) {
+        const filePath = path.join(dir, file);
+        await fs.writeFile(filePath, content);
+        attachments.push({ name: attachmentName, contentType, path: filePath, size: Buffer.byteLength(content) });
+      }
+    } catch (error) {
+      logger.warn(`Failed to save failure context of ${name}:`, error);
+    }
+    return attachments;
+  }
+
+  /**
+   * Build the healing context for an inline healing attempt
+   */
+  private createHealingContext(config: TestConfig, previousAttempts: HealingAttempt[]): HealingContext {
+    const memoryUsage = process.memoryUsage();
+    
+    return {
+      availableStrategies: config.healingConfig.strategies,
+      previousAttempts,
+      maxAttempts: config.healingConfig.maxAttempts,
+      systemState: {
+        load: getSystemLoad(),
+        resources: {
+          memory: memoryUsage.heapUsed / 1024 / 1024,
+          cpu: 0,
+          disk: 0,
+        },
+        activeTests: 1,
+        queueLength: 0,
+      },
+      userPreferences: {
+        preferredStrategies: config.healingConfig.strategies,
+        riskTolerance: 'medium',
+        notifications: {
+          onHealingAttempt: false,
+          onHealingSuccess: false,
+          onHealingFailure: false,
+        },
+      },
+    };
+  }
+
+  /**
+   * Find the selector produced by the winning update_selector action
+   */
+  private findSelectorPatch(actions: HealingAction[]): string | undefined {
+    const action = [...actions].reverse().find(candidate =>
+      candidate.type === 'update_selector' &&
+      candidate.result === 'success' &&
+      typeof candidate.parameters['newSelector'] === 'string'
+    );
+    
+    return action?.parameters['newSelector'];
+  }
+
+  /**
+   * Timeout of a step that does not set its own
+   */
+  private defaultStepTimeout(step: PlaywrightStep): number {
+    const timeouts = this.playwrightConfig.timeouts;
+    switch (step.type) {
+      case 'navigate':
+        return timeouts.navigation;
+      case 'verify':
+      case 'assert':
+        return timeouts.expect;
+      default:
+        return timeouts.action;
+    }
+  }
+
+  /**
+   * Execute a single test step
+   */
+  private async executeStep(page: Page, step: PlaywrightStep): Promise<void> {
+    const timeout = step.timeout ?? this.defaultStepTimeout(step);
+    
     switch (step.type) {
       case 'click':
-        await this.page.click(step.selector, { timeout: this.playwrightConfig.timeouts.action });
+        await page.click(requireStepField(step, 'selector'), { timeout });
         break;
       case 'fill':
-        await this.page.fill(step.selector, step.value, { timeout: this.playwrightConfig.timeouts.action });
+        await page.fill(requireStepField(step, 'selector'), step.value ?? '', { timeout });
+        break;
+      case 'type':
+        await page.locator(requireStepField(step, 'selector')).pressSequentially(step.value ?? '', {
+          timeout,
+          ...(step.delay !== undefined && { delay: step.delay }),
+        });
         break;
       case 'select':
-        await this.page.selectOption(step.selector, step.value, { timeout: this.playwrightConfig.timeouts.action });
+        await page.selectOption(requireStepField(step, 'selector'), step.value ?? null, { timeout });
         break;
       case 'wait':
-        await this.page.waitForSelector(step.selector, { timeout: this.playwrightConfig.timeouts.action });
+        if (step.selector) {
+          await page.waitForSelector(step.selector, { timeout });
+        } else {
+          await page.waitForTimeout(requireStepField(step, 'duration'));
+        }
         break;
       case 'navigate':
-        await this.page.goto(step.url, { timeout: this.playwrightConfig.timeouts.navigation });
+        await page.goto(requireStepField(step, 'url'), { timeout });
+        break;
+      case 'hover':
+        await page.hover(requireStepField(step, 'selector'), { timeout });
+        break;
+      case 'scroll':
+        if (step.selector) {
+          await page.locator(step.selector).scrollIntoViewIfNeeded({ timeout });
+        } else {
+          await page.mouse.wheel(step.x ?? 0, step.y ?? 0);
+        }
+        break;
+      case 'drag_drop':
+        await page.dragAndDrop(requireStepField(step, 'selector'), requireStepField(step, 'target'), { timeout });
+        break;
+      case 'upload_file':
+        await page.setInputFiles(requireStepField(step, 'selector'), requireStepField(step, 'files'), { timeout });
+        break;
+      case 'verify':
+      case 'assert':
+        await assertStep(page, step, timeout);
         break;
       case 'screenshot':
-        await this.takeScreenshot(step.name);
+        await this.takeScreenshot(page, step.name);
+        return;
+      case 'custom': {
+        const name = requireStepField(step, 'action');
+        const action = this.customActions.get(name);
+        if (!action) {
+          throw new Error(`Unknown custom action: ${name}`);
+        }
+        await action(page, step);
         break;
+      }
       default:
-        throw new Error(`Unsupported step type: ${step.type}`);
+        throw new Error(`Unsupported step type: ${(step as PlaywrightStep).type}`);
+    }
+    
+    if (step.screenshot) {
+      await this.takeScreenshot(page, step.name);
     }
   }
 
   /**
    * Take a screenshot
    */
-  private async takeScreenshot(name?: string): Promise<void> {
-    if (!this.page) {
-      throw new Error('Browser page is not initialized');
-    }
-    
+  private async takeScreenshot(page: Page, name?: string): Promise<void> {
     const screenshotPath = path.join(
       this.playwrightConfig.outputDir,
       'screenshots',
       `${name || 'screenshot'}-${Date.now()}.png`
     );
     
-    await this.page.screenshot({
+    await page.screenshot({
       path: screenshotPath,
       fullPage: this.playwrightConfig.screenshots.mode === 'full-page',
     });
@@ -504,21 +1573,119 @@ export class PlaywrightTestEngine extends TestEngine {
     playwrightResult: PlaywrightTestResult,
     baseResult: TestResult
   ): Promise<TestResult> {
+    const metrics = await this.collectTestMetrics();
+    const healedSteps = playwrightResult.steps.filter(step => step.healing).length;
+    metrics.custom['healedSteps'] = healedSteps;
+    
+    let errors: TestError[] = playwrightResult.error ? [this.createTestErrorFromPlaywright(playwrightResult.error)] : [];
+    if (playwrightResult.tests) {
+      const tests = playwrightResult.tests;
+      metrics.custom['totalTests'] = tests.length;
+      metrics.custom['passedTests'] = tests.filter(test => test.status === 'passed').length;
+      metrics.custom['failedTests'] = tests.filter(test => test.status === 'failed' || test.status === 'timedout').length;
+      metrics.custom['skippedTests'] = tests.filter(test => test.status === 'skipped').length;
+      metrics.custom['flakyTests'] = tests.filter(test => test.status === 'passed' && test.retryCount > 0).length;
+      metrics.custom['retries'] = playwrightResult.retryCount;
+      
+      // One error per failed test; the file-level error only when no test failed
+      const testErrors = tests.filter(test => test.error).map(test => ({
+        ...this.createTestErrorFromPlaywright(test.error!),
+        context: { location: test.error!.location, test: test.title, retries: test.retryCount },
+      }));
+      if (testErrors.length > 0) {
+        errors = testErrors;
+      }
+    }
+    
+    // One error per request a replayed test made without a recorded response
+    for (const test of playwrightResult.tests ?? [playwrightResult]) {
+      const unmatched = test.unmatchedRequests;
+      for (const request of unmatched?.requests ?? []) {
+        errors.push({
+          message: `No recorded response in ${unmatched!.har} for ${request}`,
+          type: 'network_error',
+          timestamp: new Date(),
+          context: { request, har: unmatched!.har, ...(playwrightResult.tests && { test: test.title }) },
+        });
+      }
+    }
+    
+    // Of a test file, the context of its first failing test
+    const failureContext = (playwrightResult.tests ?? [playwrightResult]).find(test => test.failureContext)?.failureContext;
+    
     const result: TestResult = {
       ...baseResult,
+      ...(failureContext && { failureContext }),
       status: this.mapPlaywrightStatus(playwrightResult.status),
       endTime: playwrightResult.endTime,
       duration: playwrightResult.duration,
       output: this.formatTestOutput(playwrightResult),
-      errors: playwrightResult.error ? [this.createTestErrorFromPlaywright(playwrightResult.error)] : [],
-      metrics: await this.collectTestMetrics(),
-      healingAttempts: [],
-      artifacts: [],
+      errors,
+      metrics,
+      healingAttempts: baseResult.healingAttempts,
+      artifacts: await this.convertAttachments(playwrightResult),
     };
     
     return result;
   }
 
+  /**
+   * Convert attachments saved to disk by the Playwright test runner into artifacts
+   */
+  private async convertAttachments(playwrightResult: PlaywrightTestResult): Promise<TestArtifact[]> {
+    const artifacts: TestArtifact[] = [];
+    
+    for (const test of playwrightResult.tests ?? [playwrightResult]) {
+      for (const attachment of test.attachments) {
+        if (!attachment.path) {
+          continue;
+        }
+        
+        let size = attachment.size;
+        try {
+          size = (await fs.stat(attachment.path)).size;
+        } catch {
+          logger.debug(`Attachment file is missing: ${attachment.path}`);
+        }
+        
+        artifacts.push({
+          type: this.getAttachmentArtifactType(attachment.name, attachment.contentType),
+          path: attachment.path,
+          size,
+          metadata: {
+            name: attachment.name,
+            contentType: attachment.contentType,
+            test: test.title,
+          },
+        });
+      }
+    }
+    
+    return artifacts;
+  }
+
+  private getAttachmentArtifactType(name: string, contentType: string): TestArtifact['type'] {
+    if (contentType.startsWith('image/')) {
+      return 'screenshot';
+    }
+    if (contentType.startsWith('video/')) {
+      return 'video';
+    }
+    if (name === 'trace') {
+      return 'trace';
+    }
+    if (name === 'har') {
+      return 'har';
+    }
+    if (name === 'dom-snapshot') {
+      return 'dom';
+    }
+    if (name === 'console' || name === 'network') {
+      return 'log';
+    }
+    return contentType.startsWith('text/') ? 'log' : 'report';
+  }
+
   /**
    * Map Playwright status to our TestStatus
    */
@@ -546,10 +1713,40 @@ export class PlaywrightTestEngine extends TestEngine {
     output += `Status: ${playwrightResult.status}\n`;
     output += `Duration: ${playwrightResult.duration}ms\n`;
     
+    if (playwrightResult.tests && playwrightResult.tests.length > 0) {
+      output += '\nTests:\n';
+      playwrightResult.tests.forEach((test, index) => {
+        const retries = test.retryCount > 0 ? `, ${test.retryCount} ${test.retryCount === 1 ? 'retry' : 'retries'}` : '';
+        output += `  ${index + 1}. [${test.status}] ${test.title} (${test.duration}ms${retries})\n`;
+        test.steps.forEach(step => {
+          output += `     - ${step.title} (${step.duration}ms)\n`;
+        });
+        if (test.error) {
+          output += `     Error: ${test.error.message}\n`;
+        }
+      });
+    }
+    
     if (playwrightResult.steps.length > 0) {
       output += '\nSteps:\n';
       playwrightResult.steps.forEach((step, index) => {
         output += `  ${index + 1}. ${step.title} (${step.duration}ms)\n`;
+        Object.entries(step.resolved ?? {}).forEach(([expression, value]) => {
+          output += `     Resolved: ${expression} = ${JSON.stringify(value)}\n`;
+        });
+        Object.entries(step.captured ?? {}).forEach(([name, value]) => {
+          output += `     Captured: vars.${name} = ${JSON.stringify(value)}\n`;
+        });
+        if (step.condition !== undefined) {
+          output += `     Condition: ${step.condition ? 'met' : 'not met'}\n`;
+        }
+        if (step.attempts !== undefined) {
+          output += `     Attempts: ${step.attempts}\n`;
+        }
+        if (step.healing) {
+          output += `     Healed: ${step.healing.originalSelector} -> ${step.healing.healedSelector} ` +
+            `(${step.healing.strategy}, ${(step.healing.confidence * 100).toFixed(1)}% confidence)\n`;
+        }
         if (step.error) {
           output += `     Error: ${step.error.message}\n`;
         }
@@ -597,7 +1794,8 @@ export class PlaywrightTestEngine extends TestEngine {
   /**
    * Determine failure type from error message
    */
-  private determineFailureType(message: string): FailureType {
+  private determineFailureType(rawMessage: string): FailureType {
+    const message = rawMessage.toLowerCase();
     if (message.includes('timeout')) {
       return 'timeout';
     } else if (message.includes('not found') || message.includes('selector')) {
@@ -632,54 +1830,55 @@ export class PlaywrightTestEngine extends TestEngine {
    * Collect test artifacts
    */
   private async collectArtifacts(result: TestResult): Promise<void> {
-    this.artifacts = [];
+    const artifacts: TestArtifact[] = [];
     
     // Collect screenshots
     if (this.playwrightConfig.screenshots.onSuccess && result.status === 'passed') {
-      await this.collectScreenshots();
+      artifacts.push(...await this.collectScreenshots());
     }
     
     // Collect videos
     if (this.playwrightConfig.video.enabled) {
-      await this.collectVideos();
+      artifacts.push(...await this.collectVideos());
     }
     
     // Collect traces
     if (this.playwrightConfig.trace.enabled) {
-      await this.collectTraces();
+      artifacts.push(...await this.collectTraces());
     }
     
-    result.artifacts = [...this.artifacts];
+    result.artifacts = [...artifacts, ...result.artifacts];
   }
 
   /**
    * Collect failure artifacts
    */
   private async collectFailureArtifacts(result: TestResult): Promise<void> {
-    this.artifacts = [];
+    const artifacts: TestArtifact[] = [];
     
     // Always collect screenshots on failure
     if (this.playwrightConfig.screenshots.onFailure) {
-      await this.collectScreenshots();
+      artifacts.push(...await this.collectScreenshots());
     }
     
     // Collect videos on failure
     if (this.playwrightConfig.video.enabled) {
-      await this.collectVideos();
+      artifacts.push(...await this.collectVideos());
     }
     
     // Collect traces on failure
     if (this.playwrightConfig.trace.enabled) {
-      await this.collectTraces();
+      artifacts.push(...await this.collectTraces());
     }
     
-    result.artifacts = [...this.artifacts];
+    result.artifacts = artifacts;
   }
 
   /**
    * Collect screenshots
    */
-  private async collectScreenshots(): Promise<void> {
+  private async collectScreenshots(): Promise<TestArtifact[]> {
+    const artifacts: TestArtifact[] = [];
     const screenshotsDir = path.join(this.playwrightConfig.outputDir, 'screenshots');
     
     try {
@@ -690,7 +1889,7 @@ export class PlaywrightTestEngine extends TestEngine {
           const filePath = path.join(screenshotsDir, file);
           const stats = await fs.stat(filePath);
           
-          this.artifacts.push({
+          artifacts.push({
             type: 'screenshot',
             path: filePath,
             size: stats.size,
@@ -704,12 +1903,15 @@ export class PlaywrightTestEngine extends TestEngine {
     } catch (error) {
       logger.warn('Failed to collect screenshots:', error);
     }
+    
+    return artifacts;
   }
 
   /**
    * Collect videos
    */
-  private async collectVideos(): Promise<void> {
+  private async collectVideos(): Promise<TestArtifact[]> {
+    const artifacts: TestArtifact[] = [];
     const videosDir = path.join(this.playwrightConfig.outputDir, 'videos');
     
     try {
@@ -720,7 +1922,7 @@ export class PlaywrightTestEngine extends TestEngine {
           const filePath = path.join(videosDir, file);
           const stats = await fs.stat(filePath);
           
-          this.artifacts.push({
+          artifacts.push({
             type: 'video',
             path: filePath,
             size: stats.size,
@@ -734,12 +1936,15 @@ export class PlaywrightTestEngine extends TestEngine {
     } catch (error) {
       logger.warn('Failed to collect videos:', error);
     }
+    
+    return artifacts;
   }
 
   /**
    * Collect traces
    */
-  private async collectTraces(): Promise<void> {
+  private async collectTraces(): Promise<TestArtifact[]> {
+    const artifacts: TestArtifact[] = [];
     const tracesDir = path.join(this.playwrightConfig.outputDir, 'traces');
     
     try {
@@ -750,7 +1955,7 @@ export class PlaywrightTestEngine extends TestEngine {
           const filePath = path.join(tracesDir, file);
           const stats = await fs.stat(filePath);
           
-          this.artifacts.push({
+          artifacts.push({
             type: 'trace',
             path: filePath,
             size: stats.size,
@@ -764,6 +1969,8 @@ export class PlaywrightTestEngine extends TestEngine {
     } catch (error) {
       logger.warn('Failed to collect traces:', error);
     }
+    
+    return artifacts;
   }
 
   /**
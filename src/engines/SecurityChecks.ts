@@ -0,0 +1,313 @@
+/**
+ * Passive Security Checks
+ *
+ * Each check reads one response the scanner got and reports findings; none
+ * of them sends requests of its own. Findings carry a `key` naming what they
+ * are about, such as a header of an origin or a form of a page, so the same
+ * issue seen on many pages is reported once.
+ */
+
+import { FindingSeverity } from '../types';
+import { SecurityCheckName, SEVERITY_ORDER } from './SecurityScanConfig';
+
+/**
+ * A response the scanner got
+ */
+export interface ScannedResponse {
+  url: string;
+  status: number;
+
+  /** Response headers with lowercase names */
+  headers: Record<string, string>;
+
+  /** Values of the `Set-Cookie` headers */
+  cookies: string[];
+  body: string;
+
+  /** Parsed document of HTML responses */
+  document?: Document;
+}
+
+/**
+ * An issue a check found
+ */
+export interface SecurityFinding {
+  check: SecurityCheckName;
+  severity: FindingSeverity;
+  title: string;
+  url: string;
+
+  /** What in the response shows the issue */
+  evidence?: string;
+  cweId: number;
+  key: string;
+}
+
+type PassiveCheck = (response: ScannedResponse) => SecurityFinding[];
+
+const STACK_TRACE_PATTERNS = [
+  /Traceback \(most recent call last\):/,
+  /^\s*at [\w.$<>]+ \(?[^\s()]+:\d+:\d+\)?$/m,
+  /\bat [\w.$]+\([\w$]+\.java:\d+\)/,
+  /\bat [\w.`]+\(.*\) in .+:line \d+/,
+  /(Fatal error|Parse error|Warning): .+ on line \d+/,
+  /Exception in thread "[^"]+"/,
+];
+
+const CSRF_FIELD_PATTERN = /csrf|xsrf|token|authenticity|nonce|verification/i;
+
+const REDIRECT_PARAM_PATTERN = /^(url|uri|redirect|redirect_?ur[il]|return|return_?to|return_?url|next|goto|dest|destination|continue|target|r)$/i;
+
+const MIXED_CONTENT_SEVERITY: Array<[selector: string, attribute: string, severity: FindingSeverity]> = [
+  ['script[src]', 'src', 'high'],
+  ['iframe[src]', 'src', 'high'],
+  ['link[rel~="stylesheet"][href]', 'href', 'high'],
+  ['object[data]', 'data', 'high'],
+  ['embed[src]', 'src', 'high'],
+  ['form[action]', 'action', 'medium'],
+  ['img[src]', 'src', 'low'],
+  ['audio[src]', 'src', 'low'],
+  ['video[src]', 'src', 'low'],
+  ['source[src]', 'src', 'low'],
+];
+
+const PASSIVE_CHECKS: Record<SecurityCheckName, PassiveCheck> = {
+  'security-headers': checkSecurityHeaders,
+  'insecure-cookies': checkCookies,
+  'mixed-content': checkMixedContent,
+  'stack-traces': checkStackTraces,
+  'open-redirects': checkOpenRedirects,
+  'csrf-tokens': checkCsrfTokens,
+};
+
+/**
+ * Run the given checks on a response
+ */
+export function runPassiveChecks(response: ScannedResponse, checks: SecurityCheckName[]): SecurityFinding[] {
+  return checks.flatMap(check => PASSIVE_CHECKS[check](response));
+}
+
+/**
+ * The more severe of two severities
+ */
+export function maxSeverity(a: FindingSeverity, b: FindingSeverity): FindingSeverity {
+  return SEVERITY_ORDER.indexOf(a) >= SEVERITY_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Pages should tell browsers to restrict what they load and how they are framed
+ */
+function checkSecurityHeaders(response: ScannedResponse): SecurityFinding[] {
+  if (!response.document) {
+    return [];
+  }
+
+  const { origin, protocol } = new URL(response.url);
+  const headers = response.headers;
+  const csp = headers['content-security-policy'];
+  const missing: Array<[header: string, severity: FindingSeverity, cweId: number, present: boolean]> = [
+    ['Content-Security-Policy', 'medium', 693, csp !== undefined],
+    ['X-Frame-Options', 'medium', 1021, headers['x-frame-options'] !== undefined || /frame-ancestors/i.test(csp ?? '')],
+    ['X-Content-Type-Options', 'low', 693, headers['x-content-type-options']?.toLowerCase() === 'nosniff'],
+    ['Strict-Transport-Security', 'low', 319, protocol !== 'https:' || headers['strict-transport-security'] !== undefined],
+    ['Referrer-Policy', 'info', 200, headers['referrer-policy'] !== undefined],
+  ];
+
+  return missing
+    .filter(([, , , present]) => !present)
+    .map(([header, severity, cweId]) => ({
+      check: 'security-headers',
+      severity,
+      title: `Missing ${header} header`,
+      url: response.url,
+      cweId,
+      key: `${header.toLowerCase()}@${origin}`,
+    }));
+}
+
+/**
+ * Cookies should be kept from scripts, plain HTTP and cross-site requests
+ */
+function checkCookies(response: ScannedResponse): SecurityFinding[] {
+  const { origin, protocol } = new URL(response.url);
+
+  return response.cookies.flatMap(cookie => {
+    const [pair = '', ...attributes] = cookie.split(';').map(part => part.trim());
+    const name = pair.split('=')[0]!;
+    const flags = new Map(attributes.map(attribute => {
+      const [key = '', value = ''] = attribute.split('=');
+      return [key.toLowerCase(), value.toLowerCase()] as const;
+    }));
+
+    const missing: string[] = [];
+    let severity: FindingSeverity = 'low';
+    if (protocol === 'https:' && !flags.has('secure')) {
+      missing.push('Secure');
+      severity = 'medium';
+    }
+    if (!flags.has('httponly')) {
+      missing.push('HttpOnly');
+    }
+    if (!flags.has('samesite') || (flags.get('samesite') === 'none' && !flags.has('secure'))) {
+      missing.push('SameSite');
+    }
+
+    return missing.length === 0 ? [] : [{
+      check: 'insecure-cookies' as const,
+      severity,
+      title: `Cookie ${name} is set without ${missing.join(', ')}`,
+      url: response.url,
+      evidence: cookie,
+      cweId: missing.includes('Secure') ? 614 : missing.includes('HttpOnly') ? 1004 : 1275,
+      key: `${name}@${origin}`,
+    }];
+  });
+}
+
+/**
+ * HTTPS pages should not load or submit anything over plain HTTP
+ */
+function checkMixedContent(response: ScannedResponse): SecurityFinding[] {
+  if (!response.document || new URL(response.url).protocol !== 'https:') {
+    return [];
+  }
+
+  const resources: string[] = [];
+  let severity: FindingSeverity | null = null;
+  for (const [selector, attribute, elementSeverity] of MIXED_CONTENT_SEVERITY) {
+    for (const element of response.document.querySelectorAll(selector)) {
+      const value = element.getAttribute(attribute)?.trim() ?? '';
+      if (/^http:\/\//i.test(value)) {
+        resources.push(value);
+        severity = severity ? maxSeverity(severity, elementSeverity) : elementSeverity;
+      }
+    }
+  }
+
+  return severity ? [{
+    check: 'mixed-content',
+    severity,
+    title: `HTTPS page loads ${resources.length} resource${resources.length === 1 ? '' : 's'} over HTTP`,
+    url: response.url,
+    evidence: resources.join(', '),
+    cweId: 311,
+    key: response.url,
+  }] : [];
+}
+
+/**
+ * Error pages should not expose stack traces
+ */
+function checkStackTraces(response: ScannedResponse): SecurityFinding[] {
+  for (const pattern of STACK_TRACE_PATTERNS) {
+    const match = response.body.match(pattern);
+    if (match) {
+      return [{
+        check: 'stack-traces',
+        severity: 'medium',
+        title: 'Response exposes a stack trace',
+        url: response.url,
+        evidence: match[0].trim().slice(0, 200),
+        cweId: 209,
+        key: response.url,
+      }];
+    }
+  }
+  return [];
+}
+
+/**
+ * Redirects should not send users to any site named in a parameter
+ *
+ * A redirect to another site named in the request's query confirms an open
+ * redirect. Links passing another site's URL in a redirect-like parameter
+ * are reported as possible ones.
+ */
+function checkOpenRedirects(response: ScannedResponse): SecurityFinding[] {
+  const findings: SecurityFinding[] = [];
+  const requestUrl = new URL(response.url);
+  const location = response.headers['location'];
+
+  if (response.status >= 300 && response.status < 400 && location) {
+    const target = new URL(location, response.url);
+    const named = [...requestUrl.searchParams.values()].some(value => isExternalUrl(value, requestUrl) && value.includes(target.host));
+    if (target.origin !== requestUrl.origin && named) {
+      findings.push({
+        check: 'open-redirects',
+        severity: 'high',
+        title: `Open redirect to ${target.origin}`,
+        url: response.url,
+        evidence: `Location: ${location}`,
+        cweId: 601,
+        key: `${requestUrl.origin}${requestUrl.pathname}`,
+      });
+    }
+  }
+
+  for (const link of response.document?.querySelectorAll('a[href]') ?? []) {
+    let href: URL;
+    try {
+      href = new URL(link.getAttribute('href')!, response.url);
+    } catch {
+      continue;
+    }
+    if (href.origin !== requestUrl.origin) {
+      continue;
+    }
+
+    for (const [name, value] of href.searchParams) {
+      if (REDIRECT_PARAM_PATTERN.test(name) && isExternalUrl(value, requestUrl)) {
+        findings.push({
+          check: 'open-redirects',
+          severity: 'low',
+          title: `Link passes an external URL in parameter ${name}`,
+          url: response.url,
+          evidence: href.href,
+          cweId: 601,
+          key: `${href.origin}${href.pathname}?${name}`,
+        });
+      }
+    }
+  }
+  return findings;
+}
+
+/**
+ * Forms that change state should carry an anti-CSRF token
+ */
+function checkCsrfTokens(response: ScannedResponse): SecurityFinding[] {
+  if (!response.document) {
+    return [];
+  }
+
+  return [...response.document.querySelectorAll('form')].flatMap(form => {
+    const method = (form.getAttribute('method') ?? 'get').toLowerCase();
+    const hasToken = [...form.querySelectorAll('input[type="hidden"]')]
+      .some(input => CSRF_FIELD_PATTERN.test(input.getAttribute('name') ?? ''));
+    if (method === 'get' || hasToken) {
+      return [];
+    }
+
+    const action = new URL(form.getAttribute('action') || response.url, response.url).href;
+    return [{
+      check: 'csrf-tokens' as const,
+      severity: 'medium' as const,
+      title: `Form posting to ${action} has no anti-CSRF token`,
+      url: response.url,
+      evidence: form.outerHTML.slice(0, 200),
+      cweId: 352,
+      key: `${response.url}->${action}`,
+    }];
+  });
+}
+
+function isExternalUrl(value: string, base: URL): boolean {
+  if (!/^(https?:)?\/\//i.test(value.trim())) {
+    return false;
+  }
+  try {
+    return new URL(value.trim(), base).origin !== base.origin;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Security scan configuration types
+ *
+ * The security scan engine crawls a target and runs passive checks on every
+ * response it gets. Passive checks only read what the site sends back; they
+ * never submit forms or send attack payloads.
+ */
+
+import { ZapConfig } from '../config/schemas';
+import { FindingSeverity } from '../types';
+
+/**
+ * Passive checks the scanner can run
+ */
+export type SecurityCheckName =
+  | 'security-headers'
+  | 'insecure-cookies'
+  | 'mixed-content'
+  | 'stack-traces'
+  | 'open-redirects'
+  | 'csrf-tokens';
+
+export const SECURITY_CHECKS: SecurityCheckName[] = [
+  'security-headers',
+  'insecure-cookies',
+  'mixed-content',
+  'stack-traces',
+  'open-redirects',
+  'csrf-tokens',
+];
+
+/**
+ * Settings of the security scan engine, read from `engineConfig.settings` and
+ * overridden per test by the test's parameters
+ */
+export interface SecurityScanSettings extends Pick<ZapConfig, 'target'> {
+  /** Checks to run (default: all) */
+  checks?: SecurityCheckName[];
+
+  /** Pages to visit at most */
+  maxPages?: number;
+
+  /** Links to follow from the target at most */
+  maxDepth?: number;
+
+  /** Pages whose URL contains one of these strings are not visited */
+  exclude?: string[];
+
+  /** Timeout of one request in milliseconds */
+  requestTimeout?: number;
+
+  /** Lowest severity that fails the scan */
+  failOn?: FindingSeverity;
+}
+
+/**
+ * Default security scan settings
+ */
+export const DEFAULT_SECURITY_SCAN_SETTINGS: Required<Omit<SecurityScanSettings, 'target'>> = {
+  checks: SECURITY_CHECKS,
+  maxPages: 50,
+  maxDepth: 3,
+  exclude: [],
+  requestTimeout: 10000,
+  failOn: 'medium',
+};
+
+/**
+ * Severities from least to most severe
+ */
+export const SEVERITY_ORDER: FindingSeverity[] = ['info', 'low', 'medium', 'high'];
+
+/**
+ * Error raised for scan settings that cannot be run
+ */
+export class SecurityScanConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecurityScanConfigError';
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Security Scan Engine
+ *
+ * Runs security tests as passive scans: the engine crawls the target and
+ * checks every response for missing security headers, insecure cookies,
+ * mixed content, exposed stack traces, open redirects and forms without
+ * anti-CSRF tokens. Findings are reported as `security_finding` errors with
+ * a severity, so they show up in the same results as functional tests.
+ */
+
+import {
+  TestConfig,
+  TestResult,
+  TestError,
+  EngineConfig,
+  EngineHealth,
+} from '../types';
+import { TestEngine } from '../core/TestEngine';
+import { logger } from '../utils/logger';
+import {
+  DEFAULT_SECURITY_SCAN_SETTINGS,
+  SECURITY_CHECKS,
+  SEVERITY_ORDER,
+  SecurityScanConfigError,
+  SecurityScanSettings,
+} from './SecurityScanConfig';
+import {
+  fetchPage,
+  ScanFinding,
+  SecurityFetcher,
+  SecurityScan,
+  SecurityScanner,
+  SecurityScannerOptions,
+} from './SecurityScanner';
+
+type ResolvedSecurityScanSettings = SecurityScannerOptions & Required<Pick<SecurityScanSettings, 'target' | 'failOn'>>;
+
+const SETTING_KEYS: Array<keyof SecurityScanSettings> = [
+  'target', 'checks', 'maxPages', 'maxDepth', 'exclude', 'requestTimeout', 'failOn',
+];
+
+/**
+ * Security Scan Engine
+ *
+ * Registered as `zap`, the engine name security tests are submitted with.
+ * The target is the test's `target` or `url` parameter, or the engine's
+ * `target` setting. A scan fails when a finding is at least as severe as
+ * `failOn`; less severe findings are still reported.
+ */
+export class SecurityScanEngine extends TestEngine {
+  private settings: SecurityScanSettings = { ...DEFAULT_SECURITY_SCAN_SETTINGS };
+  private scanCount: number = 0;
+  private failedScanCount: number = 0;
+
+  constructor(private fetcher: SecurityFetcher = fetchPage) {
+    super('zap', '1.0.0', 'security', false);
+  }
+
+  /**
+   * Initialize the security scan engine
+   */
+  protected async doInitialize(config: EngineConfig): Promise<void> {
+    logger.info('Initializing security scan engine');
+    this.settings = { ...DEFAULT_SECURITY_SCAN_SETTINGS, ...pickSettings(config.settings) };
+    this.scanCount = 0;
+    this.failedScanCount = 0;
+  }
+
+  /**
+   * Scan the test's target
+   */
+  protected async doExecute(config: TestConfig): Promise<TestResult> {
+    logger.info(`Executing security scan: ${config.name}`);
+
+    const result = this.createTestResult(config, 'running');
+    this.scanCount++;
+
+    try {
+      const { target, failOn, ...options } = this.resolveSettings(config.parameters);
+      const scan = await new SecurityScanner(options, this.fetcher).scan(target);
+
+      result.errors.push(...scan.findings.map(toTestError));
+      result.metrics.networkRequests = scan.pages.length + scan.errors.length;
+      result.metrics.custom = {
+        pagesScanned: scan.pages.length,
+        pageErrors: scan.errors.length,
+        findings: scan.findings.length,
+        ...Object.fromEntries(SEVERITY_ORDER.map(severity => [
+          `findings.${severity}`,
+          scan.findings.filter(finding => finding.severity === severity).length,
+        ])),
+      };
+      result.output = formatReport(scan);
+
+      if (scan.pages.length === 0) {
+        result.status = 'failed';
+        result.errors.push({
+          message: `Security scan could not fetch ${scan.target}: ${scan.errors[0]?.message ?? 'no pages to scan'}`,
+          type: 'network_error',
+          timestamp: new Date(),
+          context: { target: scan.target },
+        });
+      } else {
+        const failing = scan.findings.some(finding => SEVERITY_ORDER.indexOf(finding.severity) >= SEVERITY_ORDER.indexOf(failOn));
+        result.status = failing ? 'failed' : 'passed';
+      }
+    } catch (error) {
+      const isConfigError = error instanceof SecurityScanConfigError;
+      result.status = 'failed';
+      result.errors.push({
+        message: (error as Error).message,
+        ...(!isConfigError && (error as Error).stack && { stack: (error as Error).stack }),
+        type: isConfigError ? 'configuration_error' : 'unknown',
+        timestamp: new Date(),
+        context: { testName: config.name },
+      });
+    }
+
+    if (result.status === 'failed') {
+      this.failedScanCount++;
+    }
+    logger.info(`Security scan ${config.name} completed with status: ${result.status}`);
+    return result;
+  }
+
+  /**
+   * Clean up security scan resources
+   */
+  protected async doCleanup(): Promise<void> {
+    logger.info('Cleaning up security scan engine');
+  }
+
+  /**
+   * Get engine health status
+   */
+  protected async doGetHealth(): Promise<EngineHealth> {
+    return {
+      status: this.isInitialized ? 'healthy' : 'unhealthy',
+      message: `Security scan engine ran ${this.scanCount} scans, ${this.failedScanCount} failed`,
+      metrics: {
+        uptime: this.startTime ? Date.now() - this.startTime.getTime() : 0,
+        memoryUsage: process.memoryUsage().heapUsed / 1024 / 1024,
+        cpuUsage: 0,
+        errorRate: this.scanCount > 0 ? this.failedScanCount / this.scanCount : 0,
+      },
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Apply the test's parameters over the engine settings and validate them
+   */
+  private resolveSettings(parameters: Record<string, any>): ResolvedSecurityScanSettings {
+    const settings: SecurityScanSettings = {
+      ...this.settings,
+      ...pickSettings(parameters),
+      ...(typeof parameters['url'] === 'string' && parameters['target'] === undefined && { target: parameters['url'] }),
+    };
+
+    if (!settings.target) {
+      throw new SecurityScanConfigError('Security scan needs a target URL');
+    }
+    if (!Array.isArray(settings.checks)) {
+      throw new SecurityScanConfigError('Security checks must be a list of check names');
+    }
+    const unknown = settings.checks.filter(check => !SECURITY_CHECKS.includes(check));
+    if (unknown.length > 0) {
+      throw new SecurityScanConfigError(`Unknown security checks: ${unknown.join(', ')}`);
+    }
+    if (settings.failOn && !SEVERITY_ORDER.includes(settings.failOn)) {
+      throw new SecurityScanConfigError(`Unknown severity: ${settings.failOn}`);
+    }
+    for (const key of ['maxPages', 'maxDepth', 'requestTimeout'] as const) {
+      if (!Number.isInteger(settings[key]) || settings[key]! < (key === 'maxDepth' ? 0 : 1)) {
+        throw new SecurityScanConfigError(`Invalid ${key}: ${settings[key]}`);
+      }
+    }
+    return { ...DEFAULT_SECURITY_SCAN_SETTINGS, ...settings, target: settings.target };
+  }
+}
+
+/**
+ * Pick scan settings out of engine settings or test parameters
+ */
+function pickSettings(source: Record<string, any> | undefined): SecurityScanSettings {
+  const settings: Record<string, any> = {};
+  for (const key of SETTING_KEYS) {
+    if (source?.[key] !== undefined) {
+      settings[key] = source[key];
+    }
+  }
+  return settings;
+}
+
+function toTestError(finding: ScanFinding): TestError {
+  return {
+    message: `${finding.title} (${finding.url})`,
+    type: 'security_finding',
+    severity: finding.severity,
+    timestamp: new Date(),
+    context: {
+      check: finding.check,
+      title: finding.title,
+      cweId: finding.cweId,
+      urls: finding.urls,
+      ...(finding.evidence !== undefined && { evidence: finding.evidence }),
+    },
+  };
+}
+
+/**
+ * Summarize a scan, listing findings most severe first
+ */
+function formatReport(scan: SecurityScan): string {
+  const lines = [
+    `Security scan of ${scan.target}: ${scan.pages.length} pages, ${scan.findings.length} findings`,
+  ];
+  for (const finding of scan.findings) {
+    const more = finding.urls.length > 1 ? ` (+${finding.urls.length - 1} more pages)` : '';
+    lines.push(`  [${finding.severity.toUpperCase()}] ${finding.title}: ${finding.url}${more}`);
+  }
+  for (const error of scan.errors) {
+    lines.push(`  Could not fetch ${error.url}: ${error.message}`);
+  }
+  return lines.join('\n');
+}
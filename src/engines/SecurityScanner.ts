@@ -0,0 +1,178 @@
+/**
+ * Security Scanner
+ *
+ * Crawls a target breadth-first, staying on the target's origin, and runs the
+ * passive checks on every response. Redirects are not followed by the HTTP
+ * client so the checks see them; redirects within the origin are crawled.
+ */
+
+import { JSDOM } from 'jsdom';
+import { ScannedResponse, SecurityFinding, runPassiveChecks } from './SecurityChecks';
+import { SecurityCheckName, SecurityScanConfigError, SEVERITY_ORDER } from './SecurityScanConfig';
+
+/**
+ * Fetch one page without following redirects
+ */
+export type SecurityFetcher = (url: string, timeout: number) => Promise<Omit<ScannedResponse, 'document'>>;
+
+/**
+ * A finding with every page it was seen on
+ */
+export interface ScanFinding extends SecurityFinding {
+  urls: string[];
+}
+
+/**
+ * Everything a scan found
+ */
+export interface SecurityScan {
+  target: string;
+
+  /** Visited pages with their status */
+  pages: Array<{ url: string; status: number }>;
+
+  /** Findings, most severe first */
+  findings: ScanFinding[];
+
+  /** Pages that could not be fetched */
+  errors: Array<{ url: string; message: string }>;
+}
+
+/**
+ * Scanner settings with defaults applied
+ */
+export interface SecurityScannerOptions {
+  checks: SecurityCheckName[];
+  maxPages: number;
+  maxDepth: number;
+  exclude: string[];
+  requestTimeout: number;
+}
+
+/**
+ * Fetch a page with fetch, reading text bodies only
+ */
+export const fetchPage: SecurityFetcher = async (url, timeout) => {
+  const response = await fetch(url, { redirect: 'manual', signal: AbortSignal.timeout(timeout) });
+  const contentType = response.headers.get('content-type') ?? '';
+  const isText = contentType === '' || /text|html|json|xml|javascript/i.test(contentType);
+  let body = '';
+  if (isText) {
+    body = await response.text();
+  } else {
+    await response.arrayBuffer();
+  }
+
+  return {
+    url,
+    status: response.status,
+    headers: Object.fromEntries(response.headers),
+    cookies: response.headers.getSetCookie(),
+    body,
+  };
+};
+
+/**
+ * Crawls one target and collects findings
+ */
+export class SecurityScanner {
+  constructor(
+    private options: SecurityScannerOptions,
+    private fetcher: SecurityFetcher = fetchPage
+  ) {}
+
+  /**
+   * Scan the pages reachable from the target
+   */
+  public async scan(target: string): Promise<SecurityScan> {
+    let origin: string;
+    try {
+      origin = new URL(target).origin;
+    } catch {
+      throw new SecurityScanConfigError(`Invalid scan target: ${target}`);
+    }
+
+    const pages: SecurityScan['pages'] = [];
+    const errors: SecurityScan['errors'] = [];
+    const findings = new Map<string, ScanFinding>();
+    const queue = [{ url: normalize(target), depth: 0 }];
+    const seen = new Set([queue[0]!.url]);
+
+    while (queue.length > 0 && pages.length < this.options.maxPages) {
+      const { url, depth } = queue.shift()!;
+
+      let response: ScannedResponse;
+      try {
+        response = await this.fetcher(url, this.options.requestTimeout);
+      } catch (error) {
+        const cause = (error as Error & { cause?: Error }).cause;
+        errors.push({ url, message: cause?.message ?? (error as Error).message });
+        continue;
+      }
+      pages.push({ url, status: response.status });
+
+      const dom = /html/i.test(response.headers['content-type'] ?? '') ? new JSDOM(response.body, { url }) : null;
+      try {
+        if (dom) {
+          response.document = dom.window.document;
+        }
+        for (const finding of runPassiveChecks(response, this.options.checks)) {
+          const id = `${finding.check}:${finding.key}`;
+          const existing = findings.get(id);
+          if (existing) {
+            existing.urls.push(finding.url);
+          } else {
+            findings.set(id, { ...finding, urls: [finding.url] });
+          }
+        }
+
+        for (const [link, linkDepth] of this.getLinks(response, depth)) {
+          if (linkDepth <= this.options.maxDepth && new URL(link).origin === origin && !seen.has(link) &&
+            !this.options.exclude.some(pattern => link.includes(pattern))) {
+            seen.add(link);
+            queue.push({ url: link, depth: linkDepth });
+          }
+        }
+      } finally {
+        dom?.window.close();
+      }
+    }
+
+    return {
+      target,
+      pages,
+      findings: [...findings.values()]
+        .sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity)),
+      errors,
+    };
+  }
+
+  /**
+   * Links of a page and redirect targets, with the depth they are found at
+   */
+  private getLinks(response: ScannedResponse, depth: number): Array<[string, number]> {
+    const links: Array<[string, number]> = [];
+    const location = response.headers['location'];
+    if (response.status >= 300 && response.status < 400 && location) {
+      links.push([location, depth]);
+    }
+    for (const element of response.document?.querySelectorAll('a[href], area[href], iframe[src], frame[src]') ?? []) {
+      links.push([element.getAttribute('href') ?? element.getAttribute('src')!, depth + 1]);
+    }
+
+    return links.flatMap(([link, linkDepth]) => {
+      try {
+        const url = new URL(link, response.url);
+        return /^https?:$/.test(url.protocol) ? [[normalize(url.href), linkDepth] as [string, number]] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+}
+
+function normalize(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.href;
+}
@@ -0,0 +1,210 @@
+/**
+ * Step Expressions
+ *
+ * Steps may embed `${...}` expressions in any string field. They are
+ * resolved when the step runs, so a step can use values captured by the
+ * steps before it:
+ *
+ * - `${env.BASE_URL}` reads the test environment's variables
+ * - `${data.user.email}` reads the test's `data` parameter
+ * - `${vars.orderId}` reads a value captured earlier in the test
+ * - `${params.user}` reads a parameter of the sub-flow the step belongs to
+ * - `${uuid()}`, `${now()}`, `${randomEmail()}` call a built-in function
+ *
+ * `$${` escapes an expression, producing a literal `${`.
+ */
+
+import { randomBytes, randomInt, randomUUID } from 'crypto';
+
+/**
+ * Values expressions can read
+ */
+export interface ExpressionScope {
+  /** Variables of the test environment */
+  env: Record<string, string | undefined>;
+
+  /** Test data of the test */
+  data: Record<string, any>;
+
+  /** Values captured by earlier steps */
+  vars: Record<string, any>;
+
+  /** Parameters of the running sub-flow */
+  params: Record<string, any>;
+}
+
+/**
+ * Error raised when an expression cannot be resolved
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, public expression: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type ExpressionFunction = (...args: Array<string | number>) => string;
+
+/**
+ * Built-in functions, called as `${name(arg, ...)}`
+ */
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  uuid: () => randomUUID(),
+  now: (format = 'iso') => {
+    const date = new Date();
+    switch (format) {
+      case 'iso':
+        return date.toISOString();
+      case 'epoch':
+        return String(date.getTime());
+      case 'date':
+        return date.toISOString().slice(0, 10);
+      default:
+        throw new Error(`unknown format "${format}", expected iso, epoch or date`);
+    }
+  },
+  randomEmail: (domain = 'example.com') => `user-${randomBytes(4).toString('hex')}@${domain}`,
+  randomInt: (min = 0, max = 999999) => String(randomInt(Number(min), Number(max) + 1)),
+  randomString: (length = 8) => {
+    const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+    return Array.from({ length: Number(length) }, () => alphabet[randomInt(alphabet.length)]).join('');
+  },
+};
+
+const EXPRESSION_PATTERN = /\$(\$?)\{([^}]*)\}/g;
+const SINGLE_EXPRESSION_PATTERN = /^\$\{([^}]*)\}$/;
+const CALL_PATTERN = /^([A-Za-z_]\w*)\((.*)\)$/;
+const PATH_PATTERN = /^[A-Za-z_$][\w$-]*(?:\.[A-Za-z_$][\w$-]*|\[\d+\])*$/;
+const ARGUMENT_PATTERN = /^(?:'([^']*)'|"([^"]*)"|(-?\d+(?:\.\d+)?))$/;
+
+/**
+ * Resolve the expressions of a string
+ *
+ * Resolved values are added to `resolved`, keyed by their expression.
+ *
+ * @throws ExpressionError when an expression is invalid or reads a missing value
+ */
+export function resolveExpressions(
+  template: string,
+  scope: ExpressionScope,
+  resolved: Record<string, string> = {}
+): string {
+  return template.replace(EXPRESSION_PATTERN, (match, escaped: string, source: string) => {
+    if (escaped) {
+      return match.slice(1);
+    }
+
+    const value = evaluate(source.trim(), scope);
+    resolved[match] = value;
+    return value;
+  });
+}
+
+/**
+ * Resolve the expressions in every string of a value, recursively
+ */
+export function resolveValueExpressions<T>(
+  value: T,
+  scope: ExpressionScope,
+  resolved: Record<string, string> = {}
+): T {
+  if (typeof value === 'string') {
+    return resolveExpressions(value, scope, resolved) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveValueExpressions(item, scope, resolved)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveValueExpressions(item, scope, resolved)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Resolve a value that may consist of a single expression, keeping the type
+ * of what it reads
+ *
+ * `${data.users}` resolves to the list itself rather than its JSON; any
+ * other value is resolved like `resolveValueExpressions()`.
+ */
+export function resolveExpressionValue(
+  value: unknown,
+  scope: ExpressionScope,
+  resolved: Record<string, string> = {}
+): unknown {
+  const single = typeof value === 'string' ? SINGLE_EXPRESSION_PATTERN.exec(value) : null;
+  if (!single) {
+    return resolveValueExpressions(value, scope, resolved);
+  }
+
+  const source = single[1]!.trim();
+  const result = CALL_PATTERN.test(source) ? evaluate(source, scope) : readVariable(source, scope);
+  resolved[value as string] = typeof result === 'object' ? JSON.stringify(result) : String(result);
+  return result;
+}
+
+/**
+ * Read a dot path such as `user.addresses[0].city` from a value
+ *
+ * Returns undefined when any part of the path is missing.
+ */
+export function readPath(value: any, path: string): any {
+  const keys = path.match(/[^.[\]]+/g) ?? [];
+  return keys.reduce((current, key) => current === undefined || current === null ? undefined : current[key], value);
+}
+
+function evaluate(source: string, scope: ExpressionScope): string {
+  const call = CALL_PATTERN.exec(source);
+  if (call) {
+    return callFunction(call[1]!, call[2]!, source);
+  }
+
+  const value = readVariable(source, scope);
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function readVariable(source: string, scope: ExpressionScope): unknown {
+  if (!PATH_PATTERN.test(source)) {
+    throw new ExpressionError(`Invalid expression "\${${source}}"`, source);
+  }
+
+  const [root, ...rest] = source.split('.');
+  if (root !== 'env' && root !== 'data' && root !== 'vars' && root !== 'params') {
+    throw new ExpressionError(
+      `Unknown expression "\${${source}}": variables start with env., data., vars. or params.`,
+      source
+    );
+  }
+
+  const value = rest.length > 0 ? readPath(scope[root], rest.join('.')) : undefined;
+  if (value === undefined || value === null) {
+    throw new ExpressionError(`Variable "${source}" is not defined`, source);
+  }
+  return value;
+}
+
+function callFunction(name: string, argumentSource: string, source: string): string {
+  const fn = FUNCTIONS[name];
+  if (!fn) {
+    throw new ExpressionError(
+      `Unknown function "${name}", expected one of: ${Object.keys(FUNCTIONS).join(', ')}`,
+      source
+    );
+  }
+
+  const args = argumentSource.trim() === '' ? [] : argumentSource.split(',').map(argument => {
+    const literal = ARGUMENT_PATTERN.exec(argument.trim());
+    if (!literal) {
+      throw new ExpressionError(`Invalid argument "${argument.trim()}" in "\${${source}}"`, source);
+    }
+    return literal[3] !== undefined ? Number(literal[3]) : literal[1] ?? literal[2]!;
+  });
+
+  try {
+    return fn(...args);
+  } catch (error) {
+    throw new ExpressionError(`Failed to evaluate "\${${source}}": ${(error as Error).message}`, source);
+  }
+}
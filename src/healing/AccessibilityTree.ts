@@ -0,0 +1,379 @@
+/**
+ * Accessibility Tree
+ *
+ * Computes ARIA roles and accessible names for the elements of a document
+ * and evaluates Playwright `role=` selectors against it. This lets healing
+ * strategies reason about pages the way `getByRole` and `getByLabel` locators
+ * do, using a DOM snapshot when no live browser is available.
+ *
+ * Role and name computation follows the common cases of the HTML-AAM and
+ * accname specifications; it is not a full implementation.
+ */
+
+/**
+ * Node of the accessibility tree
+ */
+export interface AccessibilityNode {
+  /** ARIA role, explicit or implied by the element */
+  role: string;
+
+  /** Accessible name with whitespace normalized */
+  name: string;
+
+  /** Element the node was computed from */
+  element: Element;
+
+  /** Accessible descendants */
+  children: AccessibilityNode[];
+}
+
+/**
+ * Parsed Playwright role selector, e.g. `role=button[name="Save"]`
+ */
+export interface RoleSelector {
+  role: string;
+  name?: string;
+
+  /** Match the name as a substring instead of the whole string */
+  substring: boolean;
+
+  /** Match the name case-sensitively */
+  caseSensitive: boolean;
+}
+
+/**
+ * Elements that never render content
+ */
+const NON_RENDERED_TAGS = new Set(['head', 'script', 'style', 'template', 'noscript', 'meta', 'link', 'title']);
+
+/**
+ * Roles whose accessible name is computed from their content
+ */
+const NAME_FROM_CONTENT_ROLES = new Set([
+  'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link', 'menuitem',
+  'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'row', 'rowheader', 'switch', 'tab',
+  'tooltip', 'treeitem'
+]);
+
+/**
+ * Roles implied by input types that are not text fields
+ */
+const INPUT_TYPE_ROLES: Record<string, string> = {
+  button: 'button',
+  checkbox: 'checkbox',
+  image: 'button',
+  number: 'spinbutton',
+  radio: 'radio',
+  range: 'slider',
+  reset: 'button',
+  submit: 'button',
+  file: 'button',
+};
+
+/**
+ * Roles implied by element tags
+ */
+const TAG_ROLES: Record<string, (element: Element) => string | null> = {
+  a: element => element.hasAttribute('href') ? 'link' : null,
+  area: element => element.hasAttribute('href') ? 'link' : null,
+  article: () => 'article',
+  aside: () => 'complementary',
+  button: () => 'button',
+  dialog: () => 'dialog',
+  fieldset: () => 'group',
+  footer: () => 'contentinfo',
+  form: element => hasExplicitName(element) ? 'form' : null,
+  h1: () => 'heading',
+  h2: () => 'heading',
+  h3: () => 'heading',
+  h4: () => 'heading',
+  h5: () => 'heading',
+  h6: () => 'heading',
+  header: () => 'banner',
+  img: element => element.getAttribute('alt') === '' ? 'presentation' : 'img',
+  input: inputRole,
+  li: () => 'listitem',
+  main: () => 'main',
+  nav: () => 'navigation',
+  ol: () => 'list',
+  option: () => 'option',
+  progress: () => 'progressbar',
+  section: element => hasExplicitName(element) ? 'region' : null,
+  select: element => element.hasAttribute('multiple') || Number(element.getAttribute('size')) > 1 ? 'listbox' : 'combobox',
+  table: () => 'table',
+  td: () => 'cell',
+  textarea: () => 'textbox',
+  th: () => 'columnheader',
+  tr: () => 'row',
+  ul: () => 'list',
+};
+
+/**
+ * Normalize whitespace the way Playwright compares accessible names
+ */
+export function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Compute the ARIA role of an element, or null when it has none
+ */
+export function getRole(element: Element): string | null {
+  const explicit = element.getAttribute('role')?.trim().split(/\s+/)[0];
+  if (explicit) {
+    return explicit === 'none' ? 'presentation' : explicit;
+  }
+
+  const implicit = TAG_ROLES[element.tagName.toLowerCase()];
+  return implicit ? implicit(element) : null;
+}
+
+/**
+ * Compute the accessible name of an element
+ */
+export function getAccessibleName(element: Element): string {
+  return normalizeWhitespace(computeName(element, new Set()));
+}
+
+/**
+ * Build the accessibility tree of a document
+ *
+ * Elements without a role are transparent: their accessible descendants are
+ * attached to the nearest accessible ancestor.
+ */
+export function buildAccessibilityTree(document: Document): AccessibilityNode[] {
+  return document.body ? collectNodes(document.body) : [];
+}
+
+/**
+ * Flatten an accessibility tree in document order
+ */
+export function flattenAccessibilityTree(nodes: AccessibilityNode[]): AccessibilityNode[] {
+  return nodes.flatMap(node => [node, ...flattenAccessibilityTree(node.children)]);
+}
+
+/**
+ * Parse a Playwright `role=` selector, returning null for other selectors
+ */
+export function parseRoleSelector(selector: string): RoleSelector | null {
+  const match = selector.trim().match(/^role=([a-z]+)(?:\[name\s*(\*?=)\s*"((?:[^"\\]|\\.)*)"\s*([is])?\])?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, role, op, name, flag] = match;
+  return {
+    role: role!,
+    ...(name !== undefined && { name: name.replace(/\\(.)/g, '$1') }),
+    substring: op === '*=',
+    caseSensitive: flag === 's',
+  };
+}
+
+/**
+ * Format a Playwright `role=` selector matching a role and exact name
+ */
+export function formatRoleSelector(role: string, name: string): string {
+  return name
+    ? `role=${role}[name="${name.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`
+    : `role=${role}`;
+}
+
+/**
+ * Format the equivalent Playwright `getByRole` locator call
+ */
+export function formatGetByRole(role: string, name: string): string {
+  if (!name) {
+    return `getByRole('${role}')`;
+  }
+  return `getByRole('${role}', { name: '${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}', exact: true })`;
+}
+
+/**
+ * Find the elements of a document matched by a role selector
+ */
+export function queryByRole(document: Document, selector: RoleSelector): Element[] {
+  const expected = selector.name === undefined ? undefined : normalizeWhitespace(selector.name);
+
+  return flattenAccessibilityTree(buildAccessibilityTree(document))
+    .filter(node => node.role === selector.role)
+    .filter(node => {
+      if (expected === undefined) {
+        return true;
+      }
+      const name = selector.caseSensitive ? node.name : node.name.toLowerCase();
+      const value = selector.caseSensitive ? expected : expected.toLowerCase();
+      return selector.substring ? name.includes(value) : name === value;
+    })
+    .map(node => node.element);
+}
+
+function collectNodes(element: Element): AccessibilityNode[] {
+  const nodes: AccessibilityNode[] = [];
+
+  for (const child of Array.from(element.children)) {
+    if (isHidden(child)) {
+      continue;
+    }
+
+    const role = getRole(child);
+    const children = collectNodes(child);
+    if (role && role !== 'presentation') {
+      nodes.push({ role, name: getAccessibleName(child), element: child, children });
+    } else {
+      nodes.push(...children);
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Check whether an element itself is excluded from the accessibility tree
+ *
+ * Ancestors are not checked; callers walk the document top-down and skip
+ * hidden subtrees.
+ */
+function isHidden(element: Element): boolean {
+  const tag = element.tagName.toLowerCase();
+  if (NON_RENDERED_TAGS.has(tag) || (tag === 'input' && element.getAttribute('type')?.toLowerCase() === 'hidden')) {
+    return true;
+  }
+  if (element.hasAttribute('hidden') || element.getAttribute('aria-hidden') === 'true') {
+    return true;
+  }
+
+  const style = element.ownerDocument.defaultView?.getComputedStyle(element);
+  return style?.display === 'none' || style?.visibility === 'hidden';
+}
+
+function inputRole(element: Element): string | null {
+  const type = (element.getAttribute('type') || 'text').toLowerCase();
+  if (type === 'hidden') {
+    return null;
+  }
+  if (type === 'search') {
+    return element.hasAttribute('list') ? 'combobox' : 'searchbox';
+  }
+  return INPUT_TYPE_ROLES[type] || (element.hasAttribute('list') ? 'combobox' : 'textbox');
+}
+
+function hasExplicitName(element: Element): boolean {
+  return element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby') || element.hasAttribute('title');
+}
+
+function computeName(element: Element, visited: Set<Element>): string {
+  if (visited.has(element)) {
+    return '';
+  }
+  visited.add(element);
+
+  const document = element.ownerDocument;
+  const labelledBy = element.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy.split(/\s+/)
+      .map(id => document.getElementById(id))
+      .filter((label): label is HTMLElement => label !== null)
+      .map(label => textAlternative(label, visited))
+      .join(' ');
+    if (text.trim()) {
+      return text;
+    }
+  }
+
+  const ariaLabel = element.getAttribute('aria-label');
+  if (ariaLabel?.trim()) {
+    return ariaLabel;
+  }
+
+  const tag = element.tagName.toLowerCase();
+  const type = element.getAttribute('type')?.toLowerCase();
+
+  if (tag === 'input' && (type === 'submit' || type === 'reset' || type === 'button')) {
+    return element.getAttribute('value') || (type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : '');
+  }
+
+  if (tag === 'input' && type === 'image') {
+    return element.getAttribute('alt') || element.getAttribute('value') || 'Submit';
+  }
+
+  if (tag === 'input' || tag === 'select' || tag === 'textarea') {
+    const labels = labelsFor(element);
+    if (labels.length > 0) {
+      return labels.map(label => textAlternative(label, visited)).join(' ');
+    }
+    return element.getAttribute('title') || element.getAttribute('placeholder') || '';
+  }
+
+  if (tag === 'img' || tag === 'area') {
+    return element.getAttribute('alt') || element.getAttribute('title') || '';
+  }
+
+  if (tag === 'fieldset') {
+    const legend = Array.from(element.children).find(child => child.tagName.toLowerCase() === 'legend');
+    if (legend) {
+      return textAlternative(legend, visited);
+    }
+  }
+
+  const role = getRole(element);
+  if (role && NAME_FROM_CONTENT_ROLES.has(role)) {
+    const text = textAlternative(element, visited, true);
+    if (text.trim()) {
+      return text;
+    }
+  }
+
+  return element.getAttribute('title') || '';
+}
+
+/**
+ * Text of an element and its descendants, using the names of embedded controls
+ */
+function textAlternative(element: Element, visited: Set<Element>, skipSelf: boolean = false): string {
+  if (!skipSelf) {
+    const ariaLabel = element.getAttribute('aria-label');
+    if (ariaLabel?.trim()) {
+      return ariaLabel;
+    }
+  }
+
+  const parts: string[] = [];
+  for (const node of Array.from(element.childNodes)) {
+    if (node.nodeType === 3) {
+      parts.push(node.textContent || '');
+    } else if (node.nodeType === 1) {
+      const child = node as Element;
+      const tag = child.tagName.toLowerCase();
+      if (isHidden(child) || visited.has(child)) {
+        continue;
+      }
+      if (tag === 'img') {
+        parts.push(child.getAttribute('alt') || '');
+      } else if (tag === 'input' || tag === 'select' || tag === 'textarea') {
+        parts.push(tag === 'input' ? child.getAttribute('value') || '' : '');
+      } else {
+        parts.push(textAlternative(child, visited));
+      }
+    }
+  }
+  return parts.join(' ');
+}
+
+function labelsFor(element: Element): Element[] {
+  const labels: Element[] = [];
+  const id = element.getAttribute('id');
+  if (id) {
+    for (const label of Array.from(element.ownerDocument.querySelectorAll('label'))) {
+      if (label.getAttribute('for') === id) {
+        labels.push(label);
+      }
+    }
+  }
+
+  const wrapping = element.closest('label');
+  if (wrapping && !labels.includes(wrapping)) {
+    labels.push(wrapping);
+  }
+  return labels;
+}
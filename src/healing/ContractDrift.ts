@@ -0,0 +1,187 @@
+/**
+ * Contract Drift
+ *
+ * Shared by the healing strategies for API responses whose shape changed
+ * under a test. The API test engine reports a JSONPath assertion that matched
+ * nothing together with the parsed response body. A strategy heals it by
+ * proposing the path the value is found at now in an `update_assertion`
+ * action, as locator strategies propose selectors in `update_selector`.
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { HealingAction, TestFailure } from '../types';
+import { JsonPathSegment, formatJsonPath, isJsonObject, parseJsonPath } from './JsonPath';
+
+/**
+ * Assertion whose JSONPath matched nothing
+ */
+export interface AssertionDrift {
+  /** JSONPath that matched nothing */
+  path: string;
+  segments: JsonPathSegment[];
+
+  /** Parsed response body */
+  body: unknown;
+
+  /** Checks of the assertion, used to tell candidate values apart */
+  assertion: Record<string, unknown>;
+}
+
+/**
+ * Path proposed for a drifted assertion
+ */
+export interface DriftCandidate {
+  segments: JsonPathSegment[];
+  path: string;
+  confidence: number;
+}
+
+/**
+ * Confidence two candidates may differ by and still be mistaken for each other
+ */
+const AMBIGUITY_MARGIN = 0.05;
+
+/**
+ * Read the drifted assertion the API test engine recorded in a failure
+ */
+export function getAssertionDrift(failure: TestFailure): AssertionDrift | undefined {
+  const custom = failure.context?.custom;
+  if (typeof custom?.['jsonPath'] !== 'string' || !('responseBody' in custom)) {
+    return undefined;
+  }
+
+  try {
+    return {
+      path: custom['jsonPath'],
+      segments: parseJsonPath(custom['jsonPath']),
+      body: custom['responseBody'],
+      assertion: isJsonObject(custom['assertion']) ? custom['assertion'] : {},
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the change described by the last successful update_assertion action
+ */
+export function findAssertionAction(actions: HealingAction[]): { originalPath: string; healedPath: string } | undefined {
+  const action = [...actions].reverse().find(candidate =>
+    candidate.type === 'update_assertion' &&
+    candidate.result === 'success' &&
+    typeof candidate.parameters['originalPath'] === 'string' &&
+    typeof candidate.parameters['newPath'] === 'string'
+  );
+
+  return action && {
+    originalPath: action.parameters['originalPath'],
+    healedPath: action.parameters['newPath'],
+  };
+}
+
+/**
+ * Similarity of two member names from 0 to 1
+ *
+ * Case and separators are ignored, so `userName`, `user_name` and `username`
+ * are the same name; otherwise the shared words or the edit distance count.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (left === right) {
+    return 1;
+  }
+  if (!left || !right) {
+    return 0;
+  }
+
+  const leftWords = new Set(splitName(a));
+  const rightWords = new Set(splitName(b));
+  const shared = [...leftWords].filter(word => rightWords.has(word)).length;
+  const words = shared / new Set([...leftWords, ...rightWords]).size;
+  const edits = 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+  return Math.max(words, edits);
+}
+
+/**
+ * How well a candidate value fits an assertion's checks
+ *
+ * 1 when it satisfies `equals`, -1 when it contradicts `equals` or `type`,
+ * and 0 when the checks cannot tell.
+ */
+export function valueFit(value: unknown, assertion: Record<string, unknown>): number {
+  if (assertion['equals'] !== undefined) {
+    return isDeepStrictEqual(value, assertion['equals']) ? 1 : -1;
+  }
+  if (typeof assertion['type'] === 'string' && !fitsType(value, assertion['type'])) {
+    return -1;
+  }
+  return 0;
+}
+
+/**
+ * Pick the most confident candidate
+ *
+ * A runner-up within the ambiguity margin lowers the confidence, since
+ * either could be the field the test meant.
+ */
+export function pickCandidate(candidates: DriftCandidate[]): DriftCandidate | undefined {
+  const [best, runnerUp] = [...candidates].sort((a, b) => b.confidence - a.confidence);
+  if (!best) {
+    return undefined;
+  }
+  if (runnerUp && best.confidence - runnerUp.confidence < AMBIGUITY_MARGIN) {
+    return { ...best, confidence: best.confidence * 0.8 };
+  }
+  return best;
+}
+
+/**
+ * Create a candidate, formatting its path and keeping its confidence in range
+ */
+export function createCandidate(segments: JsonPathSegment[], confidence: number): DriftCandidate {
+  return { segments, path: formatJsonPath(segments), confidence: Math.max(0, Math.min(0.95, confidence)) };
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function splitName(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+function fitsType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isJsonObject(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
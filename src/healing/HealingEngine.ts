@@ -11,9 +11,22 @@ import {
   HealingResult, 
   HealingContext,
   FailureType,
+  HealingMode,
   IHealingStrategy
 } from '../types';
 import { logger } from '../utils/logger';
+import { getAttemptKey } from '../core/HealingStrategy';
+import { HealingMemory } from './HealingMemory';
+import { findSelectorAction } from './SelectorPatchManager';
+import {
+  StrategyCandidate,
+  StrategyOutcomeTracker,
+  StrategySelectionPolicy,
+  StrategySelectionPolicyName,
+  createSelectionPolicy,
+  failureSite
+} from './StrategySelectionPolicy';
+import * as os from 'os';
 
 /**
  * Configuration for the healing engine
@@ -33,6 +46,18 @@ export interface HealingEngineConfig {
   
   /** Whether to log detailed healing information */
   enableDetailedLogging: boolean;
+  
+  /** Policy deciding the order applicable strategies are tried in */
+  selectionPolicy: StrategySelectionPolicyName | StrategySelectionPolicy;
+  
+  /** Probability of trying a random strategy first (epsilon-greedy policy) */
+  explorationRate: number;
+  
+  /** Whether heals are applied or only suggested, unless the test sets its own mode */
+  mode: HealingMode;
+  
+  /** Confidence a heal needs to be applied in auto-apply-above-threshold mode, unless the test sets its own */
+  applyThreshold: number;
 }
 
 /**
@@ -75,19 +100,30 @@ export class HealingEngine {
   private strategies: Map<string, IHealingStrategy> = new Map();
   private config: HealingEngineConfig;
   private stats: HealingEngineStats;
-  private attemptHistory: Map<string, HealingAttempt[]> = new Map();
+  /** Attempts by test id and attempt key */
+  private attemptHistory: Map<string, Map<string, HealingAttempt[]>> = new Map();
+  private memory: HealingMemory | null;
+  private selectionPolicy: StrategySelectionPolicy;
+  private outcomes: StrategyOutcomeTracker = new StrategyOutcomeTracker();
+  private typeCounts: Map<FailureType, { successes: number; attempts: number }> = new Map();
   
-  constructor(config: Partial<HealingEngineConfig> = {}) {
+  constructor(config: Partial<HealingEngineConfig> = {}, memory: HealingMemory | null = null) {
     this.config = {
       maxAttempts: 3,
       minConfidenceThreshold: 0.3,
       strategyTimeout: 30000,
       enableMetrics: true,
       enableDetailedLogging: true,
+      selectionPolicy: 'static',
+      explorationRate: 0.1,
+      mode: 'auto-apply-above-threshold',
+      applyThreshold: 0.6,
       ...config
     };
     
     this.stats = this.initializeStats();
+    this.memory = memory;
+    this.selectionPolicy = this.resolveSelectionPolicy();
     
     logger.info('HealingEngine initialized', {
       config: this.config,
@@ -112,6 +148,13 @@ export class HealingEngine {
     }
   }
   
+  /**
+   * Set the memory of past heals consulted before running strategies
+   */
+  public setMemory(memory: HealingMemory | null): void {
+    this.memory = memory;
+  }
+  
   /**
    * Get all registered strategies
    */
@@ -132,9 +175,14 @@ export class HealingEngine {
       healingId
     });
     
+    const mode = this.resolveMode(failure);
+    if (mode === 'off') {
+      return this.createFailureResult(healingId, 'Healing is turned off', Date.now() - startTime);
+    }
+    
     try {
       // Check if we've exceeded max attempts
-      const attempts = this.attemptHistory.get(failure.testId) || [];
+      const attempts = this.attemptHistory.get(failure.testId)?.get(getAttemptKey(failure)) || [];
       if (attempts.length >= this.config.maxAttempts) {
         const result = this.createFailureResult(
           healingId,
@@ -142,7 +190,7 @@ export class HealingEngine {
           Date.now() - startTime
         );
         
-        this.recordAttempt(failure.testId, {
+        this.recordAttempt(failure, {
           healingId,
           strategy: 'max-attempts-exceeded',
           success: false,
@@ -154,6 +202,21 @@ export class HealingEngine {
         return result;
       }
       
+      // Reuse a heal that worked before
+      const recalled = await this.recallFromMemory(failure, healingId, startTime);
+      if (recalled) {
+        this.recordAttempt(failure, {
+          healingId,
+          strategy: 'healing-memory',
+          success: true,
+          confidence: recalled.confidence,
+          duration: recalled.duration,
+          message: recalled.message
+        });
+        this.updateStats(recalled, failure);
+        return this.applyMode(recalled, failure, mode);
+      }
+      
       // Find applicable strategies
       const applicableStrategies = this.findApplicableStrategies(failure);
       
@@ -164,7 +227,7 @@ export class HealingEngine {
           Date.now() - startTime
         );
         
-        this.recordAttempt(failure.testId, {
+        this.recordAttempt(failure, {
           healingId,
           strategy: 'no-strategies',
           success: false,
@@ -176,14 +239,14 @@ export class HealingEngine {
         return result;
       }
       
-      // Try strategies in order of confidence
+      // Try strategies in the order chosen by the selection policy
       const strategyResults = await this.tryStrategiesInOrder(applicableStrategies, failure, context);
       
       // Find the best result
       const bestResult = this.selectBestResult(strategyResults);
       
       // Record the attempt
-      this.recordAttempt(failure.testId, {
+      this.recordAttempt(failure, {
         healingId,
         strategy: bestResult.metadata?.['strategy'] || 'unknown',
         success: bestResult.success,
@@ -195,8 +258,17 @@ export class HealingEngine {
       // Update statistics
       this.updateStats(bestResult, failure);
       
+      this.applyMode(bestResult, failure, mode);
+      
+      // Only applied heals are remembered, so suggestions are never reused unreviewed
+      if (bestResult.applied) {
+        await this.learn(failure, bestResult);
+      }
+      
       logger.info(`Healing process completed for failure: ${failure.id}`, {
         success: bestResult.success,
+        applied: bestResult.applied,
+        mode,
         confidence: bestResult.confidence,
         duration: bestResult.duration,
         strategy: bestResult.metadata?.['strategy']
@@ -214,7 +286,7 @@ export class HealingEngine {
         duration
       );
       
-      this.recordAttempt(failure.testId, {
+      this.recordAttempt(failure, {
         healingId,
         strategy: 'error',
         success: false,
@@ -229,14 +301,13 @@ export class HealingEngine {
   
   /**
    * Calculate overall confidence for healing a failure
+   *
+   * A remembered heal for the failing selector raises the confidence to its
+   * memory score when that is higher than every strategy's estimate.
    */
   public async calculateConfidence(failure: TestFailure, context: HealingContext): Promise<number> {
     const applicableStrategies = this.findApplicableStrategies(failure);
     
-    if (applicableStrategies.length === 0) {
-      return 0;
-    }
-    
     // Calculate confidence for each strategy
     const confidenceScores = await Promise.all(
       applicableStrategies.map(strategy => 
@@ -245,7 +316,22 @@ export class HealingEngine {
     );
     
     // Return the highest confidence score
-    return Math.max(...confidenceScores);
+    return Math.max(0, ...confidenceScores, await this.memoryConfidence(failure));
+  }
+  
+  /**
+   * Record a reviewer's verdict on a suggested heal
+   *
+   * Approvals count as successes and rejections as failures of the strategy
+   * that proposed the heal, so adaptive selection policies learn from them.
+   */
+  public recordFeedback(strategyName: string, failureType: FailureType, site: string, approved: boolean): void {
+    this.outcomes.recordOutcome(strategyName, failureType, site, approved);
+    this.stats.successRateByStrategy = this.outcomes.ratesByStrategy();
+    logger.info(`Recorded ${approved ? 'approval' : 'rejection'} of heal by strategy: ${strategyName}`, {
+      failureType,
+      site
+    });
   }
   
   /**
@@ -261,6 +347,8 @@ export class HealingEngine {
   public resetStats(): void {
     this.stats = this.initializeStats();
     this.attemptHistory.clear();
+    this.outcomes.reset();
+    this.typeCounts.clear();
     logger.info('Healing engine statistics reset');
   }
   
@@ -268,7 +356,27 @@ export class HealingEngine {
    * Get attempt history for a specific test
    */
   public getAttemptHistory(testId: string): HealingAttempt[] {
-    return this.attemptHistory.get(testId) || [];
+    return [...(this.attemptHistory.get(testId)?.values() ?? [])].flat();
+  }
+  
+  /**
+   * Forget the attempts of a test whose run finished
+   *
+   * Attempt budgets are counted per run, so a retry or a later run of the
+   * test starts with a fresh budget.
+   */
+  public clearAttempts(testId: string): void {
+    this.attemptHistory.delete(testId);
+    for (const strategy of this.strategies.values()) {
+      strategy.clearAttempts?.(testId);
+    }
+  }
+  
+  /**
+   * Get the engine configuration
+   */
+  public getConfig(): HealingEngineConfig {
+    return { ...this.config };
   }
   
   /**
@@ -276,11 +384,145 @@ export class HealingEngine {
    */
   public updateConfig(newConfig: Partial<HealingEngineConfig>): void {
     this.config = { ...this.config, ...newConfig };
+    this.selectionPolicy = this.resolveSelectionPolicy();
     logger.info('Healing engine configuration updated', { config: this.config });
   }
   
   // Private helper methods
   
+  private resolveSelectionPolicy(): StrategySelectionPolicy {
+    const { selectionPolicy, explorationRate } = this.config;
+    return typeof selectionPolicy === 'string'
+      ? createSelectionPolicy(selectionPolicy, { explorationRate })
+      : selectionPolicy;
+  }
+  
+  private resolveMode(failure: TestFailure): HealingMode {
+    return failure.context?.testConfig?.healingConfig?.mode ?? this.config.mode;
+  }
+  
+  /**
+   * Decide whether a heal may be applied under the healing mode
+   *
+   * Successful heals that may not be applied are returned as suggestions;
+   * the mode and the failure details a reviewer's verdict is recorded
+   * against are kept in the metadata.
+   */
+  private applyMode(result: HealingResult, failure: TestFailure, mode: HealingMode): HealingResult {
+    const threshold = failure.context?.testConfig?.healingConfig?.confidenceThreshold ?? this.config.applyThreshold;
+    
+    switch (mode) {
+      case 'auto-apply':
+        result.applied = result.success;
+        break;
+      case 'auto-apply-above-threshold':
+        result.applied = result.success && result.confidence >= threshold;
+        break;
+      default:
+        result.applied = false;
+    }
+    
+    result.metadata = {
+      ...result.metadata,
+      healingMode: mode,
+      failureType: failure.type,
+      site: failureSite(failure),
+    };
+    
+    if (result.success && !result.applied) {
+      logger.info(`Heal suggested for review: ${failure.id}`, {
+        mode,
+        confidence: result.confidence,
+        threshold
+      });
+    }
+    
+    return result;
+  }
+  
+  private async recallFromMemory(failure: TestFailure, healingId: string, startTime: number): Promise<HealingResult | null> {
+    if (!this.memory?.enabled) {
+      return null;
+    }
+    
+    try {
+      const recalled = await this.memory.recallVerified(failure);
+      if (!recalled) {
+        return null;
+      }
+      
+      const { entry, score, probe } = recalled;
+      logger.info(`Reusing remembered heal for failure: ${failure.id}`, {
+        originalSelector: entry.originalSelector,
+        healedSelector: entry.healedSelector,
+        score
+      });
+      
+      return {
+        id: healingId,
+        success: true,
+        actions: [{
+          type: 'update_selector',
+          description: `Reused remembered selector: ${entry.healedSelector}`,
+          parameters: {
+            originalSelector: entry.originalSelector,
+            newSelector: entry.healedSelector,
+            strategy: 'healing-memory',
+            memoryId: entry.id,
+            probe
+          },
+          timestamp: new Date(),
+          result: 'success',
+          message: `Heal learned from ${entry.strategy} reused ${entry.hits} time(s)`
+        }],
+        confidence: score,
+        duration: Date.now() - startTime,
+        message: `Reused remembered heal: ${entry.originalSelector} -> ${entry.healedSelector}`,
+        metadata: {
+          strategy: 'healing-memory',
+          learnedFrom: entry.strategy,
+          memoryId: entry.id,
+          hits: entry.hits + 1,
+          timestamp: new Date(),
+        },
+      };
+    } catch (error) {
+      logger.warn(`Healing memory lookup failed for failure ${failure.id}:`, error);
+      return null;
+    }
+  }
+  
+  private async learn(failure: TestFailure, result: HealingResult): Promise<void> {
+    const selectors = findSelectorAction(result.actions);
+    if (!this.memory?.enabled || !selectors) {
+      return;
+    }
+    
+    try {
+      await this.memory.remember(
+        failure,
+        selectors.healedSelector,
+        result.metadata?.['strategy'] || 'unknown',
+        result.confidence
+      );
+    } catch (error) {
+      logger.warn(`Failed to remember heal for failure ${failure.id}:`, error);
+    }
+  }
+  
+  private async memoryConfidence(failure: TestFailure): Promise<number> {
+    if (!this.memory?.enabled) {
+      return 0;
+    }
+    
+    try {
+      return await this.memory.confidenceFor(failure);
+    } catch (error) {
+      logger.warn(`Healing memory lookup failed for failure ${failure.id}:`, error);
+      return 0;
+    }
+  }
+  
   private initializeStats(): HealingEngineStats {
     return {
       totalAttempts: 0,
@@ -309,12 +551,11 @@ export class HealingEngine {
     context: HealingContext
   ): Promise<HealingResult[]> {
     const results: HealingResult[] = [];
+    const candidates: StrategyCandidate[] = [];
     
+    // Calculate confidence first
     for (const strategy of strategies) {
       try {
-        logger.debug(`Trying strategy: ${strategy.name} for failure: ${failure.id}`);
-        
-        // Calculate confidence first
         const confidence = await strategy.calculateConfidence(failure, context);
         
         // Skip if confidence is too low
@@ -323,6 +564,27 @@ export class HealingEngine {
           continue;
         }
         
+        candidates.push({ strategy, confidence });
+      } catch (error) {
+        logger.warn(`Strategy ${strategy.name} failed for failure ${failure.id}:`, error);
+        results.push(this.createFailureResult(
+          this.generateHealingId(failure),
+          `Strategy ${strategy.name} failed: ${error}`,
+          0
+        ));
+      }
+    }
+    
+    const ordered = this.selectionPolicy.order(candidates, { failure, outcomes: this.outcomes });
+    logger.debug(`Strategy order for failure ${failure.id}`, {
+      policy: this.selectionPolicy.name,
+      strategies: ordered.map(candidate => candidate.strategy.name)
+    });
+    
+    for (const { strategy } of ordered) {
+      try {
+        logger.debug(`Trying strategy: ${strategy.name} for failure: ${failure.id}`);
+        
         // Try healing with timeout
         const result = await Promise.race([
           strategy.heal(failure, context),
@@ -330,6 +592,7 @@ export class HealingEngine {
         ]);
         
         results.push(result);
+        this.outcomes.record(strategy.name, failure, result.success);
         
         // If we got a successful result with high confidence, we can stop early
         if (result.success && result.confidence > 0.8) {
@@ -339,6 +602,7 @@ export class HealingEngine {
         
       } catch (error) {
         logger.warn(`Strategy ${strategy.name} failed for failure ${failure.id}:`, error);
+        this.outcomes.record(strategy.name, failure, false);
         
         // Create a failure result for this strategy
         results.push(this.createFailureResult(
@@ -372,10 +636,11 @@ export class HealingEngine {
     return sortedResults[0]!;
   }
   
-  private recordAttempt(testId: string, attempt: HealingAttempt): void {
-    const attempts = this.attemptHistory.get(testId) || [];
-    attempts.push(attempt);
-    this.attemptHistory.set(testId, attempts);
+  private recordAttempt(failure: TestFailure, attempt: HealingAttempt): void {
+    const byKey = this.attemptHistory.get(failure.testId) ?? new Map<string, HealingAttempt[]>();
+    const key = getAttemptKey(failure);
+    byKey.set(key, [...(byKey.get(key) ?? []), attempt]);
+    this.attemptHistory.set(failure.testId, byKey);
   }
   
   private updateStats(result: HealingResult, failure: TestFailure): void {
@@ -391,15 +656,16 @@ export class HealingEngine {
     this.stats.successRate = this.stats.successfulAttempts / this.stats.totalAttempts;
     
     // Update success rate by failure type
-    if (!this.stats.successRateByType[failure.type]) {
-      this.stats.successRateByType[failure.type] = 0;
+    const typeCounts = this.typeCounts.get(failure.type) || { successes: 0, attempts: 0 };
+    typeCounts.attempts++;
+    if (result.success) {
+      typeCounts.successes++;
     }
+    this.typeCounts.set(failure.type, typeCounts);
+    this.stats.successRateByType[failure.type] = typeCounts.successes / typeCounts.attempts;
     
-    // Update success rate by strategy
-    const strategyName = result.metadata?.['strategy'] || 'unknown';
-    if (!this.stats.successRateByStrategy[strategyName]) {
-      this.stats.successRateByStrategy[strategyName] = 0;
-    }
+    // Update success rate by strategy from every strategy tried so far
+    this.stats.successRateByStrategy = this.outcomes.ratesByStrategy();
     
     // Update average duration
     this.stats.averageDuration = 
@@ -452,3 +718,11 @@ export interface HealingAttempt {
   duration: number;
   message: string;
 }
+
+/**
+ * Load of the machine for healing contexts: the one-minute load average per
+ * CPU, capped at 1
+ */
+export function getSystemLoad(): number {
+  return Math.min(1, os.loadavg()[0]! / Math.max(1, os.cpus().length));
+}
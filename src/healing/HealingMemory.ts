@@ -0,0 +1,292 @@
+/**
+ * Healing Memory
+ *
+ * A knowledge base of heals that worked before. Each entry maps a failing
+ * selector on a page to the selector that replaced it, together with a
+ * structural fingerprint of the page DOM, hit and miss counts, and the time it
+ * was last used. The healing engine recalls entries before running any
+ * strategy, so a selector that broke once is not re-healed from scratch on
+ * every run.
+ *
+ * Entries are scored by their original confidence, their hit rate and an
+ * exponential decay since last use. Entries whose score falls below the
+ * configured minimum are ignored and can be purged.
+ */
+
+import { createHash } from 'crypto';
+import { HealingMemoryEntry, TestFailure } from '../types';
+import { DEFAULT_CONFIG, HealingMemoryConfig } from '../config/schemas';
+import { HealingMemoryFilter, HealingMemoryRepository } from '../storage';
+import { LocatorProbe, LocatorProbeResult, locatorProbe } from './LocatorProbe';
+import { logger } from '../utils/logger';
+
+/**
+ * Default memory settings, shared with the application config defaults
+ */
+export const DEFAULT_HEALING_MEMORY_CONFIG: HealingMemoryConfig = DEFAULT_CONFIG.healing!.memory;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Score multiplier when the page structure changed since the heal was learned
+ */
+const FINGERPRINT_MISMATCH_FACTOR = 0.8;
+
+/**
+ * Number of leading element tags used for the DOM fingerprint
+ */
+const FINGERPRINT_TAG_LIMIT = 500;
+
+/**
+ * Remembered heal with its current score
+ */
+export interface ScoredMemoryEntry {
+  entry: HealingMemoryEntry;
+  score: number;
+}
+
+/**
+ * Heal recalled from memory and verified against the failing page
+ */
+export interface RecalledHeal extends ScoredMemoryEntry {
+  probe: LocatorProbeResult;
+}
+
+/**
+ * Options for purging the memory
+ */
+export interface HealingMemoryPurgeOptions {
+  /** Remove every entry */
+  all?: boolean;
+
+  /** Remove entries scoring below this value (defaults to the configured minimum) */
+  belowScore?: number;
+
+  /** Remove entries last used before this date */
+  lastUsedBefore?: Date;
+}
+
+/**
+ * Extract the failing selector from a test failure
+ */
+export function extractFailureSelector(failure: TestFailure): string | null {
+  const custom = failure.context?.custom;
+  if (typeof custom?.['selector'] === 'string' && custom['selector']) {
+    return custom['selector'];
+  }
+  if (typeof custom?.['locator'] === 'string' && custom['locator']) {
+    return custom['locator'];
+  }
+  return null;
+}
+
+/**
+ * Normalize a page URL to origin and path so query strings do not split entries
+ */
+export function normalizeMemoryUrl(url: string | undefined): string {
+  if (!url) {
+    return '';
+  }
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url.split(/[?#]/)[0] || '';
+  }
+}
+
+/**
+ * Fingerprint the structure of a DOM snapshot
+ *
+ * Only the sequence of element tags is hashed, so text and attribute changes
+ * do not alter the fingerprint while layout changes do.
+ */
+export function fingerprintDom(html: string | undefined): string {
+  if (!html) {
+    return '';
+  }
+  const tags = (html.match(/<([a-zA-Z][\w-]*)/g) || [])
+    .slice(0, FINGERPRINT_TAG_LIMIT)
+    .map(tag => tag.substring(1).toLowerCase());
+  return createHash('sha1').update(tags.join(' ')).digest('hex').substring(0, 16);
+}
+
+/**
+ * Healing Memory
+ */
+export class HealingMemory {
+  private config: HealingMemoryConfig;
+
+  constructor(
+    private repository: HealingMemoryRepository,
+    config: Partial<HealingMemoryConfig> = {},
+    private probe: LocatorProbe = locatorProbe
+  ) {
+    this.config = { ...DEFAULT_HEALING_MEMORY_CONFIG, ...config };
+  }
+
+  /**
+   * Whether the memory is consulted and updated
+   */
+  public get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Current score of an entry
+   */
+  public score(entry: HealingMemoryEntry, domFingerprint: string = '', now: Date = new Date()): number {
+    const age = Math.max(0, now.getTime() - entry.lastUsedAt.getTime());
+    const decay = this.config.halfLifeDays > 0
+      ? Math.pow(0.5, age / (this.config.halfLifeDays * DAY_MS))
+      : 1;
+    const reliability = (entry.hits + 1) / (entry.hits + entry.misses + 1);
+    const structure = domFingerprint && entry.domFingerprint && domFingerprint !== entry.domFingerprint
+      ? FINGERPRINT_MISMATCH_FACTOR
+      : 1;
+
+    return Math.min(1, entry.confidence * reliability * decay * structure);
+  }
+
+  /**
+   * Find remembered heals for a failure, best first
+   *
+   * Entries learned on a different page are ignored; entries scoring below
+   * the configured minimum are dropped.
+   */
+  public async recall(failure: TestFailure): Promise<ScoredMemoryEntry[]> {
+    const selector = extractFailureSelector(failure);
+    if (!this.config.enabled || !selector) {
+      return [];
+    }
+
+    const url = normalizeMemoryUrl(failure.context?.browserState?.url);
+    const fingerprint = fingerprintDom(failure.context?.browserState?.domSnapshot);
+    const entries = await this.repository.findAll({ originalSelector: selector });
+
+    return entries
+      .filter(entry => !url || !entry.url || entry.url === url)
+      .map(entry => ({ entry, score: this.score(entry, fingerprint) }))
+      .filter(candidate => candidate.score >= this.config.minScore)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Recall the best remembered heal that still matches the failing page
+   *
+   * Candidates are probed against the live page or DOM snapshot. A candidate
+   * that no longer matches is counted as a miss and the next one is tried.
+   * When there is no evidence to probe, the best candidate is trusted.
+   */
+  public async recallVerified(failure: TestFailure): Promise<RecalledHeal | null> {
+    for (const candidate of await this.recall(failure)) {
+      const probe = await this.probe.probe(candidate.entry.healedSelector, failure);
+      if (probe.source !== 'none' && !probe.visible) {
+        await this.recordMiss(candidate.entry);
+        continue;
+      }
+      await this.recordHit(candidate.entry, failure);
+      return { ...candidate, probe };
+    }
+    return null;
+  }
+
+  /**
+   * Highest score among remembered heals for a failure
+   */
+  public async confidenceFor(failure: TestFailure): Promise<number> {
+    const candidates = await this.recall(failure);
+    return candidates[0]?.score ?? 0;
+  }
+
+  /**
+   * Remember a successful heal
+   *
+   * Learning the same heal again refreshes it with the latest confidence and
+   * page fingerprint.
+   */
+  public async remember(
+    failure: TestFailure,
+    healedSelector: string,
+    strategy: string,
+    confidence: number
+  ): Promise<HealingMemoryEntry | null> {
+    const originalSelector = extractFailureSelector(failure);
+    if (!this.config.enabled || !originalSelector || originalSelector === healedSelector) {
+      return null;
+    }
+
+    const url = normalizeMemoryUrl(failure.context?.browserState?.url);
+    const id = createMemoryId(url, originalSelector, healedSelector);
+    const existing = await this.repository.findById(id);
+    const now = new Date();
+
+    const entry: HealingMemoryEntry = {
+      id,
+      originalSelector,
+      healedSelector,
+      url,
+      domFingerprint: fingerprintDom(failure.context?.browserState?.domSnapshot),
+      strategy: existing?.strategy ?? strategy,
+      confidence: Math.max(0, Math.min(1, confidence)),
+      hits: existing?.hits ?? 0,
+      misses: existing?.misses ?? 0,
+      createdAt: existing?.createdAt ?? now,
+      lastUsedAt: now,
+    };
+
+    logger.debug('Healing memory updated', { originalSelector, healedSelector, url, strategy });
+    return this.repository.save(entry);
+  }
+
+  /**
+   * Remove stale or all entries, returning the number removed
+   */
+  public async purge(options: HealingMemoryPurgeOptions = {}): Promise<number> {
+    if (options.all) {
+      const count = await this.repository.count();
+      await this.repository.clear();
+      return count;
+    }
+
+    const filter: HealingMemoryFilter = {};
+    if (options.lastUsedBefore) {
+      filter.lastUsedBefore = options.lastUsedBefore;
+    }
+    const threshold = options.belowScore ?? this.config.minScore;
+
+    let removed = 0;
+    for (const entry of await this.repository.findAll(filter)) {
+      if (options.lastUsedBefore || this.score(entry) < threshold) {
+        if (await this.repository.delete(entry.id)) {
+          removed++;
+        }
+      }
+    }
+
+    logger.info('Healing memory purged', { removed });
+    return removed;
+  }
+
+  private async recordHit(entry: HealingMemoryEntry, failure: TestFailure): Promise<void> {
+    const fingerprint = fingerprintDom(failure.context?.browserState?.domSnapshot);
+    await this.repository.save({
+      ...entry,
+      hits: entry.hits + 1,
+      lastUsedAt: new Date(),
+      ...(fingerprint && { domFingerprint: fingerprint }),
+    });
+  }
+
+  private async recordMiss(entry: HealingMemoryEntry): Promise<void> {
+    await this.repository.save({ ...entry, misses: entry.misses + 1 });
+  }
+}
+
+/**
+ * Derive a stable entry ID from the page URL and both selectors
+ */
+function createMemoryId(url: string, originalSelector: string, healedSelector: string): string {
+  const digest = createHash('sha1').update(`${url}\n${originalSelector}\n${healedSelector}`).digest('hex');
+  return `memory_${digest.substring(0, 24)}`;
+}
@@ -0,0 +1,352 @@
+/**
+ * Healing Replay
+ *
+ * Re-runs healing against a failure captured during an earlier run, so
+ * strategies and thresholds can be compared without re-running the test.
+ * The failure's DOM snapshot is loaded into a headless page with scripts and
+ * network turned off, and strategies probe it as they probed the live page;
+ * when no browser can be launched they probe the snapshot itself.
+ *
+ * Replays heal with fresh engines and fresh strategy instances that share
+ * only the configured engine's settings, not its attempt history, statistics,
+ * strategy outcomes or memory, so replaying never changes what was learned.
+ */
+
+import { chromium } from 'playwright';
+import { HealingContext, HealingMode, HealingResult, IHealingStrategy, TestFailure, TestResult } from '../types';
+import { logger } from '../utils/logger';
+import { HealingEngine, getSystemLoad } from './HealingEngine';
+import { LocatorProbeSource, ProbePage, locatorProbe } from './LocatorProbe';
+import { findSelectorAction } from './SelectorPatchManager';
+import { AccessibilityLocatorStrategy } from './strategies/AccessibilityLocatorStrategy';
+import { CSSFallbackStrategy } from './strategies/CSSFallbackStrategy';
+import { IDFallbackStrategy } from './strategies/IDFallbackStrategy';
+import { NeighborAnalysisStrategy } from './strategies/NeighborAnalysisStrategy';
+import { VisualMatchStrategy } from './strategies/VisualMatchStrategy';
+import { XPathFallbackStrategy } from './strategies/XPathFallbackStrategy';
+import { VisualBaselineStore } from './VisualBaselines';
+
+/**
+ * Page a failure's DOM snapshot was loaded into
+ */
+export interface ReplayPage {
+  page: ProbePage;
+  close(): Promise<void>;
+}
+
+/**
+ * Load a DOM snapshot into a page
+ */
+export type ReplayPageLauncher = (html: string, viewport?: { width: number; height: number }) => Promise<ReplayPage>;
+
+/**
+ * Options of a healing replayer
+ */
+export interface HealingReplayerOptions {
+  /** Create the strategies of one heal; defaults to the built-in DOM strategies */
+  createStrategies?: () => IHealingStrategy[];
+
+  /** Load a snapshot into a page; defaults to a headless Chromium page */
+  launchPage?: ReplayPageLauncher;
+}
+
+/**
+ * Options of a replay
+ */
+export interface HealingReplayOptions {
+  /** Strategies to replay with; defaults to every available strategy */
+  strategies?: string[];
+
+  /** Healing mode deciding whether the heal would be applied */
+  mode?: HealingMode;
+
+  /** Confidence a heal needs to be applied in auto-apply-above-threshold mode */
+  confidenceThreshold?: number;
+
+  /** Confidence a strategy's estimate needs for the strategy to be tried */
+  minConfidence?: number;
+
+  /** Whether to load the snapshot into a headless page (default: true) */
+  browser?: boolean;
+}
+
+/**
+ * Selector one strategy proposes on its own
+ */
+export interface HealingReplayCandidate {
+  strategy: string;
+  selector?: string;
+  confidence: number;
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Outcome of replaying one failure
+ */
+export interface HealingReplay {
+  failureId: string;
+
+  /** Selector that failed */
+  selector?: string;
+
+  /** Evidence strategies probed */
+  source: LocatorProbeSource;
+
+  /** Why the snapshot was not loaded into a page */
+  pageError?: string;
+
+  /** Heal the engine picks with every replayed strategy */
+  result: HealingResult;
+
+  /** What each applicable strategy proposes on its own, best first */
+  candidates: HealingReplayCandidate[];
+}
+
+/**
+ * Error raised when a failure cannot be replayed
+ */
+export class HealingReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HealingReplayError';
+  }
+}
+
+/**
+ * Strategies replays use unless told otherwise
+ *
+ * With a visual baseline store, elements are also matched by their crops
+ * from passing runs.
+ */
+export function createReplayStrategies(visualBaselines?: VisualBaselineStore): IHealingStrategy[] {
+  return [
+    new AccessibilityLocatorStrategy(),
+    new CSSFallbackStrategy(),
+    new IDFallbackStrategy(),
+    new NeighborAnalysisStrategy(),
+    new XPathFallbackStrategy(),
+    ...(visualBaselines ? [new VisualMatchStrategy(visualBaselines)] : []),
+  ];
+}
+
+/**
+ * Load a DOM snapshot into a headless Chromium page that runs no scripts and
+ * sends no requests
+ */
+export const launchReplayPage: ReplayPageLauncher = async (html, viewport) => {
+  const browser = await chromium.launch({ headless: true });
+  try {
+    const context = await browser.newContext({ javaScriptEnabled: false, ...(viewport && { viewport }) });
+    await context.route('**/*', route => route.abort());
+    const page = await context.newPage();
+    await page.setContent(html, { waitUntil: 'domcontentloaded' });
+    return { page, close: () => browser.close() };
+  } catch (error) {
+    await browser.close();
+    throw error;
+  }
+};
+
+/**
+ * Failures stored with a test result's inline healing attempts
+ */
+export function getStoredFailures(result: TestResult, attemptId?: string): TestFailure[] {
+  return (result.healingAttempts ?? [])
+    .filter(attempt => attemptId === undefined || attempt.id === attemptId)
+    .flatMap(attempt => attempt.failure ? [attempt.failure] : []);
+}
+
+/**
+ * Failure to locate a selector, built from the context captured when the test failed
+ */
+export function createFailureFromResult(result: TestResult, selector: string): TestFailure | null {
+  if (!result.failureContext) {
+    return null;
+  }
+
+  return {
+    id: `${result.id}-failure`,
+    testId: result.id,
+    type: 'element_not_found',
+    message: `Failed to locate element: ${selector}`,
+    timestamp: result.endTime ?? result.startTime,
+    context: {
+      ...result.failureContext,
+      custom: { ...result.failureContext.custom, selector },
+    },
+    previousAttempts: [],
+  };
+}
+
+/**
+ * Replays healing against stored failures
+ *
+ * Strategies count attempts and successes per instance, so every heal of a
+ * replay gets new instances.
+ */
+export class HealingReplayer {
+  private createStrategies: () => IHealingStrategy[];
+  private launchPage: ReplayPageLauncher;
+
+  /**
+   * @param engine Engine whose configuration replays use; defaults are used without one
+   */
+  constructor(private engine: HealingEngine | null, options: HealingReplayerOptions = {}) {
+    this.createStrategies = options.createStrategies ?? createReplayStrategies;
+    this.launchPage = options.launchPage ?? launchReplayPage;
+  }
+
+  /**
+   * Names of the strategies replays can use
+   */
+  public getStrategyNames(): string[] {
+    return this.createStrategies().map(strategy => strategy.name);
+  }
+
+  /**
+   * Replay healing against a failure
+   */
+  public async replay(failure: TestFailure, options: HealingReplayOptions = {}): Promise<HealingReplay> {
+    const names = this.selectStrategies(options.strategies);
+    const domSnapshot = failure.context?.browserState?.domSnapshot;
+    if (domSnapshot === undefined) {
+      throw new HealingReplayError(`Failure ${failure.id} has no DOM snapshot to replay against`);
+    }
+
+    // A test id of its own keeps concurrent replays of one test on their own pages
+    const replayed = this.prepareFailure(failure, options);
+    let page: ReplayPage | null = null;
+    let pageError: string | undefined;
+    if (options.browser !== false) {
+      try {
+        page = await this.launchPage(domSnapshot, failure.context.browserState?.viewport);
+        locatorProbe.attachPage(replayed.testId, page.page);
+      } catch (error) {
+        // Launch errors can carry multi-line installation hints
+        pageError = (error as Error).message.split('\n')[0]!;
+        logger.warn(`Replaying healing against the DOM snapshot of failure ${failure.id}: ${pageError}`);
+      }
+    }
+
+    try {
+      const result = await this.heal(replayed, names, options);
+      const candidates: HealingReplayCandidate[] = [];
+      const applicable = this.createStrategies()
+        .filter(strategy => names.includes(strategy.name) && strategy.canHeal(replayed))
+        .map(strategy => strategy.name);
+      for (const name of applicable) {
+        const candidate = await this.heal(replayed, [name], options);
+        const selectors = findSelectorAction(candidate.actions);
+        candidates.push({
+          strategy: name,
+          ...(selectors && { selector: selectors.healedSelector }),
+          confidence: candidate.confidence,
+          success: candidate.success,
+          message: candidate.message,
+        });
+      }
+      candidates.sort((a, b) => Number(b.success) - Number(a.success) || b.confidence - a.confidence);
+
+      const selector = failure.context.custom?.['selector'];
+      return {
+        failureId: failure.id,
+        ...(typeof selector === 'string' && { selector }),
+        source: page ? 'page' : 'dom-snapshot',
+        ...(pageError !== undefined && { pageError }),
+        result,
+        candidates,
+      };
+    } finally {
+      if (page) {
+        locatorProbe.detachPage(replayed.testId);
+        await page.close().catch(error => logger.warn('Failed to close replay page:', error));
+      }
+    }
+  }
+
+  private selectStrategies(names?: string[]): string[] {
+    const available = this.getStrategyNames();
+    if (!names?.length) {
+      return available;
+    }
+
+    const unknown = names.filter(name => !available.includes(name));
+    if (unknown.length > 0) {
+      throw new HealingReplayError(
+        `Unknown healing strategies: ${unknown.join(', ')}. Available strategies: ${available.join(', ')}`
+      );
+    }
+    return available.filter(name => names.includes(name));
+  }
+
+  /**
+   * Copy a stored failure, applying the replay's mode and threshold to its test's healing settings
+   */
+  private prepareFailure(failure: TestFailure, options: HealingReplayOptions): TestFailure {
+    const testConfig = failure.context.testConfig;
+    return {
+      ...failure,
+      testId: `${failure.testId}-replay-${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`,
+      timestamp: new Date(failure.timestamp),
+      previousAttempts: [],
+      context: {
+        ...failure.context,
+        ...(testConfig?.healingConfig && {
+          testConfig: {
+            ...testConfig,
+            healingConfig: {
+              ...testConfig.healingConfig,
+              ...(options.mode !== undefined && { mode: options.mode }),
+              ...(options.confidenceThreshold !== undefined && { confidenceThreshold: options.confidenceThreshold }),
+            },
+          },
+        }),
+      },
+    };
+  }
+
+  /**
+   * Heal with a fresh engine running new instances of the named strategies
+   */
+  private async heal(failure: TestFailure, names: string[], options: HealingReplayOptions): Promise<HealingResult> {
+    const engine = new HealingEngine({
+      ...this.engine?.getConfig(),
+      enableDetailedLogging: false,
+      ...(options.mode !== undefined && { mode: options.mode }),
+      ...(options.confidenceThreshold !== undefined && { applyThreshold: options.confidenceThreshold }),
+      ...(options.minConfidence !== undefined && { minConfidenceThreshold: options.minConfidence }),
+    });
+    for (const strategy of this.createStrategies().filter(candidate => names.includes(candidate.name))) {
+      engine.registerStrategy(strategy);
+    }
+    return engine.heal(failure, createReplayContext(failure, names));
+  }
+}
+
+/**
+ * Healing context matching the one the failure was healed with during its run
+ */
+function createReplayContext(failure: TestFailure, names: string[]): HealingContext {
+  const maxAttempts = failure.context.testConfig?.healingConfig?.maxAttempts;
+  return {
+    availableStrategies: names,
+    previousAttempts: [],
+    ...(maxAttempts !== undefined && { maxAttempts }),
+    systemState: {
+      load: getSystemLoad(),
+      resources: { memory: process.memoryUsage().heapUsed / 1024 / 1024, cpu: 0, disk: 0 },
+      activeTests: 0,
+      queueLength: 0,
+    },
+    userPreferences: {
+      preferredStrategies: names,
+      riskTolerance: 'medium',
+      notifications: {
+        onHealingAttempt: false,
+        onHealingSuccess: false,
+        onHealingFailure: false,
+      },
+    },
+  };
+}
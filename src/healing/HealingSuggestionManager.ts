@@ -0,0 +1,144 @@
+/**
+ * Healing Suggestion Manager
+ *
+ * Keeps the review queue for heals found in suggest mode. A suggested heal
+ * leaves the test outcome untouched; it is persisted as a healing attempt
+ * with a pending review so a person can approve or reject it later. The
+ * review routes feed the verdicts back into the strategy statistics of the
+ * shared healing engine the server creates at start.
+ */
+
+import { FailureType, TestResult } from '../types';
+import { HealingAttemptRecord, HealingAttemptRepository } from '../storage';
+import { logger } from '../utils/logger';
+import { findSelectorAction } from './SelectorPatchManager';
+import { findAssertionAction } from './ContractDrift';
+
+/**
+ * Reasons a suggestion review can fail
+ */
+export type HealingSuggestionErrorCode = 'not_suggested' | 'invalid_state';
+
+/**
+ * Error raised by the healing suggestion manager
+ */
+export class HealingSuggestionError extends Error {
+  public readonly code: HealingSuggestionErrorCode;
+
+  constructor(message: string, code: HealingSuggestionErrorCode) {
+    super(message);
+    this.name = 'HealingSuggestionError';
+    this.code = code;
+  }
+}
+
+/**
+ * Failure details a reviewer's verdict is recorded against
+ */
+export interface SuggestionFeedback {
+  strategy: string;
+  failureType: FailureType;
+  site: string;
+}
+
+/**
+ * Failure details stored with a suggestion by the healing engine
+ */
+export function getSuggestionFeedback(record: HealingAttemptRecord): SuggestionFeedback {
+  return {
+    strategy: record.strategy,
+    failureType: record.metadata?.['failureType'] || 'unknown',
+    site: record.metadata?.['site'] || '',
+  };
+}
+
+/**
+ * Healing Suggestion Manager
+ */
+export class HealingSuggestionManager {
+  constructor(private repository: HealingAttemptRepository) {}
+
+  /**
+   * Queue every heal a test run suggested without applying
+   *
+   * Suggestions already in the queue are left as they are, so a result
+   * reported more than once does not reset their reviews.
+   */
+  public async recordFromResult(result: TestResult): Promise<HealingAttemptRecord[]> {
+    const records: HealingAttemptRecord[] = [];
+
+    for (const attempt of result.healingAttempts) {
+      if (!attempt.result.success || attempt.result.applied !== false) {
+        continue;
+      }
+      if (await this.repository.findById(attempt.result.id)) {
+        continue;
+      }
+
+      const selectors = findSelectorAction(attempt.result.actions);
+      const paths = findAssertionAction(attempt.result.actions);
+      const record: HealingAttemptRecord = {
+        ...attempt.result,
+        testId: result.id,
+        strategy: attempt.strategy,
+        timestamp: attempt.timestamp,
+        ...(selectors && {
+          changes: { before: selectors.originalSelector, after: selectors.healedSelector, type: 'selector' },
+        }),
+        ...(paths && {
+          changes: { before: paths.originalPath, after: paths.healedPath, type: 'assertion' },
+        }),
+        review: { status: 'pending' },
+      };
+
+      records.push(await this.repository.save(record));
+    }
+
+    if (records.length > 0) {
+      logger.info('Healing suggestions queued for review', { testId: result.id, count: records.length });
+    }
+    return records;
+  }
+
+  /**
+   * Approve a pending suggestion
+   */
+  public async approve(id: string, reviewer?: string, reason?: string): Promise<HealingAttemptRecord | null> {
+    return this.review(id, true, reviewer, reason);
+  }
+
+  /**
+   * Reject a pending suggestion
+   */
+  public async reject(id: string, reviewer?: string, reason?: string): Promise<HealingAttemptRecord | null> {
+    return this.review(id, false, reviewer, reason);
+  }
+
+  private async review(
+    id: string,
+    approved: boolean,
+    reviewer?: string,
+    reason?: string
+  ): Promise<HealingAttemptRecord | null> {
+    const record = await this.repository.findById(id);
+    if (!record) {
+      return null;
+    }
+    if (!record.review) {
+      throw new HealingSuggestionError(`Healing attempt ${id} was not suggested for review`, 'not_suggested');
+    }
+    if (record.review.status !== 'pending') {
+      throw new HealingSuggestionError(`Healing suggestion ${id} is already ${record.review.status}`, 'invalid_state');
+    }
+
+    record.review = {
+      status: approved ? 'approved' : 'rejected',
+      reviewer: reviewer ?? 'api',
+      ...(reason !== undefined && { reason }),
+      reviewedAt: new Date(),
+    };
+
+    logger.info(`Healing suggestion ${record.review.status}`, { attemptId: id, reviewer: record.review.reviewer });
+    return this.repository.save(record);
+  }
+}
@@ -0,0 +1,486 @@
+/**
+ * Image Matching
+ *
+ * CPU-only image utilities used by visual healing: a minimal PNG codec for
+ * the 8-bit images Playwright captures, cropping, a difference hash for
+ * perceptual comparison, and coarse-to-fine template matching by normalized
+ * cross-correlation.
+ */
+
+import { deflateSync, inflateSync } from 'zlib';
+
+/**
+ * Decoded image with 8-bit RGBA pixels in row-major order
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Grayscale image with one luminance value per pixel
+ */
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/**
+ * Rectangle in image pixels
+ */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Best match of a template inside a larger image
+ */
+export interface TemplateMatch extends ImageRegion {
+  /** Normalized cross-correlation of the region and the template (-1 to 1) */
+  correlation: number;
+}
+
+/**
+ * Options for template matching
+ */
+export interface TemplateMatchOptions {
+  /** Shorter template side after downscaling for the coarse search */
+  coarseSize?: number;
+
+  /** Number of coarse positions refined at full resolution */
+  candidates?: number;
+
+  /** Pixel comparisons allowed in the coarse search before downscaling further */
+  maxCoarseWork?: number;
+}
+
+/**
+ * Shortest template side kept when downscaling to bound the coarse search
+ */
+const MIN_COARSE_SIDE = 4;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Channels per pixel for each supported PNG color type
+ */
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Decode an 8-bit, non-interlaced PNG
+ */
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset + 8 <= buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      const bitDepth = chunk[8];
+      const colorType = chunk[9]!;
+      const interlace = chunk[12];
+      channels = PNG_CHANNELS[colorType] ?? 0;
+      if (bitDepth !== 8 || !channels || interlace !== 0) {
+        throw new Error(`Unsupported PNG format: bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace}`);
+      }
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!width || !height) {
+    throw new Error('PNG image has no header');
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = unfilter(raw, height, stride, channels);
+  const data = new Uint8Array(width * height * 4);
+
+  for (let i = 0, p = 0; i < width * height; i++, p += channels) {
+    const o = i * 4;
+    if (channels === 1 || channels === 2) {
+      data[o] = data[o + 1] = data[o + 2] = pixels[p]!;
+      data[o + 3] = channels === 2 ? pixels[p + 1]! : 255;
+    } else {
+      data[o] = pixels[p]!;
+      data[o + 1] = pixels[p + 1]!;
+      data[o + 2] = pixels[p + 2]!;
+      data[o + 3] = channels === 4 ? pixels[p + 3]! : 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Encode an image as an RGBA PNG
+ */
+export function encodePng(image: RgbaImage): Buffer {
+  const stride = image.width * 4;
+  const raw = Buffer.alloc((stride + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    raw[y * (stride + 1)] = 0;
+    raw.set(image.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8;
+  header[9] = 6;
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Copy a region of an image, clipped to the image bounds
+ */
+export function cropImage(image: RgbaImage, region: ImageRegion): RgbaImage {
+  const x = Math.max(0, Math.round(region.x));
+  const y = Math.max(0, Math.round(region.y));
+  const width = Math.max(0, Math.min(image.width - x, Math.round(region.width)));
+  const height = Math.max(0, Math.min(image.height - y, Math.round(region.height)));
+  const data = new Uint8Array(width * height * 4);
+
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * image.width + x) * 4;
+    data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Convert an image to luminance
+ */
+export function toGrayscale(image: RgbaImage): GrayImage {
+  const data = new Float32Array(image.width * image.height);
+  for (let i = 0; i < data.length; i++) {
+    const o = i * 4;
+    data[i] = 0.299 * image.data[o]! + 0.587 * image.data[o + 1]! + 0.114 * image.data[o + 2]!;
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+/**
+ * Difference hash: 64 bits comparing horizontally adjacent cells of a 9x8 thumbnail
+ */
+export function differenceHash(image: GrayImage): string {
+  const thumbnail = resizeGray(image, 9, 8);
+
+  let hash = '';
+  for (let y = 0; y < 8; y++) {
+    let nibble = 0;
+    for (let x = 0; x < 8; x++) {
+      const left = thumbnail.data[y * 9 + x]!;
+      const right = thumbnail.data[y * 9 + x + 1]!;
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      if (x % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * Similarity of two difference hashes (1 means identical)
+ */
+export function hashSimilarity(a: string, b: string): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i]!, 16) ^ parseInt(b[i]!, 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return 1 - distance / (a.length * 4);
+}
+
+/**
+ * Find the region of an image that best matches a template
+ *
+ * Candidates are found by an exhaustive search on downscaled images and
+ * refined at full resolution around each candidate. Returns null when the
+ * template does not fit inside the image.
+ */
+export function findTemplate(
+  haystack: GrayImage,
+  template: GrayImage,
+  options: TemplateMatchOptions = {}
+): TemplateMatch | null {
+  if (template.width === 0 || template.height === 0 ||
+      template.width > haystack.width || template.height > haystack.height) {
+    return null;
+  }
+
+  // Downscale until the template is near the coarse size, and further when
+  // scanning the whole image would still take too many pixel comparisons
+  const shortSide = Math.min(template.width, template.height);
+  const work = (haystack.width - template.width + 1) * (haystack.height - template.height + 1) *
+    template.width * template.height;
+  const workFactor = Math.ceil(Math.pow(work / (options.maxCoarseWork ?? 2_000_000), 0.25));
+  const factor = Math.max(
+    1,
+    Math.floor(shortSide / (options.coarseSize ?? 16)),
+    Math.min(workFactor, Math.floor(shortSide / MIN_COARSE_SIDE))
+  );
+  const smallHaystack = factor > 1 ? downscaleGray(haystack, factor) : haystack;
+  const smallTemplate = factor > 1 ? downscaleGray(template, factor) : template;
+
+  const coarse = scanPositions(
+    smallHaystack,
+    smallTemplate,
+    0,
+    0,
+    smallHaystack.width - smallTemplate.width,
+    smallHaystack.height - smallTemplate.height
+  );
+
+  // Keep the best coarse positions that are not adjacent to a better one
+  const candidates: Array<{ x: number; y: number; score: number }> = [];
+  for (const position of coarse.sort((a, b) => b.score - a.score)) {
+    if (candidates.length >= (options.candidates ?? 5)) {
+      break;
+    }
+    if (candidates.every(c => Math.abs(c.x - position.x) > 1 || Math.abs(c.y - position.y) > 1)) {
+      candidates.push(position);
+    }
+  }
+
+  let best: TemplateMatch | null = null;
+  for (const candidate of candidates) {
+    const refined = scanPositions(
+      haystack,
+      template,
+      Math.max(0, (candidate.x - 1) * factor),
+      Math.max(0, (candidate.y - 1) * factor),
+      Math.min(haystack.width - template.width, (candidate.x + 1) * factor),
+      Math.min(haystack.height - template.height, (candidate.y + 1) * factor)
+    );
+    for (const position of refined) {
+      if (!best || position.score > best.correlation) {
+        best = { x: position.x, y: position.y, width: template.width, height: template.height, correlation: position.score };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Normalized cross-correlation of a template at every position in a window
+ */
+function scanPositions(
+  haystack: GrayImage,
+  template: GrayImage,
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number
+): Array<{ x: number; y: number; score: number }> {
+  const n = template.width * template.height;
+  let templateMean = 0;
+  for (let i = 0; i < n; i++) {
+    templateMean += template.data[i]!;
+  }
+  templateMean /= n;
+
+  const centered = new Float32Array(n);
+  let templateEnergy = 0;
+  for (let i = 0; i < n; i++) {
+    centered[i] = template.data[i]! - templateMean;
+    templateEnergy += centered[i]! * centered[i]!;
+  }
+
+  const positions: Array<{ x: number; y: number; score: number }> = [];
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      let sum = 0;
+      let sumSquares = 0;
+      let dot = 0;
+      let absDiff = 0;
+
+      for (let ty = 0; ty < template.height; ty++) {
+        const row = (y + ty) * haystack.width + x;
+        const templateRow = ty * template.width;
+        for (let tx = 0; tx < template.width; tx++) {
+          const value = haystack.data[row + tx]!;
+          sum += value;
+          sumSquares += value * value;
+          dot += value * centered[templateRow + tx]!;
+          absDiff += Math.abs(value - template.data[templateRow + tx]!);
+        }
+      }
+
+      const regionEnergy = sumSquares - (sum * sum) / n;
+      let score: number;
+      if (templateEnergy < 1e-6 || regionEnergy < 1e-6) {
+        // Flat images have no correlation; compare intensities instead
+        score = templateEnergy < 1e-6 && regionEnergy < 1e-6 ? 1 - absDiff / (n * 255) : 0;
+      } else {
+        score = dot / Math.sqrt(regionEnergy * templateEnergy);
+      }
+      positions.push({ x, y, score });
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Reverse PNG scanline filters
+ */
+function unfilter(raw: Buffer, height: number, stride: number, bpp: number): Uint8Array {
+  const output = new Uint8Array(height * stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const input = y * (stride + 1) + 1;
+    const row = y * stride;
+    const previous = row - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const value = raw[input + x]!;
+      const left = x >= bpp ? output[row + x - bpp]! : 0;
+      const up = y > 0 ? output[previous + x]! : 0;
+      const upLeft = y > 0 && x >= bpp ? output[previous + x - bpp]! : 0;
+
+      let predicted: number;
+      switch (filter) {
+        case 0: predicted = 0; break;
+        case 1: predicted = left; break;
+        case 2: predicted = up; break;
+        case 3: predicted = (left + up) >> 1; break;
+        case 4: predicted = paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter type: ${filter}`);
+      }
+      output[row + x] = (value + predicted) & 0xff;
+    }
+  }
+
+  return output;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) {
+    return a;
+  }
+  return pb <= pc ? b : c;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, 'ascii');
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Downscale by averaging square blocks of pixels
+ */
+function downscaleGray(image: GrayImage, factor: number): GrayImage {
+  const width = Math.floor(image.width / factor);
+  const height = Math.floor(image.height / factor);
+  const data = new Float32Array(width * height);
+  const area = factor * factor;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let dy = 0; dy < factor; dy++) {
+        const row = (y * factor + dy) * image.width + x * factor;
+        for (let dx = 0; dx < factor; dx++) {
+          sum += image.data[row + dx]!;
+        }
+      }
+      data[y * width + x] = sum / area;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Resize to an exact size by averaging the source pixels covering each cell
+ */
+function resizeGray(image: GrayImage, width: number, height: number): GrayImage {
+  const data = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * image.height / height);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * image.height / height));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * image.width / width);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * image.width / width));
+      let sum = 0;
+      let count = 0;
+      for (let sy = y0; sy < Math.min(y1, image.height); sy++) {
+        for (let sx = x0; sx < Math.min(x1, image.width); sx++) {
+          sum += image.data[sy * image.width + sx]!;
+          count++;
+        }
+      }
+      data[y * width + x] = count > 0 ? sum / count : 0;
+    }
+  }
+
+  return { width, height, data };
+}
@@ -0,0 +1,193 @@
+/**
+ * JSONPath
+ *
+ * Parses and evaluates the JSONPath subset API tests assert with, and lists
+ * the paths of a JSON document for healing strategies that look for a field
+ * that moved:
+ *
+ * - `$` is the document
+ * - `.name` and `['name']` read an object member
+ * - `[0]` reads an array item, `[-1]` counts from the end
+ * - `.*` and `[*]` read every member or item
+ * - `..name` reads a member at any depth
+ */
+
+/**
+ * One step of a JSONPath
+ */
+export type JsonPathSegment =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'descendant'; key: string };
+
+/**
+ * Value of a document at a definite path
+ */
+export interface JsonPathEntry {
+  segments: JsonPathSegment[];
+  value: unknown;
+}
+
+/**
+ * Error raised for a JSONPath that cannot be parsed
+ */
+export class JsonPathError extends Error {
+  constructor(message: string, public readonly path: string) {
+    super(message);
+    this.name = 'JsonPathError';
+  }
+}
+
+/**
+ * Paths listed for one document at most, so huge responses stay cheap to search
+ */
+const MAX_LISTED_PATHS = 5000;
+
+const NAME_PATTERN = /^[A-Za-z0-9_$-]+/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$-]*$/;
+const BRACKET_PATTERN = /^\[(?:(\*)|(-?\d+)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\]/;
+
+/**
+ * Parse a JSONPath such as `$.items[0].name`
+ *
+ * @throws JsonPathError when the path is not valid
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  if (!path.startsWith('$')) {
+    throw new JsonPathError(`Invalid JSONPath "${path}": it must start with $`, path);
+  }
+
+  const segments: JsonPathSegment[] = [];
+  let rest = path.slice(1);
+  while (rest.length > 0) {
+    if (rest.startsWith('..')) {
+      const name = NAME_PATTERN.exec(rest.slice(2)) ?? [];
+      const bracket = name[0] === undefined ? BRACKET_PATTERN.exec(rest.slice(2)) : null;
+      const key = name[0] ?? unescapeKey(bracket?.[3] ?? bracket?.[4]);
+      if (key === undefined) {
+        throw new JsonPathError(`Invalid JSONPath "${path}": .. must be followed by a member name`, path);
+      }
+      segments.push({ type: 'descendant', key });
+      rest = rest.slice(2 + (name[0] ?? bracket![0]).length);
+    } else if (rest.startsWith('.*')) {
+      segments.push({ type: 'wildcard' });
+      rest = rest.slice(2);
+    } else if (rest.startsWith('.')) {
+      const name = NAME_PATTERN.exec(rest.slice(1));
+      if (!name) {
+        throw new JsonPathError(`Invalid JSONPath "${path}": expected a member name after .`, path);
+      }
+      segments.push({ type: 'key', key: name[0] });
+      rest = rest.slice(1 + name[0].length);
+    } else {
+      const bracket = BRACKET_PATTERN.exec(rest);
+      if (!bracket) {
+        throw new JsonPathError(`Invalid JSONPath "${path}" at "${rest}"`, path);
+      }
+      if (bracket[1]) {
+        segments.push({ type: 'wildcard' });
+      } else if (bracket[2] !== undefined) {
+        segments.push({ type: 'index', index: Number(bracket[2]) });
+      } else {
+        segments.push({ type: 'key', key: unescapeKey(bracket[3] ?? bracket[4])! });
+      }
+      rest = rest.slice(bracket[0].length);
+    }
+  }
+  return segments;
+}
+
+/**
+ * Format segments as a JSONPath, using dot notation where possible
+ */
+export function formatJsonPath(segments: JsonPathSegment[]): string {
+  return '$' + segments.map(segment => {
+    switch (segment.type) {
+      case 'key':
+        return IDENTIFIER_PATTERN.test(segment.key) ? `.${segment.key}` : `['${escapeKey(segment.key)}']`;
+      case 'index':
+        return `[${segment.index}]`;
+      case 'wildcard':
+        return '[*]';
+      case 'descendant':
+        return IDENTIFIER_PATTERN.test(segment.key) ? `..${segment.key}` : `..['${escapeKey(segment.key)}']`;
+    }
+  }).join('');
+}
+
+/**
+ * Every value a JSONPath matches in a document, in document order
+ */
+export function queryJsonPath(document: unknown, path: string | JsonPathSegment[]): unknown[] {
+  const segments = typeof path === 'string' ? parseJsonPath(path) : path;
+  return segments.reduce<unknown[]>((values, segment) => values.flatMap(value => step(value, segment)), [document]);
+}
+
+/**
+ * Check whether a path matches at most one value, so it has no wildcard or descendant segment
+ */
+export function isDefiniteJsonPath(segments: JsonPathSegment[]): boolean {
+  return segments.every(segment => segment.type === 'key' || segment.type === 'index');
+}
+
+/**
+ * List the definite path of every value in a document, breadth-first
+ */
+export function listJsonPaths(document: unknown): JsonPathEntry[] {
+  const entries: JsonPathEntry[] = [];
+  const queue: JsonPathEntry[] = [{ segments: [], value: document }];
+
+  while (queue.length > 0 && entries.length < MAX_LISTED_PATHS) {
+    const { segments, value } = queue.shift()!;
+    const children: JsonPathEntry[] = Array.isArray(value)
+      ? value.map((item, index) => ({ segments: [...segments, { type: 'index', index }], value: item }))
+      : isJsonObject(value)
+        ? Object.entries(value).map(([key, item]) => ({ segments: [...segments, { type: 'key', key }], value: item }))
+        : [];
+    entries.push(...children);
+    queue.push(...children);
+  }
+  return entries.slice(0, MAX_LISTED_PATHS);
+}
+
+/**
+ * Check whether a value is a JSON object, not an array or null
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function step(value: unknown, segment: JsonPathSegment): unknown[] {
+  switch (segment.type) {
+    case 'key':
+      return isJsonObject(value) && Object.prototype.hasOwnProperty.call(value, segment.key) ? [value[segment.key]] : [];
+    case 'index': {
+      if (!Array.isArray(value)) {
+        return [];
+      }
+      const index = segment.index < 0 ? value.length + segment.index : segment.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+    case 'wildcard':
+      return Array.isArray(value) ? value : isJsonObject(value) ? Object.values(value) : [];
+    case 'descendant':
+      return descendants(value).flatMap(node => step(node, { type: 'key', key: segment.key }));
+  }
+}
+
+/**
+ * A value and everything nested in it, in document order
+ */
+function descendants(value: unknown): unknown[] {
+  const children = Array.isArray(value) ? value : isJsonObject(value) ? Object.values(value) : [];
+  return [value, ...children.flatMap(descendants)];
+}
+
+function unescapeKey(key: string | undefined): string | undefined {
+  return key?.replace(/\\(.)/g, '$1');
+}
+
+function escapeKey(key: string): string {
+  return key.replace(/['\\]/g, '\\$&');
+}
@@ -0,0 +1,347 @@
+/**
+ * Locator Probe
+ *
+ * This module provides a shared service that healing strategies use to check
+ * candidate selectors against real evidence: a live Playwright page when one is
+ * attached for the failing test, or the serialized DOM snapshot captured in the
+ * failure's browser state. Results report how many elements matched, whether the
+ * match is unique, and how many of the matches are visible.
+ */
+
+import { JSDOM } from 'jsdom';
+import { TestFailure } from '../types';
+import { logger } from '../utils/logger';
+import { parseRoleSelector, queryByRole } from './AccessibilityTree';
+
+/**
+ * Where a probe result was obtained from
+ */
+export type LocatorProbeSource = 'page' | 'dom-snapshot' | 'none';
+
+/**
+ * Result of probing a single selector
+ */
+export interface LocatorProbeResult {
+  /** Selector that was probed */
+  selector: string;
+
+  /** Evidence the probe ran against */
+  source: LocatorProbeSource;
+
+  /** Number of elements matched by the selector */
+  matchCount: number;
+
+  /** Number of matched elements that are visible */
+  visibleCount: number;
+
+  /** Whether the selector matched exactly one element */
+  unique: boolean;
+
+  /** Whether at least one matched element is visible */
+  visible: boolean;
+
+  /** Error raised while evaluating the selector, if any */
+  error?: string;
+}
+
+/**
+ * Minimal subset of the Playwright Page API used by the probe
+ */
+export interface ProbePage {
+  locator(selector: string): ProbeLocator;
+  content?(): Promise<string>;
+  screenshot?(): Promise<Buffer>;
+  evaluate?<R, Arg>(pageFunction: (arg: Arg) => R, arg: Arg): Promise<R>;
+}
+
+/**
+ * Minimal subset of the Playwright Locator API used by the probe
+ */
+export interface ProbeLocator {
+  count(): Promise<number>;
+  nth(index: number): { isVisible(): Promise<boolean> };
+}
+
+/**
+ * Configuration for the locator probe
+ */
+export interface LocatorProbeConfig {
+  /** Maximum number of matches checked for visibility on a live page */
+  maxVisibilityChecks: number;
+}
+
+/**
+ * Elements that never render content
+ */
+const NON_RENDERED_TAGS = new Set(['head', 'script', 'style', 'template', 'noscript', 'meta', 'link', 'title']);
+
+/**
+ * Locator Probe
+ *
+ * Evaluates selectors against a live page or a DOM snapshot. Live pages are
+ * attached per test so that long-lived strategies can share one probe while
+ * tests run concurrently. When neither a page nor a snapshot is available the
+ * probe reports no matches rather than guessing.
+ */
+export class LocatorProbe {
+  private config: LocatorProbeConfig;
+  private pages: Map<string, ProbePage> = new Map();
+  private snapshotCache: { html: string; dom: JSDOM } | null = null;
+
+  constructor(config: Partial<LocatorProbeConfig> = {}) {
+    this.config = {
+      maxVisibilityChecks: 10,
+      ...config
+    };
+  }
+
+  /**
+   * Attach a live page for a test so probes for its failures use the browser
+   */
+  public attachPage(testId: string, page: ProbePage): void {
+    this.pages.set(testId, page);
+    logger.debug(`Attached live page to locator probe for test: ${testId}`);
+  }
+
+  /**
+   * Detach the live page for a test
+   */
+  public detachPage(testId: string): void {
+    if (this.pages.delete(testId)) {
+      logger.debug(`Detached live page from locator probe for test: ${testId}`);
+    }
+  }
+
+  /**
+   * Check whether a live page is attached for a test
+   */
+  public hasPage(testId: string): boolean {
+    return this.pages.has(testId);
+  }
+
+  /**
+   * Get the live page attached for a test, if any
+   */
+  public getPage(testId: string): ProbePage | undefined {
+    return this.pages.get(testId);
+  }
+
+  /**
+   * Probe a selector using the best evidence available for a failure
+   */
+  public async probe(selector: string, failure: TestFailure): Promise<LocatorProbeResult> {
+    const page = this.pages.get(failure.testId);
+    if (page) {
+      return this.probePage(selector, page);
+    }
+
+    const domSnapshot = failure.context?.browserState?.domSnapshot;
+    if (domSnapshot) {
+      return this.probeSnapshot(selector, domSnapshot);
+    }
+
+    return this.createResult(selector, 'none', 0, 0, 'No live page or DOM snapshot available');
+  }
+
+  /**
+   * Get the HTML of the failing page, from the live page when one is attached
+   */
+  public async getHtml(failure: TestFailure): Promise<string | null> {
+    const page = this.pages.get(failure.testId);
+    if (page?.content) {
+      try {
+        return await page.content();
+      } catch (error) {
+        logger.debug(`Failed to read live page content for test: ${failure.testId}`, error);
+      }
+    }
+
+    return failure.context?.browserState?.domSnapshot || null;
+  }
+
+  /**
+   * Parse HTML into a document, reusing the last parsed snapshot when unchanged
+   */
+  public parseHtml(html: string): Document {
+    return this.loadSnapshot(html).window.document;
+  }
+
+  /**
+   * Probe a selector against a live page
+   */
+  public async probePage(selector: string, page: ProbePage): Promise<LocatorProbeResult> {
+    try {
+      const locator = page.locator(selector);
+      const matchCount = await locator.count();
+
+      let visibleCount = 0;
+      const checks = Math.min(matchCount, this.config.maxVisibilityChecks);
+      for (let i = 0; i < checks; i++) {
+        if (await locator.nth(i).isVisible()) {
+          visibleCount++;
+        }
+      }
+
+      return this.createResult(selector, 'page', matchCount, visibleCount);
+    } catch (error) {
+      return this.createResult(selector, 'page', 0, 0, String(error));
+    }
+  }
+
+  /**
+   * Probe a selector against a serialized DOM snapshot
+   */
+  public probeSnapshot(selector: string, html: string): LocatorProbeResult {
+    try {
+      const document = this.loadSnapshot(html).window.document;
+      const elements = this.queryDocument(document, selector);
+      const visibleCount = elements.filter(element => this.isElementVisible(element)).length;
+
+      return this.createResult(selector, 'dom-snapshot', elements.length, visibleCount);
+    } catch (error) {
+      return this.createResult(selector, 'dom-snapshot', 0, 0, String(error));
+    }
+  }
+
+  /**
+   * Release the cached DOM snapshot
+   */
+  public clearCache(): void {
+    if (this.snapshotCache) {
+      this.snapshotCache.dom.window.close();
+      this.snapshotCache = null;
+    }
+  }
+
+  /**
+   * Parse a snapshot, reusing the last parsed document when it is unchanged
+   */
+  private loadSnapshot(html: string): JSDOM {
+    if (this.snapshotCache && this.snapshotCache.html === html) {
+      return this.snapshotCache.dom;
+    }
+
+    this.clearCache();
+    const dom = new JSDOM(html);
+    this.snapshotCache = { html, dom };
+    return dom;
+  }
+
+  /**
+   * Evaluate a CSS, XPath or role selector against a document
+   */
+  private queryDocument(document: Document, selector: string): Element[] {
+    const trimmed = selector.trim();
+
+    const roleSelector = parseRoleSelector(trimmed);
+    if (roleSelector) {
+      return queryByRole(document, roleSelector);
+    }
+
+    if (trimmed.startsWith('xpath=') || this.isXPath(trimmed)) {
+      const expression = trimmed.replace(/^xpath=/, '');
+      const snapshot = document.evaluate(
+        expression,
+        document,
+        null,
+        7, // XPathResult.ORDERED_NODE_SNAPSHOT_TYPE
+        null
+      );
+
+      const elements: Element[] = [];
+      for (let i = 0; i < snapshot.snapshotLength; i++) {
+        const node = snapshot.snapshotItem(i);
+        if (node && node.nodeType === 1) {
+          elements.push(node as Element);
+        }
+      }
+      return elements;
+    }
+
+    const css = trimmed.replace(/^css=/, '');
+    return Array.from(document.querySelectorAll(css));
+  }
+
+  /**
+   * Check whether a selector is an XPath expression
+   */
+  private isXPath(selector: string): boolean {
+    return selector.startsWith('/') || selector.startsWith('(') || selector.startsWith('..');
+  }
+
+  /**
+   * Approximate element visibility without a layout engine
+   */
+  private isElementVisible(element: Element): boolean {
+    if (element.tagName.toLowerCase() === 'input' && element.getAttribute('type')?.toLowerCase() === 'hidden') {
+      return false;
+    }
+
+    const view = element.ownerDocument.defaultView;
+    let current: Element | null = element;
+
+    while (current) {
+      if (NON_RENDERED_TAGS.has(current.tagName.toLowerCase())) {
+        return false;
+      }
+
+      if (current.hasAttribute('hidden')) {
+        return false;
+      }
+
+      if (view) {
+        const style = view.getComputedStyle(current);
+        if (style.display === 'none') {
+          return false;
+        }
+        if (current === element && (style.visibility === 'hidden' || style.visibility === 'collapse')) {
+          return false;
+        }
+      }
+
+      current = current.parentElement;
+    }
+
+    return true;
+  }
+
+  /**
+   * Create a probe result
+   */
+  private createResult(
+    selector: string,
+    source: LocatorProbeSource,
+    matchCount: number,
+    visibleCount: number,
+    error?: string
+  ): LocatorProbeResult {
+    return {
+      selector,
+      source,
+      matchCount,
+      visibleCount,
+      unique: matchCount === 1,
+      visible: visibleCount > 0,
+      ...(error !== undefined && { error }),
+    };
+  }
+}
+
+/**
+ * Scale a candidate's confidence by the quality of its match
+ *
+ * Ambiguous matches are penalized because the healed selector may resolve to
+ * a different element than the one the test intended.
+ */
+export function applyMatchQuality(confidence: number, result: LocatorProbeResult): number {
+  if (!result.visible) {
+    return 0;
+  }
+
+  return result.unique ? confidence : confidence * Math.max(0.5, 1 - 0.1 * (result.matchCount - 1));
+}
+
+/**
+ * Shared locator probe instance
+ */
+export const locatorProbe = new LocatorProbe();
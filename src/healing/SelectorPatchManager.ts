@@ -0,0 +1,497 @@
+/**
+ * Selector Patch Manager
+ *
+ * Turns healed selectors into reviewable changes to test sources. Each
+ * successful heal becomes a patch holding a unified diff against the spec file
+ * that replaces the broken selector with the healed one. Approving a patch
+ * writes the diff to the output directory and records the heal in a JSON
+ * selector map next to it, which lists every approved replacement for the spec.
+ * Heals below the auto-approve threshold wait in a pending queue until a
+ * person approves or rejects them.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { HealingAction, SelectorPatch, TestResult } from '../types';
+import { ExportedFile, TestExportResult } from '../types/test-generation';
+import { TestFile } from '../analysis/TestScenarioGenerator';
+import { DEFAULT_CONFIG, SelectorPatchConfig } from '../config/schemas';
+import { SelectorPatchRepository } from '../storage';
+import { logger } from '../utils/logger';
+
+/**
+ * Default patch settings, shared with the application config defaults
+ */
+export const DEFAULT_SELECTOR_PATCH_CONFIG: SelectorPatchConfig = DEFAULT_CONFIG.healing!.patches;
+
+/**
+ * Lines of unchanged context around each diff hunk
+ */
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Quote characters that can delimit a selector literal in a spec file
+ */
+const QUOTES = ["'", '"', '`'] as const;
+
+/**
+ * Reasons a patch operation can fail
+ */
+export type SelectorPatchErrorCode = 'invalid_change' | 'source_unavailable' | 'selector_not_found' | 'invalid_state';
+
+/**
+ * Error raised by the selector patch manager
+ */
+export class SelectorPatchError extends Error {
+  public readonly code: SelectorPatchErrorCode;
+
+  constructor(message: string, code: SelectorPatchErrorCode) {
+    super(message);
+    this.name = 'SelectorPatchError';
+    this.code = code;
+  }
+}
+
+/**
+ * A healed selector to propose as a patch
+ */
+export interface SelectorChange {
+  originalSelector: string;
+  healedSelector: string;
+  strategy: string;
+  confidence: number;
+  testId?: string;
+}
+
+/**
+ * Test source a patch applies to
+ *
+ * When `source` is omitted the file is read from `filePath`.
+ */
+export interface PatchTarget {
+  filePath: string;
+  source?: string;
+}
+
+/**
+ * Entry in a selector map file
+ */
+export interface SelectorMapEntry {
+  selector: string;
+  strategy: string;
+  confidence: number;
+  patchId: string;
+  updatedAt: string;
+}
+
+/**
+ * Selector map file, keyed by the selector written in the spec
+ */
+export interface SelectorMap {
+  file: string;
+  updatedAt: string;
+  selectors: Record<string, SelectorMapEntry>;
+}
+
+/**
+ * Target for a spec file produced by the PlaywrightExporter
+ */
+export function targetFromExportedFile(exportResult: TestExportResult, file: ExportedFile): PatchTarget {
+  const outputDir = exportResult.metadata['outputDir'];
+  const filePath = typeof outputDir === 'string' ? path.join(outputDir, file.path) : file.path;
+  return file.preview !== undefined ? { filePath, source: file.preview } : { filePath };
+}
+
+/**
+ * Target for a spec file produced by the TestScenarioGenerator
+ */
+export function targetFromTestFile(file: TestFile, directory: string = '.'): PatchTarget {
+  return { filePath: path.join(directory, file.fileName), source: file.content };
+}
+
+/**
+ * Collect the selector changes verified during a test run
+ *
+ * Only heals whose patched selector was retried successfully are returned;
+ * the Playwright engine marks those attempts with `metadata.selectorPatch`.
+ */
+export function findSelectorChanges(result: TestResult): SelectorChange[] {
+  const changes: SelectorChange[] = [];
+
+  for (const attempt of result.healingAttempts) {
+    const patch = attempt.result.metadata?.['selectorPatch'];
+    if (!attempt.result.success || !patch ||
+      typeof patch.originalSelector !== 'string' || typeof patch.healedSelector !== 'string') {
+      continue;
+    }
+    changes.push({
+      originalSelector: patch.originalSelector,
+      healedSelector: patch.healedSelector,
+      strategy: attempt.strategy,
+      confidence: attempt.result.confidence,
+      testId: result.id,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Find the change described by the last successful update_selector action
+ */
+export function findSelectorAction(actions: HealingAction[]): Pick<SelectorChange, 'originalSelector' | 'healedSelector'> | undefined {
+  const action = [...actions].reverse().find(candidate =>
+    candidate.type === 'update_selector' &&
+    candidate.result === 'success' &&
+    typeof candidate.parameters['originalSelector'] === 'string' &&
+    typeof candidate.parameters['newSelector'] === 'string'
+  );
+
+  return action && {
+    originalSelector: action.parameters['originalSelector'],
+    healedSelector: action.parameters['newSelector'],
+  };
+}
+
+/**
+ * Replace every string literal equal to a selector
+ *
+ * Only whole literals are replaced, so a selector that is a prefix of another
+ * is left alone. The healed selector is escaped for each literal's quote.
+ */
+export function replaceSelector(source: string, original: string, healed: string): { content: string; replacements: number } {
+  let content = source;
+  let replacements = 0;
+
+  for (const quote of QUOTES) {
+    if (quote === '`' && (original.includes('${') || healed.includes('${'))) {
+      continue;
+    }
+    const literal = new RegExp(escapeRegExp(quote + escapeForQuote(original, quote) + quote), 'g');
+    const replacement = quote + escapeForQuote(healed, quote) + quote;
+    content = content.replace(literal, () => {
+      replacements++;
+      return replacement;
+    });
+  }
+
+  return { content, replacements };
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ *
+ * Selector replacements never add or remove lines, so the versions are
+ * compared line by line.
+ */
+export function createUnifiedDiff(filePath: string, before: string, after: string): string {
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+  if (oldLines.length !== newLines.length) {
+    throw new SelectorPatchError('Diffs are only supported for line-preserving changes', 'invalid_change');
+  }
+
+  const changed: number[] = [];
+  oldLines.forEach((line, index) => {
+    if (line !== newLines[index]) {
+      changed.push(index);
+    }
+  });
+  if (changed.length === 0) {
+    return '';
+  }
+
+  const name = filePath.split(path.sep).join('/').replace(/^\.?\//, '');
+  const output = [`--- a/${name}`, `+++ b/${name}`];
+
+  let hunkStart = 0;
+  while (hunkStart < changed.length) {
+    // Merge changes whose context windows overlap into one hunk
+    let hunkEnd = hunkStart;
+    while (hunkEnd + 1 < changed.length && changed[hunkEnd + 1]! - changed[hunkEnd]! <= DIFF_CONTEXT_LINES * 2) {
+      hunkEnd++;
+    }
+
+    const first = Math.max(0, changed[hunkStart]! - DIFF_CONTEXT_LINES);
+    const last = Math.min(oldLines.length - 1, changed[hunkEnd]! + DIFF_CONTEXT_LINES);
+    const count = last - first + 1;
+    output.push(`@@ -${first + 1},${count} +${first + 1},${count} @@`);
+
+    let index = first;
+    while (index <= last) {
+      if (oldLines[index] === newLines[index]) {
+        output.push(` ${oldLines[index]}`);
+        index++;
+        continue;
+      }
+      const blockStart = index;
+      while (index <= last && oldLines[index] !== newLines[index]) {
+        index++;
+      }
+      output.push(...oldLines.slice(blockStart, index).map(line => `-${line}`));
+      output.push(...newLines.slice(blockStart, index).map(line => `+${line}`));
+    }
+
+    hunkStart = hunkEnd + 1;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Selector Patch Manager
+ *
+ * Patches are persisted through the selector patch repository so the pending
+ * queue survives restarts when SQLite storage is enabled.
+ */
+export class SelectorPatchManager {
+  private config: SelectorPatchConfig;
+
+  constructor(
+    private repository: SelectorPatchRepository,
+    config: Partial<SelectorPatchConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_SELECTOR_PATCH_CONFIG, ...config };
+  }
+
+  /**
+   * Propose a patch for a healed selector
+   *
+   * A heal that already has a patch for the same file returns the existing
+   * patch, so repeated runs do not flood the review queue. Heals at or above
+   * the auto-approve threshold are approved immediately.
+   */
+  public async propose(change: SelectorChange, target: PatchTarget): Promise<SelectorPatch> {
+    this.validateChange(change, target);
+
+    const existing = (await this.repository.findAll({ filePath: target.filePath })).find(patch =>
+      patch.originalSelector === change.originalSelector && patch.healedSelector === change.healedSelector
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const source = target.source ?? await this.readSource(target.filePath);
+    const { content, replacements } = replaceSelector(source, change.originalSelector, change.healedSelector);
+    if (replacements === 0) {
+      throw new SelectorPatchError(
+        `Selector ${change.originalSelector} was not found in ${target.filePath}`,
+        'selector_not_found'
+      );
+    }
+
+    const patch: SelectorPatch = {
+      id: generatePatchId(),
+      ...(change.testId !== undefined && { testId: change.testId }),
+      filePath: target.filePath,
+      originalSelector: change.originalSelector,
+      healedSelector: change.healedSelector,
+      strategy: change.strategy,
+      confidence: change.confidence,
+      status: 'pending',
+      diff: createUnifiedDiff(target.filePath, source, content),
+      replacements,
+      createdAt: new Date(),
+    };
+
+    if (patch.confidence >= this.config.autoApproveThreshold) {
+      return this.accept(patch, 'auto');
+    }
+
+    logger.info('Selector patch queued for review', {
+      patchId: patch.id,
+      filePath: patch.filePath,
+      confidence: patch.confidence,
+    });
+    return this.repository.save(patch);
+  }
+
+  /**
+   * Propose patches for every verified heal in a test result
+   *
+   * Heals that cannot be patched, for example because the selector is built
+   * at runtime rather than written in the spec, are logged and skipped.
+   */
+  public async proposeFromResult(result: TestResult, target: PatchTarget): Promise<SelectorPatch[]> {
+    const patches: SelectorPatch[] = [];
+
+    for (const change of findSelectorChanges(result)) {
+      try {
+        patches.push(await this.propose(change, target));
+      } catch (error) {
+        if (!(error instanceof SelectorPatchError)) {
+          throw error;
+        }
+        logger.warn('Skipping selector patch', {
+          testId: result.id,
+          filePath: target.filePath,
+          selector: change.originalSelector,
+          reason: error.message,
+        });
+      }
+    }
+
+    return patches;
+  }
+
+  /**
+   * Approve a pending patch and write its artifacts
+   */
+  public async approve(id: string, reviewer?: string, reason?: string): Promise<SelectorPatch | null> {
+    const patch = await this.repository.findById(id);
+    if (!patch) {
+      return null;
+    }
+    this.assertPending(patch);
+    return this.accept(patch, reviewer ?? 'api', reason);
+  }
+
+  /**
+   * Reject a pending patch
+   */
+  public async reject(id: string, reviewer?: string, reason?: string): Promise<SelectorPatch | null> {
+    const patch = await this.repository.findById(id);
+    if (!patch) {
+      return null;
+    }
+    this.assertPending(patch);
+
+    patch.status = 'rejected';
+    patch.reviewedAt = new Date();
+    patch.reviewedBy = reviewer ?? 'api';
+    if (reason !== undefined) {
+      patch.reason = reason;
+    }
+
+    logger.info('Selector patch rejected', { patchId: patch.id, reviewer: patch.reviewedBy });
+    return this.repository.save(patch);
+  }
+
+  /**
+   * Path of the selector map file for a spec file
+   *
+   * The name is the spec path relative to the working directory, with `__`
+   * between its directories, so specs with the same file name do not share a
+   * map. Specs outside the working directory are named by their absolute path.
+   */
+  public getSelectorMapPath(filePath: string): string {
+    const resolved = path.resolve(filePath);
+    const relative = path.relative(process.cwd(), resolved);
+    const outside = relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative);
+    const name = (outside ? resolved.slice(path.parse(resolved).root.length) : relative)
+      .split(path.sep)
+      .join('__')
+      .replace(/\.[cm]?[jt]sx?$/, '');
+    return path.join(this.config.outputDir, `${name}.selectors.json`);
+  }
+
+  private validateChange(change: SelectorChange, target: PatchTarget): void {
+    if (!target.filePath) {
+      throw new SelectorPatchError('A test file path is required to patch a selector', 'source_unavailable');
+    }
+    if (!change.originalSelector || !change.healedSelector) {
+      throw new SelectorPatchError('Original and healed selectors are required', 'invalid_change');
+    }
+    if (change.originalSelector === change.healedSelector) {
+      throw new SelectorPatchError('Healed selector is identical to the original selector', 'invalid_change');
+    }
+    if (/[\r\n]/.test(change.healedSelector)) {
+      throw new SelectorPatchError('Healed selector must fit on a single line', 'invalid_change');
+    }
+  }
+
+  private assertPending(patch: SelectorPatch): void {
+    if (patch.status !== 'pending') {
+      throw new SelectorPatchError(`Selector patch ${patch.id} is already ${patch.status}`, 'invalid_state');
+    }
+  }
+
+  private async readSource(filePath: string): Promise<string> {
+    try {
+      return await fs.promises.readFile(filePath, 'utf8');
+    } catch (error) {
+      throw new SelectorPatchError(
+        `Cannot read test file ${filePath}: ${(error as Error).message}`,
+        'source_unavailable'
+      );
+    }
+  }
+
+  /**
+   * Mark a patch approved, write the diff and update the selector map
+   */
+  private async accept(patch: SelectorPatch, reviewer: string, reason?: string): Promise<SelectorPatch> {
+    const diffPath = path.join(this.config.outputDir, `${patch.id}.patch`);
+    const selectorMapPath = this.getSelectorMapPath(patch.filePath);
+
+    await fs.promises.mkdir(this.config.outputDir, { recursive: true });
+    await fs.promises.writeFile(diffPath, patch.diff, 'utf8');
+    await this.updateSelectorMap(selectorMapPath, patch);
+
+    patch.status = 'approved';
+    patch.reviewedAt = new Date();
+    patch.reviewedBy = reviewer;
+    if (reason !== undefined) {
+      patch.reason = reason;
+    }
+    patch.artifacts = { diffPath, selectorMapPath };
+
+    logger.info('Selector patch approved', {
+      patchId: patch.id,
+      filePath: patch.filePath,
+      reviewer,
+    });
+    return this.repository.save(patch);
+  }
+
+  private async updateSelectorMap(mapPath: string, patch: SelectorPatch): Promise<void> {
+    let map: SelectorMap = { file: patch.filePath, updatedAt: '', selectors: {} };
+    try {
+      map = JSON.parse(await fs.promises.readFile(mapPath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Replacing unreadable selector map', { mapPath, error: (error as Error).message });
+      }
+    }
+
+    const updatedAt = new Date().toISOString();
+    map.updatedAt = updatedAt;
+    map.selectors[patch.originalSelector] = {
+      selector: patch.healedSelector,
+      strategy: patch.strategy,
+      confidence: patch.confidence,
+      patchId: patch.id,
+      updatedAt,
+    };
+
+    await fs.promises.writeFile(mapPath, JSON.stringify(map, null, 2) + '\n', 'utf8');
+  }
+}
+
+/**
+ * Split file content into lines, ignoring the final newline
+ */
+function splitLines(content: string): string[] {
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+function escapeForQuote(value: string, quote: string): string {
+  return value.replace(/\\/g, '\\\\').split(quote).join(`\\${quote}`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Generate a unique selector patch ID
+ */
+function generatePatchId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `patch_${timestamp}_${random}`;
+}
@@ -141,7 +141,7 @@ export class SimpleHealingStrategy extends HealingStrategy {
     }
     
     // Adjust based on previous attempts
-    const attemptCount = this.healingAttempts.get(failure.testId) || 0;
+    const attemptCount = this.getAttemptCount(failure);
     if (attemptCount > 0) {
       baseConfidence *= Math.pow(0.8, attemptCount);
     }
@@ -0,0 +1,272 @@
+/**
+ * Strategy Selection Policies
+ *
+ * Decide the order in which the healing engine tries applicable strategies.
+ * Policies can rely on the confidence each strategy reports for a failure and
+ * on the outcomes the engine has observed so far, tracked per strategy,
+ * failure type and site. Trying the strategies that actually work for an
+ * application first means faster heals and fewer timeouts spent on strategies
+ * that never succeed.
+ */
+
+import { FailureType, IHealingStrategy, TestFailure } from '../types';
+
+/**
+ * Built-in selection policies
+ */
+export type StrategySelectionPolicyName = 'static' | 'confidence-first' | 'success-rate' | 'epsilon-greedy';
+
+/**
+ * Applicable strategy with the confidence it reported for the failure
+ */
+export interface StrategyCandidate {
+  strategy: IHealingStrategy;
+  confidence: number;
+}
+
+/**
+ * Information available to a policy when ordering candidates
+ */
+export interface StrategySelectionContext {
+  failure: TestFailure;
+  outcomes: StrategyOutcomeTracker;
+}
+
+/**
+ * Orders applicable strategies for a failure
+ */
+export interface StrategySelectionPolicy {
+  readonly name: string;
+  order(candidates: StrategyCandidate[], context: StrategySelectionContext): StrategyCandidate[];
+}
+
+/**
+ * Options for creating a built-in policy
+ */
+export interface StrategySelectionPolicyOptions {
+  /** Probability of exploring a random strategy first (epsilon-greedy only) */
+  explorationRate?: number;
+
+  /** Random number source in [0, 1), injectable for deterministic tests */
+  random?: () => number;
+}
+
+interface OutcomeCounts {
+  successes: number;
+  attempts: number;
+}
+
+/**
+ * Success rate estimate used for strategies that were never observed
+ */
+const UNOBSERVED_SUCCESS_RATE = 0.5;
+
+/**
+ * Extract the site a failure happened on, used to scope outcomes per application
+ */
+export function failureSite(failure: TestFailure): string {
+  const url = failure.context?.browserState?.url;
+  if (!url) {
+    return '';
+  }
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Tracks observed strategy outcomes
+ *
+ * Outcomes are counted per strategy overall, per failure type and per failure
+ * type on a site. Estimates use the most specific scope with observations and
+ * are smoothed so a single result does not pin a strategy at 0 or 1.
+ */
+export class StrategyOutcomeTracker {
+  private counts: Map<string, OutcomeCounts> = new Map();
+
+  /**
+   * Record whether a strategy healed a failure
+   */
+  public record(strategyName: string, failure: TestFailure, success: boolean): void {
+    this.recordOutcome(strategyName, failure.type, failureSite(failure), success);
+  }
+
+  /**
+   * Record a strategy outcome for a failure type and site
+   *
+   * Used when only the failure's details are known, for example when a
+   * reviewer approves or rejects a suggested heal.
+   */
+  public recordOutcome(strategyName: string, failureType: FailureType, site: string, success: boolean): void {
+    for (const key of this.scopeKeys(strategyName, failureType, site)) {
+      const counts = this.counts.get(key) || { successes: 0, attempts: 0 };
+      counts.attempts++;
+      if (success) {
+        counts.successes++;
+      }
+      this.counts.set(key, counts);
+    }
+  }
+
+  /**
+   * Estimated probability that a strategy heals a failure
+   *
+   * Falls back to the strategy's own statistics when the engine has not
+   * observed it yet, and to a neutral prior when neither is available.
+   */
+  public successRate(strategy: IHealingStrategy, failure: TestFailure): number {
+    for (const key of this.scopeKeys(strategy.name, failure.type, failureSite(failure))) {
+      const counts = this.counts.get(key);
+      if (counts && counts.attempts > 0) {
+        return (counts.successes + 1) / (counts.attempts + 2);
+      }
+    }
+
+    const statistics = getStrategyStatistics(strategy);
+    if (statistics && statistics.totalAttempts > 0) {
+      return (statistics.successCount + 1) / (statistics.totalAttempts + 2);
+    }
+
+    return UNOBSERVED_SUCCESS_RATE;
+  }
+
+  /**
+   * Observed success rate of every strategy across all failures
+   */
+  public ratesByStrategy(): Record<string, number> {
+    const rates: Record<string, number> = {};
+    for (const [key, counts] of this.counts) {
+      const [strategyName, failureType] = key.split('\n');
+      if (strategyName && failureType === undefined) {
+        rates[strategyName] = counts.successes / counts.attempts;
+      }
+    }
+    return rates;
+  }
+
+  /**
+   * Forget all observed outcomes
+   */
+  public reset(): void {
+    this.counts.clear();
+  }
+
+  /**
+   * Scope keys from most to least specific
+   */
+  private scopeKeys(strategyName: string, failureType: FailureType, site: string): string[] {
+    const keys = [`${strategyName}\n${failureType}`, strategyName];
+    if (site) {
+      keys.unshift(`${strategyName}\n${failureType}\n${site}`);
+    }
+    return keys;
+  }
+}
+
+/**
+ * Try strategies in name order, ignoring confidence and history
+ */
+export class StaticSelectionPolicy implements StrategySelectionPolicy {
+  public readonly name = 'static';
+
+  public order(candidates: StrategyCandidate[]): StrategyCandidate[] {
+    return [...candidates].sort(byName);
+  }
+}
+
+/**
+ * Try the strategies reporting the highest confidence first
+ */
+export class ConfidenceFirstSelectionPolicy implements StrategySelectionPolicy {
+  public readonly name = 'confidence-first';
+
+  public order(candidates: StrategyCandidate[]): StrategyCandidate[] {
+    return [...candidates].sort((a, b) => b.confidence - a.confidence || byName(a, b));
+  }
+}
+
+/**
+ * Try the strategies that healed this kind of failure most often first
+ *
+ * Ties are broken by reported confidence.
+ */
+export class SuccessRateSelectionPolicy implements StrategySelectionPolicy {
+  public readonly name: string = 'success-rate';
+
+  public order(candidates: StrategyCandidate[], context: StrategySelectionContext): StrategyCandidate[] {
+    const rates = new Map(candidates.map(candidate => [
+      candidate.strategy.name,
+      context.outcomes.successRate(candidate.strategy, context.failure)
+    ]));
+
+    return [...candidates].sort((a, b) =>
+      rates.get(b.strategy.name)! - rates.get(a.strategy.name)! ||
+      b.confidence - a.confidence ||
+      byName(a, b)
+    );
+  }
+}
+
+/**
+ * Epsilon-greedy bandit over strategy success rates
+ *
+ * Usually exploits the success-rate order; with probability `explorationRate`
+ * a random strategy is tried first so rarely chosen strategies keep getting
+ * observed as the application changes.
+ */
+export class EpsilonGreedySelectionPolicy extends SuccessRateSelectionPolicy {
+  public override readonly name = 'epsilon-greedy';
+
+  constructor(
+    private explorationRate: number = 0.1,
+    private random: () => number = Math.random
+  ) {
+    super();
+  }
+
+  public override order(candidates: StrategyCandidate[], context: StrategySelectionContext): StrategyCandidate[] {
+    const ordered = super.order(candidates, context);
+    if (ordered.length < 2 || this.random() >= this.explorationRate) {
+      return ordered;
+    }
+
+    const index = Math.min(ordered.length - 1, Math.floor(this.random() * ordered.length));
+    const [explored] = ordered.splice(index, 1);
+    return [explored!, ...ordered];
+  }
+}
+
+/**
+ * Create a built-in selection policy by name
+ */
+export function createSelectionPolicy(
+  name: StrategySelectionPolicyName,
+  options: StrategySelectionPolicyOptions = {}
+): StrategySelectionPolicy {
+  switch (name) {
+    case 'static':
+      return new StaticSelectionPolicy();
+    case 'confidence-first':
+      return new ConfidenceFirstSelectionPolicy();
+    case 'success-rate':
+      return new SuccessRateSelectionPolicy();
+    case 'epsilon-greedy':
+      return new EpsilonGreedySelectionPolicy(options.explorationRate, options.random);
+    default:
+      throw new Error(`Unknown strategy selection policy: ${name}`);
+  }
+}
+
+function byName(a: StrategyCandidate, b: StrategyCandidate): number {
+  return a.strategy.name.localeCompare(b.strategy.name);
+}
+
+/**
+ * Read statistics from strategies built on the HealingStrategy base class
+ */
+function getStrategyStatistics(strategy: IHealingStrategy): { totalAttempts: number; successCount: number } | null {
+  const getStatistics = (strategy as { getStatistics?: () => { totalAttempts: number; successCount: number } }).getStatistics;
+  return typeof getStatistics === 'function' ? getStatistics.call(strategy) : null;
+}
@@ -0,0 +1,113 @@
+/**
+ * Visual Baselines
+ *
+ * Stores a screenshot crop of each element a passing run interacted with,
+ * keyed by page URL and selector. The visual match strategy looks the crop
+ * up when the selector later stops matching and searches the failing page's
+ * screenshot for it.
+ */
+
+import { createHash } from 'crypto';
+import { VisualBaseline } from '../types';
+import { VisualBaselineRepository } from '../storage';
+import { logger } from '../utils/logger';
+import { ImageRegion, cropImage, decodePng, differenceHash, encodePng, toGrayscale } from './ImageMatching';
+import { normalizeMemoryUrl } from './HealingMemory';
+
+/**
+ * Element capture from a passing run
+ */
+export interface VisualBaselineCapture {
+  selector: string;
+  url: string;
+  testId?: string;
+
+  /** PNG screenshot of the page the element was on */
+  screenshot: Buffer;
+
+  /** Element bounding box in screenshot pixels */
+  boundingBox: ImageRegion;
+}
+
+/**
+ * Visual Baseline Store
+ */
+export class VisualBaselineStore {
+  constructor(private repository: VisualBaselineRepository) {}
+
+  /**
+   * Crop an element out of a page screenshot and store it as the baseline
+   *
+   * Recording the same selector on the same page replaces the previous crop.
+   * Returns null when the bounding box lies outside the screenshot.
+   */
+  public async record(capture: VisualBaselineCapture): Promise<VisualBaseline | null> {
+    const region = roundRegion(capture.boundingBox);
+    const crop = cropImage(decodePng(capture.screenshot), region);
+    if (crop.width === 0 || crop.height === 0) {
+      logger.debug('Skipping visual baseline outside the screenshot', { selector: capture.selector });
+      return null;
+    }
+
+    const url = normalizeMemoryUrl(capture.url);
+    const id = createBaselineId(url, capture.selector);
+    const existing = await this.repository.findById(id);
+    const now = new Date();
+
+    const baseline: VisualBaseline = {
+      id,
+      selector: capture.selector,
+      url,
+      ...(capture.testId !== undefined && { testId: capture.testId }),
+      boundingBox: { x: Math.max(0, region.x), y: Math.max(0, region.y), width: crop.width, height: crop.height },
+      image: encodePng(crop).toString('base64'),
+      hash: differenceHash(toGrayscale(crop)),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    return this.repository.save(baseline);
+  }
+
+  /**
+   * Find the baseline for a selector, preferring one captured on the same page
+   */
+  public async find(selector: string, url?: string): Promise<VisualBaseline | null> {
+    const normalized = normalizeMemoryUrl(url);
+    if (normalized) {
+      const exact = await this.repository.findById(createBaselineId(normalized, selector));
+      if (exact) {
+        return exact;
+      }
+    }
+
+    const baselines = await this.repository.findAll({ selector });
+    return baselines.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0] ?? null;
+  }
+
+  /**
+   * Remove every baseline, returning the number removed
+   */
+  public async clear(): Promise<number> {
+    const count = await this.repository.count();
+    await this.repository.clear();
+    return count;
+  }
+}
+
+function roundRegion(region: ImageRegion): ImageRegion {
+  return {
+    x: Math.round(region.x),
+    y: Math.round(region.y),
+    width: Math.round(region.width),
+    height: Math.round(region.height),
+  };
+}
+
+/**
+ * Derive a stable baseline ID from the page URL and selector
+ */
+function createBaselineId(url: string, selector: string): string {
+  const digest = createHash('sha1').update(`${url}\n${selector}`).digest('hex');
+  return `visual_${digest.substring(0, 24)}`;
+}
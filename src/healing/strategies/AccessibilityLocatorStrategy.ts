@@ -0,0 +1,543 @@
+/**
+ * Accessibility Locator Strategy
+ *
+ * This strategy recovers from broken selectors by proposing role and
+ * accessible-name locators, the kind produced by Playwright's `getByRole`
+ * and `getByLabel`. These locators describe what the user sees rather than
+ * how the markup is built, so they survive refactors that rename IDs and
+ * classes.
+ */
+
+import {
+  TestFailure,
+  HealingResult,
+  HealingContext,
+  HealingAction
+} from '../../types';
+import { HealingStrategy } from '../../core/HealingStrategy';
+import { LocatorProbe, locatorProbe, applyMatchQuality } from '../LocatorProbe';
+import {
+  AccessibilityNode,
+  buildAccessibilityTree,
+  flattenAccessibilityTree,
+  formatGetByRole,
+  formatRoleSelector,
+  getAccessibleName,
+  getRole,
+  normalizeWhitespace,
+  parseRoleSelector
+} from '../AccessibilityTree';
+import { logger } from '../../utils/logger';
+
+/**
+ * Configuration for accessibility locator strategy
+ */
+export interface AccessibilityLocatorConfig {
+  /** Minimum similarity between the selector intent and an accessible name (0-1) */
+  minNameSimilarity: number;
+
+  /** Maximum number of role locators to try */
+  maxCandidates: number;
+
+  /** Accessible names longer than this are not used in locators */
+  maxNameLength: number;
+
+  /** Selector words that carry no meaning about the element's purpose */
+  ignoredTokens: string[];
+}
+
+/**
+ * What a broken selector tells us about the element it targeted
+ */
+export interface SelectorIntent {
+  /** Roles the element likely had */
+  roles: string[];
+
+  /** Visible text, labels or names mentioned in the selector */
+  texts: string[];
+
+  /** Words taken from IDs, classes and test attributes */
+  tokens: string[];
+}
+
+/**
+ * Accessibility node scored against a selector intent
+ */
+interface RankedNode {
+  node: AccessibilityNode;
+  score: number;
+}
+
+/**
+ * Roles implied by words that commonly appear in selectors
+ */
+const TOKEN_ROLES: Record<string, string> = {
+  btn: 'button',
+  button: 'button',
+  submit: 'button',
+  link: 'link',
+  anchor: 'link',
+  input: 'textbox',
+  field: 'textbox',
+  textbox: 'textbox',
+  textarea: 'textbox',
+  email: 'textbox',
+  password: 'textbox',
+  username: 'textbox',
+  search: 'searchbox',
+  checkbox: 'checkbox',
+  radio: 'radio',
+  select: 'combobox',
+  dropdown: 'combobox',
+  combobox: 'combobox',
+  tab: 'tab',
+  heading: 'heading',
+  title: 'heading',
+  dialog: 'dialog',
+  modal: 'dialog',
+};
+
+/**
+ * Attributes whose values read like accessible names
+ */
+const TEXT_ATTRIBUTES = ['aria-label', 'placeholder', 'title', 'alt', 'value', 'label'];
+
+/**
+ * Attributes whose values are identifiers made of words
+ */
+const TOKEN_ATTRIBUTES = ['id', 'name', 'class', 'data-testid', 'data-test', 'data-cy', 'data-qa', 'for'];
+
+/**
+ * Accessibility Locator Strategy
+ *
+ * This strategy attempts to recover from element not found failures by
+ * matching the intent of the broken selector against the page's
+ * accessibility tree:
+ *
+ * 1. Extract roles, texts and identifier words from the broken selector
+ * 2. Compute roles and accessible names for the failing page
+ * 3. Rank accessible elements by name similarity and role agreement
+ * 4. Propose `role=` locators for the best matches and verify them
+ */
+export class AccessibilityLocatorStrategy extends HealingStrategy {
+  private config: AccessibilityLocatorConfig;
+  private probe: LocatorProbe;
+
+  constructor(config: Partial<AccessibilityLocatorConfig> = {}, probe: LocatorProbe = locatorProbe) {
+    super(
+      'accessibility-locator',
+      '1.0.0',
+      ['element_not_found', 'timeout']
+    );
+
+    this.config = {
+      minNameSimilarity: 0.5,
+      maxCandidates: 5,
+      maxNameLength: 80,
+      ignoredTokens: ['btn', 'button', 'input', 'field', 'el', 'elem', 'element', 'container', 'wrapper', 'div', 'span', 'js', 'id', 'the', 'a', 'an', 'of', 'to'],
+      ...config
+    };
+
+    this.probe = probe;
+    logger.info('AccessibilityLocatorStrategy initialized', { config: this.config });
+  }
+
+  /**
+   * Attempt to heal using role and accessible-name locators
+   */
+  protected async doHeal(failure: TestFailure, _context: HealingContext): Promise<HealingResult> {
+    logger.info(`Accessibility locator strategy attempting to heal: ${failure.id}`);
+
+    const healingId = this.generateHealingId(failure);
+    const startTime = new Date();
+    const actions: HealingAction[] = [];
+
+    try {
+      const originalSelector = this.extractSelector(failure);
+      if (!originalSelector) {
+        return this.createFailureResult(
+          healingId,
+          'No selector information found in failure',
+          Date.now() - startTime.getTime()
+        );
+      }
+
+      const html = await this.probe.getHtml(failure);
+      if (!html) {
+        return this.createFailureResult(
+          healingId,
+          'No page content available to compute the accessibility tree',
+          Date.now() - startTime.getTime()
+        );
+      }
+
+      const intent = this.extractIntent(originalSelector, html);
+      const nodes = flattenAccessibilityTree(buildAccessibilityTree(this.probe.parseHtml(html)));
+      const candidates = this.rankNodes(nodes, intent);
+
+      for (const candidate of candidates) {
+        const action = await this.tryRoleLocator(candidate.node, originalSelector, failure);
+        actions.push(action);
+
+        if (action.result === 'success') {
+          const duration = Date.now() - startTime.getTime();
+          const confidence = applyMatchQuality(0.4 + 0.5 * candidate.score, action.parameters['probe']);
+
+          logger.info(`Accessibility locator successful: ${action.parameters['newSelector']}`, {
+            originalSelector,
+            confidence,
+            duration
+          });
+
+          return this.createSuccessResult(
+            healingId,
+            actions,
+            confidence,
+            duration,
+            `Successfully healed using accessibility locator: ${action.parameters['locator']}`
+          );
+        }
+      }
+
+      const duration = Date.now() - startTime.getTime();
+      return this.createFailureResult(
+        healingId,
+        candidates.length > 0
+          ? 'No accessibility locators matched a visible element'
+          : 'No accessible element matches the intent of the selector',
+        duration
+      );
+
+    } catch (error) {
+      const duration = Date.now() - startTime.getTime();
+      logger.error(`Accessibility locator strategy failed: ${failure.id}`, error);
+      return this.createFailureResult(
+        healingId,
+        `Accessibility locator strategy failed: ${error}`,
+        duration
+      );
+    }
+  }
+
+  /**
+   * Calculate confidence for accessibility-based healing
+   */
+  protected async doCalculateConfidence(failure: TestFailure, _context: HealingContext): Promise<number> {
+    const originalSelector = this.extractSelector(failure);
+    if (!originalSelector) {
+      return 0;
+    }
+
+    const intent = this.extractIntent(originalSelector);
+
+    if (intent.texts.length > 0) {
+      return 0.7; // Selectors mentioning visible text map directly to accessible names
+    }
+    if (intent.tokens.length > 0 && intent.roles.length > 0) {
+      return 0.6;
+    }
+    if (intent.tokens.length > 0) {
+      return 0.5;
+    }
+    return 0.2; // Purely structural selectors say little about intent
+  }
+
+  /**
+   * Extract what a selector tells us about the element it targeted
+   *
+   * When the page HTML is available and the selector is a plain CSS selector
+   * that still matches, the matched element's own role and name are used too.
+   */
+  public extractIntent(selector: string, html?: string): SelectorIntent {
+    const roles = new Set<string>();
+    const texts = new Set<string>();
+    const tokens = new Set<string>();
+
+    const roleSelector = parseRoleSelector(selector);
+    const textSelector = selector.match(/^text=["']?(.+?)["']?$/);
+
+    if (roleSelector) {
+      roles.add(roleSelector.role);
+      if (roleSelector.name) {
+        texts.add(roleSelector.name);
+      }
+    } else if (textSelector) {
+      texts.add(textSelector[1]!);
+    } else {
+      this.addSelectorIntent(selector, roles, texts, tokens);
+    }
+
+    for (const token of tokens) {
+      const role = TOKEN_ROLES[token];
+      if (role) {
+        roles.add(role);
+      }
+    }
+
+    if (html && !roleSelector && !textSelector) {
+      this.addMatchedElementIntent(selector, html, roles, texts);
+    }
+
+    const ignored = new Set(this.config.ignoredTokens);
+    return {
+      roles: Array.from(roles),
+      texts: Array.from(texts).map(normalizeWhitespace).filter(Boolean),
+      tokens: Array.from(tokens).filter(token => !ignored.has(token) && !/^\d+$/.test(token)),
+    };
+  }
+
+  /**
+   * Extract selector information from failure
+   */
+  private extractSelector(failure: TestFailure): string | null {
+    // Try to extract selector from failure message
+    const selectorMatch = failure.message.match(/selector[:\s]+([^\s]+)/i);
+    if (selectorMatch) {
+      return selectorMatch[1] || null;
+    }
+
+    // Try to extract from failure context custom data
+    if (failure.context?.custom?.['selector']) {
+      return failure.context.custom['selector'];
+    }
+
+    // Try to extract from locator information
+    if (failure.context?.custom?.['locator']) {
+      return failure.context.custom['locator'];
+    }
+
+    return null;
+  }
+
+  /**
+   * Collect roles, texts and words from a CSS or XPath selector
+   */
+  private addSelectorIntent(selector: string, roles: Set<string>, texts: Set<string>, tokens: Set<string>): void {
+    // Visible text referenced by Playwright pseudo-classes or XPath text tests
+    const textPatterns = [
+      /:(?:has-)?text\(\s*["'](.+?)["']\s*\)/g,
+      /text\(\)\s*=\s*["'](.+?)["']/g,
+      /contains\(\s*(?:text\(\)|\.)\s*,\s*["'](.+?)["']\s*\)/g,
+    ];
+    for (const pattern of textPatterns) {
+      for (const match of selector.matchAll(pattern)) {
+        texts.add(match[1]!);
+      }
+    }
+
+    // Attribute values in CSS ([attr="value"]) and XPath (@attr="value") form
+    for (const match of selector.matchAll(/@?([\w-]+)\s*[~|^$*]?=\s*["']?([^"'\[\]]+)["']?/g)) {
+      const attribute = match[1]!.toLowerCase();
+      const value = match[2]!.trim();
+      if (attribute === 'role') {
+        roles.add(value);
+      } else if (attribute === 'type') {
+        const role = this.roleForInputType(value);
+        if (role) {
+          roles.add(role);
+        }
+      } else if (TEXT_ATTRIBUTES.includes(attribute)) {
+        texts.add(value);
+      } else if (TOKEN_ATTRIBUTES.includes(attribute)) {
+        this.splitWords(value).forEach(word => tokens.add(word));
+      }
+    }
+
+    // IDs and classes
+    for (const match of selector.matchAll(/[#.]([a-zA-Z_][\w-]*)/g)) {
+      this.splitWords(match[1]!).forEach(word => tokens.add(word));
+    }
+
+    // Leading tag names of each compound selector
+    for (const match of selector.matchAll(/(?:^|[\s>+~/]|::)([a-z][a-z0-9]*)(?=[#.\[:\s>+~/]|$)/g)) {
+      const role = this.roleForTag(match[1]!);
+      if (role) {
+        roles.add(role);
+      }
+    }
+  }
+
+  /**
+   * Rank accessible elements by how well they match the selector intent
+   */
+  private rankNodes(nodes: AccessibilityNode[], intent: SelectorIntent): RankedNode[] {
+    const seen = new Set<string>();
+    const ranked: RankedNode[] = [];
+
+    for (const node of nodes) {
+      if (!node.name || node.name.length > this.config.maxNameLength) {
+        continue;
+      }
+
+      const key = `${node.role}\n${node.name.toLowerCase()}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const nameScore = this.nameSimilarity(node.name, intent);
+      if (nameScore < this.config.minNameSimilarity) {
+        continue;
+      }
+
+      const roleScore = intent.roles.length === 0 ? 0.5 : intent.roles.includes(node.role) ? 1 : 0;
+      ranked.push({ node, score: 0.7 * nameScore + 0.3 * roleScore });
+    }
+
+    return ranked
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.config.maxCandidates);
+  }
+
+  /**
+   * Similarity between an accessible name and the selector intent (0-1)
+   */
+  private nameSimilarity(name: string, intent: SelectorIntent): number {
+    const lowerName = name.toLowerCase();
+    const compactName = lowerName.replace(/[^a-z0-9]/g, '');
+    const nameWords = new Set(this.splitWords(name));
+    let best = 0;
+
+    for (const text of intent.texts) {
+      const lowerText = text.toLowerCase();
+      if (lowerText === lowerName) {
+        return 1;
+      }
+      if (lowerName.includes(lowerText) || lowerText.includes(lowerName)) {
+        best = Math.max(best, 0.8);
+      }
+    }
+
+    if (intent.tokens.length > 0) {
+      if (intent.tokens.join('') === compactName) {
+        return Math.max(best, 0.95);
+      }
+      const matched = intent.tokens.filter(token =>
+        nameWords.has(token) || (token.length >= 3 && compactName.includes(token))
+      ).length;
+      best = Math.max(best, 0.9 * matched / intent.tokens.length);
+    }
+
+    return best;
+  }
+
+  /**
+   * Try a role locator for an accessible element
+   */
+  private async tryRoleLocator(node: AccessibilityNode, originalSelector: string, failure: TestFailure): Promise<HealingAction> {
+    const selector = formatRoleSelector(node.role, node.name);
+    const locator = formatGetByRole(node.role, node.name);
+
+    try {
+      const probe = await this.probe.probe(selector, failure);
+
+      if (probe.visible) {
+        return this.createHealingAction(
+          'update_selector',
+          `Updated locator to accessible role and name: ${locator}`,
+          {
+            originalSelector,
+            newSelector: selector,
+            locator,
+            role: node.role,
+            name: node.name,
+            strategy: 'accessibility-locator',
+            probe
+          },
+          'success',
+          `Element found by role and name: ${selector}`
+        );
+      }
+
+      return this.createHealingAction(
+        'fallback_strategy',
+        `Attempted accessibility locator: ${locator}`,
+        { selector, locator, strategy: 'accessibility-locator', probe },
+        'failure',
+        `Element not found with accessibility locator: ${selector}`
+      );
+    } catch (error) {
+      return this.createHealingAction(
+        'fallback_strategy',
+        `Failed to try accessibility locator: ${locator}`,
+        { selector, locator, error: String(error) },
+        'failure',
+        `Error trying accessibility locator: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Add the role and name of the element a CSS selector still matches
+   */
+  private addMatchedElementIntent(selector: string, html: string, roles: Set<string>, texts: Set<string>): void {
+    if (selector.startsWith('/') || selector.startsWith('(') || /^[a-z-]+=/.test(selector)) {
+      return;
+    }
+
+    try {
+      const element = this.probe.parseHtml(html).querySelector(selector.replace(/^css=/, ''));
+      if (!element) {
+        return;
+      }
+      const role = getRole(element);
+      const name = getAccessibleName(element);
+      if (role) {
+        roles.add(role);
+      }
+      if (name) {
+        texts.add(name);
+      }
+    } catch {
+      // Not a selector the DOM can evaluate
+    }
+  }
+
+  /**
+   * Split an identifier such as `loginSubmit-btn` into lowercase words
+   */
+  private splitWords(value: string): string[] {
+    return value
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+  }
+
+  private roleForTag(tag: string): string | null {
+    const roles: Record<string, string> = {
+      a: 'link',
+      button: 'button',
+      select: 'combobox',
+      textarea: 'textbox',
+      input: 'textbox',
+      h1: 'heading',
+      h2: 'heading',
+      h3: 'heading',
+      h4: 'heading',
+      h5: 'heading',
+      h6: 'heading',
+      img: 'img',
+      nav: 'navigation',
+      dialog: 'dialog',
+    };
+    return roles[tag] || null;
+  }
+
+  private roleForInputType(type: string): string | null {
+    const roles: Record<string, string> = {
+      submit: 'button',
+      button: 'button',
+      reset: 'button',
+      checkbox: 'checkbox',
+      radio: 'radio',
+      search: 'searchbox',
+      text: 'textbox',
+      email: 'textbox',
+      password: 'textbox',
+      tel: 'textbox',
+      url: 'textbox',
+    };
+    return roles[type.toLowerCase()] || null;
+  }
+}
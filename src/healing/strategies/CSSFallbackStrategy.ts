@@ -13,6 +13,7 @@ import {
   HealingAction
 } from '../../types';
 import { HealingStrategy } from '../../core/HealingStrategy';
+import { LocatorProbe, locatorProbe, applyMatchQuality } from '../LocatorProbe';
 import { logger } from '../../utils/logger';
 
 /**
@@ -55,8 +56,9 @@ export interface CSSFallbackConfig {
  */
 export class CSSFallbackStrategy extends HealingStrategy {
   private config: CSSFallbackConfig;
+  private probe: LocatorProbe;
   
-  constructor(config: Partial<CSSFallbackConfig> = {}) {
+  constructor(config: Partial<CSSFallbackConfig> = {}, probe: LocatorProbe = locatorProbe) {
     super(
       'css-fallback',
       '1.0.0',
@@ -74,13 +76,14 @@ export class CSSFallbackStrategy extends HealingStrategy {
       ...config
     };
     
+    this.probe = probe;
     logger.info('CSSFallbackStrategy initialized', { config: this.config });
   }
   
   /**
    * Attempt to heal using CSS-based locators
    */
-  protected async doHeal(failure: TestFailure, context: HealingContext): Promise<HealingResult> {
+  protected async doHeal(failure: TestFailure, _context: HealingContext): Promise<HealingResult> {
     logger.info(`CSS fallback strategy attempting to heal: ${failure.id}`);
     
     const healingId = this.generateHealingId(failure);
@@ -102,12 +105,15 @@ export class CSSFallbackStrategy extends HealingStrategy {
       const cssCandidates = this.generateCSSCandidates(originalSelector);
       
       for (const candidate of cssCandidates) {
-        const action = await this.tryCSSLocator(candidate, context);
+        const action = await this.tryCSSLocator(candidate, originalSelector, failure);
         actions.push(action);
         
         if (action.result === 'success') {
           const duration = Date.now() - startTime.getTime();
-          const confidence = this.calculateCSSConfidence(candidate, originalSelector);
+          const confidence = applyMatchQuality(
+            this.calculateCSSConfidence(candidate, originalSelector),
+            action.parameters['probe']
+          );
           
           logger.info(`CSS fallback successful with candidate: ${candidate}`, {
             originalSelector,
@@ -126,12 +132,12 @@ export class CSSFallbackStrategy extends HealingStrategy {
       }
       
       // If no CSS candidates worked, try advanced techniques
-      const advancedAction = await this.tryAdvancedCSSTechniques(originalSelector, context);
+      const advancedAction = await this.tryAdvancedCSSTechniques(originalSelector, failure);
       actions.push(advancedAction);
       
       if (advancedAction.result === 'success') {
         const duration = Date.now() - startTime.getTime();
-        const confidence = 0.6; // Lower confidence for advanced techniques
+        const confidence = applyMatchQuality(0.6, advancedAction.parameters['probe']); // Lower confidence for advanced techniques
         
         return this.createSuccessResult(
           healingId,
@@ -425,7 +431,7 @@ export class CSSFallbackStrategy extends HealingStrategy {
   /**
    * Try advanced CSS techniques
    */
-  private async tryAdvancedCSSTechniques(originalSelector: string, context: HealingContext): Promise<HealingAction> {
+  private async tryAdvancedCSSTechniques(originalSelector: string, failure: TestFailure): Promise<HealingAction> {
     try {
       // Try wildcard selectors
       const wildcardSelectors = [
@@ -438,15 +444,16 @@ export class CSSFallbackStrategy extends HealingStrategy {
       ];
       
       for (const selector of wildcardSelectors) {
-        const elementFound = await this.simulateElementLookup(selector, context);
-        if (elementFound) {
+        const probe = await this.probe.probe(selector, failure);
+        if (probe.visible) {
           return this.createHealingAction(
             'update_selector',
             `Updated locator using advanced CSS technique: ${selector}`,
             { 
               originalSelector,
               newSelector: selector,
-              strategy: 'css-fallback-advanced'
+              strategy: 'css-fallback-advanced',
+              probe
             },
             'success',
             `Element found using advanced CSS technique: ${selector}`
@@ -475,19 +482,19 @@ export class CSSFallbackStrategy extends HealingStrategy {
   /**
    * Try a specific CSS locator
    */
-  private async tryCSSLocator(cssSelector: string, context: HealingContext): Promise<HealingAction> {
+  private async tryCSSLocator(cssSelector: string, originalSelector: string, failure: TestFailure): Promise<HealingAction> {
     try {
-      // Simulate element lookup (in real implementation, this would use the browser API)
-      const elementFound = await this.simulateElementLookup(cssSelector, context);
+      const probe = await this.probe.probe(cssSelector, failure);
       
-      if (elementFound) {
+      if (probe.visible) {
         return this.createHealingAction(
           'update_selector',
           `Updated locator to CSS selector: ${cssSelector}`,
           { 
-            originalSelector: 'unknown',
+            originalSelector,
             newSelector: cssSelector,
-            strategy: 'css-fallback'
+            strategy: 'css-fallback',
+            probe
           },
           'success',
           `Element found using CSS selector: ${cssSelector}`
@@ -496,7 +503,7 @@ export class CSSFallbackStrategy extends HealingStrategy {
         return this.createHealingAction(
           'fallback_strategy',
           `Attempted CSS selector: ${cssSelector}`,
-          { selector: cssSelector, strategy: 'css-fallback' },
+          { selector: cssSelector, strategy: 'css-fallback', probe },
           'failure',
           `Element not found with CSS selector: ${cssSelector}`
         );
@@ -512,33 +519,6 @@ export class CSSFallbackStrategy extends HealingStrategy {
     }
   }
   
-  /**
-   * Simulate element lookup (placeholder for real implementation)
-   */
-  private async simulateElementLookup(selector: string, _context: HealingContext): Promise<boolean> {
-    // In a real implementation, this would use the browser API to check if element exists
-    // For now, we'll simulate with some logic based on selector patterns
-    
-    // Simulate some delay
-    await new Promise(resolve => setTimeout(resolve, 50));
-    
-    // Simulate success for certain patterns (for demo purposes)
-    if (selector.includes('data-testid') || selector.includes('data-test')) {
-      return Math.random() > 0.2; // 80% success rate for test attributes
-    }
-    
-    if (selector.includes('btn') || selector.includes('button')) {
-      return Math.random() > 0.3; // 70% success rate for button-like selectors
-    }
-    
-    if (selector.includes('input') || selector.includes('field')) {
-      return Math.random() > 0.4; // 60% success rate for input-like selectors
-    }
-    
-    // Default success rate
-    return Math.random() > 0.5; // 50% success rate
-  }
-  
   /**
    * Calculate confidence for CSS-based healing
    */
@@ -0,0 +1,160 @@
+/**
+ * Field Rename Strategy
+ *
+ * This strategy heals API assertions broken by a renamed response field,
+ * such as `userName` becoming `user_name` or `status` becoming `state`. It
+ * finds the member of the JSONPath that no longer exists and proposes the
+ * sibling member whose name and value best fit the assertion.
+ */
+
+import {
+  TestFailure,
+  HealingResult,
+  HealingContext
+} from '../../types';
+import { HealingStrategy } from '../../core/HealingStrategy';
+import {
+  AssertionDrift,
+  DriftCandidate,
+  createCandidate,
+  getAssertionDrift,
+  nameSimilarity,
+  pickCandidate,
+  valueFit
+} from '../ContractDrift';
+import { JsonPathSegment, isDefiniteJsonPath, isJsonObject, queryJsonPath } from '../JsonPath';
+import { logger } from '../../utils/logger';
+
+/**
+ * Configuration for field rename strategy
+ */
+export interface FieldRenameConfig {
+  /** Minimum name similarity of a sibling that does not satisfy `equals` (0-1) */
+  minNameSimilarity: number;
+}
+
+/**
+ * Field Rename Strategy
+ *
+ * This strategy walks the failing JSONPath to the first member missing from
+ * the response and ranks the members next to it:
+ *
+ * 1. Names equal apart from case and separators rank highest
+ * 2. Names sharing words or close in spelling rank by similarity
+ * 3. A value satisfying the assertion raises the rank, a contradicting one lowers it
+ */
+export class FieldRenameStrategy extends HealingStrategy {
+  private config: FieldRenameConfig;
+
+  constructor(config: Partial<FieldRenameConfig> = {}) {
+    super(
+      'field-rename',
+      '1.0.0',
+      ['assertion_failed']
+    );
+
+    this.config = {
+      minNameSimilarity: 0.5,
+      ...config
+    };
+
+    logger.info('FieldRenameStrategy initialized', { config: this.config });
+  }
+
+  /**
+   * Only failures of API assertions carry a response to search
+   */
+  public override canHeal(failure: TestFailure): boolean {
+    return super.canHeal(failure) && getAssertionDrift(failure) !== undefined;
+  }
+
+  /**
+   * Attempt to heal by following the renamed member
+   */
+  protected async doHeal(failure: TestFailure, _context: HealingContext): Promise<HealingResult> {
+    logger.info(`Field rename strategy attempting to heal: ${failure.id}`);
+
+    const healingId = this.generateHealingId(failure);
+    const startTime = Date.now();
+    const drift = getAssertionDrift(failure)!;
+    const candidate = pickCandidate(this.findCandidates(drift));
+
+    if (!candidate) {
+      return this.createFailureResult(
+        healingId,
+        `No renamed member found for ${drift.path}`,
+        Date.now() - startTime
+      );
+    }
+
+    const action = this.createHealingAction(
+      'update_assertion',
+      `Update JSONPath from ${drift.path} to ${candidate.path}`,
+      {
+        originalPath: drift.path,
+        newPath: candidate.path,
+        strategy: this.name
+      },
+      'success',
+      `Member renamed in the response: ${candidate.path}`
+    );
+
+    return this.createSuccessResult(
+      healingId,
+      [action],
+      candidate.confidence,
+      Date.now() - startTime,
+      `Successfully healed renamed field: ${drift.path} -> ${candidate.path}`
+    );
+  }
+
+  /**
+   * Confidence of the best renamed member
+   */
+  protected async doCalculateConfidence(failure: TestFailure, _context: HealingContext): Promise<number> {
+    const drift = getAssertionDrift(failure);
+    return drift ? pickCandidate(this.findCandidates(drift))?.confidence ?? 0 : 0;
+  }
+
+  /**
+   * Rank the siblings of the first member of the path missing from the response
+   */
+  public findCandidates(drift: AssertionDrift): DriftCandidate[] {
+    const { segments, body, assertion } = drift;
+
+    for (const [index, segment] of segments.entries()) {
+      if (segment.type !== 'key') {
+        continue;
+      }
+
+      const parents = queryJsonPath(body, segments.slice(0, index)).filter(isJsonObject);
+      if (parents.length === 0) {
+        return [];
+      }
+      if (parents.some(parent => Object.prototype.hasOwnProperty.call(parent, segment.key))) {
+        continue;
+      }
+
+      const siblings = new Set(parents.flatMap(parent => Object.keys(parent)));
+      const isLast = index === segments.length - 1;
+      const candidates: DriftCandidate[] = [];
+      for (const sibling of siblings) {
+        const renamed: JsonPathSegment[] = [...segments.slice(0, index), { type: 'key', key: sibling }, ...segments.slice(index + 1)];
+        const values = queryJsonPath(body, renamed);
+        if (values.length === 0) {
+          continue;
+        }
+
+        const similarity = nameSimilarity(segment.key, sibling);
+        const fit = valueFit(isDefiniteJsonPath(renamed) ? values[0] : values, assertion);
+        if (similarity < this.config.minNameSimilarity && fit < 1) {
+          continue;
+        }
+        // Members closer to the root carry more under them, so a wrong guess costs more
+        candidates.push(createCandidate(renamed, 0.35 + 0.5 * similarity + 0.15 * fit - (isLast ? 0 : 0.05)));
+      }
+      return candidates;
+    }
+    return [];
+  }
+}
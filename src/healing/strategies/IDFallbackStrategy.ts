@@ -13,6 +13,7 @@ import {
   HealingAction
 } from '../../types';
 import { HealingStrategy } from '../../core/HealingStrategy';
+import { LocatorProbe, locatorProbe, applyMatchQuality } from '../LocatorProbe';
 import { logger } from '../../utils/logger';
 
 /**
@@ -52,9 +53,9 @@ export interface IDFallbackConfig {
  */
 export class IDFallbackStrategy extends HealingStrategy {
   private config: IDFallbackConfig;
-  private delay: number;
+  private probe: LocatorProbe;
   
-  constructor(config: Partial<IDFallbackConfig> = {}, delay: number = 50) {
+  constructor(config: Partial<IDFallbackConfig> = {}, probe: LocatorProbe = locatorProbe) {
     super(
       'id-fallback',
       '1.0.0',
@@ -71,14 +72,14 @@ export class IDFallbackStrategy extends HealingStrategy {
       ...config
     };
     
-    this.delay = delay;
+    this.probe = probe;
     logger.info('IDFallbackStrategy initialized', { config: this.config });
   }
   
   /**
    * Attempt to heal using ID-based locators
    */
-  protected async doHeal(failure: TestFailure, context: HealingContext): Promise<HealingResult> {
+  protected async doHeal(failure: TestFailure, _context: HealingContext): Promise<HealingResult> {
     logger.info(`ID fallback strategy attempting to heal: ${failure.id}`);
     
     const healingId = this.generateHealingId(failure);
@@ -100,12 +101,15 @@ export class IDFallbackStrategy extends HealingStrategy {
       const idCandidates = this.generateIDCandidates(originalSelector);
       
       for (const candidate of idCandidates) {
-        const action = await this.tryIDLocator(candidate, context);
+        const action = await this.tryIDLocator(candidate, originalSelector, failure);
         actions.push(action);
         
         if (action.result === 'success') {
           const duration = Date.now() - startTime.getTime();
-          const confidence = this.calculateIDConfidence(candidate, originalSelector);
+          const confidence = applyMatchQuality(
+            this.calculateIDConfidence(candidate, originalSelector),
+            action.parameters['probe']
+          );
           
           logger.info(`ID fallback successful with candidate: ${candidate}`, {
             originalSelector,
@@ -125,12 +129,12 @@ export class IDFallbackStrategy extends HealingStrategy {
       
       // If no ID candidates worked, try fuzzy matching
       if (this.config.enablePartialMatches) {
-        const fuzzyAction = await this.tryFuzzyIDMatching(originalSelector, context);
+        const fuzzyAction = await this.tryFuzzyIDMatching(originalSelector, failure);
         actions.push(fuzzyAction);
         
         if (fuzzyAction.result === 'success') {
           const duration = Date.now() - startTime.getTime();
-          const confidence = 0.6; // Lower confidence for fuzzy matches
+          const confidence = applyMatchQuality(0.6, fuzzyAction.parameters['probe']); // Lower confidence for fuzzy matches
           
           return this.createSuccessResult(
             healingId,
@@ -320,19 +324,19 @@ export class IDFallbackStrategy extends HealingStrategy {
   /**
    * Try a specific ID locator
    */
-  private async tryIDLocator(idSelector: string, context: HealingContext): Promise<HealingAction> {
+  private async tryIDLocator(idSelector: string, originalSelector: string, failure: TestFailure): Promise<HealingAction> {
     try {
-      // Simulate element lookup (in real implementation, this would use the browser API)
-      const elementFound = await this.simulateElementLookup(idSelector, context);
+      const probe = await this.probe.probe(idSelector, failure);
       
-      if (elementFound) {
+      if (probe.visible) {
         return this.createHealingAction(
           'update_selector',
           `Updated locator to ID selector: ${idSelector}`,
           { 
-            originalSelector: 'unknown',
+            originalSelector,
             newSelector: idSelector,
-            strategy: 'id-fallback'
+            strategy: 'id-fallback',
+            probe
           },
           'success',
           `Element found using ID selector: ${idSelector}`
@@ -341,7 +345,7 @@ export class IDFallbackStrategy extends HealingStrategy {
         return this.createHealingAction(
           'fallback_strategy',
           `Attempted ID selector: ${idSelector}`,
-          { selector: idSelector, strategy: 'id-fallback' },
+          { selector: idSelector, strategy: 'id-fallback', probe },
           'failure',
           `Element not found with ID selector: ${idSelector}`
         );
@@ -360,21 +364,22 @@ export class IDFallbackStrategy extends HealingStrategy {
   /**
    * Try fuzzy ID matching
    */
-  private async tryFuzzyIDMatching(originalSelector: string, context: HealingContext): Promise<HealingAction> {
+  private async tryFuzzyIDMatching(originalSelector: string, failure: TestFailure): Promise<HealingAction> {
     try {
       // Generate fuzzy candidates based on common patterns
       const fuzzyCandidates = this.generateFuzzyCandidates(originalSelector);
       
       for (const candidate of fuzzyCandidates) {
-        const elementFound = await this.simulateElementLookup(candidate, context);
-        if (elementFound) {
+        const probe = await this.probe.probe(candidate, failure);
+        if (probe.visible) {
           return this.createHealingAction(
             'update_selector',
             `Updated locator using fuzzy ID matching: ${candidate}`,
             { 
               originalSelector,
               newSelector: candidate,
-              strategy: 'id-fallback-fuzzy'
+              strategy: 'id-fallback-fuzzy',
+              probe
             },
             'success',
             `Element found using fuzzy ID matching: ${candidate}`
@@ -426,31 +431,6 @@ export class IDFallbackStrategy extends HealingStrategy {
     return candidates;
   }
   
-  /**
-   * Simulate element lookup (placeholder for real implementation)
-   */
-  private async simulateElementLookup(selector: string, _context: HealingContext): Promise<boolean> {
-    // In a real implementation, this would use the browser API to check if element exists
-    // For now, we'll simulate with some logic based on selector patterns
-    
-    // Simulate some delay
-    if (this.delay > 0) {
-      await new Promise(resolve => setTimeout(resolve, this.delay));
-    }
-    
-    // Simulate success for certain patterns (for demo purposes)
-    if (selector.includes('btn') || selector.includes('button')) {
-      return Math.random() > 0.3; // 70% success rate for button-like selectors
-    }
-    
-    if (selector.includes('input') || selector.includes('field')) {
-      return Math.random() > 0.4; // 60% success rate for input-like selectors
-    }
-    
-    // Default success rate
-    return Math.random() > 0.5; // 50% success rate
-  }
-  
   /**
    * Calculate confidence for ID-based healing
    */
@@ -0,0 +1,175 @@
+/**
+ * Moved Path Strategy
+ *
+ * This strategy heals API assertions broken by a response field that moved,
+ * such as `$.total` being wrapped into `$.data.total` or `$.user.email`
+ * moving to `$.user.contact.email`. It searches the whole response for the
+ * member the path ends in and proposes the location that keeps most of the
+ * original path.
+ */
+
+import {
+  TestFailure,
+  HealingResult,
+  HealingContext
+} from '../../types';
+import { HealingStrategy } from '../../core/HealingStrategy';
+import {
+  AssertionDrift,
+  DriftCandidate,
+  createCandidate,
+  getAssertionDrift,
+  nameSimilarity,
+  pickCandidate,
+  valueFit
+} from '../ContractDrift';
+import { JsonPathSegment, formatJsonPath, isDefiniteJsonPath, listJsonPaths, queryJsonPath } from '../JsonPath';
+import { logger } from '../../utils/logger';
+
+/**
+ * Configuration for moved path strategy
+ */
+export interface MovedPathConfig {
+  /** Confidence lost per level the new location is deeper or shallower than the original (0-1) */
+  depthPenalty: number;
+}
+
+/**
+ * Moved Path Strategy
+ *
+ * This strategy looks for members named like the last member of the
+ * failing JSONPath anywhere in the response:
+ *
+ * 1. Locations keeping the original path's members in order rank highest
+ * 2. Locations at a similar depth rank above distant ones
+ * 3. A value satisfying the assertion raises the rank, a contradicting one lowers it
+ *
+ * Paths reading every item of an array keep doing so at the new location.
+ */
+export class MovedPathStrategy extends HealingStrategy {
+  private config: MovedPathConfig;
+
+  constructor(config: Partial<MovedPathConfig> = {}) {
+    super(
+      'moved-path',
+      '1.0.0',
+      ['assertion_failed']
+    );
+
+    this.config = {
+      depthPenalty: 0.05,
+      ...config
+    };
+
+    logger.info('MovedPathStrategy initialized', { config: this.config });
+  }
+
+  /**
+   * Only failures of API assertions carry a response to search
+   */
+  public override canHeal(failure: TestFailure): boolean {
+    return super.canHeal(failure) && getAssertionDrift(failure) !== undefined;
+  }
+
+  /**
+   * Attempt to heal by finding where the member moved to
+   */
+  protected async doHeal(failure: TestFailure, _context: HealingContext): Promise<HealingResult> {
+    logger.info(`Moved path strategy attempting to heal: ${failure.id}`);
+
+    const healingId = this.generateHealingId(failure);
+    const startTime = Date.now();
+    const drift = getAssertionDrift(failure)!;
+    const candidate = pickCandidate(this.findCandidates(drift));
+
+    if (!candidate) {
+      return this.createFailureResult(
+        healingId,
+        `No other location found for ${drift.path}`,
+        Date.now() - startTime
+      );
+    }
+
+    const action = this.createHealingAction(
+      'update_assertion',
+      `Update JSONPath from ${drift.path} to ${candidate.path}`,
+      {
+        originalPath: drift.path,
+        newPath: candidate.path,
+        strategy: this.name
+      },
+      'success',
+      `Member moved in the response: ${candidate.path}`
+    );
+
+    return this.createSuccessResult(
+      healingId,
+      [action],
+      candidate.confidence,
+      Date.now() - startTime,
+      `Successfully healed moved field: ${drift.path} -> ${candidate.path}`
+    );
+  }
+
+  /**
+   * Confidence of the best new location
+   */
+  protected async doCalculateConfidence(failure: TestFailure, _context: HealingContext): Promise<number> {
+    const drift = getAssertionDrift(failure);
+    return drift ? pickCandidate(this.findCandidates(drift))?.confidence ?? 0 : 0;
+  }
+
+  /**
+   * Rank every location of the member the path ends in
+   */
+  public findCandidates(drift: AssertionDrift): DriftCandidate[] {
+    const { segments, body, assertion } = drift;
+    const last = segments[segments.length - 1];
+    if (!last || (last.type !== 'key' && last.type !== 'descendant')) {
+      return [];
+    }
+
+    const keys = segments.slice(0, -1).flatMap(segment => segment.type === 'key' ? [segment.key] : []);
+    const readsEveryItem = segments.some(segment => segment.type === 'wildcard');
+    const candidates = new Map<string, DriftCandidate>();
+
+    for (const entry of listJsonPaths(body)) {
+      const found = entry.segments[entry.segments.length - 1]!;
+      if (found.type !== 'key' || nameSimilarity(found.key, last.key) < 1) {
+        continue;
+      }
+
+      const moved: JsonPathSegment[] = readsEveryItem
+        ? entry.segments.map(segment => segment.type === 'index' ? { type: 'wildcard' } : segment)
+        : entry.segments;
+      const path = formatJsonPath(moved);
+      if (path === drift.path || candidates.has(path)) {
+        continue;
+      }
+
+      const values = queryJsonPath(body, moved);
+      const movedKeys = moved.slice(0, -1).flatMap(segment => segment.type === 'key' ? [segment.key] : []);
+      const kept = (commonSubsequence(keys, movedKeys) + 1) / (keys.length + 1);
+      const fit = valueFit(isDefiniteJsonPath(moved) ? values[0] : values, assertion);
+      const depth = Math.abs(moved.length - segments.length) * this.config.depthPenalty;
+      candidates.set(path, createCandidate(moved, 0.45 + 0.3 * kept + 0.15 * fit - depth));
+    }
+
+    return [...candidates.values()];
+  }
+}
+
+/**
+ * Length of the longest common subsequence of two lists of member names
+ */
+function commonSubsequence(a: string[], b: string[]): number {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (const item of a) {
+    const current = [0];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = item === b[j - 1] ? previous[j - 1]! + 1 : Math.max(previous[j]!, current[j - 1]!);
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
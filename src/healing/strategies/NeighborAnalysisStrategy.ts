@@ -13,6 +13,7 @@ import {
   HealingAction
 } from '../../types';
 import { HealingStrategy } from '../../core/HealingStrategy';
+import { LocatorProbe, locatorProbe, applyMatchQuality } from '../LocatorProbe';
 import { logger } from '../../utils/logger';
 
 /**
@@ -58,8 +59,9 @@ export interface NeighborAnalysisConfig {
  */
 export class NeighborAnalysisStrategy extends HealingStrategy {
   private config: NeighborAnalysisConfig;
+  private probe: LocatorProbe;
   
-  constructor(config: Partial<NeighborAnalysisConfig> = {}) {
+  constructor(config: Partial<NeighborAnalysisConfig> = {}, probe: LocatorProbe = locatorProbe) {
     super(
       'neighbor-analysis',
       '1.0.0',
@@ -78,6 +80,7 @@ export class NeighborAnalysisStrategy extends HealingStrategy {
       ...config
     };
     
+    this.probe = probe;
     logger.info('NeighborAnalysisStrategy initialized', { config: this.config });
   }
   
@@ -106,12 +109,15 @@ export class NeighborAnalysisStrategy extends HealingStrategy {
       const neighborCandidates = await this.generateNeighborCandidates(originalSelector, context);
       
       for (const candidate of neighborCandidates) {
-        const action = await this.tryNeighborLocator(candidate, context);
+        const action = await this.tryNeighborLocator(candidate, originalSelector, failure);
         actions.push(action);
         
         if (action.result === 'success') {
           const duration = Date.now() - startTime.getTime();
-          const confidence = this.calculateNeighborConfidence(candidate, originalSelector);
+          const confidence = applyMatchQuality(
+            this.calculateNeighborConfidence(candidate, originalSelector),
+            action.parameters['probe']
+          );
           
           logger.info(`Neighbor analysis successful with candidate: ${candidate}`, {
             originalSelector,
@@ -130,12 +136,12 @@ export class NeighborAnalysisStrategy extends HealingStrategy {
       }
       
       // If no neighbor candidates worked, try contextual analysis
-      const contextualAction = await this.tryContextualAnalysis(originalSelector, context);
+      const contextualAction = await this.tryContextualAnalysis(originalSelector, failure);
       actions.push(contextualAction);
       
       if (contextualAction.result === 'success') {
         const duration = Date.now() - startTime.getTime();
-        const confidence = 0.4; // Lower confidence for contextual analysis
+        const confidence = applyMatchQuality(0.4, contextualAction.parameters['probe']); // Lower confidence for contextual analysis
         
         return this.createSuccessResult(
           healingId,
@@ -430,7 +436,7 @@ export class NeighborAnalysisStrategy extends HealingStrategy {
   /**
    * Try contextual analysis
    */
-  private async tryContextualAnalysis(originalSelector: string, context: HealingContext): Promise<HealingAction> {
+  private async tryContextualAnalysis(originalSelector: string, failure: TestFailure): Promise<HealingAction> {
     try {
       // Try contextual patterns based on common UI patterns
       const contextualPatterns = [
@@ -448,15 +454,16 @@ export class NeighborAnalysisStrategy extends HealingStrategy {
       ];
       
       for (const pattern of contextualPatterns) {
-        const elementFound = await this.simulateElementLookup(pattern, context);
-        if (elementFound) {
+        const probe = await this.probe.probe(pattern, failure);
+        if (probe.visible) {
           return this.createHealingAction(
             'update_selector',
             `Updated locator using contextual analysis: ${pattern}`,
             { 
               originalSelector,
               newSelector: pattern,
-              strategy: 'neighbor-analysis-contextual'
+              strategy: 'neighbor-analysis-contextual',
+              probe
             },
             'success',
             `Element found using contextual analysis: ${pattern}`
@@ -485,19 +492,19 @@ export class NeighborAnalysisStrategy extends HealingStrategy {
   /**
    * Try a specific neighbor locator
    */
-  private async tryNeighborLocator(locator: string, context: HealingContext): Promise<HealingAction> {
+  private async tryNeighborLocator(locator: string, originalSelector: string, failure: TestFailure): Promise<HealingAction> {
     try {
-      // Simulate element lookup (in real implementation, this would use the browser API)
-      const elementFound = await this.simulateElementLookup(locator, context);
+      const probe = await this.probe.probe(locator, failure);
       
-      if (elementFound) {
+      if (probe.visible) {
         return this.createHealingAction(
           'update_selector',
           `Updated locator using neighbor analysis: ${locator}`,
           { 
-            originalSelector: 'unknown',
+            originalSelector,
             newSelector: locator,
-            strategy: 'neighbor-analysis'
+            strategy: 'neighbor-analysis',
+            probe
           },
           'success',
           `Element found using neighbor analysis: ${locator}`
@@ -506,7 +513,7 @@ export class NeighborAnalysisStrategy extends HealingStrategy {
         return this.createHealingAction(
           'fallback_strategy',
           `Attempted neighbor locator: ${locator}`,
-          { selector: locator, strategy: 'neighbor-analysis' },
+          { selector: locator, strategy: 'neighbor-analysis', probe },
           'failure',
           `Element not found with neighbor locator: ${locator}`
         );
@@ -522,37 +529,6 @@ export class NeighborAnalysisStrategy extends HealingStrategy {
     }
   }
   
-  /**
-   * Simulate element lookup (placeholder for real implementation)
-   */
-  private async simulateElementLookup(locator: string, _context: HealingContext): Promise<boolean> {
-    // In a real implementation, this would use the browser API to check if element exists
-    // For now, we'll simulate with some logic based on locator patterns
-    
-    // Simulate some delay
-    await new Promise(resolve => setTimeout(resolve, 50));
-    
-    // Simulate success for certain patterns (for demo purposes)
-    if (locator.includes('following-sibling') || locator.includes('preceding-sibling')) {
-      return Math.random() > 0.4; // 60% success rate for sibling relationships
-    }
-    
-    if (locator.includes('parent::') || locator.includes('ancestor::')) {
-      return Math.random() > 0.5; // 50% success rate for parent relationships
-    }
-    
-    if (locator.includes('form//button') || locator.includes('form//input')) {
-      return Math.random() > 0.3; // 70% success rate for form elements
-    }
-    
-    if (locator.includes('modal') || locator.includes('dialog')) {
-      return Math.random() > 0.4; // 60% success rate for modal elements
-    }
-    
-    // Default success rate
-    return Math.random() > 0.6; // 40% success rate
-  }
-  
   /**
    * Calculate confidence for neighbor-based healing
    */
@@ -0,0 +1,389 @@
+/**
+ * Visual Match Strategy
+ *
+ * This strategy recovers from broken selectors by looking for the element the
+ * way a person would: by what it looks like. Passing runs store a screenshot
+ * crop of the elements they interacted with that are still on the page they
+ * end on; when a selector later fails, the crop is searched for in a
+ * screenshot of the failing page and the region that matches best is mapped
+ * back to a DOM element and a new selector.
+ */
+
+import {
+  TestFailure,
+  HealingResult,
+  HealingContext,
+  HealingAction
+} from '../../types';
+import { HealingStrategy } from '../../core/HealingStrategy';
+import { LocatorProbe, ProbePage, locatorProbe, applyMatchQuality } from '../LocatorProbe';
+import {
+  ImageRegion,
+  TemplateMatch,
+  cropImage,
+  decodePng,
+  differenceHash,
+  findTemplate,
+  hashSimilarity,
+  toGrayscale
+} from '../ImageMatching';
+import { VisualBaselineStore } from '../VisualBaselines';
+import { logger } from '../../utils/logger';
+
+/**
+ * Configuration for visual match strategy
+ */
+export interface VisualMatchConfig {
+  /** Minimum visual similarity between the baseline and the matched region (0-1) */
+  minSimilarity: number;
+
+  /** Minimum intersection over union of the matched region and the element box (0-1) */
+  minOverlap: number;
+
+  /** Weight of template correlation in the similarity; the hash similarity gets the rest */
+  correlationWeight: number;
+
+  /** Shorter baseline side after downscaling for the coarse template search */
+  coarseSize: number;
+}
+
+/**
+ * Element found under a matched screenshot region
+ */
+export interface LocatedElement {
+  /** Selector generated for the element */
+  selector: string;
+
+  /** Intersection over union of the element box and the region (0-1) */
+  overlap: number;
+}
+
+/**
+ * Region of the failing page that looks like the baseline
+ */
+export interface VisualMatch {
+  region: TemplateMatch;
+  similarity: number;
+}
+
+/**
+ * Visual Match Strategy
+ *
+ * This strategy attempts to recover from element not found failures using
+ * element screenshots recorded by passing runs:
+ *
+ * 1. Look up the baseline crop for the broken selector and page
+ * 2. Capture a screenshot of the failing page
+ * 3. Find the most similar region by template matching and perceptual hashing
+ * 4. Map the region to the DOM element covering it and generate a selector
+ * 5. Verify the selector against the live page
+ */
+export class VisualMatchStrategy extends HealingStrategy {
+  private config: VisualMatchConfig;
+  private probe: LocatorProbe;
+
+  constructor(
+    private baselines: VisualBaselineStore,
+    config: Partial<VisualMatchConfig> = {},
+    probe: LocatorProbe = locatorProbe
+  ) {
+    super(
+      'visual-match',
+      '1.0.0',
+      ['element_not_found', 'timeout']
+    );
+
+    this.config = {
+      minSimilarity: 0.8,
+      minOverlap: 0.5,
+      correlationWeight: 0.7,
+      coarseSize: 16,
+      ...config
+    };
+    this.probe = probe;
+    logger.info('VisualMatchStrategy initialized', { config: this.config });
+  }
+
+  /**
+   * Attempt to heal by locating the element's baseline image on the page
+   */
+  protected async doHeal(failure: TestFailure, _context: HealingContext): Promise<HealingResult> {
+    logger.info(`Visual match strategy attempting to heal: ${failure.id}`);
+
+    const healingId = this.generateHealingId(failure);
+    const startTime = new Date();
+
+    try {
+      const originalSelector = this.extractSelector(failure);
+      if (!originalSelector) {
+        return this.createFailureResult(
+          healingId,
+          'No selector information found in failure',
+          Date.now() - startTime.getTime()
+        );
+      }
+
+      const baseline = await this.baselines.find(originalSelector, failure.context?.browserState?.url);
+      if (!baseline) {
+        return this.createFailureResult(
+          healingId,
+          `No visual baseline recorded for selector: ${originalSelector}`,
+          Date.now() - startTime.getTime()
+        );
+      }
+
+      const page = this.probe.getPage(failure.testId);
+      if (!page?.screenshot || !page.evaluate) {
+        return this.createFailureResult(
+          healingId,
+          'No live page available to capture a screenshot',
+          Date.now() - startTime.getTime()
+        );
+      }
+
+      const match = this.matchBaseline(
+        Buffer.from(baseline.image, 'base64'),
+        baseline.hash,
+        await page.screenshot()
+      );
+      if (!match || match.similarity < this.config.minSimilarity) {
+        return this.createFailureResult(
+          healingId,
+          match
+            ? `Most similar region is below the similarity threshold: ${match.similarity.toFixed(2)}`
+            : 'Baseline image does not fit in the page screenshot',
+          Date.now() - startTime.getTime()
+        );
+      }
+
+      const action = await this.tryMatchedRegion(page, match, originalSelector);
+      const duration = Date.now() - startTime.getTime();
+
+      if (action.result !== 'success') {
+        return {
+          ...this.createFailureResult(healingId, action.message || 'Visually matched region could not be verified', duration),
+          actions: [action],
+        };
+      }
+
+      const confidence = applyMatchQuality(match.similarity, action.parameters['probe']);
+      logger.info(`Visual match successful: ${action.parameters['newSelector']}`, {
+        originalSelector,
+        similarity: match.similarity,
+        duration
+      });
+
+      return this.createSuccessResult(
+        healingId,
+        [action],
+        confidence,
+        duration,
+        `Successfully healed using visual match: ${action.parameters['newSelector']}`
+      );
+
+    } catch (error) {
+      const duration = Date.now() - startTime.getTime();
+      logger.error(`Visual match strategy failed: ${failure.id}`, error);
+      return this.createFailureResult(
+        healingId,
+        `Visual match strategy failed: ${error}`,
+        duration
+      );
+    }
+  }
+
+  /**
+   * Calculate confidence for visual healing
+   */
+  protected async doCalculateConfidence(failure: TestFailure, _context: HealingContext): Promise<number> {
+    const originalSelector = this.extractSelector(failure);
+    if (!originalSelector) {
+      return 0;
+    }
+
+    const page = this.probe.getPage(failure.testId);
+    if (!page?.screenshot || !page.evaluate) {
+      return 0; // Visual matching needs a live page
+    }
+
+    const baseline = await this.baselines.find(originalSelector, failure.context?.browserState?.url);
+    return baseline ? 0.7 : 0;
+  }
+
+  /**
+   * Find the region of a page screenshot that looks most like a baseline crop
+   *
+   * Similarity blends the normalized cross-correlation of the best template
+   * position with the difference-hash similarity of the region it covers.
+   */
+  public matchBaseline(baselinePng: Buffer, baselineHash: string, screenshotPng: Buffer): VisualMatch | null {
+    const screenshot = decodePng(screenshotPng);
+    const template = toGrayscale(decodePng(baselinePng));
+
+    const region = findTemplate(toGrayscale(screenshot), template, { coarseSize: this.config.coarseSize });
+    if (!region) {
+      return null;
+    }
+
+    const hash = differenceHash(toGrayscale(cropImage(screenshot, region)));
+    const similarity = this.config.correlationWeight * Math.max(0, region.correlation) +
+      (1 - this.config.correlationWeight) * hashSimilarity(baselineHash, hash);
+
+    return { region, similarity };
+  }
+
+  /**
+   * Map a matched region to an element and verify its selector
+   */
+  private async tryMatchedRegion(page: ProbePage, match: VisualMatch, originalSelector: string): Promise<HealingAction> {
+    const region: ImageRegion = {
+      x: match.region.x,
+      y: match.region.y,
+      width: match.region.width,
+      height: match.region.height,
+    };
+    const located = await page.evaluate!(locateElement, region);
+
+    if (!located || located.overlap < this.config.minOverlap) {
+      return this.createHealingAction(
+        'update_selector',
+        'Map visually matched region to an element',
+        { originalSelector, region, similarity: match.similarity, correlation: match.region.correlation },
+        'failure',
+        located
+          ? `No element covers the matched region closely enough: overlap ${located.overlap.toFixed(2)}`
+          : 'No element found under the matched region'
+      );
+    }
+
+    const probe = await this.probe.probePage(located.selector, page);
+    const parameters = {
+      originalSelector,
+      newSelector: located.selector,
+      strategy: 'visual',
+      region,
+      similarity: match.similarity,
+      correlation: match.region.correlation,
+      overlap: located.overlap,
+      probe
+    };
+
+    if (!probe.visible) {
+      return this.createHealingAction(
+        'update_selector',
+        `Try visually matched selector: ${located.selector}`,
+        parameters,
+        'failure',
+        `Selector did not match a visible element: ${located.selector}`
+      );
+    }
+
+    return this.createHealingAction(
+      'update_selector',
+      `Update selector from ${originalSelector} to ${located.selector}`,
+      parameters,
+      'success',
+      `Found visually matching element: ${located.selector}`
+    );
+  }
+
+  /**
+   * Extract selector information from failure
+   */
+  private extractSelector(failure: TestFailure): string | null {
+    // Try to extract selector from failure message
+    const selectorMatch = failure.message.match(/selector[:\s]+([^\s]+)/i);
+    if (selectorMatch) {
+      return selectorMatch[1] || null;
+    }
+
+    // Try to extract from failure context custom data
+    if (failure.context?.custom?.['selector']) {
+      return failure.context.custom['selector'];
+    }
+
+    // Try to extract from locator information
+    if (failure.context?.custom?.['locator']) {
+      return failure.context.custom['locator'];
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Find the element covering a screenshot region and build a selector for it
+ *
+ * Runs inside the browser, so it must not reference anything outside its own
+ * body. The region is in screenshot pixels and is converted to CSS pixels
+ * using the device pixel ratio.
+ */
+function locateElement(region: ImageRegion): LocatedElement | null {
+  const ratio = window.devicePixelRatio || 1;
+  const box = { x: region.x / ratio, y: region.y / ratio, width: region.width / ratio, height: region.height / ratio };
+
+  const overlap = (element: Element): number => {
+    const rect = element.getBoundingClientRect();
+    const width = Math.max(0, Math.min(rect.right, box.x + box.width) - Math.max(rect.left, box.x));
+    const height = Math.max(0, Math.min(rect.bottom, box.y + box.height) - Math.max(rect.top, box.y));
+    const intersection = width * height;
+    const union = rect.width * rect.height + box.width * box.height - intersection;
+    return union > 0 ? intersection / union : 0;
+  };
+
+  let best: Element | null = null;
+  let bestOverlap = 0;
+  for (let element = document.elementFromPoint(box.x + box.width / 2, box.y + box.height / 2);
+    element && element !== document.body && element !== document.documentElement;
+    element = element.parentElement) {
+    const score = overlap(element);
+    if (score > bestOverlap) {
+      best = element;
+      bestOverlap = score;
+    }
+  }
+  if (!best) {
+    return null;
+  }
+
+  const unique = (selector: string): boolean => {
+    try {
+      return document.querySelectorAll(selector).length === 1;
+    } catch {
+      return false;
+    }
+  };
+  const quote = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+  for (const attribute of ['data-testid', 'data-test', 'data-cy', 'data-qa']) {
+    const value = best.getAttribute(attribute);
+    if (value && unique(`[${attribute}=${quote(value)}]`)) {
+      return { selector: `[${attribute}=${quote(value)}]`, overlap: bestOverlap };
+    }
+  }
+
+  if (best.id && unique(`#${CSS.escape(best.id)}`)) {
+    return { selector: `#${CSS.escape(best.id)}`, overlap: bestOverlap };
+  }
+
+  const tag = best.tagName.toLowerCase();
+  const name = best.getAttribute('name');
+  if (name && unique(`${tag}[name=${quote(name)}]`)) {
+    return { selector: `${tag}[name=${quote(name)}]`, overlap: bestOverlap };
+  }
+
+  const steps: string[] = [];
+  for (let element: Element | null = best; element && element !== document.documentElement; element = element.parentElement) {
+    if (element !== best && element.id && unique(`#${CSS.escape(element.id)}`)) {
+      steps.unshift(`#${CSS.escape(element.id)}`);
+      break;
+    }
+    const elementTag = element.tagName.toLowerCase();
+    const siblings = element.parentElement
+      ? Array.from(element.parentElement.children).filter(sibling => sibling.tagName === element!.tagName)
+      : [element];
+    steps.unshift(siblings.length > 1 ? `${elementTag}:nth-of-type(${siblings.indexOf(element) + 1})` : elementTag);
+  }
+
+  return { selector: steps.join(' > '), overlap: bestOverlap };
+}
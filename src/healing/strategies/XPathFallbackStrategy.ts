@@ -13,6 +13,7 @@ import {
   HealingAction
 } from '../../types';
 import { HealingStrategy } from '../../core/HealingStrategy';
+import { LocatorProbe, locatorProbe, applyMatchQuality } from '../LocatorProbe';
 import { logger } from '../../utils/logger';
 
 /**
@@ -55,8 +56,9 @@ export interface XPathFallbackConfig {
  */
 export class XPathFallbackStrategy extends HealingStrategy {
   private config: XPathFallbackConfig;
+  private probe: LocatorProbe;
   
-  constructor(config: Partial<XPathFallbackConfig> = {}) {
+  constructor(config: Partial<XPathFallbackConfig> = {}, probe: LocatorProbe = locatorProbe) {
     super(
       'xpath-fallback',
       '1.0.0',
@@ -74,13 +76,14 @@ export class XPathFallbackStrategy extends HealingStrategy {
       ...config
     };
     
+    this.probe = probe;
     logger.info('XPathFallbackStrategy initialized', { config: this.config });
   }
   
   /**
    * Attempt to heal using XPath-based locators
    */
-  protected async doHeal(failure: TestFailure, context: HealingContext): Promise<HealingResult> {
+  protected async doHeal(failure: TestFailure, _context: HealingContext): Promise<HealingResult> {
     logger.info(`XPath fallback strategy attempting to heal: ${failure.id}`);
     
     const healingId = this.generateHealingId(failure);
@@ -102,12 +105,15 @@ export class XPathFallbackStrategy extends HealingStrategy {
       const xpathCandidates = this.generateXPathCandidates(originalSelector);
       
       for (const candidate of xpathCandidates) {
-        const action = await this.tryXPathLocator(candidate, context);
+        const action = await this.tryXPathLocator(candidate, originalSelector, failure);
         actions.push(action);
         
         if (action.result === 'success') {
           const duration = Date.now() - startTime.getTime();
-          const confidence = this.calculateXPathConfidence(candidate, originalSelector);
+          const confidence = applyMatchQuality(
+            this.calculateXPathConfidence(candidate, originalSelector),
+            action.parameters['probe']
+          );
           
           logger.info(`XPath fallback successful with candidate: ${candidate}`, {
             originalSelector,
@@ -126,12 +132,12 @@ export class XPathFallbackStrategy extends HealingStrategy {
       }
       
       // If no XPath candidates worked, try advanced techniques
-      const advancedAction = await this.tryAdvancedXPathTechniques(originalSelector, context);
+      const advancedAction = await this.tryAdvancedXPathTechniques(originalSelector, failure);
       actions.push(advancedAction);
       
       if (advancedAction.result === 'success') {
         const duration = Date.now() - startTime.getTime();
-        const confidence = 0.5; // Lower confidence for advanced techniques
+        const confidence = applyMatchQuality(0.5, advancedAction.parameters['probe']); // Lower confidence for advanced techniques
         
         return this.createSuccessResult(
           healingId,
@@ -420,7 +426,7 @@ export class XPathFallbackStrategy extends HealingStrategy {
   /**
    * Try advanced XPath techniques
    */
-  private async tryAdvancedXPathTechniques(originalSelector: string, context: HealingContext): Promise<HealingAction> {
+  private async tryAdvancedXPathTechniques(originalSelector: string, failure: TestFailure): Promise<HealingAction> {
     try {
       // Try wildcard XPath expressions
       const wildcardXPaths = [
@@ -435,15 +441,16 @@ export class XPathFallbackStrategy extends HealingStrategy {
       ];
       
       for (const xpath of wildcardXPaths) {
-        const elementFound = await this.simulateElementLookup(xpath, context);
-        if (elementFound) {
+        const probe = await this.probe.probe(xpath, failure);
+        if (probe.visible) {
           return this.createHealingAction(
             'update_selector',
             `Updated locator using advanced XPath technique: ${xpath}`,
             { 
               originalSelector,
               newSelector: xpath,
-              strategy: 'xpath-fallback-advanced'
+              strategy: 'xpath-fallback-advanced',
+              probe
             },
             'success',
             `Element found using advanced XPath technique: ${xpath}`
@@ -472,19 +479,19 @@ export class XPathFallbackStrategy extends HealingStrategy {
   /**
    * Try a specific XPath locator
    */
-  private async tryXPathLocator(xpath: string, context: HealingContext): Promise<HealingAction> {
+  private async tryXPathLocator(xpath: string, originalSelector: string, failure: TestFailure): Promise<HealingAction> {
     try {
-      // Simulate element lookup (in real implementation, this would use the browser API)
-      const elementFound = await this.simulateElementLookup(xpath, context);
+      const probe = await this.probe.probe(xpath, failure);
       
-      if (elementFound) {
+      if (probe.visible) {
         return this.createHealingAction(
           'update_selector',
           `Updated locator to XPath: ${xpath}`,
           { 
-            originalSelector: 'unknown',
+            originalSelector,
             newSelector: xpath,
-            strategy: 'xpath-fallback'
+            strategy: 'xpath-fallback',
+            probe
           },
           'success',
           `Element found using XPath: ${xpath}`
@@ -493,7 +500,7 @@ export class XPathFallbackStrategy extends HealingStrategy {
         return this.createHealingAction(
           'fallback_strategy',
           `Attempted XPath: ${xpath}`,
-          { selector: xpath, strategy: 'xpath-fallback' },
+          { selector: xpath, strategy: 'xpath-fallback', probe },
           'failure',
           `Element not found with XPath: ${xpath}`
         );
@@ -509,33 +516,6 @@ export class XPathFallbackStrategy extends HealingStrategy {
     }
   }
   
-  /**
-   * Simulate element lookup (placeholder for real implementation)
-   */
-  private async simulateElementLookup(xpath: string, _context: HealingContext): Promise<boolean> {
-    // In a real implementation, this would use the browser API to check if element exists
-    // For now, we'll simulate with some logic based on XPath patterns
-    
-    // Simulate some delay
-    await new Promise(resolve => setTimeout(resolve, 50));
-    
-    // Simulate success for certain patterns (for demo purposes)
-    if (xpath.includes('data-testid') || xpath.includes('data-test')) {
-      return Math.random() > 0.2; // 80% success rate for test attributes
-    }
-    
-    if (xpath.includes('text()') || xpath.includes('contains(text()')) {
-      return Math.random() > 0.3; // 70% success rate for text-based XPath
-    }
-    
-    if (xpath.includes('btn') || xpath.includes('button')) {
-      return Math.random() > 0.4; // 60% success rate for button-like XPath
-    }
-    
-    // Default success rate
-    return Math.random() > 0.5; // 50% success rate
-  }
-  
   /**
    * Calculate confidence for XPath-based healing
    */
@@ -12,6 +12,7 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { ReportData, HealingStats, SystemHealth, ObservabilityConfig } from '../types';
+import { TestMatrixResult } from '../../types';
 
 export interface ReportTemplate {
   id: string;
@@ -494,7 +495,7 @@ export class ReportGenerator {
         <td class="status-${test.status}">${test.status || 'Unknown'}</td>
         <td>${test.duration || 'N/A'}</td>
         <td>${test.engine || 'N/A'}</td>
-      </tr>
+      </tr>${test.matrix ? this.formatMatrixRow(test.matrix) : ''}
     `).join('');
 
     return `
@@ -514,6 +515,20 @@ export class ReportGenerator {
     `;
   }
 
+  /**
+   * Format the cells of a matrix test as a row below the test
+   */
+  private formatMatrixRow(matrix: TestMatrixResult): string {
+    const cells = matrix.cells
+      .map(cell => `<span class="status-${cell.status}">${cell.cell.id}: ${cell.status}</span>`)
+      .join(', ');
+
+    return `
+      <tr class="matrix">
+        <td colspan="4">Matrix ${matrix.summary} (${cells})</td>
+      </tr>`;
+  }
+
   /**
    * Format healing strategies for HTML
    */
@@ -0,0 +1,162 @@
+/**
+ * Generic repository over a driver collection
+ *
+ * Translates record-level filters and sort fields into driver queries so
+ * that filtering, sorting and pagination happen in storage rather than in
+ * the routes.
+ */
+
+import {
+  CollectionSchema,
+  CollectionStore,
+  PageResult,
+  QueryCondition,
+  QueryOptions,
+  Repository,
+  SortDirection,
+  StorageDriver
+} from './types';
+import { StorageError } from './errors';
+
+/**
+ * Default page size when none is given
+ */
+export const DEFAULT_PAGE_LIMIT = 10;
+
+/**
+ * Upper bound on page size
+ */
+export const MAX_PAGE_LIMIT = 1000;
+
+/**
+ * Maps a record-level filter to column conditions
+ */
+export type FilterMapper<F> = (filter: F) => QueryCondition[];
+
+/**
+ * Clamp pagination input to sane values
+ */
+export function normalizePagination(options: QueryOptions = {}): { page: number; limit: number } {
+  const page = Number.isFinite(options.page) && options.page! >= 1 ? Math.floor(options.page!) : 1;
+  const limit = Number.isFinite(options.limit) && options.limit! >= 1
+    ? Math.min(Math.floor(options.limit!), MAX_PAGE_LIMIT)
+    : DEFAULT_PAGE_LIMIT;
+
+  return { page, limit };
+}
+
+/**
+ * Repository backed by a driver collection
+ */
+export class DocumentRepository<T, F> implements Repository<T, F> {
+  private store: CollectionStore<T>;
+
+  constructor(
+    driver: StorageDriver,
+    private schema: CollectionSchema<T>,
+    private mapFilter: FilterMapper<F>
+  ) {
+    this.store = driver.collection(schema);
+  }
+
+  public async save(record: T): Promise<T> {
+    return this.execute('save', () => {
+      this.store.put(record);
+      return record;
+    });
+  }
+
+  public async findById(id: string): Promise<T | null> {
+    return this.execute('findById', () => this.store.get(id));
+  }
+
+  public async find(filter?: F, options: QueryOptions = {}): Promise<PageResult<T>> {
+    const { page, limit } = normalizePagination(options);
+    const conditions = this.conditionsFor(filter);
+
+    return this.execute('find', () => {
+      const total = this.store.count(conditions);
+      const offset = (page - 1) * limit;
+      const items = this.store.query({
+        conditions,
+        sortColumn: this.resolveSortColumn(options.sortBy),
+        sort: this.resolveSortDirection(options.sort),
+        offset,
+        limit
+      });
+
+      return {
+        items,
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext: offset + limit < total,
+        hasPrev: page > 1
+      };
+    });
+  }
+
+  public async findAll(filter?: F): Promise<T[]> {
+    const conditions = this.conditionsFor(filter);
+    return this.execute('findAll', () => this.store.query({
+      conditions,
+      sortColumn: this.schema.defaultSortColumn,
+      sort: 'desc'
+    }));
+  }
+
+  public async findLatestPerGroup(filter: F | undefined, groupBy: string, limit: number): Promise<T[]> {
+    const conditions = this.conditionsFor(filter);
+    const groupColumn = this.schema.groupFields?.[groupBy];
+    if (!groupColumn) {
+      throw new StorageError(`${this.schema.name} cannot be grouped by ${groupBy}`);
+    }
+
+    return this.execute('findLatestPerGroup', () => this.store.query({
+      conditions,
+      sortColumn: this.schema.defaultSortColumn,
+      sort: 'desc',
+      perGroup: { column: groupColumn, limit: Math.max(0, Math.floor(limit)) }
+    }));
+  }
+
+  public async count(filter?: F): Promise<number> {
+    const conditions = this.conditionsFor(filter);
+    return this.execute('count', () => this.store.count(conditions));
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    return this.execute('delete', () => this.store.delete(id));
+  }
+
+  public async clear(): Promise<void> {
+    return this.execute('clear', () => this.store.clear());
+  }
+
+  private conditionsFor(filter?: F): QueryCondition[] {
+    return filter ? this.mapFilter(filter) : [];
+  }
+
+  private resolveSortColumn(sortBy?: string): string {
+    if (sortBy && Object.prototype.hasOwnProperty.call(this.schema.sortFields, sortBy)) {
+      return this.schema.sortFields[sortBy]!;
+    }
+    return this.schema.defaultSortColumn;
+  }
+
+  private resolveSortDirection(sort?: string): SortDirection {
+    return sort === 'asc' ? 'asc' : 'desc';
+  }
+
+  private execute<R>(operation: string, fn: () => R): R {
+    try {
+      return fn();
+    } catch (error) {
+      if (error instanceof StorageError) {
+        throw error;
+      }
+      throw new StorageError(`${this.schema.name}.${operation} failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Storage facade
+ *
+ * Builds the repositories for test results, healing attempts, reports,
+ * selector patches, learned heals, visual baselines and quarantined tests on
+ * top of the driver selected by the database configuration.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseConfig } from '../config/schemas';
+import { logger } from '../utils/logger';
+import { DocumentRepository } from './Repository';
+import { StorageError } from './errors';
+import { MemoryDriver } from './memory/MemoryDriver';
+import { MigrationRunner } from './sqlite/MigrationRunner';
+import { SqliteDriver } from './sqlite/SqliteDriver';
+import {
+  healingAttemptSchema,
+  healingMemorySchema,
+  mapHealingAttemptFilter,
+  mapHealingMemoryFilter,
+  mapQuarantineFilter,
+  mapReportFilter,
+  mapSelectorPatchFilter,
+  mapTestResultFilter,
+  quarantineSchema,
+  reportSchema,
+  selectorPatchSchema,
+  mapVisualBaselineFilter,
+  testResultSchema,
+  visualBaselineSchema
+} from './schemas';
+import {
+  HealingAttemptRepository,
+  HealingMemoryRepository,
+  QuarantineRepository,
+  ReportRepository,
+  SelectorPatchRepository,
+  StorageDriver,
+  StorageDriverType,
+  TestResultRepository,
+  VisualBaselineRepository
+} from './types';
+
+/**
+ * Default SQLite database file
+ */
+export const DEFAULT_SQLITE_FILENAME = './data/test-harness.db';
+
+/**
+ * Repositories sharing one storage driver
+ */
+export class Storage {
+  public readonly testResults: TestResultRepository;
+  public readonly healingAttempts: HealingAttemptRepository;
+  public readonly reports: ReportRepository;
+  public readonly selectorPatches: SelectorPatchRepository;
+  public readonly healingMemory: HealingMemoryRepository;
+  public readonly visualBaselines: VisualBaselineRepository;
+  public readonly quarantine: QuarantineRepository;
+
+  constructor(private driver: StorageDriver) {
+    this.testResults = new DocumentRepository(driver, testResultSchema, mapTestResultFilter);
+    this.healingAttempts = new DocumentRepository(driver, healingAttemptSchema, mapHealingAttemptFilter);
+    this.reports = new DocumentRepository(driver, reportSchema, mapReportFilter);
+    this.selectorPatches = new DocumentRepository(driver, selectorPatchSchema, mapSelectorPatchFilter);
+    this.healingMemory = new DocumentRepository(driver, healingMemorySchema, mapHealingMemoryFilter);
+    this.visualBaselines = new DocumentRepository(driver, visualBaselineSchema, mapVisualBaselineFilter);
+    this.quarantine = new DocumentRepository(driver, quarantineSchema, mapQuarantineFilter);
+  }
+
+  public get type(): StorageDriverType {
+    return this.driver.type;
+  }
+
+  /**
+   * Release the underlying driver
+   */
+  public close(): void {
+    this.driver.close();
+  }
+}
+
+/**
+ * Create storage for a database configuration
+ *
+ * Falls back to in-memory storage when no configuration is given or the
+ * database is disabled. SQLite databases are migrated before use.
+ */
+export function createStorage(config?: DatabaseConfig): Storage {
+  if (!config || !config.enabled) {
+    return new Storage(new MemoryDriver());
+  }
+
+  if (config.type !== 'sqlite') {
+    throw new StorageError(`Database type '${config.type}' is not supported`);
+  }
+
+  const filename = config.connection.filename || DEFAULT_SQLITE_FILENAME;
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  }
+
+  const driver = SqliteDriver.open(filename);
+  try {
+    if (config.migrations.enabled) {
+      new MigrationRunner(driver.database, config.migrations.path).run();
+    }
+  } catch (error) {
+    driver.close();
+    throw error;
+  }
+
+  logger.info('SQLite storage initialized', { filename });
+  return new Storage(driver);
+}
@@ -0,0 +1,33 @@
+/**
+ * Storage Error Types
+ */
+
+/**
+ * Base error class for storage operations
+ */
+export class StorageError extends Error {
+  public override readonly cause?: Error;
+
+  constructor(message: string, cause?: Error) {
+    super(message);
+    this.name = 'StorageError';
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
+
+/**
+ * Error thrown when a migration cannot be loaded or applied
+ */
+export class MigrationError extends StorageError {
+  public readonly version?: number;
+
+  constructor(message: string, version?: number, cause?: Error) {
+    super(message, cause);
+    this.name = 'MigrationError';
+    if (version !== undefined) {
+      this.version = version;
+    }
+  }
+}
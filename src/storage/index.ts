@@ -0,0 +1,14 @@
+/**
+ * Storage module exports
+ *
+ * Repository layer for persisted test results, healing attempts, reports,
+ * selector patches, learned heals, visual baselines and quarantined tests.
+ */
+
+export * from './types';
+export { StorageError, MigrationError } from './errors';
+export { Storage, createStorage, DEFAULT_SQLITE_FILENAME } from './Storage';
+export { DocumentRepository, normalizePagination, DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from './Repository';
+export { MemoryDriver } from './memory/MemoryDriver';
+export { SqliteDriver } from './sqlite/SqliteDriver';
+export { MigrationRunner, loadMigrations, Migration } from './sqlite/MigrationRunner';
@@ -0,0 +1,156 @@
+/**
+ * In-memory storage driver
+ *
+ * Keeps serialized records in Maps. Records are copied on write and read so
+ * callers see the same snapshot semantics as with the SQLite driver.
+ */
+
+import {
+  CollectionQuery,
+  CollectionSchema,
+  CollectionStore,
+  ColumnValue,
+  QueryCondition,
+  StorageDriver,
+  StorageDriverType
+} from '../types';
+import { deserializeRecord, serializeRecord } from '../serialization';
+
+/**
+ * Stored entry for one record
+ */
+interface MemoryEntry {
+  id: string;
+  columns: Record<string, ColumnValue>;
+  data: string;
+}
+
+/**
+ * Compare column values the way SQLite orders them, with NULL lowest
+ */
+function compareColumnValues(a: ColumnValue, b: ColumnValue): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a === null) {
+    return -1;
+  }
+  if (b === null) {
+    return 1;
+  }
+  return a < b ? -1 : 1;
+}
+
+/**
+ * Check whether an entry satisfies a condition
+ */
+function matchesCondition(entry: MemoryEntry, condition: QueryCondition): boolean {
+  const value = entry.columns[condition.column];
+  if (value === null || value === undefined || condition.value === null) {
+    return false;
+  }
+  if (Array.isArray(condition.value)) {
+    return condition.operator === 'in' && condition.value.includes(value);
+  }
+
+  switch (condition.operator) {
+    case 'eq':
+      return value === condition.value;
+    case 'contains':
+      return typeof value === 'string' && value.includes(String(condition.value));
+    case 'gte':
+      return value >= condition.value;
+    case 'lte':
+      return value <= condition.value;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Keep the first `limit` entries of each value of a column, in order
+ */
+function firstPerGroup(entries: MemoryEntry[], column: string, limit: number): MemoryEntry[] {
+  const counts = new Map<ColumnValue, number>();
+  return entries.filter(entry => {
+    const group = entry.columns[column] ?? null;
+    const count = counts.get(group) ?? 0;
+    counts.set(group, count + 1);
+    return count < limit;
+  });
+}
+
+/**
+ * In-memory collection store
+ */
+class MemoryCollectionStore<T> implements CollectionStore<T> {
+  private entries: Map<string, MemoryEntry> = new Map();
+
+  constructor(private schema: CollectionSchema<T>) {}
+
+  public put(record: T): void {
+    const id = this.schema.key(record);
+    const columns: Record<string, ColumnValue> = {};
+    for (const [column, extract] of Object.entries(this.schema.columns)) {
+      columns[column] = extract(record);
+    }
+
+    this.entries.set(id, { id, columns, data: serializeRecord(record) });
+  }
+
+  public get(id: string): T | null {
+    const entry = this.entries.get(id);
+    return entry ? deserializeRecord<T>(entry.data) : null;
+  }
+
+  public query(query: CollectionQuery): T[] {
+    const direction = query.sort === 'asc' ? 1 : -1;
+    const matches = this.filter(query.conditions).sort((a, b) => {
+      const byColumn = compareColumnValues(a.columns[query.sortColumn] ?? null, b.columns[query.sortColumn] ?? null);
+      return direction * (byColumn !== 0 ? byColumn : compareColumnValues(a.id, b.id));
+    });
+
+    const grouped = query.perGroup ? firstPerGroup(matches, query.perGroup.column, query.perGroup.limit) : matches;
+    const offset = query.offset ?? 0;
+    const page = query.limit !== undefined ? grouped.slice(offset, offset + query.limit) : grouped.slice(offset);
+    return page.map(entry => deserializeRecord<T>(entry.data));
+  }
+
+  public count(conditions: QueryCondition[]): number {
+    return this.filter(conditions).length;
+  }
+
+  public delete(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  private filter(conditions: QueryCondition[]): MemoryEntry[] {
+    return Array.from(this.entries.values())
+      .filter(entry => conditions.every(condition => matchesCondition(entry, condition)));
+  }
+}
+
+/**
+ * In-memory storage driver
+ */
+export class MemoryDriver implements StorageDriver {
+  public readonly type: StorageDriverType = 'memory';
+  private collections: Map<string, CollectionStore<any>> = new Map();
+
+  public collection<T>(schema: CollectionSchema<T>): CollectionStore<T> {
+    let store = this.collections.get(schema.name);
+    if (!store) {
+      store = new MemoryCollectionStore(schema);
+      this.collections.set(schema.name, store);
+    }
+    return store;
+  }
+
+  public close(): void {
+    this.collections.clear();
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Collection schemas and filter mappers for persisted records
+ *
+ * Column names match the tables created by the SQL files in migrations/.
+ */
+
+import { HealingMemoryEntry, QuarantineEntry, SelectorPatch, TestResult, VisualBaseline } from '../types';
+import {
+  CollectionSchema,
+  HealingAttemptFilter,
+  HealingAttemptRecord,
+  HealingMemoryFilter,
+  QuarantineFilter,
+  QueryCondition,
+  ReportFilter,
+  ReportRecord,
+  SelectorPatchFilter,
+  TestResultFilter,
+  VisualBaselineFilter
+} from './types';
+import { toColumnValue } from './serialization';
+
+/**
+ * Build date range conditions on a column
+ */
+function dateRange(column: string, startDate?: Date, endDate?: Date): QueryCondition[] {
+  const conditions: QueryCondition[] = [];
+  const start = toColumnValue(startDate);
+  const end = toColumnValue(endDate);
+
+  if (start !== null) {
+    conditions.push({ column, operator: 'gte', value: start });
+  }
+  if (end !== null) {
+    conditions.push({ column, operator: 'lte', value: end });
+  }
+  return conditions;
+}
+
+export const testResultSchema: CollectionSchema<TestResult> = {
+  name: 'test_results',
+  key: record => record.id,
+  columns: {
+    name: record => toColumnValue(record.name),
+    status: record => toColumnValue(record.status),
+    start_time: record => toColumnValue(record.startTime),
+    end_time: record => toColumnValue(record.endTime),
+    duration: record => toColumnValue(record.duration),
+    test_name: record => toColumnValue(record.execution?.testName ?? record.name),
+    matrix: record => toColumnValue(record.matrix !== undefined)
+  },
+  sortFields: {
+    id: 'id',
+    name: 'name',
+    status: 'status',
+    startTime: 'start_time',
+    createdAt: 'start_time',
+    endTime: 'end_time',
+    duration: 'duration'
+  },
+  groupFields: {
+    testName: 'test_name'
+  },
+  defaultSortColumn: 'start_time'
+};
+
+export function mapTestResultFilter(filter: TestResultFilter): QueryCondition[] {
+  const conditions: QueryCondition[] = [];
+
+  if (filter.status) {
+    conditions.push({ column: 'status', operator: 'eq', value: filter.status });
+  }
+  if (filter.statuses) {
+    conditions.push({ column: 'status', operator: 'in', value: filter.statuses });
+  }
+  // Results do not record their engine, so engine filtering matches on name
+  if (filter.engine) {
+    conditions.push({ column: 'name', operator: 'contains', value: filter.engine });
+  }
+  if (filter.testName) {
+    conditions.push({ column: 'name', operator: 'contains', value: filter.testName });
+  }
+  if (filter.exactTestName) {
+    conditions.push({ column: 'test_name', operator: 'eq', value: filter.exactTestName });
+  }
+  if (filter.matrix !== undefined) {
+    conditions.push({ column: 'matrix', operator: 'eq', value: toColumnValue(filter.matrix) });
+  }
+
+  return conditions.concat(dateRange('start_time', filter.startDate, filter.endDate));
+}
+
+export const healingAttemptSchema: CollectionSchema<HealingAttemptRecord> = {
+  name: 'healing_attempts',
+  key: record => record.id,
+  columns: {
+    test_id: record => toColumnValue(record.testId),
+    strategy: record => toColumnValue(record.strategy),
+    success: record => toColumnValue(record.success),
+    confidence: record => toColumnValue(record.confidence),
+    duration: record => toColumnValue(record.duration),
+    timestamp: record => toColumnValue(record.timestamp),
+    review_status: record => toColumnValue(record.review?.status)
+  },
+  sortFields: {
+    id: 'id',
+    testId: 'test_id',
+    strategy: 'strategy',
+    success: 'success',
+    confidence: 'confidence',
+    duration: 'duration',
+    timestamp: 'timestamp',
+    createdAt: 'timestamp'
+  },
+  defaultSortColumn: 'timestamp'
+};
+
+export function mapHealingAttemptFilter(filter: HealingAttemptFilter): QueryCondition[] {
+  const conditions: QueryCondition[] = [];
+
+  if (filter.testId) {
+    conditions.push({ column: 'test_id', operator: 'eq', value: filter.testId });
+  }
+  if (filter.strategy) {
+    conditions.push({ column: 'strategy', operator: 'eq', value: filter.strategy });
+  }
+  if (filter.success !== undefined) {
+    conditions.push({ column: 'success', operator: 'eq', value: toColumnValue(filter.success) });
+  }
+  if (filter.minConfidence !== undefined) {
+    conditions.push({ column: 'confidence', operator: 'gte', value: filter.minConfidence });
+  }
+  if (filter.reviewStatus) {
+    conditions.push({ column: 'review_status', operator: 'eq', value: filter.reviewStatus });
+  }
+
+  return conditions.concat(dateRange('timestamp', filter.startDate, filter.endDate));
+}
+
+export const reportSchema: CollectionSchema<ReportRecord> = {
+  name: 'reports',
+  key: record => record.id,
+  columns: {
+    type: record => toColumnValue(record.type),
+    title: record => toColumnValue(record.title),
+    status: record => toColumnValue(record.status),
+    created_at: record => toColumnValue(record.createdAt)
+  },
+  sortFields: {
+    id: 'id',
+    type: 'type',
+    title: 'title',
+    status: 'status',
+    createdAt: 'created_at',
+    generatedAt: 'created_at'
+  },
+  defaultSortColumn: 'created_at'
+};
+
+export function mapReportFilter(filter: ReportFilter): QueryCondition[] {
+  const conditions: QueryCondition[] = [];
+
+  if (filter.type) {
+    conditions.push({ column: 'type', operator: 'eq', value: filter.type });
+  }
+  if (filter.status) {
+    conditions.push({ column: 'status', operator: 'eq', value: filter.status });
+  }
+
+  return conditions;
+}
+
+export const selectorPatchSchema: CollectionSchema<SelectorPatch> = {
+  name: 'selector_patches',
+  key: record => record.id,
+  columns: {
+    status: record => toColumnValue(record.status),
+    file_path: record => toColumnValue(record.filePath),
+    test_id: record => toColumnValue(record.testId),
+    confidence: record => toColumnValue(record.confidence),
+    created_at: record => toColumnValue(record.createdAt)
+  },
+  sortFields: {
+    id: 'id',
+    status: 'status',
+    filePath: 'file_path',
+    testId: 'test_id',
+    confidence: 'confidence',
+    createdAt: 'created_at'
+  },
+  defaultSortColumn: 'created_at'
+};
+
+export function mapSelectorPatchFilter(filter: SelectorPatchFilter): QueryCondition[] {
+  const conditions: QueryCondition[] = [];
+
+  if (filter.status) {
+    conditions.push({ column: 'status', operator: 'eq', value: filter.status });
+  }
+  if (filter.filePath) {
+    conditions.push({ column: 'file_path', operator: 'eq', value: filter.filePath });
+  }
+  if (filter.testId) {
+    conditions.push({ column: 'test_id', operator: 'eq', value: filter.testId });
+  }
+
+  return conditions;
+}
+
+export const healingMemorySchema: CollectionSchema<HealingMemoryEntry> = {
+  name: 'healing_memory',
+  key: record => record.id,
+  columns: {
+    original_selector: record => toColumnValue(record.originalSelector),
+    healed_selector: record => toColumnValue(record.healedSelector),
+    url: record => toColumnValue(record.url),
+    strategy: record => toColumnValue(record.strategy),
+    hits: record => toColumnValue(record.hits),
+    last_used_at: record => toColumnValue(record.lastUsedAt)
+  },
+  sortFields: {
+    id: 'id',
+    originalSelector: 'original_selector',
+    url: 'url',
+    strategy: 'strategy',
+    hits: 'hits',
+    lastUsedAt: 'last_used_at',
+    createdAt: 'last_used_at'
+  },
+  defaultSortColumn: 'last_used_at'
+};
+
+export function mapHealingMemoryFilter(filter: HealingMemoryFilter): QueryCondition[] {
+  const conditions: QueryCondition[] = [];
+
+  if (filter.originalSelector) {
+    conditions.push({ column: 'original_selector', operator: 'eq', value: filter.originalSelector });
+  }
+  if (filter.url !== undefined) {
+    conditions.push({ column: 'url', operator: 'eq', value: filter.url });
+  }
+  if (filter.strategy) {
+    conditions.push({ column: 'strategy', operator: 'eq', value: filter.strategy });
+  }
+
+  return conditions.concat(dateRange('last_used_at', undefined, filter.lastUsedBefore));
+}
+
+export const visualBaselineSchema: CollectionSchema<VisualBaseline> = {
+  name: 'visual_baselines',
+  key: record => record.id,
+  columns: {
+    selector: record => toColumnValue(record.selector),
+    url: record => toColumnValue(record.url),
+    test_id: record => toColumnValue(record.testId),
+    updated_at: record => toColumnValue(record.updatedAt)
+  },
+  sortFields: {
+    id: 'id',
+    selector: 'selector',
+    url: 'url',
+    updatedAt: 'updated_at',
+    createdAt: 'updated_at'
+  },
+  defaultSortColumn: 'updated_at'
+};
+
+export function mapVisualBaselineFilter(filter: VisualBaselineFilter): QueryCondition[] {
+  const conditions: QueryCondition[] = [];
+
+  if (filter.selector) {
+    conditions.push({ column: 'selector', operator: 'eq', value: filter.selector });
+  }
+  if (filter.url !== undefined) {
+    conditions.push({ column: 'url', operator: 'eq', value: filter.url });
+  }
+  if (filter.testId) {
+    conditions.push({ column: 'test_id', operator: 'eq', value: filter.testId });
+  }
+
+  return conditions;
+}
+
+export const quarantineSchema: CollectionSchema<QuarantineEntry> = {
+  name: 'test_quarantine',
+  key: record => record.testName,
+  columns: {
+    quarantined_by: record => toColumnValue(record.quarantinedBy),
+    created_at: record => toColumnValue(record.createdAt),
+    expires_at: record => toColumnValue(record.expiresAt)
+  },
+  sortFields: {
+    testName: 'id',
+    quarantinedBy: 'quarantined_by',
+    createdAt: 'created_at',
+    expiresAt: 'expires_at'
+  },
+  defaultSortColumn: 'created_at'
+};
+
+export function mapQuarantineFilter(filter: QuarantineFilter): QueryCondition[] {
+  const conditions: QueryCondition[] = [];
+
+  if (filter.quarantinedBy) {
+    conditions.push({ column: 'quarantined_by', operator: 'eq', value: filter.quarantinedBy });
+  }
+
+  return conditions;
+}
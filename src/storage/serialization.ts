@@ -0,0 +1,51 @@
+/**
+ * Record serialization helpers shared by the storage drivers
+ */
+
+import { ColumnValue } from './types';
+
+/**
+ * ISO 8601 timestamps as produced by Date.prototype.toISOString
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+/**
+ * Serialize a record for storage
+ */
+export function serializeRecord(record: unknown): string {
+  return JSON.stringify(record);
+}
+
+/**
+ * Deserialize a stored record, restoring Date values
+ */
+export function deserializeRecord<T>(data: string): T {
+  return JSON.parse(data, (_key, value) => {
+    if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+      return new Date(value);
+    }
+    return value;
+  }) as T;
+}
+
+/**
+ * Normalize a value for an indexed column
+ *
+ * Dates are stored as ISO strings so that they sort chronologically, and
+ * booleans as 1/0 to match SQLite.
+ */
+export function toColumnValue(value: unknown): ColumnValue {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  return String(value);
+}
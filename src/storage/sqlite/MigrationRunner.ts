@@ -0,0 +1,112 @@
+/**
+ * SQL migration runner
+ *
+ * Migrations are files named `NNN_description.sql` in the configured
+ * directory. Applied versions are recorded in `schema_migrations`, and each
+ * pending migration runs in its own transaction in version order.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { MigrationError } from '../errors';
+import { logger } from '../../utils/logger';
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+
+/**
+ * A migration file on disk
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+/**
+ * Load migrations from a directory, ordered by version
+ */
+export function loadMigrations(directory: string): Migration[] {
+  if (!fs.existsSync(directory)) {
+    throw new MigrationError(`Migrations directory not found: ${directory}`);
+  }
+
+  const migrations: Migration[] = [];
+  const seen = new Map<number, string>();
+
+  for (const file of fs.readdirSync(directory).sort()) {
+    const match = MIGRATION_FILE_PATTERN.exec(file);
+    if (!match) {
+      continue;
+    }
+
+    const version = parseInt(match[1]!, 10);
+    const existing = seen.get(version);
+    if (existing) {
+      throw new MigrationError(`Duplicate migration version ${version}: ${existing} and ${file}`, version);
+    }
+    seen.set(version, file);
+
+    migrations.push({
+      version,
+      name: match[2]!,
+      sql: fs.readFileSync(path.join(directory, file), 'utf8')
+    });
+  }
+
+  return migrations.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Applies pending migrations to a SQLite database
+ */
+export class MigrationRunner {
+  constructor(private db: Database.Database, private directory: string) {}
+
+  /**
+   * Apply all pending migrations, returning the versions applied
+   */
+  public run(): number[] {
+    const applied = new Set(this.getAppliedVersions());
+    const pending = loadMigrations(this.directory).filter(migration => !applied.has(migration.version));
+    const record = this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+
+    for (const migration of pending) {
+      try {
+        this.db.transaction(() => {
+          this.db.exec(migration.sql);
+          record.run(migration.version, migration.name, new Date().toISOString());
+        })();
+      } catch (error) {
+        throw new MigrationError(
+          `Migration ${migration.version}_${migration.name} failed: ${(error as Error).message}`,
+          migration.version,
+          error as Error
+        );
+      }
+
+      logger.info('Applied database migration', { version: migration.version, name: migration.name });
+    }
+
+    return pending.map(migration => migration.version);
+  }
+
+  /**
+   * Versions already recorded as applied
+   */
+  public getAppliedVersions(): number[] {
+    this.ensureMigrationsTable();
+    const rows = this.db.prepare('SELECT version FROM schema_migrations ORDER BY version').all() as Array<{ version: number }>;
+    return rows.map(row => row.version);
+  }
+
+  private ensureMigrationsTable(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+  }
+}
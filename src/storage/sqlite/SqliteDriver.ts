@@ -0,0 +1,187 @@
+/**
+ * SQLite storage driver
+ *
+ * Each collection maps to a table created by the migrations: indexed columns
+ * hold the filterable fields and a `data` column holds the full record as JSON.
+ */
+
+import Database from 'better-sqlite3';
+import {
+  CollectionQuery,
+  CollectionSchema,
+  CollectionStore,
+  ColumnValue,
+  QueryCondition,
+  StorageDriver,
+  StorageDriverType
+} from '../types';
+import { deserializeRecord, serializeRecord } from '../serialization';
+import { StorageError } from '../errors';
+
+/**
+ * Identifiers come from collection schemas, never from request input, but
+ * are still checked before being interpolated into SQL.
+ */
+const IDENTIFIER_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+
+function quoteIdentifier(identifier: string): string {
+  if (!IDENTIFIER_PATTERN.test(identifier)) {
+    throw new StorageError(`Invalid SQL identifier: ${identifier}`);
+  }
+  return `"${identifier}"`;
+}
+
+/**
+ * Compile conditions into a WHERE clause and its parameters
+ */
+function compileConditions(conditions: QueryCondition[]): { clause: string; params: ColumnValue[] } {
+  if (conditions.length === 0) {
+    return { clause: '', params: [] };
+  }
+
+  const parts = conditions.map(condition => {
+    const column = quoteIdentifier(condition.column);
+    if (Array.isArray(condition.value)) {
+      if (condition.operator !== 'in') {
+        throw new StorageError(`Query operator ${condition.operator} takes a single value`);
+      }
+      return condition.value.length > 0 ? `${column} IN (${condition.value.map(() => '?').join(', ')})` : '0';
+    }
+    switch (condition.operator) {
+      case 'eq':
+        return `${column} = ?`;
+      case 'contains':
+        return `instr(${column}, ?) > 0`;
+      case 'gte':
+        return `${column} >= ?`;
+      case 'lte':
+        return `${column} <= ?`;
+      default:
+        throw new StorageError(`Unsupported query operator: ${String(condition.operator)}`);
+    }
+  });
+
+  return {
+    clause: ` WHERE ${parts.join(' AND ')}`,
+    params: conditions.flatMap(condition => condition.value)
+  };
+}
+
+/**
+ * SQLite-backed collection store
+ */
+class SqliteCollectionStore<T> implements CollectionStore<T> {
+  private table: string;
+  private columnNames: string[];
+  private insertStatement: Database.Statement;
+
+  constructor(private db: Database.Database, private schema: CollectionSchema<T>) {
+    this.table = quoteIdentifier(schema.name);
+    this.columnNames = Object.keys(schema.columns).filter(column => column !== 'id' && column !== 'data');
+
+    const columns = ['id', ...this.columnNames, 'data'].map(quoteIdentifier);
+    const placeholders = columns.map(() => '?').join(', ');
+    this.insertStatement = db.prepare(
+      `INSERT OR REPLACE INTO ${this.table} (${columns.join(', ')}) VALUES (${placeholders})`
+    );
+  }
+
+  public put(record: T): void {
+    const values = this.columnNames.map(column => this.schema.columns[column]!(record));
+    this.insertStatement.run(this.schema.key(record), ...values, serializeRecord(record));
+  }
+
+  public get(id: string): T | null {
+    const row = this.db.prepare(`SELECT data FROM ${this.table} WHERE id = ?`).get(id) as { data: string } | undefined;
+    return row ? deserializeRecord<T>(row.data) : null;
+  }
+
+  public query(query: CollectionQuery): T[] {
+    const { clause, params } = compileConditions(query.conditions);
+    const direction = query.sort === 'asc' ? 'ASC' : 'DESC';
+    const order = `ORDER BY ${quoteIdentifier(query.sortColumn)} ${direction}, id ${direction}`;
+    let sql = `SELECT data FROM ${this.table}${clause} ${order}`;
+
+    const queryParams: ColumnValue[] = [...params];
+    if (query.perGroup) {
+      const ranked = `SELECT *, ROW_NUMBER() OVER (PARTITION BY ${quoteIdentifier(query.perGroup.column)} ${order}) AS group_rank`
+        + ` FROM ${this.table}${clause}`;
+      sql = `SELECT data FROM (${ranked}) WHERE group_rank <= ? ${order}`;
+      queryParams.push(query.perGroup.limit);
+    }
+    if (query.limit !== undefined) {
+      sql += ' LIMIT ? OFFSET ?';
+      queryParams.push(query.limit, query.offset ?? 0);
+    } else if (query.offset) {
+      sql += ' LIMIT -1 OFFSET ?';
+      queryParams.push(query.offset);
+    }
+
+    const rows = this.db.prepare(sql).all(...queryParams) as Array<{ data: string }>;
+    return rows.map(row => deserializeRecord<T>(row.data));
+  }
+
+  public count(conditions: QueryCondition[]): number {
+    const { clause, params } = compileConditions(conditions);
+    const row = this.db.prepare(`SELECT COUNT(*) AS total FROM ${this.table}${clause}`).get(...params) as { total: number };
+    return row.total;
+  }
+
+  public delete(id: string): boolean {
+    return this.db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id).changes > 0;
+  }
+
+  public clear(): void {
+    this.db.prepare(`DELETE FROM ${this.table}`).run();
+  }
+}
+
+/**
+ * SQLite storage driver
+ */
+export class SqliteDriver implements StorageDriver {
+  public readonly type: StorageDriverType = 'sqlite';
+  private collections: Map<string, CollectionStore<any>> = new Map();
+
+  constructor(private db: Database.Database) {}
+
+  /**
+   * Open a database file, or an in-memory database for ':memory:'
+   */
+  public static open(filename: string): SqliteDriver {
+    try {
+      const db = new Database(filename);
+      db.pragma('journal_mode = WAL');
+      return new SqliteDriver(db);
+    } catch (error) {
+      throw new StorageError(`Failed to open SQLite database: ${filename}`, error as Error);
+    }
+  }
+
+  /**
+   * Underlying connection, used by the migration runner
+   */
+  public get database(): Database.Database {
+    return this.db;
+  }
+
+  public collection<T>(schema: CollectionSchema<T>): CollectionStore<T> {
+    let store = this.collections.get(schema.name);
+    if (!store) {
+      try {
+        store = new SqliteCollectionStore(this.db, schema);
+      } catch (error) {
+        throw new StorageError(`Failed to open collection: ${schema.name}`, error as Error);
+      }
+      this.collections.set(schema.name, store);
+    }
+    return store;
+  }
+
+  public close(): void {
+    this.collections.clear();
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+}
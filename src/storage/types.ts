@@ -0,0 +1,329 @@
+/**
+ * Storage type definitions
+ *
+ * These types describe the repository layer that persists test results,
+ * healing attempts, reports, selector patches, learned heals, visual baselines
+ * and quarantined tests, and the driver contract that backs it.
+ */
+
+import {
+  HealingMemoryEntry,
+  HealingResult,
+  QuarantineEntry,
+  SelectorPatch,
+  SelectorPatchStatus,
+  TestResult,
+  TestStatus,
+  VisualBaseline
+} from '../types';
+
+/**
+ * Supported storage drivers
+ */
+export type StorageDriverType = 'memory' | 'sqlite';
+
+/**
+ * Sort direction for queries
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Pagination and sorting options for repository queries
+ */
+export interface QueryOptions {
+  /** Page number, starting at 1 */
+  page?: number;
+
+  /** Items per page */
+  limit?: number;
+
+  /** Sort direction */
+  sort?: SortDirection;
+
+  /** Record field to sort by */
+  sortBy?: string;
+}
+
+/**
+ * A page of query results
+ */
+export interface PageResult<T> {
+  items: T[];
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+/**
+ * Filters for test result queries
+ */
+export interface TestResultFilter {
+  status?: TestStatus;
+
+  /** Matches results with any of these statuses */
+  statuses?: TestStatus[];
+
+  /** Matches results whose name contains the engine name */
+  engine?: string;
+
+  /** Matches results whose name contains this text */
+  testName?: string;
+
+  /** Matches the runs of one test; matrix cells carry the name of their matrix test */
+  exactTestName?: string;
+
+  /** Matches matrix test results, or every other result */
+  matrix?: boolean;
+
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Review status of a suggested heal
+ */
+export type HealingReviewStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Review of a heal that was suggested rather than applied
+ */
+export interface HealingReview {
+  status: HealingReviewStatus;
+
+  /** Reviewer who approved or rejected the heal */
+  reviewer?: string;
+
+  /** Reviewer's note */
+  reason?: string;
+
+  reviewedAt?: Date;
+}
+
+/**
+ * Persisted healing attempt
+ */
+export interface HealingAttemptRecord extends HealingResult {
+  testId: string;
+  strategy: string;
+  timestamp: Date;
+  changes?: {
+    before: string;
+    after: string;
+    type: string;
+  };
+
+  /** Present when the heal was suggested for review instead of applied */
+  review?: HealingReview;
+}
+
+/**
+ * Filters for healing attempt queries
+ */
+export interface HealingAttemptFilter {
+  testId?: string;
+  strategy?: string;
+  success?: boolean;
+  minConfidence?: number;
+  reviewStatus?: HealingReviewStatus;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Report lifecycle status
+ */
+export type ReportStatus = 'generating' | 'completed' | 'failed';
+
+/**
+ * Persisted report
+ */
+export interface ReportRecord {
+  id: string;
+
+  /** Report category, e.g. 'system-health' or 'test-results' */
+  type: string;
+
+  title: string;
+  description?: string;
+  format: string;
+  status: ReportStatus;
+  createdAt: Date;
+  completedAt?: Date;
+
+  /** Size of the rendered report in bytes */
+  size?: number;
+
+  /** Report body */
+  content?: any;
+
+  /** Route-specific details such as filters or download URLs */
+  metadata: Record<string, any>;
+}
+
+/**
+ * Filters for report queries
+ */
+export interface ReportFilter {
+  type?: string;
+  status?: ReportStatus;
+}
+
+/**
+ * Filters for selector patch queries
+ */
+export interface SelectorPatchFilter {
+  status?: SelectorPatchStatus;
+  filePath?: string;
+  testId?: string;
+}
+
+/**
+ * Filters for healing memory queries
+ */
+export interface HealingMemoryFilter {
+  originalSelector?: string;
+  url?: string;
+  strategy?: string;
+
+  /** Only entries last used before this date */
+  lastUsedBefore?: Date;
+}
+
+/**
+ * Filters for visual baseline queries
+ */
+export interface VisualBaselineFilter {
+  selector?: string;
+  url?: string;
+  testId?: string;
+}
+
+/**
+ * Filters for quarantine queries
+ */
+export interface QuarantineFilter {
+  quarantinedBy?: string;
+}
+
+/**
+ * Repository for one kind of persisted record
+ */
+export interface Repository<T, F> {
+  /** Insert or replace a record */
+  save(record: T): Promise<T>;
+
+  /** Find a record by ID */
+  findById(id: string): Promise<T | null>;
+
+  /** Find one page of records matching a filter */
+  find(filter?: F, options?: QueryOptions): Promise<PageResult<T>>;
+
+  /** Find every record matching a filter */
+  findAll(filter?: F): Promise<T[]>;
+
+  /**
+   * Find the most recent records matching a filter, at most `limit` of each
+   * group of records sharing the value of a group field
+   */
+  findLatestPerGroup(filter: F | undefined, groupBy: string, limit: number): Promise<T[]>;
+
+  /** Count records matching a filter */
+  count(filter?: F): Promise<number>;
+
+  /** Delete a record, returning whether it existed */
+  delete(id: string): Promise<boolean>;
+
+  /** Delete every record */
+  clear(): Promise<void>;
+}
+
+export type TestResultRepository = Repository<TestResult, TestResultFilter>;
+export type HealingAttemptRepository = Repository<HealingAttemptRecord, HealingAttemptFilter>;
+export type ReportRepository = Repository<ReportRecord, ReportFilter>;
+export type SelectorPatchRepository = Repository<SelectorPatch, SelectorPatchFilter>;
+export type HealingMemoryRepository = Repository<HealingMemoryEntry, HealingMemoryFilter>;
+export type VisualBaselineRepository = Repository<VisualBaseline, VisualBaselineFilter>;
+export type QuarantineRepository = Repository<QuarantineEntry, QuarantineFilter>;
+
+/**
+ * Value stored in an indexed column
+ */
+export type ColumnValue = string | number | null;
+
+/**
+ * Condition on an indexed column
+ */
+export interface QueryCondition {
+  column: string;
+  operator: 'eq' | 'contains' | 'gte' | 'lte' | 'in';
+
+  /** A list of values for `in`, a single value otherwise */
+  value: ColumnValue | ColumnValue[];
+}
+
+/**
+ * Driver-level query
+ */
+export interface CollectionQuery {
+  conditions: QueryCondition[];
+  sortColumn: string;
+  sort: SortDirection;
+
+  /** Omitted to return every match */
+  offset?: number;
+  limit?: number;
+
+  /** Return only the first `limit` matches of each value of `column` */
+  perGroup?: { column: string; limit: number };
+}
+
+/**
+ * Describes how records of one type are stored
+ */
+export interface CollectionSchema<T> {
+  /** Table or collection name */
+  name: string;
+
+  /** Extract the record ID */
+  key: (record: T) => string;
+
+  /** Extract the indexed columns used for filtering and sorting */
+  columns: Record<string, (record: T) => ColumnValue>;
+
+  /** Map record field names accepted as sortBy to columns */
+  sortFields: Record<string, string>;
+
+  /** Map record field names records can be grouped by to columns */
+  groupFields?: Record<string, string>;
+
+  /** Column used when sortBy is missing or unknown */
+  defaultSortColumn: string;
+}
+
+/**
+ * Driver-level store for one collection
+ */
+export interface CollectionStore<T> {
+  put(record: T): void;
+  get(id: string): T | null;
+  query(query: CollectionQuery): T[];
+  count(conditions: QueryCondition[]): number;
+  delete(id: string): boolean;
+  clear(): void;
+}
+
+/**
+ * Storage driver contract
+ */
+export interface StorageDriver {
+  readonly type: StorageDriverType;
+
+  /** Open the store for a collection */
+  collection<T>(schema: CollectionSchema<T>): CollectionStore<T>;
+
+  /** Release driver resources */
+  close(): void;
+}
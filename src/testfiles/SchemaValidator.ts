@@ -0,0 +1,183 @@
+/**
+ * Schema Validator
+ *
+ * Validates documents against the JSON Schema keywords the test file
+ * schema uses: `$ref` to local definitions, `type`, `enum`, `required`,
+ * `properties`, `additionalProperties`, `items`, `minItems`,
+ * `minLength`, `minimum`, `maximum`, `allOf`, `anyOf` and `if`/`then`.
+ * Other keywords are ignored.
+ */
+
+/**
+ * JSON Schema subset understood by the validator
+ */
+export interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+  definitions?: Record<string, JsonSchema>;
+  [keyword: string]: unknown;
+}
+
+/**
+ * Location of a value inside a document: property names and array indexes
+ */
+export type SchemaPath = Array<string | number>;
+
+/**
+ * A value that does not match the schema
+ */
+export interface SchemaIssue {
+  path: SchemaPath;
+  message: string;
+}
+
+/**
+ * Validate a document, returning every issue found
+ */
+export function validateSchema(value: unknown, schema: JsonSchema): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  validateNode(value, schema, schema, [], issues);
+  return issues;
+}
+
+/**
+ * Format a path as `suites[0].tests[1].name`
+ */
+export function formatSchemaPath(path: SchemaPath): string {
+  return path.reduce<string>((formatted, segment) => typeof segment === 'number'
+    ? `${formatted}[${segment}]`
+    : formatted ? `${formatted}.${segment}` : segment, '');
+}
+
+function validateNode(value: unknown, schema: JsonSchema, root: JsonSchema, path: SchemaPath, issues: SchemaIssue[]): void {
+  if (schema.$ref) {
+    validateNode(value, resolveRef(schema.$ref, root), root, path, issues);
+    return;
+  }
+
+  if (schema.type !== undefined && !matchesType(value, schema.type)) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    issues.push({ path, message: `must be ${types.map(describeType).join(' or ')}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `must be one of: ${schema.enum.map(String).join(', ')}` });
+    return;
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateNode(item, schema.items!, root, [...path, index], issues));
+    }
+  }
+
+  if (isObject(value)) {
+    for (const property of schema.required ?? []) {
+      if (value[property] === undefined) {
+        issues.push({ path, message: `missing required property "${property}"` });
+      }
+    }
+    for (const [property, propertyValue] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[property];
+      if (propertySchema) {
+        validateNode(propertyValue, propertySchema, root, [...path, property], issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: [...path, property], message: `unknown property "${property}"` });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(propertyValue, schema.additionalProperties, root, [...path, property], issues);
+      }
+    }
+  }
+
+  for (const subschema of schema.allOf ?? []) {
+    validateNode(value, subschema, root, path, issues);
+  }
+
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map(subschema => {
+      const branchIssues: SchemaIssue[] = [];
+      validateNode(value, subschema, root, path, branchIssues);
+      return branchIssues;
+    });
+    if (branches.every(branch => branch.length > 0)) {
+      issues.push({ path, message: branches.map(branch => branch[0]!.message).join(' or ') });
+    }
+  }
+
+  if (schema.if && schema.then && validateSchemaAt(value, schema.if, root)) {
+    validateNode(value, schema.then, root, path, issues);
+  }
+}
+
+function validateSchemaAt(value: unknown, schema: JsonSchema, root: JsonSchema): boolean {
+  const issues: SchemaIssue[] = [];
+  validateNode(value, schema, root, [], issues);
+  return issues.length === 0;
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const name = ref.startsWith('#/definitions/') ? ref.slice('#/definitions/'.length) : undefined;
+  const schema = name !== undefined ? root.definitions?.[name] : undefined;
+  if (!schema) {
+    throw new Error(`Unresolvable schema reference: ${ref}`);
+  }
+  return schema;
+}
+
+function matchesType(value: unknown, type: string | string[]): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  return types.some(candidate => {
+    switch (candidate) {
+      case 'object':
+        return isObject(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'null':
+        return value === null;
+      default:
+        return typeof value === candidate;
+    }
+  });
+}
+
+function describeType(type: string): string {
+  return type === 'array' || type === 'object' || type === 'integer' ? `an ${type}` : `a ${type}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
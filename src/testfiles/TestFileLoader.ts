@@ -0,0 +1,248 @@
+/**
+ * Test File Loader
+ *
+ * Parses declarative test files, validates them against the test file
+ * schema and turns every test into a `TestConfig` for the Playwright engine.
+ * Validation errors carry the source line of the offending value, recorded
+ * while the YAML is parsed.
+ */
+
+import * as fs from 'fs/promises';
+import * as yaml from 'js-yaml';
+import { TestConfig } from '../types';
+import { PlaywrightFlow, PlaywrightStep } from '../engines/PlaywrightSteps';
+import { JsonSchema, SchemaPath, formatSchemaPath, validateSchema } from './SchemaValidator';
+import { TestFileError } from './errors';
+import {
+  TestFile,
+  TestFileDefaults,
+  TestFileFlow,
+  TestFileIssue,
+  TestFileNetwork,
+  TestFileStep,
+  TestFileSuite,
+  TestFileTest
+} from './types';
+import testFileSchema from './test-file.schema.json';
+
+/**
+ * JSON Schema of the test file format
+ */
+export const TEST_FILE_SCHEMA = testFileSchema as JsonSchema;
+
+/**
+ * Extensions of files run as declarative test files
+ */
+const TEST_FILE_PATTERN = /\.ya?ml$/i;
+
+/**
+ * Parsed YAML node and the line it starts on
+ */
+interface SourceNode {
+  line: number;
+  result?: unknown;
+  children: SourceNode[];
+}
+
+/**
+ * Check whether a path names a declarative test file
+ */
+export function isTestFile(filePath: string): boolean {
+  return TEST_FILE_PATTERN.test(filePath);
+}
+
+/**
+ * Parse and validate a test file
+ *
+ * @throws TestFileError when the source is not valid YAML or does not match the schema
+ */
+export function readTestFile(source: string, filePath: string): TestFile {
+  const { document, root } = parseSource(source, filePath);
+  const issues = validateSchema(document, TEST_FILE_SCHEMA).map(issue => toIssue(root, issue.path, issue.message));
+
+  if (issues.length === 0) {
+    issues.push(...findDuplicateIds(document as TestFile, root));
+  }
+  if (issues.length > 0) {
+    throw new TestFileError(filePath, issues.sort((a, b) => a.line - b.line));
+  }
+
+  return document as TestFile;
+}
+
+/**
+ * Parse a test file into one test config per test
+ */
+export function parseTestFile(source: string, filePath: string, defaults: TestFileDefaults): TestConfig[] {
+  const testFile = readTestFile(source, filePath);
+  const flows = testFile.flows && Object.fromEntries(
+    Object.entries(testFile.flows).map(([name, flow]) => [name, toPlaywrightFlow(flow)])
+  );
+  return testFile.suites.flatMap(suite => suite.tests.map(test => toTestConfig(suite, test, filePath, defaults, flows)));
+}
+
+/**
+ * Read a test file from disk into one test config per test
+ */
+export async function loadTestFile(filePath: string, defaults: TestFileDefaults): Promise<TestConfig[]> {
+  return parseTestFile(await fs.readFile(filePath, 'utf8'), filePath, defaults);
+}
+
+/**
+ * Convert a test file step, and the steps nested in it, into an engine step
+ */
+export function toPlaywrightStep(step: TestFileStep): PlaywrightStep {
+  const { value, steps, else: elseSteps, ...rest } = step;
+  return {
+    ...rest,
+    ...(value !== undefined && { value: String(value) }),
+    ...(steps && { steps: steps.map(toPlaywrightStep) }),
+    ...(elseSteps && { else: elseSteps.map(toPlaywrightStep) }),
+  };
+}
+
+function toPlaywrightFlow(flow: TestFileFlow): PlaywrightFlow {
+  return { ...flow, steps: flow.steps.map(toPlaywrightStep) };
+}
+
+function toTestConfig(
+  suite: TestFileSuite,
+  test: TestFileTest,
+  filePath: string,
+  defaults: TestFileDefaults,
+  flows?: Record<string, PlaywrightFlow>
+): TestConfig {
+  const url = test.url ?? suite.url;
+  const tags = [...new Set([...(suite.tags ?? []), ...(test.tags ?? [])])];
+  const data = suite.data || test.data ? { ...suite.data, ...test.data } : undefined;
+  const network = suite.network || test.network ? toNetworkConfig(suite.network, test.network) : undefined;
+
+  return {
+    name: test.name,
+    type: 'e2e',
+    filePath,
+    timeout: test.timeout ?? suite.timeout ?? defaults.timeout,
+    environment: defaults.environment,
+    parameters: {
+      steps: test.steps.map(toPlaywrightStep),
+      suite: suite.name,
+      tags,
+      ...(url !== undefined && { url }),
+      ...(data && { data }),
+      ...(network && { network }),
+      ...(flows && { flows }),
+      ...(test.id !== undefined && { testId: test.id }),
+      ...(test.description !== undefined && { description: test.description }),
+      ...(test.priority !== undefined && { priority: test.priority }),
+      ...(test.category !== undefined && { category: test.category }),
+    },
+    engineConfig: defaults.engineConfig,
+    healingConfig: { ...defaults.healingConfig, ...suite.healing, ...test.healing },
+    retryConfig: defaults.retryConfig,
+  };
+}
+
+/**
+ * Merge a test's network settings over its suite's
+ *
+ * HAR files stay relative: the engine resolves them inside its own HAR
+ * directory.
+ */
+function toNetworkConfig(suiteNetwork: TestFileNetwork = {}, testNetwork: TestFileNetwork = {}): TestFileNetwork {
+  const match = suiteNetwork.match || testNetwork.match ? { ...suiteNetwork.match, ...testNetwork.match } : undefined;
+
+  return {
+    ...suiteNetwork,
+    ...testNetwork,
+    ...(match && { match }),
+  };
+}
+
+/**
+ * Parse YAML, recording the line every node starts on
+ */
+function parseSource(source: string, filePath: string): { document: unknown; root: SourceNode } {
+  const stack: SourceNode[] = [{ line: 1, children: [] }];
+
+  try {
+    const document = yaml.load(source, {
+      filename: filePath,
+      listener(event, state) {
+        if (event === 'open') {
+          stack.push({ line: state.line + 1, children: [] });
+        } else {
+          const node = stack.pop()!;
+          node.result = state.result;
+          stack[stack.length - 1]!.children.push(node);
+        }
+      },
+    });
+    return { document, root: stack[0]!.children[0] ?? stack[0]! };
+  } catch (error) {
+    if (error instanceof yaml.YAMLException) {
+      throw new TestFileError(filePath, [{ path: '', line: error.mark.line + 1, message: error.reason }]);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find the line of the value at a path, or of its closest parent
+ */
+function findLine(root: SourceNode, path: SchemaPath): number {
+  let node = root;
+
+  for (const segment of path) {
+    node = unwrap(node);
+    let next: SourceNode | undefined;
+    if (typeof segment === 'number') {
+      next = node.children[segment];
+    } else {
+      // Mapping children alternate between keys and values
+      for (let index = 0; index + 1 < node.children.length; index += 2) {
+        if (node.children[index]!.result === segment) {
+          next = node.children[index + 1];
+          break;
+        }
+      }
+    }
+    if (!next) {
+      break;
+    }
+    node = next;
+  }
+
+  return node.line;
+}
+
+/**
+ * Skip wrapper nodes the parser emits around collections
+ */
+function unwrap(node: SourceNode): SourceNode {
+  let current = node;
+  while (current.children.length === 1 && current.children[0]!.result === current.result) {
+    current = current.children[0]!;
+  }
+  return current;
+}
+
+function toIssue(root: SourceNode, path: SchemaPath, message: string): TestFileIssue {
+  return { path: formatSchemaPath(path), line: findLine(root, path), message };
+}
+
+function findDuplicateIds(testFile: TestFile, root: SourceNode): TestFileIssue[] {
+  const seen = new Set<string>();
+  const issues: TestFileIssue[] = [];
+
+  testFile.suites.forEach((suite, suiteIndex) => suite.tests.forEach((test, testIndex) => {
+    if (test.id === undefined) {
+      return;
+    }
+    if (seen.has(test.id)) {
+      issues.push(toIssue(root, ['suites', suiteIndex, 'tests', testIndex, 'id'], `duplicate test id "${test.id}"`));
+    }
+    seen.add(test.id);
+  }));
+
+  return issues;
+}
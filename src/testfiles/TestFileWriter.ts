@@ -0,0 +1,51 @@
+/**
+ * Test File Writer
+ *
+ * Writes generated test cases as declarative test files, so exported tests
+ * can be edited by hand and run by the Playwright engine.
+ */
+
+import * as yaml from 'js-yaml';
+import { GeneratedTestCase } from '../types/test-generation';
+import { PlaywrightStep, normalizePlaywrightSteps } from '../engines/PlaywrightSteps';
+import { TEST_FILE_VERSION, TestFile, TestFileStep, TestFileTest } from './types';
+
+/**
+ * Convert generated test cases into a test file with a single suite
+ */
+export function toTestFile(testCases: GeneratedTestCase[], suiteName: string = 'Generated tests'): TestFile {
+  return {
+    version: TEST_FILE_VERSION,
+    suites: [{ name: suiteName, tests: testCases.map(toTestFileTest) }],
+  };
+}
+
+/**
+ * Serialize a test file as YAML
+ */
+export function serializeTestFile(testFile: TestFile): string {
+  return yaml.dump(testFile, { noRefs: true, lineWidth: 120 });
+}
+
+function toTestFileTest(testCase: GeneratedTestCase): TestFileTest {
+  return {
+    id: testCase.id,
+    name: testCase.title,
+    ...(testCase.description && { description: testCase.description }),
+    ...(testCase.tags?.length && { tags: testCase.tags }),
+    ...(testCase.priority && { priority: testCase.priority }),
+    ...(testCase.category && { category: testCase.category }),
+    steps: normalizePlaywrightSteps(testCase.steps ?? []).map(toTestFileStep),
+  };
+}
+
+function toTestFileStep(step: PlaywrightStep): TestFileStep {
+  const { steps, else: elseSteps, ...rest } = step;
+  return {
+    ...rest,
+    // `fill` is the engine's shortcut for typing; the file format only has `type`
+    type: step.type === 'fill' ? 'type' : step.type,
+    ...(steps && { steps: steps.map(toTestFileStep) }),
+    ...(elseSteps && { else: elseSteps.map(toTestFileStep) }),
+  };
+}
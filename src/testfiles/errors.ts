@@ -0,0 +1,24 @@
+/**
+ * Test File Error Types
+ */
+
+import { TestFileIssue } from './types';
+
+/**
+ * Error thrown when a test file cannot be parsed or does not match the schema
+ */
+export class TestFileError extends Error {
+  public readonly filePath: string;
+  public readonly issues: TestFileIssue[];
+
+  constructor(filePath: string, issues: TestFileIssue[]) {
+    super(`Invalid test file ${filePath}:\n${issues.map(issue => `  ${formatIssue(filePath, issue)}`).join('\n')}`);
+    this.name = 'TestFileError';
+    this.filePath = filePath;
+    this.issues = issues;
+  }
+}
+
+function formatIssue(filePath: string, issue: TestFileIssue): string {
+  return `${filePath}:${issue.line} ${issue.path ? `${issue.path}: ` : ''}${issue.message}`;
+}
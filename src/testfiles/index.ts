@@ -0,0 +1,19 @@
+/**
+ * Test file module exports
+ *
+ * Declarative YAML/JSON test files: format types, schema validation, the
+ * loader that turns files into test configs and the writer used by exports.
+ */
+
+export * from './types';
+export { TestFileError } from './errors';
+export { JsonSchema, SchemaIssue, SchemaPath, validateSchema, formatSchemaPath } from './SchemaValidator';
+export {
+  TEST_FILE_SCHEMA,
+  isTestFile,
+  readTestFile,
+  parseTestFile,
+  loadTestFile,
+  toPlaywrightStep
+} from './TestFileLoader';
+export { toTestFile, serializeTestFile } from './TestFileWriter';
@@ -0,0 +1,109 @@
+/**
+ * Test File Types
+ *
+ * Declarative test files describe suites of step-based tests in YAML (or
+ * JSON) so they can be written without TypeScript. The format is versioned;
+ * `test-file.schema.json` is its JSON Schema.
+ */
+
+import { HealingConfig, TestConfig } from '../types';
+import { TestActionType, TestCaseCategory, TestCasePriority } from '../types/test-generation';
+import { PlaywrightControlStepType, PlaywrightStep } from '../engines/PlaywrightSteps';
+import { PlaywrightTestNetworkConfig } from '../engines/PlaywrightConfig';
+
+/**
+ * Format version written by this release
+ */
+export const TEST_FILE_VERSION = 1;
+
+/**
+ * A test file: one or more suites, and the sub-flows their tests include
+ */
+export interface TestFile {
+  version: typeof TEST_FILE_VERSION;
+  flows?: Record<string, TestFileFlow>;
+  suites: TestFileSuite[];
+}
+
+/**
+ * Named group of steps that `flow` steps include
+ */
+export interface TestFileFlow {
+  description?: string;
+  params?: string[];
+  steps: TestFileStep[];
+}
+
+/**
+ * Suite of tests sharing tags, a start page, a timeout, healing and network
+ * overrides and test data
+ */
+export interface TestFileSuite {
+  name: string;
+  description?: string;
+  url?: string;
+  tags?: string[];
+  timeout?: number;
+  healing?: TestFileHealing;
+  network?: TestFileNetwork;
+  data?: Record<string, any>;
+  tests: TestFileTest[];
+}
+
+/**
+ * A single test; its settings override the suite's
+ */
+export interface TestFileTest {
+  id?: string;
+  name: string;
+  description?: string;
+  url?: string;
+  tags?: string[];
+  priority?: TestCasePriority;
+  category?: TestCaseCategory;
+  timeout?: number;
+  healing?: TestFileHealing;
+  network?: TestFileNetwork;
+  data?: Record<string, any>;
+  steps: TestFileStep[];
+}
+
+/**
+ * A step: the Playwright engine's step with a generated action type or a
+ * control step type
+ */
+export type TestFileStep = Omit<PlaywrightStep, 'type' | 'value' | 'steps' | 'else'> & {
+  type: TestActionType | PlaywrightControlStepType;
+  value?: string | number | boolean;
+  steps?: TestFileStep[];
+  else?: TestFileStep[];
+};
+
+/**
+ * Healing configuration overrides of a suite or test
+ */
+export type TestFileHealing = Partial<HealingConfig>;
+
+/**
+ * Network mode, HAR file and replay rules of a suite or test; HAR paths are
+ * relative to the test file
+ */
+export type TestFileNetwork = PlaywrightTestNetworkConfig;
+
+/**
+ * Settings of the run the file's tests inherit
+ */
+export type TestFileDefaults = Pick<TestConfig, 'environment' | 'timeout' | 'engineConfig' | 'healingConfig' | 'retryConfig'>;
+
+/**
+ * A problem found in a test file
+ */
+export interface TestFileIssue {
+  /** Location in the document, e.g. `suites[0].tests[1].steps[2]` */
+  path: string;
+
+  /** 1-based source line */
+  line: number;
+
+  message: string;
+}
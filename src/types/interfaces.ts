@@ -111,6 +111,12 @@ export interface IHealingStrategy {
    * @returns True if strategy can handle this failure type
    */
   canHeal(failure: TestFailure): boolean;
+  
+  /**
+   * Forget the healing attempts counted for a test
+   * @param testId - Test whose run finished
+   */
+  clearAttempts?(testId: string): void;
 }
 
 /**
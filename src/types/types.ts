@@ -21,8 +21,14 @@ export type FailureType =
   | 'network_error'
   | 'configuration_error'
   | 'environment_error'
+  | 'security_finding'
   | 'unknown';
 
+/**
+ * Severity of a security finding
+ */
+export type FindingSeverity = 'info' | 'low' | 'medium' | 'high';
+
 /**
  * Test execution status
  */
@@ -34,6 +40,7 @@ export type TestStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped'
 export type HealingActionType = 
   | 'retry'
   | 'update_selector'
+  | 'update_assertion'
   | 'wait_for_element'
   | 'update_configuration'
   | 'skip_test'
@@ -57,7 +64,7 @@ export interface TestConfig {
   /** Test file path */
   filePath: string;
   
-  /** Test timeout in milliseconds */
+  /** Test timeout in milliseconds; 0 leaves it to the orchestrator */
   timeout: number;
   
   /** Test environment */
@@ -74,6 +81,60 @@ export interface TestConfig {
   
   /** Retry configuration */
   retryConfig: RetryConfig;
+  
+  /** Browsers, devices and locales to run the test on, one child run per combination */
+  matrix?: TestMatrix;
+  
+  /** Matrix combination this run covers, set on the child runs of a matrix */
+  matrixCell?: TestMatrixCell;
+}
+
+/**
+ * Browser matrix of a test
+ *
+ * The orchestrator runs the test once for every combination of the listed
+ * browsers, devices and locales. Dimensions left out are not varied.
+ */
+export interface TestMatrix {
+  /** Browsers to run on */
+  browsers?: MatrixBrowser[];
+  
+  /** Playwright device descriptor names such as `iPhone 13`, or viewports */
+  devices?: Array<string | MatrixViewport>;
+  
+  /** Locales such as `de-DE` */
+  locales?: string[];
+}
+
+/**
+ * Browsers a matrix can vary
+ */
+export type MatrixBrowser = 'chromium' | 'firefox' | 'webkit';
+
+/**
+ * Viewport in a test matrix, optionally named (e.g. `mobile`)
+ */
+export interface MatrixViewport {
+  name?: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * One combination of a test matrix
+ */
+export interface TestMatrixCell {
+  /** Label such as `webkit/iPhone 13/de-DE` */
+  id: string;
+  
+  browser?: MatrixBrowser;
+  
+  /** Playwright device descriptor name */
+  device?: string;
+  
+  viewport?: MatrixViewport;
+  
+  locale?: string;
 }
 
 /**
@@ -89,6 +150,9 @@ export interface EngineConfig {
   /** Engine-specific settings */
   settings: Record<string, any>;
   
+  /** Number of tests the engine may be asked to run at once */
+  concurrency?: number;
+  
   /** Browser configuration (for browser-based engines) */
   browser?: BrowserConfig;
   
@@ -155,14 +219,28 @@ export interface HealingConfig {
   
   /** Healing timeout */
   timeout: number;
+  
+  /** How heals are applied, overriding the healing engine's mode */
+  mode?: HealingMode;
 }
 
+/**
+ * How the healing engine applies heals it finds
+ *
+ * - `off`: no healing is attempted
+ * - `suggest`: heals are reported for review but never applied
+ * - `auto-apply`: every successful heal is applied
+ * - `auto-apply-above-threshold`: heals are applied when their confidence
+ *   reaches the test's confidence threshold and suggested otherwise
+ */
+export type HealingMode = 'off' | 'suggest' | 'auto-apply' | 'auto-apply-above-threshold';
+
 /**
  * Retry configuration
  */
 export interface RetryConfig {
-  /** Maximum number of retries */
-  maxRetries: number;
+  /** Maximum number of retries; left unset, the orchestrator's retry policy decides */
+  maxRetries?: number;
   
   /** Retry delay in milliseconds */
   delay: number;
@@ -210,6 +288,63 @@ export interface TestResult {
   
   /** Test artifacts */
   artifacts: TestArtifact[];
+  
+  /** Per-combination results of a matrix test */
+  matrix?: TestMatrixResult;
+  
+  /** Browser, network and environment state captured when the test failed */
+  failureContext?: FailureContext;
+  
+  /** How the orchestrator ran the test, kept for flaky test analysis */
+  execution?: TestExecutionInfo;
+  
+  /** Whether the test was quarantined when it ran, so its failure does not fail the build */
+  quarantined?: boolean;
+}
+
+/**
+ * How a test run was executed
+ */
+export interface TestExecutionInfo {
+  /** Name of the test; matrix cells carry the name of their matrix test */
+  testName: string;
+  
+  engine: string;
+  
+  environment: string;
+  
+  /** Browser the run used, when known */
+  browser?: string;
+  
+  /** Attempts the run took; more than 1 when it was retried */
+  attempts: number;
+}
+
+/**
+ * Results of a matrix test, by combination
+ */
+export interface TestMatrixResult {
+  cells: TestMatrixCellResult[];
+  
+  /** Which combinations failed, e.g. `fails only on webkit` */
+  summary: string;
+}
+
+/**
+ * Result of one matrix combination
+ */
+export interface TestMatrixCellResult {
+  cell: TestMatrixCell;
+  
+  /** Identifier of the child run */
+  testId: string;
+  
+  status: TestStatus;
+  
+  duration?: number;
+  
+  /** Error messages of the combination */
+  errors: string[];
 }
 
 /**
@@ -225,6 +360,9 @@ export interface TestError {
   /** Error type */
   type: FailureType;
   
+  /** Severity of a `security_finding` */
+  severity?: FindingSeverity;
+  
   /** Error timestamp */
   timestamp: Date;
   
@@ -257,7 +395,7 @@ export interface TestMetrics {
  */
 export interface TestArtifact {
   /** Artifact type */
-  type: 'screenshot' | 'video' | 'log' | 'report' | 'trace';
+  type: 'screenshot' | 'video' | 'log' | 'report' | 'trace' | 'har' | 'dom' | 'script';
   
   /** Artifact path */
   path: string;
@@ -279,6 +417,12 @@ export interface TestFailure {
   /** Test identifier */
   testId: string;
   
+  /**
+   * Step or selector within the test whose healing attempts are counted
+   * together; failures without one share their test's attempt budget
+   */
+  attemptKey?: string;
+  
   /** Failure type */
   type: FailureType;
   
@@ -427,6 +571,9 @@ export interface NetworkRequest {
   
   /** Request duration */
   duration?: number;
+  
+  /** Why the request failed, e.g. `net::ERR_CONNECTION_REFUSED` */
+  error?: string;
 }
 
 /**
@@ -453,6 +600,9 @@ export interface HealingResult {
   
   /** Healing metadata */
   metadata: Record<string, any>;
+  
+  /** Whether the heal may be applied to the test; false when it is only suggested */
+  applied?: boolean;
 }
 
 /**
@@ -496,6 +646,162 @@ export interface HealingAttempt {
   
   /** Attempt timestamp */
   timestamp: Date;
+  
+  /** Failure the attempt healed, without its previous attempts, kept so the heal can be replayed */
+  failure?: TestFailure;
+}
+
+/**
+ * Previously successful heal remembered for reuse
+ */
+export interface HealingMemoryEntry {
+  /** Entry identifier, derived from the page URL and both selectors */
+  id: string;
+
+  /** Selector that failed */
+  originalSelector: string;
+
+  /** Selector that replaced it */
+  healedSelector: string;
+
+  /** Page URL without query string or fragment, empty when unknown */
+  url: string;
+
+  /** Structural fingerprint of the page DOM when the heal was last used */
+  domFingerprint: string;
+
+  /** Strategy that first produced the heal */
+  strategy: string;
+
+  /** Confidence of the original heal (0-1) */
+  confidence: number;
+
+  /** Times the heal was reused and still matched the page */
+  hits: number;
+
+  /** Times the heal was recalled but no longer matched the page */
+  misses: number;
+
+  /** When the heal was first learned */
+  createdAt: Date;
+
+  /** When the heal was last learned or reused */
+  lastUsedAt: Date;
+}
+
+/**
+ * Screenshot crop of an element captured during a passing run
+ */
+export interface VisualBaseline {
+  /** Baseline identifier, derived from the page URL and selector */
+  id: string;
+
+  /** Selector that located the element */
+  selector: string;
+
+  /** Page URL without query string or fragment, empty when unknown */
+  url: string;
+
+  /** Test that captured the baseline */
+  testId?: string;
+
+  /** Element bounding box in screenshot pixels */
+  boundingBox: { x: number; y: number; width: number; height: number };
+
+  /** Base64-encoded PNG crop of the element */
+  image: string;
+
+  /** Perceptual difference hash of the crop */
+  hash: string;
+
+  /** When the baseline was first captured */
+  createdAt: Date;
+
+  /** When the baseline was last captured */
+  updatedAt: Date;
+}
+
+/**
+ * Review status of a selector patch
+ */
+export type SelectorPatchStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Healed selector proposed as a change to a test source file
+ */
+export interface SelectorPatch {
+  /** Patch identifier */
+  id: string;
+
+  /** Test run that produced the heal */
+  testId?: string;
+
+  /** Test source file the patch applies to */
+  filePath: string;
+
+  /** Selector as written in the source file */
+  originalSelector: string;
+
+  /** Selector produced by healing */
+  healedSelector: string;
+
+  /** Strategy that produced the healed selector */
+  strategy: string;
+
+  /** Healing confidence score (0-1) */
+  confidence: number;
+
+  /** Review status */
+  status: SelectorPatchStatus;
+
+  /** Unified diff against the original source file */
+  diff: string;
+
+  /** Number of selector occurrences replaced by the diff */
+  replacements: number;
+
+  /** Creation timestamp */
+  createdAt: Date;
+
+  /** Review timestamp */
+  reviewedAt?: Date;
+
+  /** Reviewer, or 'auto' for patches approved by confidence */
+  reviewedBy?: string;
+
+  /** Reviewer's note */
+  reason?: string;
+
+  /** Files written when the patch was approved */
+  artifacts?: {
+    diffPath: string;
+    selectorMapPath: string;
+  };
+}
+
+/**
+ * Test quarantined because it is flaky
+ *
+ * Quarantined tests still run, but their failures do not fail the build.
+ */
+export interface QuarantineEntry {
+  /** Name of the quarantined test */
+  testName: string;
+
+  /** Why the test was quarantined */
+  reason?: string;
+
+  /** Who quarantined the test */
+  quarantinedBy?: string;
+
+  /** Flakiness score of the test when it was quarantined (0-1) */
+  flakinessScore?: number;
+
+  /** Creation timestamp */
+  createdAt: Date;
+
+  /** When the quarantine ends; open-ended when missing */
+  expiresAt?: Date;
 }
 
 /**
@@ -508,6 +814,9 @@ export interface HealingContext {
   /** Previous healing attempts */
   previousAttempts: HealingAttempt[];
   
+  /** Healing attempts each strategy may make for a test (default: 3) */
+  maxAttempts?: number;
+  
   /** System state */
   systemState: SystemState;
   
@@ -519,7 +828,7 @@ export interface HealingContext {
  * System state interface
  */
 export interface SystemState {
-  /** Current load */
+  /** Current system load, 0 (idle) to 1 (saturated) */
   load: number;
   
   /** Available resources */
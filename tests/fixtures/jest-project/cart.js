@@ -0,0 +1,12 @@
+function total(items) {
+  return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+}
+
+function discount(amount, code) {
+  if (code === 'HALF') {
+    return amount / 2;
+  }
+  return amount;
+}
+
+module.exports = { total, discount };
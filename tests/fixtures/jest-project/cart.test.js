@@ -0,0 +1,20 @@
+const { total, discount } = require('./cart');
+
+describe('cart', () => {
+  it('adds up item prices', () => {
+    console.log('pricing 2 items');
+    expect(total([{ price: 2, quantity: 3 }, { price: 1, quantity: 1 }])).toBe(7);
+  });
+
+  it.skip('applies tax', () => {
+    expect(total([])).toBe(0);
+  });
+
+  it.todo('rounds totals');
+});
+
+describe('discount', () => {
+  it('halves the amount with HALF', () => {
+    expect(discount(10, 'HALF')).toBe(5);
+  });
+});
@@ -0,0 +1,12 @@
+const { total } = require('./cart');
+
+describe('checkout', () => {
+  it('charges the cart total', () => {
+    console.warn('using test card');
+    expect(total([{ price: 5, quantity: 2 }])).toBe(12);
+  });
+
+  it('accepts an empty cart', () => {
+    expect(total([])).toBe(0);
+  });
+});
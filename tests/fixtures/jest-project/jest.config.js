@@ -0,0 +1,9 @@
+/**
+ * Jest config of the sample project run by the Jest engine tests
+ */
+module.exports = {
+  rootDir: __dirname,
+  testEnvironment: 'node',
+  testMatch: ['**/*.test.js'],
+  collectCoverageFrom: ['*.js', '!*.test.js', '!jest.config.js'],
+};
@@ -122,6 +122,35 @@ describe('API Endpoints Integration Tests', () => {
         expect(response.body.error).toHaveProperty('type', 'ValidationError');
       });
 
+      it('should reject invalid test matrices', async () => {
+        const response = await request(app)
+          .post('/api/v1/tests/execute')
+          .send({
+            name: 'Matrix Test',
+            engine: 'playwright',
+            config: { url: 'https://example.com' },
+            options: { matrix: { browsers: ['safari'] } }
+          })
+          .expect(400);
+
+        expect(response.body).toHaveProperty('success', false);
+        expect(response.body.error).toHaveProperty('type', 'ValidationError');
+        expect(response.body.error.message).toContain('Invalid test matrix');
+      });
+
+      it('should reject test matrices with too many combinations', async () => {
+        const send = (matrix: Record<string, any>) => request(app)
+          .post('/api/v1/tests/execute')
+          .send({ name: 'Matrix Test', engine: 'playwright', config: { url: 'https://example.com' }, options: { matrix } });
+        const locales = Array.from({ length: 20 }, (_value, index) => `l${index}-XX`);
+
+        const cells = await send({ browsers: ['chromium', 'firefox', 'webkit'], locales }).expect(400);
+        await send({ locales: [...locales, 'en-US'] }).expect(400);
+        await send({ devices: ['iPhone 13', 'iPhone 13'] }).expect(400);
+
+        expect(cells.body.error.message).toContain('60 combinations, more than the limit of 50');
+      });
+
       it('should reject missing required fields', async () => {
         const incompleteConfig = {
           description: 'Test without name and engine'
@@ -441,6 +470,17 @@ describe('API Endpoints Integration Tests', () => {
       });
     });
 
+    describe('GET /api/v1/results/:id/matrix', () => {
+      it('should return 404 for results without a matrix', async () => {
+        const response = await request(app)
+          .get('/api/v1/results/non-existent-id/matrix')
+          .expect(404);
+
+        expect(response.body).toHaveProperty('success', false);
+        expect(response.body.error.message).toContain('Matrix result for test non-existent-id');
+      });
+    });
+
     describe('GET /api/v1/results/summary', () => {
       it('should return test results summary', async () => {
         const response = await request(app)
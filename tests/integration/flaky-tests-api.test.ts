@@ -0,0 +1,144 @@
+/**
+ * Integration tests for the flaky test endpoints
+ */
+
+import request from 'supertest';
+import { createApp } from '../../src/api/server';
+import { getStorage } from '../../src/api/storage/shared';
+import { TestExecutionInfo, TestResult, TestStatus } from '../../src/types';
+
+let sequence = 0;
+
+function createRun(testName: string, status: TestStatus, execution: Partial<TestExecutionInfo> = {}): TestResult {
+  sequence++;
+  return {
+    id: `run-${sequence}`,
+    name: testName,
+    status,
+    startTime: new Date(Date.now() - 60000 + sequence),
+    output: '',
+    errors: [],
+    metrics: { memoryUsage: 0, cpuUsage: 0, networkRequests: 0, custom: {} },
+    healingAttempts: [],
+    artifacts: [],
+    execution: { testName, engine: 'playwright', environment: 'ci', attempts: 1, ...execution },
+  };
+}
+
+describe('Flaky Tests API Integration', () => {
+  let app: any;
+
+  beforeAll(() => {
+    app = createApp({
+      port: 3001,
+      host: 'localhost',
+      corsOrigin: '*',
+      rateLimitWindowMs: 900000,
+      rateLimitMax: 1000,
+      enableSwagger: false,
+      enableMetrics: false,
+    });
+  });
+
+  beforeEach(async () => {
+    await getStorage().testResults.clear();
+    await getStorage().quarantine.clear();
+
+    const outcomes: Array<[TestStatus, number]> = [['passed', 1], ['failed', 1], ['passed', 2], ['failed', 1], ['passed', 1]];
+    for (const [status, attempts] of outcomes) {
+      await getStorage().testResults.save(createRun('checkout', status, { attempts }));
+      await getStorage().testResults.save(createRun('login', 'passed'));
+    }
+  });
+
+  it('should list the flaky tests', async () => {
+    const response = await request(app)
+      .get('/api/v1/results/flaky')
+      .expect(200);
+
+    expect(response.body.data.total).toBe(1);
+    expect(response.body.data.items[0]).toMatchObject({
+      testName: 'checkout',
+      status: 'flaky',
+      runs: 5,
+      failed: 2,
+      passedOnRetry: 1,
+      summary: 'flaky: 3 of 5 runs failed or passed on retry',
+    });
+    expect(response.body.data.items[0].history).toBeUndefined();
+  });
+
+  it('should list every analyzed test when asked to', async () => {
+    const response = await request(app)
+      .get('/api/v1/results/flaky')
+      .query({ status: 'all' })
+      .expect(200);
+
+    expect(response.body.data.items.map((item: any) => [item.testName, item.status])).toEqual([
+      ['checkout', 'flaky'],
+      ['login', 'stable'],
+    ]);
+  });
+
+  it('should return the history of one test', async () => {
+    const response = await request(app)
+      .get('/api/v1/results/flaky/checkout')
+      .expect(200);
+
+    expect(response.body.data.history.map((run: any) => run.outcome))
+      .toEqual(['passed', 'failed', 'passed-on-retry', 'failed', 'passed']);
+
+    await request(app)
+      .get('/api/v1/results/flaky/missing')
+      .expect(404);
+  });
+
+  it('should quarantine and release a test', async () => {
+    const created = await request(app)
+      .post('/api/v1/results/flaky/quarantine')
+      .send({ testName: 'checkout', reason: 'Fails on CI runners', quarantinedBy: 'ada' })
+      .expect(201);
+
+    expect(created.body.data).toMatchObject({ testName: 'checkout', reason: 'Fails on CI runners', quarantinedBy: 'ada' });
+    expect(created.body.data.flakinessScore).toBeGreaterThan(0);
+
+    const listed = await request(app)
+      .get('/api/v1/results/flaky/quarantine')
+      .expect(200);
+    expect(listed.body.data.items.map((entry: any) => entry.testName)).toEqual(['checkout']);
+
+    const flaky = await request(app)
+      .get('/api/v1/results/flaky')
+      .expect(200);
+    expect(flaky.body.data.items[0].quarantine.reason).toBe('Fails on CI runners');
+
+    await request(app)
+      .delete('/api/v1/results/flaky/quarantine/checkout')
+      .expect(200);
+    await request(app)
+      .delete('/api/v1/results/flaky/quarantine/checkout')
+      .expect(404);
+  });
+
+  it('should reject invalid quarantine requests', async () => {
+    await request(app)
+      .post('/api/v1/results/flaky/quarantine')
+      .send({ reason: 'No test named' })
+      .expect(400);
+
+    await request(app)
+      .post('/api/v1/results/flaky/quarantine')
+      .send({ testName: 'checkout', expiresAt: '2000-01-01T00:00:00.000Z' })
+      .expect(400);
+  });
+
+  it('should not count quarantined failures as failed in the summary', async () => {
+    await getStorage().testResults.save({ ...createRun('checkout', 'failed'), quarantined: true });
+
+    const response = await request(app)
+      .get('/api/v1/results/summary')
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({ total: 11, passed: 8, failed: 2, quarantined: 1 });
+  });
+});
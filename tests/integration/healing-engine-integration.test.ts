@@ -21,7 +21,7 @@ describe('HealingEngine Integration', () => {
   beforeEach(() => {
     healingEngine = new HealingEngine();
     simpleStrategy = new SimpleLocatorStrategy(0); // No delay for tests
-    idStrategy = new IDFallbackStrategy({}, 0); // No delay for tests
+    idStrategy = new IDFallbackStrategy();
     
     // Register multiple strategies
     healingEngine.registerStrategy(simpleStrategy);
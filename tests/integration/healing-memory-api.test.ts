@@ -0,0 +1,98 @@
+/**
+ * Integration tests for the healing memory endpoints
+ */
+
+import request from 'supertest';
+import { createApp } from '../../src/api/server';
+import { createHealingEngine, getStorage } from '../../src/api/storage/shared';
+import { HealingContext, HealingMemoryEntry, TestFailure } from '../../src/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createEntry(id: string, originalSelector: string, lastUsedAt: Date): HealingMemoryEntry {
+  return {
+    id,
+    originalSelector,
+    healedSelector: `${originalSelector}-healed`,
+    url: 'https://shop.test/login',
+    domFingerprint: 'abc',
+    strategy: 'css-fallback',
+    confidence: 0.8,
+    hits: 2,
+    misses: 0,
+    createdAt: lastUsedAt,
+    lastUsedAt,
+  };
+}
+
+describe('Healing Memory API Integration', () => {
+  let app: any;
+
+  beforeAll(() => {
+    app = createApp({
+      port: 3001,
+      host: 'localhost',
+      corsOrigin: '*',
+      rateLimitWindowMs: 900000,
+      rateLimitMax: 1000,
+      enableSwagger: false,
+      enableMetrics: false,
+    });
+  });
+
+  beforeEach(async () => {
+    const repository = getStorage().healingMemory;
+    await repository.clear();
+    await repository.save(createEntry('fresh', '#email', new Date()));
+    await repository.save(createEntry('stale', '#submit', new Date(Date.now() - 90 * DAY_MS)));
+  });
+
+  it('should list remembered heals with scores and filters', async () => {
+    const response = await request(app)
+      .get('/api/v1/healing/memory?selector=%23email')
+      .expect(200);
+
+    expect(response.body.data.items).toHaveLength(1);
+    expect(response.body.data.items[0]).toMatchObject({ id: 'fresh', hits: 2 });
+    expect(response.body.data.items[0].score).toBeCloseTo(0.8, 2);
+  });
+
+  it('should get and delete a single entry', async () => {
+    await request(app).get('/api/v1/healing/memory/fresh').expect(200);
+    await request(app).delete('/api/v1/healing/memory/fresh').expect(200);
+    await request(app).get('/api/v1/healing/memory/fresh').expect(404);
+    await request(app).delete('/api/v1/healing/memory/fresh').expect(404);
+  });
+
+  it('should purge stale entries by default and everything with all=true', async () => {
+    const stale = await request(app).delete('/api/v1/healing/memory').expect(200);
+    expect(stale.body.data.removed).toBe(1);
+    expect(await getStorage().healingMemory.findById('fresh')).not.toBeNull();
+
+    const all = await request(app).delete('/api/v1/healing/memory?all=true').expect(200);
+    expect(all.body.data.removed).toBe(1);
+    expect(await getStorage().healingMemory.count()).toBe(0);
+  });
+
+  it('should let the shared healing engine reuse remembered heals', async () => {
+    const failure: TestFailure = {
+      id: 'failure-email',
+      testId: 'run-login',
+      type: 'element_not_found',
+      message: 'Element not found: #email',
+      timestamp: new Date(),
+      context: {
+        testConfig: {} as any,
+        browserState: { url: 'https://shop.test/login', title: 'Login', viewport: { width: 1280, height: 720 }, consoleLogs: [] },
+        environment: { os: 'linux', nodeVersion: 'v20', environment: 'test', availableMemory: 0, cpuCount: 1 },
+        custom: { selector: '#email' },
+      },
+      previousAttempts: [],
+    };
+
+    const result = await createHealingEngine({ enableDetailedLogging: false }).heal(failure, {} as HealingContext);
+
+    expect(result).toMatchObject({ success: true, metadata: { strategy: 'healing-memory', memoryId: 'fresh' } });
+    expect((await getStorage().healingMemory.findById('fresh'))!.hits).toBe(3);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Integration tests for the selector patch review endpoints
+ */
+
+import request from 'supertest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createApp } from '../../src/api/server';
+import { configureSelectorPatches, getStorage } from '../../src/api/storage/shared';
+
+const SPEC = [
+  "test('checkout', async ({ page }) => {",
+  "  await page.click('#pay');",
+  "  await page.click('#confirm');",
+  '});',
+  ''
+].join('\n');
+
+describe('Healing Patches API Integration', () => {
+  let app: any;
+  let tempDir: string;
+  let specPath: string;
+
+  beforeAll(() => {
+    app = createApp({
+      port: 3001,
+      host: 'localhost',
+      corsOrigin: '*',
+      rateLimitWindowMs: 900000,
+      rateLimitMax: 1000,
+      enableSwagger: false,
+      enableMetrics: false,
+    });
+  });
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'patches-api-test-'));
+    specPath = path.join(tempDir, 'checkout.spec.ts');
+    fs.writeFileSync(specPath, SPEC);
+    configureSelectorPatches({ outputDir: path.join(tempDir, 'patches'), autoApproveThreshold: 0.9 });
+    await getStorage().selectorPatches.clear();
+  });
+
+  afterEach(() => {
+    configureSelectorPatches({});
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function proposePending(originalSelector: string = '#pay'): Promise<any> {
+    const response = await request(app)
+      .post('/api/v1/healing/patches')
+      .send({ filePath: specPath, originalSelector, healedSelector: '[data-testid="pay"]', confidence: 0.6 })
+      .expect(201);
+    return response.body.data;
+  }
+
+  it('should queue low-confidence patches and list them by status', async () => {
+    const patch = await proposePending();
+
+    expect(patch).toMatchObject({ status: 'pending', filePath: specPath, strategy: 'manual', replacements: 1 });
+    expect(patch.diff).toContain("+  await page.click('[data-testid=\"pay\"]');");
+
+    const response = await request(app)
+      .get('/api/v1/healing/patches?status=pending')
+      .expect(200);
+
+    expect(response.body.data.items.map((item: any) => item.id)).toEqual([patch.id]);
+    expect(response.body.data.pagination).toMatchObject({ page: 1, total: 1 });
+  });
+
+  it('should approve a pending patch and write its artifacts', async () => {
+    const patch = await proposePending();
+
+    const response = await request(app)
+      .post(`/api/v1/healing/patches/${patch.id}/approve`)
+      .send({ reviewer: 'qa-lead' })
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({ status: 'approved', reviewedBy: 'qa-lead' });
+    expect(fs.existsSync(response.body.data.artifacts.diffPath)).toBe(true);
+    expect(fs.existsSync(response.body.data.artifacts.selectorMapPath)).toBe(true);
+
+    await request(app)
+      .post(`/api/v1/healing/patches/${patch.id}/reject`)
+      .send({})
+      .expect(409);
+  });
+
+  it('should reject a pending patch', async () => {
+    const patch = await proposePending();
+
+    const response = await request(app)
+      .post(`/api/v1/healing/patches/${patch.id}/reject`)
+      .send({ reason: 'Healed to the wrong button' })
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({ status: 'rejected', reason: 'Healed to the wrong button' });
+    expect(fs.existsSync(path.join(tempDir, 'patches'))).toBe(false);
+  });
+
+  it('should build a patch from a stored healing attempt', async () => {
+    await getStorage().healingAttempts.save({
+      id: 'attempt-1',
+      testId: 'run-1',
+      strategy: 'css-fallback',
+      success: true,
+      confidence: 0.95,
+      duration: 10,
+      message: 'Healed',
+      actions: [{
+        type: 'update_selector',
+        description: 'Use data-testid',
+        parameters: { originalSelector: '#confirm', newSelector: '[data-testid="confirm"]' },
+        timestamp: new Date(),
+        result: 'success',
+      }],
+      metadata: {},
+      timestamp: new Date(),
+    });
+
+    const response = await request(app)
+      .post('/api/v1/healing/patches')
+      .send({ filePath: specPath, attemptId: 'attempt-1' })
+      .expect(201);
+
+    expect(response.body.data).toMatchObject({
+      status: 'approved',
+      reviewedBy: 'auto',
+      testId: 'run-1',
+      strategy: 'css-fallback',
+      originalSelector: '#confirm',
+    });
+  });
+
+  it('should return 422 when the selector is not in the file', async () => {
+    await request(app)
+      .post('/api/v1/healing/patches')
+      .send({ filePath: specPath, originalSelector: '#missing', healedSelector: '#other', confidence: 0.5 })
+      .expect(422);
+  });
+
+  it('should return 404 for unknown patches', async () => {
+    await request(app).get('/api/v1/healing/patches/missing').expect(404);
+    await request(app).post('/api/v1/healing/patches/missing/approve').send({}).expect(404);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Integration tests for the healing replay endpoint
+ */
+
+import request from 'supertest';
+import { createApp } from '../../src/api/server';
+import { getStorage, setHealingEngine } from '../../src/api/storage/shared';
+import { HealingEngine } from '../../src/healing/HealingEngine';
+import { FailureContext, TestResult } from '../../src/types';
+
+const PAGE_HTML = '<html><body><form><button id="pay-now" data-testid="pay" class="btn primary">Pay now</button></form></body></html>';
+
+function createContext(custom: Record<string, any>, domSnapshot: string | null = PAGE_HTML): FailureContext {
+  return {
+    testConfig: {
+      name: 'checkout',
+      healingConfig: { enabled: true, confidenceThreshold: 0.6, maxAttempts: 3, strategies: [], timeout: 1000 },
+    } as any,
+    browserState: {
+      url: 'http://shop.example.com/checkout',
+      title: 'Checkout',
+      viewport: { width: 1280, height: 720 },
+      ...(domSnapshot !== null && { domSnapshot }),
+      consoleLogs: [],
+    },
+    environment: { os: 'linux', nodeVersion: 'v20', environment: 'test', availableMemory: 0, cpuCount: 1 },
+    custom,
+  };
+}
+
+function createResult(overrides: Partial<TestResult> = {}): TestResult {
+  return {
+    id: 'run-checkout',
+    name: 'checkout',
+    status: 'failed',
+    startTime: new Date(),
+    output: '',
+    errors: [],
+    metrics: { memoryUsage: 0, cpuUsage: 0, networkRequests: 0, custom: {} },
+    healingAttempts: [{
+      id: 'heal-pay',
+      attemptNumber: 1,
+      strategy: 'css-fallback',
+      result: {
+        id: 'heal-pay',
+        success: false,
+        actions: [],
+        confidence: 0,
+        duration: 5,
+        message: 'No healing results available',
+        metadata: { strategy: 'css-fallback' },
+      },
+      timestamp: new Date(),
+      failure: {
+        id: 'run-checkout-step-1',
+        testId: 'run-checkout',
+        type: 'element_not_found',
+        message: 'Step "Pay" failed to locate element: #pay',
+        timestamp: new Date(),
+        context: createContext({ selector: '#pay', stepType: 'click' }),
+        previousAttempts: [],
+      },
+    }],
+    artifacts: [],
+    ...overrides,
+  };
+}
+
+describe('Healing Replay API Integration', () => {
+  let app: any;
+
+  beforeAll(() => {
+    app = createApp({
+      port: 3001,
+      host: 'localhost',
+      corsOrigin: '*',
+      rateLimitWindowMs: 900000,
+      rateLimitMax: 1000,
+      enableSwagger: false,
+      enableMetrics: false,
+    });
+  });
+
+  beforeEach(async () => {
+    await getStorage().testResults.clear();
+    await getStorage().healingAttempts.clear();
+  });
+
+  afterEach(() => {
+    setHealingEngine(null);
+  });
+
+  it('should replay a stored failure and return candidate selectors without storing anything', async () => {
+    const engine = new HealingEngine();
+    setHealingEngine(engine);
+    await getStorage().testResults.save(createResult());
+
+    const response = await request(app)
+      .post('/api/v1/healing/replay')
+      .send({ testId: 'run-checkout', browser: false })
+      .expect(200);
+
+    const [replay] = response.body.data.replays;
+    expect(replay).toMatchObject({ failureId: 'run-checkout-step-1', selector: '#pay', source: 'dom-snapshot' });
+    expect(replay.result).toMatchObject({ success: true, metadata: { strategy: 'accessibility-locator' } });
+    expect(replay.candidates[0]).toMatchObject({
+      strategy: 'accessibility-locator',
+      selector: 'role=button[name="Pay now"]',
+      success: true,
+    });
+    expect(response.body.data.recorded).toEqual([]);
+
+    expect(await getStorage().healingAttempts.count()).toBe(0);
+    expect(engine.getStats().totalAttempts).toBe(0);
+  });
+
+  it('should store the replayed heal when asked to', async () => {
+    await getStorage().testResults.save(createResult());
+
+    const response = await request(app)
+      .post('/api/v1/healing/replay')
+      .send({ testId: 'run-checkout', attemptId: 'heal-pay', mode: 'suggest', browser: false, record: true })
+      .expect(200);
+
+    const [attemptId] = response.body.data.recorded;
+    const attempt = await getStorage().healingAttempts.findById(attemptId);
+    expect(attempt).toMatchObject({
+      testId: 'run-checkout',
+      strategy: 'accessibility-locator',
+      applied: false,
+      changes: { before: '#pay', after: 'role=button[name="Pay now"]', type: 'selector' },
+      review: { status: 'pending' },
+      metadata: { replay: true, failureId: 'run-checkout-step-1', source: 'dom-snapshot' },
+    });
+  });
+
+  it('should replay the failure context of a test for a given selector', async () => {
+    await getStorage().testResults.save(createResult({
+      healingAttempts: [],
+      failureContext: createContext({ error: 'Timeout 5000ms exceeded' }),
+    }));
+
+    const response = await request(app)
+      .post('/api/v1/healing/replay')
+      .send({ testId: 'run-checkout', selector: '#pay', strategies: ['accessibility-locator'], browser: false })
+      .expect(200);
+
+    expect(response.body.data.replays).toHaveLength(1);
+    expect(response.body.data.replays[0]).toMatchObject({ failureId: 'run-checkout-failure', selector: '#pay' });
+    expect(response.body.data.replays[0].candidates).toHaveLength(1);
+  });
+
+  it('should return 404 for unknown test results and attempts', async () => {
+    await request(app)
+      .post('/api/v1/healing/replay')
+      .send({ testId: 'missing-run' })
+      .expect(404);
+
+    await getStorage().testResults.save(createResult());
+    await request(app)
+      .post('/api/v1/healing/replay')
+      .send({ testId: 'run-checkout', attemptId: 'missing-attempt' })
+      .expect(404);
+  });
+
+  it('should reject failures that cannot be replayed', async () => {
+    await getStorage().testResults.save(createResult({ healingAttempts: [] }));
+
+    const noFailures = await request(app)
+      .post('/api/v1/healing/replay')
+      .send({ testId: 'run-checkout' })
+      .expect(422);
+    expect(noFailures.body.error.message).toContain('has no stored healing failures to replay');
+
+    await request(app)
+      .post('/api/v1/healing/replay')
+      .send({ testId: 'run-checkout', selector: '#pay' })
+      .expect(422);
+
+    await getStorage().testResults.save(createResult());
+    const unknownStrategy = await request(app)
+      .post('/api/v1/healing/replay')
+      .send({ testId: 'run-checkout', strategies: ['telepathy'], browser: false })
+      .expect(422);
+    expect(unknownStrategy.body.error.message).toContain('Unknown healing strategies: telepathy');
+  });
+
+  it('should validate the request body', async () => {
+    await request(app)
+      .post('/api/v1/healing/replay')
+      .send({ testId: 'run-checkout', attemptId: 'heal-pay', selector: '#pay' })
+      .expect(400);
+
+    await request(app)
+      .post('/api/v1/healing/replay')
+      .send({ testId: 'run-checkout', confidenceThreshold: 2 })
+      .expect(400);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Integration tests for the healing suggestion review endpoints
+ */
+
+import request from 'supertest';
+import { createApp } from '../../src/api/server';
+import {
+  createHealingEngine,
+  getHealingSuggestionManager,
+  getStorage,
+  setHealingEngine
+} from '../../src/api/storage/shared';
+import { HealingEngine } from '../../src/healing/HealingEngine';
+import { HealingResult, TestResult } from '../../src/types';
+
+function createHeal(id: string, applied: boolean): HealingResult {
+  return {
+    id,
+    success: true,
+    applied,
+    actions: [{
+      type: 'update_selector',
+      description: 'Update selector from #pay to [data-testid="pay"]',
+      parameters: { originalSelector: '#pay', newSelector: '[data-testid="pay"]' },
+      timestamp: new Date(),
+      result: 'success',
+    }],
+    confidence: 0.75,
+    duration: 12,
+    message: 'Healed selector',
+    metadata: {
+      strategy: 'simple-locator',
+      healingMode: applied ? 'auto-apply' : 'suggest',
+      failureType: 'element_not_found',
+      site: 'shop.example.com',
+    },
+  };
+}
+
+function createResult(heals: HealingResult[]): TestResult {
+  return {
+    id: 'run-checkout',
+    name: 'checkout',
+    status: 'failed',
+    startTime: new Date(),
+    output: '',
+    errors: [],
+    metrics: { memoryUsage: 0, cpuUsage: 0, networkRequests: 0, custom: {} },
+    healingAttempts: heals.map((heal, index) => ({
+      id: heal.id,
+      attemptNumber: index + 1,
+      strategy: 'simple-locator',
+      result: heal,
+      timestamp: new Date(),
+    })),
+    artifacts: [],
+  };
+}
+
+describe('Healing Suggestions API Integration', () => {
+  let app: any;
+  let engine: HealingEngine;
+
+  beforeAll(() => {
+    app = createApp({
+      port: 3001,
+      host: 'localhost',
+      corsOrigin: '*',
+      rateLimitWindowMs: 900000,
+      rateLimitMax: 1000,
+      enableSwagger: false,
+      enableMetrics: false,
+    });
+  });
+
+  beforeEach(async () => {
+    await getStorage().healingAttempts.clear();
+    engine = createHealingEngine();
+    setHealingEngine(engine);
+  });
+
+  afterEach(() => {
+    setHealingEngine(null);
+  });
+
+  it('should give the shared healing engine the selector strategies', () => {
+    expect(engine.getStrategies().map(strategy => strategy.name)).toEqual(
+      expect.arrayContaining(['css-fallback', 'id-fallback', 'xpath-fallback', 'visual-match'])
+    );
+  });
+
+  it('should queue only heals that were suggested', async () => {
+    const records = await getHealingSuggestionManager().recordFromResult(
+      createResult([createHeal('heal-suggested', false), createHeal('heal-applied', true)])
+    );
+
+    expect(records.map(record => record.id)).toEqual(['heal-suggested']);
+    expect(records[0]).toMatchObject({
+      testId: 'run-checkout',
+      review: { status: 'pending' },
+      changes: { before: '#pay', after: '[data-testid="pay"]', type: 'selector' },
+    });
+
+    const response = await request(app)
+      .get('/api/v1/healing/attempts?reviewStatus=pending')
+      .expect(200);
+
+    expect(response.body.data.items.map((item: any) => item.id)).toEqual(['heal-suggested']);
+  });
+
+  it('should approve a suggestion and record a strategy success', async () => {
+    await getHealingSuggestionManager().recordFromResult(createResult([createHeal('heal-suggested', false)]));
+    const feedback = jest.spyOn(engine, 'recordFeedback');
+
+    const response = await request(app)
+      .post('/api/v1/healing/attempts/heal-suggested/approve')
+      .send({ reviewer: 'qa-lead', reason: 'Matches the redesigned button' })
+      .expect(200);
+
+    expect(response.body.data.review).toMatchObject({
+      status: 'approved',
+      reviewer: 'qa-lead',
+      reason: 'Matches the redesigned button',
+    });
+    expect(feedback).toHaveBeenCalledWith('simple-locator', 'element_not_found', 'shop.example.com', true);
+    expect(engine.getStats().successRateByStrategy['simple-locator']).toBe(1);
+  });
+
+  it('should reject a suggestion and count it as a failure', async () => {
+    await getHealingSuggestionManager().recordFromResult(createResult([createHeal('heal-suggested', false)]));
+
+    await request(app)
+      .post('/api/v1/healing/attempts/heal-suggested/reject')
+      .send({ reason: 'Wrong button' })
+      .expect(200);
+
+    expect(engine.getStats().successRateByStrategy['simple-locator']).toBe(0);
+
+    const response = await request(app)
+      .get('/api/v1/healing/statistics')
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({
+      total: 1,
+      successful: 0,
+      failed: 1,
+      reviews: { pending: 0, approved: 0, rejected: 1 },
+    });
+
+    const strategies = await request(app)
+      .get('/api/v1/healing/strategies?enabled=true&limit=20')
+      .expect(200);
+    const byId = new Map(strategies.body.data.items.map((item: any) => [item.id, item]));
+
+    expect(byId.get('simple-locator')).toMatchObject({ avgSuccessRate: 0 });
+    expect(byId.get('css-fallback')).not.toHaveProperty('avgSuccessRate');
+  });
+
+  it('should reject reviewing a suggestion twice', async () => {
+    await getHealingSuggestionManager().recordFromResult(createResult([createHeal('heal-suggested', false)]));
+
+    await request(app)
+      .post('/api/v1/healing/attempts/heal-suggested/approve')
+      .send({})
+      .expect(200);
+
+    await request(app)
+      .post('/api/v1/healing/attempts/heal-suggested/reject')
+      .send({})
+      .expect(409);
+  });
+
+  it('should reject reviewing an attempt that was not suggested', async () => {
+    await getStorage().healingAttempts.save({
+      ...createHeal('heal-applied', true),
+      testId: 'run-checkout',
+      strategy: 'simple-locator',
+      timestamp: new Date(),
+    });
+
+    await request(app)
+      .post('/api/v1/healing/attempts/heal-applied/approve')
+      .send({})
+      .expect(409);
+  });
+
+  it('should return 404 for unknown attempts', async () => {
+    await request(app)
+      .post('/api/v1/healing/attempts/missing/approve')
+      .send({})
+      .expect(404);
+  });
+});
@@ -386,8 +386,17 @@ describe('Observability API Integration', () => {
     });
 
     it('should get a specific report by ID', async () => {
-      const reportId = 'test-report-123';
-      
+      const created = await request(app)
+        .post('/api/v1/observability/reports')
+        .send({
+          type: 'health',
+          title: 'Stored Health Report',
+          description: 'Report persisted for retrieval',
+        })
+        .expect(201);
+
+      const reportId = created.body.data.report.id;
+
       const response = await request(app)
         .get(`/api/v1/observability/reports/${reportId}`)
         .expect(200);
@@ -397,9 +406,9 @@ describe('Observability API Integration', () => {
         data: {
           report: expect.objectContaining({
             id: reportId,
-            type: expect.any(String),
-            title: expect.any(String),
-            description: expect.any(String),
+            type: 'health',
+            title: 'Stored Health Report',
+            description: 'Report persisted for retrieval',
             generatedAt: expect.any(String),
             data: expect.any(Object),
           }),
@@ -408,23 +417,24 @@ describe('Observability API Integration', () => {
       });
     });
 
-    it('should validate report ID parameter', async () => {
+    it('should list generated reports', async () => {
       const response = await request(app)
-        .get('/api/v1/observability/reports/invalid-id')
+        .get('/api/v1/observability/reports?type=health')
         .expect(200);
 
-      // The route accepts any string as ID, so it returns 200 with a real response
+      expect(response.body.data.total).toBeGreaterThan(0);
+      expect(response.body.data.reports.every((report: any) => report.type === 'health')).toBe(true);
+    });
+
+    it('should return 404 for an unknown report ID', async () => {
+      const response = await request(app)
+        .get('/api/v1/observability/reports/invalid-id')
+        .expect(404);
+
       expect(response.body).toMatchObject({
-        success: true,
-        data: expect.objectContaining({
-          report: expect.objectContaining({
-            id: 'invalid-id',
-            type: expect.any(String),
-            title: expect.any(String),
-            generatedAt: expect.any(String),
-            data: expect.any(Object),
-          }),
-          timestamp: expect.any(String),
+        success: false,
+        error: expect.objectContaining({
+          statusCode: 404,
         }),
       });
     });
@@ -0,0 +1,100 @@
+/**
+ * Integration tests for the test configurations built by the execution endpoints
+ */
+
+import request from 'supertest';
+import path from 'path';
+import { createApp } from '../../src/api/server';
+import {
+  configureEngineSettings,
+  configureHealingModes,
+  createOrchestrator,
+  setOrchestrator
+} from '../../src/api/storage/shared';
+import { ConfigurationManager } from '../../src/config/ConfigurationManager';
+import { TestOrchestrator } from '../../src/core/TestOrchestrator';
+import { TestConfig } from '../../src/types';
+
+describe('Test Execution API Integration', () => {
+  let app: any;
+  let orchestrator: TestOrchestrator;
+  let submit: jest.SpyInstance;
+
+  beforeAll(() => {
+    app = createApp({
+      port: 3001,
+      host: 'localhost',
+      corsOrigin: '*',
+      rateLimitWindowMs: 900000,
+      rateLimitMax: 1000,
+      enableSwagger: false,
+      enableMetrics: false,
+    });
+  });
+
+  beforeEach(() => {
+    orchestrator = createOrchestrator();
+    submit = jest.spyOn(orchestrator, 'submit').mockImplementation((testId: string, config: TestConfig) => ({
+      id: testId,
+      name: config.name,
+      status: 'running',
+      startTime: new Date(),
+      output: '',
+      errors: [],
+      metrics: { memoryUsage: 0, cpuUsage: 0, networkRequests: 0, custom: {} },
+      healingAttempts: [],
+      artifacts: [],
+    }));
+    setOrchestrator(orchestrator);
+  });
+
+  afterEach(() => {
+    configureEngineSettings({});
+    configureHealingModes(null);
+  });
+
+  async function execute(body: Record<string, any>): Promise<TestConfig> {
+    await request(app)
+      .post('/api/v1/tests/execute')
+      .send(body)
+      .expect(202);
+    return submit.mock.calls[0]![1];
+  }
+
+  it('should take engine settings only from the operator', async () => {
+    configureEngineSettings({ jest: { env: { TZ: 'UTC' } } });
+
+    const config = await execute({
+      name: 'unit suite',
+      engine: 'jest',
+      config: { settings: { command: ['sh', '-c', 'exit 1'], env: { PATH: '' }, maxWorkers: 2 } },
+    });
+
+    expect(config.engineConfig.settings).toEqual({ env: { TZ: 'UTC' } });
+  });
+
+  it('should apply the healing mode of the run\'s environment', async () => {
+    const config = new ConfigurationManager(path.join(__dirname, '../../config'), 'development');
+    await config.loadConfig();
+    configureHealingModes(config);
+
+    const production = await execute({ name: 'checkout', engine: 'hello-world', config: {}, options: { environment: 'production' } });
+    submit.mockClear();
+    const staging = await execute({ name: 'checkout', engine: 'hello-world', config: {}, options: { environment: 'staging' } });
+
+    expect(production.environment).toBe('production');
+    expect(production.healingConfig.mode).toBe('suggest');
+    expect(staging.healingConfig.mode).toBe('auto-apply');
+  });
+
+  it('should leave the timeout and retries to the orchestrator when unset', async () => {
+    const unset = await execute({ name: 'checkout', engine: 'hello-world', config: {} });
+    submit.mockClear();
+    const set = await execute({ name: 'checkout', engine: 'hello-world', config: {}, options: { timeout: 5000, retries: 2 } });
+
+    expect(unset.timeout).toBe(0);
+    expect(unset.retryConfig.maxRetries).toBeUndefined();
+    expect(set.timeout).toBe(5000);
+    expect(set.retryConfig.maxRetries).toBe(2);
+  });
+});
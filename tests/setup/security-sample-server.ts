@@ -0,0 +1,68 @@
+/**
+ * Sample site for security scan tests
+ *
+ * `/` links to pages with one known weakness each. `/secure` and the pages
+ * under it send every security header and carry no weakness.
+ */
+
+import express from 'express';
+
+const SECURE_HEADERS: Record<string, string> = {
+  'Content-Security-Policy': "default-src 'self'; frame-ancestors 'none'",
+  'X-Content-Type-Options': 'nosniff',
+  'Referrer-Policy': 'no-referrer',
+};
+
+const page = (body: string) => `<!DOCTYPE html><html><head><title>Sample</title></head><body>${body}</body></html>`;
+
+const createSecuritySampleApp = () => {
+  const app = express();
+  app.disable('x-powered-by');
+
+  app.get('/', (_req, res) => {
+    res.send(page(`
+      <a href="/login">Login</a>
+      <a href="/error">Error</a>
+      <a href="/go?next=https://evil.example.com/">Partner</a>
+      <a href="/secure">Secure area</a>
+      <a href="mailto:team@example.com">Mail</a>
+      <a href="https://external.example.com/">External</a>
+    `));
+  });
+
+  app.get('/login', (_req, res) => {
+    res.cookie('session', 'abc123');
+    res.send(page(`
+      <form method="post" action="/login"><input name="user"><input type="password" name="password"></form>
+      <form method="get" action="/search"><input name="q"></form>
+    `));
+  });
+
+  app.get('/error', (_req, res) => {
+    res.status(500).send(page(`<pre>TypeError: Cannot read properties of undefined (reading 'id')
+    at getUser (/srv/app/users.js:42:17)
+    at Layer.handle (/srv/app/node_modules/express/lib/router/layer.js:95:5)</pre>`));
+  });
+
+  app.get('/go', (req, res) => {
+    res.redirect(String(req.query['next'] ?? '/'));
+  });
+
+  app.get('/secure', (_req, res) => {
+    res.set(SECURE_HEADERS);
+    res.cookie('prefs', 'dark', { httpOnly: true, sameSite: 'lax' });
+    res.send(page(`
+      <a href="/secure/account">Account</a>
+      <form method="post" action="/secure/account"><input type="hidden" name="csrf_token" value="t0k3n"></form>
+    `));
+  });
+
+  app.get('/secure/account', (_req, res) => {
+    res.set(SECURE_HEADERS);
+    res.send(page('<p>Account</p>'));
+  });
+
+  return app;
+};
+
+export default createSecuritySampleApp;
@@ -0,0 +1,236 @@
+/**
+ * Unit tests for the accessibility tree and AccessibilityLocatorStrategy
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { JSDOM } from 'jsdom';
+import {
+  buildAccessibilityTree,
+  flattenAccessibilityTree,
+  formatGetByRole,
+  formatRoleSelector,
+  parseRoleSelector
+} from '../../src/healing/AccessibilityTree';
+import { LocatorProbe, ProbePage } from '../../src/healing/LocatorProbe';
+import { AccessibilityLocatorStrategy } from '../../src/healing/strategies/AccessibilityLocatorStrategy';
+import { PluginRegistry } from '../../src/core/PluginRegistry';
+import { HealingContext, TestFailure } from '../../src/types';
+
+const LOGIN_PAGE = fs.readFileSync(
+  path.join(__dirname, '../fixtures/healing/login-page.html'),
+  'utf8'
+);
+
+function createFailure(selector: string, domSnapshot?: string): TestFailure {
+  return {
+    id: 'failure-1',
+    testId: 'test-1',
+    type: 'element_not_found',
+    message: `Element not found: ${selector}`,
+    timestamp: new Date(),
+    context: {
+      testConfig: {
+        name: 'login',
+        type: 'e2e',
+        filePath: '/login.spec.ts',
+        timeout: 5000,
+        environment: 'test',
+        parameters: {},
+        engineConfig: { engine: 'playwright', settings: {} },
+        healingConfig: { enabled: true, confidenceThreshold: 0.5, maxAttempts: 3, strategies: [], timeout: 10000 },
+        retryConfig: { maxRetries: 0, delay: 0, backoffMultiplier: 1, maxDelay: 0 }
+      },
+      environment: { os: 'test', nodeVersion: '20.0.0', environment: 'test', availableMemory: 1024, cpuCount: 1 },
+      ...(domSnapshot !== undefined && {
+        browserState: {
+          url: 'https://example.com/login',
+          title: 'Login',
+          viewport: { width: 1280, height: 720 },
+          domSnapshot,
+          consoleLogs: []
+        }
+      }),
+      custom: { selector }
+    },
+    previousAttempts: []
+  };
+}
+
+const healingContext: HealingContext = {
+  availableStrategies: ['accessibility-locator'],
+  previousAttempts: [],
+  systemState: { load: 10, resources: { memory: 0, cpu: 0, disk: 0 }, activeTests: 1, queueLength: 0 },
+  userPreferences: {
+    preferredStrategies: [],
+    riskTolerance: 'medium',
+    notifications: { onHealingAttempt: false, onHealingSuccess: false, onHealingFailure: false }
+  }
+};
+
+describe('AccessibilityTree', () => {
+  it('should compute roles and accessible names for visible elements', () => {
+    const document = new JSDOM(LOGIN_PAGE).window.document;
+    const nodes = flattenAccessibilityTree(buildAccessibilityTree(document))
+      .map(node => `${node.role}:${node.name}`);
+
+    expect(nodes).toEqual([
+      'main:',
+      'textbox:Email',
+      'textbox:Password',
+      'button:Sign in',
+      'button:Cancel',
+      'link:Forgot password?'
+    ]);
+  });
+
+  it('should name elements from aria attributes, wrapping labels and alt text', () => {
+    const document = new JSDOM(`
+      <span id="caption">Search products</span>
+      <input aria-labelledby="caption">
+      <label>Remember me <input type="checkbox"></label>
+      <a href="/home"><img src="logo.png" alt="Home"></a>
+      <div role="button" aria-label="Close dialog">x</div>
+    `).window.document;
+
+    const nodes = flattenAccessibilityTree(buildAccessibilityTree(document))
+      .map(node => `${node.role}:${node.name}`);
+
+    expect(nodes).toEqual([
+      'textbox:Search products',
+      'checkbox:Remember me',
+      'link:Home',
+      'img:Home',
+      'button:Close dialog'
+    ]);
+  });
+
+  it('should format and parse role selectors', () => {
+    const selector = formatRoleSelector('button', 'Say "hi"');
+
+    expect(selector).toBe('role=button[name="Say \\"hi\\""]');
+    expect(parseRoleSelector(selector)).toEqual({ role: 'button', name: 'Say "hi"', substring: false, caseSensitive: false });
+    expect(parseRoleSelector('role=link[name*="forgot" s]')).toMatchObject({ substring: true, caseSensitive: true });
+    expect(parseRoleSelector('#submit')).toBeNull();
+    expect(formatGetByRole('button', "Don't")).toBe("getByRole('button', { name: 'Don\\'t', exact: true })");
+  });
+});
+
+describe('LocatorProbe role selectors', () => {
+  let probe: LocatorProbe;
+
+  beforeEach(() => {
+    probe = new LocatorProbe();
+  });
+
+  afterEach(() => {
+    probe.clearCache();
+  });
+
+  it('should evaluate role selectors against DOM snapshots', () => {
+    expect(probe.probeSnapshot('role=button[name="sign in"]', LOGIN_PAGE)).toMatchObject({ matchCount: 1, unique: true, visible: true });
+    expect(probe.probeSnapshot('role=button[name="sign in" s]', LOGIN_PAGE).matchCount).toBe(0);
+    expect(probe.probeSnapshot('role=button', LOGIN_PAGE).matchCount).toBe(2);
+  });
+
+  it('should read HTML from an attached page before the snapshot', async () => {
+    const page: ProbePage = {
+      locator: jest.fn(),
+      content: jest.fn().mockResolvedValue('<button>Live</button>')
+    };
+    probe.attachPage('test-1', page);
+
+    expect(await probe.getHtml(createFailure('#a', LOGIN_PAGE))).toBe('<button>Live</button>');
+    probe.detachPage('test-1');
+    expect(await probe.getHtml(createFailure('#a', LOGIN_PAGE))).toBe(LOGIN_PAGE);
+    expect(await probe.getHtml(createFailure('#a'))).toBeNull();
+  });
+});
+
+describe('AccessibilityLocatorStrategy', () => {
+  let probe: LocatorProbe;
+  let strategy: AccessibilityLocatorStrategy;
+
+  beforeEach(() => {
+    probe = new LocatorProbe();
+    strategy = new AccessibilityLocatorStrategy({}, probe);
+  });
+
+  afterEach(() => {
+    probe.clearCache();
+  });
+
+  it('should extract roles, texts and words from a selector', () => {
+    expect(strategy.extractIntent('button#signin-btn.primary')).toEqual({
+      roles: ['button'],
+      texts: [],
+      tokens: ['signin', 'primary']
+    });
+    expect(strategy.extractIntent('//a[contains(text(), "Forgot")]')).toMatchObject({ roles: ['link'], texts: ['Forgot'] });
+    expect(strategy.extractIntent('input[placeholder="Email address"][type="email"]')).toMatchObject({
+      roles: expect.arrayContaining(['textbox']),
+      texts: ['Email address']
+    });
+  });
+
+  it('should heal an ID selector to a role and name locator', async () => {
+    const result = await strategy.heal(createFailure('#signin-btn', LOGIN_PAGE), healingContext);
+
+    expect(result.success).toBe(true);
+    const action = result.actions.find(a => a.result === 'success')!;
+    expect(action.type).toBe('update_selector');
+    expect(action.parameters).toMatchObject({
+      originalSelector: '#signin-btn',
+      newSelector: 'role=button[name="Sign in"]',
+      locator: "getByRole('button', { name: 'Sign in', exact: true })",
+      role: 'button',
+      name: 'Sign in'
+    });
+    expect(action.parameters['probe'].unique).toBe(true);
+    expect(result.confidence).toBeGreaterThan(0.8);
+  });
+
+  it('should heal a form field to its label', async () => {
+    const result = await strategy.heal(createFailure('#email-field', LOGIN_PAGE), healingContext);
+
+    expect(result.success).toBe(true);
+    expect(result.actions[0]!.parameters['newSelector']).toBe('role=textbox[name="Email"]');
+  });
+
+  it('should heal text selectors to the matching role', async () => {
+    const result = await strategy.heal(createFailure('a:has-text("Forgot password")', LOGIN_PAGE), healingContext);
+
+    expect(result.success).toBe(true);
+    expect(result.actions[0]!.parameters['newSelector']).toBe('role=link[name="Forgot password?"]');
+  });
+
+  it('should ignore hidden elements and unrelated names', async () => {
+    const hidden = await strategy.heal(createFailure('button:has-text("Hidden action")', LOGIN_PAGE), healingContext);
+    const unrelated = await strategy.heal(createFailure('#checkout-total', LOGIN_PAGE), healingContext);
+
+    expect(hidden.success).toBe(false);
+    expect(unrelated.success).toBe(false);
+  });
+
+  it('should fail without page content', async () => {
+    const result = await strategy.heal(createFailure('#signin-btn'), healingContext);
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('No page content');
+  });
+
+  it('should be more confident for selectors that carry text', async () => {
+    const withText = await strategy.calculateConfidence(createFailure('text=Sign in'), healingContext);
+    const structural = await strategy.calculateConfidence(createFailure('div > div:nth-child(2)'), healingContext);
+
+    expect(withText).toBeGreaterThan(structural);
+  });
+
+  it('should be registrable through the plugin registry', () => {
+    const registry = new PluginRegistry();
+    registry.registerHealingStrategy(strategy);
+
+    expect(registry.getHealingStrategy('accessibility-locator')).toBe(strategy);
+    expect(registry.getHealingStrategiesByFailureType('element_not_found')).toContain(strategy);
+  });
+});
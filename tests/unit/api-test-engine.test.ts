@@ -0,0 +1,231 @@
+/**
+ * Unit tests for the API test engine against the harness's own API
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createApp } from '../../src/api/server';
+import { ApiTestEngine } from '../../src/engines/ApiTestEngine';
+import { HealingSuggestionManager } from '../../src/healing/HealingSuggestionManager';
+import { Storage, createStorage } from '../../src/storage';
+import { HealingConfig, TestConfig } from '../../src/types';
+
+function createConfig(parameters: Record<string, any>, healingConfig: Partial<HealingConfig> = {}): TestConfig {
+  return {
+    name: 'harness-api',
+    type: 'integration',
+    filePath: '',
+    timeout: 30000,
+    environment: 'test',
+    parameters,
+    engineConfig: { engine: 'api', settings: {} },
+    healingConfig: {
+      enabled: true,
+      mode: 'auto-apply',
+      confidenceThreshold: 0.7,
+      maxAttempts: 3,
+      strategies: [],
+      timeout: 1000,
+      ...healingConfig,
+    },
+    retryConfig: { maxRetries: 0, delay: 0, backoffMultiplier: 1, maxDelay: 0 },
+  };
+}
+
+describe('ApiTestEngine', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let engine: ApiTestEngine;
+
+  beforeAll(async () => {
+    const app = createApp({
+      port: 0,
+      host: 'localhost',
+      corsOrigin: '*',
+      rateLimitWindowMs: 900000,
+      rateLimitMax: 1000,
+      enableSwagger: false,
+      enableMetrics: false,
+    });
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    engine = new ApiTestEngine();
+    await engine.initialize({ engine: 'api', settings: { baseUrl, requestTimeout: 10000 } });
+  });
+
+  afterEach(async () => {
+    await engine.cleanup();
+  });
+
+  it('should register as the api integration engine', () => {
+    expect(engine.name).toBe('api');
+    expect(engine.testType).toBe('integration');
+    expect(engine.supportsHealing).toBe(true);
+  });
+
+  it('should chain a captured value into the next request', async () => {
+    const result = await engine.execute(createConfig({
+      data: { testName: 'chained-run' },
+      steps: [
+        {
+          name: 'Start a test run',
+          method: 'POST',
+          url: '/api/v1/tests/execute',
+          body: { name: '${data.testName}', engine: 'hello-world', config: {}, options: { healing: false } },
+          expect: {
+            status: 202,
+            headers: { 'Content-Type': 'application/json' },
+            json: [
+              { path: '$.success', equals: true },
+              { path: '$.data.testId', matches: '^test_chained_run_' },
+            ],
+            schema: {
+              type: 'object',
+              required: ['data'],
+              properties: { data: { type: 'object', required: ['testId', 'status'] } },
+            },
+          },
+          capture: { as: 'runId', path: '$.data.testId' },
+        },
+        {
+          name: 'Read its status',
+          url: '/api/v1/tests/${vars.runId}/status',
+          expect: { json: [{ path: '$.data.testId', equals: '${vars.runId}' }] },
+        },
+      ],
+    }));
+
+    expect(result.status).toBe('passed');
+    expect(result.errors).toEqual([]);
+    expect(result.metrics.networkRequests).toBe(2);
+    expect(result.metrics.custom).toMatchObject({ totalSteps: 2, passedSteps: 2, failedSteps: 0, healedAssertions: 0 });
+    expect(result.output).toMatch(/✓ Start a test run: POST http:\/\/127\.0\.0\.1:\d+\/api\/v1\/tests\/execute → 202 \(\d+ms\)/);
+    expect(result.output).toMatch(/Captured: vars\.runId = "test_chained_run_/);
+    expect(result.output).toContain('Steps: 2 passed, 0 failed, 0 not run, 2 total');
+  });
+
+  it('should fail a step whose response breaks its schema and skip the rest', async () => {
+    const result = await engine.execute(createConfig({
+      steps: [
+        {
+          url: '/health',
+          expect: {
+            schema: {
+              type: 'object',
+              required: ['status', 'checks'],
+              properties: { status: { const: 'healthy' }, uptime: { type: 'string' } },
+            },
+          },
+        },
+        { url: '/api/status' },
+      ],
+    }));
+
+    expect(result.status).toBe('failed');
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      type: 'assertion_failed',
+      message: 'Step "GET /health": Response does not match the schema: ' +
+        '$ is missing required property checks; $.uptime should be string, got number',
+      context: { step: 'GET /health', method: 'GET', status: 200 },
+    });
+    expect(result.errors[0]!.context!['violations']).toHaveLength(2);
+    expect(result.output).toContain('Steps: 0 passed, 1 failed, 1 not run, 2 total');
+  });
+
+  it('should check statuses and report unreachable servers', async () => {
+    const missing = await engine.execute(createConfig({ steps: [{ url: '/api/v1/tests/nothing-here/status' }] }));
+    const unreachable = await engine.execute(createConfig({
+      baseUrl: 'http://127.0.0.1:1',
+      steps: [{ url: '/health' }],
+    }));
+
+    expect(missing.errors[0]!.message).toContain('Expected status below 400, got 404');
+    expect(unreachable.status).toBe('failed');
+    expect(unreachable.errors[0]!.type).toBe('network_error');
+    expect(unreachable.metrics.networkRequests).toBe(1);
+  });
+
+  it('should heal an assertion on a renamed field and reuse the healed path', async () => {
+    const result = await engine.execute(createConfig({
+      steps: [
+        { url: '/health', expect: { json: [{ path: '$.state', equals: 'healthy' }] } },
+        { url: '/health', expect: { json: [{ path: '$.state', type: 'string' }] } },
+      ],
+    }));
+
+    expect(result.status).toBe('passed');
+    expect(result.healingAttempts).toHaveLength(1);
+    expect(result.healingAttempts[0]!.strategy).toBe('field-rename');
+    expect(result.healingAttempts[0]!.result.metadata?.['assertionPatch']).toEqual({ originalPath: '$.state', healedPath: '$.status' });
+    expect(result.metrics.custom?.['healedAssertions']).toBe(1);
+    expect(result.output).toMatch(/Healed: \$\.state -> \$\.status \(field-rename, \d+\.\d% confidence\)/);
+  });
+
+  it('should heal a capture whose field moved into a nested object', async () => {
+    const result = await engine.execute(createConfig({
+      steps: [
+        {
+          url: '/api/status',
+          expect: { json: [{ path: '$.selfHealing', equals: 'available' }] },
+          capture: { as: 'healing', path: '$.selfHealing' },
+        },
+      ],
+    }));
+
+    expect(result.status).toBe('passed');
+    expect(result.healingAttempts[0]!.strategy).toBe('moved-path');
+    expect(result.output).toContain('Healed: $.selfHealing -> $.features.selfHealing');
+    expect(result.output).toContain('Captured: vars.healing = "available"');
+  });
+
+  it('should only suggest new paths in suggest mode and queue them for review', async () => {
+    const storage: Storage = createStorage();
+    const result = await engine.execute(createConfig(
+      { steps: [{ url: '/health', expect: { json: [{ path: '$.state', equals: 'healthy' }] } }] },
+      { mode: 'suggest' }
+    ));
+
+    expect(result.status).toBe('failed');
+    expect(result.errors[0]).toMatchObject({
+      type: 'assertion_failed',
+      message: 'Step "GET /health": $.state matched nothing',
+      context: { jsonPath: '$.state' },
+    });
+    expect(result.healingAttempts).toHaveLength(1);
+    expect(result.healingAttempts[0]!.result.applied).toBe(false);
+
+    const records = await new HealingSuggestionManager(storage.healingAttempts).recordFromResult(result);
+    expect(records).toHaveLength(1);
+    expect(records[0]!.changes).toEqual({ before: '$.state', after: '$.status', type: 'assertion' });
+    storage.close();
+  });
+
+  it('should not heal when healing is disabled', async () => {
+    const result = await engine.execute(createConfig(
+      { steps: [{ url: '/health', expect: { json: [{ path: '$.state', equals: 'healthy' }] } }] },
+      { enabled: false }
+    ));
+
+    expect(result.status).toBe('failed');
+    expect(result.healingAttempts).toEqual([]);
+  });
+
+  it('should report invalid steps as configuration errors', async () => {
+    const noSteps = await engine.execute(createConfig({ steps: [] }));
+    const unknownVariable = await engine.execute(createConfig({ steps: [{ url: '/api/${vars.missing}' }] }));
+
+    expect(noSteps.errors[0]).toMatchObject({ type: 'configuration_error', message: 'API test has no steps' });
+    expect(unknownVariable.status).toBe('failed');
+    expect(unknownVariable.errors[0]!.type).toBe('configuration_error');
+    expect(unknownVariable.metrics.networkRequests).toBe(0);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Unit tests for the browser context pool
+ */
+
+import { BrowserContextPool, BrowserContextPoolClosedError } from '../../src/engines/BrowserContextPool';
+
+interface FakePage {
+  closed: boolean;
+  handlers: Record<string, () => void>;
+  on: jest.Mock;
+  evaluate: jest.Mock;
+  close: jest.Mock;
+}
+
+function createFakeContext(options: object) {
+  const pages: FakePage[] = [];
+  return {
+    options,
+    created: pages,
+    pages: () => pages.filter(page => !page.closed),
+    newPage: jest.fn(async () => {
+      const page: FakePage = {
+        closed: false,
+        handlers: {},
+        on: jest.fn((event: string, handler: () => void) => { page.handlers[event] = handler; }),
+        evaluate: jest.fn(),
+        close: jest.fn(async () => { page.closed = true; }),
+      };
+      pages.push(page);
+      return page;
+    }),
+    clearCookies: jest.fn(),
+    clearPermissions: jest.fn(),
+    serviceWorkers: jest.fn(() => [] as object[]),
+    storageState: jest.fn(async () => ({ cookies: [], origins: [] as object[] })),
+    on: jest.fn(),
+    close: jest.fn(),
+  };
+}
+
+function createFakeBrowser() {
+  const handlers: Record<string, () => void> = {};
+  const contexts: Array<ReturnType<typeof createFakeContext>> = [];
+  return {
+    contexts,
+    disconnect: () => handlers['disconnected']!(),
+    on: jest.fn((event: string, handler: () => void) => { handlers[event] = handler; }),
+    newContext: jest.fn(async (options: object) => {
+      const context = createFakeContext(options);
+      contexts.push(context);
+      return context;
+    }),
+    close: jest.fn(),
+  };
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('BrowserContextPool', () => {
+  let browsers: Array<ReturnType<typeof createFakeBrowser>>;
+  let launch: jest.Mock;
+
+  function createPool(size: number, maxUses: number = 10): BrowserContextPool {
+    return new BrowserContextPool({ size, maxUses, launch });
+  }
+
+  beforeEach(() => {
+    browsers = [];
+    launch = jest.fn(async () => {
+      const browser = createFakeBrowser();
+      browsers.push(browser);
+      return browser;
+    });
+  });
+
+  it('should reuse a reset context for leases with the same options', async () => {
+    const pool = createPool(2);
+
+    const first = await pool.acquire('chromium', { locale: 'en-US' });
+    await first.release();
+    const second = await pool.acquire('chromium', { locale: 'en-US' });
+
+    const [browser] = browsers;
+    expect(launch).toHaveBeenCalledTimes(1);
+    expect(browser!.newContext).toHaveBeenCalledTimes(1);
+    expect(second.context).toBe(first.context);
+    expect(second.page).not.toBe(first.page);
+
+    const [context] = browser!.contexts;
+    expect(context!.created[0]!.evaluate).toHaveBeenCalled();
+    expect(context!.created[0]!.closed).toBe(true);
+    expect(context!.clearCookies).toHaveBeenCalled();
+    expect(context!.clearPermissions).toHaveBeenCalled();
+  });
+
+  it('should wait for a free context when every context is leased', async () => {
+    const pool = createPool(2);
+
+    const first = await pool.acquire('chromium');
+    await pool.acquire('chromium', { locale: 'de-DE' });
+    let third: unknown;
+    void pool.acquire('chromium').then(lease => { third = lease; });
+    await flush();
+
+    expect(third).toBeUndefined();
+    expect(pool.getStats()).toMatchObject({ size: 2, open: 2, leased: 2, waiting: 1 });
+
+    await first.release();
+    await flush();
+
+    expect(third).toBeDefined();
+    expect(browsers[0]!.newContext).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replace an idle context with other options when the pool is full', async () => {
+    const pool = createPool(1);
+
+    const desktop = await pool.acquire('chromium');
+    await desktop.release();
+    const mobile = await pool.acquire('webkit', { isMobile: true });
+
+    expect(mobile.context).not.toBe(desktop.context);
+    expect(browsers[0]!.contexts[0]!.close).toHaveBeenCalled();
+    expect(pool.getStats()).toMatchObject({ open: 1, browsers: ['chromium', 'webkit'], created: 2, recycled: 1 });
+  });
+
+  it('should close contexts after their maximum number of uses', async () => {
+    const pool = createPool(1, 2);
+
+    const first = await pool.acquire('chromium');
+    await first.release();
+    const second = await pool.acquire('chromium');
+    await second.release();
+    const third = await pool.acquire('chromium');
+
+    expect(second.context).toBe(first.context);
+    expect(third.context).not.toBe(first.context);
+    expect(browsers[0]!.contexts[0]!.close).toHaveBeenCalled();
+  });
+
+  it('should close contexts left with state that is not cleared', async () => {
+    const pool = createPool(1);
+
+    const first = await pool.acquire('chromium');
+    first.page.evaluate = jest.fn(async () => true) as any;
+    await first.release();
+    const second = await pool.acquire('chromium');
+    browsers[0]!.contexts[1]!.storageState.mockResolvedValueOnce({
+      cookies: [],
+      origins: [{ origin: 'https://auth.example.com', localStorage: [{ name: 'token', value: 'x' }] }],
+    });
+    await second.release();
+    const third = await pool.acquire('chromium');
+    browsers[0]!.contexts[2]!.serviceWorkers.mockReturnValueOnce([{}]);
+    await third.release();
+    const fourth = await pool.acquire('chromium');
+
+    expect(second.context).not.toBe(first.context);
+    expect(third.context).not.toBe(second.context);
+    expect(fourth.context).not.toBe(third.context);
+    expect(browsers[0]!.contexts[1]!.storageState).toHaveBeenCalledWith({ indexedDB: true });
+    expect(pool.getStats()).toMatchObject({ created: 4, recycled: 3 });
+  });
+
+  it('should close contexts whose page crashed', async () => {
+    const pool = createPool(1);
+
+    const first = await pool.acquire('chromium');
+    browsers[0]!.contexts[0]!.created[0]!.handlers['crash']!();
+    await first.release();
+    const second = await pool.acquire('chromium');
+
+    expect(second.context).not.toBe(first.context);
+    expect(browsers[0]!.contexts[0]!.clearCookies).not.toHaveBeenCalled();
+  });
+
+  it('should relaunch a browser that disconnected', async () => {
+    const pool = createPool(2);
+
+    const first = await pool.acquire('chromium');
+    await first.release();
+    browsers[0]!.disconnect();
+    const second = await pool.acquire('chromium');
+
+    expect(launch).toHaveBeenCalledTimes(2);
+    expect(second.context).toBe(browsers[1]!.contexts[0]);
+  });
+
+  it('should free the slot when a context cannot be created', async () => {
+    const pool = createPool(1);
+    launch.mockRejectedValueOnce(new Error('Executable does not exist'));
+
+    await expect(pool.acquire('firefox')).rejects.toThrow('Executable does not exist');
+    await expect(pool.acquire('firefox')).resolves.toBeDefined();
+  });
+
+  it('should fail waiting and later leases once closed', async () => {
+    const pool = createPool(1);
+
+    await pool.acquire('chromium');
+    const waiting = pool.acquire('chromium');
+    await flush();
+    await pool.close();
+
+    await expect(waiting).rejects.toThrow(BrowserContextPoolClosedError);
+    await expect(pool.acquire('chromium')).rejects.toThrow('Browser context pool is closed');
+    expect(browsers[0]!.contexts[0]!.close).toHaveBeenCalled();
+    expect(browsers[0]!.close).toHaveBeenCalled();
+  });
+});
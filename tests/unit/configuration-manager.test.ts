@@ -162,6 +162,27 @@ api:
     });
   });
 
+  describe('getHealingMode', () => {
+    it('should prefer the environment override over the loaded mode', async () => {
+      mockedFs.existsSync.mockImplementation((filePath: any) => filePath.includes('default.yaml'));
+      mockedFs.readFileSync.mockReturnValue(`
+healing:
+  mode: "auto-apply"
+environments:
+  production:
+    name: "production"
+    description: "Production"
+    overrides:
+      healing:
+        mode: "suggest"
+`);
+      await configManager.loadConfig();
+
+      expect(configManager.getHealingMode()).toBe('auto-apply');
+      expect(configManager.getHealingMode('production')).toBe('suggest');
+    });
+  });
+
   describe('setEnvironment', () => {
     it('should change environment', () => {
       configManager.setEnvironment('production');
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for the contract drift healing strategies
+ */
+
+import { FieldRenameStrategy } from '../../src/healing/strategies/FieldRenameStrategy';
+import { MovedPathStrategy } from '../../src/healing/strategies/MovedPathStrategy';
+import { findAssertionAction, getAssertionDrift, nameSimilarity } from '../../src/healing/ContractDrift';
+import { HealingContext, TestFailure } from '../../src/types';
+
+function createFailure(jsonPath: string, responseBody: unknown, assertion: Record<string, unknown> = {}): TestFailure {
+  return {
+    id: 'failure-1',
+    testId: 'test-1',
+    type: 'assertion_failed',
+    message: `${jsonPath} matched nothing`,
+    timestamp: new Date(),
+    context: {
+      testConfig: {} as any,
+      environment: { os: 'linux', nodeVersion: 'v20', environment: 'test', availableMemory: 1024, cpuCount: 1 },
+      custom: { jsonPath, responseBody, assertion },
+    },
+    previousAttempts: [],
+  };
+}
+
+const context: HealingContext = {
+  availableStrategies: [],
+  previousAttempts: [],
+  systemState: {
+    load: 3,
+    resources: { memory: 0, cpu: 0, disk: 0 },
+    activeTests: 1,
+    queueLength: 0,
+  },
+  userPreferences: {
+    preferredStrategies: [],
+    riskTolerance: 'medium',
+    notifications: { onHealingAttempt: false, onHealingSuccess: false, onHealingFailure: false },
+  },
+};
+
+describe('Contract drift helpers', () => {
+  it('should treat names differing in case and separators as the same', () => {
+    expect(nameSimilarity('userName', 'user_name')).toBe(1);
+    expect(nameSimilarity('total-count', 'TotalCount')).toBe(1);
+    expect(nameSimilarity('createdAt', 'createdDate')).toBeGreaterThan(0.5);
+    expect(nameSimilarity('price', 'owner')).toBeLessThan(0.5);
+  });
+
+  it('should only read failures carrying a JSONPath and a response body', () => {
+    expect(getAssertionDrift(createFailure('$.user.name', { user: {} }))?.segments).toHaveLength(2);
+    expect(getAssertionDrift({ ...createFailure('$.a', {}), context: { ...createFailure('$.a', {}).context, custom: { selector: '#a' } } }))
+      .toBeUndefined();
+    expect(getAssertionDrift(createFailure('not a path', {}))).toBeUndefined();
+  });
+});
+
+describe('FieldRenameStrategy', () => {
+  let strategy: FieldRenameStrategy;
+
+  beforeEach(() => {
+    strategy = new FieldRenameStrategy();
+  });
+
+  it('should follow a member renamed to another naming convention', async () => {
+    const failure = createFailure('$.user.userName', { user: { user_name: 'ada', id: 7 } }, { equals: 'ada' });
+
+    const result = await strategy.heal(failure, context);
+
+    expect(result.success).toBe(true);
+    expect(result.confidence).toBeGreaterThan(0.9);
+    expect(findAssertionAction(result.actions)).toEqual({ originalPath: '$.user.userName', healedPath: '$.user.user_name' });
+    expect(result.actions[0]!.type).toBe('update_assertion');
+  });
+
+  it('should rename an intermediate member and keep the rest of the path', async () => {
+    const failure = createFailure('$.orders[*].lineItems[0].sku', {
+      orders: [{ line_items: [{ sku: 'A-1' }] }, { line_items: [{ sku: 'B-2' }] }],
+    });
+
+    const result = await strategy.heal(failure, context);
+
+    expect(findAssertionAction(result.actions)?.healedPath).toBe('$.orders[*].line_items[0].sku');
+  });
+
+  it('should pick a dissimilar name only when its value satisfies the assertion', async () => {
+    const body = { phase: 'active', owner: 'ada' };
+
+    const matching = await strategy.heal(createFailure('$.status', body, { equals: 'active' }), context);
+    const untyped = await strategy.heal(createFailure('$.status', body, { type: 'number' }), context);
+
+    expect(findAssertionAction(matching.actions)?.healedPath).toBe('$.phase');
+    expect(untyped.success).toBe(false);
+  });
+
+  it('should not heal failures of other tests', () => {
+    expect(strategy.canHeal({ ...createFailure('$.a', {}), type: 'element_not_found' })).toBe(false);
+    expect(strategy.canHeal({ ...createFailure('$.a', {}), context: { ...createFailure('$.a', {}).context, custom: {} } })).toBe(false);
+  });
+});
+
+describe('MovedPathStrategy', () => {
+  let strategy: MovedPathStrategy;
+
+  beforeEach(() => {
+    strategy = new MovedPathStrategy();
+  });
+
+  it('should find a member wrapped into a new object', async () => {
+    const failure = createFailure('$.total', { data: { total: 3, items: [] }, meta: { page: 1 } }, { equals: 3 });
+
+    const result = await strategy.heal(failure, context);
+
+    expect(result.success).toBe(true);
+    expect(findAssertionAction(result.actions)?.healedPath).toBe('$.data.total');
+  });
+
+  it('should prefer the location keeping most of the original path', async () => {
+    const failure = createFailure('$.user.email', {
+      user: { contact: { email: 'ada@example.com' } },
+      manager: { email: 'grace@example.com' },
+    }, { type: 'string' });
+
+    const result = await strategy.heal(failure, context);
+
+    expect(findAssertionAction(result.actions)?.healedPath).toBe('$.user.contact.email');
+  });
+
+  it('should keep reading every item when the path had a wildcard', async () => {
+    const failure = createFailure('$.items[*].id', { data: { items: [{ id: 1 }, { id: 2 }] } });
+
+    const result = await strategy.heal(failure, context);
+
+    expect(findAssertionAction(result.actions)?.healedPath).toBe('$.data.items[*].id');
+  });
+
+  it('should fail when the member is nowhere in the response', async () => {
+    const result = await strategy.heal(createFailure('$.total', { data: { count: 3 } }), context);
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('No other location found for $.total');
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Unit tests for flaky test detection and quarantine
+ */
+
+import {
+  FlakyTestTracker,
+  analyzeTestHistory,
+  getRunOutcome,
+  getTestName
+} from '../../src/core/FlakyTests';
+import { Storage, createStorage } from '../../src/storage';
+import { TestExecutionInfo, TestResult, TestStatus } from '../../src/types';
+
+let sequence = 0;
+
+function createRun(
+  status: TestStatus,
+  execution: Partial<TestExecutionInfo> = {},
+  overrides: Partial<TestResult> = {}
+): TestResult {
+  sequence++;
+  return {
+    id: `run-${sequence}`,
+    name: 'checkout',
+    status,
+    startTime: new Date(Date.UTC(2026, 0, 1, 0, sequence)),
+    output: '',
+    errors: [],
+    metrics: { memoryUsage: 0, cpuUsage: 0, networkRequests: 0, custom: {} },
+    healingAttempts: [],
+    artifacts: [],
+    execution: { testName: 'checkout', engine: 'playwright', environment: 'ci', attempts: 1, ...execution },
+    ...overrides,
+  };
+}
+
+function createHealedRun(execution: Partial<TestExecutionInfo> = {}): TestResult {
+  return createRun('passed', execution, {
+    healingAttempts: [{
+      id: 'heal-1',
+      attemptNumber: 1,
+      strategy: 'css-fallback',
+      result: { id: 'heal-1', success: true, actions: [], confidence: 0.9, duration: 5, message: 'Healed', metadata: {} },
+      timestamp: new Date(),
+      failure: {} as any,
+    }],
+  });
+}
+
+describe('Flaky test analysis', () => {
+  it('should tell healed runs apart from runs passing on retry', () => {
+    expect(getRunOutcome(createRun('passed'))).toBe('passed');
+    expect(getRunOutcome(createHealedRun())).toBe('healed');
+    expect(getRunOutcome(createRun('passed', { attempts: 2 }))).toBe('passed-on-retry');
+    expect(getRunOutcome(createHealedRun({ attempts: 2 }))).toBe('healed-on-retry');
+    expect(getRunOutcome(createRun('timeout'))).toBe('failed');
+    expect(getTestName(createRun('passed', { testName: 'checkout' }, { name: 'checkout [webkit]' }))).toBe('checkout');
+  });
+
+  it('should score how often a test flips between passing and failing', () => {
+    const report = analyzeTestHistory('checkout', [
+      createRun('passed'),
+      createRun('failed'),
+      createRun('passed'),
+      createRun('passed'),
+      createRun('failed'),
+      createRun('passed'),
+    ]);
+
+    expect(report).toMatchObject({
+      status: 'flaky',
+      flakinessScore: 0.8,
+      flipRate: 0.8,
+      runs: 6,
+      passed: 4,
+      failed: 2,
+      lastOutcome: 'passed',
+      summary: 'flaky: 2 of 6 runs failed or passed on retry',
+    });
+  });
+
+  it('should count passes on retry as flakes but not healed passes', () => {
+    const retried = analyzeTestHistory('checkout', [1, 2, 3, 4, 5].map(attempt =>
+      createRun('passed', { attempts: attempt % 2 === 0 ? 2 : 1 })
+    ));
+    const healed = analyzeTestHistory('checkout', [
+      createRun('passed'),
+      createHealedRun(),
+      createHealedRun(),
+      createRun('passed'),
+      createHealedRun(),
+    ]);
+
+    expect(retried).toMatchObject({ status: 'flaky', flakinessScore: 0.333, flipRate: 0, passedOnRetry: 2 });
+    expect(healed).toMatchObject({ status: 'stable', flakinessScore: 0, healed: 3, passedOnRetry: 0 });
+    expect(healed!.summary).toBe('stable over 5 runs');
+  });
+
+  it('should count runs healed on retry separately, as flakes', () => {
+    const report = analyzeTestHistory('checkout', [
+      createRun('passed'),
+      createHealedRun({ attempts: 2 }),
+      createRun('passed', { attempts: 2 }),
+      createRun('passed'),
+      createRun('passed'),
+    ]);
+
+    expect(report).toMatchObject({
+      status: 'flaky',
+      flakinessScore: 0.333,
+      passed: 3,
+      healed: 0,
+      passedOnRetry: 1,
+      healedOnRetry: 1,
+      summary: 'flaky: 2 of 5 runs failed or passed on retry',
+    });
+  });
+
+  it('should classify consistent failures and short histories', () => {
+    const failing = analyzeTestHistory('checkout', [
+      ...Array.from({ length: 9 }, () => createRun('passed')),
+      createRun('failed'),
+      createRun('failed'),
+    ]);
+    const young = analyzeTestHistory('checkout', [createRun('failed'), createRun('passed')]);
+
+    expect(failing).toMatchObject({ status: 'failing', flakinessScore: 0.1 });
+    expect(failing!.summary).toBe('fails consistently: the last 2 run(s) failed');
+    expect(young).toMatchObject({ status: 'insufficient-history', summary: '2 of 5 runs needed for analysis' });
+    expect(analyzeTestHistory('checkout', [createRun('running')])).toBeNull();
+  });
+
+  it('should point at the browser the flakes concentrate on', () => {
+    const runs: TestResult[] = [];
+    for (let i = 0; i < 5; i++) {
+      runs.push(createRun('passed', { browser: 'chromium' }));
+      runs.push(createRun(i === 2 ? 'passed' : 'failed', { browser: 'webkit' }));
+    }
+
+    const report = analyzeTestHistory('checkout', runs)!;
+
+    expect(report.correlations).toEqual([
+      { dimension: 'browser', value: 'chromium', runs: 5, flakes: 0, flakeRate: 0, otherFlakeRate: 0.8, suspect: false },
+      { dimension: 'browser', value: 'webkit', runs: 5, flakes: 4, flakeRate: 0.8, otherFlakeRate: 0, suspect: true },
+    ]);
+    expect(report.summary).toBe('flakes concentrate on browser webkit (4/5 runs)');
+  });
+
+  it('should only analyze the most recent runs', () => {
+    const report = analyzeTestHistory('checkout', [
+      createRun('failed'),
+      createRun('passed'),
+      ...Array.from({ length: 5 }, () => createRun('passed')),
+    ], { historySize: 5, minRuns: 5, flakyThreshold: 0.2 });
+
+    expect(report).toMatchObject({ runs: 5, failed: 0, status: 'stable' });
+  });
+});
+
+describe('FlakyTestTracker', () => {
+  let storage: Storage;
+  let tracker: FlakyTestTracker;
+
+  beforeEach(async () => {
+    storage = createStorage();
+    tracker = new FlakyTestTracker(storage.testResults, storage.quarantine);
+
+    for (const status of ['passed', 'failed', 'passed', 'failed', 'passed'] as TestStatus[]) {
+      await storage.testResults.save(createRun(status));
+    }
+    for (let i = 0; i < 5; i++) {
+      await storage.testResults.save(createRun('passed', { testName: 'checkout-summary' }, { name: 'checkout-summary' }));
+    }
+  });
+
+  afterEach(() => {
+    storage.close();
+  });
+
+  it('should rank tests by flakiness', async () => {
+    const reports = await tracker.analyze();
+
+    expect(reports.map(report => [report.testName, report.status])).toEqual([
+      ['checkout', 'flaky'],
+      ['checkout-summary', 'stable'],
+    ]);
+  });
+
+  it('should analyze one test with its history', async () => {
+    const report = await tracker.analyzeTest('checkout');
+
+    expect(report!.runs).toBe(5);
+    expect(report!.history!.map(run => run.outcome)).toEqual(['passed', 'failed', 'passed', 'failed', 'passed']);
+    expect(await tracker.analyzeTest('missing')).toBeNull();
+  });
+
+  it('should quarantine a test with its current score until released', async () => {
+    const entry = await tracker.quarantineTest('checkout', { reason: 'Flaky on CI', quarantinedBy: 'ada' });
+
+    expect(entry).toMatchObject({ testName: 'checkout', reason: 'Flaky on CI', quarantinedBy: 'ada', flakinessScore: 1 });
+    expect(await tracker.isQuarantined('checkout')).toBe(true);
+    expect(await tracker.isQuarantined('checkout-summary')).toBe(false);
+    expect((await tracker.analyze())[0]!.quarantine?.reason).toBe('Flaky on CI');
+
+    expect(await tracker.release('checkout')).toBe(true);
+    expect(await tracker.release('checkout')).toBe(false);
+    expect(await tracker.listQuarantine()).toEqual([]);
+  });
+
+  it('should ignore expired quarantines', async () => {
+    const expiresAt = new Date(Date.now() + 60000);
+    await tracker.quarantineTest('checkout', { expiresAt });
+
+    expect(await tracker.isQuarantined('checkout')).toBe(true);
+    expect(await tracker.isQuarantined('checkout', new Date(expiresAt.getTime() + 1))).toBe(false);
+    expect(await tracker.listQuarantine(new Date(expiresAt.getTime() + 1))).toEqual([]);
+  });
+});
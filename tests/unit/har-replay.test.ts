@@ -0,0 +1,128 @@
+/**
+ * Unit tests for HAR replay
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import { HarEntry, HarReplayer, ReplayedRequest } from '../../src/engines/HarReplay';
+
+function entry(method: string, url: string, body: string, extra: Partial<HarEntry['request']> = {}): HarEntry {
+  return {
+    request: { method, url, headers: [], ...extra },
+    response: {
+      status: 200,
+      headers: [
+        { name: 'Content-Type', value: 'application/json' },
+        { name: 'Content-Encoding', value: 'gzip' },
+        { name: 'Set-Cookie', value: 'a=1' },
+        { name: 'Set-Cookie', value: 'b=2' }
+      ],
+      content: { text: body }
+    }
+  };
+}
+
+function request(method: string, url: string, postData: string | null = null, headers: Record<string, string> = {}): ReplayedRequest {
+  return { method, url, headers, postData };
+}
+
+function createRoute(method: string, url: string) {
+  return {
+    request: () => ({ method: () => method, url: () => url, headers: () => ({}), postData: () => null }),
+    fulfill: jest.fn(),
+    abort: jest.fn()
+  };
+}
+
+describe('HarReplayer', () => {
+  it('should match requests on method, URL and body', () => {
+    const replayer = new HarReplayer([
+      entry('GET', 'http://localhost/api/cart?b=2&a=1#top', '{"items":[]}'),
+      entry('POST', 'http://localhost/api/orders', '{"id":1}', { postData: { text: '{"sku":"A"}' } })
+    ]);
+
+    expect(replayer.match(request('GET', 'http://localhost/api/cart?a=1&b=2'))?.response.content?.text).toBe('{"items":[]}');
+    expect(replayer.match(request('POST', 'http://localhost/api/orders', '{"sku":"A"}'))).not.toBeNull();
+    expect(replayer.match(request('POST', 'http://localhost/api/orders', '{"sku":"B"}'))).toBeNull();
+    expect(replayer.match(request('DELETE', 'http://localhost/api/orders'))).toBeNull();
+  });
+
+  it('should apply ignored query parameters, body and header rules', () => {
+    const replayer = new HarReplayer([
+      entry('POST', 'http://localhost/api/search?ts=1', '[]', {
+        postData: { text: '{"q":"shoes","requestId":"r1"}' },
+        headers: [{ name: 'Accept-Language', value: 'de-DE' }]
+      })
+    ], { ignoreQueryParams: ['ts'], matchBody: false, matchHeaders: ['accept-language'] });
+
+    expect(replayer.match(request('POST', 'http://localhost/api/search?ts=2', '{"q":"shoes","requestId":"r2"}', {
+      'accept-language': 'de-DE'
+    }))).not.toBeNull();
+    expect(replayer.match(request('POST', 'http://localhost/api/search', null, { 'accept-language': 'en-US' }))).toBeNull();
+  });
+
+  it('should serve repeated requests in recorded order and repeat the last response', () => {
+    const replayer = new HarReplayer([
+      entry('GET', 'http://localhost/api/status', '"pending"'),
+      entry('GET', 'http://localhost/api/status', '"done"')
+    ]);
+
+    const bodies = [1, 2, 3].map(() => replayer.match(request('GET', 'http://localhost/api/status'))?.response.content?.text);
+
+    expect(bodies).toEqual(['"pending"', '"done"', '"done"']);
+  });
+
+  it('should fulfill routed requests and abort unmatched ones', async () => {
+    const replayer = new HarReplayer([entry('GET', 'http://localhost/api/cart', '{"items":[]}')], { urls: ['**/api/**'] });
+    const handlers: Array<(route: unknown) => Promise<void>> = [];
+    const page = { route: jest.fn(async (_url: string, handler: (route: unknown) => Promise<void>) => { handlers.push(handler); }) };
+    await replayer.install(page as any);
+
+    const cart = createRoute('GET', 'http://localhost/api/cart');
+    const orders = createRoute('GET', 'http://localhost/api/orders');
+    await handlers[0]!(cart);
+    await handlers[0]!(orders);
+
+    expect(page.route).toHaveBeenCalledWith('**/api/**', expect.any(Function));
+    expect(cart.fulfill).toHaveBeenCalledWith({
+      status: 200,
+      headers: { 'content-type': 'application/json', 'set-cookie': 'a=1\nb=2' },
+      body: '{"items":[]}'
+    });
+    expect(orders.abort).toHaveBeenCalledWith('failed');
+    expect(replayer.unmatched).toEqual(['GET http://localhost/api/orders']);
+  });
+
+  it('should decode base64 bodies and fail requests that failed while recording', async () => {
+    const image = entry('GET', 'http://localhost/logo.png', Buffer.from('png').toString('base64'));
+    image.response.content!.encoding = 'base64';
+    const failed = entry('GET', 'http://localhost/api/flaky', '');
+    failed.response.status = -1;
+    const replayer = new HarReplayer([image, failed]);
+    const handlers: Array<(route: unknown) => Promise<void>> = [];
+    await replayer.install({ route: async (_url: string, handler: (route: unknown) => Promise<void>) => { handlers.push(handler); } } as any);
+
+    const logo = createRoute('GET', 'http://localhost/logo.png');
+    const flaky = createRoute('GET', 'http://localhost/api/flaky');
+    await handlers[0]!(logo);
+    await handlers[0]!(flaky);
+
+    expect(logo.fulfill.mock.calls[0][0].body).toEqual(Buffer.from('png'));
+    expect(flaky.abort).toHaveBeenCalled();
+    expect(replayer.unmatched).toEqual([]);
+  });
+
+  it('should reject files that are not HAR files', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'har-replay-'));
+    try {
+      const harPath = path.join(dir, 'empty.har');
+      fs.writeFileSync(harPath, '{}');
+
+      await expect(HarReplayer.load(harPath)).rejects.toThrow(`Cannot replay HAR file ${harPath}: it has no log entries`);
+      await expect(HarReplayer.load(path.join(dir, 'missing.har'))).rejects.toThrow('Cannot replay HAR file');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
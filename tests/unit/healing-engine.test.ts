@@ -57,7 +57,7 @@ describe('HealingEngine', () => {
     });
 
     it('should register multiple strategies', () => {
-      const strategy2 = new IDFallbackStrategy({}, 0); // No delay for tests
+      const strategy2 = new IDFallbackStrategy();
       healingEngine.registerStrategy(mockStrategy);
       healingEngine.registerStrategy(strategy2);
       
@@ -194,6 +194,67 @@ describe('HealingEngine', () => {
       expect(result.success).toBe(false);
     });
 
+    it('should apply heals that reach the test confidence threshold', async () => {
+      testFailure.context!.testConfig!.healingConfig.confidenceThreshold = 0;
+
+      const result = await healingEngine.heal(testFailure, healingContext);
+
+      expect(result.success).toBe(true);
+      expect(result.applied).toBe(true);
+      expect(result.metadata['healingMode']).toBe('auto-apply-above-threshold');
+    });
+
+    it('should suggest heals below the test confidence threshold', async () => {
+      testFailure.context!.testConfig!.healingConfig.confidenceThreshold = 1;
+
+      const result = await healingEngine.heal(testFailure, healingContext);
+
+      expect(result.success).toBe(true);
+      expect(result.applied).toBe(false);
+    });
+
+    it('should only suggest heals in suggest mode', async () => {
+      const suggestingEngine = new HealingEngine({ mode: 'suggest' });
+      suggestingEngine.registerStrategy(mockStrategy);
+
+      const result = await suggestingEngine.heal(testFailure, healingContext);
+
+      expect(result.success).toBe(true);
+      expect(result.applied).toBe(false);
+      expect(result.metadata).toMatchObject({ healingMode: 'suggest', failureType: 'element_not_found', site: '' });
+    });
+
+    it('should let the test override the engine mode', async () => {
+      const suggestingEngine = new HealingEngine({ mode: 'suggest' });
+      suggestingEngine.registerStrategy(mockStrategy);
+      testFailure.context!.testConfig!.healingConfig.mode = 'auto-apply';
+      testFailure.context!.testConfig!.healingConfig.confidenceThreshold = 1;
+
+      const result = await suggestingEngine.heal(testFailure, healingContext);
+
+      expect(result.applied).toBe(true);
+    });
+
+    it('should not run strategies when healing is off', async () => {
+      const healSpy = jest.spyOn(mockStrategy, 'heal');
+      testFailure.context!.testConfig!.healingConfig.mode = 'off';
+
+      const result = await healingEngine.heal(testFailure, healingContext);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Healing is turned off');
+      expect(healSpy).not.toHaveBeenCalled();
+    });
+
+    it('should feed review verdicts into strategy success rates', async () => {
+      await healingEngine.heal(testFailure, healingContext);
+      expect(healingEngine.getStats().successRateByStrategy['simple-locator']).toBe(1);
+
+      healingEngine.recordFeedback('simple-locator', 'element_not_found', '', false);
+
+      expect(healingEngine.getStats().successRateByStrategy['simple-locator']).toBe(0.5);
+    });
+
     it('should track healing attempts', async () => {
       await healingEngine.heal(testFailure, healingContext);
 
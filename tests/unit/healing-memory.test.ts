@@ -0,0 +1,239 @@
+/**
+ * Unit tests for HealingMemory and its use by the HealingEngine
+ */
+
+import { HealingEngine } from '../../src/healing/HealingEngine';
+import {
+  HealingMemory,
+  fingerprintDom,
+  normalizeMemoryUrl
+} from '../../src/healing/HealingMemory';
+import { LocatorProbe } from '../../src/healing/LocatorProbe';
+import { createStorage, Storage } from '../../src/storage';
+import {
+  FailureType,
+  HealingContext,
+  HealingResult,
+  IHealingStrategy,
+  TestFailure
+} from '../../src/types';
+
+const PAGE_HTML = '<html><body><form><input id="user-email" type="email"><button>Go</button></form></body></html>';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createFailure(selector: string, html: string | undefined = PAGE_HTML, url: string = 'https://shop.test/login?next=/cart'): TestFailure {
+  return {
+    id: `failure-${selector}`,
+    testId: 'test-1',
+    type: 'element_not_found',
+    message: `Element not found: ${selector}`,
+    timestamp: new Date(),
+    context: {
+      testConfig: {
+        name: 'login',
+        type: 'e2e',
+        filePath: 'login.spec.ts',
+        timeout: 5000,
+        environment: 'test',
+        parameters: {},
+        engineConfig: { engine: 'playwright', settings: {} },
+        healingConfig: { enabled: true, confidenceThreshold: 0.6, maxAttempts: 3, strategies: [], timeout: 1000 },
+        retryConfig: { maxRetries: 0, delay: 1, backoffMultiplier: 1, maxDelay: 10 }
+      },
+      browserState: {
+        url,
+        title: 'Login',
+        viewport: { width: 1280, height: 720 },
+        ...(html !== undefined && { domSnapshot: html }),
+        consoleLogs: []
+      },
+      environment: { os: 'test', nodeVersion: '20.0.0', environment: 'test', availableMemory: 1024, cpuCount: 1 },
+      custom: { selector }
+    },
+    previousAttempts: []
+  };
+}
+
+const context: HealingContext = {
+  availableStrategies: [],
+  previousAttempts: [],
+  systemState: { load: 5, resources: { memory: 0, cpu: 0, disk: 0 }, activeTests: 1, queueLength: 0 },
+  userPreferences: {
+    preferredStrategies: [],
+    riskTolerance: 'medium',
+    notifications: { onHealingAttempt: false, onHealingSuccess: false, onHealingFailure: false }
+  }
+};
+
+/**
+ * Strategy that always heals to a fixed selector and counts its calls
+ */
+class FixedSelectorStrategy implements IHealingStrategy {
+  public readonly name = 'fixed-selector';
+  public readonly version = '1.0.0';
+  public readonly supportedFailureTypes: FailureType[] = ['element_not_found'];
+  public calls = 0;
+
+  constructor(private newSelector: string, private confidence: number = 0.7) {}
+
+  public async heal(failure: TestFailure): Promise<HealingResult> {
+    this.calls++;
+    return {
+      id: `fixed-${this.calls}`,
+      success: true,
+      actions: [{
+        type: 'update_selector',
+        description: 'Fixed selector',
+        parameters: { originalSelector: failure.context.custom['selector'], newSelector: this.newSelector },
+        timestamp: new Date(),
+        result: 'success'
+      }],
+      confidence: this.confidence,
+      duration: 1,
+      message: 'Healed',
+      metadata: { strategy: this.name }
+    };
+  }
+
+  public async calculateConfidence(): Promise<number> {
+    return 0.5;
+  }
+
+  public canHeal(failure: TestFailure): boolean {
+    return this.supportedFailureTypes.includes(failure.type);
+  }
+}
+
+describe('HealingMemory', () => {
+  let storage: Storage;
+  let memory: HealingMemory;
+
+  beforeEach(() => {
+    storage = createStorage();
+    memory = new HealingMemory(storage.healingMemory, { halfLifeDays: 14, minScore: 0.2 }, new LocatorProbe());
+  });
+
+  afterEach(() => {
+    storage.close();
+  });
+
+  it('should normalize URLs and fingerprint DOM structure only', () => {
+    expect(normalizeMemoryUrl('https://shop.test/login?next=/cart#top')).toBe('https://shop.test/login');
+    expect(fingerprintDom('<div class="a"><span>One</span></div>')).toBe(fingerprintDom('<div id="b"><span>Two</span></div>'));
+    expect(fingerprintDom('<div><span></span></div>')).not.toBe(fingerprintDom('<div><p></p></div>'));
+  });
+
+  it('should remember a heal once per page and selector pair', async () => {
+    const first = await memory.remember(createFailure('#email'), '#user-email', 'css-fallback', 0.8);
+    const second = await memory.remember(createFailure('#email'), '#user-email', 'xpath-fallback', 0.9);
+
+    expect(second!.id).toBe(first!.id);
+    expect(second).toMatchObject({ url: 'https://shop.test/login', strategy: 'css-fallback', confidence: 0.9 });
+    expect(await storage.healingMemory.count()).toBe(1);
+  });
+
+  it('should only recall heals learned on the same page', async () => {
+    await memory.remember(createFailure('#email'), '#user-email', 'css-fallback', 0.8);
+
+    expect(await memory.recall(createFailure('#email'))).toHaveLength(1);
+    expect(await memory.recall(createFailure('#email', PAGE_HTML, 'https://shop.test/signup'))).toEqual([]);
+    expect(await memory.recall(createFailure('#other'))).toEqual([]);
+  });
+
+  it('should decay scores over time and lower them when the page structure changed', async () => {
+    const entry = (await memory.remember(createFailure('#email'), '#user-email', 'css-fallback', 0.8))!;
+    const fingerprint = entry.domFingerprint;
+
+    expect(memory.score(entry, fingerprint)).toBeCloseTo(0.8);
+    expect(memory.score(entry, 'changed')).toBeCloseTo(0.64);
+    expect(memory.score(entry, fingerprint, new Date(entry.lastUsedAt.getTime() + 14 * DAY_MS))).toBeCloseTo(0.4);
+  });
+
+  it('should count hits for verified recalls and misses for stale ones', async () => {
+    await memory.remember(createFailure('#email'), '#user-email', 'css-fallback', 0.8);
+    await memory.remember(createFailure('#email'), '#gone', 'css-fallback', 0.9);
+
+    const recalled = await memory.recallVerified(createFailure('#email'));
+
+    expect(recalled!.entry.healedSelector).toBe('#user-email');
+    expect(recalled!.probe.visible).toBe(true);
+    const entries = await storage.healingMemory.findAll({ originalSelector: '#email' });
+    expect(entries.find(e => e.healedSelector === '#gone')!.misses).toBe(1);
+    expect(entries.find(e => e.healedSelector === '#user-email')!.hits).toBe(1);
+  });
+
+  it('should purge entries below the minimum score', async () => {
+    const stale = (await memory.remember(createFailure('#email'), '#user-email', 'css-fallback', 0.8))!;
+    await storage.healingMemory.save({ ...stale, lastUsedAt: new Date(Date.now() - 60 * DAY_MS) });
+    await memory.remember(createFailure('#submit'), 'button', 'css-fallback', 0.8);
+
+    expect(await memory.purge()).toBe(1);
+    expect((await storage.healingMemory.findAll()).map(e => e.originalSelector)).toEqual(['#submit']);
+    expect(await memory.purge({ all: true })).toBe(1);
+  });
+
+  it('should do nothing when disabled', async () => {
+    const disabled = new HealingMemory(storage.healingMemory, { enabled: false });
+
+    expect(await disabled.remember(createFailure('#email'), '#user-email', 'css-fallback', 0.8)).toBeNull();
+    expect(await disabled.recall(createFailure('#email'))).toEqual([]);
+  });
+});
+
+describe('HealingEngine with memory', () => {
+  let storage: Storage;
+  let memory: HealingMemory;
+  let strategy: FixedSelectorStrategy;
+  let engine: HealingEngine;
+
+  beforeEach(() => {
+    storage = createStorage();
+    memory = new HealingMemory(storage.healingMemory, {}, new LocatorProbe());
+    strategy = new FixedSelectorStrategy('#user-email');
+    engine = new HealingEngine({ maxAttempts: 10 }, memory);
+    engine.registerStrategy(strategy);
+  });
+
+  afterEach(() => {
+    storage.close();
+  });
+
+  it('should reuse a remembered heal before running strategies', async () => {
+    const first = await engine.heal(createFailure('#email'), context);
+    const second = await engine.heal(createFailure('#email'), context);
+
+    expect(first.metadata['strategy']).toBe('fixed-selector');
+    expect(second.metadata['strategy']).toBe('healing-memory');
+    expect(second.metadata['learnedFrom']).toBe('fixed-selector');
+    expect(second.actions[0]!.parameters).toMatchObject({ originalSelector: '#email', newSelector: '#user-email' });
+    expect(strategy.calls).toBe(1);
+  });
+
+  it('should fall back to strategies when the remembered selector no longer matches', async () => {
+    await memory.remember(createFailure('#email'), '#removed', 'css-fallback', 0.9);
+
+    const result = await engine.heal(createFailure('#email'), context);
+
+    expect(result.metadata['strategy']).toBe('fixed-selector');
+    expect(strategy.calls).toBe(1);
+  });
+
+  it('should raise calculateConfidence for selectors healed before', async () => {
+    expect(await engine.calculateConfidence(createFailure('#email'), context)).toBe(0.5);
+
+    await memory.remember(createFailure('#email'), '#user-email', 'css-fallback', 0.9);
+
+    expect(await engine.calculateConfidence(createFailure('#email'), context)).toBeCloseTo(0.9);
+  });
+
+  it('should heal without memory when none is configured', async () => {
+    const plain = new HealingEngine({ maxAttempts: 10 });
+    plain.registerStrategy(strategy);
+
+    await plain.heal(createFailure('#email'), context);
+    await plain.heal(createFailure('#email'), context);
+
+    expect(strategy.calls).toBe(2);
+    expect(await storage.healingMemory.count()).toBe(0);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for replaying healing against stored failures
+ */
+
+import { HealingEngine } from '../../src/healing/HealingEngine';
+import { HealingReplayError, HealingReplayer, createFailureFromResult } from '../../src/healing/HealingReplay';
+import { locatorProbe } from '../../src/healing/LocatorProbe';
+import { TestFailure, TestResult } from '../../src/types';
+
+const PAGE_HTML = '<html><body><form><button id="pay-now" data-testid="pay" class="btn primary">Pay now</button></form></body></html>';
+
+function createFailure(domSnapshot: string | null = PAGE_HTML): TestFailure {
+  return {
+    id: 'run-checkout-step-1',
+    testId: 'run-checkout',
+    type: 'element_not_found',
+    message: 'Step "Pay" failed to locate element: #pay',
+    timestamp: new Date(),
+    context: {
+      testConfig: {
+        healingConfig: { enabled: true, confidenceThreshold: 0.6, maxAttempts: 3, strategies: [], timeout: 1000 },
+      } as any,
+      browserState: {
+        url: 'http://shop.example.com/checkout',
+        title: 'Checkout',
+        viewport: { width: 1280, height: 720 },
+        ...(domSnapshot !== null && { domSnapshot }),
+        consoleLogs: [],
+      },
+      environment: { os: 'linux', nodeVersion: 'v20', environment: 'test', availableMemory: 0, cpuCount: 1 },
+      custom: { selector: '#pay', stepType: 'click' },
+    },
+    previousAttempts: [],
+  };
+}
+
+function createPage() {
+  return {
+    locator: jest.fn(() => ({
+      count: async () => 1,
+      nth: () => ({ isVisible: async () => true }),
+    })),
+  };
+}
+
+describe('HealingReplayer', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should probe the snapshot loaded into a page and close the page', async () => {
+    const page = createPage();
+    const close = jest.fn(async () => undefined);
+    const launchPage = jest.fn(async () => ({ page, close }));
+    const attachPage = jest.spyOn(locatorProbe, 'attachPage');
+    const detachPage = jest.spyOn(locatorProbe, 'detachPage');
+
+    const replay = await new HealingReplayer(null, { launchPage }).replay(createFailure());
+
+    expect(launchPage).toHaveBeenCalledWith(PAGE_HTML, { width: 1280, height: 720 });
+    expect(replay).toMatchObject({ failureId: 'run-checkout-step-1', selector: '#pay', source: 'page' });
+    expect(replay.result.success).toBe(true);
+    expect(page.locator).toHaveBeenCalled();
+    expect(close).toHaveBeenCalled();
+
+    const replayTestId = attachPage.mock.calls[0]![0];
+    expect(replayTestId).not.toBe('run-checkout');
+    expect(detachPage).toHaveBeenCalledWith(replayTestId);
+  });
+
+  it('should fall back to the snapshot when no page can be launched', async () => {
+    const launchPage = jest.fn().mockRejectedValue(new Error('Executable does not exist'));
+
+    const replay = await new HealingReplayer(null, { launchPage }).replay(createFailure());
+
+    expect(replay).toMatchObject({ source: 'dom-snapshot', pageError: 'Executable does not exist' });
+    expect(replay.result).toMatchObject({ success: true, applied: true, metadata: { strategy: 'accessibility-locator' } });
+    expect(replay.candidates[0]).toMatchObject({
+      strategy: 'accessibility-locator',
+      selector: 'role=button[name="Pay now"]',
+      success: true,
+    });
+    expect(replay.candidates.map(candidate => candidate.strategy).sort()).toEqual([
+      'accessibility-locator', 'css-fallback', 'id-fallback', 'neighbor-analysis', 'xpath-fallback'
+    ]);
+  });
+
+  it('should apply the replay mode and threshold without changing the configured engine', async () => {
+    const engine = new HealingEngine({ mode: 'auto-apply' });
+    const replayer = new HealingReplayer(engine);
+
+    const strict = await replayer.replay(createFailure(), { browser: false, mode: 'auto-apply-above-threshold', confidenceThreshold: 0.95 });
+    const lenient = await replayer.replay(createFailure(), { browser: false });
+
+    expect(strict.result).toMatchObject({ success: true, applied: false, metadata: { healingMode: 'auto-apply-above-threshold' } });
+    expect(lenient.result).toMatchObject({ success: true, applied: true, metadata: { healingMode: 'auto-apply' } });
+    expect(engine.getStats().totalAttempts).toBe(0);
+    expect(engine.getAttemptHistory('run-checkout')).toEqual([]);
+  });
+
+  it('should replay only the requested strategies', async () => {
+    const replay = await new HealingReplayer(null).replay(createFailure(), {
+      browser: false,
+      strategies: ['id-fallback', 'css-fallback'],
+    });
+
+    expect(replay.candidates.map(candidate => candidate.strategy).sort()).toEqual(['css-fallback', 'id-fallback']);
+    expect(replay.result.metadata?.['strategy']).not.toBe('accessibility-locator');
+  });
+
+  it('should reject unknown strategies and failures without a DOM snapshot', async () => {
+    const replayer = new HealingReplayer(null);
+
+    await expect(replayer.replay(createFailure(), { strategies: ['telepathy'] }))
+      .rejects.toThrow('Unknown healing strategies: telepathy');
+    await expect(replayer.replay(createFailure(null))).rejects.toThrow(HealingReplayError);
+  });
+
+  it('should build a failure for a selector from a test result\'s failure context', () => {
+    const { context } = createFailure();
+    const result = {
+      id: 'run-checkout',
+      startTime: new Date(),
+      healingAttempts: [],
+      failureContext: { ...context, custom: { error: 'Timeout' } },
+    } as unknown as TestResult;
+
+    expect(createFailureFromResult(result, '#submit')).toMatchObject({
+      testId: 'run-checkout',
+      type: 'element_not_found',
+      context: { custom: { error: 'Timeout', selector: '#submit' }, browserState: { domSnapshot: PAGE_HTML } },
+    });
+    expect(createFailureFromResult({ ...result, failureContext: undefined } as unknown as TestResult, '#submit')).toBeNull();
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import { IDFallbackStrategy } from '../../src/healing/strategies/IDFallbackStrategy';
+import { LocatorProbe } from '../../src/healing/LocatorProbe';
 import { 
   TestFailure, 
   HealingContext, 
@@ -17,7 +18,7 @@ describe('IDFallbackStrategy', () => {
   let healingContext: HealingContext;
 
   beforeEach(() => {
-    strategy = new IDFallbackStrategy({}, 0); // No delay for tests
+    strategy = new IDFallbackStrategy({}, new LocatorProbe());
     
     testFailure = {
       id: 'test-failure-1',
@@ -59,6 +60,13 @@ describe('IDFallbackStrategy', () => {
           availableMemory: 1024,
           cpuCount: 1
         },
+        browserState: {
+          url: 'http://localhost/test',
+          title: 'Test',
+          viewport: { width: 1280, height: 720 },
+          consoleLogs: [],
+          domSnapshot: '<html><body><button id="button">Submit</button></body></html>'
+        },
         custom: {
           selector: '.button',
           description: 'Test button'
@@ -309,6 +317,35 @@ describe('IDFallbackStrategy', () => {
       expect(result.success).toBeDefined();
     });
 
+    it('should fail when no candidate exists in the DOM snapshot', async () => {
+      const missingFailure: TestFailure = {
+        ...testFailure,
+        context: {
+          ...testFailure.context,
+          custom: {
+            selector: '.does-not-exist'
+          }
+        }
+      };
+
+      const result = await strategy.heal(missingFailure, healingContext);
+
+      expect(result.success).toBe(false);
+      expect(result.confidence).toBe(0);
+    });
+
+    it('should fail when no live page or DOM snapshot is available', async () => {
+      const { browserState: _browserState, ...contextWithoutBrowser } = testFailure.context;
+      const blindFailure: TestFailure = {
+        ...testFailure,
+        context: contextWithoutBrowser
+      };
+
+      const result = await strategy.heal(blindFailure, healingContext);
+
+      expect(result.success).toBe(false);
+    });
+
     it('should handle failure with no custom context', async () => {
       const failureWithoutCustom: TestFailure = {
         ...testFailure,
@@ -341,14 +378,14 @@ describe('IDFallbackStrategy', () => {
 
   describe('Configuration', () => {
     it('should accept custom configuration', () => {
-      const customStrategy = new IDFallbackStrategy({}, 0);
+      const customStrategy = new IDFallbackStrategy();
 
       expect(customStrategy).toBeDefined();
       expect(customStrategy.name).toBe('id-fallback');
     });
 
     it('should use default configuration when none provided', () => {
-      const defaultStrategy = new IDFallbackStrategy({}, 0);
+      const defaultStrategy = new IDFallbackStrategy();
 
       expect(defaultStrategy).toBeDefined();
       expect(defaultStrategy.name).toBe('id-fallback');
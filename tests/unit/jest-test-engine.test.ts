@@ -0,0 +1,132 @@
+/**
+ * Unit tests for the Jest test engine against a sample project
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { JestTestEngine } from '../../src/engines/JestTestEngine';
+import { JestRunner } from '../../src/engines/JestRunner';
+import { TestConfig } from '../../src/types';
+
+const PROJECT_DIR = path.join(__dirname, '../fixtures/jest-project');
+
+function createConfig(filePath: string, parameters: Record<string, any> = {}): TestConfig {
+  return {
+    name: 'sample-project',
+    type: 'unit',
+    filePath,
+    timeout: 120000,
+    environment: 'test',
+    parameters,
+    engineConfig: { engine: 'jest', settings: {} },
+    healingConfig: { enabled: false, confidenceThreshold: 0.7, maxAttempts: 1, strategies: [], timeout: 1000 },
+    retryConfig: { maxRetries: 0, delay: 0, backoffMultiplier: 1, maxDelay: 0 },
+  };
+}
+
+describe('JestTestEngine', () => {
+  let engine: JestTestEngine;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jest-engine-'));
+    engine = new JestTestEngine();
+    await engine.initialize({ engine: 'jest', settings: { outputDir, maxWorkers: 1 } });
+  });
+
+  afterEach(async () => {
+    await engine.cleanup();
+    await fs.rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('should register as the jest unit test engine', () => {
+    expect(engine.name).toBe('jest');
+    expect(engine.testType).toBe('unit');
+    expect(engine.supportsHealing).toBe(false);
+  });
+
+  it('should report each test, its console output and the coverage summary', async () => {
+    const result = await engine.execute(createConfig(PROJECT_DIR, { coverage: true }));
+
+    expect(result.status).toBe('failed');
+    expect(result.metrics.custom).toMatchObject({
+      totalTests: 6,
+      passedTests: 3,
+      failedTests: 1,
+      skippedTests: 1,
+      todoTests: 1,
+      testSuites: 2,
+      failedTestSuites: 1,
+      'coverage.lines': 80,
+      'coverage.functions': 100,
+    });
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      type: 'assertion_failed',
+      context: { file: 'checkout.test.js', test: 'checkout charges the cart total' },
+    });
+    expect(result.errors[0]!.message).toMatch(/^checkout charges the cart total: expect\(received\)\.toBe\(expected\)/);
+    expect(result.errors[0]!.stack).toContain('Expected: 12');
+
+    expect(result.output).toContain('✓ cart adds up item prices');
+    expect(result.output).toContain('○ cart applies tax (skipped)');
+    expect(result.output).toContain('✎ cart rounds totals (todo)');
+    expect(result.output).toMatch(/console\.log: pricing 2 items .*cart\.test\.js:5/);
+    expect(result.output).toContain('console.warn: using test card');
+    expect(result.output).toContain('Tests: 1 failed, 3 passed, 1 skipped, 1 todo, 6 total');
+
+    expect(result.artifacts.map(artifact => artifact.metadata!['format'])).toEqual(['jest-json', 'coverage-summary']);
+    expect(result.artifacts[1]!.metadata!['total']).toMatchObject({ lines: 80, branches: 50 });
+  });
+
+  it('should run a single test file filtered by test name', async () => {
+    const project = new JestTestEngine();
+    await project.initialize({ engine: 'jest', settings: { outputDir, maxWorkers: 1, projectDir: PROJECT_DIR } });
+
+    const result = await project.execute(createConfig(
+      path.join(PROJECT_DIR, 'checkout.test.js'),
+      { testNamePattern: 'empty cart' }
+    ));
+    await project.cleanup();
+
+    expect(result.status).toBe('passed');
+    expect(result.errors).toEqual([]);
+    expect(result.metrics.custom).toMatchObject({ testSuites: 1, passedTests: 1, skippedTests: 1 });
+    expect(result.artifacts).toHaveLength(1);
+  });
+
+  it('should fail with a configuration error when no tests are found', async () => {
+    const result = await engine.execute(createConfig(PROJECT_DIR, { testPathPatterns: ['missing-suite'] }));
+
+    expect(result.status).toBe('failed');
+    expect(result.errors).toEqual([expect.objectContaining({
+      type: 'configuration_error',
+      message: `No Jest tests found in ${PROJECT_DIR}`,
+    })]);
+  });
+
+  it('should only take the project, files, output and Jest process from the engine settings', async () => {
+    const run = jest.fn().mockRejectedValue(new Error('stopped'));
+    const stubbed = new JestTestEngine({ run } as unknown as JestRunner);
+    await stubbed.initialize({ engine: 'jest', settings: { outputDir, command: ['npx', 'jest'], env: { TZ: 'UTC' } } });
+
+    await stubbed.execute(createConfig(PROJECT_DIR, {
+      command: ['sh', '-c', 'exit 1'],
+      env: { PATH: '' },
+      projectDir: '/',
+      configFile: 'evil.config.js',
+      testMatch: ['**/*.js'],
+      outputDir: '/tmp/elsewhere',
+      maxWorkers: 2,
+    }));
+
+    const options = run.mock.calls[0][0];
+    expect(options).toMatchObject({ projectDir: PROJECT_DIR, command: ['npx', 'jest'], env: { TZ: 'UTC' }, maxWorkers: 2 });
+    expect(options.outputDir.startsWith(outputDir)).toBe(true);
+    expect(options).not.toHaveProperty('configFile');
+    expect(options).not.toHaveProperty('testMatch');
+    await stubbed.cleanup();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for JSONPath queries and JSON Schema validation
+ */
+
+import {
+  JsonPathError,
+  formatJsonPath,
+  isDefiniteJsonPath,
+  listJsonPaths,
+  parseJsonPath,
+  queryJsonPath
+} from '../../src/healing/JsonPath';
+import { validateJsonSchema } from '../../src/engines/JsonSchema';
+
+const order = {
+  id: 42,
+  customer: { name: 'Ada', 'e-mail address': 'ada@example.com' },
+  items: [
+    { sku: 'A-1', price: 10 },
+    { sku: 'B-2', price: 25 },
+  ],
+};
+
+describe('JSONPath', () => {
+  it('should parse dot, bracket, index, wildcard and descendant segments', () => {
+    expect(parseJsonPath(`$.customer['e-mail address']`)).toEqual([
+      { type: 'key', key: 'customer' },
+      { type: 'key', key: 'e-mail address' },
+    ]);
+    expect(parseJsonPath('$.items[1].sku')).toEqual([
+      { type: 'key', key: 'items' },
+      { type: 'index', index: 1 },
+      { type: 'key', key: 'sku' },
+    ]);
+    expect(parseJsonPath('$.items[*]..price')).toEqual([
+      { type: 'key', key: 'items' },
+      { type: 'wildcard' },
+      { type: 'descendant', key: 'price' },
+    ]);
+  });
+
+  it('should reject paths it cannot parse', () => {
+    expect(() => parseJsonPath('items[0]')).toThrow(JsonPathError);
+    expect(() => parseJsonPath('$.items[')).toThrow('Invalid JSONPath "$.items[" at "["');
+  });
+
+  it('should format segments back into the shortest notation', () => {
+    for (const path of ['$.items[0].sku', `$.customer['e-mail address']`, '$.items[*]..price', '$']) {
+      expect(formatJsonPath(parseJsonPath(path))).toBe(path);
+    }
+  });
+
+  it('should query every matching value in document order', () => {
+    expect(queryJsonPath(order, '$.customer.name')).toEqual(['Ada']);
+    expect(queryJsonPath(order, '$.items[-1].sku')).toEqual(['B-2']);
+    expect(queryJsonPath(order, '$.items[*].price')).toEqual([10, 25]);
+    expect(queryJsonPath(order, '$..sku')).toEqual(['A-1', 'B-2']);
+    expect(queryJsonPath(order, '$.customer.phone')).toEqual([]);
+    expect(isDefiniteJsonPath(parseJsonPath('$.items[0].sku'))).toBe(true);
+    expect(isDefiniteJsonPath(parseJsonPath('$..sku'))).toBe(false);
+  });
+
+  it('should list the path of every value breadth-first', () => {
+    const paths = listJsonPaths(order).map(entry => formatJsonPath(entry.segments));
+
+    expect(paths.slice(0, 3)).toEqual(['$.id', '$.customer', '$.items']);
+    expect(paths).toContain('$.items[1].price');
+    expect(paths).toHaveLength(11);
+  });
+});
+
+describe('JSON Schema validation', () => {
+  const schema = {
+    type: 'object',
+    required: ['id', 'items'],
+    properties: {
+      id: { type: 'integer', minimum: 1 },
+      status: { enum: ['open', 'paid'] },
+      items: { type: 'array', minItems: 1, items: { $ref: '#/$defs/item' } },
+    },
+    $defs: {
+      item: {
+        type: 'object',
+        required: ['sku', 'price'],
+        properties: { sku: { type: 'string', pattern: '^[A-Z]-\\d$' }, price: { type: 'number', exclusiveMinimum: 0 } },
+        additionalProperties: false,
+      },
+    },
+  };
+
+  it('should accept a document matching the schema', () => {
+    expect(validateJsonSchema(order, schema)).toEqual([]);
+  });
+
+  it('should report each violation with the path it was found at', () => {
+    const violations = validateJsonSchema({
+      id: 1.5,
+      status: 'lost',
+      items: [{ sku: 'a1', price: 0, discount: 2 }],
+    }, schema);
+
+    expect(violations.map(violation => [violation.path, violation.keyword])).toEqual([
+      ['$.id', 'type'],
+      ['$.status', 'enum'],
+      ['$.items[0].sku', 'pattern'],
+      ['$.items[0].price', 'exclusiveMinimum'],
+      ['$.items[0].discount', 'additionalProperties'],
+    ]);
+    expect(violations[0]!.message).toBe('$.id should be integer, got number');
+  });
+
+  it('should report missing required properties', () => {
+    expect(validateJsonSchema({ id: 7 }, schema)).toEqual([
+      { path: '$.items', keyword: 'required', message: '$ is missing required property items' },
+    ]);
+  });
+});
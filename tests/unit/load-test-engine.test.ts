@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the load test engine
+ */
+
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { LoadTestEngine } from '../../src/engines/LoadTestEngine';
+import { TestConfig } from '../../src/types';
+
+function createConfig(parameters: Record<string, any>): TestConfig {
+  return {
+    name: 'checkout-load',
+    type: 'performance',
+    filePath: '',
+    timeout: 30000,
+    environment: 'test',
+    parameters,
+    engineConfig: { engine: 'k6', settings: {} },
+    healingConfig: { enabled: false, confidenceThreshold: 0.7, maxAttempts: 1, strategies: [], timeout: 1000 },
+    retryConfig: { maxRetries: 0, delay: 0, backoffMultiplier: 1, maxDelay: 0 },
+  };
+}
+
+describe('LoadTestEngine', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let engine: LoadTestEngine;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/slow') {
+        setTimeout(() => res.end('slow'), 30);
+        return;
+      }
+      res.statusCode = req.url === '/missing' ? 404 : 200;
+      res.end('ok');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    engine = new LoadTestEngine();
+    await engine.initialize({ engine: 'k6', settings: { vus: 2, duration: '300ms', thresholds: { http_req_failed: ['rate<0.1'] } } });
+  });
+
+  afterEach(async () => {
+    await engine.cleanup();
+  });
+
+  it('should register as the k6 performance engine', () => {
+    expect(engine.name).toBe('k6');
+    expect(engine.testType).toBe('performance');
+    expect(engine.supportsHealing).toBe(false);
+  });
+
+  it('should report latency, throughput and error rates and pass within the thresholds', async () => {
+    const result = await engine.execute(createConfig({
+      baseUrl,
+      requests: [{ name: 'home', url: '/' }, { name: 'slow', url: '/slow' }],
+      thresholds: { http_req_duration: ['p(95)<2000'] },
+    }));
+
+    expect(result.status).toBe('passed');
+    expect(result.errors).toEqual([]);
+    expect(result.metrics.networkRequests).toBeGreaterThan(0);
+    expect(result.metrics.custom).toMatchObject({
+      'vus_max.value': 2,
+      'http_req_failed.rate': 0,
+      thresholds: 2,
+      thresholdsCrossed: 0,
+    });
+    expect(result.metrics.custom['http_reqs.count']).toBe(result.metrics.networkRequests);
+    expect(result.metrics.custom['http_req_duration{name:slow}.avg']).toBeGreaterThanOrEqual(25);
+    expect(result.metrics.custom['http_req_duration.p(95)']).toBeGreaterThan(0);
+    expect(result.output).toContain('✓ http_req_failed: rate<0.1');
+  });
+
+  it('should fail the run when a threshold is crossed', async () => {
+    const result = await engine.execute(createConfig({
+      url: `${baseUrl}/missing`,
+      vus: 1,
+      duration: '200ms',
+    }));
+
+    expect(result.status).toBe('failed');
+    expect(result.metrics.custom['http_req_failed.rate']).toBe(1);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      type: 'assertion_failed',
+      message: 'Threshold http_req_failed: rate<0.1 crossed (rate=1)',
+    });
+    expect(result.output).toContain('✗ http_req_failed: rate<0.1');
+    expect(result.output).toMatch(/\d+x GET .*\/missing returned status 404/);
+  });
+
+  it('should fail with a configuration error before sending any request', async () => {
+    const invalidThreshold = await engine.execute(createConfig({ url: `${baseUrl}/`, thresholds: { http_req_latency: ['avg<1'] } }));
+    const noScenario = await engine.execute(createConfig({}));
+
+    expect(invalidThreshold.status).toBe('failed');
+    expect(invalidThreshold.errors[0]).toMatchObject({ type: 'configuration_error', message: 'Unknown load test metric: http_req_latency' });
+    expect(invalidThreshold.metrics.networkRequests).toBe(0);
+    expect(noScenario.errors[0]).toMatchObject({ type: 'configuration_error', message: 'Load test needs a url or a list of requests' });
+
+    const health = await engine.getHealth();
+    expect(health.metrics.errorRate).toBe(1);
+  });
+
+  it('should export the scenario as a k6 script artifact', async () => {
+    const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'k6-export-'));
+    const exporting = new LoadTestEngine();
+    await exporting.initialize({ engine: 'k6', settings: { vus: 2, outputDir, thresholds: { http_req_failed: ['rate<0.1'] } } });
+    try {
+      const result = await exporting.execute(createConfig({
+        baseUrl,
+        requests: [{ url: '/' }],
+        duration: '100ms',
+        exportScript: true,
+        outputDir: path.join(outputDir, 'elsewhere'),
+      }));
+
+      expect(result.artifacts).toEqual([expect.objectContaining({ type: 'script', metadata: { format: 'k6' } })]);
+      const script = await fs.readFile(result.artifacts[0]!.path, 'utf-8');
+      expect(result.artifacts[0]!.path).toBe(path.join(outputDir, 'checkout_load.k6.js'));
+      expect(script).toContain('"vus": 2');
+      expect(script).toContain('"duration": "100ms"');
+      expect(script).toContain('"http_req_failed": [');
+    } finally {
+      await exporting.cleanup();
+      await fs.rm(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should fail with a configuration error when the load is over the limits', async () => {
+    const result = await engine.execute(createConfig({ url: `${baseUrl}/`, vus: 10000, duration: '24h' }));
+
+    expect(result.status).toBe('failed');
+    expect(result.errors[0]).toMatchObject({ type: 'configuration_error', message: 'Virtual users must be at most 100: 10000' });
+    expect(result.metrics.networkRequests).toBe(0);
+  });
+});
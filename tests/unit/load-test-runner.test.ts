@@ -0,0 +1,276 @@
+/**
+ * Unit tests for the load test runner, its settings and its metrics
+ */
+
+import {
+  LoadTestConfigError,
+  MAX_LOAD_TEST_DURATION,
+  MAX_LOAD_TEST_SAMPLES,
+  MAX_LOAD_TEST_STAGES,
+  MAX_LOAD_TEST_VUS,
+  parseDuration,
+} from '../../src/engines/LoadTestConfig';
+import { evaluateThresholds, parseThresholds, summarizeRun } from '../../src/engines/LoadTestMetrics';
+import {
+  createLoadTestPlan,
+  resolveScenario,
+  LoadTestRun,
+  LoadTestRunner,
+  LoadTestSample,
+  LoadTestSender,
+} from '../../src/engines/LoadTestRunner';
+import { generateK6Script } from '../../src/engines/K6ScriptExporter';
+
+function createRun(durations: number[], failed: number[] = []): LoadTestRun {
+  const samples = durations.map((duration, index) => ({ name: index % 2 ? 'login' : 'home', duration, failed: failed.includes(index) }));
+  const counts: LoadTestRun['counts'] = {};
+  for (const sample of samples) {
+    const count = counts[sample.name] ??= { requests: 0, failed: 0 };
+    count.requests++;
+    count.failed += sample.failed ? 1 : 0;
+  }
+  return { duration: 2000, iterations: durations.length, vusMax: 2, counts, samples, errors: [] };
+}
+
+describe('Load test settings', () => {
+  it('should parse k6 durations', () => {
+    expect(parseDuration('500ms')).toBe(500);
+    expect(parseDuration('30s')).toBe(30000);
+    expect(parseDuration('1m30s')).toBe(90000);
+    expect(parseDuration('1h')).toBe(3600000);
+    expect(() => parseDuration('30')).toThrow(LoadTestConfigError);
+    expect(() => parseDuration('soon')).toThrow('Invalid duration: soon');
+  });
+
+  it('should plan a constant load or ramping stages', () => {
+    expect(createLoadTestPlan({ vus: 3, duration: '2s' }, 1000)).toEqual({
+      startVUs: 3,
+      stages: [{ duration: 2000, target: 3 }],
+      requestTimeout: 1000,
+    });
+    expect(createLoadTestPlan({ vus: 0, duration: '2s', stages: [{ duration: '10s', target: 5 }, { duration: '5s', target: 0 }] }, 1000).stages)
+      .toEqual([{ duration: 10000, target: 5 }, { duration: 5000, target: 0 }]);
+    expect(() => createLoadTestPlan({ vus: -1, duration: '2s' }, 1000)).toThrow(LoadTestConfigError);
+  });
+
+  it('should reject plans over the VU, stage and duration limits', () => {
+    const stage = { duration: '1s', target: 1 };
+    expect(() => createLoadTestPlan({ vus: MAX_LOAD_TEST_VUS + 1, duration: '1s' }, 1000))
+      .toThrow(`Virtual users must be at most ${MAX_LOAD_TEST_VUS}`);
+    expect(() => createLoadTestPlan({ vus: 1, duration: '1s', stages: [{ duration: '1s', target: MAX_LOAD_TEST_VUS + 1 }] }, 1000))
+      .toThrow(`Stage target must be at most ${MAX_LOAD_TEST_VUS}`);
+    expect(() => createLoadTestPlan({ vus: 1, duration: '1s', stages: Array(MAX_LOAD_TEST_STAGES + 1).fill(stage) }, 1000))
+      .toThrow(`more than the limit of ${MAX_LOAD_TEST_STAGES}`);
+    expect(() => createLoadTestPlan({ vus: 1, duration: '1h' }, 1000)).toThrow(`more than the limit of ${MAX_LOAD_TEST_DURATION}ms`);
+    expect(() => createLoadTestPlan({ vus: 1, duration: '1s', stages: [{ duration: '6m', target: 1 }, { duration: '6m', target: 0 }] }, 1000))
+      .toThrow(LoadTestConfigError);
+  });
+
+  it('should resolve requests against the base URL and serialize JSON bodies', () => {
+    const [home, login] = resolveScenario({
+      baseUrl: 'http://shop.example.com/api/',
+      requests: [
+        { url: 'products' },
+        { name: 'login', method: 'post', url: '/login', body: { user: 'ada' }, expectedStatus: 201, sleep: 0.5 },
+      ],
+    });
+
+    expect(home).toEqual({ name: 'GET products', method: 'GET', url: 'http://shop.example.com/api/products', headers: {}, sleep: 0 });
+    expect(login).toEqual({
+      name: 'login',
+      method: 'POST',
+      url: 'http://shop.example.com/login',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"user":"ada"}',
+      expectedStatus: [201],
+      sleep: 0.5,
+    });
+    expect(() => resolveScenario({ requests: [] })).toThrow('Load test scenario has no requests');
+    expect(() => resolveScenario({ requests: [{ url: 'products' }] })).toThrow('Invalid request URL: products');
+  });
+});
+
+describe('Load test metrics', () => {
+  it('should parse thresholds and reject unknown metrics and aggregations', () => {
+    expect(parseThresholds({ 'http_req_duration{name:login}': ['p(95) < 500'] })).toEqual([{
+      metric: 'http_req_duration{name:login}',
+      expression: 'p(95) < 500',
+      aggregation: 'p(95)',
+      operator: '<',
+      value: 500,
+    }]);
+    expect(parseThresholds({ http_req_failed: ['rate<=0.01'] })[0]).toMatchObject({ operator: '<=', value: 0.01 });
+
+    expect(() => parseThresholds({ http_req_latency: ['avg<100'] })).toThrow('Unknown load test metric: http_req_latency');
+    expect(() => parseThresholds({ http_req_failed: ['p(95)<1'] })).toThrow('has no aggregation p(95)');
+    expect(() => parseThresholds({ 'iterations{name:login}': ['count>1'] })).toThrow('cannot be narrowed to a request');
+    expect(() => parseThresholds({ http_reqs: ['plenty'] })).toThrow('Invalid threshold for http_reqs: plenty');
+  });
+
+  it('should check thresholds against the run', () => {
+    const run = createRun([10, 20, 30, 40, 50, 60, 70, 80, 90, 100], [9]);
+    const results = evaluateThresholds(parseThresholds({
+      http_req_duration: ['p(95)<90', 'avg<100'],
+      'http_req_duration{name:home}': ['max<=90'],
+      http_req_failed: ['rate<0.05'],
+      http_reqs: ['count==10'],
+    }), run);
+
+    expect(results.map(result => [result.expression, Number(result.actual.toFixed(3)), result.passed])).toEqual([
+      ['p(95)<90', 95.5, false],
+      ['avg<100', 55, true],
+      ['max<=90', 90, true],
+      ['rate<0.05', 0.1, false],
+      ['count==10', 10, true],
+    ]);
+  });
+
+  it('should summarize latency, throughput and error rates overall and per request', () => {
+    const summary = summarizeRun(createRun([10, 20, 30, 40], [1]));
+
+    expect(summary).toMatchObject({
+      'http_reqs.count': 4,
+      'http_reqs.rate': 2,
+      'http_req_duration.avg': 25,
+      'http_req_duration.med': 25,
+      'http_req_duration.min': 10,
+      'http_req_duration.max': 40,
+      'http_req_failed.rate': 0.25,
+      'iterations.count': 4,
+      'vus_max.value': 2,
+      'http_reqs{name:login}.count': 2,
+      'http_req_duration{name:login}.avg': 30,
+      'http_req_failed{name:login}.rate': 0.5,
+      'http_req_failed{name:home}.rate': 0,
+    });
+  });
+});
+
+describe('LoadTestRunner', () => {
+  it('should keep the planned VUs busy for the duration', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const send: LoadTestSender = async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      inFlight--;
+      return { status: 200 };
+    };
+    const requests = resolveScenario({ requests: [{ url: 'http://localhost/a' }, { url: 'http://localhost/b' }] });
+
+    const run = await new LoadTestRunner(requests, createLoadTestPlan({ vus: 2, duration: '300ms' }, 1000), send).run();
+
+    expect(run.vusMax).toBe(2);
+    expect(maxInFlight).toBe(2);
+    expect(inFlight).toBe(0);
+    expect(run.iterations).toBeGreaterThan(5);
+    expect(run.samples.length).toBeGreaterThanOrEqual(run.iterations * 2);
+    expect(run.duration).toBeGreaterThanOrEqual(300);
+  });
+
+  it('should ramp VUs through the stages', async () => {
+    const send: LoadTestSender = async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return { status: 200 };
+    };
+    const requests = resolveScenario({ requests: [{ url: 'http://localhost/' }] });
+    const plan = createLoadTestPlan({ vus: 0, duration: '1s', stages: [{ duration: '300ms', target: 4 }, { duration: '200ms', target: 4 }, { duration: '100ms', target: 0 }] }, 1000);
+
+    const run = await new LoadTestRunner(requests, plan, send).run();
+
+    expect(run.vusMax).toBe(4);
+    expect(run.iterations).toBeGreaterThan(0);
+  });
+
+  it('should stop ramped-down VUs before their next request', async () => {
+    const send: LoadTestSender = async () => {
+      await new Promise(resolve => setTimeout(resolve, 150));
+      return { status: 200 };
+    };
+    const requests = resolveScenario({ requests: [{ name: 'a', url: 'http://localhost/a' }, { name: 'b', url: 'http://localhost/b' }] });
+    const plan = createLoadTestPlan({ vus: 2, duration: '1s', stages: [{ duration: '60ms', target: 2 }, { duration: '1ms', target: 1 }, { duration: '300ms', target: 1 }] }, 1000);
+
+    const run = await new LoadTestRunner(requests, plan, send).run();
+
+    expect(run.vusMax).toBe(2);
+    expect(run.samples.filter(sample => sample.name === 'a')).toHaveLength(3);
+    expect(run.samples.filter(sample => sample.name === 'b')).toHaveLength(1);
+  });
+
+  it('should cut sleeps short when the run ends', async () => {
+    const send: LoadTestSender = async () => ({ status: 200 });
+    const requests = resolveScenario({ requests: [{ url: 'http://localhost/', sleep: 30 }, { url: 'http://localhost/next' }] });
+
+    const run = await new LoadTestRunner(requests, createLoadTestPlan({ vus: 1, duration: '100ms' }, 1000), send).run();
+
+    expect(run.duration).toBeLessThan(5000);
+    expect(run.samples).toHaveLength(1);
+    expect(run.iterations).toBe(0);
+  });
+
+  it('should count failed requests and group their errors', async () => {
+    let count = 0;
+    const send: LoadTestSender = async request => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      if (request.name === 'down') {
+        return { status: 0, error: 'connect ECONNREFUSED 127.0.0.1:1' };
+      }
+      return { status: count++ % 2 ? 503 : 200 };
+    };
+    const requests = resolveScenario({ requests: [{ name: 'flaky', url: 'http://localhost/' }, { name: 'down', url: 'http://localhost:1/' }] });
+
+    const run = await new LoadTestRunner(requests, createLoadTestPlan({ vus: 1, duration: '200ms' }, 1000), send).run();
+
+    expect(run.samples.filter(sample => sample.name === 'down').every(sample => sample.failed)).toBe(true);
+    expect(run.counts['down']!.failed).toBe(run.counts['down']!.requests);
+    expect(run.errors[0]).toMatchObject({ message: 'connect ECONNREFUSED 127.0.0.1:1' });
+    expect(run.errors.map(error => error.message)).toContain('flaky returned status 503');
+  });
+});
+
+describe('LoadTestRunner samples', () => {
+  it('should count every request but keep at most the sample limit', () => {
+    const requests = resolveScenario({ requests: [{ name: 'a', url: 'http://localhost/a' }] });
+    const runner = new LoadTestRunner(requests, createLoadTestPlan({ vus: 1, duration: '1s' }, 1000)) as unknown as {
+      record(sample: LoadTestSample): void;
+      counts: LoadTestRun['counts'];
+      samples: LoadTestSample[];
+    };
+
+    for (let i = 0; i < MAX_LOAD_TEST_SAMPLES + 500; i++) {
+      runner.record({ name: 'a', duration: i, failed: i % 2 === 0 });
+    }
+    const summary = summarizeRun({ ...createRun([]), counts: runner.counts, samples: runner.samples });
+
+    expect(runner.samples).toHaveLength(MAX_LOAD_TEST_SAMPLES);
+    expect(summary['http_reqs.count']).toBe(MAX_LOAD_TEST_SAMPLES + 500);
+    expect(summary['http_req_failed.rate']).toBe(0.5);
+  });
+});
+
+describe('generateK6Script', () => {
+  it('should export the scenario, load and thresholds as a k6 script', () => {
+    const script = generateK6Script(
+      {
+        baseUrl: 'http://shop.example.com',
+        requests: [
+          { url: '/products', sleep: 1 },
+          { name: 'login', method: 'POST', url: '/login', body: { user: 'ada' }, expectedStatus: [200, 201] },
+          { url: 'http://auth.example.com/health' },
+        ],
+      },
+      { vus: 1, duration: '30s', stages: [{ duration: '1m', target: 20 }], thresholds: { http_req_failed: ['rate<0.01'] } }
+    );
+
+    expect(script).toContain("import http from 'k6/http';");
+    expect(script).toContain('"stages": [');
+    expect(script).not.toContain('"duration": "30s"');
+    expect(script).toContain('"http_req_failed": [\n      "rate<0.01"\n    ]');
+    expect(script).toContain('const BASE_URL = __ENV.BASE_URL || "http://shop.example.com/";');
+    expect(script).toContain('http.request("GET", BASE_URL + "products", null, {');
+    expect(script).toContain('  sleep(1);');
+    expect(script).toContain('http.request("POST", BASE_URL + "login", "{\\"user\\":\\"ada\\"}", {');
+    expect(script).toContain('responseCallback: http.expectedStatuses(200, 201),');
+    expect(script).toContain('http.request("GET", "http://auth.example.com/health", null, {');
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Unit tests for LocatorProbe and the DOM-backed fallback strategies
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LocatorProbe, ProbePage, applyMatchQuality } from '../../src/healing/LocatorProbe';
+import { CSSFallbackStrategy } from '../../src/healing/strategies/CSSFallbackStrategy';
+import { XPathFallbackStrategy } from '../../src/healing/strategies/XPathFallbackStrategy';
+import { NeighborAnalysisStrategy } from '../../src/healing/strategies/NeighborAnalysisStrategy';
+import { TestFailure, HealingContext } from '../../src/types';
+
+const LOGIN_PAGE = fs.readFileSync(
+  path.join(__dirname, '../fixtures/healing/login-page.html'),
+  'utf8'
+);
+
+function createFailure(selector: string, domSnapshot?: string): TestFailure {
+  return {
+    id: 'failure-1',
+    testId: 'test-1',
+    type: 'element_not_found',
+    message: `Element not found: ${selector}`,
+    timestamp: new Date(),
+    context: {
+      testConfig: {
+        name: 'login',
+        type: 'e2e',
+        filePath: '/login.spec.ts',
+        timeout: 5000,
+        environment: 'test',
+        parameters: {},
+        engineConfig: {
+          engine: 'playwright',
+          version: '1.0.0',
+          settings: {}
+        },
+        healingConfig: {
+          enabled: true,
+          confidenceThreshold: 0.5,
+          maxAttempts: 3,
+          strategies: [],
+          timeout: 10000
+        },
+        retryConfig: {
+          maxRetries: 0,
+          delay: 0,
+          backoffMultiplier: 1,
+          maxDelay: 0
+        }
+      },
+      environment: {
+        os: 'test',
+        nodeVersion: '20.0.0',
+        environment: 'test',
+        availableMemory: 1024,
+        cpuCount: 1
+      },
+      ...(domSnapshot !== undefined && {
+        browserState: {
+          url: 'http://localhost/login',
+          title: 'Login',
+          viewport: { width: 1280, height: 720 },
+          consoleLogs: [],
+          domSnapshot
+        }
+      }),
+      custom: { selector }
+    },
+    previousAttempts: []
+  };
+}
+
+const healingContext: HealingContext = {
+  systemState: {
+    load: 5,
+    resources: { memory: 512, cpu: 10, disk: 1024 },
+    activeTests: 1,
+    queueLength: 0
+  },
+  userPreferences: {
+    preferredStrategies: [],
+    riskTolerance: 'medium',
+    notifications: {
+      onHealingAttempt: false,
+      onHealingSuccess: false,
+      onHealingFailure: false
+    }
+  },
+  availableStrategies: [],
+  previousAttempts: []
+};
+
+describe('LocatorProbe', () => {
+  let probe: LocatorProbe;
+
+  beforeEach(() => {
+    probe = new LocatorProbe();
+  });
+
+  afterEach(() => {
+    probe.clearCache();
+  });
+
+  describe('DOM snapshots', () => {
+    it('should report a unique visible CSS match', () => {
+      const result = probe.probeSnapshot('#submit-btn', LOGIN_PAGE);
+
+      expect(result.source).toBe('dom-snapshot');
+      expect(result.matchCount).toBe(1);
+      expect(result.unique).toBe(true);
+      expect(result.visible).toBe(true);
+    });
+
+    it('should count ambiguous matches and exclude hidden ones from visibility', () => {
+      const result = probe.probeSnapshot('.btn', LOGIN_PAGE);
+
+      expect(result.matchCount).toBe(4);
+      expect(result.unique).toBe(false);
+      expect(result.visibleCount).toBe(2);
+    });
+
+    it('should treat hidden elements as not visible', () => {
+      expect(probe.probeSnapshot('#button', LOGIN_PAGE).visible).toBe(false);
+      expect(probe.probeSnapshot('.banner-close', LOGIN_PAGE).visible).toBe(false);
+      expect(probe.probeSnapshot('input[name="csrf"]', LOGIN_PAGE).visible).toBe(false);
+    });
+
+    it('should evaluate XPath selectors', () => {
+      const result = probe.probeSnapshot('//button[text()="Sign in"]', LOGIN_PAGE);
+
+      expect(result.matchCount).toBe(1);
+      expect(result.visible).toBe(true);
+    });
+
+    it('should accept prefixed selectors', () => {
+      expect(probe.probeSnapshot('css=[data-testid="email"]', LOGIN_PAGE).unique).toBe(true);
+      expect(probe.probeSnapshot('xpath=//a[@class="link"]', LOGIN_PAGE).unique).toBe(true);
+    });
+
+    it('should report no matches for a missing element', () => {
+      const result = probe.probeSnapshot('#missing', LOGIN_PAGE);
+
+      expect(result.matchCount).toBe(0);
+      expect(result.visible).toBe(false);
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should capture invalid selector errors', () => {
+      const result = probe.probeSnapshot('div[', LOGIN_PAGE);
+
+      expect(result.matchCount).toBe(0);
+      expect(result.error).toBeDefined();
+    });
+  });
+
+  describe('probe', () => {
+    it('should use the failure DOM snapshot', async () => {
+      const result = await probe.probe('#email-input', createFailure('#email', LOGIN_PAGE));
+
+      expect(result.source).toBe('dom-snapshot');
+      expect(result.unique).toBe(true);
+    });
+
+    it('should report no evidence when neither page nor snapshot exist', async () => {
+      const result = await probe.probe('#email-input', createFailure('#email'));
+
+      expect(result.source).toBe('none');
+      expect(result.matchCount).toBe(0);
+      expect(result.error).toBeDefined();
+    });
+
+    it('should prefer an attached live page', async () => {
+      const visibility = [true, false, true];
+      const page: ProbePage = {
+        locator: jest.fn().mockReturnValue({
+          count: jest.fn().mockResolvedValue(3),
+          nth: (index: number) => ({ isVisible: jest.fn().mockResolvedValue(visibility[index]) })
+        })
+      };
+
+      probe.attachPage('test-1', page);
+      const result = await probe.probe('.item', createFailure('.item', LOGIN_PAGE));
+
+      expect(page.locator).toHaveBeenCalledWith('.item');
+      expect(result.source).toBe('page');
+      expect(result.matchCount).toBe(3);
+      expect(result.visibleCount).toBe(2);
+
+      probe.detachPage('test-1');
+      expect(probe.hasPage('test-1')).toBe(false);
+    });
+
+    it('should capture live page errors', async () => {
+      const page: ProbePage = {
+        locator: () => ({
+          count: jest.fn().mockRejectedValue(new Error('Target closed')),
+          nth: () => ({ isVisible: jest.fn() })
+        })
+      };
+
+      const result = await probe.probePage('.item', page);
+
+      expect(result.matchCount).toBe(0);
+      expect(result.error).toContain('Target closed');
+    });
+  });
+
+  describe('applyMatchQuality', () => {
+    const base = { selector: '#a', source: 'dom-snapshot' as const };
+
+    it('should keep confidence for unique visible matches', () => {
+      expect(applyMatchQuality(0.8, { ...base, matchCount: 1, visibleCount: 1, unique: true, visible: true })).toBe(0.8);
+    });
+
+    it('should penalize ambiguous matches', () => {
+      const confidence = applyMatchQuality(0.8, { ...base, matchCount: 3, visibleCount: 3, unique: false, visible: true });
+      expect(confidence).toBeCloseTo(0.64);
+    });
+
+    it('should zero out invisible matches', () => {
+      expect(applyMatchQuality(0.8, { ...base, matchCount: 1, visibleCount: 0, unique: true, visible: false })).toBe(0);
+    });
+  });
+});
+
+describe('DOM-backed fallback strategies', () => {
+  let probe: LocatorProbe;
+
+  beforeEach(() => {
+    probe = new LocatorProbe();
+  });
+
+  afterEach(() => {
+    probe.clearCache();
+  });
+
+  it('should heal a stale CSS selector to a visible element', async () => {
+    const strategy = new CSSFallbackStrategy({}, probe);
+    const result = await strategy.heal(createFailure('#email', LOGIN_PAGE), healingContext);
+
+    expect(result.success).toBe(true);
+    const action = result.actions[0]!;
+    expect(action.parameters['originalSelector']).toBe('#email');
+    expect(probe.probeSnapshot(action.parameters['newSelector'], LOGIN_PAGE).visible).toBe(true);
+  });
+
+  it('should heal a stale XPath to a visible element', async () => {
+    const strategy = new XPathFallbackStrategy({}, probe);
+    const result = await strategy.heal(createFailure('//a[text()="Sign in"]', LOGIN_PAGE), healingContext);
+
+    expect(result.success).toBe(true);
+    expect(result.actions[0]!.parameters['probe']['visible']).toBe(true);
+  });
+
+  it('should heal using neighboring elements', async () => {
+    const strategy = new NeighborAnalysisStrategy({}, probe);
+    const result = await strategy.heal(createFailure('#email', LOGIN_PAGE), healingContext);
+
+    expect(result).toBeDefined();
+    if (result.success) {
+      expect(result.actions[0]!.parameters['probe']['visible']).toBe(true);
+    }
+  });
+
+  it('should not report success without DOM evidence', async () => {
+    const strategy = new CSSFallbackStrategy({}, probe);
+    const result = await strategy.heal(createFailure('#submit-button'), healingContext);
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for buffering page activity
+ */
+
+import { EventEmitter } from 'events';
+import { PageActivity } from '../../src/engines/PageActivity';
+
+function createRequest(method: string, url: string, postData: string | null = null, failure: string | null = null) {
+  return {
+    method: () => method,
+    url: () => url,
+    headers: () => ({ accept: '*/*' }),
+    postData: () => postData,
+    failure: () => failure === null ? null : { errorText: failure }
+  };
+}
+
+function createResponse(request: ReturnType<typeof createRequest>, status: number) {
+  return { request: () => request, status: () => status, headers: () => ({ 'content-type': 'application/json' }) };
+}
+
+function createMessage(type: string, text: string) {
+  return { type: () => type, text: () => text, location: () => ({ url: 'http://localhost/app.js', lineNumber: 3, columnNumber: 7 }) };
+}
+
+const CONDITIONS = { offline: false, latency: 0, downloadThroughput: -1, uploadThroughput: -1 };
+
+describe('PageActivity', () => {
+  let page: EventEmitter;
+  let activity: PageActivity;
+
+  beforeEach(() => {
+    page = new EventEmitter();
+    activity = new PageActivity(page as any, { maxConsoleLogs: 2, maxRequests: 2 });
+  });
+
+  it('should buffer console messages and page errors, dropping the oldest', () => {
+    page.emit('console', createMessage('log', 'booting'));
+    page.emit('console', createMessage('warning', 'deprecated API'));
+    page.emit('pageerror', Object.assign(new TypeError('cart is undefined'), { stack: 'TypeError: cart is undefined\n    at app.js:3' }));
+
+    const logs = activity.getConsoleLogs();
+    expect(logs).toEqual([
+      expect.objectContaining({ level: 'warn', message: 'deprecated API', args: [{ url: 'http://localhost/app.js', lineNumber: 3, columnNumber: 7 }] }),
+      expect.objectContaining({ level: 'error', message: 'Uncaught TypeError: cart is undefined', args: ['TypeError: cart is undefined\n    at app.js:3'] })
+    ]);
+    expect(activity.formatConsoleLogs()).toMatch(/^\[.+\] WARN deprecated API\n\[.+\] ERROR Uncaught TypeError: cart is undefined$/);
+  });
+
+  it('should report requests in flight and requests that failed or got error statuses', () => {
+    const cart = createRequest('GET', 'http://localhost/api/cart');
+    const order = createRequest('POST', 'http://localhost/api/orders', '{"sku":"A"}', 'net::ERR_CONNECTION_REFUSED');
+    const pending = createRequest('GET', 'http://localhost/api/recommendations');
+    page.emit('request', cart);
+    page.emit('response', createResponse(cart, 500));
+    page.emit('requestfinished', cart);
+    page.emit('request', order);
+    page.emit('requestfailed', order);
+    page.emit('request', pending);
+
+    const state = activity.getNetworkState(CONDITIONS);
+
+    expect(state.activeRequests).toEqual([expect.objectContaining({ url: 'http://localhost/api/recommendations' })]);
+    expect(state.failedRequests).toEqual([
+      expect.objectContaining({ method: 'POST', body: '{"sku":"A"}', error: 'net::ERR_CONNECTION_REFUSED' })
+    ]);
+    expect(state.conditions).toBe(CONDITIONS);
+    // The finished request was dropped to make room
+    expect(activity.getRequests().map(request => request.url)).toEqual([
+      'http://localhost/api/orders',
+      'http://localhost/api/recommendations'
+    ]);
+  });
+
+  it('should keep response metadata and cut long request bodies', () => {
+    const upload = createRequest('PUT', 'http://localhost/api/files', 'x'.repeat(5000));
+    page.emit('request', upload);
+    page.emit('response', createResponse(upload, 404));
+    page.emit('requestfinished', upload);
+
+    const [request] = activity.getRequests();
+    expect(request).toMatchObject({ status: 404, responseHeaders: { 'content-type': 'application/json' }, headers: { accept: '*/*' } });
+    expect(request!.body).toHaveLength(2001);
+    expect(request!.duration).toBeGreaterThanOrEqual(0);
+    expect(activity.getNetworkState(CONDITIONS).failedRequests).toEqual([request]);
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Unit tests for inline self-healing in PlaywrightTestEngine
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import { PlaywrightTestEngine } from '../../src/engines/PlaywrightTestEngine';
+import { HealingEngine } from '../../src/healing/HealingEngine';
+import { LocatorProbe } from '../../src/healing/LocatorProbe';
+import { CSSFallbackStrategy } from '../../src/healing/strategies/CSSFallbackStrategy';
+import { EngineConfig, TestConfig } from '../../src/types';
+
+const PAGE_HTML = `
+<html>
+  <head><title>Checkout</title></head>
+  <body>
+    <form>
+      <input name="email" data-testid="email" type="email">
+      <button data-testid="pay" class="btn">Pay now</button>
+    </form>
+  </body>
+</html>
+`;
+
+// Reference probe used by the fake page to answer locator queries from the HTML
+const mockSnapshotProbe = new LocatorProbe();
+
+const mockPage = {
+  on: jest.fn(),
+  viewportSize: jest.fn().mockReturnValue({ width: 1280, height: 720 }),
+  goto: jest.fn(),
+  url: jest.fn().mockReturnValue('http://localhost/checkout'),
+  title: jest.fn().mockResolvedValue('Checkout'),
+  content: jest.fn().mockResolvedValue(PAGE_HTML),
+  close: jest.fn(),
+  screenshot: jest.fn(),
+  click: jest.fn(),
+  fill: jest.fn(),
+  selectOption: jest.fn(),
+  waitForSelector: jest.fn(),
+  locator: jest.fn((selector: string) => {
+    const result = mockSnapshotProbe.probeSnapshot(selector, PAGE_HTML);
+    return {
+      count: jest.fn().mockResolvedValue(result.matchCount),
+      nth: (index: number) => ({ isVisible: jest.fn().mockResolvedValue(index < result.visibleCount) })
+    };
+  })
+};
+
+jest.mock('playwright', () => {
+  const browser = {
+    newContext: jest.fn().mockResolvedValue({
+      newPage: jest.fn().mockImplementation(() => Promise.resolve(mockPage)),
+      pages: jest.fn().mockReturnValue([]),
+      clearCookies: jest.fn(),
+      clearPermissions: jest.fn(),
+      serviceWorkers: jest.fn().mockReturnValue([]),
+      storageState: jest.fn().mockResolvedValue({ cookies: [], origins: [] }),
+      on: jest.fn(),
+      close: jest.fn()
+    }),
+    on: jest.fn(),
+    close: jest.fn()
+  };
+  return {
+    chromium: { launch: jest.fn().mockResolvedValue(browser) },
+    firefox: { launch: jest.fn().mockResolvedValue(browser) },
+    webkit: { launch: jest.fn().mockResolvedValue(browser) }
+  };
+});
+
+/**
+ * Simulate Playwright actions: selectors resolve only when they match a visible element
+ */
+function resolveAction(selector: string): Promise<void> {
+  const result = mockSnapshotProbe.probeSnapshot(selector, PAGE_HTML);
+  if (!result.visible) {
+    return Promise.reject(new Error(`page.click: Timeout 100ms exceeded.\nwaiting for locator('${selector}')`));
+  }
+  return Promise.resolve();
+}
+
+describe('PlaywrightTestEngine inline healing', () => {
+  let outputDir: string;
+  let engineConfig: EngineConfig;
+
+  function createTestConfig(steps: any[], overrides: Partial<TestConfig['healingConfig']> = {}): TestConfig {
+    return {
+      name: 'checkout',
+      type: 'e2e',
+      filePath: 'tests/e2e/checkout.spec.ts',
+      timeout: 30000,
+      environment: 'test',
+      parameters: { steps },
+      engineConfig,
+      healingConfig: {
+        enabled: true,
+        confidenceThreshold: 0.3,
+        maxAttempts: 2,
+        strategies: ['css-fallback'],
+        timeout: 10000,
+        ...overrides
+      },
+      retryConfig: {
+        maxRetries: 0,
+        delay: 0,
+        backoffMultiplier: 1,
+        maxDelay: 0
+      }
+    };
+  }
+
+  function createHealingEngine(): HealingEngine {
+    const healingEngine = new HealingEngine({ strategyTimeout: 5000, minConfidenceThreshold: 0.1 });
+    healingEngine.registerStrategy(new CSSFallbackStrategy());
+    return healingEngine;
+  }
+
+  beforeAll(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'playwright-inline-healing-'));
+    engineConfig = {
+      engine: 'playwright',
+      version: '1.0.0',
+      settings: {
+        playwright: {
+          outputDir,
+          screenshots: { onFailure: false, onSuccess: false, mode: 'viewport', format: 'png', animations: 'disabled' }
+        }
+      }
+    };
+  });
+
+  afterAll(() => {
+    mockSnapshotProbe.clearCache();
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mockPage.click.mockImplementation(resolveAction);
+    mockPage.fill.mockImplementation(resolveAction);
+    mockPage.waitForSelector.mockImplementation(resolveAction);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should heal a broken selector, retry the step and flag the result', async () => {
+    const engine = new PlaywrightTestEngine(createHealingEngine());
+    await engine.initialize(engineConfig);
+
+    const result = await engine.execute(createTestConfig([
+      { type: 'fill', name: 'Enter email', selector: '#email', value: 'a@b.c' },
+      { type: 'click', name: 'Pay', selector: '[data-testid="pay"]' }
+    ]));
+
+    expect(result.status).toBe('passed');
+    expect(result.healingAttempts).toHaveLength(1);
+    expect(result.healingAttempts[0]!.strategy).toBe('css-fallback');
+    expect(result.healingAttempts[0]!.result.success).toBe(true);
+    expect(result.healingAttempts[0]!.failure).toMatchObject({
+      type: 'timeout',
+      context: { custom: { selector: '#email' }, browserState: { domSnapshot: PAGE_HTML } },
+      previousAttempts: []
+    });
+    expect(result.metrics.custom['healedSteps']).toBe(1);
+    expect(result.output).toContain('Healed: #email ->');
+
+    const healedSelector = mockPage.fill.mock.calls[1]![0];
+    expect(healedSelector).not.toBe('#email');
+    expect(mockSnapshotProbe.probeSnapshot(healedSelector, PAGE_HTML).visible).toBe(true);
+    expect(result.healingAttempts[0]!.result.metadata['selectorPatch']).toEqual({
+      originalSelector: '#email',
+      healedSelector,
+    });
+
+    await engine.cleanup();
+  });
+
+  it('should give healing the console messages and requests of the page', async () => {
+    const healingEngine = createHealingEngine();
+    const heal = jest.spyOn(healingEngine, 'heal');
+    const engine = new PlaywrightTestEngine(healingEngine);
+    await engine.initialize(engineConfig);
+    mockPage.fill.mockImplementationOnce((selector: string) => {
+      const [, onConsole] = mockPage.on.mock.calls.find(([event]) => event === 'console')!;
+      onConsole({ type: () => 'warning', text: () => 'Form schema changed', location: () => ({ url: '' }) });
+      return resolveAction(selector);
+    });
+
+    await engine.execute(createTestConfig([{ type: 'fill', name: 'Enter email', selector: '#email', value: 'a@b.c' }]));
+
+    const [failure] = heal.mock.calls[0]!;
+    expect(failure.context.browserState).toMatchObject({
+      url: 'http://localhost/checkout',
+      domSnapshot: PAGE_HTML,
+      consoleLogs: [expect.objectContaining({ level: 'warn', message: 'Form schema changed' })]
+    });
+    expect(failure.context.networkState).toMatchObject({ activeRequests: [], failedRequests: [] });
+
+    await engine.cleanup();
+  });
+
+  it('should reuse a healed selector for later steps in the same run', async () => {
+    const engine = new PlaywrightTestEngine(createHealingEngine());
+    await engine.initialize(engineConfig);
+
+    const result = await engine.execute(createTestConfig([
+      { type: 'wait', name: 'Wait for email', selector: '#email' },
+      { type: 'fill', name: 'Enter email', selector: '#email', value: 'a@b.c' }
+    ]));
+
+    expect(result.status).toBe('passed');
+    expect(result.healingAttempts).toHaveLength(1);
+    expect(mockPage.fill).toHaveBeenCalledTimes(1);
+    expect(mockPage.fill.mock.calls[0]![0]).not.toBe('#email');
+
+    await engine.cleanup();
+  });
+
+  it('should give every failing step of a run its own healing budget', async () => {
+    const engine = new PlaywrightTestEngine(createHealingEngine());
+    await engine.initialize(engineConfig);
+
+    const result = await engine.execute(createTestConfig([
+      { type: 'wait', name: 'Wait for email', selector: '#email' },
+      { type: 'fill', name: 'Enter email', selector: 'input#email', value: 'a@b.c' },
+      { type: 'wait', name: 'Wait for pay', selector: '#pay' },
+      { type: 'click', name: 'Pay', selector: 'button#pay' }
+    ]));
+
+    expect(result.status).toBe('passed');
+    expect(result.healingAttempts).toHaveLength(4);
+    expect(result.healingAttempts.every(attempt => attempt.result.success)).toBe(true);
+
+    await engine.cleanup();
+  });
+
+  it('should heal again when a run with the same id is retried', async () => {
+    const healingEngine = new HealingEngine({ maxAttempts: 1, strategyTimeout: 5000, minConfidenceThreshold: 0.1 });
+    healingEngine.registerStrategy(new CSSFallbackStrategy());
+    const engine = new PlaywrightTestEngine(healingEngine);
+    await engine.initialize(engineConfig);
+    jest.spyOn(engine as any, 'generateTestId').mockReturnValue('run-1');
+    const config = createTestConfig([{ type: 'fill', name: 'Enter email', selector: '#email', value: 'a@b.c' }], { maxAttempts: 1 });
+
+    mockPage.fill
+      .mockImplementationOnce(resolveAction)
+      .mockImplementationOnce(() => Promise.reject(new Error('page.fill: Timeout 100ms exceeded.')));
+    const first = await engine.execute(config);
+    const retry = await engine.execute(config);
+
+    expect(first.status).toBe('failed');
+    expect(retry.status).toBe('passed');
+    expect(retry.healingAttempts[0]!.result.success).toBe(true);
+    expect(healingEngine.getAttemptHistory('run-1')).toEqual([]);
+
+    await engine.cleanup();
+  });
+
+  it('should fail the step when healing finds no usable selector', async () => {
+    const engine = new PlaywrightTestEngine(new HealingEngine());
+    await engine.initialize(engineConfig);
+
+    const result = await engine.execute(createTestConfig([
+      { type: 'click', name: 'Missing', selector: '#does-not-exist' }
+    ]));
+
+    expect(result.status).toBe('failed');
+    expect(result.healingAttempts).toHaveLength(1);
+    expect(result.healingAttempts[0]!.result.success).toBe(false);
+    expect(result.metrics.custom['healedSteps']).toBe(0);
+
+    await engine.cleanup();
+  });
+
+  it('should report but not apply heals in suggest mode', async () => {
+    const engine = new PlaywrightTestEngine(createHealingEngine());
+    await engine.initialize(engineConfig);
+
+    const result = await engine.execute(createTestConfig(
+      [{ type: 'fill', name: 'Enter email', selector: '#email', value: 'a@b.c' }],
+      { mode: 'suggest' }
+    ));
+
+    expect(result.status).toBe('failed');
+    expect(result.healingAttempts).toHaveLength(1);
+    expect(result.healingAttempts[0]!.result).toMatchObject({ success: true, applied: false });
+    expect(result.healingAttempts[0]!.result.metadata['selectorPatch']).toBeUndefined();
+    expect(mockPage.fill).toHaveBeenCalledTimes(1);
+
+    await engine.cleanup();
+  });
+
+  it('should not heal when healing is turned off for the test', async () => {
+    const healingEngine = createHealingEngine();
+    const healSpy = jest.spyOn(healingEngine, 'heal');
+    const engine = new PlaywrightTestEngine(healingEngine);
+    await engine.initialize(engineConfig);
+
+    const result = await engine.execute(createTestConfig(
+      [{ type: 'fill', name: 'Enter email', selector: '#email', value: 'a@b.c' }],
+      { mode: 'off' }
+    ));
+
+    expect(result.status).toBe('failed');
+    expect(healSpy).not.toHaveBeenCalled();
+
+    await engine.cleanup();
+  });
+
+  it('should not heal when healing is disabled for the test', async () => {
+    const healingEngine = createHealingEngine();
+    const healSpy = jest.spyOn(healingEngine, 'heal');
+    const engine = new PlaywrightTestEngine(healingEngine);
+    await engine.initialize(engineConfig);
+
+    const result = await engine.execute(createTestConfig(
+      [{ type: 'fill', name: 'Enter email', selector: '#email', value: 'a@b.c' }],
+      { enabled: false }
+    ));
+
+    expect(result.status).toBe('failed');
+    expect(result.healingAttempts).toHaveLength(0);
+    expect(healSpy).not.toHaveBeenCalled();
+
+    await engine.cleanup();
+  });
+
+  it('should not heal without a healing engine', async () => {
+    const engine = new PlaywrightTestEngine();
+    await engine.initialize(engineConfig);
+
+    const result = await engine.execute(createTestConfig([
+      { type: 'fill', name: 'Enter email', selector: '#email', value: 'a@b.c' }
+    ]));
+
+    expect(result.status).toBe('failed');
+    expect(result.healingAttempts).toHaveLength(0);
+
+    await engine.cleanup();
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Unit tests for running Playwright spec files through the test runner
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { JSONReport, JSONReportTest, JSONReportTestResult } from '@playwright/test/reporter';
+import { PlaywrightTestEngine } from '../../src/engines/PlaywrightTestEngine';
+import {
+  PlaywrightSpecRunner,
+  convertSpecReport,
+  isPlaywrightSpecFile
+} from '../../src/engines/PlaywrightSpecRunner';
+import { EngineConfig, TestConfig } from '../../src/types';
+
+jest.mock('playwright', () => {
+  const page = { on: jest.fn(), close: jest.fn() };
+  const browser = {
+    newContext: jest.fn().mockResolvedValue({ newPage: jest.fn().mockResolvedValue(page), on: jest.fn(), close: jest.fn() }),
+    on: jest.fn(),
+    close: jest.fn()
+  };
+  return {
+    chromium: { launch: jest.fn().mockResolvedValue(browser) },
+    firefox: { launch: jest.fn().mockResolvedValue(browser) },
+    webkit: { launch: jest.fn().mockResolvedValue(browser) }
+  };
+});
+
+const SPEC = `
+import { test, expect } from '@playwright/test';
+
+test.describe('checkout', () => {
+  test('adds totals', async () => {
+    await test.step('sum items', async () => {
+      expect(1 + 1).toBe(2);
+    });
+  });
+
+  test('attaches a receipt', async () => {
+    await test.info().attach('receipt', { body: 'total: 2', contentType: 'text/plain' });
+    expect(1).toBe(2);
+  });
+
+  test.skip('pays later', async () => {});
+});
+`;
+
+function createResult(overrides: Partial<JSONReportTestResult> = {}): JSONReportTestResult {
+  return {
+    workerIndex: 0,
+    parallelIndex: 0,
+    status: 'passed',
+    duration: 20,
+    error: undefined,
+    errors: [],
+    stdout: [],
+    stderr: [],
+    retry: 0,
+    steps: [],
+    startTime: '2026-01-01T10:00:00.000Z',
+    attachments: [],
+    annotations: [],
+    ...overrides
+  };
+}
+
+function createTest(status: JSONReportTest['status'], results: JSONReportTestResult[], projectName = ''): JSONReportTest {
+  return {
+    timeout: 30000,
+    annotations: [],
+    expectedStatus: 'passed',
+    projectName,
+    projectId: projectName,
+    results,
+    status
+  };
+}
+
+function createReport(tests: Array<{ title: string; test: JSONReportTest }>): JSONReport {
+  return {
+    config: {} as JSONReport['config'],
+    suites: [{
+      title: 'checkout.spec.ts',
+      file: 'checkout.spec.ts',
+      line: 0,
+      column: 0,
+      specs: [],
+      suites: [{
+        title: 'checkout',
+        file: 'checkout.spec.ts',
+        line: 3,
+        column: 6,
+        specs: tests.map(({ title, test }, index) => ({
+          tags: [],
+          title,
+          ok: test.status !== 'unexpected',
+          tests: [test],
+          id: `spec-${index}`,
+          file: 'checkout.spec.ts',
+          line: 4 + index,
+          column: 3
+        }))
+      }]
+    }],
+    errors: [],
+    stats: { startTime: '2026-01-01T10:00:00.000Z', duration: 120.4, expected: 0, unexpected: 0, flaky: 0, skipped: 0 }
+  };
+}
+
+describe('Playwright spec runner', () => {
+  describe('isPlaywrightSpecFile', () => {
+    it('should match spec and test files only', () => {
+      expect(isPlaywrightSpecFile('tests/e2e/login.spec.ts')).toBe(true);
+      expect(isPlaywrightSpecFile('tests/e2e/login.test.mjs')).toBe(true);
+      expect(isPlaywrightSpecFile('tests/e2e/helpers.ts')).toBe(false);
+      expect(isPlaywrightSpecFile('http://localhost/login')).toBe(false);
+    });
+  });
+
+  describe('convertSpecReport', () => {
+    it('should map tests, describe titles, projects and nested steps', () => {
+      const report = createReport([{
+        title: 'adds totals',
+        test: createTest('expected', [createResult({
+          steps: [{ title: 'open cart', duration: 5, error: undefined, steps: [{ title: 'load', duration: 3, error: undefined }] }]
+        })], 'chromium')
+      }]);
+
+      const result = convertSpecReport(report, 'tests/e2e/checkout.spec.ts', 'checkout');
+
+      expect(result).toMatchObject({ file: 'tests/e2e/checkout.spec.ts', title: 'checkout', status: 'passed', duration: 120 });
+      expect(result.tests).toHaveLength(1);
+      expect(result.tests![0]).toMatchObject({ title: '[chromium] checkout › adds totals', status: 'passed', project: 'chromium' });
+      expect(result.tests![0]!.steps.map(step => step.title)).toEqual(['open cart', 'open cart › load']);
+      expect(result.tests![0]!.steps[0]!.category).toBe('test.step');
+    });
+
+    it('should report flaky tests as passed with their retries and attachments', () => {
+      const report = createReport([{
+        title: 'pays',
+        test: createTest('flaky', [
+          createResult({
+            status: 'failed',
+            error: { message: 'boom' },
+            attachments: [{ name: 'screenshot', contentType: 'image/png', path: '/tmp/retry-0.png' }]
+          }),
+          createResult({ retry: 1, attachments: [{ name: 'log', contentType: 'text/plain', body: Buffer.from('ok').toString('base64') }] })
+        ])
+      }]);
+
+      const result = convertSpecReport(report, 'checkout.spec.ts', 'checkout');
+
+      expect(result.status).toBe('passed');
+      expect(result.retryCount).toBe(1);
+      expect(result.tests![0]).toMatchObject({ status: 'passed', retryCount: 1 });
+      expect(result.tests![0]!.error).toBeUndefined();
+      expect(result.attachments).toEqual([
+        { name: 'screenshot', contentType: 'image/png', path: '/tmp/retry-0.png', size: 0 },
+        { name: 'log', contentType: 'text/plain', body: Buffer.from('ok'), size: 2 }
+      ]);
+    });
+
+    it('should fail the file on unexpected failures and strip terminal colors', () => {
+      const report = createReport([
+        { title: 'adds totals', test: createTest('expected', [createResult()]) },
+        {
+          title: 'pays',
+          test: createTest('unexpected', [createResult({
+            status: 'failed',
+            error: { message: '\u001b[31mExpected: 2\u001b[39m', location: { file: 'checkout.spec.ts', line: 9, column: 5 } }
+          })])
+        }
+      ]);
+
+      const result = convertSpecReport(report, 'checkout.spec.ts', 'checkout');
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toEqual({
+        message: 'checkout › pays: Expected: 2',
+        location: { file: 'checkout.spec.ts', line: 9, column: 5 }
+      });
+      expect(result.tests![1]!.status).toBe('failed');
+    });
+
+    it('should report timed out and skipped files', () => {
+      const timedOut = convertSpecReport(createReport([{
+        title: 'slow',
+        test: createTest('unexpected', [createResult({ status: 'timedOut', errors: [{ message: 'Test timeout of 30000ms exceeded.' }] })])
+      }]), 'a.spec.ts', 'a');
+      const skipped = convertSpecReport(createReport([{
+        title: 'later',
+        test: createTest('skipped', [createResult({ status: 'skipped' })])
+      }]), 'b.spec.ts', 'b');
+
+      expect(timedOut.status).toBe('timedout');
+      expect(timedOut.error!.message).toBe('checkout › slow: Test timeout of 30000ms exceeded.');
+      expect(skipped.status).toBe('skipped');
+    });
+
+    it('should fail the file on errors outside tests', () => {
+      const report = createReport([]);
+      report.errors = [{ message: 'SyntaxError: Unexpected token' }];
+
+      const result = convertSpecReport(report, 'broken.spec.ts', 'broken');
+
+      expect(result.status).toBe('failed');
+      expect(result.error!.message).toBe('SyntaxError: Unexpected token');
+    });
+  });
+
+  describe('running spec files', () => {
+    let specDir: string;
+    let specPath: string;
+    const jestWorkerId = process.env['JEST_WORKER_ID'];
+
+    beforeAll(() => {
+      // Playwright Test refuses to load specs when it detects a Jest worker
+      delete process.env['JEST_WORKER_ID'];
+      // Inside the repository so the spec resolves @playwright/test
+      specDir = fs.mkdtempSync(path.join(__dirname, '..', 'fixtures', 'playwright-spec-'));
+      specPath = path.join(specDir, 'checkout.spec.ts');
+      fs.writeFileSync(specPath, SPEC);
+    });
+
+    afterAll(() => {
+      process.env['JEST_WORKER_ID'] = jestWorkerId;
+      fs.rmSync(specDir, { recursive: true, force: true });
+    });
+
+    it('should run a spec file through the Playwright test runner', async () => {
+      const { report, exitCode } = await new PlaywrightSpecRunner().run({
+        filePath: specPath,
+        workers: 1,
+        outputDir: path.join(specDir, 'test-results'),
+        timeout: 60000
+      });
+
+      expect(exitCode).toBe(1);
+      const result = convertSpecReport(report, specPath, 'checkout');
+      expect(result.tests!.map(test => [test.title, test.status])).toEqual([
+        ['checkout › adds totals', 'passed'],
+        ['checkout › attaches a receipt', 'failed'],
+        ['checkout › pays later', 'skipped']
+      ]);
+      expect(result.tests![0]!.steps.map(step => step.title)).toEqual(['sum items']);
+      expect(result.tests![1]!.attachments.map(attachment => attachment.name)).toContain('receipt');
+    }, 60000);
+
+    it('should run spec files without steps from the Playwright engine', async () => {
+      const engineConfig: EngineConfig = {
+        engine: 'playwright',
+        version: '1.0.0',
+        settings: {
+          playwright: {
+            outputDir: specDir,
+            workers: 1,
+            screenshots: { onFailure: false, onSuccess: false, mode: 'viewport', format: 'png', animations: 'disabled' }
+          }
+        }
+      };
+      const config: TestConfig = {
+        name: 'checkout suite',
+        type: 'e2e',
+        filePath: specPath,
+        timeout: 60000,
+        environment: 'test',
+        parameters: {},
+        engineConfig,
+        healingConfig: { enabled: false, confidenceThreshold: 0.7, maxAttempts: 0, strategies: [], timeout: 1000 },
+        retryConfig: { maxRetries: 0, delay: 0, backoffMultiplier: 1, maxDelay: 0 }
+      };
+
+      const engine = new PlaywrightTestEngine();
+      await engine.initialize(engineConfig);
+      const result = await engine.execute(config);
+      await engine.cleanup();
+
+      expect(result.status).toBe('failed');
+      expect(result.metrics.custom).toMatchObject({ totalTests: 3, passedTests: 1, failedTests: 1, skippedTests: 1 });
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]!.message).toContain('Expected: 2');
+      expect(result.errors[0]!.context).toMatchObject({ test: 'checkout › attaches a receipt', retries: 0 });
+      expect(result.errors[0]!.type).toBe('assertion_failed');
+      expect(result.output).toContain('[passed] checkout › adds totals');
+    }, 60000);
+  });
+});
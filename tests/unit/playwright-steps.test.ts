@@ -0,0 +1,690 @@
+/**
+ * Unit tests for the Playwright step DSL and assertion steps
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import { PlaywrightTestEngine } from '../../src/engines/PlaywrightTestEngine';
+import { normalizePlaywrightSteps } from '../../src/engines/PlaywrightSteps';
+import { EngineConfig, TestConfig } from '../../src/types';
+import { TestStep } from '../../src/types/test-generation';
+
+interface FakeElement {
+  text?: string;
+  value?: string;
+  visible?: boolean;
+  attributes?: Record<string, string>;
+  count?: number;
+}
+
+// Elements on the fake page, keyed by selector
+let mockElements: Record<string, FakeElement> = {};
+
+const mockLocatorActions = {
+  pressSequentially: jest.fn(),
+  scrollIntoViewIfNeeded: jest.fn()
+};
+
+const mockPage = {
+  on: jest.fn(),
+  viewportSize: jest.fn().mockReturnValue({ width: 1280, height: 720 }),
+  route: jest.fn(),
+  goto: jest.fn(),
+  url: jest.fn().mockReturnValue('http://localhost/checkout?step=2'),
+  title: jest.fn().mockResolvedValue('Checkout'),
+  content: jest.fn().mockResolvedValue('<html></html>'),
+  close: jest.fn(),
+  screenshot: jest.fn(),
+  click: jest.fn(),
+  fill: jest.fn(),
+  selectOption: jest.fn(),
+  waitForSelector: jest.fn(),
+  waitForTimeout: jest.fn(),
+  hover: jest.fn(),
+  dragAndDrop: jest.fn(),
+  setInputFiles: jest.fn(),
+  waitForResponse: jest.fn(),
+  mouse: { wheel: jest.fn() },
+  locator: jest.fn((selector: string) => {
+    const element = mockElements[selector];
+    return {
+      ...mockLocatorActions,
+      count: jest.fn().mockResolvedValue(element ? element.count ?? 1 : 0),
+      first: () => ({
+        isVisible: jest.fn().mockResolvedValue(element?.visible ?? true),
+        textContent: jest.fn().mockResolvedValue(element?.text ?? ''),
+        inputValue: jest.fn().mockResolvedValue(element?.value ?? ''),
+        getAttribute: jest.fn((name: string) => Promise.resolve(element?.attributes?.[name] ?? null))
+      })
+    };
+  })
+};
+
+jest.mock('playwright', () => {
+  const browser = {
+    newContext: jest.fn().mockResolvedValue({
+      newPage: jest.fn().mockImplementation(() => Promise.resolve(mockPage)),
+      pages: jest.fn().mockReturnValue([]),
+      clearCookies: jest.fn(),
+      clearPermissions: jest.fn(),
+      serviceWorkers: jest.fn().mockReturnValue([]),
+      storageState: jest.fn().mockResolvedValue({ cookies: [], origins: [] }),
+      on: jest.fn(),
+      close: jest.fn()
+    }),
+    on: jest.fn(),
+    close: jest.fn()
+  };
+  return {
+    chromium: { launch: jest.fn().mockResolvedValue(browser) },
+    firefox: { launch: jest.fn().mockResolvedValue(browser) },
+    webkit: { launch: jest.fn().mockResolvedValue(browser) },
+    devices: {
+      'iPhone 13': {
+        userAgent: 'Mozilla/5.0 (iPhone)',
+        viewport: { width: 390, height: 664 },
+        deviceScaleFactor: 3,
+        isMobile: true,
+        hasTouch: true,
+        defaultBrowserType: 'webkit'
+      }
+    }
+  };
+});
+
+describe('Playwright step DSL', () => {
+  let outputDir: string;
+  let engineConfig: EngineConfig;
+  let engine: PlaywrightTestEngine;
+
+  function createTestConfig(steps: any[]): TestConfig {
+    return {
+      name: 'checkout',
+      type: 'e2e',
+      filePath: 'tests/e2e/checkout.spec.ts',
+      timeout: 30000,
+      environment: 'test',
+      parameters: { steps },
+      engineConfig,
+      healingConfig: { enabled: false, confidenceThreshold: 0.7, maxAttempts: 0, strategies: [], timeout: 1000 },
+      retryConfig: { maxRetries: 0, delay: 0, backoffMultiplier: 1, maxDelay: 0 }
+    };
+  }
+
+  beforeAll(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'playwright-steps-'));
+    engineConfig = {
+      engine: 'playwright',
+      version: '1.0.0',
+      settings: {
+        playwright: {
+          outputDir,
+          screenshots: { onFailure: false, onSuccess: false, mode: 'viewport', format: 'png', animations: 'disabled' }
+        }
+      }
+    };
+  });
+
+  afterAll(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    mockElements = {
+      '#total': { text: '  Total:\n  $42.00 ' },
+      '#email': { value: 'a@b.c' },
+      '#pay': { attributes: { 'aria-disabled': 'false' } },
+      '.item': { count: 3 },
+      '#spinner': { visible: false }
+    };
+    engine = new PlaywrightTestEngine();
+    await engine.initialize(engineConfig);
+  });
+
+  afterEach(async () => {
+    await engine.cleanup();
+    jest.clearAllMocks();
+  });
+
+  it('should execute every action step type', async () => {
+    const custom = jest.fn().mockResolvedValue(undefined);
+    engine.registerCustomAction('login', custom);
+
+    const result = await engine.execute(createTestConfig([
+      { type: 'navigate', url: 'http://localhost/checkout' },
+      { type: 'type', selector: '#email', value: 'a@b.c', delay: 10 },
+      { type: 'hover', selector: '#pay' },
+      { type: 'scroll', selector: '#total' },
+      { type: 'scroll', y: 400 },
+      { type: 'drag_drop', selector: '.item', target: '#cart' },
+      { type: 'upload_file', selector: '#receipt', files: ['receipt.pdf'] },
+      { type: 'wait', duration: 50 },
+      { type: 'custom', action: 'login', args: { user: 'qa' } }
+    ]));
+
+    expect(result.status).toBe('passed');
+    expect(mockPage.goto).toHaveBeenCalledWith('http://localhost/checkout', expect.any(Object));
+    expect(mockLocatorActions.pressSequentially).toHaveBeenCalledWith('a@b.c', expect.objectContaining({ delay: 10 }));
+    expect(mockPage.hover).toHaveBeenCalledWith('#pay', expect.any(Object));
+    expect(mockLocatorActions.scrollIntoViewIfNeeded).toHaveBeenCalled();
+    expect(mockPage.mouse.wheel).toHaveBeenCalledWith(0, 400);
+    expect(mockPage.dragAndDrop).toHaveBeenCalledWith('.item', '#cart', expect.any(Object));
+    expect(mockPage.setInputFiles).toHaveBeenCalledWith('#receipt', ['receipt.pdf'], expect.any(Object));
+    expect(mockPage.waitForTimeout).toHaveBeenCalledWith(50);
+    expect(custom).toHaveBeenCalledWith(mockPage, expect.objectContaining({ args: { user: 'qa' } }));
+  });
+
+  it('should pass text, visibility, URL, attribute, count and value assertions', async () => {
+    const result = await engine.execute(createTestConfig([
+      { type: 'assert', selector: '#total', assertion: { type: 'text', expected: 'Total: $42.00' } },
+      { type: 'assert', selector: '#total', assertion: { type: 'visible' } },
+      { type: 'assert', selector: '#spinner', assertion: { type: 'visible', expected: false } },
+      { type: 'assert', selector: '#missing', assertion: { type: 'visible', expected: false } },
+      { type: 'assert', assertion: { type: 'url', expected: 'step=\\d', match: 'matches' } },
+      { type: 'assert', selector: '#pay', assertion: { type: 'attribute', attribute: 'aria-disabled', expected: 'false' } },
+      { type: 'assert', selector: '.item', assertion: { type: 'count', expected: 3 } },
+      { type: 'verify', selector: '#email', assertion: { type: 'value', expected: 'a@b.c' } }
+    ]));
+
+    expect(result.status).toBe('passed');
+    expect(result.errors).toHaveLength(0);
+  });
+
+  it('should stop at a failed assertion step', async () => {
+    const result = await engine.execute(createTestConfig([
+      { type: 'assert', name: 'Check total', selector: '#total', assertion: { type: 'text', expected: '$10.00' }, timeout: 200 },
+      { type: 'click', selector: '#pay' }
+    ]));
+
+    expect(result.status).toBe('failed');
+    expect(result.errors[0]).toMatchObject({
+      type: 'assertion_failed',
+      message: 'Assertion failed: expected text of locator(\'#total\') to contain "$10.00", received "Total: $42.00"'
+    });
+    expect(mockPage.click).not.toHaveBeenCalled();
+  });
+
+  it('should keep the console, network and DOM of failing tests', async () => {
+    const emit = (event: string, payload: unknown) => {
+      const call = [...mockPage.on.mock.calls].reverse().find(([name]) => name === event);
+      call![1](payload);
+    };
+    mockPage.click.mockImplementationOnce(async () => {
+      emit('console', { type: () => 'error', text: () => 'Payment widget failed to load', location: () => ({ url: '' }) });
+      emit('request', {
+        method: () => 'POST',
+        url: () => 'http://localhost/api/pay',
+        headers: () => ({}),
+        postData: () => null
+      });
+    });
+
+    const result = await engine.execute(createTestConfig([
+      { type: 'click', selector: '#pay' },
+      { type: 'assert', selector: '#total', assertion: { type: 'text', expected: '$10.00' }, timeout: 200 }
+    ]));
+
+    expect(result.status).toBe('failed');
+    expect(result.failureContext).toMatchObject({
+      browserState: {
+        url: 'http://localhost/checkout?step=2',
+        title: 'Checkout',
+        domSnapshot: '<html></html>',
+        consoleLogs: [expect.objectContaining({ level: 'error', message: 'Payment widget failed to load' })]
+      },
+      networkState: { activeRequests: [expect.objectContaining({ method: 'POST', url: 'http://localhost/api/pay' })], failedRequests: [] },
+      custom: { error: expect.stringContaining('Assertion failed') }
+    });
+    const artifacts = result.artifacts.filter(artifact => artifact.path.includes(`${path.sep}failures${path.sep}`));
+    expect(artifacts.map(artifact => [artifact.type, path.basename(artifact.path)])).toEqual([
+      ['log', 'console.log'],
+      ['log', 'network.json'],
+      ['dom', 'dom.html']
+    ]);
+    expect(fs.readFileSync(artifacts[0]!.path, 'utf-8')).toContain('ERROR Payment widget failed to load');
+  });
+
+  it('should run the remaining steps after a failed verification', async () => {
+    const result = await engine.execute(createTestConfig([
+      { type: 'verify', name: 'Check items', selector: '.item', assertion: { type: 'count', expected: 2 }, timeout: 200 },
+      { type: 'click', selector: '#pay' }
+    ]));
+
+    expect(mockPage.click).toHaveBeenCalledWith('#pay', expect.any(Object));
+    expect(result.status).toBe('failed');
+    expect(result.errors[0]!.type).toBe('assertion_failed');
+    expect(result.errors[0]!.message).toBe(
+      '1 verification step(s) failed:\nCheck items: Assertion failed: expected count of locator(\'.item\') to be 2, received 3'
+    );
+  });
+
+  it('should fail steps with missing fields or unknown custom actions', async () => {
+    const missing = await engine.execute(createTestConfig([{ type: 'hover', name: 'Hover nothing' }]));
+    const unknown = await engine.execute(createTestConfig([{ type: 'custom', action: 'teleport' }]));
+
+    expect(missing.errors[0]!.message).toBe('Step "Hover nothing" requires selector');
+    expect(unknown.errors[0]!.message).toBe('Unknown custom action: teleport');
+  });
+
+  it('should resolve expressions from the environment, test data and captured values', async () => {
+    mockElements['#order'] = { text: ' Order A-1042 placed ', attributes: { 'data-id': '1042' } };
+    mockPage.waitForResponse.mockResolvedValue({
+      url: () => 'http://localhost/api/orders',
+      json: () => Promise.resolve({ order: { total: 42 } })
+    });
+    engine.setEnvironments({ test: { name: 'test', variables: { BASE_URL: 'http://localhost' }, overrides: {} } });
+
+    const config = createTestConfig([
+      { type: 'navigate', url: '${env.BASE_URL}/checkout' },
+      { type: 'fill', selector: '#email', value: '${data.user.email}' },
+      {
+        type: 'click',
+        name: 'Place order',
+        selector: '#pay',
+        capture: [
+          { as: 'orderTotal', from: 'response', url: '/api/orders', path: 'order.total' },
+          { as: 'orderId', from: 'text', selector: '#order', pattern: 'Order (\\S+)' },
+          { as: 'orderKey', from: 'attribute', selector: '#order', attribute: 'data-id' }
+        ]
+      },
+      { type: 'navigate', url: '${env.BASE_URL}/orders/${vars.orderKey}?total=${vars.orderTotal}' },
+      { type: 'fill', selector: '#search', value: '${vars.orderId} $${literal}' }
+    ]);
+    config.parameters['data'] = { user: { email: 'qa@example.com' } };
+
+    const result = await engine.execute(config);
+
+    expect(result.status).toBe('passed');
+    expect(mockPage.goto).toHaveBeenCalledWith('http://localhost/checkout', expect.any(Object));
+    expect(mockPage.fill).toHaveBeenCalledWith('#email', 'qa@example.com', expect.any(Object));
+    expect(mockPage.goto).toHaveBeenCalledWith('http://localhost/orders/1042?total=42', expect.any(Object));
+    expect(mockPage.fill).toHaveBeenCalledWith('#search', 'A-1042 ${literal}', expect.any(Object));
+    expect(result.output).toContain('Captured: vars.orderId = "A-1042"');
+    expect(result.output).toContain('Resolved: ${vars.orderKey} = "1042"');
+  });
+
+  it('should fail steps reading undefined variables', async () => {
+    const result = await engine.execute(createTestConfig([
+      { type: 'fill', name: 'Search order', selector: '#search', value: '${vars.orderId}' }
+    ]));
+
+    expect(result.status).toBe('failed');
+    expect(result.errors[0]!.message).toBe('Variable "vars.orderId" is not defined');
+    expect(mockPage.fill).not.toHaveBeenCalled();
+  });
+
+  describe('control flow', () => {
+    it('should run the steps of the branch whose condition holds', async () => {
+      mockElements['#banner'] = { text: 'We use cookies' };
+
+      const result = await engine.execute(createTestConfig([
+        {
+          type: 'if',
+          name: 'Dismiss cookie banner',
+          selector: '#banner',
+          condition: { type: 'visible' },
+          steps: [{ type: 'click', name: 'Accept', selector: '#banner button' }]
+        },
+        {
+          type: 'if',
+          selector: '#spinner',
+          condition: { type: 'visible' },
+          steps: [{ type: 'click', selector: '#spinner' }],
+          else: [{ type: 'hover', name: 'Hover pay', selector: '#pay' }]
+        }
+      ]));
+
+      expect(result.status).toBe('passed');
+      expect(mockPage.click).toHaveBeenCalledTimes(1);
+      expect(mockPage.click).toHaveBeenCalledWith('#banner button', expect.any(Object));
+      expect(mockPage.hover).toHaveBeenCalledWith('#pay', expect.any(Object));
+      expect(result.output).toContain('1. Dismiss cookie banner');
+      expect(result.output).toContain('2. Dismiss cookie banner › Accept');
+      expect(result.output).toContain('4. if › Hover pay');
+      expect(result.output).toContain('Condition: not met');
+    });
+
+    it('should repeat steps for each element and each data item', async () => {
+      const config = createTestConfig([
+        {
+          type: 'forEach',
+          name: 'Remove items',
+          selector: '.item',
+          as: 'row',
+          steps: [{ type: 'click', name: 'Remove', selector: '${vars.row} .remove' }]
+        },
+        {
+          type: 'forEach',
+          items: '${data.users}',
+          as: 'user',
+          steps: [{ type: 'fill', name: 'Invite', selector: '#invite', value: '${vars.user.email} (${vars.index})' }]
+        },
+        { type: 'fill', selector: '#note', value: '${vars.user.email}' }
+      ]);
+      config.parameters['data'] = { users: [{ email: 'a@example.com' }, { email: 'b@example.com' }] };
+
+      const result = await engine.execute(config);
+
+      expect(mockPage.click.mock.calls.map(call => call[0])).toEqual([
+        '.item >> nth=0 .remove',
+        '.item >> nth=1 .remove',
+        '.item >> nth=2 .remove'
+      ]);
+      expect(mockPage.fill).toHaveBeenCalledWith('#invite', 'a@example.com (0)', expect.any(Object));
+      expect(mockPage.fill).toHaveBeenCalledWith('#invite', 'b@example.com (1)', expect.any(Object));
+      expect(result.output).toContain('Remove items [3] › Remove');
+      expect(result.status).toBe('failed');
+      expect(result.errors[0]!.message).toBe('Variable "vars.user.email" is not defined');
+    });
+
+    it('should retry steps until the condition holds', async () => {
+      mockElements['#status'] = { text: 'Pending' };
+      mockPage.click.mockImplementation(() => {
+        if (mockPage.click.mock.calls.length === 2) {
+          mockElements['#status'] = { text: 'Ready' };
+        }
+        return Promise.resolve();
+      });
+
+      const result = await engine.execute(createTestConfig([
+        {
+          type: 'retryUntil',
+          name: 'Refresh until ready',
+          selector: '#status',
+          condition: { type: 'text', expected: 'Ready' },
+          interval: 10,
+          steps: [{ type: 'click', name: 'Refresh', selector: '#refresh' }]
+        }
+      ]));
+
+      expect(result.status).toBe('passed');
+      expect(mockPage.click).toHaveBeenCalledTimes(2);
+      expect(mockPage.waitForTimeout).toHaveBeenCalledWith(10);
+      expect(result.output).toContain('Refresh until ready [attempt 2] › Refresh');
+      expect(result.output).toContain('Attempts: 2');
+      mockPage.click.mockReset();
+    });
+
+    it('should fail when the condition never holds', async () => {
+      mockElements['#status'] = { text: 'Pending' };
+
+      const result = await engine.execute(createTestConfig([
+        {
+          type: 'retryUntil',
+          selector: '#status',
+          condition: { type: 'text', expected: 'Ready' },
+          attempts: 2,
+          steps: [{ type: 'click', selector: '#refresh' }]
+        }
+      ]));
+
+      expect(mockPage.click).toHaveBeenCalledTimes(2);
+      expect(result.errors[0]!.message).toBe(
+        'Condition not met after 2 attempt(s): expected text of locator(\'#status\') to contain "Ready", received "Pending"'
+      );
+    });
+
+    it('should include sub-flows with their parameters', async () => {
+      engine.registerFlow('login', {
+        params: ['user'],
+        steps: [
+          { type: 'fill', name: 'Enter email', selector: '#email', value: '${params.user.email}' },
+          { type: 'click', name: 'Sign in', selector: '#login', capture: { as: 'page', from: 'url' } }
+        ]
+      });
+      const config = createTestConfig([
+        { type: 'flow', flow: 'login', params: { user: '${data.user}' } },
+        { type: 'navigate', url: '${vars.page}#done' }
+      ]);
+      config.parameters['data'] = { user: { email: 'qa@example.com' } };
+
+      const result = await engine.execute(config);
+
+      expect(result.status).toBe('passed');
+      expect(mockPage.fill).toHaveBeenCalledWith('#email', 'qa@example.com', expect.any(Object));
+      expect(mockPage.goto).toHaveBeenCalledWith('http://localhost/checkout?step=2#done', expect.any(Object));
+      expect(result.output).toContain('flow login › Enter email');
+    });
+
+    it('should reject unknown, recursive and under-parameterized flows', async () => {
+      engine.registerFlow('loop', { steps: [{ type: 'flow', flow: 'loop' }] });
+      engine.registerFlow('login', { params: ['user'], steps: [{ type: 'click', selector: '#login' }] });
+
+      const unknown = await engine.execute(createTestConfig([{ type: 'flow', flow: 'checkout' }]));
+      const recursive = await engine.execute(createTestConfig([{ type: 'flow', flow: 'loop' }]));
+      const missing = await engine.execute(createTestConfig([{ type: 'flow', flow: 'login' }]));
+
+      expect(unknown.errors[0]!.message).toBe('Unknown flow: checkout');
+      expect(recursive.errors[0]!.message).toBe('Flow "loop" includes itself: loop -> loop');
+      expect(missing.errors[0]!.message).toBe('Flow "login" requires parameter(s): user');
+    });
+  });
+
+  describe('matrix cells', () => {
+    it('should run a cell on its own browser with its device and locale', async () => {
+      const playwright = jest.requireMock('playwright');
+
+      const result = await engine.execute({
+        ...createTestConfig([{ type: 'click', selector: '#pay' }]),
+        matrixCell: { id: 'webkit/iPhone 13/de-DE', browser: 'webkit', device: 'iPhone 13', locale: 'de-DE' }
+      });
+
+      expect(result.status).toBe('passed');
+      expect(playwright.webkit.launch).toHaveBeenCalledTimes(1);
+      const browser = await playwright.webkit.launch.mock.results[0].value;
+      const cellOptions = browser.newContext.mock.calls[browser.newContext.mock.calls.length - 1][0];
+      expect(cellOptions).toMatchObject({
+        userAgent: 'Mozilla/5.0 (iPhone)',
+        viewport: { width: 390, height: 664 },
+        isMobile: true,
+        locale: 'de-DE'
+      });
+      expect(cellOptions).not.toHaveProperty('defaultBrowserType');
+    });
+
+    it('should drop mobile emulation on firefox and apply cell viewports', async () => {
+      const playwright = jest.requireMock('playwright');
+
+      await engine.execute({
+        ...createTestConfig([{ type: 'click', selector: '#pay' }]),
+        matrixCell: { id: 'firefox/iPhone 13', browser: 'firefox', device: 'iPhone 13' }
+      });
+      await engine.execute({
+        ...createTestConfig([{ type: 'click', selector: '#pay' }]),
+        matrixCell: { id: 'firefox/mobile', browser: 'firefox', viewport: { name: 'mobile', width: 375, height: 667 } }
+      });
+
+      // The firefox browser is launched once and reused by later cells
+      expect(playwright.firefox.launch).toHaveBeenCalledTimes(1);
+      const browser = await playwright.firefox.launch.mock.results[0].value;
+      const [deviceOptions, viewportOptions] = browser.newContext.mock.calls.slice(-2).map((call: any[]) => call[0]);
+      expect(deviceOptions).not.toHaveProperty('isMobile');
+      expect(deviceOptions.hasTouch).toBe(true);
+      expect(viewportOptions.viewport).toEqual({ width: 375, height: 667 });
+    });
+
+    it('should fail cells with unknown devices', async () => {
+      const result = await engine.execute({
+        ...createTestConfig([{ type: 'click', selector: '#pay' }]),
+        matrixCell: { id: 'Nokia 3310', device: 'Nokia 3310' }
+      });
+
+      expect(result.status).toBe('failed');
+      expect(result.errors[0]!.message).toContain('Unknown device: Nokia 3310');
+    });
+  });
+
+  describe('network modes', () => {
+    function createRoute(url: string) {
+      return {
+        request: () => ({ method: () => 'GET', url: () => url, headers: () => ({}), postData: () => null }),
+        fulfill: jest.fn(),
+        abort: jest.fn()
+      };
+    }
+
+    it('should record each test to its own HAR file in a context of its own', async () => {
+      const playwright = jest.requireMock('playwright');
+      const harPath = path.join(outputDir, 'har', 'checkout.har');
+      fs.mkdirSync(path.dirname(harPath), { recursive: true });
+      fs.writeFileSync(harPath, '{"log":{"entries":[]}}');
+
+      const config = createTestConfig([{ type: 'click', selector: '#pay' }]);
+      config.parameters['network'] = { mode: 'record' };
+      const result = await engine.execute(config);
+
+      const browser = await playwright.chromium.launch.mock.results[0].value;
+      const context = await browser.newContext.mock.results[0].value;
+      expect(result.status).toBe('passed');
+      expect(browser.newContext.mock.calls[browser.newContext.mock.calls.length - 1][0].recordHar).toEqual({ path: harPath });
+      expect(context.close).toHaveBeenCalled();
+      expect(result.artifacts).toContainEqual(expect.objectContaining({ type: 'har', path: harPath, size: 22 }));
+    });
+
+    it('should replay responses from a HAR file and fail on unrecorded requests', async () => {
+      const harPath = path.join(outputDir, 'har', 'cart.har');
+      fs.mkdirSync(path.dirname(harPath), { recursive: true });
+      fs.writeFileSync(harPath, JSON.stringify({
+        log: {
+          entries: [{
+            request: { method: 'GET', url: 'http://localhost/api/cart?ts=1', headers: [] },
+            response: { status: 200, headers: [], content: { text: '{"items":[]}' } }
+          }]
+        }
+      }));
+      const cart = createRoute('http://localhost/api/cart?ts=2');
+      const orders = createRoute('http://localhost/api/orders');
+      mockPage.route.mockImplementationOnce(async (_url: string, handler: (route: unknown) => Promise<void>) => {
+        mockPage.goto.mockImplementationOnce(async () => {
+          await handler(cart);
+          await handler(orders);
+        });
+      });
+
+      const config = createTestConfig([{ type: 'click', selector: '#pay' }]);
+      config.parameters['url'] = 'http://localhost/checkout';
+      config.parameters['network'] = { mode: 'replay', har: 'cart.har', match: { ignoreQueryParams: ['ts'] } };
+      const result = await engine.execute(config);
+
+      expect(cart.fulfill).toHaveBeenCalledWith(expect.objectContaining({ status: 200, body: '{"items":[]}' }));
+      expect(orders.abort).toHaveBeenCalled();
+      expect(result.status).toBe('failed');
+      expect(result.errors).toEqual([expect.objectContaining({
+        message: `No recorded response in ${harPath} for GET http://localhost/api/orders`,
+        type: 'network_error',
+        context: { request: 'GET http://localhost/api/orders', har: harPath }
+      })]);
+    });
+
+    it('should reject HAR files outside the HAR directory', async () => {
+      const playwright = jest.requireMock('playwright');
+      const browser = await playwright.chromium.launch.mock.results[0].value;
+      const contexts = browser.newContext.mock.calls.length;
+
+      for (const har of ['../results.json', path.join(os.tmpdir(), 'escape.har')]) {
+        const config = createTestConfig([{ type: 'click', selector: '#pay' }]);
+        config.parameters['network'] = { mode: 'record', har };
+        const result = await engine.execute(config);
+
+        expect(result.status).toBe('failed');
+        expect(result.errors[0]!.message).toContain(`HAR file ${har} is outside ${path.join(outputDir, 'har')}`);
+      }
+      expect(browser.newContext.mock.calls.length).toBe(contexts);
+    });
+
+    it('should fail replayed tests whose HAR file is missing', async () => {
+      const config = createTestConfig([{ type: 'click', selector: '#pay' }]);
+      config.name = 'checkout (not recorded)';
+      config.parameters['network'] = { mode: 'replay' };
+      const result = await engine.execute(config);
+
+      expect(result.status).toBe('failed');
+      expect(result.errors[0]!.message).toContain(`Cannot replay HAR file ${path.join(outputDir, 'har', 'checkout__not_recorded_.har')}`);
+    });
+  });
+
+  it('should run generated test case steps in order', async () => {
+    const steps: TestStep[] = [
+      { order: 3, action: 'Verify total', actionType: 'verify', selector: '#total', inputData: { expectedText: '$42.00' } },
+      { order: 1, action: 'Open checkout', actionType: 'navigate', inputData: { url: 'http://localhost/checkout' } },
+      { order: 2, action: 'Enter email', actionType: 'type', selector: '#email', inputData: 'a@b.c' }
+    ];
+
+    const result = await engine.execute(createTestConfig(steps));
+
+    expect(result.status).toBe('passed');
+    expect(mockPage.goto.mock.invocationCallOrder[0]).toBeLessThan(
+      mockLocatorActions.pressSequentially.mock.invocationCallOrder[0]!
+    );
+    expect(result.output).toContain('Verify total');
+  });
+
+  it('should run every test of a YAML test file with its own settings', async () => {
+    const filePath = path.join(outputDir, 'checkout.yaml');
+    fs.writeFileSync(filePath, [
+      'version: 1',
+      'suites:',
+      '  - name: Checkout',
+      '    url: http://localhost/checkout',
+      '    tests:',
+      '      - name: shows the total',
+      '        steps:',
+      '          - { type: assert, selector: "#total", assertion: { type: text, expected: "$42.00" } }',
+      '      - name: pays',
+      '        timeout: 300',
+      '        steps:',
+      '          - { type: assert, selector: "#total", assertion: { type: text, expected: "$10.00" } }',
+      '          - { type: click, selector: "#pay" }'
+    ].join('\n'));
+
+    const result = await engine.execute({ ...createTestConfig([]), parameters: {}, filePath });
+
+    expect(result.status).toBe('failed');
+    expect(mockPage.goto).toHaveBeenCalledTimes(2);
+    expect(mockPage.click).not.toHaveBeenCalled();
+    expect(result.metrics.custom).toMatchObject({ totalTests: 2, passedTests: 1, failedTests: 1 });
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]!.context).toMatchObject({ test: 'Checkout › pays' });
+    expect(result.output).toContain('[passed] Checkout › shows the total');
+  });
+
+  it('should fail YAML test files that do not match the schema', async () => {
+    const filePath = path.join(outputDir, 'broken.yaml');
+    fs.writeFileSync(filePath, 'version: 1\nsuites:\n  - name: Checkout\n');
+
+    const result = await engine.execute({ ...createTestConfig([]), parameters: {}, filePath });
+
+    expect(result.status).toBe('failed');
+    expect(result.errors[0]!.message).toContain(`${filePath}:3 suites[0]: missing required property "tests"`);
+  });
+
+  describe('normalizePlaywrightSteps', () => {
+    it('should convert generated step fields and assertions', () => {
+      const steps = normalizePlaywrightSteps([
+        { order: 1, action: 'Upload receipt', actionType: 'upload_file', selector: '#receipt', inputData: 'receipt.pdf', captureScreenshot: true },
+        { order: 2, action: 'Check URL', actionType: 'assert', inputData: { expectedUrl: '/done' }, timeout: 5000 },
+        { order: 3, action: 'Check button', actionType: 'verify', selector: '#pay' },
+        { order: 4, action: 'Check label', actionType: 'assert', selector: '#pay', inputData: { attribute: 'aria-label', expectedValue: 'Pay' } }
+      ]);
+
+      expect(steps).toEqual([
+        { type: 'upload_file', name: 'Upload receipt', selector: '#receipt', files: 'receipt.pdf', screenshot: true },
+        { type: 'assert', name: 'Check URL', timeout: 5000, assertion: { type: 'url', expected: '/done', match: 'contains' } },
+        { type: 'verify', name: 'Check button', selector: '#pay', assertion: { type: 'visible', expected: true } },
+        {
+          type: 'assert',
+          name: 'Check label',
+          selector: '#pay',
+          assertion: { type: 'attribute', attribute: 'aria-label', expected: 'Pay' }
+        }
+      ]);
+    });
+
+    it('should leave engine steps unchanged', () => {
+      const steps = [{ type: 'click' as const, selector: '#pay' }];
+
+      expect(normalizePlaywrightSteps(steps)).toEqual(steps);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the passive security checks
+ */
+
+import { JSDOM } from 'jsdom';
+import { ScannedResponse, runPassiveChecks } from '../../src/engines/SecurityChecks';
+
+function createResponse(url: string, overrides: Partial<ScannedResponse> = {}, html?: string): ScannedResponse {
+  return {
+    url,
+    status: 200,
+    headers: {},
+    cookies: [],
+    body: html ?? '',
+    ...(html !== undefined && { document: new JSDOM(html, { url }).window.document }),
+    ...overrides,
+  };
+}
+
+describe('Passive security checks', () => {
+  it('should require HSTS on HTTPS pages only and accept frame-ancestors for framing', () => {
+    const headers = {
+      'content-security-policy': "default-src 'self'; frame-ancestors 'self'",
+      'x-content-type-options': 'nosniff',
+      'referrer-policy': 'same-origin',
+    };
+
+    const https = runPassiveChecks(createResponse('https://shop.example.com/', { headers }, '<p></p>'), ['security-headers']);
+    const http = runPassiveChecks(createResponse('http://shop.example.com/', { headers }, '<p></p>'), ['security-headers']);
+    const json = runPassiveChecks(createResponse('https://shop.example.com/api', { body: '{}' }), ['security-headers']);
+
+    expect(https).toEqual([expect.objectContaining({ title: 'Missing Strict-Transport-Security header', severity: 'low', cweId: 319 })]);
+    expect(http).toEqual([]);
+    expect(json).toEqual([]);
+  });
+
+  it('should flag cookies without Secure on HTTPS and SameSite=None without Secure', () => {
+    const findings = runPassiveChecks(createResponse('https://shop.example.com/', {
+      cookies: [
+        'session=abc; Path=/; HttpOnly; SameSite=Lax',
+        'tracking=1; HttpOnly; SameSite=None',
+        'prefs=dark; Secure; HttpOnly; SameSite=Strict',
+      ],
+    }), ['insecure-cookies']);
+
+    expect(findings).toEqual([
+      expect.objectContaining({ title: 'Cookie session is set without Secure', severity: 'medium', cweId: 614, key: 'session@https://shop.example.com' }),
+      expect.objectContaining({ title: 'Cookie tracking is set without Secure, SameSite', severity: 'medium' }),
+    ]);
+  });
+
+  it('should rate mixed content by what the page loads over HTTP', () => {
+    const active = runPassiveChecks(createResponse('https://shop.example.com/', {},
+      '<img src="http://cdn.example.com/a.png"><script src="http://cdn.example.com/a.js"></script><script src="https://cdn.example.com/b.js"></script>'),
+    ['mixed-content']);
+    const passive = runPassiveChecks(createResponse('https://shop.example.com/', {}, '<img src="http://cdn.example.com/a.png">'), ['mixed-content']);
+    const plain = runPassiveChecks(createResponse('http://shop.example.com/', {}, '<script src="http://cdn.example.com/a.js"></script>'), ['mixed-content']);
+
+    expect(active).toEqual([expect.objectContaining({
+      severity: 'high',
+      title: 'HTTPS page loads 2 resources over HTTP',
+      evidence: 'http://cdn.example.com/a.js, http://cdn.example.com/a.png',
+    })]);
+    expect(passive).toEqual([expect.objectContaining({ severity: 'low' })]);
+    expect(plain).toEqual([]);
+  });
+
+  it('should recognize stack traces of common platforms', () => {
+    const traces = [
+      'Traceback (most recent call last):\n  File "app.py", line 3',
+      'java.lang.NullPointerException\n\tat com.shop.Cart.total(Cart.java:42)',
+      'Fatal error: Uncaught Error: Call to undefined function in /var/www/index.php on line 12',
+      'System.NullReferenceException\n   at Shop.Cart.Total() in C:\\src\\Cart.cs:line 42',
+    ];
+
+    for (const body of traces) {
+      expect(runPassiveChecks(createResponse('http://shop.example.com/', { body }), ['stack-traces'])).toHaveLength(1);
+    }
+    expect(runPassiveChecks(createResponse('http://shop.example.com/', { body: 'Meet us at 10:30 at the office' }), ['stack-traces'])).toEqual([]);
+  });
+
+  it('should confirm open redirects only to sites named in the request', () => {
+    const named = createResponse('http://shop.example.com/go?to=https://evil.example.com/', {
+      status: 302,
+      headers: { location: 'https://evil.example.com/' },
+    });
+    const fixed = createResponse('http://shop.example.com/logout', {
+      status: 302,
+      headers: { location: 'https://sso.example.com/' },
+    });
+    const links = createResponse('http://shop.example.com/', {},
+      '<a href="/out?url=//evil.example.com">Out</a><a href="/search?q=https://evil.example.com">Search</a><a href="/go?next=/cart">Cart</a>');
+
+    expect(runPassiveChecks(named, ['open-redirects'])).toEqual([expect.objectContaining({ severity: 'high', cweId: 601 })]);
+    expect(runPassiveChecks(fixed, ['open-redirects'])).toEqual([]);
+    expect(runPassiveChecks(links, ['open-redirects'])).toEqual([
+      expect.objectContaining({ severity: 'low', title: 'Link passes an external URL in parameter url' }),
+    ]);
+  });
+});
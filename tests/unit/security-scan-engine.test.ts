@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the security scan engine against a local sample site
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { SecurityScanEngine } from '../../src/engines/SecurityScanEngine';
+import { TestConfig } from '../../src/types';
+import createSecuritySampleApp from '../setup/security-sample-server';
+
+function createConfig(parameters: Record<string, any>): TestConfig {
+  return {
+    name: 'sample-site-scan',
+    type: 'security',
+    filePath: '',
+    timeout: 30000,
+    environment: 'test',
+    parameters,
+    engineConfig: { engine: 'zap', settings: {} },
+    healingConfig: { enabled: false, confidenceThreshold: 0.7, maxAttempts: 1, strategies: [], timeout: 1000 },
+    retryConfig: { maxRetries: 0, delay: 0, backoffMultiplier: 1, maxDelay: 0 },
+  };
+}
+
+describe('SecurityScanEngine', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let engine: SecurityScanEngine;
+
+  beforeAll(async () => {
+    server = http.createServer(createSecuritySampleApp());
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    engine = new SecurityScanEngine();
+    await engine.initialize({ engine: 'zap', settings: { timeout: 120000, policy: 'default' } });
+  });
+
+  afterEach(async () => {
+    await engine.cleanup();
+  });
+
+  it('should register as the zap security engine', () => {
+    expect(engine.name).toBe('zap');
+    expect(engine.testType).toBe('security');
+    expect(engine.supportsHealing).toBe(false);
+  });
+
+  it('should crawl the site and report each weakness once with its severity', async () => {
+    const result = await engine.execute(createConfig({ url: `${baseUrl}/` }));
+
+    expect(result.status).toBe('failed');
+    expect(result.errors.every(error => error.type === 'security_finding')).toBe(true);
+
+    const findings = result.errors.map(error => [error.context['check'], error.severity, error.context['title']]);
+    expect(findings).toEqual(expect.arrayContaining([
+      ['open-redirects', 'high', 'Open redirect to https://evil.example.com'],
+      ['security-headers', 'medium', 'Missing Content-Security-Policy header'],
+      ['security-headers', 'medium', 'Missing X-Frame-Options header'],
+      ['stack-traces', 'medium', 'Response exposes a stack trace'],
+      ['csrf-tokens', 'medium', `Form posting to ${baseUrl}/login has no anti-CSRF token`],
+      ['security-headers', 'low', 'Missing X-Content-Type-Options header'],
+      ['insecure-cookies', 'low', 'Cookie session is set without HttpOnly, SameSite'],
+      ['open-redirects', 'low', 'Link passes an external URL in parameter next'],
+    ]));
+    expect(findings.filter(([check]) => check === 'csrf-tokens')).toHaveLength(1);
+    expect(findings.some(([, , title]) => /Strict-Transport-Security|prefs|mixed/i.test(title))).toBe(false);
+
+    const csp = result.errors.find(error => error.context['title'] === 'Missing Content-Security-Policy header')!;
+    expect(csp.context['urls']).toEqual(expect.arrayContaining([`${baseUrl}/`, `${baseUrl}/login`, `${baseUrl}/error`]));
+    expect(csp.context['urls']).not.toContain(`${baseUrl}/secure`);
+    expect(result.errors[0]!.severity).toBe('high');
+
+    expect(result.metrics.custom).toMatchObject({ pagesScanned: 6, pageErrors: 0, 'findings.high': 1 });
+    expect(result.output).toContain('[HIGH] Open redirect to https://evil.example.com');
+  });
+
+  it('should pass a page without weaknesses and stay within the depth limit', async () => {
+    const result = await engine.execute(createConfig({ target: `${baseUrl}/secure`, maxDepth: 0 }));
+
+    expect(result.status).toBe('passed');
+    expect(result.errors).toEqual([]);
+    expect(result.metrics.custom['pagesScanned']).toBe(1);
+  });
+
+  it('should fail only on findings at least as severe as failOn', async () => {
+    const result = await engine.execute(createConfig({
+      target: `${baseUrl}/login`,
+      maxDepth: 0,
+      checks: ['insecure-cookies', 'security-headers'],
+      failOn: 'high',
+    }));
+
+    expect(result.status).toBe('passed');
+    expect(result.errors.map(error => error.context['check'])).toEqual(expect.arrayContaining(['insecure-cookies', 'security-headers']));
+    expect(result.errors.some(error => error.context['check'] === 'csrf-tokens')).toBe(false);
+  });
+
+  it('should fail with configuration and network errors', async () => {
+    const noTarget = await engine.execute(createConfig({}));
+    const unknownCheck = await engine.execute(createConfig({ target: baseUrl, checks: ['sql-injection'] }));
+    const unreachable = await engine.execute(createConfig({ target: 'http://127.0.0.1:1/', requestTimeout: 2000 }));
+
+    expect(noTarget.errors[0]).toMatchObject({ type: 'configuration_error', message: 'Security scan needs a target URL' });
+    expect(unknownCheck.errors[0]).toMatchObject({ type: 'configuration_error', message: 'Unknown security checks: sql-injection' });
+    expect(unreachable.status).toBe('failed');
+    expect(unreachable.errors[0]).toMatchObject({ type: 'network_error' });
+    expect(unreachable.errors[0]!.message).toContain('Security scan could not fetch http://127.0.0.1:1/');
+  });
+});
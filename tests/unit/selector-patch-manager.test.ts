@@ -0,0 +1,238 @@
+/**
+ * Unit tests for SelectorPatchManager
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SelectorPatchError,
+  SelectorPatchManager,
+  createUnifiedDiff,
+  findSelectorChanges,
+  replaceSelector,
+  targetFromExportedFile
+} from '../../src/healing/SelectorPatchManager';
+import { createStorage, Storage } from '../../src/storage';
+import { TestResult } from '../../src/types';
+import { TestExportResult } from '../../src/types/test-generation';
+
+const SPEC = [
+  "import { test, expect } from '@playwright/test';",
+  '',
+  "test('login', async ({ page }) => {",
+  "  await page.goto('https://example.com/login');",
+  "  await page.fill('#email', 'user@example.com');",
+  "  await page.fill('#password', 'secret');",
+  "  await page.click('#submit');",
+  "  await expect(page.locator(\"#submit\")).toBeHidden();",
+  '});',
+  ''
+].join('\n');
+
+function createResult(metadata: Record<string, any>, success: boolean = true): TestResult {
+  return {
+    id: 'run-1',
+    name: 'login',
+    status: 'passed',
+    startTime: new Date(),
+    duration: 0,
+    output: '',
+    errors: [],
+    metrics: { memoryUsage: 0, cpuUsage: 0, networkRequests: 0, custom: {} },
+    healingAttempts: [{
+      id: 'h1',
+      attemptNumber: 1,
+      strategy: 'css-fallback',
+      result: { id: 'h1', success, actions: [], confidence: 0.75, duration: 10, message: '', metadata },
+      timestamp: new Date()
+    }],
+    artifacts: []
+  };
+}
+
+describe('replaceSelector', () => {
+  it('should replace whole string literals in any quote style', () => {
+    const { content, replacements } = replaceSelector(SPEC, '#submit', '[data-testid="submit"]');
+
+    expect(replacements).toBe(2);
+    expect(content).toContain("page.click('[data-testid=\"submit\"]')");
+    expect(content).toContain('page.locator("[data-testid=\\"submit\\"]")');
+  });
+
+  it('should not touch selectors that only share a prefix', () => {
+    const { replacements } = replaceSelector("page.click('#submit-button')", '#submit', '#send');
+    expect(replacements).toBe(0);
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('should produce hunks with surrounding context', () => {
+    const after = replaceSelector(SPEC, '#email', '#user-email').content;
+    const diff = createUnifiedDiff('tests/e2e/login.spec.ts', SPEC, after);
+
+    expect(diff).toBe([
+      '--- a/tests/e2e/login.spec.ts',
+      '+++ b/tests/e2e/login.spec.ts',
+      '@@ -2,7 +2,7 @@',
+      ' ',
+      " test('login', async ({ page }) => {",
+      "   await page.goto('https://example.com/login');",
+      "-  await page.fill('#email', 'user@example.com');",
+      "+  await page.fill('#user-email', 'user@example.com');",
+      "   await page.fill('#password', 'secret');",
+      "   await page.click('#submit');",
+      '   await expect(page.locator("#submit")).toBeHidden();',
+      ''
+    ].join('\n'));
+  });
+
+  it('should return an empty diff for identical content', () => {
+    expect(createUnifiedDiff('a.ts', SPEC, SPEC)).toBe('');
+  });
+});
+
+describe('findSelectorChanges', () => {
+  it('should only return heals verified by the engine', () => {
+    const selectorPatch = { originalSelector: '#email', healedSelector: '#user-email' };
+
+    expect(findSelectorChanges(createResult({ selectorPatch }))).toEqual([{
+      ...selectorPatch,
+      strategy: 'css-fallback',
+      confidence: 0.75,
+      testId: 'run-1'
+    }]);
+    expect(findSelectorChanges(createResult({}))).toEqual([]);
+    expect(findSelectorChanges(createResult({ selectorPatch }, false))).toEqual([]);
+  });
+});
+
+describe('SelectorPatchManager', () => {
+  let tempDir: string;
+  let outputDir: string;
+  let specPath: string;
+  let storage: Storage;
+  let manager: SelectorPatchManager;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'selector-patch-test-'));
+    outputDir = path.join(tempDir, 'patches');
+    specPath = path.join(tempDir, 'login.spec.ts');
+    fs.writeFileSync(specPath, SPEC);
+    storage = createStorage();
+    manager = new SelectorPatchManager(storage.selectorPatches, { outputDir, autoApproveThreshold: 0.9 });
+  });
+
+  afterEach(() => {
+    storage.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const change = { originalSelector: '#email', healedSelector: '#user-email', strategy: 'css-fallback', confidence: 0.7 };
+
+  it('should queue low-confidence heals for review without writing files', async () => {
+    const patch = await manager.propose(change, { filePath: specPath });
+
+    expect(patch.status).toBe('pending');
+    expect(patch.replacements).toBe(1);
+    expect(patch.diff).toContain("+  await page.fill('#user-email', 'user@example.com');");
+    expect(fs.existsSync(outputDir)).toBe(false);
+    expect(fs.readFileSync(specPath, 'utf8')).toBe(SPEC);
+  });
+
+  it('should auto-approve high-confidence heals and write the diff and selector map', async () => {
+    const patch = await manager.propose({ ...change, confidence: 0.95 }, { filePath: specPath });
+
+    expect(patch.status).toBe('approved');
+    expect(patch.reviewedBy).toBe('auto');
+    expect(fs.readFileSync(patch.artifacts!.diffPath, 'utf8')).toBe(patch.diff);
+
+    const map = JSON.parse(fs.readFileSync(patch.artifacts!.selectorMapPath, 'utf8'));
+    expect(path.dirname(patch.artifacts!.selectorMapPath)).toBe(outputDir);
+    expect(path.basename(patch.artifacts!.selectorMapPath)).toMatch(/__login\.spec\.selectors\.json$/);
+    expect(map.file).toBe(specPath);
+    expect(map.selectors['#email']).toMatchObject({ selector: '#user-email', patchId: patch.id, confidence: 0.95 });
+  });
+
+  it('should name selector maps by the relative spec path', () => {
+    expect(manager.getSelectorMapPath('tests/a/login.spec.ts'))
+      .toBe(path.join(outputDir, 'tests__a__login.spec.selectors.json'));
+    expect(manager.getSelectorMapPath(path.join(process.cwd(), 'tests/b/login.spec.ts')))
+      .toBe(path.join(outputDir, 'tests__b__login.spec.selectors.json'));
+  });
+
+  it('should approve pending patches and merge them into the selector map', async () => {
+    await manager.propose({ ...change, confidence: 0.95 }, { filePath: specPath });
+    const pending = await manager.propose(
+      { ...change, originalSelector: '#submit', healedSelector: 'button[type="submit"]' },
+      { filePath: specPath }
+    );
+
+    const approved = await manager.approve(pending.id, 'reviewer@example.com', 'Looks right');
+
+    expect(approved).toMatchObject({ status: 'approved', reviewedBy: 'reviewer@example.com', reason: 'Looks right' });
+    const map = JSON.parse(fs.readFileSync(approved!.artifacts!.selectorMapPath, 'utf8'));
+    expect(Object.keys(map.selectors).sort()).toEqual(['#email', '#submit']);
+    expect((await storage.selectorPatches.findById(pending.id))!.status).toBe('approved');
+  });
+
+  it('should reject pending patches and refuse to review them again', async () => {
+    const patch = await manager.propose(change, { filePath: specPath });
+
+    expect((await manager.reject(patch.id, 'reviewer', 'Wrong field'))!.status).toBe('rejected');
+    await expect(manager.approve(patch.id)).rejects.toMatchObject({ code: 'invalid_state' });
+    expect(fs.existsSync(outputDir)).toBe(false);
+  });
+
+  it('should return null when reviewing unknown patches', async () => {
+    expect(await manager.approve('missing')).toBeNull();
+    expect(await manager.reject('missing')).toBeNull();
+  });
+
+  it('should return the existing patch for a repeated heal', async () => {
+    const first = await manager.propose(change, { filePath: specPath });
+    const second = await manager.propose(change, { filePath: specPath });
+
+    expect(second.id).toBe(first.id);
+    expect(await storage.selectorPatches.count()).toBe(1);
+  });
+
+  it('should reject heals that cannot be applied to the source', async () => {
+    await expect(manager.propose({ ...change, originalSelector: '#missing' }, { filePath: specPath }))
+      .rejects.toMatchObject({ code: 'selector_not_found' });
+    await expect(manager.propose(change, { filePath: path.join(tempDir, 'absent.spec.ts') }))
+      .rejects.toMatchObject({ code: 'source_unavailable' });
+    await expect(manager.propose({ ...change, healedSelector: '#email' }, { filePath: specPath }))
+      .rejects.toThrow(SelectorPatchError);
+  });
+
+  it('should patch exported files from their generated content', async () => {
+    const exportResult = {
+      metadata: { outputDir: './tests/e2e' },
+      files: [{ path: 'login.spec.ts', type: 'test', size: SPEC.length, preview: SPEC, metadata: {} }]
+    } as unknown as TestExportResult;
+
+    const target = targetFromExportedFile(exportResult, exportResult.files[0]!);
+    const patch = await manager.propose(change, target);
+
+    expect(patch.filePath).toBe(path.join('./tests/e2e', 'login.spec.ts'));
+    expect(patch.diff.startsWith('--- a/tests/e2e/login.spec.ts\n')).toBe(true);
+  });
+
+  it('should propose patches for verified heals in a test result and skip the rest', async () => {
+    const result = createResult({ selectorPatch: { originalSelector: '#email', healedSelector: '#user-email' } });
+    result.healingAttempts.push({
+      ...result.healingAttempts[0]!,
+      id: 'h2',
+      result: {
+        ...result.healingAttempts[0]!.result,
+        metadata: { selectorPatch: { originalSelector: '#runtime-only', healedSelector: '#other' } }
+      }
+    });
+
+    const patches = await manager.proposeFromResult(result, { filePath: specPath });
+
+    expect(patches).toHaveLength(1);
+    expect(patches[0]).toMatchObject({ testId: 'run-1', originalSelector: '#email', status: 'pending' });
+  });
+});
@@ -209,6 +209,25 @@ describe('SimpleLocatorStrategy', () => {
       expect(result.metadata).toBeDefined();
       expect(result.metadata['strategy']).toBe('simple-locator');
     });
+
+    it('should stop at the attempt budget without treating it as system load', async () => {
+      const context: HealingContext = {
+        ...healingContext,
+        maxAttempts: 5,
+        systemState: { ...healingContext.systemState, load: 0.1 },
+      };
+      const single = await new SimpleLocatorStrategy(0).heal(testFailure, { ...context, maxAttempts: 1 });
+
+      const results = [];
+      for (let i = 0; i < 6; i++) {
+        results.push(await strategy.heal(testFailure, context));
+      }
+
+      expect(results.slice(0, 5).every(result => result.success)).toBe(true);
+      expect(results[0]!.confidence).toBe(single.confidence);
+      expect(results[5]!.success).toBe(false);
+      expect(results[5]!.message).toContain('Maximum healing attempts exceeded');
+    });
   });
 
   describe('Error Handling', () => {
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for step expressions
+ */
+
+import {
+  ExpressionError,
+  ExpressionScope,
+  readPath,
+  resolveExpressionValue,
+  resolveExpressions,
+  resolveValueExpressions
+} from '../../src/engines/StepExpressions';
+
+describe('Step expressions', () => {
+  const scope: ExpressionScope = {
+    env: { BASE_URL: 'https://staging.example.com' },
+    data: { user: { email: 'qa@example.com', roles: ['admin', 'viewer'] }, retries: 3 },
+    vars: { orderId: 'A-1042' },
+    params: {}
+  };
+
+  it('should resolve environment variables, test data and captured values', () => {
+    const resolved: Record<string, string> = {};
+
+    expect(resolveExpressions('${env.BASE_URL}/orders/${vars.orderId}', scope, resolved)).toBe(
+      'https://staging.example.com/orders/A-1042'
+    );
+    expect(resolveExpressions('${data.user.roles[1]} x${data.retries}', scope)).toBe('viewer x3');
+    expect(resolveExpressions('${ data.user }', scope)).toBe('{"email":"qa@example.com","roles":["admin","viewer"]}');
+    expect(resolved).toEqual({
+      '${env.BASE_URL}': 'https://staging.example.com',
+      '${vars.orderId}': 'A-1042'
+    });
+  });
+
+  it('should call built-in functions', () => {
+    expect(resolveExpressions('${uuid()}', scope)).toMatch(/^[0-9a-f-]{36}$/);
+    expect(resolveExpressions('${now()}', scope)).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(resolveExpressions("${now('date')}", scope)).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(resolveExpressions('${now("epoch")}', scope)).toMatch(/^\d+$/);
+    expect(resolveExpressions("${randomEmail('test.dev')}", scope)).toMatch(/^user-[0-9a-f]{8}@test\.dev$/);
+    expect(Number(resolveExpressions('${randomInt(5, 6)}', scope))).toBeGreaterThanOrEqual(5);
+    expect(resolveExpressions('${randomString(12)}', scope)).toMatch(/^[a-z0-9]{12}$/);
+  });
+
+  it('should keep escaped expressions and plain strings', () => {
+    expect(resolveExpressions('$${vars.orderId} costs $5', scope)).toBe('${vars.orderId} costs $5');
+  });
+
+  it('should reject missing variables and invalid expressions', () => {
+    expect(() => resolveExpressions('${vars.invoiceId}', scope)).toThrow('Variable "vars.invoiceId" is not defined');
+    expect(() => resolveExpressions('${env.MISSING}', scope)).toThrow(ExpressionError);
+    expect(() => resolveExpressions('${orderId}', scope)).toThrow('variables start with env., data., vars. or params.');
+    expect(() => resolveExpressions('${vars.a + 1}', scope)).toThrow('Invalid expression "${vars.a + 1}"');
+    expect(() => resolveExpressions('${hash()}', scope)).toThrow('Unknown function "hash"');
+    expect(() => resolveExpressions('${now(iso)}', scope)).toThrow('Invalid argument "iso"');
+    expect(() => resolveExpressions("${now('week')}", scope)).toThrow('unknown format "week"');
+  });
+
+  it('should resolve every string of a step', () => {
+    const step = {
+      type: 'assert',
+      selector: '[data-order="${vars.orderId}"]',
+      timeout: 500,
+      assertion: { type: 'text', expected: '${data.user.email}' }
+    };
+
+    expect(resolveValueExpressions(step, scope)).toEqual({
+      type: 'assert',
+      selector: '[data-order="A-1042"]',
+      timeout: 500,
+      assertion: { type: 'text', expected: 'qa@example.com' }
+    });
+    expect(step.selector).toBe('[data-order="${vars.orderId}"]');
+  });
+
+  it('should keep the type of values read by a single expression', () => {
+    const resolved: Record<string, string> = {};
+
+    expect(resolveExpressionValue('${data.user.roles}', scope, resolved)).toEqual(['admin', 'viewer']);
+    expect(resolveExpressionValue('${data.retries}', scope)).toBe(3);
+    expect(resolveExpressionValue('id-${data.retries}', scope)).toBe('id-3');
+    expect(resolveExpressionValue(['${vars.orderId}'], scope)).toEqual(['A-1042']);
+    expect(resolved).toEqual({ '${data.user.roles}': '["admin","viewer"]' });
+  });
+
+  it('should read dot paths', () => {
+    expect(readPath({ items: [{ id: 7 }] }, 'items[0].id')).toBe(7);
+    expect(readPath({ items: [] }, 'items[0].id')).toBeUndefined();
+  });
+});
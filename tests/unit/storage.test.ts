@@ -0,0 +1,291 @@
+/**
+ * Unit tests for the storage repository layer
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createStorage,
+  loadMigrations,
+  MigrationError,
+  MigrationRunner,
+  SqliteDriver,
+  Storage,
+  StorageError,
+  HealingAttemptRecord
+} from '../../src/storage';
+import { DatabaseConfig } from '../../src/config/schemas';
+import { TestResult, TestStatus } from '../../src/types';
+
+const MIGRATIONS_PATH = path.join(__dirname, '../../migrations');
+
+function sqliteConfig(filename: string): DatabaseConfig {
+  return {
+    enabled: true,
+    type: 'sqlite',
+    connection: { filename },
+    migrations: { enabled: true, path: MIGRATIONS_PATH }
+  };
+}
+
+function createResult(id: string, name: string, status: TestStatus, startTime: string, duration: number): TestResult {
+  return {
+    id,
+    name,
+    status,
+    startTime: new Date(startTime),
+    endTime: new Date(new Date(startTime).getTime() + duration),
+    duration,
+    output: '',
+    errors: [],
+    metrics: { memoryUsage: 0, cpuUsage: 0, networkRequests: 0, custom: {} },
+    healingAttempts: [],
+    artifacts: []
+  };
+}
+
+function createAttempt(id: string, testId: string, strategy: string, success: boolean, confidence: number): HealingAttemptRecord {
+  return {
+    id,
+    testId,
+    strategy,
+    success,
+    confidence,
+    duration: 100,
+    message: 'Healing attempt completed',
+    actions: [],
+    metadata: {},
+    timestamp: new Date('2025-01-01T10:00:00.000Z')
+  };
+}
+
+const drivers: Array<[string, () => Storage]> = [
+  ['memory', () => createStorage()],
+  ['sqlite', () => createStorage(sqliteConfig(':memory:'))]
+];
+
+describe.each(drivers)('Storage (%s driver)', (_name, factory) => {
+  let storage: Storage;
+
+  beforeEach(async () => {
+    storage = factory();
+    await storage.testResults.save(createResult('r1', 'login playwright test', 'passed', '2025-01-01T10:00:00.000Z', 300));
+    await storage.testResults.save(createResult('r2', 'checkout playwright test', 'failed', '2025-01-02T10:00:00.000Z', 100));
+    await storage.testResults.save(createResult('r3', 'api jest test', 'passed', '2025-01-03T10:00:00.000Z', 200));
+  });
+
+  afterEach(() => {
+    storage.close();
+  });
+
+  it('should round-trip records with dates restored', async () => {
+    const result = await storage.testResults.findById('r1');
+
+    expect(result).not.toBeNull();
+    expect(result!.startTime).toBeInstanceOf(Date);
+    expect(result!.startTime.toISOString()).toBe('2025-01-01T10:00:00.000Z');
+    expect(result!.metrics.custom).toEqual({});
+  });
+
+  it('should return null for unknown IDs', async () => {
+    expect(await storage.testResults.findById('missing')).toBeNull();
+  });
+
+  it('should replace records saved with an existing ID', async () => {
+    await storage.testResults.save(createResult('r1', 'login playwright test', 'failed', '2025-01-01T10:00:00.000Z', 300));
+
+    expect(await storage.testResults.count()).toBe(3);
+    expect((await storage.testResults.findById('r1'))!.status).toBe('failed');
+  });
+
+  it('should filter by status, name and date range', async () => {
+    expect((await storage.testResults.findAll({ status: 'passed' })).map(r => r.id).sort()).toEqual(['r1', 'r3']);
+    expect((await storage.testResults.findAll({ engine: 'playwright' })).map(r => r.id).sort()).toEqual(['r1', 'r2']);
+    expect((await storage.testResults.findAll({
+      startDate: new Date('2025-01-02T00:00:00.000Z'),
+      endDate: new Date('2025-01-02T23:59:59.000Z')
+    })).map(r => r.id)).toEqual(['r2']);
+  });
+
+  it('should filter by several statuses, exact test name and matrix runs', async () => {
+    await storage.testResults.save(createResult('r4', 'login playwright test', 'timeout', '2025-01-04T10:00:00.000Z', 100));
+    await storage.testResults.save({ ...createResult('r5', 'login playwright test', 'passed', '2025-01-05T10:00:00.000Z', 100), matrix: { cells: [], summary: '' } });
+
+    expect((await storage.testResults.findAll({ statuses: ['failed', 'timeout'] })).map(r => r.id).sort()).toEqual(['r2', 'r4']);
+    expect((await storage.testResults.findAll({ statuses: [] }))).toEqual([]);
+    expect((await storage.testResults.findAll({ exactTestName: 'login' }))).toEqual([]);
+    expect((await storage.testResults.findAll({ exactTestName: 'login playwright test', matrix: false }))
+      .map(r => r.id).sort()).toEqual(['r1', 'r4']);
+  });
+
+  it('should return the latest records of each group', async () => {
+    await storage.testResults.save(createResult('r4', 'login playwright test', 'failed', '2025-01-04T10:00:00.000Z', 100));
+    await storage.testResults.save(createResult('r5', 'login playwright test', 'passed', '2025-01-05T10:00:00.000Z', 100));
+
+    const latest = await storage.testResults.findLatestPerGroup({ engine: 'playwright' }, 'testName', 2);
+
+    expect(latest.map(r => r.id)).toEqual(['r5', 'r4', 'r2']);
+    await expect(storage.testResults.findLatestPerGroup(undefined, 'duration', 2)).rejects.toThrow(StorageError);
+  });
+
+  it('should sort by mapped fields in both directions', async () => {
+    const byStart = await storage.testResults.find({}, { sortBy: 'createdAt', sort: 'desc' });
+    expect(byStart.items.map(r => r.id)).toEqual(['r3', 'r2', 'r1']);
+
+    const byDuration = await storage.testResults.find({}, { sortBy: 'duration', sort: 'asc' });
+    expect(byDuration.items.map(r => r.id)).toEqual(['r2', 'r3', 'r1']);
+  });
+
+  it('should paginate and report page metadata', async () => {
+    const page = await storage.testResults.find({}, { page: 2, limit: 2, sort: 'asc', sortBy: 'startTime' });
+
+    expect(page.items.map(r => r.id)).toEqual(['r3']);
+    expect(page).toMatchObject({ page: 2, limit: 2, total: 3, totalPages: 2, hasNext: false, hasPrev: true });
+  });
+
+  it('should normalize invalid pagination input', async () => {
+    const page = await storage.testResults.find({}, { page: NaN, limit: -5 });
+
+    expect(page.page).toBe(1);
+    expect(page.limit).toBe(10);
+    expect(page.items).toHaveLength(3);
+  });
+
+  it('should filter healing attempts by success and confidence', async () => {
+    await storage.healingAttempts.save(createAttempt('h1', 'r1', 'css-fallback', true, 0.9));
+    await storage.healingAttempts.save(createAttempt('h2', 'r1', 'id-fallback', false, 0.2));
+    await storage.healingAttempts.save(createAttempt('h3', 'r2', 'css-fallback', true, 0.5));
+
+    expect((await storage.healingAttempts.findAll({ success: false })).map(a => a.id)).toEqual(['h2']);
+    expect((await storage.healingAttempts.findAll({ testId: 'r1', minConfidence: 0.5 })).map(a => a.id)).toEqual(['h1']);
+    expect(await storage.healingAttempts.count({ strategy: 'css-fallback' })).toBe(2);
+  });
+
+  it('should store reports and filter by type', async () => {
+    await storage.reports.save({
+      id: 'rep1',
+      type: 'health',
+      title: 'Health',
+      format: 'json',
+      status: 'completed',
+      createdAt: new Date(),
+      content: { data: { ok: true } },
+      metadata: {}
+    });
+
+    expect(await storage.reports.count({ type: 'health' })).toBe(1);
+    expect(await storage.reports.count({ type: 'metrics' })).toBe(0);
+    expect((await storage.reports.findById('rep1'))!.content).toEqual({ data: { ok: true } });
+  });
+
+  it('should filter selector patches by status and file', async () => {
+    const patch = {
+      id: 'p1',
+      filePath: 'tests/login.spec.ts',
+      originalSelector: '#email',
+      healedSelector: '#user-email',
+      strategy: 'css-fallback',
+      confidence: 0.7,
+      status: 'pending' as const,
+      diff: '',
+      replacements: 1,
+      createdAt: new Date('2025-01-01T10:00:00.000Z')
+    };
+    await storage.selectorPatches.save(patch);
+    await storage.selectorPatches.save({ ...patch, id: 'p2', status: 'approved', filePath: 'tests/cart.spec.ts' });
+
+    expect((await storage.selectorPatches.findAll({ status: 'pending' })).map(p => p.id)).toEqual(['p1']);
+    expect((await storage.selectorPatches.findAll({ filePath: 'tests/cart.spec.ts' })).map(p => p.id)).toEqual(['p2']);
+  });
+
+  it('should delete and clear records', async () => {
+    expect(await storage.testResults.delete('r1')).toBe(true);
+    expect(await storage.testResults.delete('r1')).toBe(false);
+
+    await storage.testResults.clear();
+    expect(await storage.testResults.count()).toBe(0);
+  });
+});
+
+describe('createStorage', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should use memory storage when the database is disabled', () => {
+    const storage = createStorage({ ...sqliteConfig(':memory:'), enabled: false });
+    expect(storage.type).toBe('memory');
+    storage.close();
+  });
+
+  it('should reject unsupported database types', () => {
+    expect(() => createStorage({ ...sqliteConfig(':memory:'), type: 'postgresql' })).toThrow(StorageError);
+  });
+
+  it('should persist records across reopening a SQLite file', async () => {
+    const filename = path.join(tempDir, 'nested', 'harness.db');
+
+    const first = createStorage(sqliteConfig(filename));
+    await first.testResults.save(createResult('r1', 'persisted test', 'passed', '2025-01-01T10:00:00.000Z', 50));
+    first.close();
+
+    const second = createStorage(sqliteConfig(filename));
+    expect((await second.testResults.findById('r1'))!.name).toBe('persisted test');
+    second.close();
+  });
+});
+
+describe('MigrationRunner', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should apply pending migrations once', () => {
+    const driver = SqliteDriver.open(':memory:');
+    const runner = new MigrationRunner(driver.database, MIGRATIONS_PATH);
+
+    expect(runner.run()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(runner.run()).toEqual([]);
+    expect(runner.getAppliedVersions()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    driver.close();
+  });
+
+  it('should load migrations in version order and ignore other files', () => {
+    fs.writeFileSync(path.join(tempDir, '002_second.sql'), 'CREATE TABLE b (id TEXT);');
+    fs.writeFileSync(path.join(tempDir, '001_first.sql'), 'CREATE TABLE a (id TEXT);');
+    fs.writeFileSync(path.join(tempDir, 'README.md'), 'notes');
+
+    expect(loadMigrations(tempDir).map(m => `${m.version}_${m.name}`)).toEqual(['1_first', '2_second']);
+  });
+
+  it('should reject duplicate migration versions', () => {
+    fs.writeFileSync(path.join(tempDir, '001_first.sql'), 'CREATE TABLE a (id TEXT);');
+    fs.writeFileSync(path.join(tempDir, '001_other.sql'), 'CREATE TABLE b (id TEXT);');
+
+    expect(() => loadMigrations(tempDir)).toThrow(MigrationError);
+  });
+
+  it('should roll back a failing migration', () => {
+    fs.writeFileSync(path.join(tempDir, '001_broken.sql'), 'CREATE TABLE a (id TEXT); INVALID SQL;');
+    const driver = SqliteDriver.open(':memory:');
+    const runner = new MigrationRunner(driver.database, tempDir);
+
+    expect(() => runner.run()).toThrow(MigrationError);
+    expect(runner.getAppliedVersions()).toEqual([]);
+    expect(driver.database.prepare("SELECT name FROM sqlite_master WHERE name = 'a'").get()).toBeUndefined();
+    driver.close();
+  });
+});
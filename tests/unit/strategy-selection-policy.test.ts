@@ -0,0 +1,253 @@
+/**
+ * Unit tests for strategy selection policies and their use by the HealingEngine
+ */
+
+import { HealingEngine } from '../../src/healing/HealingEngine';
+import {
+  ConfidenceFirstSelectionPolicy,
+  EpsilonGreedySelectionPolicy,
+  StaticSelectionPolicy,
+  StrategyCandidate,
+  StrategyOutcomeTracker,
+  SuccessRateSelectionPolicy,
+  createSelectionPolicy,
+  failureSite
+} from '../../src/healing/StrategySelectionPolicy';
+import {
+  FailureType,
+  HealingContext,
+  HealingResult,
+  IHealingStrategy,
+  TestFailure
+} from '../../src/types';
+
+function createFailure(url: string = 'https://shop.test/login', type: FailureType = 'element_not_found'): TestFailure {
+  return {
+    id: 'failure-1',
+    testId: 'test-1',
+    type,
+    message: 'Element not found: #email',
+    timestamp: new Date(),
+    context: {
+      testConfig: {
+        name: 'login',
+        type: 'e2e',
+        filePath: 'login.spec.ts',
+        timeout: 5000,
+        environment: 'test',
+        parameters: {},
+        engineConfig: { engine: 'playwright', settings: {} },
+        healingConfig: { enabled: true, confidenceThreshold: 0.6, maxAttempts: 3, strategies: [], timeout: 1000 },
+        retryConfig: { maxRetries: 0, delay: 1, backoffMultiplier: 1, maxDelay: 10 }
+      },
+      browserState: { url, title: 'Login', viewport: { width: 1280, height: 720 }, consoleLogs: [] },
+      environment: { os: 'test', nodeVersion: '20.0.0', environment: 'test', availableMemory: 1024, cpuCount: 1 },
+      custom: { selector: '#email' }
+    },
+    previousAttempts: []
+  };
+}
+
+const context: HealingContext = {
+  availableStrategies: [],
+  previousAttempts: [],
+  systemState: { load: 5, resources: { memory: 0, cpu: 0, disk: 0 }, activeTests: 1, queueLength: 0 },
+  userPreferences: {
+    preferredStrategies: [],
+    riskTolerance: 'medium',
+    notifications: { onHealingAttempt: false, onHealingSuccess: false, onHealingFailure: false }
+  }
+};
+
+/**
+ * Strategy with a fixed outcome that records the order it was called in
+ */
+class ScriptedStrategy implements IHealingStrategy {
+  public readonly version = '1.0.0';
+  public readonly supportedFailureTypes: FailureType[] = ['element_not_found'];
+
+  constructor(
+    public readonly name: string,
+    private succeeds: boolean,
+    private confidence: number,
+    private calls: string[]
+  ) {}
+
+  public async heal(): Promise<HealingResult> {
+    this.calls.push(this.name);
+    return {
+      id: `${this.name}-${this.calls.length}`,
+      success: this.succeeds,
+      actions: [],
+      confidence: this.succeeds ? 0.9 : 0,
+      duration: 1,
+      message: this.succeeds ? 'Healed' : 'Not healed',
+      metadata: { strategy: this.name }
+    };
+  }
+
+  public async calculateConfidence(): Promise<number> {
+    return this.confidence;
+  }
+
+  public canHeal(failure: TestFailure): boolean {
+    return this.supportedFailureTypes.includes(failure.type);
+  }
+}
+
+function candidate(name: string, confidence: number): StrategyCandidate {
+  return { strategy: new ScriptedStrategy(name, true, confidence, []), confidence };
+}
+
+function names(candidates: StrategyCandidate[]): string[] {
+  return candidates.map(c => c.strategy.name);
+}
+
+describe('StrategyOutcomeTracker', () => {
+  let tracker: StrategyOutcomeTracker;
+  const strategy = new ScriptedStrategy('css-fallback', true, 0.5, []);
+
+  beforeEach(() => {
+    tracker = new StrategyOutcomeTracker();
+  });
+
+  it('should use a neutral prior for unobserved strategies', () => {
+    expect(tracker.successRate(strategy, createFailure())).toBe(0.5);
+  });
+
+  it('should prefer outcomes observed on the same site', () => {
+    tracker.record('css-fallback', createFailure('https://shop.test/login'), true);
+    tracker.record('css-fallback', createFailure('https://shop.test/cart'), true);
+    tracker.record('css-fallback', createFailure('https://blog.test/'), false);
+
+    expect(tracker.successRate(strategy, createFailure('https://shop.test/account'))).toBeCloseTo(3 / 4);
+    expect(tracker.successRate(strategy, createFailure('https://blog.test/'))).toBeCloseTo(1 / 3);
+    expect(tracker.successRate(strategy, createFailure('https://new.test/'))).toBeCloseTo(3 / 5);
+    expect(tracker.successRate(strategy, createFailure('https://shop.test/', 'timeout'))).toBeCloseTo(3 / 5);
+  });
+
+  it('should fall back to the statistics a strategy collects itself', () => {
+    const withStatistics = Object.assign(new ScriptedStrategy('xpath-fallback', true, 0.5, []), {
+      getStatistics: () => ({ totalAttempts: 8, successCount: 0 })
+    });
+
+    expect(tracker.successRate(withStatistics, createFailure())).toBeCloseTo(0.1);
+  });
+
+  it('should report raw success rates per strategy', () => {
+    tracker.record('css-fallback', createFailure(), true);
+    tracker.record('css-fallback', createFailure(), false);
+    tracker.record('id-fallback', createFailure(), true);
+
+    expect(tracker.ratesByStrategy()).toEqual({ 'css-fallback': 0.5, 'id-fallback': 1 });
+  });
+
+  it('should derive the site from the failing page URL', () => {
+    expect(failureSite(createFailure('https://shop.test:8443/login'))).toBe('shop.test:8443');
+    expect(failureSite(createFailure('not a url'))).toBe('');
+  });
+});
+
+describe('Strategy selection policies', () => {
+  const candidates = [candidate('xpath-fallback', 0.9), candidate('css-fallback', 0.4), candidate('id-fallback', 0.6)];
+  let outcomes: StrategyOutcomeTracker;
+
+  beforeEach(() => {
+    outcomes = new StrategyOutcomeTracker();
+    outcomes.record('xpath-fallback', createFailure(), false);
+    outcomes.record('id-fallback', createFailure(), true);
+  });
+
+  it('should keep name order for the static policy', () => {
+    expect(names(new StaticSelectionPolicy().order(candidates))).toEqual(['css-fallback', 'id-fallback', 'xpath-fallback']);
+  });
+
+  it('should order by reported confidence for the confidence-first policy', () => {
+    expect(names(new ConfidenceFirstSelectionPolicy().order(candidates))).toEqual(['xpath-fallback', 'id-fallback', 'css-fallback']);
+  });
+
+  it('should order by observed success rate and break ties by confidence', () => {
+    const ordered = new SuccessRateSelectionPolicy().order(candidates, { failure: createFailure(), outcomes });
+
+    expect(names(ordered)).toEqual(['id-fallback', 'css-fallback', 'xpath-fallback']);
+  });
+
+  it('should exploit the success-rate order unless exploring', () => {
+    const exploit = new EpsilonGreedySelectionPolicy(0.1, () => 0.5);
+    expect(names(exploit.order(candidates, { failure: createFailure(), outcomes })))
+      .toEqual(['id-fallback', 'css-fallback', 'xpath-fallback']);
+
+    const rolls = [0.05, 0.9];
+    const explore = new EpsilonGreedySelectionPolicy(0.1, () => rolls.shift()!);
+    expect(names(explore.order(candidates, { failure: createFailure(), outcomes })))
+      .toEqual(['xpath-fallback', 'id-fallback', 'css-fallback']);
+  });
+
+  it('should create built-in policies by name', () => {
+    expect(createSelectionPolicy('static').name).toBe('static');
+    expect(createSelectionPolicy('epsilon-greedy', { explorationRate: 0.2 })).toBeInstanceOf(EpsilonGreedySelectionPolicy);
+    expect(() => createSelectionPolicy('random' as any)).toThrow('Unknown strategy selection policy');
+  });
+});
+
+describe('HealingEngine strategy selection', () => {
+  let calls: string[];
+
+  function createEngine(selectionPolicy: 'static' | 'success-rate'): HealingEngine {
+    const engine = new HealingEngine({ maxAttempts: 100, selectionPolicy });
+    engine.registerStrategy(new ScriptedStrategy('a-never-works', false, 0.9, calls));
+    engine.registerStrategy(new ScriptedStrategy('b-always-works', true, 0.5, calls));
+    return engine;
+  }
+
+  beforeEach(() => {
+    calls = [];
+  });
+
+  it('should keep trying strategies in name order by default', async () => {
+    const engine = createEngine('static');
+
+    await engine.heal(createFailure(), context);
+    await engine.heal(createFailure(), context);
+
+    expect(calls).toEqual(['a-never-works', 'b-always-works', 'a-never-works', 'b-always-works']);
+  });
+
+  it('should try the strategy that worked before first with the success-rate policy', async () => {
+    const engine = createEngine('success-rate');
+
+    await engine.heal(createFailure(), context);
+    calls.length = 0;
+    const result = await engine.heal(createFailure(), context);
+
+    expect(result.metadata['strategy']).toBe('b-always-works');
+    expect(calls).toEqual(['b-always-works']);
+  });
+
+  it('should report success rates by strategy and failure type', async () => {
+    const engine = createEngine('static');
+
+    await engine.heal(createFailure(), context);
+
+    const stats = engine.getStats();
+    expect(stats.successRateByStrategy).toEqual({ 'a-never-works': 0, 'b-always-works': 1 });
+    expect(stats.successRateByType['element_not_found']).toBe(1);
+  });
+
+  it('should switch policies through updateConfig', async () => {
+    const engine = createEngine('static');
+    await engine.heal(createFailure(), context);
+
+    engine.updateConfig({ selectionPolicy: new ConfidenceFirstSelectionPolicy() });
+    calls.length = 0;
+    await engine.heal(createFailure(), context);
+
+    expect(calls).toEqual(['a-never-works', 'b-always-works']);
+
+    engine.updateConfig({ selectionPolicy: 'success-rate' });
+    calls.length = 0;
+    await engine.heal(createFailure(), context);
+
+    expect(calls).toEqual(['b-always-works']);
+  });
+});
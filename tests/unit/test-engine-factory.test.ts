@@ -39,6 +39,24 @@ describe('TestEngineFactory', () => {
       expect(factory.isEngineTypeAvailable('hello-world')).toBe(true);
     });
 
+    it('should pass the current constructor arguments to each engine it creates', async () => {
+      const received: unknown[][] = [];
+      class RecordingEngine extends HelloWorldEngine {
+        constructor(...args: unknown[]) {
+          super();
+          received.push(args);
+        }
+      }
+      let greeting = 'first';
+      factory.registerEngineConstructor('recording', RecordingEngine, () => [greeting]);
+
+      await factory.createEngine({ engine: 'recording', settings: {} });
+      greeting = 'second';
+      await factory.createEngine({ engine: 'recording', settings: {} });
+
+      expect(received).toEqual([['first'], ['second']]);
+    });
+
     it('should get available engine types', () => {
       factory.registerEngineConstructor('hello-world', HelloWorldEngine);
       factory.registerEngineConstructor('mock-engine', HelloWorldEngine);
@@ -200,7 +200,7 @@ describe('RED PHASE: Test Exporter Requirements', () => {
         
         expect(result.format).toBe('yaml');
         expect(result.files[0].path).toContain('.yaml');
-        expect(result.files[0].preview).toContain('tc_001:');
+        expect(result.files[0].preview).toContain('id: tc_001');
         
         // GREEN PHASE: YAML export now works!
       } catch (error) {
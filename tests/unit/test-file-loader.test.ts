@@ -0,0 +1,389 @@
+/**
+ * Unit tests for declarative test files
+ */
+
+import { GenericExporter } from '../../src/engines/GenericExporter';
+import { normalizePlaywrightSteps } from '../../src/engines/PlaywrightSteps';
+import {
+  TEST_FILE_SCHEMA,
+  TestFileDefaults,
+  TestFileError,
+  isTestFile,
+  parseTestFile,
+  readTestFile,
+  validateSchema
+} from '../../src/testfiles';
+import { GeneratedTestCase } from '../../src/types/test-generation';
+
+const DEFAULTS: TestFileDefaults = {
+  environment: 'staging',
+  timeout: 30000,
+  engineConfig: { engine: 'playwright', settings: {} },
+  healingConfig: { enabled: true, confidenceThreshold: 0.7, maxAttempts: 3, strategies: [], timeout: 30000, mode: 'auto-apply' },
+  retryConfig: { maxRetries: 0, delay: 0, backoffMultiplier: 1, maxDelay: 0 }
+};
+
+const CHECKOUT_FILE = `
+version: 1
+suites:
+  - name: Checkout
+    url: http://localhost/checkout
+    tags: [checkout]
+    healing:
+      confidenceThreshold: 0.8
+    tests:
+      - id: tc_pay
+        name: pays with card
+        tags: [smoke]
+        timeout: 60000
+        healing:
+          mode: suggest
+        steps:
+          - type: type
+            selector: "#card"
+            value: 4242
+          - type: click
+            selector: "#pay"
+          - type: assert
+            selector: "#total"
+            assertion: { type: text, expected: "$42.00" }
+      - name: shows empty cart
+        url: http://localhost/cart
+        steps:
+          - type: verify
+            selector: ".item"
+            assertion:
+              type: count
+              expected: 0
+`;
+
+describe('Test files', () => {
+  describe('parseTestFile', () => {
+    it('should turn every test into a test config', () => {
+      const [pay, empty] = parseTestFile(CHECKOUT_FILE, 'tests/checkout.yaml', DEFAULTS);
+
+      expect(pay).toMatchObject({
+        name: 'pays with card',
+        type: 'e2e',
+        filePath: 'tests/checkout.yaml',
+        timeout: 60000,
+        environment: 'staging',
+        parameters: {
+          suite: 'Checkout',
+          testId: 'tc_pay',
+          tags: ['checkout', 'smoke'],
+          url: 'http://localhost/checkout'
+        },
+        healingConfig: { enabled: true, confidenceThreshold: 0.8, maxAttempts: 3, mode: 'suggest' }
+      });
+      expect(pay!.parameters['steps']).toEqual([
+        { type: 'type', selector: '#card', value: '4242' },
+        { type: 'click', selector: '#pay' },
+        { type: 'assert', selector: '#total', assertion: { type: 'text', expected: '$42.00' } }
+      ]);
+      expect(empty).toMatchObject({
+        name: 'shows empty cart',
+        timeout: 30000,
+        parameters: { url: 'http://localhost/cart', tags: ['checkout'] },
+        healingConfig: { confidenceThreshold: 0.8, mode: 'auto-apply' }
+      });
+    });
+
+    it('should merge suite and test data and keep captures', () => {
+      const [config] = parseTestFile([
+        'version: 1',
+        'suites:',
+        '  - name: Orders',
+        '    data: { user: { email: qa@example.com }, currency: EUR }',
+        '    tests:',
+        '      - name: places an order',
+        '        data: { currency: USD }',
+        '        steps:',
+        '          - type: click',
+        '            selector: "#place"',
+        '            capture: { as: orderId, from: response, url: /api/orders, path: id }',
+        '          - { type: navigate, url: "/orders/${vars.orderId}" }'
+      ].join('\n'), 'orders.yaml', DEFAULTS);
+
+      expect(config!.parameters['data']).toEqual({ user: { email: 'qa@example.com' }, currency: 'USD' });
+      expect(config!.parameters['steps'][0].capture).toEqual({ as: 'orderId', from: 'response', url: '/api/orders', path: 'id' });
+      expect(() => readTestFile([
+        'version: 1',
+        'suites:',
+        '  - name: Orders',
+        '    tests:',
+        '      - name: places an order',
+        '        steps:',
+        '          - { type: click, selector: "#place", capture: { as: orderId, from: response } }'
+      ].join('\n'), 'orders.yaml')).toThrow('orders.yaml:7 suites[0].tests[0].steps[0].capture: missing required property "url"');
+    });
+
+    it('should merge suite and test network settings', () => {
+      const [replayed, recorded] = parseTestFile([
+        'version: 1',
+        'suites:',
+        '  - name: Orders',
+        '    network: { mode: replay, har: fixtures/orders.har, match: { ignoreQueryParams: [ts] } }',
+        '    tests:',
+        '      - name: lists orders',
+        '        network: { match: { matchBody: false } }',
+        '        steps: [{ type: click, selector: "#orders" }]',
+        '      - name: places an order',
+        '        network: { mode: record }',
+        '        steps: [{ type: click, selector: "#place" }]'
+      ].join('\n'), '/suites/orders.yaml', DEFAULTS);
+
+      expect(replayed!.parameters['network']).toEqual({
+        mode: 'replay',
+        har: 'fixtures/orders.har',
+        match: { ignoreQueryParams: ['ts'], matchBody: false }
+      });
+      expect(recorded!.parameters['network']).toMatchObject({ mode: 'record', har: 'fixtures/orders.har' });
+      expect(() => readTestFile([
+        'version: 1',
+        'suites:',
+        '  - name: Orders',
+        '    network: { mode: mock }',
+        '    tests: [{ name: lists orders, steps: [{ type: click, selector: "#orders" }] }]'
+      ].join('\n'), 'orders.yaml')).toThrow('orders.yaml:4 suites[0].network.mode: must be one of: record, replay, passthrough');
+    });
+
+    it('should load flows and control steps', () => {
+      const [config] = parseTestFile([
+        'version: 1',
+        'flows:',
+        '  login:',
+        '    params: [email]',
+        '    steps:',
+        '      - { type: type, selector: "#email", value: "${params.email}" }',
+        'suites:',
+        '  - name: Account',
+        '    tests:',
+        '      - name: signs in',
+        '        steps:',
+        '          - type: if',
+        '            selector: "#cookies"',
+        '            condition: { type: visible }',
+        '            steps: [{ type: click, selector: "#cookies button" }]',
+        '          - { type: flow, flow: login, params: { email: qa@example.com } }',
+        '          - type: forEach',
+        '            items: [1, 2]',
+        '            steps: [{ type: type, selector: "#qty", value: 3 }]'
+      ].join('\n'), 'account.yaml', DEFAULTS);
+
+      expect(config!.parameters['flows']).toEqual({
+        login: { params: ['email'], steps: [{ type: 'type', selector: '#email', value: '${params.email}' }] }
+      });
+      expect(config!.parameters['steps'][2].steps).toEqual([{ type: 'type', selector: '#qty', value: '3' }]);
+    });
+
+    it('should validate control steps and flows', () => {
+      expect(() => readTestFile([
+        'version: 1',
+        'flows:',
+        '  login:',
+        '    steps: []',
+        'suites:',
+        '  - name: Account',
+        '    tests:',
+        '      - name: signs in',
+        '        steps:',
+        '          - { type: if, steps: [{ type: screenshot }] }',
+        '          - type: forEach',
+        '            steps:',
+        '              - { type: click }'
+      ].join('\n'), 'account.yaml')).toThrow([
+        'Invalid test file account.yaml:',
+        '  account.yaml:4 flows.login.steps: must have at least 1 item',
+        '  account.yaml:10 suites[0].tests[0].steps[0]: missing required property "condition"',
+        '  account.yaml:11 suites[0].tests[0].steps[1]: missing required property "items" or missing required property "selector"',
+        '  account.yaml:13 suites[0].tests[0].steps[1].steps[0]: missing required property "selector"'
+      ].join('\n'));
+    });
+
+    it('should accept JSON sources', () => {
+      const source = JSON.stringify({
+        version: 1,
+        suites: [{ name: 'Smoke', tests: [{ name: 'home', steps: [{ type: 'navigate', url: 'http://localhost' }] }] }]
+      });
+
+      expect(parseTestFile(source, 'smoke.yaml', DEFAULTS)).toHaveLength(1);
+    });
+  });
+
+  describe('validation', () => {
+    function readIssues(source: string): Array<[number, string, string]> {
+      try {
+        readTestFile(source, 'broken.yaml');
+      } catch (error) {
+        expect(error).toBeInstanceOf(TestFileError);
+        return (error as TestFileError).issues.map(issue => [issue.line, issue.path, issue.message]);
+      }
+      throw new Error('Expected the test file to be rejected');
+    }
+
+    it('should report schema violations with their source lines', () => {
+      const issues = readIssues([
+        'version: 1',
+        'suites:',
+        '  - name: Checkout',
+        '    tests:',
+        '      - name: pays',
+        '        tags: [smoke, 3]',
+        '        steps:',
+        '          - type: click',
+        '          - type: tap',
+        '            selector: "#pay"',
+        '          - type: assert',
+        '            selector: "#total"',
+        '            assertion:',
+        '              type: text',
+        '      - name: empty',
+        '        timeout: 0',
+        '        steps: []',
+        '        retries: 2'
+      ].join('\n'));
+
+      expect(issues).toEqual([
+        [6, 'suites[0].tests[0].tags[1]', 'must be a string'],
+        [8, 'suites[0].tests[0].steps[0]', 'missing required property "selector"'],
+        [9, 'suites[0].tests[0].steps[1].type', expect.stringContaining('must be one of: navigate, click')],
+        [13, 'suites[0].tests[0].steps[2].assertion', 'missing required property "expected"'],
+        [16, 'suites[0].tests[1].timeout', 'must be at least 1'],
+        [17, 'suites[0].tests[1].steps', 'must have at least 1 item'],
+        [18, 'suites[0].tests[1].retries', 'unknown property "retries"']
+      ]);
+    });
+
+    it('should require a selector or duration for wait steps', () => {
+      const issues = readIssues([
+        'version: 1',
+        'suites:',
+        '  - name: Checkout',
+        '    tests:',
+        '      - name: waits',
+        '        steps:',
+        '          - type: wait'
+      ].join('\n'));
+
+      expect(issues).toEqual([
+        [7, 'suites[0].tests[0].steps[0]', 'missing required property "selector" or missing required property "duration"']
+      ]);
+    });
+
+    it('should report unsupported versions and duplicate test ids', () => {
+      expect(readIssues('version: 2\nsuites: []')).toEqual([
+        [1, 'version', 'must be one of: 1'],
+        [2, 'suites', 'must have at least 1 item']
+      ]);
+
+      const duplicate = [
+        'version: 1',
+        'suites:',
+        '  - name: A',
+        '    tests:',
+        '      - { id: tc_1, name: one, steps: [{ type: screenshot }] }',
+        '  - name: B',
+        '    tests:',
+        '      - { id: tc_1, name: two, steps: [{ type: screenshot }] }'
+      ].join('\n');
+      expect(readIssues(duplicate)).toEqual([[8, 'suites[1].tests[0].id', 'duplicate test id "tc_1"']]);
+    });
+
+    it('should report YAML syntax errors with their line', () => {
+      expect(readIssues('version: 1\nsuites:\n  - name: "Checkout\n    tests: []\n')).toEqual([
+        [5, '', expect.stringContaining('unexpected end of the stream')]
+      ]);
+    });
+
+    it('should format issues in the error message', () => {
+      expect(() => readTestFile('version: 1\n', 'smoke.yaml')).toThrow(
+        'Invalid test file smoke.yaml:\n  smoke.yaml:1 missing required property "suites"'
+      );
+    });
+  });
+
+  describe('schema', () => {
+    it('should resolve every definition it references', () => {
+      const refs = JSON.stringify(TEST_FILE_SCHEMA).match(/#\/definitions\/\w+/g) ?? [];
+
+      for (const ref of new Set(refs)) {
+        expect(TEST_FILE_SCHEMA.definitions).toHaveProperty(ref.replace('#/definitions/', ''));
+      }
+      expect(validateSchema({ version: 1, suites: [] }, TEST_FILE_SCHEMA)).toHaveLength(1);
+    });
+
+    it('should match YAML test files by extension', () => {
+      expect(isTestFile('tests/checkout.yaml')).toBe(true);
+      expect(isTestFile('tests/checkout.YML')).toBe(true);
+      expect(isTestFile('tests/checkout.spec.ts')).toBe(false);
+    });
+  });
+
+  describe('YAML export', () => {
+    const testCase: GeneratedTestCase = {
+      id: 'tc_login',
+      title: 'User logs in',
+      description: 'Valid credentials open the dashboard',
+      category: 'functional',
+      priority: 'high',
+      steps: [
+        { order: 1, action: 'Open login', actionType: 'navigate', inputData: { url: 'https://example.com/login' } },
+        { order: 2, action: 'Enter user', actionType: 'type', selector: '#username', inputData: { value: 'qa' }, timeout: 3000 },
+        { order: 3, action: 'Submit', actionType: 'click', selector: '#login', captureScreenshot: true },
+        { order: 4, action: 'Check greeting', actionType: 'verify', selector: 'h1', inputData: { expectedText: 'Welcome' } }
+      ],
+      expectedResults: [],
+      preconditions: [],
+      testData: [],
+      tags: ['login'],
+      estimatedDuration: 10000,
+      source: 'template',
+      metadata: { generatedAt: new Date(), generatorVersion: '1.0.0', confidence: 0.9, method: 'template', custom: {} }
+    };
+
+    it('should export test cases that load back into test configs', async () => {
+      const result = await new GenericExporter().export([testCase], {
+        engine: 'generic-exporter',
+        settings: {},
+        format: 'yaml',
+        outputDirectory: './test-output'
+      });
+
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([]);
+      const [file] = result.files;
+      const [config] = parseTestFile(file!.preview!, file!.path, DEFAULTS);
+      expect(config).toMatchObject({
+        name: 'User logs in',
+        parameters: {
+          testId: 'tc_login',
+          description: 'Valid credentials open the dashboard',
+          tags: ['login'],
+          priority: 'high',
+          category: 'functional'
+        }
+      });
+      expect(config!.parameters['steps']).toEqual(normalizePlaywrightSteps(testCase.steps));
+    });
+
+    it('should warn about exported steps the loader rejects', async () => {
+      const result = await new GenericExporter().export([testCase], {
+        engine: 'generic-exporter',
+        settings: {},
+        format: 'yaml',
+        outputDirectory: './test-output',
+        customParameters: { transform: { simplifySteps: true } }
+      } as any);
+
+      expect(result.files).toHaveLength(1);
+      expect(result.warnings.map(warning => warning.message)).toEqual([
+        'suites[0].tests[0].steps[0]: missing required property "url"',
+        'suites[0].tests[0].steps[1]: missing required property "selector"',
+        'suites[0].tests[0].steps[1]: missing required property "value"',
+        'suites[0].tests[0].steps[2]: missing required property "selector"',
+        'suites[0].tests[0].steps[3]: missing required property "assertion"'
+      ]);
+    });
+  });
+});
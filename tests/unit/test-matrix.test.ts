@@ -0,0 +1,112 @@
+/**
+ * Unit tests for test matrix expansion and failure summaries
+ */
+
+import { createCellConfig, expandMatrix, getMatrixStatus, summarizeMatrix } from '../../src/core/TestMatrix';
+import { TestConfig, TestMatrixCellResult, TestStatus } from '../../src/types';
+
+function cellResults(statuses: Record<string, TestStatus>): TestMatrixCellResult[] {
+  const cells = expandMatrix({
+    browsers: ['chromium', 'webkit'],
+    devices: ['Desktop Chrome', { name: 'mobile', width: 390, height: 844 }],
+    locales: ['en-US', 'de-DE'],
+  });
+  return cells.map((cell, index) => ({
+    cell,
+    testId: `t.${index + 1}`,
+    status: statuses[cell.id] ?? 'passed',
+    errors: [],
+  }));
+}
+
+describe('TestMatrix', () => {
+  describe('expandMatrix', () => {
+    it('should expand browsers, devices and locales into cells', () => {
+      const cells = expandMatrix({
+        browsers: ['chromium', 'webkit'],
+        devices: ['iPhone 13', { width: 1280, height: 720 }],
+        locales: ['de-DE'],
+      });
+
+      expect(cells.map(cell => cell.id)).toEqual([
+        'chromium/iPhone 13/de-DE',
+        'chromium/1280x720/de-DE',
+        'webkit/iPhone 13/de-DE',
+        'webkit/1280x720/de-DE',
+      ]);
+      expect(cells[1]).toEqual({
+        id: 'chromium/1280x720/de-DE',
+        browser: 'chromium',
+        viewport: { width: 1280, height: 720 },
+        locale: 'de-DE',
+      });
+    });
+
+    it('should skip dimensions that are left out and drop duplicates', () => {
+      expect(expandMatrix({ browsers: ['firefox', 'firefox'], locales: [] })).toEqual([
+        { id: 'firefox', browser: 'firefox' },
+      ]);
+      expect(expandMatrix({})).toEqual([]);
+    });
+  });
+
+  describe('createCellConfig', () => {
+    it('should name the child run after its cell and drop the matrix', () => {
+      const [cell] = expandMatrix({ browsers: ['webkit'] });
+      const config = { name: 'checkout', matrix: { browsers: ['webkit'] } } as TestConfig;
+
+      const cellConfig = createCellConfig(config, cell!);
+
+      expect(cellConfig.name).toBe('checkout [webkit]');
+      expect(cellConfig.matrixCell).toBe(cell);
+      expect(cellConfig).not.toHaveProperty('matrix');
+    });
+  });
+
+  describe('summarizeMatrix', () => {
+    it('should report when every cell passes or fails', () => {
+      const passing = cellResults({});
+      expect(summarizeMatrix(passing)).toBe('passes on all 8 combination(s)');
+      expect(getMatrixStatus(passing)).toBe('passed');
+
+      const failing = passing.map(cell => ({ ...cell, status: 'failed' as TestStatus }));
+      expect(summarizeMatrix(failing)).toBe('fails on all 8 combination(s)');
+    });
+
+    it('should attribute failures to a single browser, device or locale', () => {
+      expect(summarizeMatrix(cellResults({
+        'webkit/Desktop Chrome/en-US': 'failed',
+        'webkit/Desktop Chrome/de-DE': 'failed',
+        'webkit/mobile/en-US': 'failed',
+        'webkit/mobile/de-DE': 'timeout',
+      }))).toBe('fails only on webkit');
+
+      expect(summarizeMatrix(cellResults({
+        'chromium/mobile/de-DE': 'failed',
+        'webkit/mobile/de-DE': 'failed',
+      }))).toBe('fails only at mobile in de-DE');
+    });
+
+    it('should attribute failures to a combination of dimensions', () => {
+      const cells = cellResults({
+        'webkit/mobile/en-US': 'failed',
+        'webkit/mobile/de-DE': 'failed',
+      });
+
+      expect(summarizeMatrix(cells)).toBe('fails only on webkit at mobile');
+      expect(getMatrixStatus(cells)).toBe('failed');
+    });
+
+    it('should list the failing cells when no dimension explains them', () => {
+      expect(summarizeMatrix(cellResults({
+        'chromium/Desktop Chrome/en-US': 'failed',
+        'webkit/mobile/de-DE': 'failed',
+      }))).toBe('fails on 2 of 8 combinations: chromium/Desktop Chrome/en-US, webkit/mobile/de-DE');
+    });
+
+    it('should report matrices whose cells were all skipped as skipped', () => {
+      const skipped = cellResults({}).map(cell => ({ ...cell, status: 'skipped' as TestStatus }));
+      expect(getMatrixStatus(skipped)).toBe('skipped');
+    });
+  });
+});
@@ -0,0 +1,565 @@
+/**
+ * Unit tests for TestOrchestrator
+ */
+
+import { MAX_CREATED_ENGINES, TestOrchestrator } from '../../src/core/TestOrchestrator';
+import { PluginRegistry } from '../../src/core/PluginRegistry';
+import { TestEngineFactory } from '../../src/core/TestEngineFactory';
+import { TestEngine } from '../../src/core/TestEngine';
+import { HelloWorldEngine } from '../../src/engines/HelloWorldEngine';
+import { EngineConfig, EngineHealth, TestConfig, TestResult, TestStatus } from '../../src/types';
+
+/**
+ * Engine whose executions are resolved manually by the test
+ */
+class ControlledEngine extends TestEngine {
+  public pending: Array<{ name: string; resolve: (status: TestStatus) => void }> = [];
+  public executions: string[] = [];
+
+  constructor() {
+    super('controlled', '1.0.0', 'unit', false);
+  }
+
+  protected async doInitialize(_config: EngineConfig): Promise<void> {}
+
+  protected async doExecute(config: TestConfig): Promise<TestResult> {
+    this.executions.push(config.name);
+    const status = await new Promise<TestStatus>(resolve => {
+      this.pending.push({ name: config.name, resolve });
+    });
+    const result = this.createTestResult(config, status);
+    result.output = `${config.name}: ${status}`;
+    return result;
+  }
+
+  protected async doCleanup(): Promise<void> {}
+
+  protected async doGetHealth(): Promise<EngineHealth> {
+    return { status: 'healthy', message: 'ok', metrics: { uptime: 0, memoryUsage: 0, cpuUsage: 0, errorRate: 0 }, timestamp: new Date() };
+  }
+
+  /** Resolve the oldest pending execution */
+  public complete(status: TestStatus): void {
+    const next = this.pending.shift();
+    if (!next) {
+      throw new Error('No pending execution');
+    }
+    next.resolve(status);
+  }
+}
+
+/**
+ * Engine that fails a fixed number of times before passing
+ */
+class FlakyEngine extends TestEngine {
+  public calls = 0;
+
+  constructor(private failures: number) {
+    super('flaky', '1.0.0', 'unit', false);
+  }
+
+  protected async doInitialize(_config: EngineConfig): Promise<void> {}
+
+  protected async doExecute(config: TestConfig): Promise<TestResult> {
+    this.calls++;
+    return this.createTestResult(config, this.calls <= this.failures ? 'failed' : 'passed');
+  }
+
+  protected async doCleanup(): Promise<void> {}
+
+  protected async doGetHealth(): Promise<EngineHealth> {
+    return { status: 'healthy', message: 'ok', metrics: { uptime: 0, memoryUsage: 0, cpuUsage: 0, errorRate: 0 }, timestamp: new Date() };
+  }
+}
+
+function createConfig(name: string, engine: string, overrides: Partial<TestConfig> = {}): TestConfig {
+  return {
+    name,
+    type: 'unit',
+    filePath: '',
+    timeout: 5000,
+    environment: 'test',
+    parameters: {},
+    engineConfig: { engine, settings: {} },
+    healingConfig: { enabled: false, confidenceThreshold: 0.7, maxAttempts: 1, strategies: [], timeout: 1000 },
+    retryConfig: { maxRetries: 0, delay: 1, backoffMultiplier: 1, maxDelay: 10 },
+    ...overrides,
+  };
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('TestOrchestrator', () => {
+  let registry: PluginRegistry;
+  let factory: TestEngineFactory;
+  let controlled: ControlledEngine;
+
+  beforeEach(async () => {
+    registry = new PluginRegistry();
+    factory = new TestEngineFactory(registry);
+    controlled = new ControlledEngine();
+    await controlled.initialize({ engine: 'controlled', settings: {} });
+    registry.registerTestEngine(controlled);
+  });
+
+  describe('Engine resolution', () => {
+    it('should create engines through the factory on first use', async () => {
+      factory.registerEngineConstructor('hello-world', HelloWorldEngine);
+      const orchestrator = new TestOrchestrator(registry, factory);
+
+      orchestrator.submit('t1', createConfig('greeting', 'hello-world'));
+      const result = await orchestrator.waitFor('t1');
+
+      expect(result.id).toBe('t1');
+      expect(result.status).toBe('passed');
+      expect(registry.getTestEngine('hello-world')).toBeDefined();
+    });
+
+    it('should create one engine per distinct engine settings', async () => {
+      const initialized: Array<Record<string, any> | undefined> = [];
+      class RecordingEngine extends HelloWorldEngine {
+        protected override async doInitialize(config: EngineConfig): Promise<void> {
+          initialized.push(config.settings);
+          await super.doInitialize(config);
+        }
+      }
+      factory.registerEngineConstructor('hello-world', RecordingEngine);
+      const orchestrator = new TestOrchestrator(registry, factory);
+
+      const withSettings = (name: string, settings: Record<string, any>) =>
+        createConfig(name, 'hello-world', { engineConfig: { engine: 'hello-world', settings } });
+      orchestrator.submit('t1', withSettings('first', { headless: true, viewport: { width: 800, height: 600 } }));
+      await orchestrator.waitFor('t1');
+      orchestrator.submit('t2', withSettings('second', { viewport: { height: 600, width: 800 }, headless: true }));
+      await orchestrator.waitFor('t2');
+      orchestrator.submit('t3', withSettings('third', { headless: false }));
+      await orchestrator.waitFor('t3');
+
+      expect(initialized).toEqual([
+        { headless: true, viewport: { width: 800, height: 600 } },
+        { headless: false },
+      ]);
+    });
+
+    it('should clean up the least recently used idle engines over the limit', async () => {
+      const cleaned: number[] = [];
+      class RecordingEngine extends HelloWorldEngine {
+        private index = -1;
+        protected override async doInitialize(config: EngineConfig): Promise<void> {
+          this.index = config.settings['index'];
+          await super.doInitialize(config);
+        }
+        protected override async doCleanup(): Promise<void> {
+          cleaned.push(this.index);
+          await super.doCleanup();
+        }
+      }
+      factory.registerEngineConstructor('hello-world', RecordingEngine);
+      const orchestrator = new TestOrchestrator(registry, factory);
+
+      const run = async (testId: string, index: number) => {
+        orchestrator.submit(testId, createConfig(testId, 'hello-world', { engineConfig: { engine: 'hello-world', settings: { index } } }));
+        return orchestrator.waitFor(testId);
+      };
+      for (let index = 0; index < MAX_CREATED_ENGINES; index++) {
+        await run(`t${index}`, index);
+      }
+      // Using the first engine again makes the second the least recently used
+      await run('again', 0);
+      await run('new', MAX_CREATED_ENGINES);
+
+      expect(cleaned).toEqual([1]);
+      expect(registry.getTestEngine('hello-world')).toBeDefined();
+
+      await orchestrator.shutdown();
+      expect(cleaned).toHaveLength(MAX_CREATED_ENGINES + 1);
+      expect(registry.getTestEngine('hello-world')).toBeUndefined();
+    });
+
+    it('should retry when the engine fails to initialize', async () => {
+      let initializations = 0;
+      class UnstableEngine extends HelloWorldEngine {
+        protected override async doInitialize(config: EngineConfig): Promise<void> {
+          if (++initializations === 1) {
+            throw new Error('Browser failed to launch');
+          }
+          await super.doInitialize(config);
+        }
+      }
+      factory.registerEngineConstructor('hello-world', UnstableEngine);
+      const orchestrator = new TestOrchestrator(registry, factory);
+
+      orchestrator.submit('t1', createConfig('greeting', 'hello-world', {
+        retryConfig: { maxRetries: 1, delay: 1, backoffMultiplier: 1, maxDelay: 10 },
+      }));
+      const result = await orchestrator.waitFor('t1');
+
+      expect(initializations).toBe(2);
+      expect(result.status).toBe('passed');
+      expect(result.output).toContain('Attempt 1 failed');
+    });
+
+    it('should fail without retrying when the engine is unknown', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory);
+
+      orchestrator.submit('t1', createConfig('unknown', 'missing', {
+        retryConfig: { maxRetries: 3, delay: 1, backoffMultiplier: 1, maxDelay: 10 },
+      }));
+      const result = await orchestrator.waitFor('t1');
+
+      expect(result.status).toBe('failed');
+      expect(result.errors[0]!.message).toContain('Unknown test engine: missing');
+      expect(orchestrator.getState('t1')).toBe('completed');
+    });
+  });
+
+  describe('Retry policy', () => {
+    it('should retry failed tests with backoff until they pass', async () => {
+      const flaky = new FlakyEngine(2);
+      await flaky.initialize({ engine: 'flaky', settings: {} });
+      registry.registerTestEngine(flaky);
+      const orchestrator = new TestOrchestrator(registry, factory);
+
+      orchestrator.submit('t1', createConfig('flaky test', 'flaky', {
+        retryConfig: { maxRetries: 2, delay: 1, backoffMultiplier: 2, maxDelay: 10 },
+      }));
+      const result = await orchestrator.waitFor('t1');
+
+      expect(flaky.calls).toBe(3);
+      expect(result.status).toBe('passed');
+      expect(result.metrics.custom['attempts']).toBe(3);
+      expect(result.execution).toEqual({ testName: 'flaky test', engine: 'flaky', environment: 'test', attempts: 3 });
+      expect(result.output).toContain('Attempt 1 failed');
+    });
+
+    it('should apply the configured timeout and retry count to tests leaving them unset', async () => {
+      const flaky = new FlakyEngine(1);
+      await flaky.initialize({ engine: 'flaky', settings: {} });
+      registry.registerTestEngine(flaky);
+      const orchestrator = new TestOrchestrator(registry, factory, {
+        timeout: 20,
+        retryPolicy: { enabled: true, maxRetries: 1, backoffMultiplier: 1 },
+      });
+
+      orchestrator.submit('t1', createConfig('flaky test', 'flaky', {
+        retryConfig: { delay: 1, backoffMultiplier: 1, maxDelay: 10 },
+      }));
+      orchestrator.submit('t2', createConfig('slow test', 'controlled', { timeout: 0 }));
+
+      expect((await orchestrator.waitFor('t1')).status).toBe('passed');
+      expect(flaky.calls).toBe(2);
+      expect((await orchestrator.waitFor('t2')).status).toBe('timeout');
+    });
+
+    it('should not retry when the retry policy is disabled', async () => {
+      const flaky = new FlakyEngine(1);
+      await flaky.initialize({ engine: 'flaky', settings: {} });
+      registry.registerTestEngine(flaky);
+      const orchestrator = new TestOrchestrator(registry, factory, {
+        retryPolicy: { enabled: false, maxRetries: 2, backoffMultiplier: 2 },
+      });
+
+      orchestrator.submit('t1', createConfig('flaky test', 'flaky', {
+        retryConfig: { maxRetries: 2, delay: 1, backoffMultiplier: 2, maxDelay: 10 },
+      }));
+      const result = await orchestrator.waitFor('t1');
+
+      expect(flaky.calls).toBe(1);
+      expect(result.status).toBe('failed');
+    });
+  });
+
+  describe('Timeouts', () => {
+    it('should mark tests that exceed their timeout', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory);
+
+      orchestrator.submit('t1', createConfig('slow', 'controlled', { timeout: 20 }));
+      const result = await orchestrator.waitFor('t1');
+
+      expect(result.status).toBe('timeout');
+      expect(result.errors[0]!.type).toBe('timeout');
+    });
+  });
+
+  describe('Concurrency', () => {
+    it('should respect maxConcurrency when running in parallel', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory, { parallel: true, maxConcurrency: 2 });
+
+      for (const id of ['a', 'b', 'c']) {
+        orchestrator.submit(id, createConfig(id, 'controlled'));
+      }
+      await flush();
+
+      expect(controlled.executions).toEqual(['a', 'b']);
+      expect(orchestrator.getQueue().map(entry => entry.state)).toEqual(['running', 'running', 'queued']);
+
+      controlled.complete('passed');
+      await flush();
+      expect(controlled.executions).toEqual(['a', 'b', 'c']);
+
+      controlled.complete('passed');
+      controlled.complete('passed');
+      await orchestrator.waitFor('c');
+      expect(orchestrator.getQueue()).toEqual([]);
+    });
+
+    it('should run one test at a time when parallel execution is disabled', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory, { parallel: false, maxConcurrency: 5 });
+
+      orchestrator.submit('a', createConfig('a', 'controlled'));
+      orchestrator.submit('b', createConfig('b', 'controlled'));
+      await flush();
+
+      expect(orchestrator.getConcurrencyLimit()).toBe(1);
+      expect(controlled.executions).toEqual(['a']);
+      controlled.complete('passed');
+      await flush();
+      expect(controlled.executions).toEqual(['a', 'b']);
+      controlled.complete('passed');
+      await orchestrator.waitFor('b');
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should cancel running and queued tests', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory, { parallel: false });
+
+      orchestrator.submit('a', createConfig('a', 'controlled'));
+      orchestrator.submit('b', createConfig('b', 'controlled'));
+      await flush();
+
+      expect(orchestrator.cancel('b')).toBe(true);
+      expect(orchestrator.cancel('a')).toBe(true);
+      expect(orchestrator.cancel('a')).toBe(false);
+
+      const result = await orchestrator.waitFor('a');
+      expect(result.status).toBe('failed');
+      expect(result.output).toContain('cancelled by user');
+      expect(orchestrator.getState('b')).toBe('cancelled');
+
+      // The engine's late result is discarded
+      controlled.complete('passed');
+      await flush();
+      expect(orchestrator.getResult('a')!.status).toBe('failed');
+      expect(controlled.executions).toEqual(['a']);
+    });
+
+    it('should keep the slot of a cancelled test until its engine returns', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory, { parallel: true, maxConcurrency: 1 });
+
+      orchestrator.submit('a', createConfig('a', 'controlled'));
+      orchestrator.submit('b', createConfig('b', 'controlled'));
+      await flush();
+
+      expect(orchestrator.cancel('a')).toBe(true);
+      await orchestrator.waitFor('a');
+      await flush();
+      expect(controlled.executions).toEqual(['a']);
+
+      controlled.complete('passed');
+      await flush();
+      expect(controlled.executions).toEqual(['a', 'b']);
+      controlled.complete('passed');
+      expect((await orchestrator.waitFor('b')).status).toBe('passed');
+    });
+
+    it('should keep the slot of a timed-out test until its engine returns', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory, { parallel: true, maxConcurrency: 1 });
+
+      orchestrator.submit('a', createConfig('a', 'controlled', { timeout: 20 }));
+      orchestrator.submit('b', createConfig('b', 'controlled'));
+
+      expect((await orchestrator.waitFor('a')).status).toBe('timeout');
+      await flush();
+      expect(controlled.executions).toEqual(['a']);
+
+      controlled.complete('passed');
+      await flush();
+      expect(controlled.executions).toEqual(['a', 'b']);
+      controlled.complete('passed');
+      await orchestrator.waitFor('b');
+    });
+
+    it('should refuse to cancel unknown tests', () => {
+      const orchestrator = new TestOrchestrator(registry, factory);
+      expect(orchestrator.cancel('missing')).toBe(false);
+    });
+  });
+
+  describe('Batches', () => {
+    it('should run sequential batches in order and stop on failure', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory, { parallel: true, maxConcurrency: 5 });
+
+      orchestrator.submitBatch('batch1', [
+        { testId: 'a', config: createConfig('a', 'controlled') },
+        { testId: 'b', config: createConfig('b', 'controlled') },
+        { testId: 'c', config: createConfig('c', 'controlled') },
+      ], { parallel: false, stopOnFailure: true });
+      await flush();
+
+      expect(controlled.executions).toEqual(['a']);
+      expect(orchestrator.getQueue().every(entry => entry.batchId === 'batch1')).toBe(true);
+
+      controlled.complete('passed');
+      await flush();
+      controlled.complete('failed');
+      await orchestrator.waitFor('b');
+
+      const skipped = await orchestrator.waitFor('c');
+      expect(skipped.status).toBe('skipped');
+      expect(controlled.executions).toEqual(['a', 'b']);
+    });
+
+    it('should not stop a batch when a quarantined test fails', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory);
+      orchestrator.setQuarantineLookup(async testName => testName === 'b');
+
+      orchestrator.submitBatch('batch1', [
+        { testId: 'a', config: createConfig('a', 'controlled') },
+        { testId: 'b', config: createConfig('b', 'controlled') },
+        { testId: 'c', config: createConfig('c', 'controlled') },
+      ], { parallel: false, stopOnFailure: true });
+      await flush();
+
+      controlled.complete('passed');
+      await flush();
+      controlled.complete('failed');
+      const quarantined = await orchestrator.waitFor('b');
+      await flush();
+
+      expect(quarantined.status).toBe('failed');
+      expect(quarantined.quarantined).toBe(true);
+      expect(quarantined.execution).toMatchObject({ testName: 'b', engine: 'controlled', environment: 'test', attempts: 1 });
+      expect(quarantined.output).toContain('[INFO] b is quarantined: its failure does not fail the build');
+      expect(orchestrator.getState('c')).toBe('running');
+      expect(controlled.executions).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should treat a failing quarantine lookup as not quarantined', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory);
+      orchestrator.setQuarantineLookup(async () => {
+        throw new Error('Storage unavailable');
+      });
+
+      orchestrator.submit('a', createConfig('a', 'controlled'));
+      await flush();
+      controlled.complete('failed');
+
+      const result = await orchestrator.waitFor('a');
+      expect(result.quarantined).toBeUndefined();
+      expect(result.output).not.toContain('is quarantined');
+    });
+
+    it('should apply the batch timeout to each test', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory);
+
+      orchestrator.submitBatch('batch1', [
+        { testId: 'a', config: createConfig('a', 'controlled') },
+      ], { timeout: 20 });
+
+      expect((await orchestrator.waitFor('a')).status).toBe('timeout');
+    });
+  });
+
+  describe('Matrices', () => {
+    it('should run each cell as a child run and aggregate them into the parent result', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory, { parallel: true, maxConcurrency: 5 });
+
+      orchestrator.submit('t1', createConfig('checkout', 'controlled', {
+        matrix: { browsers: ['chromium', 'webkit'], locales: ['en-US'] },
+      }));
+      await flush();
+
+      expect(controlled.executions).toEqual(['checkout [chromium/en-US]', 'checkout [webkit/en-US]']);
+      expect(orchestrator.getQueue().map(entry => entry.testId)).toEqual(['t1.1', 't1.2']);
+      expect(orchestrator.getState('t1')).toBe('running');
+
+      controlled.complete('passed');
+      controlled.complete('failed');
+      const result = await orchestrator.waitFor('t1');
+
+      expect(result.status).toBe('failed');
+      expect(result.matrix!.summary).toBe('fails only on webkit');
+      expect(result.matrix!.cells.map(cell => [cell.testId, cell.cell.id, cell.status])).toEqual([
+        ['t1.1', 'chromium/en-US', 'passed'],
+        ['t1.2', 'webkit/en-US', 'failed'],
+      ]);
+      expect(result.output).toContain('[FAILED] webkit/en-US (t1.2)');
+      expect(result.metrics.custom['failedMatrixCells']).toBe(1);
+      expect(orchestrator.getResult('t1.2')!.status).toBe('failed');
+    });
+
+    it('should cancel the unfinished cells of a cancelled matrix test', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory, { parallel: false });
+
+      orchestrator.submit('t1', createConfig('checkout', 'controlled', {
+        matrix: { browsers: ['chromium', 'firefox'] },
+      }));
+      await flush();
+
+      expect(orchestrator.cancel('t1')).toBe(true);
+      const result = await orchestrator.waitFor('t1');
+
+      expect(orchestrator.getState('t1')).toBe('cancelled');
+      expect(orchestrator.getState('t1.2')).toBe('cancelled');
+      expect(result.status).toBe('failed');
+      expect(controlled.executions).toEqual(['checkout [chromium]']);
+    });
+
+    it('should apply the batch matrix and stop the batch when a matrix test fails', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory, { parallel: true, maxConcurrency: 5 });
+
+      orchestrator.submitBatch('batch1', [
+        { testId: 'a', config: createConfig('a', 'controlled') },
+        { testId: 'b', config: createConfig('b', 'controlled', { matrix: { locales: ['de-DE'] } }) },
+      ], { parallel: false, stopOnFailure: true, matrix: { browsers: ['chromium', 'webkit'] } });
+      await flush();
+
+      controlled.complete('failed');
+      await flush();
+      expect(controlled.executions).toEqual(['a [chromium]', 'a [webkit]']);
+      controlled.complete('passed');
+
+      const a = await orchestrator.waitFor('a');
+      const b = await orchestrator.waitFor('b');
+      expect(a.matrix!.summary).toBe('fails only on chromium');
+      expect(b.status).toBe('skipped');
+      expect(orchestrator.getResult('b.1')!.name).toBe('b [de-DE]');
+    });
+
+    it('should reject matrices without combinations', () => {
+      const orchestrator = new TestOrchestrator(registry, factory);
+
+      expect(() => orchestrator.submit('t1', createConfig('checkout', 'controlled', { matrix: { browsers: [] } })))
+        .toThrow('Test matrix of checkout has no combinations');
+      expect(orchestrator.getResult('t1')).toBeUndefined();
+    });
+
+    it('should reject matrices over the combination limit', () => {
+      const orchestrator = new TestOrchestrator(registry, factory);
+      const locales = Array.from({ length: 17 }, (_value, index) => `l${index}-XX`);
+
+      expect(() => orchestrator.submit('t1', createConfig('checkout', 'controlled', { matrix: { browsers: ['chromium', 'firefox', 'webkit'], locales } })))
+        .toThrow('Test matrix of checkout has 51 combinations, more than the limit of 50');
+    });
+  });
+
+  describe('Updates', () => {
+    it('should notify listeners as results change', async () => {
+      const orchestrator = new TestOrchestrator(registry, factory);
+      const statuses: TestStatus[] = [];
+      orchestrator.onUpdate(result => statuses.push(result.status));
+
+      orchestrator.submit('a', createConfig('a', 'controlled'));
+      await flush();
+      controlled.complete('passed');
+      await orchestrator.waitFor('a');
+
+      expect(statuses).toEqual(['pending', 'running', 'passed']);
+    });
+  });
+});
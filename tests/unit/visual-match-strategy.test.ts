@@ -0,0 +1,477 @@
+/**
+ * Unit tests for image matching, visual baselines and VisualMatchStrategy
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs';
+import { deflateSync } from 'zlib';
+import { PlaywrightTestEngine } from '../../src/engines/PlaywrightTestEngine';
+import {
+  RgbaImage,
+  cropImage,
+  decodePng,
+  differenceHash,
+  encodePng,
+  findTemplate,
+  hashSimilarity,
+  toGrayscale
+} from '../../src/healing/ImageMatching';
+import { LocatorProbe, ProbePage } from '../../src/healing/LocatorProbe';
+import { VisualBaselineStore } from '../../src/healing/VisualBaselines';
+import { VisualMatchStrategy } from '../../src/healing/strategies/VisualMatchStrategy';
+import { PluginRegistry } from '../../src/core/PluginRegistry';
+import { Storage, createStorage } from '../../src/storage';
+import { EngineConfig, HealingContext, TestConfig, TestFailure } from '../../src/types';
+
+const mockPage = {
+  on: jest.fn(),
+  viewportSize: jest.fn().mockReturnValue({ width: 1280, height: 720 }),
+  goto: jest.fn(),
+  url: jest.fn().mockReturnValue('http://localhost/checkout?step=2'),
+  title: jest.fn().mockResolvedValue('Checkout'),
+  content: jest.fn().mockResolvedValue('<button>Pay</button>'),
+  close: jest.fn(),
+  screenshot: jest.fn(),
+  click: jest.fn(),
+  fill: jest.fn(),
+  selectOption: jest.fn(),
+  waitForSelector: jest.fn(),
+  locator: jest.fn()
+};
+
+jest.mock('playwright', () => {
+  const browser = {
+    newContext: jest.fn().mockResolvedValue({
+      newPage: jest.fn().mockImplementation(() => Promise.resolve(mockPage)),
+      pages: jest.fn().mockReturnValue([]),
+      clearCookies: jest.fn(),
+      clearPermissions: jest.fn(),
+      serviceWorkers: jest.fn().mockReturnValue([]),
+      storageState: jest.fn().mockResolvedValue({ cookies: [], origins: [] }),
+      on: jest.fn(),
+      close: jest.fn()
+    }),
+    on: jest.fn(),
+    close: jest.fn()
+  };
+  return {
+    chromium: { launch: jest.fn().mockResolvedValue(browser) },
+    firefox: { launch: jest.fn().mockResolvedValue(browser) },
+    webkit: { launch: jest.fn().mockResolvedValue(browser) }
+  };
+});
+
+const BUTTON = { width: 48, height: 20 };
+
+/**
+ * Deterministic pseudo-random generator so images are identical across runs
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+/**
+ * Page with a soft background and a high-contrast button at the given position
+ */
+function renderPage(buttonX: number, buttonY: number, width: number = 240, height: number = 160): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  const background = createRandom(1);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const shade = 200 + Math.round(background() * 20);
+      data[o] = shade;
+      data[o + 1] = shade;
+      data[o + 2] = 230;
+      data[o + 3] = 255;
+    }
+  }
+
+  const glyphs = createRandom(2);
+  for (let y = 0; y < BUTTON.height; y++) {
+    for (let x = 0; x < BUTTON.width; x++) {
+      const border = x < 2 || y < 2 || x >= BUTTON.width - 2 || y >= BUTTON.height - 2;
+      const ink = !border && y > 5 && y < 14 && glyphs() > 0.5;
+      const o = ((buttonY + y) * width + buttonX + x) * 4;
+      data[o] = border ? 20 : ink ? 255 : 30;
+      data[o + 1] = border ? 60 : ink ? 255 : 90;
+      data[o + 2] = border ? 140 : ink ? 255 : 200;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Encode an RGB PNG using a different row filter for every scanline
+ */
+function encodeFilteredRgbPng(image: RgbaImage): Buffer {
+  const channels = 3;
+  const stride = image.width * channels;
+  const rows: number[][] = [];
+  for (let y = 0; y < image.height; y++) {
+    const row: number[] = [];
+    for (let x = 0; x < image.width; x++) {
+      const o = (y * image.width + x) * 4;
+      row.push(image.data[o]!, image.data[o + 1]!, image.data[o + 2]!);
+    }
+    rows.push(row);
+  }
+
+  const paeth = (a: number, b: number, c: number): number => {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+  };
+
+  const raw: number[] = [];
+  rows.forEach((row, y) => {
+    const filter = y % 5;
+    const previous = rows[y - 1] ?? new Array(stride).fill(0);
+    raw.push(filter);
+    for (let i = 0; i < stride; i++) {
+      const left = i >= channels ? row[i - channels]! : 0;
+      const up = previous[i]!;
+      const upLeft = i >= channels ? previous[i - channels]! : 0;
+      const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter]!;
+      raw.push((row[i]! - predictor) & 0xff);
+    }
+  });
+
+  const chunk = (type: string, data: Buffer): Buffer => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8;
+  header[9] = 2;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(Buffer.from(raw))),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+function createFailure(selector: string): TestFailure {
+  return {
+    id: 'failure-1',
+    testId: 'test-1',
+    type: 'element_not_found',
+    message: `Element not found: ${selector}`,
+    timestamp: new Date(),
+    context: {
+      testConfig: {
+        name: 'checkout',
+        type: 'e2e',
+        filePath: '/checkout.spec.ts',
+        timeout: 5000,
+        environment: 'test',
+        parameters: {},
+        engineConfig: { engine: 'playwright', settings: {} },
+        healingConfig: { enabled: true, confidenceThreshold: 0.5, maxAttempts: 3, strategies: [], timeout: 10000 },
+        retryConfig: { maxRetries: 0, delay: 0, backoffMultiplier: 1, maxDelay: 0 }
+      },
+      browserState: {
+        url: 'http://localhost/checkout',
+        title: 'Checkout',
+        viewport: { width: 240, height: 160 },
+        consoleLogs: []
+      },
+      environment: { os: 'test', nodeVersion: '20.0.0', environment: 'test', availableMemory: 1024, cpuCount: 1 },
+      custom: { selector }
+    },
+    previousAttempts: []
+  };
+}
+
+const healingContext: HealingContext = {
+  availableStrategies: ['visual-match'],
+  previousAttempts: [],
+  systemState: { load: 10, resources: { memory: 0, cpu: 0, disk: 0 }, activeTests: 1, queueLength: 0 },
+  userPreferences: {
+    preferredStrategies: [],
+    riskTolerance: 'medium',
+    notifications: { onHealingAttempt: false, onHealingSuccess: false, onHealingFailure: false }
+  }
+};
+
+describe('ImageMatching', () => {
+  it('should round-trip images through the PNG codec', () => {
+    const image = renderPage(10, 10, 64, 40);
+
+    expect(decodePng(encodePng(image))).toEqual(image);
+  });
+
+  it('should decode RGB images using every row filter', () => {
+    const image = renderPage(4, 2, 60, 25);
+
+    expect(decodePng(encodeFilteredRgbPng(image))).toEqual(image);
+  });
+
+  it('should reject images that are not PNG', () => {
+    expect(() => decodePng(Buffer.from('GIF89a'))).toThrow('Not a PNG image');
+  });
+
+  it('should find a template at its exact position', () => {
+    const page = renderPage(150, 100);
+    const template = cropImage(renderPage(40, 30), { x: 40, y: 30, ...BUTTON });
+
+    const match = findTemplate(toGrayscale(page), toGrayscale(template), { coarseSize: 8 });
+
+    expect(match).toMatchObject({ x: 150, y: 100, ...BUTTON });
+    expect(match!.correlation).toBeGreaterThan(0.99);
+    expect(findTemplate(toGrayscale(template), toGrayscale(page))).toBeNull();
+  });
+
+  it('should compare difference hashes bit by bit', () => {
+    const button = toGrayscale(cropImage(renderPage(40, 30), { x: 40, y: 30, ...BUTTON }));
+    const background = toGrayscale(cropImage(renderPage(40, 30), { x: 150, y: 100, ...BUTTON }));
+
+    expect(differenceHash(button)).toMatch(/^[0-9a-f]{16}$/);
+    expect(hashSimilarity(differenceHash(button), differenceHash(button))).toBe(1);
+    expect(hashSimilarity(differenceHash(button), differenceHash(background))).toBeLessThan(0.8);
+  });
+});
+
+describe('VisualBaselineStore', () => {
+  let storage: Storage;
+  let store: VisualBaselineStore;
+
+  beforeEach(() => {
+    storage = createStorage();
+    store = new VisualBaselineStore(storage.visualBaselines);
+  });
+
+  afterEach(() => {
+    storage.close();
+  });
+
+  it('should store a crop of the element and replace it on the next capture', async () => {
+    const screenshot = encodePng(renderPage(40, 30));
+    const first = await store.record({
+      selector: '#pay',
+      url: 'http://localhost/checkout?step=1',
+      screenshot,
+      boundingBox: { x: 40.4, y: 29.6, ...BUTTON }
+    });
+
+    expect(first).toMatchObject({ selector: '#pay', url: 'http://localhost/checkout', boundingBox: { x: 40, y: 30, ...BUTTON } });
+    expect(decodePng(Buffer.from(first!.image, 'base64'))).toEqual(cropImage(renderPage(40, 30), { x: 40, y: 30, ...BUTTON }));
+
+    const second = await store.record({ selector: '#pay', url: 'http://localhost/checkout', screenshot, boundingBox: { x: 0, y: 0, ...BUTTON } });
+    expect(second!.id).toBe(first!.id);
+    expect(second!.createdAt).toEqual(first!.createdAt);
+    expect(await storage.visualBaselines.count()).toBe(1);
+  });
+
+  it('should skip elements outside the screenshot', async () => {
+    const baseline = await store.record({
+      selector: '#footer',
+      url: 'http://localhost/checkout',
+      screenshot: encodePng(renderPage(40, 30)),
+      boundingBox: { x: 10, y: 900, width: 100, height: 20 }
+    });
+
+    expect(baseline).toBeNull();
+  });
+
+  it('should prefer the baseline from the same page', async () => {
+    const screenshot = encodePng(renderPage(40, 30));
+    await store.record({ selector: '#pay', url: 'http://localhost/cart', screenshot, boundingBox: { x: 0, y: 0, ...BUTTON } });
+    await store.record({ selector: '#pay', url: 'http://localhost/checkout', screenshot, boundingBox: { x: 40, y: 30, ...BUTTON } });
+
+    expect((await store.find('#pay', 'http://localhost/cart#top'))!.url).toBe('http://localhost/cart');
+    expect((await store.find('#pay', 'http://localhost/unknown'))!.url).toBe('http://localhost/checkout');
+    expect(await store.find('#missing')).toBeNull();
+  });
+});
+
+describe('VisualMatchStrategy', () => {
+  let storage: Storage;
+  let store: VisualBaselineStore;
+  let probe: LocatorProbe;
+  let strategy: VisualMatchStrategy;
+  let page: ProbePage & { evaluate: jest.Mock; screenshot: jest.Mock };
+
+  beforeEach(async () => {
+    storage = createStorage();
+    store = new VisualBaselineStore(storage.visualBaselines);
+    probe = new LocatorProbe();
+    strategy = new VisualMatchStrategy(store, {}, probe);
+
+    await store.record({
+      selector: '#pay',
+      url: 'http://localhost/checkout',
+      screenshot: encodePng(renderPage(40, 30)),
+      boundingBox: { x: 40, y: 30, ...BUTTON }
+    });
+
+    page = {
+      locator: jest.fn().mockReturnValue({
+        count: jest.fn().mockResolvedValue(1),
+        nth: () => ({ isVisible: jest.fn().mockResolvedValue(true) })
+      }),
+      screenshot: jest.fn().mockResolvedValue(encodePng(renderPage(150, 100))),
+      evaluate: jest.fn().mockResolvedValue({ selector: '[data-testid="pay-now"]', overlap: 0.9 })
+    };
+    probe.attachPage('test-1', page);
+  });
+
+  afterEach(() => {
+    storage.close();
+  });
+
+  it('should map the visually matched region to a new selector', async () => {
+    const result = await strategy.heal(createFailure('#pay'), healingContext);
+
+    expect(result.success).toBe(true);
+    expect(page.evaluate).toHaveBeenCalledWith(expect.any(Function), { x: 150, y: 100, ...BUTTON });
+
+    const action = result.actions[0]!;
+    expect(action.type).toBe('update_selector');
+    expect(action.parameters).toMatchObject({
+      originalSelector: '#pay',
+      newSelector: '[data-testid="pay-now"]',
+      strategy: 'visual',
+      overlap: 0.9
+    });
+    expect(action.parameters['similarity']).toBeGreaterThan(0.95);
+    expect(result.confidence).toBeGreaterThan(0.8);
+  });
+
+  it('should fail when the page no longer shows anything similar', async () => {
+    const blank = renderPage(0, 0);
+    page.screenshot.mockResolvedValue(encodePng({ ...blank, data: blank.data.fill(255) }));
+
+    const result = await strategy.heal(createFailure('#pay'), healingContext);
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('below the similarity threshold');
+    expect(page.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('should fail when no element covers the matched region', async () => {
+    page.evaluate.mockResolvedValue({ selector: 'body > div', overlap: 0.2 });
+
+    const result = await strategy.heal(createFailure('#pay'), healingContext);
+
+    expect(result.success).toBe(false);
+    expect(result.actions[0]!.result).toBe('failure');
+    expect(result.message).toContain('overlap 0.20');
+  });
+
+  it('should require a baseline and a live page', async () => {
+    const noBaseline = await strategy.heal(createFailure('#unknown'), healingContext);
+    probe.detachPage('test-1');
+    const noPage = await strategy.heal(createFailure('#pay'), healingContext);
+
+    expect(noBaseline.message).toContain('No visual baseline recorded');
+    expect(noPage.message).toContain('No live page');
+    expect(await strategy.calculateConfidence(createFailure('#pay'), healingContext)).toBe(0);
+  });
+
+  it('should be registrable through the plugin registry', () => {
+    const registry = new PluginRegistry();
+    registry.registerHealingStrategy(strategy);
+
+    expect(registry.getHealingStrategy('visual-match')).toBe(strategy);
+    expect(registry.getHealingStrategiesByFailureType('element_not_found')).toContain(strategy);
+  });
+});
+
+describe('PlaywrightTestEngine visual baselines', () => {
+  let outputDir: string;
+  let storage: Storage;
+  let engine: PlaywrightTestEngine;
+
+  function createTestConfig(steps: any[]): TestConfig {
+    return {
+      name: 'checkout',
+      type: 'e2e',
+      filePath: 'tests/e2e/checkout.spec.ts',
+      timeout: 30000,
+      environment: 'test',
+      parameters: { steps },
+      engineConfig: { engine: 'playwright', settings: {} },
+      healingConfig: { enabled: false, confidenceThreshold: 0.5, maxAttempts: 0, strategies: [], timeout: 1000 },
+      retryConfig: { maxRetries: 0, delay: 0, backoffMultiplier: 1, maxDelay: 0 }
+    };
+  }
+
+  beforeEach(async () => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-baselines-'));
+    storage = createStorage();
+
+    mockPage.screenshot.mockResolvedValue(encodePng(renderPage(40, 30)));
+    mockPage.locator.mockImplementation((selector: string) => {
+      const count = selector === '#pay' ? 1 : 0;
+      return {
+        count: jest.fn().mockResolvedValue(count),
+        first: () => ({ boundingBox: jest.fn().mockResolvedValue(count ? { x: 40, y: 30, ...BUTTON } : null) })
+      };
+    });
+
+    const engineConfig: EngineConfig = {
+      engine: 'playwright',
+      version: '1.0.0',
+      settings: {
+        playwright: {
+          outputDir,
+          screenshots: { onFailure: false, onSuccess: false, mode: 'viewport', format: 'png', animations: 'disabled', elementBaselines: true }
+        }
+      }
+    };
+    engine = new PlaywrightTestEngine(undefined, new VisualBaselineStore(storage.visualBaselines));
+    await engine.initialize(engineConfig);
+  });
+
+  afterEach(async () => {
+    await engine.cleanup();
+    storage.close();
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  it('should store element crops when the run passes', async () => {
+    const result = await engine.execute(createTestConfig([
+      { type: 'navigate', url: 'http://localhost/checkout' },
+      { type: 'click', name: 'Pay', selector: '#pay' }
+    ]));
+
+    expect(result.status).toBe('passed');
+    expect(mockPage.screenshot).toHaveBeenCalledTimes(1);
+    const baselines = await storage.visualBaselines.findAll();
+    expect(baselines).toHaveLength(1);
+    expect(baselines[0]).toMatchObject({
+      selector: '#pay',
+      url: 'http://localhost/checkout',
+      testId: 'checkout',
+      boundingBox: { x: 40, y: 30, ...BUTTON }
+    });
+  });
+
+  it('should not store crops from a failing run', async () => {
+    mockPage.fill.mockRejectedValue(new Error('page.fill: Timeout 100ms exceeded.'));
+
+    const result = await engine.execute(createTestConfig([
+      { type: 'click', name: 'Pay', selector: '#pay' },
+      { type: 'fill', name: 'Email', selector: '#email', value: 'a@b.c' }
+    ]));
+
+    expect(result.status).toBe('failed');
+    expect(mockPage.screenshot).not.toHaveBeenCalled();
+    expect(await storage.visualBaselines.count()).toBe(0);
+  });
+});